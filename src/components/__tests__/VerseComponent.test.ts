@@ -147,7 +147,12 @@ describe('VerseComponent', () => {
     // Test 'b' key for bookmark
     await verseButton.trigger('keydown', { key: 'b' })
 
-    expect(userStore.addBookmark).toHaveBeenCalledWith('John', 3, 16)
+    expect(userStore.addBookmark).toHaveBeenCalledWith(
+      'John',
+      3,
+      16,
+      expect.objectContaining({ verseKey: 'JHN.3.16', sourceVersion: 'kjv' })
+    )
     expect(wrapper.emitted('verse-action')).toBeTruthy()
   })
 
@@ -102,7 +102,7 @@ describe('useBibleVersionManager', () => {
     await manager.downloadVersion('niv')
 
     expect(bibleStore.downloadVersion).toHaveBeenCalledWith('niv')
-    expect(appStore.setLoading).toHaveBeenCalledWith(true, 'Downloading New International Version...')
+    expect(appStore.setLoading).not.toHaveBeenCalled()
     expect(appStore.addNotification).toHaveBeenCalledWith('success', 'New International Version downloaded successfully')
   })
 
@@ -11,6 +11,14 @@ vi.mock('@/stores/user', () => ({
   }))
 }))
 
+// Mock the bible store - references pass through unchanged, as in the English scheme
+vi.mock('@/stores/bible', () => ({
+  useBibleStore: vi.fn(() => ({
+    toStoredReference: vi.fn(({ book, chapter, verse }) => ({ book, chapter, verse })),
+    getVerseAnchor: vi.fn(() => ({ verseKey: 'JHN.3.16', sourceVersion: 'kjv', textFingerprint: 'abc12345' }))
+  }))
+}))
+
 describe('useHighlighting', () => {
   let mockUserStore: any
 
@@ -82,7 +90,9 @@ describe('useHighlighting', () => {
     const result = await addHighlight(mockVerse, '#FFFF00', 0, 10)
 
     expect(mockUserStore.addHighlight).toHaveBeenCalledWith(
-      'John', 3, 16, '#FFFF00', 0, 10
+      'John', 3, 16, '#FFFF00', 0, 10,
+      { verseKey: 'JHN.3.16', sourceVersion: 'kjv', textFingerprint: 'abc12345' },
+      { exact: 'For God so', prefix: '', suffix: ' loved the world...' }
     )
     expect(result).toEqual(mockHighlight)
   })
@@ -152,4 +162,72 @@ describe('useHighlighting', () => {
     expect(element.style.backgroundColor).toContain('255, 255, 0')
     expect(element.style.borderLeft).toContain('4px solid')
   })
+
+  it('should highlight in a category and show its color', async () => {
+    const category = {
+      id: 'category-1',
+      userId: 'user-1',
+      name: 'Promises',
+      colorHex: '#00FF00',
+      position: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      syncStatus: 'synced' as const
+    }
+    const highlight = {
+      id: 'highlight-1',
+      userId: 'user-1',
+      book: 'John',
+      chapter: 3,
+      verse: 16,
+      colorHex: '#FFFF00',
+      categoryId: category.id,
+      createdAt: new Date(),
+      syncStatus: 'synced' as const
+    }
+    mockUserStore.addHighlight.mockResolvedValue(highlight)
+    mockUserStore.getHighlightColor = vi.fn(() => category.colorHex)
+    mockUserStore.getHighlightCategory = vi.fn(() => category)
+
+    const { addHighlight, applyHighlightToElement } = useHighlighting()
+    const verse = { id: '1', book: 'John', chapter: 3, verse: 16, text: 'For God so loved the world...', version: 'kjv' }
+    await addHighlight(verse, '#FFFF00', 0, 10, { category })
+
+    expect(mockUserStore.addHighlight).toHaveBeenCalledWith(
+      'John', 3, 16, '#00FF00', 0, 10,
+      expect.any(Object), expect.any(Object), { categoryId: 'category-1' }
+    )
+
+    const element = document.createElement('div')
+    element.textContent = 'For God so loved the world...'
+    applyHighlightToElement(element, { ...highlight, startOffset: 0, endOffset: 10 })
+
+    const span = element.querySelector('.verse-highlight') as HTMLElement
+    expect(span.className).toContain('highlight-green')
+    expect(span.title).toBe('Highlighted with Promises')
+  })
+
+  it('should draw overlapping highlights as nested layers and redraw them cleanly', () => {
+    const { renderHighlights } = useHighlighting()
+    const element = document.createElement('span')
+    element.innerHTML = 'For God <em>so loved</em> the world'
+
+    const base = { userId: 'user-1', book: 'John', chapter: 3, verse: 16, createdAt: new Date(), syncStatus: 'synced' as const }
+    const fill = { ...base, id: 'fill', colorHex: '#FFFF00' }
+    const underline = { ...base, id: 'underline', colorHex: '#0080FF', style: 'underline' as const }
+
+    const placed = [
+      { highlight: fill, range: { status: 'exact' as const, startOffset: 4, endOffset: 16 } },
+      { highlight: underline, range: { status: 'exact' as const, startOffset: 8, endOffset: 26 } }
+    ]
+    renderHighlights(element, placed)
+    renderHighlights(element, placed)
+
+    expect(element.textContent).toBe('For God so loved the world')
+    const overlap = element.querySelector('[data-highlight-id="underline"] [data-highlight-id="fill"], [data-highlight-id="fill"] [data-highlight-id="underline"]') as HTMLElement
+    expect(overlap.textContent).toBe('so loved')
+    expect(element.querySelectorAll('[data-highlight-id="fill"]')).toHaveLength(2)
+    expect((element.querySelector('[data-highlight-id="underline"]') as HTMLElement).style.textDecorationLine).toBe('underline')
+    expect(element.querySelector('em')?.textContent).toBe('so loved')
+  })
 })
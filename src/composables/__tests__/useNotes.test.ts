@@ -14,6 +14,14 @@ vi.mock('@/stores/user', () => ({
   }))
 }))
 
+// Mock the bible store - references pass through unchanged, as in the English scheme
+vi.mock('@/stores/bible', () => ({
+  useBibleStore: vi.fn(() => ({
+    toStoredReference: vi.fn(({ book, chapter, verse }) => ({ book, chapter, verse })),
+    getVerseAnchor: vi.fn(() => ({ verseKey: 'JHN.3.16', sourceVersion: 'kjv', textFingerprint: 'abc12345' }))
+  }))
+}))
+
 describe('useNotes', () => {
   let mockUserStore: any
 
@@ -23,6 +31,7 @@ describe('useNotes', () => {
       updateNote: vi.fn(),
       removeNote: vi.fn(),
       getNotesForVerse: vi.fn(() => []),
+      getNotesMentioningVerse: vi.fn(() => []),
       notesWithReferences: [],
       recentNotes: []
     }
@@ -66,7 +75,8 @@ describe('useNotes', () => {
     const result = await createNote(mockVerse, 'This is a test note')
 
     expect(mockUserStore.addNote).toHaveBeenCalledWith(
-      'John', 3, 16, 'This is a test note'
+      'John', 3, 16, 'This is a test note',
+      { verseKey: 'JHN.3.16', sourceVersion: 'kjv', textFingerprint: 'abc12345' }
     )
     expect(result).toEqual(mockNote)
   })
@@ -76,7 +86,7 @@ describe('useNotes', () => {
 
     await updateNote('note-1', 'Updated content')
 
-    expect(mockUserStore.updateNote).toHaveBeenCalledWith('note-1', 'Updated content')
+    expect(mockUserStore.updateNote).toHaveBeenCalledWith('note-1', 'Updated content', {})
   })
 
   it('should delete note', async () => {
@@ -111,6 +121,16 @@ describe('useNotes', () => {
     expect(result).toEqual(mockNotes)
   })
 
+  it('should get backlinks without the notes attached to the verse', () => {
+    const { getBacklinks } = useNotes()
+
+    mockUserStore.getNotesForVerse.mockReturnValue([{ id: 'note-1' }])
+    mockUserStore.getNotesMentioningVerse.mockReturnValue([{ id: 'note-1' }, { id: 'note-2' }])
+
+    expect(getBacklinks('JHN', 3, 16)).toEqual([{ id: 'note-2' }])
+    expect(mockUserStore.getNotesMentioningVerse).toHaveBeenCalledWith('JHN', 3, 16)
+  })
+
   it('should check if verse has notes', () => {
     const { hasNotes } = useNotes()
 
@@ -170,6 +190,7 @@ describe('useNotes', () => {
     expect(getWordCount('Hello world')).toBe(2)
     expect(getWordCount('  Hello   world  test  ')).toBe(3)
     expect(getWordCount('')).toBe(0)
+    expect(getWordCount('## Heading\n- **bold** [[Rom 8:28]]')).toBe(4)
   })
 
   it('should truncate content', () => {
@@ -43,6 +43,10 @@ export function useBibleVersionManager() {
     bibleStore.getVersionProgress(versionId)
   )
 
+  const getDownloadState = computed(() => (versionId: string) =>
+    bibleStore.getDownloadState(versionId)
+  )
+
   const getVersionStorageInfo = computed(() => (versionId: string) =>
     storageInfo.value[versionId] || { size: 0, verseCount: 0, bookCount: 0 }
   )
@@ -56,10 +60,13 @@ export function useBibleVersionManager() {
       const version = availableVersions.value.find(v => v.id === versionId)
       const versionName = version?.name || versionId
 
-      appStore.setLoading(true, `Downloading ${versionName}...`)
-
+      // Progress is shown inline rather than in the loading overlay, so the download can be paused
       await bibleStore.downloadVersion(versionId)
 
+      if (bibleStore.getDownloadState(versionId)?.status === 'paused') {
+        return
+      }
+
       // Update storage info for the downloaded version
       await updateVersionStorageInfo(versionId)
 
@@ -73,7 +80,25 @@ export function useBibleVersionManager() {
     } finally {
       isDownloading.value = false
       downloadingVersionId.value = null
-      appStore.setLoading(false)
+    }
+  }
+
+  const pauseDownload = async (versionId: string): Promise<void> => {
+    try {
+      await bibleStore.pauseDownload(versionId)
+    } catch (error) {
+      console.error('Failed to pause download:', error)
+      appStore.addNotification('error', `Failed to pause ${getVersionName(versionId)}`)
+    }
+  }
+
+  const cancelDownload = async (versionId: string): Promise<void> => {
+    try {
+      await bibleStore.cancelDownload(versionId)
+      appStore.addNotification('info', `${getVersionName(versionId)} download cancelled`)
+    } catch (error) {
+      console.error('Failed to cancel download:', error)
+      appStore.addNotification('error', `Failed to cancel ${getVersionName(versionId)}`)
     }
   }
 
@@ -263,10 +288,14 @@ export function useBibleVersionManager() {
     currentVersion,
     isVersionDownloaded,
     getVersionProgress,
+    getDownloadState,
     getVersionStorageInfo,
 
     // Methods
     downloadVersion,
+    resumeDownload: downloadVersion,
+    pauseDownload,
+    cancelDownload,
     removeVersion,
     validateVersion,
     setCurrentVersion,
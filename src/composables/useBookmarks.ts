@@ -1,9 +1,11 @@
 import { ref, computed } from 'vue'
 import { useUserStore } from '@/stores/user'
+import { useBibleStore } from '@/stores/bible'
 import type { Bookmark, Verse } from '@/types'
 
 export function useBookmarks() {
   const userStore = useUserStore()
+  const bibleStore = useBibleStore()
 
   // State
   const isCreatingBookmark = ref(false)
@@ -17,8 +19,9 @@ export function useBookmarks() {
     try {
       isCreatingBookmark.value = true
 
-      // Add to user store using the expected parameters
-      const bookmark = await userStore.addBookmark(verse.book, verse.chapter, verse.verse)
+      // Stored against the English-numbered verse so it shows in every version
+      const ref = bibleStore.toStoredReference(verse, verse.version)
+      const bookmark = await userStore.addBookmark(ref.book, ref.chapter, ref.verse, bibleStore.getVerseAnchor(verse))
 
       return bookmark
     } finally {
@@ -49,18 +52,15 @@ export function useBookmarks() {
   }
 
   function isBookmarked(verse: Verse): boolean {
-    return allBookmarks.value.some(bookmark =>
-      bookmark.book === verse.book &&
-      bookmark.chapter === verse.chapter &&
-      bookmark.verse === verse.verse
-    )
+    return getBookmark(verse) !== undefined
   }
 
   function getBookmark(verse: Verse): Bookmark | undefined {
+    const ref = bibleStore.toStoredReference(verse, verse.version)
     return allBookmarks.value.find(bookmark =>
-      bookmark.book === verse.book &&
-      bookmark.chapter === verse.chapter &&
-      bookmark.verse === verse.verse
+      bookmark.book === ref.book &&
+      bookmark.chapter === ref.chapter &&
+      bookmark.verse === ref.verse
     )
   }
 
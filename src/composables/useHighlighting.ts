@@ -1,6 +1,10 @@
 import { ref, computed } from 'vue'
 import { useUserStore } from '@/stores/user'
-import type { Highlight, Verse } from '@/types'
+import { useBibleStore } from '@/stores/bible'
+import { createTextQuote } from '@/utils/verseAnchors'
+import { layerRanges, resolveHighlightOnVerse } from '@/utils/highlightRanges'
+import type { Highlight, HighlightCategory, HighlightDetails, HighlightStyle, Verse } from '@/types'
+import type { ResolvedHighlightRange } from '@/types/verseAnchors'
 
 export interface HighlightColor {
   name: string
@@ -18,8 +22,29 @@ export const HIGHLIGHT_COLORS: HighlightColor[] = [
   { name: 'Pink', hex: '#FFC0CB', className: 'highlight-pink' }
 ]
 
+// Starting points for a color-coding system; users name and recolor their own
+export const SUGGESTED_HIGHLIGHT_CATEGORIES: Pick<HighlightCategory, 'name' | 'colorHex' | 'icon' | 'description'>[] = [
+  { name: 'Promises', colorHex: '#00FF00', icon: '🤝', description: 'What God promises' },
+  { name: 'Commands', colorHex: '#FF0000', icon: '⚠️', description: 'Instructions to follow' },
+  { name: 'God’s character', colorHex: '#FFFF00', icon: '✨', description: 'Who God is' },
+  { name: 'Prayers', colorHex: '#0080FF', icon: '🙏', description: 'Prayers and praise' },
+  { name: 'Sin and warning', colorHex: '#FFA500', icon: '❗', description: 'Warnings and consequences' }
+]
+
+export interface PlacedHighlight {
+  highlight: Highlight
+  range: ResolvedHighlightRange
+}
+
+export interface HighlightOptions {
+  category?: HighlightCategory // sets the color too
+  endVerse?: Verse // where a highlight that runs past its first verse ends; endOffset is into it
+  style?: HighlightStyle
+}
+
 export function useHighlighting() {
   const userStore = useUserStore()
+  const bibleStore = useBibleStore()
 
   // State
   const isHighlighting = ref(false)
@@ -27,6 +52,7 @@ export function useHighlighting() {
 
   // Computed
   const availableColors = computed(() => HIGHLIGHT_COLORS)
+  const categories = computed(() => userStore.sortedHighlightCategories)
 
   // Methods
   function getColorByHex(hex: string): HighlightColor | undefined {
@@ -38,23 +64,58 @@ export function useHighlighting() {
     return color?.className || 'highlight-custom'
   }
 
+  // The color a highlight shows in: its category's, if it has one
+  function getHighlightColor(highlight: Highlight): string {
+    return userStore.getHighlightColor?.(highlight) ?? highlight.colorHex
+  }
+
+  function getHighlightLabel(highlight: Highlight): string {
+    const category = userStore.getHighlightCategory?.(highlight.categoryId)
+    return category?.name ?? getColorByHex(highlight.colorHex)?.name ?? 'custom color'
+  }
+
+  /**
+   * Highlight words in a verse, or from a verse through a later one. A category sets
+   * the color.
+   */
   async function addHighlight(
     verse: Verse,
     colorHex: string,
     startOffset?: number,
-    endOffset?: number
+    endOffset?: number,
+    options: HighlightOptions = {}
   ): Promise<Highlight> {
     try {
       isHighlighting.value = true
 
-      const highlight = await userStore.addHighlight(
-        verse.book,
-        verse.chapter,
-        verse.verse,
-        colorHex,
-        startOffset,
-        endOffset
-      )
+      const ref = bibleStore.toStoredReference(verse, verse.version)
+      const endVerse = options.endVerse && (options.endVerse.chapter !== verse.chapter || options.endVerse.verse !== verse.verse)
+        ? options.endVerse
+        : undefined
+      const details: HighlightDetails = {}
+
+      // Keep the highlighted words too, so the highlight can be found again in other wording
+      let quote: ReturnType<typeof createTextQuote> | undefined
+      if (endVerse) {
+        const endRef = bibleStore.toStoredReference(endVerse, endVerse.version)
+        details.endChapter = endRef.chapter
+        details.endVerse = endRef.verse
+        if (startOffset !== undefined) quote = createTextQuote(verse.text, startOffset, verse.text.length)
+        if (endOffset !== undefined) details.endQuote = createTextQuote(endVerse.text, 0, endOffset)
+      } else if (startOffset !== undefined && endOffset !== undefined) {
+        quote = createTextQuote(verse.text, startOffset, endOffset)
+      }
+
+      if (options.category) {
+        colorHex = options.category.colorHex
+        details.categoryId = options.category.id
+      }
+      if (options.style && options.style !== 'fill') details.style = options.style
+
+      const anchor = bibleStore.getVerseAnchor(verse)
+      const highlight = Object.keys(details).length > 0
+        ? await userStore.addHighlight(ref.book, ref.chapter, ref.verse, colorHex, startOffset, endOffset, anchor, quote, details)
+        : await userStore.addHighlight(ref.book, ref.chapter, ref.verse, colorHex, startOffset, endOffset, anchor, quote)
 
       return highlight
     } finally {
@@ -85,11 +146,13 @@ export function useHighlighting() {
   ): HTMLElement | null {
     const textContent = element.textContent || ''
 
+    const colorHex = getHighlightColor(highlight)
+
     // If no specific offsets, highlight the entire verse
     if (highlight.startOffset === undefined || highlight.endOffset === undefined) {
-      element.classList.add(getColorClassName(highlight.colorHex))
-      element.style.backgroundColor = highlight.colorHex + '40' // Add transparency
-      element.style.borderLeft = `4px solid ${highlight.colorHex}`
+      element.classList.add(getColorClassName(colorHex))
+      element.style.backgroundColor = colorHex + '40' // Add transparency
+      element.style.borderLeft = `4px solid ${colorHex}`
 
       highlightElements.value.set(highlight.id, element)
       return element
@@ -103,21 +166,19 @@ export function useHighlighting() {
 
     try {
       const range = document.createRange()
-      const textNode = getFirstTextNode(element)
+      const start = findTextPosition(element, startOffset)
+      const end = findTextPosition(element, endOffset)
 
-      if (!textNode) return null
+      if (!start || !end) return null
 
-      range.setStart(textNode, startOffset)
-      range.setEnd(textNode, endOffset)
+      range.setStart(start.node, start.offset)
+      range.setEnd(end.node, end.offset)
 
-      const highlightSpan = document.createElement('span')
-      highlightSpan.className = `verse-highlight ${getColorClassName(highlight.colorHex)}`
-      highlightSpan.style.backgroundColor = highlight.colorHex + '40'
-      highlightSpan.style.borderBottom = `2px solid ${highlight.colorHex}`
-      highlightSpan.dataset.highlightId = highlight.id
-      highlightSpan.title = `Highlighted with ${getColorByHex(highlight.colorHex)?.name || 'custom color'}`
+      const highlightSpan = createHighlightSpan(highlight)
 
-      range.surroundContents(highlightSpan)
+      // Structured verses render styled runs as separate elements, so the range may cross them
+      highlightSpan.appendChild(range.extractContents())
+      range.insertNode(highlightSpan)
 
       highlightElements.value.set(highlight.id, highlightSpan)
       return highlightSpan
@@ -127,6 +188,99 @@ export function useHighlighting() {
     }
   }
 
+  function createHighlightSpan(highlight: Highlight, depth = 0, layerCount = 1): HTMLSpanElement {
+    const colorHex = getHighlightColor(highlight)
+    const style = highlight.style ?? 'fill'
+    const span = document.createElement('span')
+
+    span.className = `verse-highlight verse-highlight-${style} ${getColorClassName(colorHex)}`
+    span.dataset.highlightId = highlight.id
+    span.title = `Highlighted with ${getHighlightLabel(highlight)}`
+
+    // Nested layers are offset so each one's underline or box stays visible
+    switch (style) {
+      case 'fill':
+        span.style.backgroundColor = colorHex + '40'
+        span.style.borderBottom = `2px solid ${colorHex}`
+        break
+      case 'underline':
+        span.style.textDecorationLine = 'underline'
+        span.style.textDecorationColor = colorHex
+        span.style.textDecorationThickness = '2px'
+        span.style.textUnderlineOffset = `${3 + depth * 3}px`
+        break
+      case 'box':
+        span.style.outline = `1.5px solid ${colorHex}`
+        span.style.outlineOffset = `${(layerCount - 1 - depth) * 2}px`
+        span.style.borderRadius = '2px'
+        break
+    }
+
+    return span
+  }
+
+  function clearHighlightsFrom(element: HTMLElement): void {
+    element.querySelectorAll<HTMLElement>('[data-highlight-id]').forEach(removeHighlightElement)
+    element.classList.forEach(className => {
+      if (className.startsWith('highlight-')) element.classList.remove(className)
+    })
+    element.style.backgroundColor = ''
+    element.style.borderLeft = ''
+  }
+
+  /**
+   * Draw a verse's highlights, replacing whatever was drawn before, so it can be rerun
+   * whenever the verse re-renders. Overlapping highlights are split into pieces holding
+   * one nested span per highlight, the bottom layer outermost.
+   */
+  function renderHighlights(element: HTMLElement, placed: PlacedHighlight[]): void {
+    clearHighlightsFrom(element)
+    highlightElements.value.clear()
+
+    const textLength = element.textContent?.length ?? 0
+    const ranges: { highlight: Highlight; reanchored: boolean; startOffset: number; endOffset: number }[] = []
+    for (const { highlight, range } of placed) {
+      if (range.status === 'unmapped') continue
+      if (range.startOffset === undefined || range.endOffset === undefined) {
+        applyHighlightToElement(element, highlight)
+        continue
+      }
+      ranges.push({
+        highlight,
+        reanchored: range.status === 'reanchored',
+        startOffset: Math.max(0, range.startOffset),
+        endOffset: Math.min(textLength, range.endOffset)
+      })
+    }
+
+    for (const piece of layerRanges(ranges)) {
+      const start = findTextPosition(element, piece.startOffset, 'start')
+      const end = findTextPosition(element, piece.endOffset)
+      if (!start || !end) continue
+
+      const spans = piece.layers.map((layer, depth) => {
+        const span = createHighlightSpan(layer.highlight, depth, piece.layers.length)
+        if (layer.reanchored) {
+          span.classList.add('verse-highlight-reanchored')
+          span.title = `Highlighted in ${layer.highlight.sourceVersion?.toUpperCase() ?? 'another version'}`
+        }
+        if (!highlightElements.value.has(layer.highlight.id)) highlightElements.value.set(layer.highlight.id, span)
+        return span
+      })
+      spans.slice(1).forEach((span, index) => spans[index].appendChild(span))
+
+      try {
+        const range = document.createRange()
+        range.setStart(start.node, start.offset)
+        range.setEnd(end.node, end.offset)
+        spans[spans.length - 1].appendChild(range.extractContents())
+        range.insertNode(spans[0])
+      } catch (error) {
+        console.error('Failed to apply highlight:', error)
+      }
+    }
+  }
+
   function removeHighlightElement(element: HTMLElement): void {
     const parent = element.parentNode
     if (parent) {
@@ -141,14 +295,24 @@ export function useHighlighting() {
     }
   }
 
-  function getFirstTextNode(element: HTMLElement): Text | null {
+  // Text node and local offset for a character offset into the element's whole text. A start
+  // on the boundary between two nodes goes in the later one, so nothing before it is split off.
+  function findTextPosition(element: HTMLElement, offset: number, edge: 'start' | 'end' = 'end'): { node: Text; offset: number } | null {
     const walker = document.createTreeWalker(
       element,
       NodeFilter.SHOW_TEXT,
       null
     )
 
-    return walker.nextNode() as Text | null
+    let remaining = offset
+    let node = walker.nextNode() as Text | null
+    while (node) {
+      const length = node.nodeValue?.length ?? 0
+      if (remaining < length || (remaining === length && edge === 'end')) return { node, offset: remaining }
+      remaining -= length
+      node = walker.nextNode() as Text | null
+    }
+    return null
   }
 
   function clearAllHighlights(): void {
@@ -166,6 +330,18 @@ export function useHighlighting() {
     return getHighlightsForVerse(book, chapter, verse).length > 0
   }
 
+  /**
+   * The highlights on a verse, including ones running through it from other verses,
+   * with where each falls in this version's text
+   */
+  function getPlacedHighlights(verse: Verse): PlacedHighlight[] {
+    const ref = bibleStore.toStoredReference(verse, verse.version)
+    return getHighlightsForVerse(ref.book, ref.chapter, ref.verse).map(highlight => ({
+      highlight,
+      range: resolveHighlightOnVerse(highlight, verse, ref)
+    }))
+  }
+
   return {
     // State
     isHighlighting,
@@ -173,16 +349,22 @@ export function useHighlighting() {
 
     // Computed
     availableColors,
+    categories,
 
     // Methods
     getColorByHex,
     getColorClassName,
+    getHighlightColor,
+    getHighlightLabel,
     addHighlight,
     removeHighlight,
     applyHighlightToElement,
+    renderHighlights,
+    clearHighlightsFrom,
     removeHighlightElement,
     clearAllHighlights,
     getHighlightsForVerse,
-    hasHighlights
+    hasHighlights,
+    getPlacedHighlights
   }
 }
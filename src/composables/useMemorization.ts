@@ -5,21 +5,25 @@
 
 import { ref, computed } from 'vue'
 import { memorizationService } from '@/services/memorizationService'
-import type { MemorizationCard, MemorizationStats } from '@/types/quickWins'
+import { useUserStore } from '@/stores/user'
+import type { MemorizationCard, MemorizationSettings, MemorizationStats, ReviewMode } from '@/types/quickWins'
+import { parseScriptureReference } from '@/utils/scriptureReference'
 import { useToast } from './useToast'
 
 export function useMemorization() {
   const { showToast } = useToast()
+  const userStore = useUserStore()
 
   const cards = ref<MemorizationCard[]>([])
   const stats = ref<MemorizationStats | null>(null)
+  const settings = ref<MemorizationSettings | null>(null)
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
   // Computed properties
   const cardsDue = computed(() =>
     cards.value.filter(card =>
-      card.nextReview <= new Date() && !card.mastered
+      card.nextReview <= new Date() && !card.mastered && !card.locked
     )
   )
 
@@ -34,15 +38,24 @@ export function useMemorization() {
     return Math.round((masteredCards.value.length / totalCards.value) * 100)
   })
 
+  function requireUserId(): string {
+    if (!userStore.profile) {
+      throw new Error('User must be authenticated to memorize verses')
+    }
+    return userStore.profile.id
+  }
+
   /**
    * Load all memorization cards
    */
   async function loadCards() {
+    if (!userStore.profile) return
+
     isLoading.value = true
     error.value = null
 
     try {
-      cards.value = await memorizationService.getCards()
+      cards.value = await memorizationService.getCards(userStore.profile.id)
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to load cards'
       showToast('Failed to load memorization cards', 'error')
@@ -55,13 +68,39 @@ export function useMemorization() {
    * Load memorization statistics
    */
   async function loadStats() {
+    if (!userStore.profile) return
+
     try {
-      stats.value = await memorizationService.getStats()
+      stats.value = await memorizationService.getStats(userStore.profile.id)
     } catch (err) {
       console.warn('Failed to load memorization stats:', err)
     }
   }
 
+  /**
+   * Load scheduler and daily limit settings
+   */
+  async function loadSettings() {
+    try {
+      settings.value = await memorizationService.getSettings()
+    } catch (err) {
+      console.warn('Failed to load memorization settings:', err)
+    }
+  }
+
+  /**
+   * Update scheduler and daily limit settings
+   */
+  async function updateSettings(updates: Partial<MemorizationSettings>) {
+    try {
+      settings.value = await memorizationService.updateSettings(updates)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to save settings'
+      showToast('error', 'Failed to save memorization settings')
+      throw err
+    }
+  }
+
   /**
    * Create a new memorization card
    */
@@ -77,6 +116,7 @@ export function useMemorization() {
 
     try {
       const newCard = await memorizationService.createCard(
+        requireUserId(),
         verseId,
         verseText,
         verseReference,
@@ -100,17 +140,60 @@ export function useMemorization() {
     }
   }
 
+  /**
+   * Create chunk cards for a passage such as "Psalm 23" or "Romans 8:28-39"
+   */
+  async function createPassage(
+    reference: string,
+    bibleVersionId: string,
+    difficulty: 'easy' | 'medium' | 'hard' = 'medium'
+  ) {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const passage = parseScriptureReference(reference)
+      if (!passage || passage.startChapter === undefined) {
+        throw new Error('Enter a chapter or verse range, e.g. Psalm 23 or Romans 8:28-39')
+      }
+
+      const newCards = await memorizationService.createPassage(requireUserId(), passage, bibleVersionId, difficulty)
+
+      cards.value.unshift(...newCards)
+      showToast('success', `${newCards[0].passageReference} added to memorization!`)
+
+      await loadStats()
+
+      return newCards
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to add passage'
+      showToast('error', error.value)
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
   /**
    * Record a review session
    */
-  async function recordReview(cardId: string, quality: number, timeSpent: number = 0) {
+  async function recordReview(
+    cardId: string,
+    quality: number,
+    timeSpent: number = 0,
+    reviewMode: ReviewMode = 'reveal'
+  ) {
     try {
-      const updatedCard = await memorizationService.recordReview(cardId, quality, timeSpent)
+      const updatedCard = await memorizationService.recordReview(cardId, quality, timeSpent, reviewMode)
 
-      // Update the card in our local array
-      const index = cards.value.findIndex(card => card.id === cardId)
-      if (index !== -1) {
-        cards.value[index] = updatedCard
+      // Update the card in our local array; a passage review may also have unlocked the next chunk
+      if (updatedCard.passageId) {
+        cards.value = await memorizationService.getCards(updatedCard.userId)
+      } else {
+        const index = cards.value.findIndex(card => card.id === cardId)
+        if (index !== -1) {
+          cards.value[index] = updatedCard
+        }
       }
 
       // Show feedback based on quality
@@ -133,15 +216,38 @@ export function useMemorization() {
     }
   }
 
+  /**
+   * Set a card's own review exercise, or null to use the session's
+   */
+  async function setReviewMode(cardId: string, reviewMode: ReviewMode | null) {
+    try {
+      const updatedCard = await memorizationService.setReviewMode(cardId, reviewMode)
+
+      const index = cards.value.findIndex(card => card.id === cardId)
+      if (index !== -1) {
+        cards.value[index] = updatedCard
+      }
+
+      return updatedCard
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to update review mode'
+      showToast('error', 'Failed to update review mode')
+      throw err
+    }
+  }
+
   /**
    * Delete a memorization card
    */
   async function deleteCard(cardId: string) {
     try {
+      const deleted = cards.value.find(card => card.id === cardId)
       await memorizationService.deleteCard(cardId)
 
-      // Remove from local array
-      cards.value = cards.value.filter(card => card.id !== cardId)
+      // Remove from local array, along with the rest of its passage
+      cards.value = cards.value.filter(card =>
+        card.id !== cardId && (!deleted?.passageId || card.passageId !== deleted.passageId)
+      )
 
       showToast('Card removed from memorization', 'info')
 
@@ -155,11 +261,16 @@ export function useMemorization() {
   }
 
   /**
-   * Get cards due for review
+   * Get cards due for review, within today's new-card and review limits
    */
   async function loadCardsDue() {
+    if (!userStore.profile) return []
+
     try {
-      const dueCards = await memorizationService.getCardsDueForReview()
+      const dueCards = await memorizationService.getCardsDueForReview(userStore.profile.id)
+      if (dueCards.length === 0 && cardsDue.value.length > 0) {
+        showToast('info', 'You\'ve reached today\'s review limit. More cards tomorrow!')
+      }
       return dueCards
     } catch (err) {
       console.warn('Failed to load cards due for review:', err)
@@ -185,6 +296,7 @@ export function useMemorization() {
     // State
     cards,
     stats,
+    settings,
     isLoading,
     error,
 
@@ -197,8 +309,12 @@ export function useMemorization() {
     // Methods
     loadCards,
     loadStats,
+    loadSettings,
+    updateSettings,
     createCard,
+    createPassage,
     recordReview,
+    setReviewMode,
     deleteCard,
     loadCardsDue,
     isVerseMemorized,
@@ -1,20 +1,31 @@
 import { ref, computed } from 'vue'
 import { useUserStore } from '@/stores/user'
-import type { Note, Verse } from '@/types'
+import { useBibleStore } from '@/stores/bible'
+import type { Note, NoteScope, Verse } from '@/types'
+import { markdownToPlainText } from '@/utils/noteMarkdown'
+import { compareNoteLocations, getNoteScope, toNoteLocation } from '@/utils/notePassages'
+import { parseScriptureReference } from '@/utils/scriptureReference'
 
 export interface NoteFilter {
   searchQuery?: string
   book?: string
+  notebookId?: string | null // null for notes outside any notebook
+  tag?: string
+  scope?: NoteScope
   dateRange?: {
     start: Date
     end: Date
   }
-  sortBy?: 'date' | 'book' | 'relevance'
+  sortBy?: 'date' | 'book' | 'relevance' | 'position'
   sortOrder?: 'asc' | 'desc'
 }
 
+// notesByBook key for notes that aren't attached to a passage
+const UNATTACHED_GROUP = 'Unattached'
+
 export function useNotes() {
   const userStore = useUserStore()
+  const bibleStore = useBibleStore()
 
   // State
   const isCreatingNote = ref(false)
@@ -36,8 +47,9 @@ export function useNotes() {
       const query = filter.searchQuery.toLowerCase()
       notes = notes.filter(note =>
         note.content.toLowerCase().includes(query) ||
+        markdownToPlainText(note.content).toLowerCase().includes(query) ||
         note.reference.toLowerCase().includes(query) ||
-        note.book.toLowerCase().includes(query)
+        (note.book?.toLowerCase().includes(query) ?? false)
       )
     }
 
@@ -46,6 +58,17 @@ export function useNotes() {
       notes = notes.filter(note => note.book === filter.book)
     }
 
+    // Apply notebook, tag and scope filters
+    if (filter.notebookId !== undefined) {
+      notes = notes.filter(note => (note.notebookId ?? null) === filter.notebookId)
+    }
+    if (filter.tag) {
+      notes = notes.filter(note => note.tags?.includes(filter.tag!))
+    }
+    if (filter.scope) {
+      notes = notes.filter(note => getNoteScope(note) === filter.scope)
+    }
+
     // Apply date range filter
     if (filter.dateRange) {
       notes = notes.filter(note => {
@@ -63,7 +86,11 @@ export function useNotes() {
           comparison = new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
           break
         case 'book':
-          comparison = a.book.localeCompare(b.book) || a.chapter - b.chapter || a.verse - b.verse
+          comparison = compareNoteLocations(a, b)
+          break
+        case 'position':
+          // Notebook order
+          comparison = (b.position ?? 0) - (a.position ?? 0)
           break
         case 'relevance':
           // If there's a search query, sort by relevance (simple word count match)
@@ -92,20 +119,16 @@ export function useNotes() {
     const grouped: Record<string, typeof allNotes.value> = {}
 
     allNotes.value.forEach(note => {
-      if (!grouped[note.book]) {
-        grouped[note.book] = []
+      const book = note.book ?? UNATTACHED_GROUP
+      if (!grouped[book]) {
+        grouped[book] = []
       }
-      grouped[note.book].push(note)
+      grouped[book].push(note)
     })
 
     // Sort notes within each book
     Object.keys(grouped).forEach(book => {
-      grouped[book].sort((a, b) => {
-        if (a.chapter !== b.chapter) {
-          return a.chapter - b.chapter
-        }
-        return a.verse - b.verse
-      })
+      grouped[book].sort(compareNoteLocations)
     })
 
     return grouped
@@ -116,11 +139,13 @@ export function useNotes() {
     try {
       isCreatingNote.value = true
 
+      const ref = bibleStore.toStoredReference(verse, verse.version)
       const note = await userStore.addNote(
-        verse.book,
-        verse.chapter,
-        verse.verse,
-        content
+        ref.book,
+        ref.chapter,
+        ref.verse,
+        content,
+        bibleStore.getVerseAnchor(verse)
       )
 
       return note
@@ -129,10 +154,36 @@ export function useNotes() {
     }
   }
 
-  async function updateNote(noteId: string, content: string): Promise<void> {
+  /**
+   * Create a note on a typed reference ("Eph 2:1-10", "Ps 23") or, with an empty
+   * reference, one that isn't attached to scripture
+   */
+  async function createPassageNote(
+    reference: string,
+    content: string,
+    details: Partial<Pick<Note, 'notebookId' | 'tags'>> = {}
+  ): Promise<Note> {
+    const passage = reference.trim() ? parseScriptureReference(reference) : null
+    if (reference.trim() && !passage) {
+      throw new Error(`Couldn't read the reference "${reference}"`)
+    }
+
+    try {
+      isCreatingNote.value = true
+      return await userStore.addPassageNote(toNoteLocation(passage), content, details)
+    } finally {
+      isCreatingNote.value = false
+    }
+  }
+
+  async function updateNote(
+    noteId: string,
+    content: string,
+    details: Parameters<typeof userStore.updateNote>[2] = {}
+  ): Promise<void> {
     try {
       isUpdatingNote.value = true
-      await userStore.updateNote(noteId, content)
+      await userStore.updateNote(noteId, content, details)
     } finally {
       isUpdatingNote.value = false
     }
@@ -146,6 +197,12 @@ export function useNotes() {
     return userStore.getNotesForVerse(book, chapter, verse)
   }
 
+  // Notes that link to the verse with [[...]], excluding ones attached to it
+  function getBacklinks(book: string, chapter: number, verse: number): Note[] {
+    const attached = new Set(getNotesForVerse(book, chapter, verse).map(note => note.id))
+    return userStore.getNotesMentioningVerse(book, chapter, verse).filter(note => !attached.has(note.id))
+  }
+
   function hasNotes(book: string, chapter: number, verse: number): boolean {
     return getNotesForVerse(book, chapter, verse).length > 0
   }
@@ -179,7 +236,7 @@ export function useNotes() {
 
     const groupedNotes = notesByBook.value
 
-    Object.keys(groupedNotes).sort().forEach(book => {
+    Object.keys(groupedNotes).sort((a, b) => Number(a === UNATTACHED_GROUP) - Number(b === UNATTACHED_GROUP) || a.localeCompare(b)).forEach(book => {
       exportText += `## ${book}\n\n`
 
       groupedNotes[book].forEach(note => {
@@ -195,10 +252,11 @@ export function useNotes() {
   }
 
   function getWordCount(content: string): number {
-    return content.trim().split(/\s+/).filter(word => word.length > 0).length
+    return markdownToPlainText(content).trim().split(/\s+/).filter(word => word.length > 0).length
   }
 
-  function truncateContent(content: string, maxLength: number = 100): string {
+  function truncateContent(markdown: string, maxLength: number = 100): string {
+    const content = markdownToPlainText(markdown).replace(/\s+/g, ' ').trim()
     if (content.length <= maxLength) return content
 
     const truncated = content.substring(0, maxLength)
@@ -221,9 +279,11 @@ export function useNotes() {
 
     // Methods
     createNote,
+    createPassageNote,
     updateNote,
     deleteNote,
     getNotesForVerse,
+    getBacklinks,
     hasNotes,
     updateFilter,
     clearFilter,
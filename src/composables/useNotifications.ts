@@ -1,4 +1,7 @@
-import { ref, reactive } from 'vue'
+import { ref, reactive, computed } from 'vue'
+import { reminderService } from '@/services/reminderService'
+import { SNOOZE_ACTION } from '@/utils/reminders'
+import type { ReminderDeliveryMode } from '@/types/reminders'
 
 interface NotificationAction {
   id: string
@@ -42,9 +45,20 @@ interface NotificationSettings {
   }
 }
 
+const PRAYER_SCHEDULE = {
+  morning: '07:00',
+  midday: '12:00',
+  evening: '18:00',
+  night: '21:00'
+}
+
 export function useNotifications() {
   const hasPermission = ref(false)
   const activeNotifications = ref<Notification[]>([])
+  const deliveryMode = ref<ReminderDeliveryMode | null>(null)
+
+  // Without periodic sync or triggers, reminders only arrive while the app is open
+  const remindersNeedOpenApp = computed(() => deliveryMode.value === 'in-page')
 
   const settings = reactive<NotificationSettings>({
     readingReminders: {
@@ -100,168 +114,92 @@ export function useNotifications() {
     }
   }
 
-  // Initialize default notification schedules
+  // Hand every reminder schedule to the service worker; turned-off kinds are cleared
   async function initializeNotifications() {
-    if (settings.readingReminders.enabled) {
-      scheduleReadingReminder()
-    }
-
-    if (settings.memorization.enabled) {
-      scheduleMemorizationReview()
-    }
-
-    if (settings.reflections.enabled) {
-      scheduleReflectionPrompt()
-    }
-
-    if (settings.prayer.enabled) {
+    await Promise.all([
+      scheduleReadingReminder(),
+      scheduleMemorizationReview(),
+      scheduleReflectionPrompt(),
       schedulePrayerReminder()
-    }
+    ])
   }
 
   // Schedule reading reminder
-  function scheduleReadingReminder() {
+  async function scheduleReadingReminder() {
     if (!hasPermission.value) return
 
-    const now = new Date()
-    const [hours, minutes] = settings.readingReminders.time.split(':').map(Number)
-
-    let reminderTime = new Date()
-    reminderTime.setHours(hours, minutes, 0, 0)
-
-    // If time has passed today, schedule for tomorrow
-    if (reminderTime <= now) {
-      reminderTime.setDate(reminderTime.getDate() + 1)
-    }
-
-    // Check if we should remind today based on frequency
-    if (!shouldRemindToday()) {
-      return
-    }
-
-    const timeUntilReminder = reminderTime.getTime() - now.getTime()
-
-    setTimeout(() => {
-      showNotification({
-        id: `reading-${Date.now()}`,
-        type: 'reading',
-        title: 'Time for Bible Reading! 📖',
-        message: 'Continue your spiritual journey with today\'s reading.',
-        actions: [
-          { id: 'start-reading', label: 'Start Reading', type: 'primary' },
-          { id: 'remind-later', label: 'Remind Later', type: 'secondary' }
-        ],
-        timestamp: new Date(),
-        read: false
-      })
-
-      // Schedule next reminder
-      scheduleReadingReminder()
-    }, timeUntilReminder)
+    await reminderService.setReminders('reading', settings.readingReminders.enabled ? [{
+      id: 'reading',
+      kind: 'reading',
+      title: 'Time for Bible Reading! 📖',
+      body: 'Continue your spiritual journey with today\'s reading.',
+      time: settings.readingReminders.time,
+      days: getReadingDays(),
+      url: '/bible',
+      actions: [
+        { action: 'start-reading', title: 'Start Reading', url: '/bible' },
+        { action: SNOOZE_ACTION, title: 'Remind Later' }
+      ]
+    }] : [])
   }
 
   // Schedule memorization review
-  function scheduleMemorizationReview() {
+  async function scheduleMemorizationReview() {
     if (!hasPermission.value) return
 
-    // Check if there are cards due for review
-    const cardsDue = getCardsDueForReview()
-
-    if (cardsDue > 0) {
-      showNotification({
-        id: `memorization-${Date.now()}`,
-        type: 'memorization',
-        title: 'Verse Review Time! 🧠',
-        message: `You have ${cardsDue} verse${cardsDue > 1 ? 's' : ''} ready for review.`,
-        actions: [
-          { id: 'review-cards', label: 'Review Now', type: 'primary' },
-          { id: 'remind-later', label: 'Later', type: 'secondary' }
-        ],
-        timestamp: new Date(),
-        read: false
-      })
-    }
+    await reminderService.setReminders('memorization', settings.memorization.enabled ? [{
+      id: 'memorization',
+      kind: 'memorization',
+      title: 'Verse Review Time! 🧠',
+      body: 'Your memory verses are ready for review.',
+      time: settings.memorization.reminderTime,
+      days: [],
+      url: '/memorization',
+      actions: [
+        { action: 'review-cards', title: 'Review Now', url: '/memorization' },
+        { action: SNOOZE_ACTION, title: 'Later' }
+      ]
+    }] : [])
   }
 
   // Schedule reflection prompt
-  function scheduleReflectionPrompt() {
+  async function scheduleReflectionPrompt() {
     if (!hasPermission.value) return
 
-    const now = new Date()
-    const [hours, minutes] = settings.reflections.time.split(':').map(Number)
-
-    let reflectionTime = new Date()
-    reflectionTime.setHours(hours, minutes, 0, 0)
-
-    if (reflectionTime <= now) {
-      reflectionTime.setDate(reflectionTime.getDate() + 1)
-    }
-
-    const timeUntilReflection = reflectionTime.getTime() - now.getTime()
-
-    setTimeout(() => {
-      const prompt = getReflectionPrompt()
-
-      showNotification({
-        id: `reflection-${Date.now()}`,
-        type: 'reflection',
-        title: 'Daily Reflection 💭',
-        message: prompt,
-        actions: [
-          { id: 'open-reflection', label: 'Reflect', type: 'primary' },
-          { id: 'skip', label: 'Skip', type: 'secondary' }
-        ],
-        timestamp: new Date(),
-        read: false
-      })
-
-      // Schedule next reflection
-      scheduleReflectionPrompt()
-    }, timeUntilReflection)
+    await reminderService.setReminders('reflection', settings.reflections.enabled ? [{
+      id: 'reflection',
+      kind: 'reflection',
+      title: 'Daily Reflection 💭',
+      body: getReflectionPrompt(),
+      time: settings.reflections.time,
+      days: [],
+      url: '/notes',
+      actions: [
+        { action: 'open-reflection', title: 'Reflect', url: '/notes' },
+        { action: SNOOZE_ACTION, title: 'Later' }
+      ]
+    }] : [])
   }
 
   // Schedule prayer reminder
-  function schedulePrayerReminder() {
-    if (!hasPermission.value || settings.prayer.times.length === 0) return
-
-    const prayerSchedule = {
-      morning: '07:00',
-      midday: '12:00',
-      evening: '18:00',
-      night: '21:00'
-    }
-
-    settings.prayer.times.forEach(timeId => {
-      const time = prayerSchedule[timeId]
-      if (!time) return
-
-      const now = new Date()
-      const [hours, minutes] = time.split(':').map(Number)
-
-      let prayerTime = new Date()
-      prayerTime.setHours(hours, minutes, 0, 0)
-
-      if (prayerTime <= now) {
-        prayerTime.setDate(prayerTime.getDate() + 1)
-      }
-
-      const timeUntilPrayer = prayerTime.getTime() - now.getTime()
+  async function schedulePrayerReminder() {
+    if (!hasPermission.value) return
 
-      setTimeout(() => {
-        showNotification({
-          id: `prayer-${timeId}-${Date.now()}`,
-          type: 'prayer',
-          title: 'Prayer Time 🙏',
-          message: `Time for ${timeId} prayer and communion with God.`,
-          actions: [
-            { id: 'open-prayer', label: 'Pray Now', type: 'primary' },
-            { id: 'remind-later', label: 'Later', type: 'secondary' }
-          ],
-          timestamp: new Date(),
-          read: false
-        })
-      }, timeUntilPrayer)
-    })
+    const times = settings.prayer.enabled ? settings.prayer.times.filter(timeId => timeId in PRAYER_SCHEDULE) : []
+
+    await reminderService.setReminders('prayer', times.map(timeId => ({
+      id: `prayer-${timeId}`,
+      kind: 'prayer' as const,
+      title: 'Prayer Time 🙏',
+      body: `Time for ${timeId} prayer and communion with God.`,
+      time: PRAYER_SCHEDULE[timeId as keyof typeof PRAYER_SCHEDULE],
+      days: [],
+      url: '/bible',
+      actions: [
+        { action: 'open-prayer', title: 'Pray Now', url: '/bible' },
+        { action: SNOOZE_ACTION, title: 'Later' }
+      ]
+    })))
   }
 
   // Show notification
@@ -326,27 +264,18 @@ export function useNotifications() {
   }
 
   // Helper functions
-  function shouldRemindToday(): boolean {
-    const today = new Date().getDay() // 0 = Sunday, 1 = Monday, etc.
-
+  // Weekdays reading reminders fire on, 0 = Sunday; empty for every day
+  function getReadingDays(): number[] {
     switch (settings.readingReminders.frequency) {
-      case 'daily':
-        return true
       case 'weekdays':
-        return today >= 1 && today <= 5 // Monday to Friday
+        return [1, 2, 3, 4, 5] // Monday to Friday
       case 'custom':
-        return settings.readingReminders.customDays?.includes(today.toString()) || false
+        return (settings.readingReminders.customDays ?? []).map(Number)
       default:
-        return true
+        return []
     }
   }
 
-  function getCardsDueForReview(): number {
-    // This would integrate with the memorization system
-    // For now, return a mock value
-    return Math.floor(Math.random() * 5) + 1
-  }
-
   function getReflectionPrompt(): string {
     const prompts = {
       questions: [
@@ -391,11 +320,16 @@ export function useNotifications() {
   // Initialize
   checkPermission()
   loadSettings()
+  reminderService.getDeliveryMode().then(mode => {
+    deliveryMode.value = mode
+  })
 
   return {
     hasPermission,
     activeNotifications,
     settings,
+    deliveryMode,
+    remindersNeedOpenApp,
     requestPermission,
     dismissNotification,
     updateSettings,
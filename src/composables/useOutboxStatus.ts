@@ -0,0 +1,87 @@
+/**
+ * Outbox Status Composable
+ * What the outbox is waiting to push, kept live from IndexedDB, and retrying what failed
+ */
+
+import { ref, computed, onUnmounted } from 'vue'
+import { liveQuery, type Subscription } from 'dexie'
+import { outboxService } from '@/services/outboxService'
+import { syncService } from '@/services/syncService'
+import type { OutboxEntityType, OutboxStatus } from '@/types/outbox'
+
+const ENTITY_LABELS: Record<OutboxEntityType, string> = {
+  bookmark: 'Bookmarks',
+  note: 'Notes',
+  notebook: 'Notebooks',
+  note_revision: 'Note history',
+  highlight: 'Highlights',
+  highlight_category: 'Highlight categories',
+  profile: 'Profile',
+  preferences: 'Preferences',
+  reading_plan: 'Reading plans',
+  reading_plan_progress: 'Reading plan progress',
+  memorization_card: 'Memorization cards',
+  memorization_review: 'Memorization reviews',
+  verse_collection: 'Collections',
+  collection_verse: 'Collection verses',
+  mood: 'Moods'
+}
+
+export function useOutboxStatus() {
+  const status = ref<OutboxStatus>({
+    total: 0,
+    pending: 0,
+    retrying: 0,
+    failed: 0,
+    conflicts: 0,
+    byEntity: {}
+  })
+  const isRetrying = ref(false)
+
+  const waitingCount = computed(() => status.value.pending + status.value.retrying)
+  const hasQueued = computed(() => status.value.total > 0)
+  const hasFailed = computed(() => status.value.failed > 0)
+
+  // Entity types with queued changes, most first
+  const entityBreakdown = computed(() =>
+    (Object.entries(status.value.byEntity) as [OutboxEntityType, number][])
+      .map(([entityType, count]) => ({ entityType, label: ENTITY_LABELS[entityType], count }))
+      .sort((a, b) => b.count - a.count)
+  )
+
+  const subscription: Subscription = liveQuery(() => outboxService.getStatus()).subscribe({
+    next: current => {
+      status.value = current
+    },
+    error: err => console.warn('Failed to load outbox status:', err)
+  })
+
+  onUnmounted(() => subscription.unsubscribe())
+
+  /**
+   * Give failed changes another set of retries and push them now
+   */
+  async function retryFailed(): Promise<void> {
+    try {
+      isRetrying.value = true
+      await syncService.retryFailedOperations()
+    } finally {
+      isRetrying.value = false
+    }
+  }
+
+  return {
+    // State
+    status,
+    isRetrying,
+
+    // Computed
+    waitingCount,
+    hasQueued,
+    hasFailed,
+    entityBreakdown,
+
+    // Methods
+    retryFailed
+  }
+}
@@ -6,6 +6,7 @@ interface VersionComparison {
   id: string
   name: string
   abbreviation: string
+  reference: string // chapter:verse in this version's own numbering
   text: string
   loading: boolean
   error: string | null
@@ -35,16 +36,20 @@ export function useParallelComparison() {
 
   async function loadParallelPassages(book: string, chapter: number, verse: number) {
     currentVerse.value = { book, chapter, verse }
+    // The reference is numbered the way the current version numbers it
+    const sourceVersion = bibleStore.currentVersion?.id ?? ''
 
     // Initialize version data for selected versions
     for (const versionId of selectedVersions.value) {
       const version = bibleStore.availableVersions.find(v => v.id === versionId)
       if (!version) continue
 
+      const mapped = bibleStore.mapReference({ book, chapter, verse }, sourceVersion, versionId)
       const versionData: VersionComparison = {
         id: versionId,
         name: version.name,
         abbreviation: version.abbreviation,
+        reference: mapped.map(ref => `${ref.chapter}:${ref.verse}`).join(', '),
         text: '',
         loading: true,
         error: null
@@ -53,11 +58,14 @@ export function useParallelComparison() {
       versionsData.value.set(versionId, versionData)
 
       try {
-        // Load the verse for this version
-        const verses = await bibleStore.getVersesByReference(book, chapter, [verse], versionId)
+        // Load the verse for this version - several where it splits the verse
+        const verses: Verse[] = []
+        for (const ref of mapped) {
+          verses.push(...await bibleStore.getVersesByReference(book, ref.chapter, [ref.verse], versionId))
+        }
 
         if (verses.length > 0) {
-          versionData.text = verses[0].text
+          versionData.text = verses.map(v => v.text).join(' ')
         } else {
           versionData.error = 'Verse not found in this version'
         }
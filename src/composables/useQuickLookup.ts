@@ -6,6 +6,7 @@
 import { ref, computed } from 'vue'
 import { quickLookupService } from '@/services/quickLookupService'
 import type { QuickLookupResult, RecentVerse, ParsedReference } from '@/types/quickWins'
+import { formatScriptureReferences } from '@/utils/scriptureReference'
 import { useToast } from './useToast'
 
 export function useQuickLookup() {
@@ -194,22 +195,7 @@ export function useQuickLookup() {
 
     if (parsed.confidence < 0.5) return reference
 
-    const ref = parsed.reference
-    let formatted = ref.book
-
-    if (ref.chapter) {
-      formatted += ` ${ref.chapter}`
-
-      if (ref.verse) {
-        formatted += `:${ref.verse}`
-
-        if (ref.endVerse && ref.endVerse !== ref.verse) {
-          formatted += `-${ref.endVerse}`
-        }
-      }
-    }
-
-    return formatted
+    return formatScriptureReferences(parsed.passages)
   }
 
   /**
@@ -0,0 +1,188 @@
+/**
+ * Reading Plans Composable
+ * Vue composable for reading plan enrollment and daily progress
+ */
+
+import { ref, computed } from 'vue'
+import { readingPlanService } from '@/services/readingPlanService'
+import { useUserStore } from '@/stores/user'
+import type {
+  ReadingPlanDefinition,
+  ReadingPlanEnrollment,
+  DailyAssignment,
+  ReadingPlanSummary,
+  CatchUpStrategy
+} from '@/types/readingPlans'
+import { useToast } from './useToast'
+
+export function useReadingPlans() {
+  const { showToast } = useToast()
+  const userStore = useUserStore()
+
+  const availablePlans = ref<ReadingPlanDefinition[]>(readingPlanService.getAvailablePlans())
+  const enrollments = ref<ReadingPlanEnrollment[]>([])
+  const todayAssignments = ref<DailyAssignment[]>([])
+  const summaries = ref<Record<string, ReadingPlanSummary>>({})
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Computed properties
+  const activeEnrollments = computed(() =>
+    enrollments.value.filter(enrollment => enrollment.status === 'active')
+  )
+
+  const hasOverdueReadings = computed(() =>
+    Object.values(summaries.value).some(summary =>
+      summary.enrollment.status === 'active' && summary.missedDays.length > 0
+    )
+  )
+
+  const todayComplete = computed(() =>
+    todayAssignments.value.length > 0 && todayAssignments.value.every(assignment => assignment.isComplete)
+  )
+
+  function requireUserId(): string {
+    if (!userStore.profile) {
+      throw new Error('User must be authenticated to use reading plans')
+    }
+    return userStore.profile.id
+  }
+
+  /**
+   * Load enrollments, today's assignments and progress summaries
+   */
+  async function loadPlans() {
+    if (!userStore.profile) return
+
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const userId = userStore.profile.id
+      enrollments.value = await readingPlanService.getEnrollments(userId)
+      todayAssignments.value = await readingPlanService.getTodayAssignments(userId)
+
+      const loaded: Record<string, ReadingPlanSummary> = {}
+      for (const enrollment of enrollments.value) {
+        loaded[enrollment.id] = await readingPlanService.getSummary(enrollment.id)
+      }
+      summaries.value = loaded
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to load reading plans'
+      console.warn('Failed to load reading plans:', err)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Enroll in a built-in or custom plan
+   */
+  async function enroll(plan: string | ReadingPlanDefinition, startDate?: Date) {
+    try {
+      const enrollment = await readingPlanService.enroll(requireUserId(), plan, startDate)
+
+      // Keep the preference pointing at the most recent plan
+      await userStore.updatePreferences({ readingPlan: enrollment.planId })
+
+      showToast('success', 'Reading plan started!')
+      await loadPlans()
+      return enrollment
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to start reading plan'
+      showToast('error', 'Failed to start reading plan')
+      throw err
+    }
+  }
+
+  async function unenroll(enrollmentId: string) {
+    try {
+      const enrollment = enrollments.value.find(e => e.id === enrollmentId)
+      await readingPlanService.unenroll(enrollmentId)
+
+      if (enrollment && userStore.preferences.readingPlan === enrollment.planId) {
+        await userStore.updatePreferences({ readingPlan: undefined })
+      }
+
+      showToast('info', 'Reading plan removed')
+      await loadPlans()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to remove reading plan'
+      showToast('error', 'Failed to remove reading plan')
+      throw err
+    }
+  }
+
+  async function markChapterRead(assignment: DailyAssignment, chapterKey: string) {
+    try {
+      await readingPlanService.markChapterRead(assignment.enrollmentId, assignment.day, chapterKey)
+      await loadPlans()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to update reading plan'
+      showToast('error', 'Failed to update reading plan')
+      throw err
+    }
+  }
+
+  async function markDayComplete(enrollmentId: string, day: number) {
+    try {
+      await readingPlanService.markDayComplete(enrollmentId, day)
+      showToast('success', 'Day complete! 🎉')
+      await loadPlans()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to update reading plan'
+      showToast('error', 'Failed to update reading plan')
+      throw err
+    }
+  }
+
+  /**
+   * Catch up on missed days by rescheduling or spreading the backlog
+   */
+  async function catchUp(enrollmentId: string, strategy: CatchUpStrategy, spreadOverDays?: number) {
+    try {
+      await readingPlanService.catchUp(enrollmentId, strategy, spreadOverDays)
+      showToast('success', strategy === 'reschedule' ? 'Plan rescheduled' : 'Missed readings spread over the coming days')
+      await loadPlans()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to catch up'
+      showToast('error', 'Failed to update reading plan')
+      throw err
+    }
+  }
+
+  async function pause(enrollmentId: string) {
+    await readingPlanService.pauseEnrollment(enrollmentId)
+    await loadPlans()
+  }
+
+  async function resume(enrollmentId: string) {
+    await readingPlanService.resumeEnrollment(enrollmentId)
+    await loadPlans()
+  }
+
+  return {
+    // State
+    availablePlans,
+    enrollments,
+    todayAssignments,
+    summaries,
+    isLoading,
+    error,
+
+    // Computed
+    activeEnrollments,
+    hasOverdueReadings,
+    todayComplete,
+
+    // Methods
+    loadPlans,
+    enroll,
+    unenroll,
+    markChapterRead,
+    markDayComplete,
+    catchUp,
+    pause,
+    resume
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Reminders Composable
+ * Shows due reminders from this tab while it is open and routes reminder notification
+ * clicks into the app. Used once, at the app root.
+ */
+
+import { ref, computed, onMounted, onUnmounted } from 'vue'
+import { useRouter } from 'vue-router'
+import { reminderService } from '@/services/reminderService'
+import type { ReminderDeliveryMode } from '@/types/reminders'
+
+export function useReminders() {
+  const router = useRouter()
+  const deliveryMode = ref<ReminderDeliveryMode | null>(null)
+
+  const deliversInBackground = computed(() => deliveryMode.value !== null && deliveryMode.value !== 'in-page')
+
+  onMounted(async () => {
+    deliveryMode.value = await reminderService.start(url => {
+      router.push(url).catch(error => console.warn('Failed to open reminder route:', error))
+    })
+  })
+
+  onUnmounted(() => reminderService.stop())
+
+  return {
+    // State
+    deliveryMode,
+
+    // Computed
+    deliversInBackground
+  }
+}
@@ -2,6 +2,10 @@ import { ref, computed, watch } from 'vue'
 import { useBibleStore } from '@/stores/bible'
 import { useUserStore } from '@/stores/user'
 import type { SearchResult, SearchQuery } from '@/types'
+import type { ParsedSearchQuery } from '@/types/searchQuery'
+import type { ScripturePassage } from '@/types/scriptureReference'
+import { createPhraseQuery, formatQueryNode, parseQuerySyntax } from '@/utils/searchQuery'
+import { parseScriptureReferences } from '@/utils/scriptureReference'
 
 export interface SearchHistoryItem {
   query: string
@@ -48,8 +52,27 @@ export function useSearch() {
   const downloadedVersions = computed(() => bibleStore.downloadedVersionsList)
   const availableBooks = computed(() => bibleStore.books)
 
+  // Exact match searches the text literally, so operators are not parsed
+  const parsedQuery = computed<ParsedSearchQuery>(() => {
+    return exactMatch.value ? createPhraseQuery(searchQuery.value) : parseQuerySyntax(searchQuery.value)
+  })
+
+  const queryErrors = computed(() => parsedQuery.value.errors)
+
+  const formattedQuery = computed(() => {
+    return parsedQuery.value.root ? formatQueryNode(parsedQuery.value.root) : ''
+  })
+
+  // A query like "John 3:16" or "Rom 3:23; 6:23" can be opened directly instead of searched
+  const queryReferences = computed<ScripturePassage[]>(() => {
+    const { passages, errors } = parseScriptureReferences(searchQuery.value)
+    const allChapters = passages.every(passage => passage.startChapter !== undefined)
+    return errors.length === 0 && allChapters ? passages : []
+  })
+
   const canSearch = computed(() => {
     return searchQuery.value.trim().length >= 2 &&
+           queryErrors.value.length === 0 &&
            downloadedVersions.value.length > 0 &&
            selectedVersions.value.length > 0
   })
@@ -371,6 +394,10 @@ export function useSearch() {
     // Computed
     downloadedVersions,
     availableBooks,
+    parsedQuery,
+    queryErrors,
+    formattedQuery,
+    queryReferences,
     canSearch,
     searchResultsCount,
 
@@ -0,0 +1,84 @@
+/**
+ * Sync Conflicts Composable
+ * Unresolved sync conflicts, kept live from IndexedDB, and the ways to resolve them
+ */
+
+import { ref, computed, onUnmounted } from 'vue'
+import { liveQuery, type Subscription } from 'dexie'
+import { syncService, type ConflictResolution, type SyncConflict } from '@/services/syncService'
+import { useUserStore } from '@/stores/user'
+import type { Note } from '@/types'
+import { useToast } from './useToast'
+
+export function useSyncConflicts() {
+  const { showToast } = useToast()
+  const userStore = useUserStore()
+
+  const conflicts = ref<SyncConflict[]>([])
+  const resolvingId = ref<string | null>(null)
+
+  const conflictCount = computed(() => conflicts.value.length)
+  const hasConflicts = computed(() => conflicts.value.length > 0)
+
+  const subscription: Subscription = liveQuery(() => syncService.getUnresolvedConflicts()).subscribe({
+    next: unresolved => {
+      conflicts.value = unresolved
+    },
+    error: err => console.warn('Failed to load sync conflicts:', err)
+  })
+
+  onUnmounted(() => subscription.unsubscribe())
+
+  /**
+   * Resolve a conflict and reload what it changed
+   */
+  async function resolve(conflict: SyncConflict, resolution: ConflictResolution, message: string): Promise<boolean> {
+    try {
+      resolvingId.value = conflict.operationId
+      await syncService.resolveConflict(conflict, resolution)
+      await userStore.loadUserContent()
+
+      // The merged copy still has to be pushed, which the next sync does
+      const remaining = await syncService.getUnresolvedConflicts()
+      if (remaining.length === 0 && userStore.syncStatus === 'conflict') {
+        userStore.syncStatus = 'pending'
+      }
+
+      showToast('success', message)
+      return true
+    } catch (err) {
+      console.error('Failed to resolve sync conflict:', err)
+      showToast('error', 'Failed to resolve the conflict. Check your connection and try again.')
+      return false
+    } finally {
+      resolvingId.value = null
+    }
+  }
+
+  function keepMine(conflict: SyncConflict): Promise<boolean> {
+    return resolve(conflict, { strategy: 'local' }, 'Kept the version on this device')
+  }
+
+  function keepTheirs(conflict: SyncConflict): Promise<boolean> {
+    return resolve(conflict, { strategy: 'remote' }, 'Kept the version from your other device')
+  }
+
+  function keepMerged(conflict: SyncConflict, mergedData: Partial<Note>): Promise<boolean> {
+    return resolve(conflict, { strategy: 'merge', mergedData }, 'Saved the merged note')
+  }
+
+  return {
+    // State
+    conflicts,
+    resolvingId,
+
+    // Computed
+    conflictCount,
+    hasConflicts,
+
+    // Methods
+    keepMine,
+    keepTheirs,
+    keepMerged
+  }
+}
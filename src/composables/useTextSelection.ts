@@ -3,8 +3,9 @@ import { ref, computed } from 'vue'
 export interface TextSelection {
   text: string
   startOffset: number
-  endOffset: number
+  endOffset: number // into the end verse when there is one
   range: Range | null
+  endVerse?: { chapter: number; verse: number } // a later verse the selection runs into
 }
 
 export interface SelectionPosition {
@@ -39,14 +40,45 @@ export function useTextSelection() {
       return null
     }
 
+    // Offsets count from the start of the verse text, which may be split across styled runs
+    const verseText = getVerseTextElement(range.startContainer)
+    const startOffset = verseText ? getOffsetWithin(verseText, range.startContainer, range.startOffset) : range.startOffset
+
+    // A selection running into a later verse ends at an offset into that verse. One that
+    // ends anywhere else is cut off at the end of the verse it started in.
+    const endText = getVerseTextElement(range.endContainer)
+    const endVerse = verseText && endText && endText !== verseText ? getVerseLocation(endText) : null
+    const endRoot = endVerse ? endText : verseText
+    const endOffset = endRoot ? getOffsetWithin(endRoot, range.endContainer, range.endOffset) : range.endOffset
+
     return {
       text,
-      startOffset: range.startOffset,
-      endOffset: range.endOffset,
-      range: range.cloneRange()
+      startOffset,
+      endOffset,
+      range: range.cloneRange(),
+      ...(endVerse ? { endVerse } : {})
     }
   }
 
+  function getVerseTextElement(node: Node | null | undefined): Element | null {
+    const element = node?.nodeType === 1 ? node as Element : node?.parentElement
+    return element?.closest?.('.verse-text') ?? null
+  }
+
+  // Verse text elements carry their chapter and verse in data attributes
+  function getVerseLocation(element: Element): { chapter: number; verse: number } | null {
+    const chapter = Number((element as HTMLElement).dataset?.chapter)
+    const verse = Number((element as HTMLElement).dataset?.verse)
+    return chapter > 0 && verse > 0 ? { chapter, verse } : null
+  }
+
+  function getOffsetWithin(root: Element, container: Node, offset: number): number {
+    const before = document.createRange()
+    before.selectNodeContents(root)
+    before.setEnd(container, offset)
+    return Math.min(before.toString().length, root.textContent?.length ?? 0)
+  }
+
   function getSelectionPosition(range: Range): SelectionPosition {
     const rect = range.getBoundingClientRect()
 
@@ -166,6 +198,15 @@ export function useTextSelection() {
     return element.contains(range.commonAncestorContainer)
   }
 
+  // Selections across verses belong to the verse they start in
+  function startsWithinElement(element: HTMLElement): boolean {
+    const selection = window.getSelection()
+    if (!selection || selection.rangeCount === 0) return false
+
+    const range = selection.getRangeAt(0)
+    return Boolean(range.startContainer) && element.contains(range.startContainer)
+  }
+
   return {
     // State
     currentSelection,
@@ -184,6 +225,7 @@ export function useTextSelection() {
     selectText,
     highlightRange,
     removeHighlight,
-    isWithinElement
+    isWithinElement,
+    startsWithinElement
   }
 }
@@ -3,31 +3,42 @@
  * Vue composable for managing custom verse collections
  */
 
-import { ref, computed } from 'vue'
+import { ref, computed, onUnmounted } from 'vue'
+import { liveQuery, type Subscription } from 'dexie'
 import { verseCollectionsService } from '@/services/verseCollectionsService'
+import { useUserStore } from '@/stores/user'
 import type {
   VerseCollection,
-  CollectionVerse,
-  CollectionStats
+  CollectionBundle,
+  CollectionStats,
+  CollectionWithVerses,
+  SmartCollectionRule
 } from '@/types/personalization'
+import { groupCollectionVerses } from '@/utils/verseCollections'
 import { useToast } from './useToast'
 
 export function useVerseCollections() {
   const { showToast } = useToast()
+  const userStore = useUserStore()
 
   const collections = ref<VerseCollection[]>([])
-  const currentCollection = ref<(VerseCollection & { verses: CollectionVerse[] }) | null>(null)
+  const currentCollection = ref<CollectionWithVerses | null>(null)
   const collectionStats = ref<CollectionStats | null>(null)
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
   // Computed properties
   const myCollections = computed(() =>
-    collections.value.filter(c => !c.isPublic || c.userId === 'current-user') // Replace with actual user ID
+    collections.value.filter(c => c.userId === userStore.profile?.id)
   )
 
   const publicCollections = computed(() =>
-    collections.value.filter(c => c.isPublic && c.userId !== 'current-user')
+    collections.value.filter(c => c.isPublic && c.userId !== userStore.profile?.id)
+  )
+
+  // The open collection's verses under their sections
+  const currentGroups = computed(() =>
+    currentCollection.value ? groupCollectionVerses(currentCollection.value.sections, currentCollection.value.verses) : []
   )
 
   const totalVerses = computed(() =>
@@ -42,15 +53,27 @@ export function useVerseCollections() {
     return Array.from(tags).sort()
   })
 
+  // Live results of the open smart collection
+  let smartSubscription: Subscription | null = null
+
+  function requireUserId(): string {
+    if (!userStore.profile) {
+      throw new Error('User must be authenticated to manage collections')
+    }
+    return userStore.profile.id
+  }
+
   /**
    * Load all collections
    */
   async function loadCollections(includePublic: boolean = true) {
+    if (!userStore.profile) return
+
     isLoading.value = true
     error.value = null
 
     try {
-      collections.value = await verseCollectionsService.getCollections(includePublic)
+      collections.value = await verseCollectionsService.getCollections(userStore.profile.id, includePublic)
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to load collections'
       console.warn('Failed to load collections:', err)
@@ -68,6 +91,7 @@ export function useVerseCollections() {
 
     try {
       currentCollection.value = await verseCollectionsService.getCollection(collectionId)
+      watchSmartCollection(currentCollection.value)
       return currentCollection.value
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to load collection'
@@ -87,14 +111,15 @@ export function useVerseCollections() {
     color: string = '#2563eb',
     icon: string = '📚',
     tags: string[] = [],
-    isPublic: boolean = false
+    isPublic: boolean = false,
+    rule: SmartCollectionRule | null = null
   ) {
     isLoading.value = true
     error.value = null
 
     try {
       const newCollection = await verseCollectionsService.createCollection(
-        name, description, color, icon, tags, isPublic
+        requireUserId(), name, description, color, icon, tags, isPublic, [], rule
       )
 
       collections.value.unshift(newCollection)
@@ -115,7 +140,7 @@ export function useVerseCollections() {
    */
   async function updateCollection(
     collectionId: string,
-    updates: Partial<Pick<VerseCollection, 'name' | 'description' | 'color' | 'icon' | 'tags' | 'isPublic'>>
+    updates: Partial<Pick<VerseCollection, 'name' | 'description' | 'color' | 'icon' | 'tags' | 'isPublic' | 'rule'>>
   ) {
     try {
       const updatedCollection = await verseCollectionsService.updateCollection(collectionId, updates)
@@ -127,6 +152,7 @@ export function useVerseCollections() {
 
       if (currentCollection.value?.id === collectionId) {
         currentCollection.value = { ...currentCollection.value, ...updatedCollection }
+        if ('rule' in updates) watchSmartCollection(currentCollection.value)
       }
 
       showToast('Collection updated successfully', 'success')
@@ -148,6 +174,7 @@ export function useVerseCollections() {
       collections.value = collections.value.filter(c => c.id !== collectionId)
 
       if (currentCollection.value?.id === collectionId) {
+        stopWatchingSmartCollection()
         currentCollection.value = null
       }
 
@@ -168,16 +195,17 @@ export function useVerseCollections() {
     verseReference: string,
     bibleVersionId: string,
     verseText: string,
-    notes?: string
+    notes?: string,
+    sectionId: string | null = null
   ) {
     try {
       const collectionVerse = await verseCollectionsService.addVerseToCollection(
-        collectionId, verseId, verseReference, bibleVersionId, verseText, notes
+        collectionId, verseId, verseReference, bibleVersionId, verseText, notes, sectionId
       )
 
-      // Update current collection if it's loaded
+      // Adding to a section can shift the verses after it, so reload in order
       if (currentCollection.value?.id === collectionId) {
-        currentCollection.value.verses.unshift(collectionVerse)
+        currentCollection.value = await verseCollectionsService.getCollection(collectionId)
       }
 
       // Update verse count in collections list
@@ -255,7 +283,7 @@ export function useVerseCollections() {
     error.value = null
 
     try {
-      const results = await verseCollectionsService.searchCollections(query, tags)
+      const results = await verseCollectionsService.searchCollections(requireUserId(), query, tags)
       return results
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to search collections'
@@ -271,7 +299,7 @@ export function useVerseCollections() {
    */
   async function getCollectionsWithVerse(verseId: string) {
     try {
-      return await verseCollectionsService.getCollectionsWithVerse(verseId)
+      return await verseCollectionsService.getCollectionsWithVerse(requireUserId(), verseId)
     } catch (err) {
       console.warn('Failed to get collections with verse:', err)
       return []
@@ -282,8 +310,10 @@ export function useVerseCollections() {
    * Load collection statistics
    */
   async function loadCollectionStats() {
+    if (!userStore.profile) return
+
     try {
-      collectionStats.value = await verseCollectionsService.getCollectionStats()
+      collectionStats.value = await verseCollectionsService.getCollectionStats(userStore.profile.id)
     } catch (err) {
       console.warn('Failed to load collection stats:', err)
     }
@@ -298,6 +328,7 @@ export function useVerseCollections() {
 
     try {
       const duplicatedCollection = await verseCollectionsService.duplicateCollection(
+        requireUserId(),
         sourceCollectionId,
         newName
       )
@@ -315,12 +346,131 @@ export function useVerseCollections() {
     }
   }
 
+  /**
+   * Move a verse to a position within a section (null for no section)
+   */
+  async function moveVerse(collectionVerseId: string, sectionId: string | null, index: number) {
+    if (!currentCollection.value) return
+
+    try {
+      currentCollection.value.verses = await verseCollectionsService.moveVerse(collectionVerseId, sectionId, index)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to move verse'
+      showToast('error', 'Failed to move verse')
+      throw err
+    }
+  }
+
+  /**
+   * Add a named section to the open collection
+   */
+  async function addSection(name: string) {
+    if (!currentCollection.value) return
+
+    try {
+      const updated = await verseCollectionsService.addSection(currentCollection.value.id, name)
+      currentCollection.value = { ...currentCollection.value, ...updated }
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to add section'
+      showToast('error', 'Failed to add section')
+      throw err
+    }
+  }
+
+  async function renameSection(sectionId: string, name: string) {
+    if (!currentCollection.value) return
+
+    try {
+      const updated = await verseCollectionsService.renameSection(currentCollection.value.id, sectionId, name)
+      currentCollection.value = { ...currentCollection.value, ...updated }
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to rename section'
+      showToast('error', 'Failed to rename section')
+      throw err
+    }
+  }
+
+  async function moveSection(sectionId: string, index: number) {
+    if (!currentCollection.value) return
+
+    try {
+      currentCollection.value = await verseCollectionsService.moveSection(currentCollection.value.id, sectionId, index)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to move section'
+      showToast('error', 'Failed to move section')
+      throw err
+    }
+  }
+
+  /**
+   * Remove a section from the open collection, keeping its verses
+   */
+  async function removeSection(sectionId: string) {
+    if (!currentCollection.value) return
+
+    try {
+      currentCollection.value = await verseCollectionsService.removeSection(currentCollection.value.id, sectionId)
+      showToast('info', 'Section removed')
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to remove section'
+      showToast('error', 'Failed to remove section')
+      throw err
+    }
+  }
+
+  /**
+   * Export a collection as a bundle for another user to import
+   */
+  async function exportCollection(collectionId: string): Promise<CollectionBundle> {
+    try {
+      return await verseCollectionsService.exportCollection(collectionId)
+    } catch (err) {
+      showToast('error', 'Failed to export collection')
+      throw err
+    }
+  }
+
+  /**
+   * Get a read-only link to a collection
+   */
+  async function getShareLink(collectionId: string): Promise<string> {
+    try {
+      return await verseCollectionsService.getShareLink(collectionId)
+    } catch (err) {
+      showToast('error', 'Failed to create share link')
+      throw err
+    }
+  }
+
+  /**
+   * Import a shared collection as a new private copy
+   */
+  async function importCollection(bundle: CollectionBundle, name?: string) {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const imported = await verseCollectionsService.importCollection(requireUserId(), bundle, name)
+
+      collections.value.unshift(imported)
+      showToast('success', `Collection "${imported.name}" imported`)
+
+      return imported
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to import collection'
+      showToast('error', 'Failed to import collection')
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
   /**
    * Get suggested tags
    */
   async function getSuggestedTags() {
     try {
-      return await verseCollectionsService.getSuggestedTags()
+      return await verseCollectionsService.getSuggestedTags(requireUserId())
     } catch (err) {
       console.warn('Failed to get suggested tags:', err)
       return []
@@ -376,6 +526,32 @@ export function useVerseCollections() {
     ]
   }
 
+  /**
+   * Keep a smart collection's verses current: the rule is re-evaluated whenever
+   * the highlights, bookmarks or notes it reads from change
+   */
+  function watchSmartCollection(collection: VerseCollection) {
+    stopWatchingSmartCollection()
+    if (!collection.rule || !userStore.profile) return
+
+    const userId = userStore.profile.id
+    smartSubscription = liveQuery(() => verseCollectionsService.evaluateSmartCollection(collection, userId)).subscribe({
+      next: verses => {
+        if (currentCollection.value?.id === collection.id) {
+          currentCollection.value = { ...currentCollection.value, verses, verseCount: verses.length }
+        }
+      },
+      error: err => console.warn('Failed to evaluate smart collection:', err)
+    })
+  }
+
+  function stopWatchingSmartCollection() {
+    smartSubscription?.unsubscribe()
+    smartSubscription = null
+  }
+
+  onUnmounted(stopWatchingSmartCollection)
+
   /**
    * Get icon options
    */
@@ -396,6 +572,7 @@ export function useVerseCollections() {
     publicCollections,
     totalVerses,
     allTags,
+    currentGroups,
 
     // Methods
     loadCollections,
@@ -406,10 +583,19 @@ export function useVerseCollections() {
     addVerseToCollection,
     removeVerseFromCollection,
     updateVerseNotes,
+    moveVerse,
+    addSection,
+    renameSection,
+    moveSection,
+    removeSection,
     searchCollections,
     getCollectionsWithVerse,
     loadCollectionStats,
     duplicateCollection,
+    exportCollection,
+    getShareLink,
+    importCollection,
+    stopWatchingSmartCollection,
     getSuggestedTags,
     getPopularPublicCollections,
     isVerseInCollections,
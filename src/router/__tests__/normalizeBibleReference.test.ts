@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { RouteLocationNormalized } from 'vue-router'
+import type { VersificationScheme } from '@/types/versification'
+import { normalizeBibleReference } from '../guards'
+
+vi.mock('@/services/supabase', () => ({ supabase: {} }))
+
+let scheme: VersificationScheme = 'english'
+
+vi.mock('@/stores/bible', () => ({
+  useBibleStore: () => ({ getVersificationScheme: () => scheme })
+}))
+
+function route(path: string, params: Record<string, string>): RouteLocationNormalized {
+  return { path, params, query: {}, hash: '' } as unknown as RouteLocationNormalized
+}
+
+function navigate(path: string, params: Record<string, string>) {
+  const next = vi.fn()
+  normalizeBibleReference(route(path, params), route('/', {}), next)
+  return next
+}
+
+describe('normalizeBibleReference', () => {
+  beforeEach(() => {
+    scheme = 'english'
+  })
+
+  it('should redirect other book spellings to the canonical route', () => {
+    const next = navigate('/bible/john/3/16', { book: 'john', chapter: '3', verse: '16' })
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ path: '/bible/JHN/3/16', replace: true }))
+  })
+
+  it('should open the chapter for a verse past its end', () => {
+    const next = navigate('/bible/JHN/3/40', { book: 'JHN', chapter: '3', verse: '40' })
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ path: '/bible/JHN/3' }))
+  })
+
+  it('should keep verses numbered by a version with Hebrew versification', () => {
+    scheme = 'original'
+
+    const malachi = navigate('/bible/MAL/3/20-24', { book: 'MAL', chapter: '3', verse: '20-24' })
+    expect(malachi).toHaveBeenCalledWith()
+
+    const psalm = navigate('/bible/PSA/51/21', { book: 'PSA', chapter: '51', verse: '21' })
+    expect(psalm).toHaveBeenCalledWith()
+
+    const pastEnd = navigate('/bible/MAL/3/25', { book: 'MAL', chapter: '3', verse: '25' })
+    expect(pastEnd).toHaveBeenCalledWith(expect.objectContaining({ path: '/bible/MAL/3' }))
+  })
+})
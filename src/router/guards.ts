@@ -1,5 +1,7 @@
 import type { NavigationGuardNext, RouteLocationNormalized } from 'vue-router'
 import { supabase } from '@/services/supabase'
+import { useBibleStore } from '@/stores/bible'
+import { parseReaderRoute, toReaderRoute } from '@/utils/scriptureReference'
 
 /**
  * Authentication guard that requires user to be logged in
@@ -187,3 +189,39 @@ export async function ensureBibleContent(
     next()
   }
 }
+
+/**
+ * Reader guard that redirects any book spelling the reference parser understands
+ * (/bible/john/3/16, /bible/Jn/3, /bible/John%203:16) to the canonical /bible/JHN/3/16
+ */
+export function normalizeBibleReference(
+  to: RouteLocationNormalized,
+  from: RouteLocationNormalized,
+  next: NavigationGuardNext
+) {
+  const params = {
+    book: to.params.book as string | undefined,
+    chapter: to.params.chapter as string | undefined,
+    verse: to.params.verse as string | undefined
+  }
+
+  // Verses are numbered as the version being read numbers them; one past the end of
+  // the chapter opens the chapter instead
+  const scheme = useBibleStore().getVersificationScheme()
+  const passage = parseReaderRoute(params, scheme) ??
+    (params.verse ? parseReaderRoute({ ...params, verse: undefined }, scheme) : null)
+
+  // Unknown references are left to the reader, which shows its own error
+  if (!passage) {
+    next()
+    return
+  }
+
+  const path = toReaderRoute(passage)
+  if (path !== to.path) {
+    next({ path, query: to.query, hash: to.hash, replace: true })
+    return
+  }
+
+  next()
+}
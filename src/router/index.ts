@@ -5,7 +5,8 @@ import {
   requireGuest,
   optionalAuth,
   loadEssentialData,
-  ensureBibleContent
+  ensureBibleContent,
+  normalizeBibleReference
 } from './guards'
 
 const router = createRouter({
@@ -27,19 +28,19 @@ const router = createRouter({
       path: '/bible/:book',
       name: 'bible-book',
       component: () => import('../views/BibleReaderView.vue'),
-      beforeEnter: [loadEssentialData, ensureBibleContent, optionalAuth],
+      beforeEnter: [normalizeBibleReference, loadEssentialData, ensureBibleContent, optionalAuth],
     },
     {
       path: '/bible/:book/:chapter',
       name: 'bible-chapter',
       component: () => import('../views/BibleReaderView.vue'),
-      beforeEnter: [loadEssentialData, ensureBibleContent, optionalAuth],
+      beforeEnter: [normalizeBibleReference, loadEssentialData, ensureBibleContent, optionalAuth],
     },
     {
       path: '/bible/:book/:chapter/:verse',
       name: 'bible-verse',
       component: () => import('../views/BibleReaderView.vue'),
-      beforeEnter: [loadEssentialData, ensureBibleContent, optionalAuth],
+      beforeEnter: [normalizeBibleReference, loadEssentialData, ensureBibleContent, optionalAuth],
     },
     {
       path: '/bookmarks',
@@ -1,25 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { BackgroundSyncService } from '../backgroundSyncService'
 import type { BackgroundSyncEvent } from '../backgroundSyncService'
+import { syncService } from '../syncService'
+import type { Bookmark, Highlight, Note, UserPreferences } from '@/types'
 
 // Mock dependencies
-vi.mock('../indexedDB', () => ({
-  illumineDB: {
-    backgroundSync: {
-      put: vi.fn(),
-      where: vi.fn(() => ({
-        equals: vi.fn(() => ({
-          toArray: vi.fn(() => Promise.resolve([]))
-        }))
-      })),
-      delete: vi.fn(),
-      clear: vi.fn(),
-      count: vi.fn(() => Promise.resolve(0)),
-      update: vi.fn()
-    }
-  }
-}))
-
 vi.mock('../syncService', () => ({
   syncService: {
     queueOperation: vi.fn(() => Promise.resolve('operation-id')),
@@ -113,7 +98,7 @@ describe('BackgroundSyncService', () => {
         sync: mockSync
       })
 
-      const result = await service.registerSync('test-tag', { test: 'data' })
+      const result = await service.registerSync('test-tag')
 
       expect(result).toBe(true)
       expect(mockSync.register).toHaveBeenCalledWith('test-tag')
@@ -121,9 +106,9 @@ describe('BackgroundSyncService', () => {
 
     it('should fallback when background sync is not supported', async () => {
       // Remove sync support
-      delete (mockWindow.ServiceWorkerRegistration.prototype as any).sync
+      Reflect.deleteProperty(mockWindow.ServiceWorkerRegistration.prototype, 'sync')
 
-      const result = await service.registerSync('test-tag', { test: 'data' })
+      const result = await service.registerSync('test-tag')
 
       // Should still return true (fallback handled)
       expect(result).toBe(true)
@@ -138,7 +123,7 @@ describe('BackgroundSyncService', () => {
         sync: mockSync
       })
 
-      const result = await service.registerSync('test-tag', { test: 'data' })
+      const result = await service.registerSync('test-tag')
 
       expect(result).toBe(true) // Fallback should handle this
     })
@@ -146,44 +131,73 @@ describe('BackgroundSyncService', () => {
 
   describe('User Data Sync', () => {
     it('should sync bookmark data', async () => {
-      const bookmarkData = {
+      const bookmarkData: Bookmark = {
         id: 'bookmark-1',
+        userId: 'test-user-id',
         book: 'John',
         chapter: 3,
-        verse: 16
+        verse: 16,
+        createdAt: new Date(),
+        syncStatus: 'pending'
       }
 
       const result = await service.syncUserData('bookmark', bookmarkData)
 
       expect(result).toBe(true)
+      expect(syncService.queueOperation).toHaveBeenCalledWith('create', 'bookmark', 'bookmark-1', bookmarkData)
     })
 
     it('should sync note data', async () => {
-      const noteData = {
+      const noteData: Note = {
         id: 'note-1',
+        userId: 'test-user-id',
         book: 'John',
         chapter: 3,
         verse: 16,
-        content: 'Test note'
+        content: 'Test note',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        syncStatus: 'pending'
       }
 
       const result = await service.syncUserData('note', noteData)
 
       expect(result).toBe(true)
+      expect(syncService.queueOperation).toHaveBeenCalledWith('update', 'note', 'note-1', noteData)
     })
 
     it('should sync highlight data', async () => {
-      const highlightData = {
+      const highlightData: Highlight = {
         id: 'highlight-1',
+        userId: 'test-user-id',
         book: 'John',
         chapter: 3,
         verse: 16,
-        colorHex: '#FFFF00'
+        colorHex: '#FFFF00',
+        createdAt: new Date(),
+        syncStatus: 'pending'
       }
 
       const result = await service.syncUserData('highlight', highlightData)
 
       expect(result).toBe(true)
+      expect(syncService.queueOperation).toHaveBeenCalledWith('create', 'highlight', 'highlight-1', highlightData)
+    })
+
+    it('should queue preferences in the outbox', async () => {
+      const preferences: UserPreferences = {
+        theme: 'dark',
+        fontSize: 'large',
+        defaultVersion: 'kjv',
+        autoSync: true,
+        notificationsEnabled: true,
+        verseOfTheDayEnabled: true
+      }
+
+      const result = await service.syncPreferences(preferences)
+
+      expect(result).toBe(true)
+      expect(syncService.queueOperation).toHaveBeenCalledWith('update', 'preferences', 'user_preferences', preferences)
     })
   })
 
@@ -194,28 +208,12 @@ describe('BackgroundSyncService', () => {
         lastChance: false
       }
 
-      // Mock sync data
-      const { illumineDB } = await import('../indexedDB')
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        equals: vi.fn(() => ({
-          toArray: vi.fn(() => Promise.resolve([{
-            id: 'sync-1',
-            tag: 'user-data-bookmark',
-            data: {
-              operation: 'bookmark',
-              data: { id: 'bookmark-1', book: 'John', chapter: 3, verse: 16 }
-            },
-            timestamp: new Date(),
-            retryCount: 0,
-            maxRetries: 3
-          }]))
-        }))
-      } as any)
 
       const result = await service.handleBackgroundSync(event)
 
       expect(result.success).toBe(true)
       expect(result.operationsProcessed).toBe(1)
+      expect(syncService.processSyncQueue).toHaveBeenCalled()
     })
 
     it('should handle Bible content sync events', async () => {
@@ -224,23 +222,6 @@ describe('BackgroundSyncService', () => {
         lastChance: false
       }
 
-      // Mock sync data
-      const { illumineDB } = await import('../indexedDB')
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        equals: vi.fn(() => ({
-          toArray: vi.fn(() => Promise.resolve([{
-            id: 'sync-1',
-            tag: 'bible-content-kjv',
-            data: {
-              versionId: 'kjv',
-              progress: 50
-            },
-            timestamp: new Date(),
-            retryCount: 0,
-            maxRetries: 3
-          }]))
-        }))
-      } as any)
 
       const result = await service.handleBackgroundSync(event)
 
@@ -254,30 +235,12 @@ describe('BackgroundSyncService', () => {
         lastChance: false
       }
 
-      // Mock sync data
-      const { illumineDB } = await import('../indexedDB')
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        equals: vi.fn(() => ({
-          toArray: vi.fn(() => Promise.resolve([{
-            id: 'sync-1',
-            tag: 'user-preferences',
-            data: {
-              preferences: {
-                theme: 'dark',
-                fontSize: 'large'
-              }
-            },
-            timestamp: new Date(),
-            retryCount: 0,
-            maxRetries: 3
-          }]))
-        }))
-      } as any)
 
       const result = await service.handleBackgroundSync(event)
 
       expect(result.success).toBe(true)
       expect(result.operationsProcessed).toBe(1)
+      expect(syncService.processSyncQueue).toHaveBeenCalled()
     })
 
     it('should handle full sync events', async () => {
@@ -311,13 +274,7 @@ describe('BackgroundSyncService', () => {
         lastChance: true
       }
 
-      // Mock sync data that will cause an error
-      const { illumineDB } = await import('../indexedDB')
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        equals: vi.fn(() => ({
-          toArray: vi.fn(() => Promise.reject(new Error('Database error')))
-        }))
-      } as any)
+      vi.mocked(syncService.processSyncQueue).mockRejectedValueOnce(new Error('Database error'))
 
       const result = await service.handleBackgroundSync(event)
 
@@ -327,115 +284,6 @@ describe('BackgroundSyncService', () => {
     })
   })
 
-  describe('Sync Statistics', () => {
-    it('should get sync statistics', async () => {
-      // Mock pending and failed operations
-      const { illumineDB } = await import('../indexedDB')
-
-      vi.mocked(illumineDB.backgroundSync.where).mockImplementation((field) => {
-        if (field === 'retryCount') {
-          return {
-            below: vi.fn(() => ({
-              sortBy: vi.fn(() => Promise.resolve([
-                { id: 'pending-1', tag: 'test', retryCount: 0 }
-              ]))
-            })),
-            aboveOrEqual: vi.fn(() => ({
-              sortBy: vi.fn(() => Promise.resolve([
-                { id: 'failed-1', tag: 'test', retryCount: 3 }
-              ]))
-            }))
-          }
-        }
-        return {
-          equals: vi.fn(() => ({
-            toArray: vi.fn(() => Promise.resolve([]))
-          }))
-        }
-      }) as any
-
-      vi.mocked(illumineDB.backgroundSync.count).mockResolvedValue(5)
-
-      const stats = await service.getSyncStats()
-
-      expect(stats.pendingOperations).toBe(1)
-      expect(stats.failedOperations).toBe(1)
-      expect(stats.totalOperations).toBe(5)
-      expect(Array.isArray(stats.registeredTags)).toBe(true)
-    })
-  })
-
-  describe('Retry Operations', () => {
-    it('should retry failed operations', async () => {
-      // Mock failed operations
-      const { illumineDB } = await import('../indexedDB')
-
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        aboveOrEqual: vi.fn(() => ({
-          sortBy: vi.fn(() => Promise.resolve([
-            {
-              id: 'failed-1',
-              tag: 'user-data-bookmark',
-              data: { test: 'data' },
-              retryCount: 3,
-              maxRetries: 3
-            }
-          ]))
-        }))
-      } as any)
-
-      const results = await service.retryFailedOperations()
-
-      expect(results).toHaveLength(1)
-      expect(results[0].success).toBe(true)
-      expect(illumineDB.backgroundSync.update).toHaveBeenCalledWith('failed-1', { retryCount: 0 })
-    })
-  })
-
-  describe('Data Management', () => {
-    it('should clear sync data', async () => {
-      const { illumineDB } = await import('../indexedDB')
-
-      await service.clearSyncData()
-
-      expect(illumineDB.backgroundSync.clear).toHaveBeenCalled()
-    })
-
-    it('should get pending operations', async () => {
-      const { illumineDB } = await import('../indexedDB')
-
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        below: vi.fn(() => ({
-          sortBy: vi.fn(() => Promise.resolve([
-            { id: 'pending-1', tag: 'test', retryCount: 0 }
-          ]))
-        }))
-      } as any)
-
-      const pending = await service.getPendingSyncOperations()
-
-      expect(pending).toHaveLength(1)
-      expect(pending[0].id).toBe('pending-1')
-    })
-
-    it('should get failed operations', async () => {
-      const { illumineDB } = await import('../indexedDB')
-
-      vi.mocked(illumineDB.backgroundSync.where).mockReturnValue({
-        aboveOrEqual: vi.fn(() => ({
-          sortBy: vi.fn(() => Promise.resolve([
-            { id: 'failed-1', tag: 'test', retryCount: 3 }
-          ]))
-        }))
-      } as unknown)
-
-      const failed = await service.getFailedSyncOperations()
-
-      expect(failed).toHaveLength(1)
-      expect(failed[0].id).toBe('failed-1')
-    })
-  })
-
   describe('Network Status Handling', () => {
     it('should handle online/offline events', () => {
       // Verify event listeners are set up
@@ -16,6 +16,13 @@ vi.mock('../indexedDB', () => ({
     books: {
       where: vi.fn(),
       sortBy: vi.fn()
+    },
+    bibleVersions: {
+      get: vi.fn().mockResolvedValue(undefined)
+    },
+    searchIndexMeta: {
+      get: vi.fn().mockResolvedValue(undefined),
+      toArray: vi.fn().mockResolvedValue([])
     }
   }
 }))
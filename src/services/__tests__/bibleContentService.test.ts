@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { bibleContentService } from '../bibleContentService'
+import { searchIndexService } from '../searchIndexService'
 import type { BibleVersion, SearchQuery } from '@/types'
 
 // Mock the external API
@@ -81,25 +82,46 @@ describe('BibleContentService', () => {
     })
   })
 
-  describe('calculateRelevanceScore', () => {
-    it('should calculate relevance score for search results', () => {
+  describe('term frequency ranking', () => {
+    it('should rank scanned verses by term frequency', async () => {
       const service = bibleContentService as any
+      vi.spyOn(searchIndexService, 'getVersionLanguage').mockResolvedValue('en')
+      const verses = [
+        { id: 'a', book: 'JHN', chapter: 3, verse: 16, text: 'For God so loved the world', version: 'kjv' },
+        { id: 'b', book: '1JN', chapter: 4, verse: 8, text: 'God is love; love is of God', version: 'kjv' },
+        { id: 'c', book: 'GEN', chapter: 1, verse: 1, text: 'In the beginning', version: 'kjv' }
+      ]
 
-      const exactMatchScore = service.calculateRelevanceScore('God so loved the world', 'God so loved')
-      const wordMatchScore = service.calculateRelevanceScore('For God so loved', 'love')
-      const noMatchScore = service.calculateRelevanceScore('In the beginning', 'love')
+      const results = await service.rankScannedVerses(verses, { query: 'love', versions: ['kjv'] })
 
-      expect(exactMatchScore).toBeGreaterThan(wordMatchScore)
-      expect(wordMatchScore).toBeGreaterThan(noMatchScore)
+      expect(results.map((result: { verse: { id: string } }) => result.verse.id)).toEqual(['b', 'a'])
+      expect(results[0].relevanceScore).toBeGreaterThan(results[1].relevanceScore)
     })
   })
 
   describe('highlightSearchTerm', () => {
+    type HighlightAccess = { highlightSearchTerm(text: string, query: string, exactMatch?: boolean): string }
+
     it('should highlight search terms in text', () => {
       const service = bibleContentService as any
 
       const highlighted = service.highlightSearchTerm('For God so loved the world', 'God')
       expect(highlighted).toBe('For <mark>God</mark> so loved the world')
     })
+
+    it('should escape the verse text before marking matches', () => {
+      const service = bibleContentService as unknown as HighlightAccess
+
+      const highlighted = service.highlightSearchTerm('God <img src=x onerror=alert(1)> so loved', 'img')
+      expect(highlighted).toBe('God &lt;<mark>img</mark> src=x onerror=alert(1)&gt; so loved')
+      expect(service.highlightSearchTerm('<img src=x onerror=alert(1)>', '<img', true)).toBe('<mark>&lt;img</mark> src=x onerror=alert(1)&gt;')
+    })
+
+    it('should mark a word inside a matched phrase only once', () => {
+      const service = bibleContentService as unknown as HighlightAccess
+
+      const highlighted = service.highlightSearchTerm('For God so loved the world', '"so loved" loved')
+      expect(highlighted).toBe('For God <mark>so loved</mark> the world')
+    })
   })
 })
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DeltaSyncService, LOOKBACK_VERSIONS } from '../deltaSyncService'
+import { illumineDB } from '../indexedDB'
+import { createMemoryDeltaRemote } from '@/test-utils'
+import type { Bookmark, Highlight, Note, NoteRevision } from '@/types'
+
+vi.mock('../supabase', () => ({ supabase: {} }))
+
+// IndexedDB tables kept in maps, with the queries delta sync makes
+vi.mock('../indexedDB', () => {
+  const createTable = <T>(key: keyof T) => {
+    const rows = new Map<string, T>()
+    const matching = (match: (row: T) => boolean) => ({
+      toArray: async () => [...rows.values()].filter(match),
+      delete: async () => {
+        for (const [id, row] of rows) if (match(row)) rows.delete(id)
+      }
+    })
+    return {
+      rows,
+      get: async (id: string) => rows.get(id),
+      put: async (row: T) => { rows.set(String(row[key]), row) },
+      delete: async (id: string) => { rows.delete(id) },
+      where: (field: keyof T) => ({
+        equals: (value: unknown) => matching(row => row[field] === value),
+        startsWith: (prefix: string) => matching(row => String(row[field]).startsWith(prefix))
+      })
+    }
+  }
+
+  return {
+    illumineDB: {
+      bookmarks: createTable<Bookmark>('id'),
+      notes: createTable<Note>('id'),
+      highlights: createTable<Highlight>('id'),
+      noteRevisions: createTable<NoteRevision>('id'),
+      metadata: createTable<{ key: string; value: unknown }>('key')
+    }
+  }
+})
+
+interface MapTable<T> {
+  rows: Map<string, T>
+}
+
+const USER = 'user-1'
+const local = illumineDB as unknown as {
+  bookmarks: MapTable<Bookmark>
+  notes: MapTable<Note>
+  highlights: MapTable<Highlight>
+  noteRevisions: MapTable<NoteRevision>
+  metadata: MapTable<{ key: string; value: unknown }>
+}
+
+function bookmark(id: string, verse: number, extra: Partial<Bookmark> = {}): Bookmark {
+  return { id, userId: USER, book: 'JHN', chapter: 3, verse, createdAt: new Date('2026-01-01'), syncStatus: 'synced', ...extra }
+}
+
+function note(id: string, content: string, extra: Partial<Note> = {}): Note {
+  return {
+    id,
+    userId: USER,
+    book: 'PSA',
+    chapter: 23,
+    verse: 1,
+    content,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    syncStatus: 'synced',
+    ...extra
+  }
+}
+
+function highlight(id: string, extra: Partial<Highlight> = {}): Highlight {
+  return { id, userId: USER, book: 'ROM', chapter: 8, verse: 28, colorHex: '#FFFF00', createdAt: new Date('2026-01-01'), syncStatus: 'synced', ...extra }
+}
+
+describe('DeltaSyncService', () => {
+  let remote: ReturnType<typeof createMemoryDeltaRemote>
+  let thisDevice: DeltaSyncService
+  let otherDevice: DeltaSyncService
+
+  beforeEach(() => {
+    Object.values(local).forEach(table => table.rows.clear())
+    remote = createMemoryDeltaRemote()
+    thisDevice = new DeltaSyncService(remote)
+    otherDevice = new DeltaSyncService(remote)
+  })
+
+  it('should pull only what changed since the stored cursor', async () => {
+    await otherDevice.pushBookmark(bookmark('b1', 16), USER)
+    await otherDevice.pushBookmark(bookmark('b2', 17), USER)
+
+    const first = await thisDevice.pullTable(USER, 'bookmarks')
+    expect(first.applied).toBe(2)
+    expect([...local.bookmarks.rows.keys()]).toEqual(['b1', 'b2'])
+
+    const fetchChanges = vi.spyOn(remote, 'fetchChanges')
+    await otherDevice.pushBookmark(bookmark('b3', 18), USER)
+
+    const second = await thisDevice.pullTable(USER, 'bookmarks')
+    expect(fetchChanges).toHaveBeenCalledWith('bookmarks', USER, Math.max(0, first.cursor.version - LOOKBACK_VERSIONS), expect.any(Number))
+    expect(second.applied).toBe(1)
+    expect(await thisDevice.getCursor(USER, 'bookmarks')).toEqual(second.cursor)
+
+    // Nothing new: nothing applied, cursor kept
+    expect((await thisDevice.pullTable(USER, 'bookmarks')).applied).toBe(0)
+  })
+
+  it('should pick up a write that committed after a later one was pulled', async () => {
+    const slow = remote.startWrite('bookmarks', { client_id: 'b1', user_id: USER, book: 'JHN', chapter: 3, verse: 16 })
+    await otherDevice.pushBookmark(bookmark('b2', 17), USER)
+
+    const first = await thisDevice.pullTable(USER, 'bookmarks')
+    expect([...local.bookmarks.rows.keys()]).toEqual(['b2'])
+
+    // b1's version is below the cursor by the time it commits
+    const committed = slow.commit()
+    expect(committed.sync_version).toBeLessThan(first.cursor.version)
+
+    const second = await thisDevice.pullTable(USER, 'bookmarks')
+    expect(second.applied).toBe(1)
+    expect([...local.bookmarks.rows.keys()]).toEqual(['b2', 'b1'])
+    expect(second.cursor.version).toBe(first.cursor.version)
+  })
+
+  it('should keep two notes on one verse apart and repeat pushes harmlessly', async () => {
+    await otherDevice.pushNote(note('n1', 'The Lord is my shepherd'), USER)
+    await otherDevice.pushNote(note('n2', 'I shall not want'), USER)
+    await otherDevice.pushNote(note('n2', 'I shall not want'), USER)
+
+    expect(remote.tables.notes).toHaveLength(2)
+
+    await thisDevice.pullTable(USER, 'notes')
+    expect([...local.notes.rows.values()].map(item => [item.id, item.content])).toEqual([
+      ['n1', 'The Lord is my shepherd'],
+      ['n2', 'I shall not want']
+    ])
+  })
+
+  it('should apply tombstones from other devices', async () => {
+    await otherDevice.pushHighlight(highlight('h1'), USER)
+    await otherDevice.pushNote(note('n1', 'Draft'), USER)
+    await thisDevice.pullAll(USER)
+    local.noteRevisions.rows.set('r1', {
+      id: 'r1',
+      noteId: 'n1',
+      userId: USER,
+      parentRevisionId: null,
+      content: 'Draft',
+      origin: 'edit',
+      createdAt: new Date('2026-01-01'),
+      syncStatus: 'synced'
+    })
+
+    await otherDevice.pushDeletion('highlights', USER, 'h1')
+    await otherDevice.pushDeletion('notes', USER, 'n1')
+
+    const pulled = await thisDevice.pullAll(USER)
+    expect(pulled.highlights.deleted).toBe(1)
+    expect(pulled.notes.deleted).toBe(1)
+    expect(local.highlights.rows.size).toBe(0)
+    expect(local.notes.rows.size).toBe(0)
+    expect(local.noteRevisions.rows.size).toBe(0)
+
+    // The tombstone stays on the server for devices that haven't pulled yet
+    expect(remote.tables.highlights[0].deleted_at).toBeTruthy()
+  })
+
+  it('should leave local changes that are not synced yet for the push to settle', async () => {
+    local.notes.rows.set('n1', note('n1', 'Edited offline', { syncStatus: 'pending' }))
+    await otherDevice.pushNote(note('n1', 'Edited elsewhere'), USER)
+
+    const pulled = await thisDevice.pullTable(USER, 'notes')
+
+    expect(pulled.skipped).toBe(1)
+    expect(local.notes.rows.get('n1')?.content).toBe('Edited offline')
+    expect(pulled.cursor.version).toBeGreaterThan(0)
+  })
+
+  it('should apply a tombstone over unsynced changes and not undo it when they are pushed', async () => {
+    await otherDevice.pushNote(note('n1', 'Draft'), USER)
+    await thisDevice.pullTable(USER, 'notes')
+    await otherDevice.pushDeletion('notes', USER, 'n1')
+
+    // Edited here while the other device deleted it; the edit is pushed before the pull
+    const edited = note('n1', 'Edited offline', { syncStatus: 'pending' })
+    local.notes.rows.set('n1', edited)
+    await thisDevice.pushNote(edited, USER)
+    expect(remote.tables.notes[0].deleted_at).toBeTruthy()
+
+    const pulled = await thisDevice.pullTable(USER, 'notes')
+    expect(pulled.deleted).toBe(1)
+    expect(pulled.skipped).toBe(0)
+    expect(local.notes.rows.size).toBe(0)
+  })
+
+  it('should claim rows from before client ids for the local row on the same verse', async () => {
+    local.bookmarks.rows.set('bookmark_1', bookmark('bookmark_1', 16))
+    const legacy = remote.write('bookmarks', { client_id: null, user_id: USER, book: 'JHN', chapter: 3, verse: 16 })
+    const elsewhere = remote.write('bookmarks', { client_id: null, user_id: USER, book: 'JHN', chapter: 3, verse: 36 })
+
+    await thisDevice.pullTable(USER, 'bookmarks')
+
+    expect([...local.bookmarks.rows.keys()].sort()).toEqual(['bookmark_1', `remote_${elsewhere.id}`])
+    expect(remote.tables.bookmarks.find(row => row.id === legacy.id)?.client_id).toBe('bookmark_1')
+
+    // Claiming is a change too, but applying it again changes nothing
+    const again = await thisDevice.pullTable(USER, 'bookmarks')
+    expect(local.bookmarks.rows.size).toBe(2)
+    expect(again.applied).toBe(2)
+  })
+
+  it('should find an unclaimed row to tombstone by where it was made', async () => {
+    remote.write('highlights', { client_id: null, user_id: USER, book: 'ROM', chapter: 8, verse: 28, color_hex: '#FFFF00' })
+    remote.write('highlights', { client_id: null, user_id: USER, book: 'ROM', chapter: 8, verse: 28, color_hex: '#00FF00' })
+
+    await thisDevice.pushDeletion('highlights', USER, 'highlight_1', highlight('highlight_1'))
+
+    expect(remote.tables.highlights.map(row => [row.color_hex, !!row.deleted_at])).toEqual([
+      ['#00FF00', false],
+      ['#FFFF00', true]
+    ])
+  })
+
+  it('should start over once the cursors are reset', async () => {
+    await otherDevice.pushBookmark(bookmark('b1', 16), USER)
+    await thisDevice.pullTable(USER, 'bookmarks')
+    local.bookmarks.rows.clear()
+
+    await thisDevice.resetCursors()
+
+    expect((await thisDevice.pullTable(USER, 'bookmarks')).applied).toBe(1)
+  })
+})
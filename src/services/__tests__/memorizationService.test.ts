@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MemorizationService } from '../memorizationService'
+import { bibleContentService } from '../bibleContentService'
+import { syncService } from '../syncService'
+import { DataTransformers } from '@/utils/transformers'
+import type { Verse } from '@/types'
+import type { MemorizationCardInsert } from '@/types/database'
+import type { MemorizationCard } from '@/types/quickWins'
+
+vi.mock('../indexedDB', () => ({
+  illumineDB: {
+    metadata: {
+      get: vi.fn(() => Promise.resolve(undefined))
+    },
+    memorizationCards: {
+      put: vi.fn(),
+      bulkPut: vi.fn()
+    }
+  }
+}))
+
+vi.mock('../bibleContentService', () => ({
+  bibleContentService: {
+    getVerses: vi.fn()
+  }
+}))
+
+vi.mock('../syncService', () => ({
+  syncService: {
+    queueOperation: vi.fn(() => Promise.resolve('sync-1'))
+  }
+}))
+
+/**
+ * memorization_cards with the unique indexes of the passages migration: one
+ * standalone card per verse and version, one card per chunk of a passage
+ */
+function createRemoteCards() {
+  const rows: MemorizationCardInsert[] = []
+
+  const violates = (row: MemorizationCardInsert, other: MemorizationCardInsert) => other.id !== row.id && (
+    row.passage_id
+      ? other.passage_id === row.passage_id && other.chunk_index === row.chunk_index
+      : !other.passage_id && other.user_id === row.user_id &&
+        other.verse_id === row.verse_id && other.bible_version_id === row.bible_version_id
+  )
+
+  return {
+    rows,
+    upsert(row: MemorizationCardInsert): { error: { code: string } | null } {
+      if (rows.some(other => violates(row, other))) return { error: { code: '23505' } }
+
+      const index = rows.findIndex(other => other.id === row.id)
+      if (index === -1) rows.push(row)
+      else rows[index] = row
+      return { error: null }
+    }
+  }
+}
+
+function verse(number: number): Verse {
+  return { id: `JHN.3.${number}`, book: 'JHN', chapter: 3, verse: number, text: `John 3:${number}`, version: 'kjv' }
+}
+
+// Cards in the order they were queued, as the outbox pushes them
+function queuedCards(): MemorizationCard[] {
+  return vi.mocked(syncService.queueOperation).mock.calls
+    .filter(([operation, entityType]) => operation === 'create' && entityType === 'memorization_card')
+    .map(([, , , data]) => data as MemorizationCard)
+}
+
+describe('MemorizationService', () => {
+  let service: MemorizationService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    let nextId = 0
+    vi.mocked(crypto.randomUUID).mockImplementation(() => `card-0000-0000-0000-${++nextId}` as const)
+    vi.mocked(bibleContentService.getVerses).mockResolvedValue([16, 17, 18, 19, 20, 21].map(verse))
+    service = new MemorizationService()
+  })
+
+  describe('Passages', () => {
+    it('should push every card of a passage alongside a card for one of its verses', async () => {
+      const remote = createRemoteCards()
+      await service.createCard('user-1', 'JHN.3.16', 'John 3:16', 'John 3:16', 'kjv')
+
+      const cards = await service.createPassage('user-1', { book: 'JHN', startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 21 }, 'kjv')
+
+      // Two chunks of three verses, then the whole-passage recitation
+      expect(cards.map(card => card.chunkIndex)).toEqual([0, 1, null])
+      expect(cards.filter(card => card.verseId === 'JHN.3.16')).toHaveLength(2)
+
+      const results = queuedCards().map(card => remote.upsert({ ...DataTransformers.transformMemorizationCardToDb(card), user_id: 'user-1' }))
+      expect(results.every(result => result.error === null)).toBe(true)
+      expect(remote.rows).toHaveLength(4)
+
+      // Pushing again after a retry updates the rows rather than adding more
+      queuedCards().forEach(card => remote.upsert({ ...DataTransformers.transformMemorizationCardToDb(card), user_id: 'user-1' }))
+      expect(remote.rows).toHaveLength(4)
+    })
+
+    it('should still keep standalone cards one per verse and version', () => {
+      const remote = createRemoteCards()
+      const row = (id: string): MemorizationCardInsert => ({
+        id,
+        user_id: 'user-1',
+        verse_id: 'JHN.3.16',
+        verse_text: 'John 3:16',
+        verse_reference: 'John 3:16',
+        bible_version_id: 'kjv'
+      })
+
+      expect(remote.upsert(row('card-1')).error).toBeNull()
+      expect(remote.upsert(row('card-2')).error).toEqual({ code: '23505' })
+    })
+  })
+})
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { OutboxService } from '../outboxService'
+import { illumineDB, type StoredSyncOperation } from '../indexedDB'
+import type { SyncConflict } from '../syncService'
+import type { Bookmark, Note, NoteRevision } from '@/types'
+import type { CollectionVerse, VerseCollection } from '@/types/personalization'
+
+// The sync queue and conflict tables kept in maps, with the queries the outbox makes
+vi.mock('../indexedDB', () => {
+  const createTable = <T extends { entityType: string; entityId: string; timestamp: Date }>(key: keyof T) => {
+    const rows = new Map<string, T>()
+    const byTimestamp = () => [...rows.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    return {
+      rows,
+      get: async (id: string) => rows.get(id) && { ...rows.get(id) },
+      put: async (row: T) => { rows.set(String(row[key]), { ...row }) },
+      delete: async (id: string) => { rows.delete(id) },
+      clear: async () => rows.clear(),
+      update: async (id: string, changes: Partial<T>) => {
+        const row = rows.get(id)
+        if (!row) return 0
+        // Fields updated to undefined are removed, as Dexie does
+        const fields = Object.entries({ ...row, ...changes }).filter(([, value]) => value !== undefined)
+        rows.set(id, Object.fromEntries(fields) as T)
+        return 1
+      },
+      orderBy: () => ({ toArray: async () => byTimestamp() }),
+      where: () => ({
+        equals: ([entityType, entityId]: [string, string]) => ({
+          sortBy: async () => byTimestamp().filter(row => row.entityType === entityType && row.entityId === entityId)
+        })
+      }),
+      toCollection: () => ({ primaryKeys: async () => [...rows.keys()] })
+    }
+  }
+
+  const syncQueue = createTable<StoredSyncOperation>('id')
+  const syncConflicts = createTable<SyncConflict>('operationId')
+  return {
+    illumineDB: {
+      syncQueue,
+      syncConflicts,
+      transaction: (_mode: string, _tables: unknown, callback: () => Promise<unknown>) => callback()
+    }
+  }
+})
+
+const queue = (illumineDB.syncQueue as unknown as { rows: Map<string, StoredSyncOperation> }).rows
+
+function bookmark(id: string, verse: number): Bookmark {
+  return { id, userId: 'user-1', book: 'JHN', chapter: 3, verse, createdAt: new Date('2026-01-01'), syncStatus: 'pending' }
+}
+
+function note(id: string, content: string): Note {
+  return {
+    id,
+    userId: 'user-1',
+    book: 'PSA',
+    chapter: 23,
+    verse: 1,
+    content,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    syncStatus: 'pending'
+  }
+}
+
+function collection(id: string): VerseCollection {
+  return {
+    id,
+    userId: 'user-1',
+    name: 'Comfort',
+    color: '#3B82F6',
+    icon: '📖',
+    isPublic: false,
+    tags: [],
+    sections: [],
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    syncStatus: 'pending'
+  }
+}
+
+function collectionVerse(id: string, collectionId: string): CollectionVerse {
+  return {
+    id,
+    collectionId,
+    verseId: 'PSA.23.1',
+    verseReference: 'Psalm 23:1',
+    bibleVersionId: 'kjv',
+    verseText: 'The LORD is my shepherd; I shall not want.',
+    sectionId: null,
+    position: 0,
+    addedAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    syncStatus: 'pending'
+  }
+}
+
+function revision(id: string, noteId: string): NoteRevision {
+  return {
+    id,
+    noteId,
+    userId: 'user-1',
+    parentRevisionId: null,
+    content: 'first',
+    origin: 'edit',
+    createdAt: new Date('2026-01-01'),
+    syncStatus: 'pending'
+  }
+}
+
+describe('OutboxService', () => {
+  let outbox: OutboxService
+
+  beforeEach(async () => {
+    await illumineDB.syncQueue.clear()
+    await illumineDB.syncConflicts.clear()
+    outbox = new OutboxService()
+  })
+
+  describe('Coalescing', () => {
+    it('should fold updates into the create still waiting for the same entity', async () => {
+      const id = await outbox.enqueue('create', 'note', 'note-1', note('note-1', 'first'))
+      expect(await outbox.enqueue('update', 'note', 'note-1', note('note-1', 'second'))).toBe(id)
+
+      const queued = await outbox.getQueue()
+      expect(queued).toHaveLength(1)
+      expect(queued[0]).toMatchObject({ id, operation: 'create', data: { content: 'second' } })
+    })
+
+    it('should drop a create and delete that never reached the server', async () => {
+      await outbox.enqueue('create', 'bookmark', 'bookmark-1', bookmark('bookmark-1', 16))
+      await outbox.enqueue('update', 'bookmark', 'bookmark-1', bookmark('bookmark-1', 17))
+
+      expect(await outbox.enqueue('delete', 'bookmark', 'bookmark-1', null)).toBeNull()
+      expect(await outbox.getQueue()).toEqual([])
+    })
+
+    it('should turn an update and delete into a delete that can still find the row', async () => {
+      await outbox.enqueue('update', 'bookmark', 'bookmark-1', bookmark('bookmark-1', 16))
+      await outbox.enqueue('delete', 'bookmark', 'bookmark-1', null)
+
+      const queued = await outbox.getQueue()
+      expect(queued).toHaveLength(1)
+      expect(queued[0]).toMatchObject({ operation: 'delete', data: { verse: 16 } })
+    })
+
+    it('should queue changes behind an operation that is being pushed', async () => {
+      await outbox.enqueue('create', 'note', 'note-1', note('note-1', 'first'))
+
+      await outbox.drain(async () => {
+        await outbox.enqueue('update', 'note', 'note-1', note('note-1', 'second'))
+        return 'pushed'
+      })
+
+      const queued = await outbox.getQueue()
+      expect(queued).toHaveLength(1)
+      expect(queued[0]).toMatchObject({ operation: 'update', data: { content: 'second' } })
+    })
+  })
+
+  describe('Ordering', () => {
+    it('should hold an entity\'s later operations while an earlier one fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      await outbox.enqueue('create', 'note', 'note-1', note('note-1', 'first'))
+      await outbox.enqueue('create', 'bookmark', 'bookmark-1', bookmark('bookmark-1', 16))
+      await outbox.enqueue('create', 'note_revision', 'revision-1', null)
+      const noteUpdate = { id: 'sync_later', operation: 'update' as const, entityType: 'note' as const, entityId: 'note-1' }
+      await illumineDB.syncQueue.put({ ...noteUpdate, data: note('note-1', 'second'), timestamp: new Date(Date.now() + 1000), retryCount: 0, maxRetries: 3 })
+
+      const pushed: string[] = []
+      const result = await outbox.drain(async operation => {
+        if (operation.entityType === 'note') throw new Error('Network error')
+        pushed.push(operation.entityId)
+        return 'pushed'
+      })
+
+      expect(pushed).toEqual(['bookmark-1', 'revision-1'])
+      expect(result).toMatchObject({ pushed: 2, waiting: 1, errors: [new Error('Network error')] })
+      expect(result.nextRetryAt).toBeInstanceOf(Date)
+      expect([...queue.values()].map(operation => operation.entityId)).toEqual(['note-1', 'note-1'])
+    })
+
+    it('should hold what belongs to an entity while the entity\'s own change waits', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      await outbox.enqueue('create', 'verse_collection', 'collection-1', collection('collection-1'))
+      await outbox.enqueue('create', 'collection_verse', 'verse-1', collectionVerse('verse-1', 'collection-1'))
+      await outbox.enqueue('create', 'note', 'note-1', note('note-1', 'first'))
+      await outbox.enqueue('create', 'note_revision', 'revision-1', revision('revision-1', 'note-1'))
+      await outbox.enqueue('create', 'collection_verse', 'verse-2', collectionVerse('verse-2', 'collection-2'))
+
+      const pushed: string[] = []
+      const result = await outbox.drain(async operation => {
+        if (operation.entityType === 'verse_collection') throw new Error('Network error')
+        if (operation.entityType === 'note') return 'held'
+        pushed.push(operation.entityId)
+        return 'pushed'
+      })
+
+      expect(pushed).toEqual(['verse-2'])
+      expect(result).toMatchObject({ pushed: 1, held: 1, waiting: 2 })
+
+      // Once the collection is on the server its verse follows
+      queue.forEach(operation => { operation.nextRetryAt = undefined })
+      await outbox.drain(async operation => {
+        if (operation.entityType === 'note') return 'held'
+        pushed.push(operation.entityId)
+        return 'pushed'
+      })
+      expect(pushed).toEqual(['verse-2', 'collection-1', 'verse-1'])
+    })
+
+    it('should keep held operations queued without counting a retry', async () => {
+      const id = await outbox.enqueue('update', 'note', 'note-1', note('note-1', 'mine'))
+
+      const result = await outbox.drain(async () => 'held')
+
+      expect(result.held).toBe(1)
+      expect(queue.get(id!)).toMatchObject({ retryCount: 0 })
+      expect(queue.get(id!)?.syncingSince).toBeUndefined()
+    })
+  })
+
+  describe('Retries', () => {
+    const operation: StoredSyncOperation = {
+      id: 'sync-1',
+      operation: 'create',
+      entityType: 'bookmark',
+      entityId: 'bookmark-1',
+      data: {},
+      timestamp: new Date(),
+      retryCount: 1,
+      maxRetries: 3
+    }
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      await illumineDB.syncQueue.put(operation)
+    })
+
+    it('should back off exponentially after an error', async () => {
+      const before = Date.now()
+      const nextRetryAt = await outbox.recordFailure(operation, new Error('Network error'))
+      const after = Date.now()
+
+      // Second retry: 4 seconds, plus up to 30% jitter
+      expect(nextRetryAt!.getTime()).toBeGreaterThanOrEqual(before + 4000)
+      expect(nextRetryAt!.getTime()).toBeLessThanOrEqual(after + 5200)
+      expect(queue.get('sync-1')).toMatchObject({ retryCount: 2, lastError: 'Network error', nextRetryAt })
+    })
+
+    it('should mark an operation failed after max retries until retried by hand', async () => {
+      await outbox.recordFailure({ ...operation, retryCount: 2 }, new Error('Persistent error'))
+
+      expect(queue.get('sync-1')).toMatchObject({ retryCount: 3, lastError: 'Persistent error' })
+      expect(await outbox.getFailed()).toHaveLength(1)
+
+      expect(await outbox.retryFailed()).toBe(1)
+      expect(queue.get('sync-1')).toMatchObject({ retryCount: 0 })
+      expect(await outbox.getFailed()).toEqual([])
+    })
+  })
+
+  it('should report the whole queue in one status', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await outbox.enqueue('create', 'bookmark', 'bookmark-1', bookmark('bookmark-1', 16))
+    const backingOff = await outbox.enqueue('create', 'bookmark', 'bookmark-2', bookmark('bookmark-2', 17))
+    const failed = await outbox.enqueue('update', 'note', 'note-1', note('note-1', 'failed'))
+    const conflicted = await outbox.enqueue('update', 'note', 'note-2', note('note-2', 'mine'))
+
+    await outbox.recordFailure(queue.get(backingOff!)!, new Error('Network error'))
+    await outbox.recordFailure({ ...queue.get(failed!)!, retryCount: 2 }, new Error('Persistent error'))
+    await illumineDB.syncConflicts.put({
+      operationId: conflicted!,
+      entityType: 'note',
+      entityId: 'note-2',
+      localData: note('note-2', 'mine'),
+      remoteData: note('note-2', 'theirs'),
+      conflictType: 'update_conflict',
+      timestamp: new Date()
+    })
+
+    const status = await outbox.getStatus()
+
+    expect(status).toMatchObject({
+      total: 4,
+      pending: 1,
+      retrying: 1,
+      failed: 1,
+      conflicts: 1,
+      byEntity: { bookmark: 2, note: 2 }
+    })
+    expect(status.nextRetryAt).toEqual(queue.get(backingOff!)!.nextRetryAt)
+  })
+})
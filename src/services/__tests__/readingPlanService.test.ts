@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ReadingPlanService } from '../readingPlanService'
+import { illumineDB } from '../indexedDB'
+import { syncService } from '../syncService'
+import { addDays, createCustomPlan, getPlanDayChapters } from '@/utils/readingPlans'
+import type { ReadingPlanDayProgress, ReadingPlanEnrollment } from '@/types/readingPlans'
+
+// Enrollment and progress tables kept in maps, with the queries the service makes
+vi.mock('../indexedDB', () => {
+  const createTable = <T extends { id: string }>() => {
+    const rows = new Map<string, T>()
+    const matching = (field: keyof T, value: unknown) => [...rows.values()].filter(row => row[field] === value)
+    return {
+      rows,
+      get: async (id: string) => rows.get(id),
+      put: async (row: T) => { rows.set(row.id, { ...row }) },
+      delete: async (id: string) => { rows.delete(id) },
+      clear: async () => rows.clear(),
+      where: (field: keyof T) => ({
+        equals: (value: unknown) => ({
+          toArray: async () => matching(field, value),
+          sortBy: async (key: keyof T) => matching(field, value).sort((a, b) => (a[key] < b[key] ? -1 : 1)),
+          delete: async () => matching(field, value).forEach(row => rows.delete(row.id))
+        })
+      })
+    }
+  }
+
+  return {
+    illumineDB: {
+      readingPlanEnrollments: createTable<ReadingPlanEnrollment>(),
+      readingPlanProgress: createTable<ReadingPlanDayProgress>(),
+      transaction: (_mode: string, _tables: unknown, callback: () => Promise<unknown>) => callback()
+    }
+  }
+})
+
+vi.mock('../syncService', () => ({
+  syncService: {
+    queueOperation: vi.fn().mockResolvedValue('sync-1')
+  }
+}))
+
+// John 1-6 over three days, two chapters a day
+const plan = createCustomPlan({
+  name: 'Gospel of John, part one',
+  passages: [{ book: 'JHN', startChapter: 1, endChapter: 6 }],
+  durationDays: 3
+})
+
+describe('ReadingPlanService', () => {
+  let service: ReadingPlanService
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    await illumineDB.readingPlanEnrollments.clear()
+    await illumineDB.readingPlanProgress.clear()
+    service = new ReadingPlanService()
+  })
+
+  describe('Enrollment', () => {
+    it('should store an active enrollment and queue it for sync', async () => {
+      const enrollment = await service.enroll('user-1', 'nt-90-days')
+
+      expect(await service.getEnrollment(enrollment.id)).toMatchObject({ userId: 'user-1', planId: 'nt-90-days', status: 'active' })
+      expect(syncService.queueOperation).toHaveBeenCalledWith('create', 'reading_plan', enrollment.id, enrollment)
+    })
+
+    it('should reject plans that don\'t exist', async () => {
+      await expect(service.enroll('user-1', 'no-such-plan')).rejects.toThrow('Reading plan no-such-plan not found')
+    })
+
+    it('should only list the user\'s own active enrollments', async () => {
+      const mine = await service.enroll('user-1', plan)
+      const paused = await service.enroll('user-1', 'nt-90-days')
+      await service.pauseEnrollment(paused.id)
+      await service.enroll('user-2', plan)
+
+      expect((await service.getActiveEnrollments('user-1')).map(enrollment => enrollment.id)).toEqual([mine.id])
+    })
+  })
+
+  describe('Progress', () => {
+    it('should complete a day once all its chapters are read', async () => {
+      const enrollment = await service.enroll('user-1', plan)
+      const [first, second] = getPlanDayChapters(plan, 1)
+
+      const partial = await service.markChapterRead(enrollment.id, 1, first)
+      expect(partial.completedAt).toBeNull()
+
+      const complete = await service.markChapterRead(enrollment.id, 1, second)
+      expect(complete.completedChapters).toEqual([first, second])
+      expect(complete.completedAt).toBeInstanceOf(Date)
+      expect(syncService.queueOperation).toHaveBeenCalledWith('update', 'reading_plan_progress', `${enrollment.id}:1`, complete)
+    })
+
+    it('should mark the plan completed when the last day is finished', async () => {
+      const enrollment = await service.enroll('user-1', plan)
+
+      for (const { day } of plan.days) {
+        await service.markDayComplete(enrollment.id, day)
+      }
+
+      expect(await service.getEnrollment(enrollment.id)).toMatchObject({ status: 'completed' })
+      expect((await service.getSummary(enrollment.id)).percentComplete).toBe(100)
+    })
+
+    it('should credit a chapter read in the reader to that user\'s plans only', async () => {
+      const mine = await service.enroll('user-1', plan)
+      const theirs = await service.enroll('user-2', plan)
+
+      await service.recordChapterRead('user-1', 'JHN', 1)
+
+      expect((await service.getProgress(mine.id)).get(1)?.completedChapters).toEqual(['JHN.1'])
+      expect((await service.getProgress(theirs.id)).size).toBe(0)
+    })
+  })
+
+  describe('Catch-up', () => {
+    // Started two days ago with nothing read: days 1 and 2 are missed
+    const startDate = addDays(new Date(), -2)
+
+    it('should spread missed chapters over the coming days', async () => {
+      const enrollment = await service.enroll('user-1', plan, startDate)
+
+      const updated = await service.catchUp(enrollment.id, 'spread', 2)
+
+      expect(updated.catchUp).toMatchObject({ startDay: 3, spreadOverDays: 2 })
+      expect(updated.catchUp?.entries.map(entry => entry.chapter)).toEqual([
+        ...getPlanDayChapters(plan, 1),
+        ...getPlanDayChapters(plan, 2)
+      ])
+
+      const today = await service.getDailyAssignment(enrollment.id)
+      expect(today?.chapters).toEqual([...getPlanDayChapters(plan, 1), ...getPlanDayChapters(plan, 3)])
+    })
+
+    it('should reschedule so the first missed day is today', async () => {
+      const enrollment = await service.enroll('user-1', plan, startDate)
+
+      const updated = await service.catchUp(enrollment.id, 'reschedule')
+
+      expect(updated.startDate).toEqual(addDays(new Date(), 0))
+      expect((await service.getSummary(enrollment.id)).missedDays).toEqual([])
+    })
+  })
+})
@@ -392,9 +392,9 @@ describe('SyncService Integration', () => {
 
     it('should provide detailed sync statistics', async () => {
       // Add some test operations
-      await syncService.queueOperation('create', 'bookmark', 'bookmark-1', {})
-      await syncService.queueOperation('create', 'note', 'note-1', {})
-      await syncService.queueOperation('create', 'highlight', 'highlight-1', {})
+      await syncService.queueOperation('create', 'bookmark', 'bookmark-1', {} as Bookmark)
+      await syncService.queueOperation('create', 'note', 'note-1', {} as Note)
+      await syncService.queueOperation('create', 'highlight', 'highlight-1', {} as Highlight)
 
       const stats = await syncService.getDetailedSyncStats()
 
@@ -1,12 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Collection } from 'dexie'
 import { SyncService, ConflictError, type SyncConflict, type ConflictResolution } from '../syncService'
-import { illumineDB } from '../indexedDB'
+import { illumineDB, type StoredSyncOperation } from '../indexedDB'
 import { supabase } from '../supabase'
-import type { Bookmark, Note, Highlight } from '@/types'
+import { noteRevisionService } from '../noteRevisionService'
+import type { Bookmark, Note, Highlight, NoteRevision } from '@/types'
 
 // Mock dependencies
 vi.mock('../indexedDB', () => ({
   illumineDB: {
+    transaction: vi.fn((_mode, _tables, callback) => callback()),
     syncQueue: {
       put: vi.fn(),
       get: vi.fn(),
@@ -43,12 +46,22 @@ vi.mock('../indexedDB', () => ({
           }))
         })),
         equals: vi.fn(() => ({
+          sortBy: vi.fn(() => Promise.resolve([])),
           reverse: vi.fn(() => ({
             sortBy: vi.fn(() => Promise.resolve([]))
           }))
         }))
       }))
     },
+    syncConflicts: {
+      get: vi.fn(),
+      put: vi.fn(),
+      delete: vi.fn(),
+      clear: vi.fn(),
+      toCollection: vi.fn(() => ({
+        primaryKeys: vi.fn(() => Promise.resolve([]))
+      }))
+    },
     bookmarks: {
       put: vi.fn(),
       update: vi.fn(),
@@ -78,6 +91,18 @@ vi.mock('../indexedDB', () => ({
           toArray: vi.fn()
         }))
       }))
+    },
+    memorizationCards: {
+      put: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    memorizationReviews: {
+      where: vi.fn(() => ({
+        equals: vi.fn(() => ({
+          delete: vi.fn()
+        }))
+      }))
     }
   }
 }))
@@ -130,6 +155,13 @@ vi.mock('../supabase', () => ({
   }
 }))
 
+vi.mock('../noteRevisionService', () => ({
+  noteRevisionService: {
+    recordConflict: vi.fn(() => Promise.resolve([])),
+    recordRevision: vi.fn(() => Promise.resolve({ id: 'revision-merged' }))
+  }
+}))
+
 describe('SyncService', () => {
   let syncService: SyncService
   let mockUser: { id: string }
@@ -188,9 +220,18 @@ describe('SyncService', () => {
 
     it('should handle queue operation errors', async () => {
       vi.mocked(illumineDB.syncQueue.put).mockRejectedValue(new Error('Database error'))
+      const mockBookmark: Bookmark = {
+        id: 'bookmark-1',
+        userId: 'user-1',
+        book: 'John',
+        chapter: 3,
+        verse: 16,
+        createdAt: new Date(),
+        syncStatus: 'pending'
+      }
 
       await expect(
-        syncService.queueOperation('create', 'bookmark', 'bookmark-1', {})
+        syncService.queueOperation('create', 'bookmark', 'bookmark-1', mockBookmark)
       ).rejects.toThrow('Database error')
     })
   })
@@ -292,23 +333,18 @@ describe('SyncService', () => {
       vi.mocked(illumineDB.syncQueue.get).mockResolvedValue(mockOperation)
       vi.mocked(illumineDB.syncQueue.delete).mockResolvedValue()
 
-      // Mock successful sync
-      vi.mocked(supabase.from).mockReturnValue({
-        update: vi.fn(() => ({
-          eq: vi.fn(() => ({
-            eq: vi.fn(() => ({
-              eq: vi.fn(() => ({
-                eq: vi.fn(() => ({ error: null }))
-              }))
-            }))
-          }))
-        }))
-      } as any)
+      // Mock successful sync: bookmarks are upserted by client id
+      const upsert = vi.fn(() => ({ error: null }))
+      vi.mocked(supabase.from).mockReturnValue({ upsert } as unknown as ReturnType<typeof supabase.from>)
 
       await syncService.resolveConflict(conflict, resolution)
 
       expect(illumineDB.syncQueue.get).toHaveBeenCalledWith('sync-1')
       expect(illumineDB.syncQueue.delete).toHaveBeenCalledWith('sync-1')
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ client_id: 'bookmark-1', verse: 16 }),
+        { onConflict: 'user_id,client_id' }
+      )
     })
 
     it('should resolve conflict with remote strategy', async () => {
@@ -350,6 +386,40 @@ describe('SyncService', () => {
       expect(illumineDB.syncQueue.delete).toHaveBeenCalledWith('sync-1')
     })
 
+    it('should keep conflicts for manual resolution until one side is kept', async () => {
+      const conflict: SyncConflict = {
+        operationId: 'sync-1',
+        entityType: 'bookmark',
+        entityId: 'bookmark-1',
+        localData: { book: 'John', chapter: 3, verse: 16 },
+        remoteData: { book: 'John', chapter: 3, verse: 17 },
+        conflictType: 'update_conflict',
+        timestamp: new Date('2026-01-02')
+      }
+
+      vi.mocked(illumineDB.syncQueue.get).mockResolvedValue({
+        id: 'sync-1',
+        operation: 'update',
+        entityType: 'bookmark',
+        entityId: 'bookmark-1',
+        data: conflict.localData,
+        timestamp: new Date(),
+        retryCount: 0,
+        maxRetries: 3
+      })
+      vi.mocked(illumineDB.syncConflicts.get).mockResolvedValue({ ...conflict, timestamp: new Date('2026-01-01') })
+
+      await syncService.resolveConflict(conflict, { strategy: 'manual' })
+
+      // Found again by a later sync, it keeps the time it was first found
+      expect(illumineDB.syncConflicts.put).toHaveBeenCalledWith({ ...conflict, timestamp: new Date('2026-01-01') })
+      expect(illumineDB.syncQueue.delete).not.toHaveBeenCalled()
+
+      await syncService.resolveConflict(conflict, { strategy: 'remote' })
+
+      expect(illumineDB.syncConflicts.delete).toHaveBeenCalledWith('sync-1')
+    })
+
     it('should handle merge strategy for notes', async () => {
       const conflict: SyncConflict = {
         operationId: 'sync-1',
@@ -401,98 +471,166 @@ describe('SyncService', () => {
     })
   })
 
-  describe('Sync Status', () => {
-    it('should return current sync status', async () => {
-      vi.mocked(illumineDB.syncQueue.where).mockImplementation((field) => {
-        if (field === 'retryCount') {
-          return {
-            below: vi.fn(() => ({ count: vi.fn().mockResolvedValue(5) })),
-            aboveOrEqual: vi.fn(() => ({ count: vi.fn().mockResolvedValue(2) })),
-            above: vi.fn(() => ({
-              and: vi.fn(() => ({ first: vi.fn().mockResolvedValue(null) }))
-            })),
-            equals: vi.fn(() => ({
-              reverse: vi.fn(() => ({
-                sortBy: vi.fn(() => Promise.resolve([]))
-              }))
-            }))
-          } as any
-        }
-        return {} as any
-      })
+  describe('Note Revision Conflicts', () => {
+    it('should keep both sides of a note conflict as revisions', async () => {
+      const conflict: SyncConflict = {
+        operationId: 'sync-1',
+        entityType: 'note',
+        entityId: 'note-1',
+        localData: { userId: 'test-user-id', content: 'Local content', updatedAt: new Date() },
+        remoteData: { content: 'Remote content', updated_at: new Date().toISOString() },
+        conflictType: 'update_conflict',
+        timestamp: new Date()
+      }
+      const sibling: NoteRevision = {
+        id: 'revision-2',
+        noteId: 'note-1',
+        userId: 'test-user-id',
+        parentRevisionId: 'revision-0',
+        content: 'Remote content',
+        origin: 'conflict',
+        createdAt: new Date(),
+        syncStatus: 'pending'
+      }
 
-      vi.mocked(illumineDB.syncQueue.orderBy).mockReturnValue({
-        reverse: vi.fn(() => ({
-          first: vi.fn().mockResolvedValue({
-            timestamp: new Date('2023-01-01')
-          })
-        }))
-      } as any)
+      vi.mocked(illumineDB.syncQueue.get).mockResolvedValue({
+        id: 'sync-1',
+        operation: 'update',
+        entityType: 'note',
+        entityId: 'note-1',
+        data: conflict.localData,
+        timestamp: new Date(),
+        retryCount: 0,
+        maxRetries: 3
+      })
+      vi.mocked(illumineDB.syncQueue.delete).mockResolvedValue()
+      vi.mocked(noteRevisionService.recordConflict).mockResolvedValueOnce([sibling])
 
-      const status = await syncService.getSyncStatus()
+      await syncService.resolveConflict(conflict, { strategy: 'remote' })
 
-      expect(status).toEqual({
-        isOnline: true,
-        syncInProgress: false,
-        pendingOperations: 5,
-        failedOperations: 2,
-        conflictOperations: 2,
-        lastSyncAttempt: new Date('2023-01-01'),
-        lastSuccessfulSync: undefined,
-        nextRetryTime: undefined
-      })
+      expect(noteRevisionService.recordConflict).toHaveBeenCalledWith(
+        { id: 'note-1', userId: 'test-user-id', content: 'Local content' },
+        'Remote content'
+      )
+      expect(illumineDB.syncQueue.put).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'create',
+        entityType: 'note_revision',
+        entityId: 'revision-2'
+      }))
+      expect(illumineDB.notes.put).toHaveBeenCalled()
     })
   })
 
-  describe('Error Handling', () => {
-    it('should handle sync errors with exponential backoff', async () => {
-      const mockOperation = {
+  describe('Memorization Conflicts', () => {
+    const remoteCard = {
+      id: 'card-1',
+      user_id: 'test-user-id',
+      verse_id: 'JHN.3.16',
+      verse_text: 'For God so loved the world',
+      verse_reference: 'John 3:16',
+      bible_version_id: 'kjv',
+      difficulty: 'medium',
+      algorithm: 'sm2',
+      ease_factor: 2.6,
+      interval_days: 15,
+      repetitions: 3,
+      lapses: 0,
+      stability: null,
+      memory_difficulty: null,
+      last_reviewed_at: '2025-01-10T09:00:00.000Z',
+      next_review: '2025-01-25T09:00:00.000Z',
+      review_count: 3,
+      mastered: false,
+      created_at: '2025-01-01T09:00:00.000Z',
+      updated_at: '2025-01-10T09:00:00.000Z'
+    }
+
+    function cardConflict(localReviewedAt: string, remoteData: typeof remoteCard | null = remoteCard): SyncConflict {
+      return {
+        operationId: 'sync-1',
+        entityType: 'memorization_card',
+        entityId: 'card-1',
+        localData: { id: 'card-1', lastReviewedAt: new Date(localReviewedAt), updatedAt: new Date(localReviewedAt) },
+        remoteData,
+        conflictType: remoteData ? 'update_conflict' : 'delete_conflict',
+        timestamp: new Date()
+      }
+    }
+
+    beforeEach(() => {
+      vi.mocked(illumineDB.syncQueue.get).mockResolvedValue({
         id: 'sync-1',
-        operation: 'create' as const,
-        entityType: 'bookmark' as const,
-        entityId: 'bookmark-1',
+        operation: 'update',
+        entityType: 'memorization_card',
+        entityId: 'card-1',
         data: {},
         timestamp: new Date(),
-        retryCount: 1,
+        retryCount: 0,
         maxRetries: 3
-      }
+      })
+      vi.mocked(illumineDB.syncQueue.delete).mockResolvedValue()
+    })
 
-      const error = new Error('Network error')
-      vi.mocked(illumineDB.syncQueue.update).mockResolvedValue(1)
+    it('should keep the card from the most recent review', async () => {
+      const unresolved = await syncService.autoResolveConflicts([cardConflict('2025-01-09T20:00:00.000Z')])
 
-      // Access private method for testing
-      const handleSyncError = (syncService as any).handleSyncError.bind(syncService)
-      await handleSyncError(mockOperation, error)
+      expect(unresolved).toHaveLength(0)
+      expect(illumineDB.memorizationCards.put).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'card-1',
+        interval: 15,
+        easeFactor: 2.6,
+        syncStatus: 'synced'
+      }))
+      expect(illumineDB.syncQueue.delete).toHaveBeenCalledWith('sync-1')
+    })
 
-      expect(illumineDB.syncQueue.update).toHaveBeenCalledWith('sync-1', {
-        retryCount: 2,
-        lastError: 'Network error',
-        lastErrorTime: expect.any(Date)
-      })
+    it('should remove cards deleted on another device', async () => {
+      const unresolved = await syncService.autoResolveConflicts([cardConflict('2025-01-09T20:00:00.000Z', null)])
+
+      expect(unresolved).toHaveLength(0)
+      expect(illumineDB.memorizationCards.delete).toHaveBeenCalledWith('card-1')
+      expect(illumineDB.memorizationCards.put).not.toHaveBeenCalled()
     })
+  })
 
-    it('should mark operation as failed after max retries', async () => {
-      const mockOperation = {
-        id: 'sync-1',
-        operation: 'create' as const,
-        entityType: 'bookmark' as const,
-        entityId: 'bookmark-1',
+  describe('Sync Status', () => {
+    it('should return current sync status from the outbox', async () => {
+      const queued = (id: string, extra: Partial<StoredSyncOperation> = {}): StoredSyncOperation => ({
+        id,
+        operation: 'update',
+        entityType: 'note',
+        entityId: id,
         data: {},
-        timestamp: new Date(),
-        retryCount: 2,
-        maxRetries: 3
-      }
+        timestamp: new Date('2023-01-01'),
+        retryCount: 0,
+        maxRetries: 3,
+        ...extra
+      })
+      const nextRetryAt = new Date(Date.now() + 60000)
 
-      const error = new Error('Persistent error')
-      vi.mocked(illumineDB.syncQueue.update).mockResolvedValue(1)
+      vi.mocked(illumineDB.syncQueue.orderBy).mockReturnValue({
+        toArray: vi.fn().mockResolvedValue([
+          queued('sync-1'),
+          queued('sync-2', { retryCount: 1, nextRetryAt }),
+          queued('sync-3', { retryCount: 3 }),
+          queued('sync-4')
+        ])
+      } as unknown as Collection<StoredSyncOperation, string>)
+      vi.mocked(illumineDB.syncConflicts.toCollection).mockReturnValue({
+        primaryKeys: vi.fn().mockResolvedValue(['sync-4'])
+      } as unknown as Collection<SyncConflict, string>)
 
-      const handleSyncError = (syncService as any).handleSyncError.bind(syncService)
-      await handleSyncError(mockOperation, error)
+      const status = await syncService.getSyncStatus()
 
-      expect(illumineDB.syncQueue.update).toHaveBeenCalledWith('sync-1', {
-        retryCount: 3,
-        lastError: 'Persistent error',
-        lastErrorTime: expect.any(Date)
+      expect(status).toEqual({
+        isOnline: true,
+        syncInProgress: false,
+        pendingOperations: 2,
+        failedOperations: 1,
+        conflictOperations: 1,
+        lastSyncAttempt: undefined,
+        lastSuccessfulSync: undefined,
+        nextRetryTime: nextRetryAt
       })
     })
   })
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { TabCoordinator } from '../tabCoordinator'
+
+type LockCallback = (lock: { name: string } | null) => Promise<unknown>
+
+// Web Locks as the browser grants them: one holder, waiters served in order
+function createLockManager() {
+  const held = new Set<string>()
+  const waiting = new Map<string, (() => void)[]>()
+
+  const run = (name: string, callback: LockCallback) => {
+    held.add(name)
+    return callback({ name }).finally(() => {
+      held.delete(name)
+      waiting.get(name)?.shift()?.()
+    })
+  }
+
+  return {
+    request(name: string, ...args: [LockCallback] | [LockOptions, LockCallback]): Promise<unknown> {
+      const [options, callback]: [LockOptions, LockCallback] = args.length === 1 ? [{}, args[0]] : args
+      if (!held.has(name)) return run(name, callback)
+      if (options.ifAvailable) return callback(null)
+
+      return new Promise(resolve => {
+        waiting.set(name, [...(waiting.get(name) ?? []), () => resolve(run(name, callback))])
+      })
+    }
+  }
+}
+
+describe('TabCoordinator', () => {
+  const tabs: TabCoordinator[] = []
+  let name: string
+
+  const openTab = () => {
+    const tab = new TabCoordinator(name)
+    tabs.push(tab)
+    return tab
+  }
+
+  beforeEach(() => {
+    name = `test-${Math.random().toString(36).slice(2)}`
+    Object.defineProperty(navigator, 'locks', { value: createLockManager(), configurable: true })
+  })
+
+  afterEach(() => {
+    tabs.splice(0).forEach(tab => tab.close())
+    Reflect.deleteProperty(navigator, 'locks')
+  })
+
+  it('should let only the first tab sync and forward the others\' requests to it', async () => {
+    const leader = openTab()
+    const follower = openTab()
+
+    expect(await leader.isLeaderTab()).toBe(true)
+    expect(await follower.isLeaderTab()).toBe(false)
+
+    const leaderSync = vi.fn(async () => true)
+    const followerSync = vi.fn(async () => true)
+    leader.handleSyncRequests('full', leaderSync)
+    follower.handleSyncRequests('full', followerSync)
+
+    expect(await follower.forwardToLeader({ kind: 'full', userId: 'user-1' })).toBe(true)
+    expect(leaderSync).toHaveBeenCalledWith({ kind: 'full', userId: 'user-1' })
+    expect(followerSync).not.toHaveBeenCalled()
+  })
+
+  it('should pass leadership on when the leader\'s tab closes', async () => {
+    const leader = openTab()
+    const follower = openTab()
+    await follower.isLeaderTab()
+
+    const roles: string[] = []
+    follower.onRoleChange(role => roles.push(role))
+
+    leader.close()
+
+    await vi.waitFor(() => expect(follower.isLeader).toBe(true))
+    expect(roles).toEqual(['leader'])
+  })
+
+  it('should tell other tabs which tables changed, a batch at a time', async () => {
+    const writer = openTab()
+    const reader = openTab()
+    const changes: string[][] = []
+    reader.onRemoteChange(tables => changes.push(tables))
+
+    writer.noteChange('bookmarks')
+    writer.noteChange('notes')
+    writer.noteChange('bookmarks')
+
+    await vi.waitFor(() => expect(changes).toEqual([['bookmarks', 'notes']]))
+  })
+
+  it('should sync in every tab when tabs cannot coordinate', async () => {
+    Reflect.deleteProperty(navigator, 'locks')
+
+    const first = openTab()
+    const second = openTab()
+
+    expect(await first.isLeaderTab()).toBe(true)
+    expect(await second.isLeaderTab()).toBe(true)
+  })
+})
@@ -1,24 +1,28 @@
-import { illumineDB } from './indexedDB'
 import { syncService } from './syncService'
 import type { SyncResult } from './syncService'
+import { tabCoordinator } from './tabCoordinator'
+import type { UserPreferences } from '@/types'
+import type { OutboxEntityData } from '@/types/outbox'
 
 export interface BackgroundSyncEvent {
   tag: string
   lastChance: boolean
 }
 
-export interface SyncQueueItem {
-  id: string
-  tag: string
-  data: any
-  timestamp: Date
-  retryCount: number
-  maxRetries: number
-}
+// Wakes the app to push the outbox; the changes themselves are already queued in it
+export const OUTBOX_SYNC_TAG = 'outbox'
+
+// How a change handed over for background sync is queued
+const USER_DATA_OPERATIONS = {
+  bookmark: 'create',
+  note: 'update',
+  highlight: 'create'
+} as const
 
 /**
  * Service for managing background synchronization of user data
- * Handles offline queuing and automatic sync when connection is restored
+ * Changes are queued in the outbox; service worker sync events push it when the
+ * connection is restored
  */
 export class BackgroundSyncService {
   private static instance: BackgroundSyncService
@@ -27,6 +31,9 @@ export class BackgroundSyncService {
 
   private constructor() {
     this.setupServiceWorkerMessageListener()
+
+    // The leader tab handles service worker syncs for the other tabs
+    tabCoordinator.handleSyncRequests('background', async request => (await this.handleBackgroundSync(request.event)).success)
   }
 
   static getInstance(): BackgroundSyncService {
@@ -39,19 +46,13 @@ export class BackgroundSyncService {
   /**
    * Register background sync for a specific tag
    */
-  async registerSync(tag: string, data?: any): Promise<boolean> {
+  async registerSync(tag: string): Promise<boolean> {
     if (!this.isBackgroundSyncSupported()) {
       console.warn('Background sync not supported, falling back to immediate sync')
-      return this.fallbackSync(tag, data)
+      return this.fallbackSync(tag)
     }
 
     try {
-      // Store sync data in IndexedDB for the service worker to access
-      if (data) {
-        await this.storeSyncData(tag, data)
-      }
-
-      // Register with service worker
       const registration = await navigator.serviceWorker.ready
       await registration.sync.register(tag)
 
@@ -61,52 +62,61 @@ export class BackgroundSyncService {
 
     } catch (error) {
       console.error(`Failed to register background sync for tag ${tag}:`, error)
-      return this.fallbackSync(tag, data)
+      return this.fallbackSync(tag)
     }
   }
 
   /**
-   * Register sync for user data operations
+   * Queue a user data change and register sync for the outbox
    */
-  async syncUserData(operation: 'bookmark' | 'note' | 'highlight', data: any): Promise<boolean> {
-    const tag = `user-data-${operation}`
-    return this.registerSync(tag, { operation, data, timestamp: new Date() })
+  async syncUserData<E extends keyof typeof USER_DATA_OPERATIONS>(entityType: E, data: OutboxEntityData[E]): Promise<boolean> {
+    await syncService.queueOperation(USER_DATA_OPERATIONS[entityType], entityType, data.id, data)
+    return this.registerSync(OUTBOX_SYNC_TAG)
   }
 
   /**
    * Register sync for Bible content download
    */
-  async syncBibleContent(versionId: string, progress?: number): Promise<boolean> {
-    const tag = `bible-content-${versionId}`
-    return this.registerSync(tag, { versionId, progress, timestamp: new Date() })
+  async syncBibleContent(versionId: string): Promise<boolean> {
+    return this.registerSync(`bible-content-${versionId}`)
   }
 
   /**
-   * Register sync for app preferences
+   * Queue app preferences and register sync for the outbox
    */
-  async syncPreferences(preferences: any): Promise<boolean> {
-    const tag = 'user-preferences'
-    return this.registerSync(tag, { preferences, timestamp: new Date() })
+  async syncPreferences(preferences: UserPreferences): Promise<boolean> {
+    await syncService.queueOperation('update', 'preferences', 'user_preferences', preferences)
+    return this.registerSync(OUTBOX_SYNC_TAG)
   }
 
   /**
    * Handle background sync events from service worker
    */
   async handleBackgroundSync(event: BackgroundSyncEvent): Promise<SyncResult> {
+    // The service worker may message any open tab; only the leader pushes the outbox
+    if (!(await tabCoordinator.isLeaderTab())) {
+      const success = await tabCoordinator.forwardToLeader({ kind: 'background', event })
+      return {
+        success,
+        operationsProcessed: 0,
+        operationsFailed: success ? 0 : 1,
+        conflicts: [],
+        errors: success ? [] : [new Error(`The tab that syncs did not handle ${event.tag}`)]
+      }
+    }
+
     console.log(`Handling background sync for tag: ${event.tag}`)
 
     try {
-      const syncData = await this.getSyncData(event.tag)
-
       switch (true) {
+        // Tags registered before the outbox still push it
+        case event.tag === OUTBOX_SYNC_TAG:
         case event.tag.startsWith('user-data-'):
-          return await this.handleUserDataSync(event.tag, syncData)
+        case event.tag === 'user-preferences':
+          return await syncService.processSyncQueue()
 
         case event.tag.startsWith('bible-content-'):
-          return await this.handleBibleContentSync(event.tag, syncData)
-
-        case event.tag === 'user-preferences':
-          return await this.handlePreferencesSync(syncData)
+          return await this.handleBibleContentSync(event.tag)
 
         case event.tag === 'full-sync':
           return await this.handleFullSync()
@@ -139,103 +149,26 @@ export class BackgroundSyncService {
         conflicts: [],
         errors: [error as Error]
       }
-    } finally {
-      // Clean up sync data
-      await this.removeSyncData(event.tag)
     }
   }
 
-  /**
-   * Handle user data synchronization (bookmarks, notes, highlights)
-   */
-  private async handleUserDataSync(tag: string, syncData: any): Promise<SyncResult> {
-    if (!syncData || !syncData.operation) {
-      throw new Error('Invalid sync data for user data operation')
-    }
-
-    const { operation, data } = syncData
-
-    // Use the existing sync service to handle the operation
-    const operationId = await syncService.queueOperation(
-      operation === 'bookmark' ? 'create' :
-      operation === 'note' ? 'update' : 'create',
-      operation,
-      data.id || `${operation}_${Date.now()}`,
-      data
-    )
-
-    // Process the sync queue
-    return await syncService.processSyncQueue()
-  }
-
   /**
    * Handle Bible content synchronization
    */
-  private async handleBibleContentSync(tag: string, syncData: any): Promise<SyncResult> {
-    const result: SyncResult = {
-      success: true,
-      operationsProcessed: 0,
-      operationsFailed: 0,
-      conflicts: [],
-      errors: []
-    }
-
-    try {
-      if (!syncData || !syncData.versionId) {
-        throw new Error('Invalid sync data for Bible content operation')
-      }
-
-      // This would typically download or sync Bible content
-      // For now, we'll just mark it as processed
-      console.log(`Syncing Bible content for version: ${syncData.versionId}`)
-
-      result.operationsProcessed = 1
+  private async handleBibleContentSync(tag: string): Promise<SyncResult> {
+    const versionId = tag.slice('bible-content-'.length)
 
-    } catch (error) {
-      result.success = false
-      result.operationsFailed = 1
-      result.errors.push(error as Error)
-    }
-
-    return result
-  }
+    // This would typically download or sync Bible content
+    // For now, we'll just mark it as processed
+    console.log(`Syncing Bible content for version: ${versionId}`)
 
-  /**
-   * Handle preferences synchronization
-   */
-  private async handlePreferencesSync(syncData: any): Promise<SyncResult> {
-    const result: SyncResult = {
+    return {
       success: true,
-      operationsProcessed: 0,
+      operationsProcessed: 1,
       operationsFailed: 0,
       conflicts: [],
       errors: []
     }
-
-    try {
-      if (!syncData || !syncData.preferences) {
-        throw new Error('Invalid sync data for preferences operation')
-      }
-
-      // Queue preferences sync operation
-      await syncService.queueOperation(
-        'update',
-        'preferences',
-        'user_preferences',
-        syncData.preferences
-      )
-
-      // Process the sync queue
-      const syncResult = await syncService.processSyncQueue()
-      return syncResult
-
-    } catch (error) {
-      result.success = false
-      result.operationsFailed = 1
-      result.errors.push(error as Error)
-    }
-
-    return result
   }
 
   /**
@@ -292,64 +225,21 @@ export class BackgroundSyncService {
   /**
    * Fallback sync for when background sync is not supported
    */
-  private async fallbackSync(tag: string, data?: any): Promise<boolean> {
+  private async fallbackSync(tag: string): Promise<boolean> {
     try {
-      // Attempt immediate sync if online
+      // Attempt immediate sync if online; otherwise the outbox keeps the changes for later
       if (navigator.onLine) {
         const event: BackgroundSyncEvent = { tag, lastChance: true }
         const result = await this.handleBackgroundSync(event)
         return result.success
-      } else {
-        // Store for later sync when online
-        if (data) {
-          await this.storeSyncData(tag, data)
-        }
-        return true
       }
+      return true
     } catch (error) {
       console.error(`Fallback sync failed for tag ${tag}:`, error)
       return false
     }
   }
 
-  /**
-   * Store sync data in IndexedDB for service worker access
-   */
-  private async storeSyncData(tag: string, data: any): Promise<void> {
-    const syncItem: SyncQueueItem = {
-      id: `bg_sync_${tag}_${Date.now()}`,
-      tag,
-      data,
-      timestamp: new Date(),
-      retryCount: 0,
-      maxRetries: 3
-    }
-
-    await illumineDB.backgroundSync.put(syncItem)
-  }
-
-  /**
-   * Retrieve sync data from IndexedDB
-   */
-  private async getSyncData(tag: string): Promise<any> {
-    const items = await illumineDB.backgroundSync
-      .where('tag')
-      .equals(tag)
-      .toArray()
-
-    return items.length > 0 ? items[0].data : null
-  }
-
-  /**
-   * Remove sync data from IndexedDB
-   */
-  private async removeSyncData(tag: string): Promise<void> {
-    await illumineDB.backgroundSync
-      .where('tag')
-      .equals(tag)
-      .delete()
-  }
-
   /**
    * Check if background sync is supported
    */
@@ -371,79 +261,10 @@ export class BackgroundSyncService {
   }
 
   /**
-   * Get pending sync operations
+   * Tags registered with the service worker by this tab
    */
-  async getPendingSyncOperations(): Promise<SyncQueueItem[]> {
-    return await illumineDB.backgroundSync
-      .where('retryCount')
-      .below(3)
-      .sortBy('timestamp')
-  }
-
-  /**
-   * Get failed sync operations
-   */
-  async getFailedSyncOperations(): Promise<SyncQueueItem[]> {
-    return await illumineDB.backgroundSync
-      .where('retryCount')
-      .aboveOrEqual(3)
-      .sortBy('timestamp')
-  }
-
-  /**
-   * Retry failed sync operations
-   */
-  async retryFailedOperations(): Promise<SyncResult[]> {
-    const failedOperations = await this.getFailedSyncOperations()
-    const results: SyncResult[] = []
-
-    for (const operation of failedOperations) {
-      // Reset retry count
-      await illumineDB.backgroundSync.update(operation.id, { retryCount: 0 })
-
-      // Retry the sync
-      const result = await this.registerSync(operation.tag, operation.data)
-      results.push({
-        success: result,
-        operationsProcessed: result ? 1 : 0,
-        operationsFailed: result ? 0 : 1,
-        conflicts: [],
-        errors: result ? [] : [new Error(`Failed to retry operation ${operation.id}`)]
-      })
-    }
-
-    return results
-  }
-
-  /**
-   * Clear all sync data
-   */
-  async clearSyncData(): Promise<void> {
-    await illumineDB.backgroundSync.clear()
-    this.syncTags.clear()
-  }
-
-  /**
-   * Get sync statistics
-   */
-  async getSyncStats(): Promise<{
-    pendingOperations: number
-    failedOperations: number
-    totalOperations: number
-    registeredTags: string[]
-  }> {
-    const [pending, failed, total] = await Promise.all([
-      this.getPendingSyncOperations(),
-      this.getFailedSyncOperations(),
-      illumineDB.backgroundSync.count()
-    ])
-
-    return {
-      pendingOperations: pending.length,
-      failedOperations: failed.length,
-      totalOperations: total,
-      registeredTags: Array.from(this.syncTags)
-    }
+  getRegisteredTags(): string[] {
+    return Array.from(this.syncTags)
   }
 }
 
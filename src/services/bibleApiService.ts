@@ -3,6 +3,11 @@
  * Uses api.scripture.api.bible which provides free access to multiple Bible translations
  */
 
+import { BIBLE_BOOKS } from '@/utils/bibleBooks'
+import { parseScriptureHtml } from '@/utils/bibleImport'
+import { buildVerseContent } from '@/utils/verseContent'
+import type { VerseToken } from '@/types/verseContent'
+
 export interface ApiBibleVersion {
   id: string
   dblId: string
@@ -65,6 +70,21 @@ export interface ApiVerse {
   reference: string
 }
 
+/**
+ * Failed API response, keeping the HTTP status so callers can tell rate
+ * limiting and server errors (worth retrying) from bad requests
+ */
+export class BibleApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter?: number // seconds, from the Retry-After header
+  ) {
+    super(message)
+    this.name = 'BibleApiError'
+  }
+}
+
 /**
  * Bible API Service for fetching Bible content from external APIs
  */
@@ -94,12 +114,13 @@ export class BibleApiService {
 
       if (!response.ok) {
         if (response.status === 401) {
-          throw new Error('Invalid Bible API key. Please check your VITE_BIBLE_API_KEY environment variable.')
+          throw new BibleApiError('Invalid Bible API key. Please check your VITE_BIBLE_API_KEY environment variable.', 401)
         }
         if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.')
+          const retryAfter = Number(response.headers?.get('Retry-After'))
+          throw new BibleApiError('Rate limit exceeded. Please try again later.', 429, retryAfter > 0 ? retryAfter : undefined)
         }
-        throw new Error(`Bible API request failed: ${response.status} ${response.statusText}`)
+        throw new BibleApiError(`Bible API request failed: ${response.status} ${response.statusText}`, response.status)
       }
 
       const data = await response.json()
@@ -156,7 +177,7 @@ export class BibleApiService {
     try {
       await this.delay()
       const chapter = await this.makeRequest<ApiChapter>(
-        `/bibles/${bibleId}/chapters/${chapterId}?content-type=text&include-notes=false&include-titles=false&include-chapter-numbers=false&include-verse-numbers=true`
+        `/bibles/${bibleId}/chapters/${chapterId}?content-type=html&include-notes=true&include-titles=true&include-chapter-numbers=false&include-verse-numbers=true`
       )
       return chapter
     } catch (error) {
@@ -222,13 +243,27 @@ export class BibleApiService {
   }
 
   /**
-   * Parse verse content to extract individual verses
+   * Parse verse content to extract individual verses. HTML content keeps its
+   * headings, notes, styles and paragraph breaks as structured content.
    */
   parseChapterContent(content: string, bibleId: string, bookId: string, chapterNumber: number): Array<{
     verse: number
     text: string
     id: string
+    content?: VerseToken[]
   }> {
+    if (/<[a-z][^>]*>/i.test(content)) {
+      return parseScriptureHtml(content, bookId, chapterNumber)
+        .filter(verse => verse.text && verse.verse > 0)
+        .map(verse => ({
+          verse: verse.verse,
+          text: verse.text,
+          id: `${bookId}.${chapterNumber}.${verse.verse}`,
+          ...(verse.markup ? { content: buildVerseContent(verse.text, verse.markup) } : {})
+        }))
+        .sort((a, b) => a.verse - b.verse)
+    }
+
     const verses: Array<{ verse: number; text: string; id: string }> = []
 
     // Remove HTML tags and clean content
@@ -305,78 +340,7 @@ export class BibleApiService {
    * Get fallback books if API fails
    */
   private getFallbackBooks(): ApiBook[] {
-    const books = [
-      // Old Testament
-      { id: 'GEN', name: 'Genesis', chapters: 50 },
-      { id: 'EXO', name: 'Exodus', chapters: 40 },
-      { id: 'LEV', name: 'Leviticus', chapters: 27 },
-      { id: 'NUM', name: 'Numbers', chapters: 36 },
-      { id: 'DEU', name: 'Deuteronomy', chapters: 34 },
-      { id: 'JOS', name: 'Joshua', chapters: 24 },
-      { id: 'JDG', name: 'Judges', chapters: 21 },
-      { id: 'RUT', name: 'Ruth', chapters: 4 },
-      { id: '1SA', name: '1 Samuel', chapters: 31 },
-      { id: '2SA', name: '2 Samuel', chapters: 24 },
-      { id: '1KI', name: '1 Kings', chapters: 22 },
-      { id: '2KI', name: '2 Kings', chapters: 25 },
-      { id: '1CH', name: '1 Chronicles', chapters: 29 },
-      { id: '2CH', name: '2 Chronicles', chapters: 36 },
-      { id: 'EZR', name: 'Ezra', chapters: 10 },
-      { id: 'NEH', name: 'Nehemiah', chapters: 13 },
-      { id: 'EST', name: 'Esther', chapters: 10 },
-      { id: 'JOB', name: 'Job', chapters: 42 },
-      { id: 'PSA', name: 'Psalms', chapters: 150 },
-      { id: 'PRO', name: 'Proverbs', chapters: 31 },
-      { id: 'ECC', name: 'Ecclesiastes', chapters: 12 },
-      { id: 'SNG', name: 'Song of Songs', chapters: 8 },
-      { id: 'ISA', name: 'Isaiah', chapters: 66 },
-      { id: 'JER', name: 'Jeremiah', chapters: 52 },
-      { id: 'LAM', name: 'Lamentations', chapters: 5 },
-      { id: 'EZK', name: 'Ezekiel', chapters: 48 },
-      { id: 'DAN', name: 'Daniel', chapters: 12 },
-      { id: 'HOS', name: 'Hosea', chapters: 14 },
-      { id: 'JOL', name: 'Joel', chapters: 3 },
-      { id: 'AMO', name: 'Amos', chapters: 9 },
-      { id: 'OBA', name: 'Obadiah', chapters: 1 },
-      { id: 'JON', name: 'Jonah', chapters: 4 },
-      { id: 'MIC', name: 'Micah', chapters: 7 },
-      { id: 'NAM', name: 'Nahum', chapters: 3 },
-      { id: 'HAB', name: 'Habakkuk', chapters: 3 },
-      { id: 'ZEP', name: 'Zephaniah', chapters: 3 },
-      { id: 'HAG', name: 'Haggai', chapters: 2 },
-      { id: 'ZEC', name: 'Zechariah', chapters: 14 },
-      { id: 'MAL', name: 'Malachi', chapters: 4 },
-      // New Testament
-      { id: 'MAT', name: 'Matthew', chapters: 28 },
-      { id: 'MRK', name: 'Mark', chapters: 16 },
-      { id: 'LUK', name: 'Luke', chapters: 24 },
-      { id: 'JHN', name: 'John', chapters: 21 },
-      { id: 'ACT', name: 'Acts', chapters: 28 },
-      { id: 'ROM', name: 'Romans', chapters: 16 },
-      { id: '1CO', name: '1 Corinthians', chapters: 16 },
-      { id: '2CO', name: '2 Corinthians', chapters: 13 },
-      { id: 'GAL', name: 'Galatians', chapters: 6 },
-      { id: 'EPH', name: 'Ephesians', chapters: 6 },
-      { id: 'PHP', name: 'Philippians', chapters: 4 },
-      { id: 'COL', name: 'Colossians', chapters: 4 },
-      { id: '1TH', name: '1 Thessalonians', chapters: 5 },
-      { id: '2TH', name: '2 Thessalonians', chapters: 3 },
-      { id: '1TI', name: '1 Timothy', chapters: 6 },
-      { id: '2TI', name: '2 Timothy', chapters: 4 },
-      { id: 'TIT', name: 'Titus', chapters: 3 },
-      { id: 'PHM', name: 'Philemon', chapters: 1 },
-      { id: 'HEB', name: 'Hebrews', chapters: 13 },
-      { id: 'JAS', name: 'James', chapters: 5 },
-      { id: '1PE', name: '1 Peter', chapters: 5 },
-      { id: '2PE', name: '2 Peter', chapters: 3 },
-      { id: '1JN', name: '1 John', chapters: 5 },
-      { id: '2JN', name: '2 John', chapters: 1 },
-      { id: '3JN', name: '3 John', chapters: 1 },
-      { id: 'JUD', name: 'Jude', chapters: 1 },
-      { id: 'REV', name: 'Revelation', chapters: 22 }
-    ]
-
-    return books.map((book, index) => ({
+    return BIBLE_BOOKS.map(book => ({
       id: book.id,
       bibleId: 'de4e12af7f28f599-02',
       abbreviation: book.id,
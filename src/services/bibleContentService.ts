@@ -1,6 +1,12 @@
 import { illumineDB, type StoredBibleVersion, type StoredVerse } from './indexedDB'
 import type { BibleVersion, Verse, Book, Chapter, SearchResult, SearchQuery } from '@/types'
 import { bibleApiService, type ApiBibleVersion, type ApiBook } from './bibleApiService'
+import { searchIndexService } from './searchIndexService'
+import { buildIndexEntries, compileQuery, createMemoryLookup, evaluateQuery } from '@/utils/searchIndex'
+import { collectPositiveTerms, createPhraseQuery, parseQuerySyntax } from '@/utils/searchQuery'
+import { analyzeWord, normalizeWord, type AnalyzerLanguage } from '@/utils/textAnalysis'
+import type { CompiledQueryNode } from '@/types/searchIndex'
+import type { ParsedSearchQuery, SearchWildcardNode } from '@/types/searchQuery'
 
 /**
  * Service for managing Bible content from external API and IndexedDB
@@ -52,12 +58,22 @@ export class BibleContentService {
   }
 
   async deleteBibleVersion(id: string): Promise<void> {
-    await illumineDB.transaction('rw', [illumineDB.bibleVersions, illumineDB.verses], async () => {
+    await illumineDB.transaction('rw', [
+      illumineDB.bibleVersions,
+      illumineDB.verses,
+      illumineDB.versionDownloads,
+      illumineDB.chapterDownloads
+    ], async () => {
       // Delete all verses for this version
       await illumineDB.verses.where('version').equals(id).delete()
+      // Delete any download progress
+      await illumineDB.chapterDownloads.where('version').equals(id).delete()
+      await illumineDB.versionDownloads.delete(id)
       // Delete the version
       await illumineDB.bibleVersions.delete(id)
     })
+
+    await searchIndexService.deleteIndex(id)
   }
 
   /**
@@ -230,41 +246,7 @@ export class BibleContentService {
     }
   }
 
-  async downloadVersion(versionId: string, onProgress?: (progress: number) => void): Promise<void> {
-    try {
-      // First, get the books for this version
-      const books = await this.fetchBooksForVersion(versionId)
-      await this.addBooks(books)
-
-      const totalChapters = books.reduce((sum, book) => sum + book.chapters, 0)
-      let processedChapters = 0
-
-      // Download each book's content
-      for (const book of books) {
-        for (let chapter = 1; chapter <= book.chapters; chapter++) {
-          try {
-            const verses = await this.fetchChapterVerses(versionId, book.id, chapter)
-            await this.addVerses(verses)
-
-            processedChapters++
-            const progress = (processedChapters / totalChapters) * 100
-            onProgress?.(progress)
-          } catch (error) {
-            console.warn(`Failed to download ${book.id} chapter ${chapter}:`, error)
-            // Continue with next chapter
-          }
-        }
-      }
-
-      // Mark version as downloaded
-      await this.markVersionAsDownloaded(versionId)
-    } catch (error) {
-      console.error(`Failed to download version ${versionId}:`, error)
-      throw error
-    }
-  }
-
-  private async fetchBooksForVersion(versionId: string): Promise<Book[]> {
+  async fetchBooksForVersion(versionId: string): Promise<Book[]> {
     try {
       const apiBooks = await bibleApiService.getBooksForBible(versionId)
 
@@ -299,28 +281,36 @@ export class BibleContentService {
     return oldTestamentBooks.includes(bookId)
   }
 
+  /**
+   * Fetch and parse one chapter, letting API errors through so callers can retry
+   */
+  async fetchChapter(versionId: string, bookId: string, chapter: number): Promise<Verse[]> {
+    const chapterId = `${bookId}.${chapter}`
+    const apiChapter = await bibleApiService.getChapter(versionId, chapterId)
+
+    // Parse verses from the content using the API service
+    const parsedVerses = bibleApiService.parseChapterContent(
+      apiChapter.content,
+      versionId,
+      bookId,
+      chapter
+    )
+
+    // Transform to our Verse format
+    return parsedVerses.map(verse => ({
+      id: `${bookId}-${chapter}-${verse.verse}-${versionId}`,
+      book: bookId,
+      chapter,
+      verse: verse.verse,
+      text: verse.text,
+      version: versionId,
+      ...(verse.content ? { content: verse.content } : {})
+    }))
+  }
+
   async fetchChapterVerses(versionId: string, bookId: string, chapter: number): Promise<Verse[]> {
     try {
-      const chapterId = `${bookId}.${chapter}`
-      const apiChapter = await bibleApiService.getChapter(versionId, chapterId)
-
-      // Parse verses from the content using the API service
-      const parsedVerses = bibleApiService.parseChapterContent(
-        apiChapter.content,
-        versionId,
-        bookId,
-        chapter
-      )
-
-      // Transform to our Verse format
-      return parsedVerses.map(verse => ({
-        id: `${bookId}-${chapter}-${verse.verse}-${versionId}`,
-        book: bookId,
-        chapter,
-        verse: verse.verse,
-        text: verse.text,
-        version: versionId
-      }))
+      return await this.fetchChapter(versionId, bookId, chapter)
     } catch (error) {
       console.error(`Failed to fetch chapter ${bookId} ${chapter}:`, error)
       return []
@@ -370,7 +360,32 @@ export class BibleContentService {
    */
 
   async searchVerses(query: SearchQuery): Promise<SearchResult[]> {
+    const parsed = this.parseSearchQuery(query)
+    if (parsed.errors.length > 0) {
+      throw new Error(`Invalid search query: ${parsed.errors[0].message}`)
+    }
+
     try {
+      // Restrict to books in the requested testament, if any
+      let testamentBookIds: string[] | undefined
+      if (query.testament) {
+        const books = await this.getBooksByTestament(query.testament)
+        testamentBookIds = books.map(b => b.id)
+      }
+
+      // book: filters in the query narrow the selected books and testament further
+      const bookFilters = [query.books, testamentBookIds, parsed.filters.books].filter(
+        (list): list is string[] => !!list && list.length > 0
+      )
+      const chapters = parsed.filters.chapters
+
+      if (await this.canUseSearchIndex(query.versions)) {
+        const indexedResults = await this.searchWithIndex(query, parsed, bookFilters)
+        if (indexedResults) {
+          return indexedResults
+        }
+      }
+
       let collection = illumineDB.verses.toCollection()
 
       // Filter by versions if specified
@@ -378,176 +393,246 @@ export class BibleContentService {
         collection = collection.filter(verse => query.versions.includes(verse.version))
       }
 
-      // Filter by books if specified
-      if (query.books && query.books.length > 0) {
-        collection = collection.filter(verse => query.books!.includes(verse.book))
+      // Filter by books, testament and the query's book: filter
+      if (bookFilters.length > 0) {
+        collection = collection.filter(verse => bookFilters.every(list => list.includes(verse.book)))
       }
 
-      // Filter by testament if specified
-      if (query.testament) {
-        const books = await this.getBooksByTestament(query.testament)
-        const bookIds = books.map(b => b.id)
-        collection = collection.filter(verse => bookIds.includes(verse.book))
+      // Filter by the query's chapter: filter
+      if (chapters) {
+        collection = collection.filter(verse => verse.chapter >= chapters.start && verse.chapter <= chapters.end)
       }
 
-      // Prepare search terms
-      const searchTerms = this.prepareSearchTerms(query.query, query.exactMatch)
-
-      // Perform text search with improved matching
+      // Match each verse against the query with the analyzer for its version's language
+      const languages = await this.getVersionLanguages(query.versions || [])
       const results = await collection
-        .filter(verse => this.matchesSearchTerms(verse.text, searchTerms, query.exactMatch))
-        .limit(500) // Increased limit for better results
+        .filter(verse => this.matchesQuery(verse, parsed, query, languages.get(verse.version)))
+        .limit(500)
         .toArray()
 
-      // Transform to SearchResult format and sort by relevance
-      const searchResults = results
-        .map(verse => ({
-          verse,
-          relevanceScore: this.calculateRelevanceScore(verse.text, query.query, query.exactMatch),
-          highlightedText: this.highlightSearchTerm(verse.text, query.query, query.exactMatch)
-        }))
-        .sort((a, b) => b.relevanceScore - a.relevanceScore)
-        .slice(0, 100) // Return top 100 results
-
-      return searchResults
+      return await this.rankScannedVerses(results, query)
     } catch (error) {
       console.error('Search failed:', error)
       throw new Error('Search operation failed')
     }
   }
 
-  private prepareSearchTerms(query: string, exactMatch?: boolean): string[] {
-    if (exactMatch) {
-      return [query.trim()]
+  private parseSearchQuery(query: SearchQuery): ParsedSearchQuery {
+    return query.exactMatch ? createPhraseQuery(query.query) : parseQuerySyntax(query.query)
+  }
+
+  /**
+   * The index is only used when every requested version has been indexed,
+   * otherwise older downloads would silently drop out of the results
+   */
+  private async canUseSearchIndex(versions: string[]): Promise<boolean> {
+    if (!versions || versions.length === 0) {
+      return false
+    }
+
+    for (const version of versions) {
+      if (!(await searchIndexService.isIndexed(version))) {
+        return false
+      }
     }
+    return true
+  }
 
-    // Split query into individual words and phrases
-    const terms: string[] = []
+  private async searchWithIndex(
+    query: SearchQuery,
+    parsed: ParsedSearchQuery,
+    bookFilters: string[][]
+  ): Promise<SearchResult[] | null> {
+    const books = bookFilters.length > 0
+      ? bookFilters.reduce((allowed, list) => allowed.filter(book => list.includes(book)))
+      : undefined
 
-    // Handle quoted phrases
-    const quotedPhrases = query.match(/"([^"]+)"/g)
-    if (quotedPhrases) {
-      quotedPhrases.forEach(phrase => {
-        terms.push(phrase.replace(/"/g, ''))
-        query = query.replace(phrase, '')
-      })
+    const ranked = await searchIndexService.search(parsed, query.versions, { books })
+    if (!ranked) {
+      return null
     }
 
-    // Add individual words
-    const words = query.trim().split(/\s+/).filter(word => word.length > 0)
-    terms.push(...words)
+    const candidates = ranked.slice(0, 500)
+    const verses = await illumineDB.verses.bulkGet(candidates.map(result => result.verseId))
+    const languages = await this.getVersionLanguages(query.versions)
+    const searchResults: SearchResult[] = []
 
-    return terms.map(term => term.toLowerCase())
-  }
+    candidates.forEach((result, i) => {
+      const verse = verses[i]
+      if (!verse) return
 
-  private matchesSearchTerms(text: string, searchTerms: string[], exactMatch?: boolean): boolean {
-    const searchText = exactMatch ? text : text.toLowerCase()
+      // Exact match stays case-sensitive, as with the scanning search
+      if (query.exactMatch && !verse.text.includes(query.query.trim())) return
 
-    if (exactMatch) {
-      return searchTerms.some(term => searchText.includes(term))
-    }
+      searchResults.push({
+        verse,
+        relevanceScore: result.score,
+        highlightedText: this.highlightSearchTerm(verse.text, query.query, query.exactMatch, languages.get(verse.version))
+      })
+    })
 
-    // For non-exact match, all terms must be present
-    return searchTerms.every(term => {
-      if (term.includes(' ')) {
-        // Phrase search
-        return searchText.includes(term)
-      } else {
-        // Word search with word boundaries
-        const wordRegex = new RegExp(`\\b${this.escapeRegex(term)}\\b`, 'i')
-        return wordRegex.test(text)
-      }
+    return searchResults.slice(0, 100)
+  }
+
+  /**
+   * Rank verses found by scanning with the same term-frequency scoring the
+   * index uses, computed over the scanned verses
+   */
+  private async rankScannedVerses(verses: StoredVerse[], query: SearchQuery): Promise<SearchResult[]> {
+    const parsed = this.parseSearchQuery(query)
+    const languages = await this.getVersionLanguages(Array.from(new Set(verses.map(verse => verse.version))))
+    const scores = new Map<string, number>()
+    let hasTerms = false
+
+    languages.forEach((language, version) => {
+      const compiled = compileQuery(parsed.root, language)
+      if (!compiled) return
+      hasTerms = true
+
+      const { entries, meta } = buildIndexEntries(verses.filter(verse => verse.version === version), version, language)
+      evaluateQuery(compiled, createMemoryLookup(entries), meta).forEach(result => {
+        scores.set(result.verseId, result.score)
+      })
     })
+
+    return verses
+      // Queries made only of stop words cannot be scored, so keep every scanned match
+      .filter(verse => !hasTerms || scores.has(verse.id))
+      .map(verse => ({
+        verse,
+        relevanceScore: scores.get(verse.id) || 0,
+        highlightedText: this.highlightSearchTerm(verse.text, query.query, query.exactMatch, languages.get(verse.version))
+      }))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, 100) // Return top 100 results
   }
 
-  private calculateRelevanceScore(text: string, query: string, exactMatch?: boolean): number {
-    const lowerText = text.toLowerCase()
-    const lowerQuery = query.toLowerCase()
-    let score = 0
+  private async getVersionLanguages(versions: string[]): Promise<Map<string, AnalyzerLanguage>> {
+    const languages = new Map<string, AnalyzerLanguage>()
+    for (const version of versions) {
+      languages.set(version, await searchIndexService.getVersionLanguage(version))
+    }
+    return languages
+  }
+
+  private matchesQuery(
+    verse: StoredVerse,
+    parsed: ParsedSearchQuery,
+    query: SearchQuery,
+    language: AnalyzerLanguage = 'en'
+  ): boolean {
+    // Exact match stays case-sensitive
+    if (query.exactMatch) {
+      return verse.text.includes(query.query.trim())
+    }
 
-    if (exactMatch) {
-      // Exact match scoring
-      if (lowerText.includes(lowerQuery)) {
-        score += 100
+    // Only field filters, which the collection has already applied
+    if (!parsed.root) {
+      return true
+    }
 
-        // Bonus for exact phrase at beginning
-        if (lowerText.startsWith(lowerQuery)) {
-          score += 50
-        }
+    const compiled = compileQuery(parsed.root, language)
+    if (!compiled) {
+      // Only stop words, so fall back to plain substring matching
+      const lowerText = verse.text.toLowerCase()
+      return collectPositiveTerms(parsed.root).every(term => lowerText.includes(term.value.toLowerCase()))
+    }
 
-        // Bonus for whole word match
-        const wordRegex = new RegExp(`\\b${this.escapeRegex(lowerQuery)}\\b`)
-        if (wordRegex.test(lowerText)) {
-          score += 25
-        }
-      }
-    } else {
-      // Fuzzy match scoring
-      const searchTerms = this.prepareSearchTerms(query, false)
-
-      searchTerms.forEach(term => {
-        if (lowerText.includes(term)) {
-          score += 10
-
-          // Bonus for word boundary matches
-          const wordRegex = new RegExp(`\\b${this.escapeRegex(term)}\\b`)
-          if (wordRegex.test(lowerText)) {
-            score += 15
-          }
+    return this.matchesCompiledQuery(verse, compiled, language)
+  }
 
-          // Bonus for term at beginning of verse
-          if (lowerText.startsWith(term)) {
-            score += 10
-          }
-        }
-      })
+  private matchesCompiledQuery(verse: StoredVerse, compiled: CompiledQueryNode, language: AnalyzerLanguage): boolean {
+    const { entries, meta } = buildIndexEntries([verse], verse.version, language)
+    return evaluateQuery(compiled, createMemoryLookup(entries), meta).length > 0
+  }
 
-      // Bonus for having all terms
-      const allTermsPresent = searchTerms.every(term => lowerText.includes(term))
-      if (allTermsPresent) {
-        score += 20
+  private highlightSearchTerm(
+    text: string,
+    query: string,
+    exactMatch?: boolean,
+    language: AnalyzerLanguage = 'en'
+  ): string {
+    const ranges: Array<[number, number]> = []
+    const addMatches = (regex: RegExp, accept: (match: string) => boolean = () => true) => {
+      for (const match of text.matchAll(regex)) {
+        if (match[0] && accept(match[0])) ranges.push([match.index, match.index + match[0].length])
       }
+    }
 
-      // Penalty for very long verses (less relevant)
-      if (text.length > 200) {
-        score -= 5
-      }
+    if (exactMatch) {
+      addMatches(new RegExp(this.escapeRegex(query), 'gi'))
+      return this.markRanges(text, ranges)
     }
 
-    return score
-  }
+    const searchTerms = collectPositiveTerms(parseQuerySyntax(query).root)
 
-  private highlightSearchTerm(text: string, query: string, exactMatch?: boolean): string {
-    if (exactMatch) {
-      const regex = new RegExp(`(${this.escapeRegex(query)})`, 'gi')
-      return text.replace(regex, '<mark>$1</mark>')
+    searchTerms
+      .filter(term => term.type === 'phrase')
+      .forEach(term => addMatches(new RegExp(this.escapeRegex(term.value), 'gi')))
+
+    // Word highlighting by index term, so "love" also marks "loveth" and "loved"
+    const stems = new Set(searchTerms.filter(term => term.type === 'term').map(term => analyzeWord(term.value, language)))
+    const wildcards = searchTerms
+      .filter(term => term.type === 'wildcard')
+      .map(term => this.wildcardToRegex(term))
+
+    if (stems.size > 0 || wildcards.length > 0) {
+      addMatches(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu, word =>
+        stems.has(analyzeWord(word, language)) ||
+        wildcards.some(pattern => pattern.test(normalizeWord(word)))
+      )
     }
 
-    let highlightedText = text
-    const searchTerms = this.prepareSearchTerms(query, false)
-
-    // Sort terms by length (longest first) to avoid partial replacements
-    searchTerms.sort((a, b) => b.length - a.length)
-
-    searchTerms.forEach(term => {
-      if (term.includes(' ')) {
-        // Phrase highlighting
-        const regex = new RegExp(`(${this.escapeRegex(term)})`, 'gi')
-        highlightedText = highlightedText.replace(regex, '<mark>$1</mark>')
-      } else {
-        // Word highlighting with word boundaries
-        const regex = new RegExp(`\\b(${this.escapeRegex(term)})\\b`, 'gi')
-        highlightedText = highlightedText.replace(regex, '<mark>$1</mark>')
-      }
+    return this.markRanges(text, ranges)
+  }
+
+  /**
+   * Escape the text for v-html and wrap each run of matched characters in one <mark>,
+   * so overlapping matches (a phrase and a word inside it) never nest
+   */
+  private markRanges(text: string, ranges: Array<[number, number]>): string {
+    const merged: Array<[number, number]> = []
+    ranges
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([start, end]) => {
+        const last = merged[merged.length - 1]
+        if (last && start <= last[1]) {
+          last[1] = Math.max(last[1], end)
+        } else {
+          merged.push([start, end])
+        }
+      })
+
+    let html = ''
+    let position = 0
+    merged.forEach(([start, end]) => {
+      html += `${this.escapeHtml(text.slice(position, start))}<mark>${this.escapeHtml(text.slice(start, end))}</mark>`
+      position = end
     })
+    return html + this.escapeHtml(text.slice(position))
+  }
 
-    return highlightedText
+  private wildcardToRegex(node: SearchWildcardNode): RegExp {
+    const pattern = normalizeWord(node.value)
+      .split(/([*?])/)
+      .map(part => (part === '*' ? '.*' : part === '?' ? '.' : this.escapeRegex(part)))
+      .join('')
+    return new RegExp(`^${pattern}$`)
   }
 
   private escapeRegex(string: string): string {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
   }
 
+  private escapeHtml(string: string): string {
+    return string
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+
   /**
    * Get search suggestions based on partial query
    */
@@ -557,6 +642,12 @@ export class BibleContentService {
         return []
       }
 
+      // Prefer whole words from the full-text index when one exists
+      const indexedSuggestions = await searchIndexService.getSuggestions(partialQuery, limit)
+      if (indexedSuggestions.length > 0) {
+        return indexedSuggestions
+      }
+
       const lowerQuery = partialQuery.toLowerCase()
       const suggestions = new Set<string>()
 
@@ -608,12 +699,13 @@ export class BibleContentService {
    * Data Validation and Integrity
    */
 
-  async validateVersionIntegrity(version: string): Promise<{
+  async validateVersionIntegrity(version: string, expectedBooks?: Book[]): Promise<{
     isValid: boolean
     missingBooks: string[]
     incompleteChapters: Array<{ book: string; chapter: number }>
   }> {
-    const books = await this.getAllBooks()
+    // Defaults to every known book; a download passes the books its version contains
+    const books = expectedBooks ?? await this.getAllBooks()
     const missingBooks: string[] = []
     const incompleteChapters: Array<{ book: string; chapter: number }> = []
 
@@ -0,0 +1,158 @@
+/**
+ * Bible Import Service
+ * Imports Bible text from local USFM, OSIS, Zefania XML and USX files, so
+ * licensed or public-domain texts can be read offline without API.Bible.
+ */
+
+import { bibleContentService } from './bibleContentService'
+import { searchIndexService } from './searchIndexService'
+import type { BibleVersion, Book, Verse } from '@/types'
+import type {
+  BibleImportFile,
+  BibleImportOptions,
+  BibleImportResult,
+  BookImportReport,
+  ParsedBibleFile,
+  ParsedBook
+} from '@/types/bibleImport'
+import { detectBibleFormat, parseBibleFile, validateParsedBook } from '@/utils/bibleImport'
+import { getBibleBook, getBookName } from '@/utils/bibleBooks'
+import { buildVerseContent } from '@/utils/verseContent'
+
+const VERSE_BATCH_SIZE = 1000
+
+export class BibleImportError extends Error {
+  constructor(message: string, public books: BookImportReport[] = []) {
+    super(message)
+    this.name = 'BibleImportError'
+  }
+}
+
+export class BibleImportService {
+  /**
+   * Parse and validate files without storing anything, e.g. to preview the reports
+   */
+  parseFiles(files: BibleImportFile[], options: BibleImportOptions = {}): {
+    metadata: ParsedBibleFile['metadata']
+    books: ParsedBook[]
+    reports: BookImportReport[]
+  } {
+    const metadata: ParsedBibleFile['metadata'] = {}
+    const books = new Map<string, ParsedBook>()
+    const duplicates = new Set<string>()
+
+    files.forEach(file => {
+      const format = options.format ?? detectBibleFormat(file.content, file.name)
+      if (!format) {
+        throw new BibleImportError(`Unrecognised Bible file format: ${file.name}`)
+      }
+
+      let parsed: ParsedBibleFile
+      try {
+        parsed = parseBibleFile(file.content, format)
+      } catch (error) {
+        throw new BibleImportError(`Failed to read ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      metadata.name ??= parsed.metadata.name
+      metadata.abbreviation ??= parsed.metadata.abbreviation
+      metadata.language ??= parsed.metadata.language
+
+      parsed.books.forEach(book => {
+        if (books.has(book.id)) duplicates.add(book.id)
+        else books.set(book.id, book)
+      })
+    })
+
+    const reports = Array.from(books.values()).map(book => {
+      const issues = validateParsedBook(book)
+      if (duplicates.has(book.id)) {
+        issues.push({ severity: 'error', message: 'Book appears in more than one file' })
+      }
+
+      return {
+        book: book.id,
+        name: book.name || (getBibleBook(book.id) ? getBookName(book.id) : book.id),
+        chapterCount: new Set(book.verses.map(verse => verse.chapter)).size,
+        verseCount: book.verses.length,
+        issues,
+        imported: !issues.some(issue => issue.severity === 'error')
+      }
+    })
+
+    return { metadata, books: Array.from(books.values()), reports }
+  }
+
+  /**
+   * Parse the files, register a new version and store every book that passed
+   * validation. Throws a BibleImportError carrying the reports when no book
+   * could be imported.
+   */
+  async importFiles(files: BibleImportFile[], options: BibleImportOptions = {}): Promise<BibleImportResult> {
+    if (files.length === 0) {
+      throw new BibleImportError('No files to import')
+    }
+
+    const { metadata, books, reports } = this.parseFiles(files, options)
+    const importable = books.filter(book => reports.find(report => report.book === book.id)?.imported)
+    if (importable.length === 0) {
+      throw new BibleImportError('None of the books in these files could be imported', reports)
+    }
+
+    const name = options.name || metadata.name || files[0].name.replace(/\.[^.]+$/, '')
+    const abbreviation = options.abbreviation || metadata.abbreviation || name.split(/\s+/).map(word => word[0]).join('').toUpperCase()
+    const id = options.id || `local-${abbreviation.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+
+    const existing = await bibleContentService.getBibleVersion(id)
+    if (existing) {
+      throw new BibleImportError(`A version with the id "${id}" already exists`, reports)
+    }
+
+    const version: BibleVersion = {
+      id,
+      name,
+      abbreviation,
+      language: options.language || metadata.language || 'eng',
+      storagePath: `local/${id}`,
+      isDownloaded: false,
+      downloadSize: files.reduce((total, file) => total + file.content.length * 2, 0),
+      createdAt: new Date()
+    }
+    await bibleContentService.addBibleVersion(version)
+
+    // Canonical book records are shared by every version, so a localized file does not rename them
+    const bookRecords: Book[] = importable.map(book => ({ ...getBibleBook(book.id)! }))
+    await bibleContentService.addBooks(bookRecords)
+
+    const verses = importable.flatMap(book => this.toVerses(book, id))
+    for (let i = 0; i < verses.length; i += VERSE_BATCH_SIZE) {
+      await bibleContentService.addVerses(verses.slice(i, i + VERSE_BATCH_SIZE))
+    }
+
+    await bibleContentService.markVersionAsDownloaded(id)
+
+    // Build the full-text index; search falls back to scanning if this fails
+    try {
+      await searchIndexService.buildIndex(id)
+    } catch (indexError) {
+      console.warn(`Failed to build search index for ${id}:`, indexError)
+    }
+
+    return { version: { ...version, isDownloaded: true }, books: reports, verseCount: verses.length }
+  }
+
+  private toVerses(book: ParsedBook, versionId: string): Verse[] {
+    return book.verses.map(verse => ({
+      id: `${book.id}-${verse.chapter}-${verse.verse}-${versionId}`,
+      book: book.id,
+      chapter: verse.chapter,
+      verse: verse.verse,
+      text: verse.text,
+      version: versionId,
+      ...(verse.markup ? { content: buildVerseContent(verse.text, verse.markup) } : {})
+    }))
+  }
+}
+
+// Export singleton instance
+export const bibleImportService = new BibleImportService()
@@ -0,0 +1,321 @@
+/**
+ * Delta Sync Service
+ * Pulls only what changed in bookmarks, notes and highlights since the last sync.
+ * Each table has a cursor in IndexedDB metadata: the highest server version applied.
+ * Versions are taken when a write starts, so a slow write can commit below the cursor;
+ * pulls look back a window of versions for those. Rows are written by client id, so
+ * repeating a push or a pull is harmless, and deletions arrive as tombstones that a
+ * push never clears.
+ */
+
+import { illumineDB } from './indexedDB'
+import { supabase } from './supabase'
+import type { Bookmark, Highlight, Note, SyncStatus } from '@/types'
+import type { Database } from '@/types/supabase'
+import type { DeltaRows, DeltaSyncRemote, DeltaTable, LegacyRowKey, SyncCursor } from '@/types/deltaSync'
+import { DataTransformers } from '@/utils/transformers'
+
+export const DELTA_TABLES: readonly DeltaTable[] = ['bookmarks', 'notes', 'highlights']
+
+const PAGE_SIZE = 500
+// Versions below the cursor fetched again, for writes that committed after later ones
+export const LOOKBACK_VERSIONS = 1000
+const CURSOR_KEY_PREFIX = 'syncCursor:'
+
+export interface DeltaPullResult {
+  applied: number // rows added or updated locally
+  deleted: number // local rows removed by tombstones, unsynced changes included
+  skipped: number // rows with unsynced local changes, which win when they are pushed
+  cursor: SyncCursor
+}
+
+// The fields delta sync reads from a local bookmark, note or highlight
+interface LocalRow {
+  id: string
+  book: string | null
+  chapter: number | null
+  verse: number | null
+  colorHex?: string
+  syncStatus: SyncStatus
+}
+
+// How one table's rows are stored on the device
+interface LocalTable {
+  get(id: string): Promise<LocalRow | undefined>
+  forUser(userId: string): Promise<LocalRow[]>
+  put(row: DeltaRows[DeltaTable], id: string): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const LOCAL_TABLES: Record<DeltaTable, LocalTable> = {
+  bookmarks: {
+    get: id => illumineDB.bookmarks.get(id),
+    forUser: userId => illumineDB.bookmarks.where('userId').equals(userId).toArray(),
+    put: async (row, id) => {
+      await illumineDB.bookmarks.put({ ...DataTransformers.transformBookmark(row), id })
+    },
+    remove: id => illumineDB.bookmarks.delete(id)
+  },
+  notes: {
+    get: id => illumineDB.notes.get(id),
+    forUser: userId => illumineDB.notes.where('userId').equals(userId).toArray(),
+    put: async (row, id) => {
+      await illumineDB.notes.put({ ...DataTransformers.transformNote(row as DeltaRows['notes']), id })
+    },
+    remove: async id => {
+      await illumineDB.noteRevisions.where('noteId').equals(id).delete()
+      await illumineDB.notes.delete(id)
+    }
+  },
+  highlights: {
+    get: id => illumineDB.highlights.get(id),
+    forUser: userId => illumineDB.highlights.where('userId').equals(userId).toArray(),
+    put: async (row, id) => {
+      await illumineDB.highlights.put({ ...DataTransformers.transformHighlight(row), id })
+    },
+    remove: id => illumineDB.highlights.delete(id)
+  }
+}
+
+// Rows from before client ids were matched on their verse (and color, for highlights)
+function legacyKey(row: LegacyRowKey): string {
+  return [row.book, row.chapter, row.verse, row.color_hex].filter(part => part !== undefined).join('-')
+}
+
+function localLegacyKey(row: LocalRow): string {
+  return legacyKey({ book: row.book, chapter: row.chapter, verse: row.verse, color_hex: row.colorHex })
+}
+
+/**
+ * Delta sync against Supabase
+ */
+export const supabaseDeltaRemote: DeltaSyncRemote = {
+  async fetchChanges<T extends DeltaTable>(table: T, userId: string, afterVersion: number, limit: number) {
+    const { data, error } = await supabase
+      .from(table as DeltaTable)
+      .select('*')
+      .eq('user_id', userId)
+      .gt('sync_version', afterVersion)
+      .order('sync_version', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return (data ?? []) as DeltaRows[T][]
+  },
+
+  async upsertRow<T extends DeltaTable>(table: T, row: Database['public']['Tables'][T]['Insert']) {
+    const { error } = await supabase
+      .from(table as DeltaTable)
+      .upsert(row, { onConflict: 'user_id,client_id' })
+
+    if (error) throw error
+  },
+
+  async tombstoneRow(table, userId, clientId, legacy) {
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from(table)
+      .update({ deleted_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .eq('client_id', clientId)
+      .select('id')
+
+    if (error) throw error
+    if ((data?.length ?? 0) > 0 || !legacy) return
+
+    // Not claimed yet: find the row by where it was made
+    let query = supabase
+      .from(table)
+      .update({ deleted_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .is('client_id', null)
+      .is('deleted_at', null)
+    query = legacy.book === null ? query.is('book', null) : query.eq('book', legacy.book)
+    query = legacy.chapter === null ? query.is('chapter', null) : query.eq('chapter', legacy.chapter)
+    query = legacy.verse === null ? query.is('verse', null) : query.eq('verse', legacy.verse)
+    if (legacy.color_hex !== undefined) query = query.eq('color_hex', legacy.color_hex)
+
+    const { error: legacyError } = await query
+    if (legacyError) throw legacyError
+  },
+
+  async claimRow(table, rowId, clientId) {
+    const { error } = await supabase
+      .from(table)
+      .update({ client_id: clientId })
+      .eq('id', rowId)
+
+    if (error) throw error
+  }
+}
+
+export class DeltaSyncService {
+  constructor(private remote: DeltaSyncRemote = supabaseDeltaRemote) {}
+
+  /**
+   * Push operations. deleted_at is never sent, so a change made offline doesn't bring
+   * back a row another device deleted; the next pull removes it here as well.
+   */
+
+  async pushBookmark(bookmark: Bookmark, userId: string): Promise<void> {
+    await this.remote.upsertRow('bookmarks', {
+      ...DataTransformers.transformBookmarkToDb(bookmark),
+      client_id: bookmark.id,
+      user_id: userId,
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  async pushNote(note: Note, userId: string): Promise<void> {
+    await this.remote.upsertRow('notes', {
+      ...DataTransformers.transformNoteToDb(note),
+      client_id: note.id,
+      user_id: userId
+    })
+  }
+
+  async pushHighlight(highlight: Highlight, userId: string): Promise<void> {
+    await this.remote.upsertRow('highlights', {
+      ...DataTransformers.transformHighlightToDb(highlight),
+      client_id: highlight.id,
+      user_id: userId,
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Leave a tombstone for a deleted bookmark, note or highlight. The deleted item is
+   * passed when known so rows pushed before client ids can still be found.
+   */
+  async pushDeletion(
+    table: DeltaTable,
+    userId: string,
+    clientId: string,
+    deleted?: Pick<LocalRow, 'book' | 'chapter' | 'verse' | 'colorHex'> | null
+  ): Promise<void> {
+    const legacy: LegacyRowKey | undefined = deleted
+      ? {
+          book: deleted.book,
+          chapter: deleted.chapter,
+          verse: deleted.verse,
+          ...(table === 'highlights' && deleted.colorHex ? { color_hex: deleted.colorHex } : {})
+        }
+      : undefined
+
+    await this.remote.tombstoneRow(table, userId, clientId, legacy)
+  }
+
+  /**
+   * Pull operations
+   */
+
+  async pullAll(userId: string): Promise<Record<DeltaTable, DeltaPullResult>> {
+    return {
+      bookmarks: await this.pullTable(userId, 'bookmarks'),
+      notes: await this.pullTable(userId, 'notes'),
+      highlights: await this.pullTable(userId, 'highlights')
+    }
+  }
+
+  /**
+   * Apply a table's changes since its cursor, a page at a time. The cursor is saved
+   * after each page, so an interrupted pull resumes where it stopped. Each pull starts
+   * LOOKBACK_VERSIONS below the cursor to catch late commits, skipping the versions
+   * it has already applied.
+   */
+  async pullTable(userId: string, table: DeltaTable): Promise<DeltaPullResult> {
+    const result: DeltaPullResult = { applied: 0, deleted: 0, skipped: 0, cursor: await this.getCursor(userId, table) }
+    const local = LOCAL_TABLES[table]
+    const seen = new Set(result.cursor.recentVersions)
+    let after = Math.max(0, result.cursor.version - LOOKBACK_VERSIONS)
+    let unclaimed: Map<string, LocalRow> | null = null
+
+    for (;;) {
+      const rows = await this.remote.fetchChanges(table, userId, after, PAGE_SIZE)
+
+      for (const row of rows) {
+        after = row.sync_version
+        if (seen.has(row.sync_version)) continue
+
+        let id = row.client_id
+
+        if (!id) {
+          // Pushed before client ids: take the id of the local row made on the same spot
+          unclaimed ??= await this.getUnclaimedRows(userId, table)
+          const key = legacyKey(row as LegacyRowKey)
+          id = unclaimed.get(key)?.id ?? `remote_${row.id}`
+          unclaimed.delete(key)
+          await this.remote.claimRow(table, row.id, id)
+        }
+
+        const existing = await local.get(id)
+        if (row.deleted_at) {
+          // Deleted on another device: the deletion wins over changes not pushed yet
+          if (existing) {
+            await local.remove(id)
+            result.deleted++
+          }
+        } else if (existing && existing.syncStatus !== 'synced') {
+          result.skipped++
+        } else {
+          await local.put(row, id)
+          result.applied++
+        }
+
+        seen.add(row.sync_version)
+        if (row.sync_version > result.cursor.version) {
+          result.cursor = { ...result.cursor, version: row.sync_version, updatedAt: row.updated_at }
+        }
+      }
+
+      if (rows.length > 0) {
+        const oldest = result.cursor.version - LOOKBACK_VERSIONS
+        result.cursor = { ...result.cursor, recentVersions: [...seen].filter(version => version > oldest).sort((a, b) => a - b) }
+        await this.saveCursor(userId, table, result.cursor)
+      }
+      if (rows.length < PAGE_SIZE) break
+    }
+
+    return result
+  }
+
+  /**
+   * Cursors
+   */
+
+  async getCursor(userId: string, table: DeltaTable): Promise<SyncCursor> {
+    const stored = await illumineDB.metadata.get(`${CURSOR_KEY_PREFIX}${userId}:${table}`)
+    // Cursors saved before the lookback have no recent versions
+    return { version: 0, updatedAt: null, recentVersions: [], ...(stored?.value as Partial<SyncCursor> | undefined) }
+  }
+
+  async getCursors(userId: string): Promise<Record<DeltaTable, SyncCursor>> {
+    return {
+      bookmarks: await this.getCursor(userId, 'bookmarks'),
+      notes: await this.getCursor(userId, 'notes'),
+      highlights: await this.getCursor(userId, 'highlights')
+    }
+  }
+
+  /**
+   * Forget the cursors so the next pull starts from the beginning, e.g. after the
+   * local copy was cleared
+   */
+  async resetCursors(): Promise<void> {
+    await illumineDB.metadata.where('key').startsWith(CURSOR_KEY_PREFIX).delete()
+  }
+
+  private async saveCursor(userId: string, table: DeltaTable, cursor: SyncCursor): Promise<void> {
+    await illumineDB.metadata.put({ key: `${CURSOR_KEY_PREFIX}${userId}:${table}`, value: cursor })
+  }
+
+  // Local rows no server row has claimed, by where they were made
+  private async getUnclaimedRows(userId: string, table: DeltaTable): Promise<Map<string, LocalRow>> {
+    const rows = await LOCAL_TABLES[table].forUser(userId)
+    return new Map(rows
+      .filter(row => row.syncStatus === 'synced' && !row.id.startsWith('remote_'))
+      .map(row => [localLegacyKey(row), row]))
+  }
+}
+
+export const deltaSyncService = new DeltaSyncService()
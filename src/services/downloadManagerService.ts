@@ -0,0 +1,377 @@
+/**
+ * Download Manager Service
+ * Downloads Bible versions chapter by chapter with bounded concurrency.
+ * Progress is stored per chapter in IndexedDB, so a download interrupted by
+ * a network failure, a pause or a page reload picks up where it stopped.
+ */
+
+import { illumineDB } from './indexedDB'
+import { bibleContentService } from './bibleContentService'
+import { searchIndexService } from './searchIndexService'
+import type { Book } from '@/types'
+import type { ChapterDownload, DownloadProgress, VersionDownload } from '@/types/downloads'
+import {
+  createChapterDownloads,
+  getRetryDelay,
+  isRateLimitError,
+  isRetryableError,
+  runWithConcurrency,
+  toChapterDownloadId,
+  toDownloadProgress
+} from '@/utils/downloads'
+
+const DEFAULT_CONCURRENCY = 4
+const MAX_ATTEMPTS = 5
+const WAIT_SLICE_MS = 250
+
+interface ActiveDownload {
+  state: 'running' | 'pausing' | 'cancelling'
+  download: VersionDownload
+  promise: Promise<void>
+}
+
+export class DownloadManagerService {
+  private active = new Map<string, ActiveDownload>()
+  private progressListeners = new Set<(progress: DownloadProgress) => void>()
+  // Shared by every worker: once the API rate-limits one request, all of them back off
+  private backoffUntil = 0
+
+  constructor(private concurrency = DEFAULT_CONCURRENCY) {}
+
+  /**
+   * Download Control
+   */
+
+  /**
+   * Start a download, or resume one that was paused, failed or interrupted.
+   * Resolves once the version is downloaded, validated and indexed, or paused;
+   * rejects when chapters are still missing after all retries.
+   */
+  async start(version: string): Promise<void> {
+    const current = this.active.get(version)
+    if (current) {
+      if (current.state === 'running') return current.promise
+      // Let a pause or cancel in progress settle before starting over
+      await current.promise.catch(() => undefined)
+    }
+
+    const download = await this.prepare(version)
+    if (download.status === 'completed') return
+
+    const handle: ActiveDownload = { state: 'running', download, promise: Promise.resolve() }
+    handle.promise = this.run(handle).finally(() => {
+      if (this.active.get(version) === handle) this.active.delete(version)
+    })
+    this.active.set(version, handle)
+    return handle.promise
+  }
+
+  async resume(version: string): Promise<void> {
+    return this.start(version)
+  }
+
+  /**
+   * Stop taking new chapters; chapters already in flight are kept
+   */
+  async pause(version: string): Promise<void> {
+    const handle = this.active.get(version)
+    if (!handle || handle.state !== 'running') return
+
+    handle.state = 'pausing'
+    await handle.promise.catch(() => undefined)
+  }
+
+  /**
+   * Stop the download and discard everything fetched so far
+   */
+  async cancel(version: string): Promise<void> {
+    const handle = this.active.get(version)
+    if (handle) {
+      handle.state = 'cancelling'
+      await handle.promise.catch(() => undefined)
+    }
+
+    const versionRecord = await illumineDB.bibleVersions.get(version)
+    await illumineDB.transaction('rw', [illumineDB.versionDownloads, illumineDB.chapterDownloads, illumineDB.verses], async () => {
+      await illumineDB.chapterDownloads.where('version').equals(version).delete()
+      await illumineDB.versionDownloads.delete(version)
+      // A version that finished earlier keeps its text
+      if (!versionRecord?.isDownloaded) {
+        await illumineDB.verses.where('version').equals(version).delete()
+      }
+    })
+
+    this.notify({
+      version,
+      status: 'cancelled',
+      completedChapters: 0,
+      failedChapters: 0,
+      totalChapters: 0,
+      percent: 0
+    })
+  }
+
+  isActive(version: string): boolean {
+    return this.active.get(version)?.state === 'running'
+  }
+
+  /**
+   * Progress
+   */
+
+  async getProgress(version: string): Promise<DownloadProgress | undefined> {
+    const download = await illumineDB.versionDownloads.get(version)
+    return download ? toDownloadProgress(download) : undefined
+  }
+
+  /**
+   * Downloads left unfinished by a previous session are reported as paused,
+   * so they survive a reload without starting again on their own
+   */
+  async restoreDownloads(): Promise<DownloadProgress[]> {
+    const downloads = await illumineDB.versionDownloads.toArray()
+
+    const restored = await Promise.all(downloads.map(async download => {
+      const interrupted = !this.active.has(download.version) &&
+        ['downloading', 'validating', 'indexing'].includes(download.status)
+
+      if (interrupted) {
+        download.status = 'paused'
+        download.updatedAt = new Date()
+        await illumineDB.versionDownloads.put(download)
+      }
+      return toDownloadProgress(download)
+    }))
+
+    return restored.filter(progress => progress.status !== 'completed')
+  }
+
+  addProgressListener(callback: (progress: DownloadProgress) => void): () => void {
+    this.progressListeners.add(callback)
+
+    // Return unsubscribe function
+    return () => {
+      this.progressListeners.delete(callback)
+    }
+  }
+
+  private notify(progress: DownloadProgress): void {
+    this.progressListeners.forEach(callback => {
+      try {
+        callback(progress)
+      } catch (error) {
+        console.error('Error in download progress listener:', error)
+      }
+    })
+  }
+
+  private async saveDownload(download: VersionDownload, updates: Partial<VersionDownload> = {}): Promise<void> {
+    Object.assign(download, updates, { updatedAt: new Date() })
+    await illumineDB.versionDownloads.put({ ...download })
+    this.notify(toDownloadProgress(download))
+  }
+
+  /**
+   * Download Steps
+   */
+
+  /**
+   * Create the chapter plan on first start; on resume, queue failed chapters again
+   */
+  private async prepare(version: string): Promise<VersionDownload> {
+    const existing = await illumineDB.versionDownloads.get(version)
+
+    if (!existing || existing.status === 'completed') {
+      const versionRecord = await illumineDB.bibleVersions.get(version)
+      if (existing && versionRecord?.isDownloaded) return existing
+
+      const books = await bibleContentService.fetchBooksForVersion(version)
+      await bibleContentService.addBooks(books)
+
+      const now = new Date()
+      const chapters = createChapterDownloads(version, books, now)
+      const download: VersionDownload = {
+        version,
+        status: 'downloading',
+        totalChapters: chapters.length,
+        completedChapters: 0,
+        failedChapters: 0,
+        startedAt: now,
+        updatedAt: now
+      }
+
+      await illumineDB.transaction('rw', [illumineDB.versionDownloads, illumineDB.chapterDownloads], async () => {
+        await illumineDB.chapterDownloads.where('version').equals(version).delete()
+        await illumineDB.chapterDownloads.bulkPut(chapters)
+        await illumineDB.versionDownloads.put(download)
+      })
+      this.notify(toDownloadProgress(download))
+      return download
+    }
+
+    await illumineDB.chapterDownloads
+      .where('[version+status]')
+      .equals([version, 'failed'])
+      .modify({ status: 'pending', attempts: 0, updatedAt: new Date() })
+
+    await this.saveDownload(existing, { status: 'downloading', failedChapters: 0, error: undefined })
+    return existing
+  }
+
+  private async run(handle: ActiveDownload): Promise<void> {
+    const { download } = handle
+    const { version } = download
+
+    try {
+      const pending = await illumineDB.chapterDownloads
+        .where('[version+status]')
+        .equals([version, 'pending'])
+        .toArray()
+
+      await runWithConcurrency(
+        pending,
+        this.concurrency,
+        chapter => this.downloadChapter(chapter, handle),
+        () => handle.state === 'running'
+      )
+
+      if (handle.state === 'cancelling') return
+      if (handle.state === 'pausing') {
+        await this.saveDownload(download, { status: 'paused' })
+        return
+      }
+
+      const chapters = await illumineDB.chapterDownloads.where('version').equals(version).toArray()
+      const failed = chapters.filter(chapter => chapter.status === 'failed')
+      if (failed.length > 0) {
+        throw new Error(`${failed.length} chapter${failed.length !== 1 ? 's' : ''} could not be downloaded`)
+      }
+
+      await this.saveDownload(download, { status: 'validating' })
+      await this.validate(download, chapters)
+
+      await bibleContentService.markVersionAsDownloaded(version)
+
+      // Build the full-text index; search falls back to scanning if this fails
+      await this.saveDownload(download, { status: 'indexing' })
+      try {
+        await searchIndexService.buildIndex(version)
+      } catch (indexError) {
+        console.warn(`Failed to build search index for ${version}:`, indexError)
+      }
+
+      await this.saveDownload(download, { status: 'completed', completedAt: new Date() })
+    } catch (error) {
+      console.error(`Failed to download version ${version}:`, error)
+      if (handle.state !== 'cancelling') {
+        await this.saveDownload(download, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Check the stored text against the books the version was planned with.
+   * Chapters that went missing are marked failed so a resume fetches them again.
+   */
+  private async validate(download: VersionDownload, chapters: ChapterDownload[]): Promise<void> {
+    const bookChapters = new Map<string, number>()
+    chapters.forEach(chapter => {
+      bookChapters.set(chapter.book, Math.max(bookChapters.get(chapter.book) ?? 0, chapter.chapter))
+    })
+
+    const books = (await bibleContentService.getAllBooks())
+      .filter(book => bookChapters.has(book.id))
+      .map((book): Book => ({ ...book, chapters: bookChapters.get(book.id)! }))
+
+    const integrity = await bibleContentService.validateVersionIntegrity(download.version, books)
+    if (integrity.isValid) return
+
+    const missing = [
+      ...integrity.incompleteChapters,
+      ...integrity.missingBooks.flatMap(book =>
+        chapters.filter(chapter => chapter.book === book).map(chapter => ({ book, chapter: chapter.chapter }))
+      )
+    ]
+
+    await illumineDB.chapterDownloads.bulkUpdate(missing.map(({ book, chapter }) => ({
+      key: toChapterDownloadId(download.version, book, chapter),
+      changes: { status: 'failed', lastError: 'Missing after download', updatedAt: new Date() }
+    })))
+
+    download.completedChapters -= missing.length
+    download.failedChapters += missing.length
+    throw new Error(`Integrity check failed: ${missing.length} chapter${missing.length !== 1 ? 's' : ''} missing`)
+  }
+
+  private async downloadChapter(chapter: ChapterDownload, handle: ActiveDownload): Promise<void> {
+    const { download } = handle
+    let attempts = chapter.attempts
+
+    while (handle.state === 'running') {
+      await this.waitForBackoff(handle)
+      if (handle.state !== 'running') return
+
+      try {
+        const verses = await bibleContentService.fetchChapter(chapter.version, chapter.book, chapter.chapter)
+        if (verses.length === 0) {
+          throw new Error(`No verses returned for ${chapter.book} ${chapter.chapter}`)
+        }
+
+        await bibleContentService.addVerses(verses)
+        await illumineDB.chapterDownloads.update(chapter.id, {
+          status: 'completed',
+          attempts: attempts + 1,
+          verseCount: verses.length,
+          lastError: undefined,
+          updatedAt: new Date()
+        })
+        await this.saveDownload(download, { completedChapters: download.completedChapters + 1 })
+        return
+      } catch (error) {
+        attempts++
+        const message = error instanceof Error ? error.message : String(error)
+
+        if (!isRetryableError(error) || attempts >= MAX_ATTEMPTS) {
+          console.warn(`Failed to download ${chapter.book} chapter ${chapter.chapter}:`, error)
+          await illumineDB.chapterDownloads.update(chapter.id, {
+            status: 'failed',
+            attempts,
+            lastError: message,
+            updatedAt: new Date()
+          })
+          await this.saveDownload(download, { failedChapters: download.failedChapters + 1 })
+          return
+        }
+
+        await illumineDB.chapterDownloads.update(chapter.id, { attempts, lastError: message, updatedAt: new Date() })
+
+        const delay = getRetryDelay(attempts, error)
+        if (isRateLimitError(error)) {
+          this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay)
+        } else {
+          await this.wait(delay, handle)
+        }
+      }
+    }
+  }
+
+  private async waitForBackoff(handle: ActiveDownload): Promise<void> {
+    const remaining = this.backoffUntil - Date.now()
+    if (remaining > 0) await this.wait(remaining, handle)
+  }
+
+  // Sleeps in short slices so a pause or cancel is not held up by a long backoff
+  private async wait(ms: number, handle: ActiveDownload): Promise<void> {
+    const until = Date.now() + ms
+    while (handle.state === 'running' && Date.now() < until) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(WAIT_SLICE_MS, until - Date.now())))
+    }
+  }
+}
+
+// Export singleton instance
+export const downloadManagerService = new DownloadManagerService()
@@ -3,11 +3,14 @@ export { illumineDB, IllumineDB } from './indexedDB'
 export { bibleContentService, BibleContentService } from './bibleContentService'
 export { userContentService, UserContentService } from './userContentService'
 export { syncService, SyncService } from './syncService'
+export { outboxService, OutboxService } from './outboxService'
 export { migrationService, MigrationService } from './migrationService'
 
 // PWA and Background Sync Services
 export { backgroundSyncService, BackgroundSyncService } from './backgroundSyncService'
 export { serviceWorkerHandler, ServiceWorkerHandler } from './serviceWorkerHandler'
+export { reminderService, ReminderService } from './reminderService'
+export { reminderDB, ReminderDB } from './reminderDB'
 
 // Re-export types for convenience
 export type {
@@ -16,11 +19,9 @@ export type {
   StoredBookmark,
   StoredNote,
   StoredHighlight,
-  StoredSyncOperation,
-  StoredBackgroundSyncItem
+  StoredSyncOperation
 } from './indexedDB'
 
 export type {
-  BackgroundSyncEvent,
-  SyncQueueItem
+  BackgroundSyncEvent
 } from './backgroundSyncService'
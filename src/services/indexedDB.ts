@@ -4,12 +4,25 @@ import type {
   Verse,
   Bookmark,
   Note,
+  Notebook,
+  NoteRevision,
   Highlight,
+  HighlightCategory,
   SyncOperation,
   VerseOfTheDay,
   ReadingPosition,
-  Book
+  Book,
+  SyncStatus
 } from '@/types'
+import type { ReadingPlanEnrollment, ReadingPlanDayProgress } from '@/types/readingPlans'
+import type { MemorizationCard, MemorizationReviewLog } from '@/types/quickWins'
+import type { VerseCollection, CollectionVerse, UserMood } from '@/types/personalization'
+import type { SearchIndexEntry, SearchIndexMeta } from '@/types/searchIndex'
+import type { VersionDownload, ChapterDownload } from '@/types/downloads'
+import type { VerseRef } from '@/types/versification'
+import type { SyncConflict } from './syncService'
+import { getVerseKey } from '@/utils/verseAnchors'
+import { tabCoordinator } from './tabCoordinator'
 
 // IndexedDB-specific interfaces that extend the base types
 export interface StoredBibleVersion extends BibleVersion {
@@ -33,19 +46,16 @@ export interface StoredHighlight extends Highlight {
   localId?: string
 }
 
+export interface StoredMood extends UserMood {
+  syncStatus: SyncStatus
+}
+
 export interface StoredSyncOperation extends SyncOperation {
   localId?: string
   lastError?: string
   lastErrorTime?: Date
-}
-
-export interface StoredBackgroundSyncItem {
-  id: string
-  tag: string
-  data: any
-  timestamp: Date
-  retryCount: number
-  maxRetries: number
+  nextRetryAt?: Date // not pushed again before this, after an error
+  syncingSince?: Date // being pushed; later changes queue behind it instead of folding in
 }
 
 /**
@@ -58,18 +68,42 @@ export class IllumineDB extends Dexie {
   books!: Table<Book, string>
   verses!: Table<StoredVerse, string>
 
+  // Full-text search index (one row per version and term)
+  searchIndex!: Table<SearchIndexEntry, string>
+  searchIndexMeta!: Table<SearchIndexMeta, string>
+
+  // Resumable version downloads (one row per version, one per chapter)
+  versionDownloads!: Table<VersionDownload, string>
+  chapterDownloads!: Table<ChapterDownload, string>
+
   // User content tables
   bookmarks!: Table<StoredBookmark, string>
   notes!: Table<StoredNote, string>
+  notebooks!: Table<Notebook, string>
+  noteRevisions!: Table<NoteRevision, string>
   highlights!: Table<StoredHighlight, string>
+  highlightCategories!: Table<HighlightCategory, string>
 
   // App state tables
   verseOfTheDay!: Table<VerseOfTheDay, string>
   readingPositions!: Table<ReadingPosition, string>
   syncQueue!: Table<StoredSyncOperation, string>
+  syncConflicts!: Table<SyncConflict, string> // unresolved, by the operation that hit them
+
+  // Reading plan tables
+  readingPlanEnrollments!: Table<ReadingPlanEnrollment, string>
+  readingPlanProgress!: Table<ReadingPlanDayProgress, string>
+
+  // Memorization tables (cards and their review log)
+  memorizationCards!: Table<MemorizationCard, string>
+  memorizationReviews!: Table<MemorizationReviewLog, string>
+
+  // Verse collection tables (collections and the verses in them)
+  verseCollections!: Table<VerseCollection, string>
+  collectionVerses!: Table<CollectionVerse, string>
 
-  // Background sync table for PWA functionality
-  backgroundSync!: Table<StoredBackgroundSyncItem, string>
+  // Moods logged on this device
+  moods!: Table<StoredMood, string>
 
   // Metadata table for app configuration
   metadata!: Table<{ key: string; value: unknown }, string>
@@ -125,24 +159,511 @@ export class IllumineDB extends Dexie {
       metadata: 'key'
     })
 
+    // Version 3 - Add reading plan enrollments and daily progress
+    this.version(3).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], syncStatus, updatedAt, createdAt',
+      highlights: 'id, localId, userId, [book+chapter+verse], syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 4 - Add full-text search index
+    this.version(4).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], syncStatus, updatedAt, createdAt',
+      highlights: 'id, localId, userId, [book+chapter+verse], syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 5 - Add per-chapter download progress
+    this.version(5).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], syncStatus, updatedAt, createdAt',
+      highlights: 'id, localId, userId, [book+chapter+verse], syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 6 - Key user content by version-independent verse
+    this.version(6).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, updatedAt, createdAt',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // App metadata and configuration
+      metadata: 'key'
+    }).upgrade(async tx => {
+      // Existing content was stored with English numbering, so its reference is already the key
+      // (every note was on a single verse before version 8)
+      await Promise.all(['bookmarks', 'notes', 'highlights'].map(table =>
+        tx.table(table).toCollection().modify((item: Bookmark | Note | Highlight) => {
+          item.verseKey = getVerseKey(item as VerseRef)
+        })
+      ))
+    })
+
+    // Version 7 - Memorization cards and review log, kept offline
+    this.version(7).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, updatedAt, createdAt',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 8 - Notes on ranges, chapters or nothing, organized into notebooks
+    this.version(8).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    }).upgrade(async tx => {
+      // Every existing note is on a single verse and outside any notebook
+      await tx.table('notes').toCollection().modify((note: Note) => {
+        note.endChapter = null
+        note.endVerse = null
+        note.notebookId = null
+        note.position = 0
+        note.tags = []
+      })
+    })
+
+    // Version 9 - Append-only note revision history
+    this.version(9).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      noteRevisions: 'id, noteId, [noteId+createdAt], userId, syncStatus',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 10 - User-defined highlight categories
+    this.version(10).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      noteRevisions: 'id, noteId, [noteId+createdAt], userId, syncStatus',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, categoryId, syncStatus, createdAt',
+      highlightCategories: 'id, userId, position, syncStatus, updatedAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 11 - Verse collections, kept offline with their order and sections
+    this.version(11).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      noteRevisions: 'id, noteId, [noteId+createdAt], userId, syncStatus',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, categoryId, syncStatus, createdAt',
+      highlightCategories: 'id, userId, position, syncStatus, updatedAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // Verse collections - synced like highlight categories
+      verseCollections: 'id, userId, syncStatus, updatedAt',
+      collectionVerses: 'id, collectionId, [collectionId+position], verseId, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 12 - Sync conflicts kept until they are resolved
+    this.version(12).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      noteRevisions: 'id, noteId, [noteId+createdAt], userId, syncStatus',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, categoryId, syncStatus, createdAt',
+      highlightCategories: 'id, userId, position, syncStatus, updatedAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, timestamp, retryCount',
+      syncConflicts: 'operationId, entityType, entityId, timestamp',
+
+      // Background sync for PWA functionality
+      backgroundSync: 'id, tag, timestamp, retryCount',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // Verse collections - synced like highlight categories
+      verseCollections: 'id, userId, syncStatus, updatedAt',
+      collectionVerses: 'id, collectionId, [collectionId+position], verseId, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
+    // Version 13 - One outbox: background sync payloads move into the sync queue
+    this.version(13).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      noteRevisions: 'id, noteId, [noteId+createdAt], userId, syncStatus',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, categoryId, syncStatus, createdAt',
+      highlightCategories: 'id, userId, position, syncStatus, updatedAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, [entityType+entityId], timestamp, retryCount',
+      syncConflicts: 'operationId, entityType, entityId, timestamp',
+      backgroundSync: null,
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // Verse collections - synced like highlight categories
+      verseCollections: 'id, userId, syncStatus, updatedAt',
+      collectionVerses: 'id, collectionId, [collectionId+position], verseId, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    }).upgrade(async tx => {
+      // User data and preference payloads the service worker hadn't synced yet
+      const items = await tx.table('backgroundSync').toArray()
+      const operations = items.flatMap((item): StoredSyncOperation[] => {
+        const base = { id: item.id, timestamp: item.timestamp, retryCount: 0, maxRetries: 3 }
+        if (item.tag.startsWith('user-data-') && item.data?.data) {
+          const { operation: entityType, data } = item.data
+          return [{ ...base, operation: entityType === 'note' ? 'update' : 'create', entityType, entityId: data.id, data }]
+        }
+        if (item.tag === 'user-preferences' && item.data?.preferences) {
+          return [{ ...base, operation: 'update', entityType: 'preferences', entityId: 'user_preferences', data: item.data.preferences }]
+        }
+        return []
+      })
+      await tx.table('syncQueue').bulkPut(operations)
+    })
+
+    // Version 14 - Moods logged offline are kept on the device
+    this.version(14).stores({
+      // Bible content - optimized for reading and searching
+      bibleVersions: 'id, abbreviation, isDownloaded, downloadedAt, lastAccessed',
+      books: 'id, name, abbreviation, testament, order',
+      verses: 'id, [book+chapter+verse+version], [book+chapter+version], book, chapter, version, indexedAt',
+      searchIndex: 'id, [version+term], version',
+      searchIndexMeta: 'version, indexedAt',
+      versionDownloads: 'version, status, updatedAt',
+      chapterDownloads: 'id, version, [version+status]',
+
+      // User content - optimized for user operations and sync
+      bookmarks: 'id, localId, userId, [book+chapter+verse], verseKey, syncStatus, createdAt',
+      notes: 'id, localId, userId, [book+chapter+verse], [book+chapter], verseKey, notebookId, syncStatus, updatedAt, createdAt',
+      notebooks: 'id, userId, position, syncStatus, updatedAt',
+      noteRevisions: 'id, noteId, [noteId+createdAt], userId, syncStatus',
+      highlights: 'id, localId, userId, [book+chapter+verse], verseKey, categoryId, syncStatus, createdAt',
+      highlightCategories: 'id, userId, position, syncStatus, updatedAt',
+
+      // App state and special features
+      verseOfTheDay: 'id, date',
+      readingPositions: 'id, [book+chapter+version], timestamp',
+      syncQueue: 'id, localId, operation, entityType, [entityType+entityId], timestamp, retryCount',
+      syncConflicts: 'operationId, entityType, entityId, timestamp',
+
+      // Reading plans - synced like bookmarks
+      readingPlanEnrollments: 'id, userId, planId, status, syncStatus, updatedAt',
+      readingPlanProgress: 'id, enrollmentId, userId, [enrollmentId+day], syncStatus, updatedAt',
+
+      // Memorization - synced like reading plans
+      memorizationCards: 'id, userId, verseId, nextReview, syncStatus, updatedAt',
+      memorizationReviews: 'id, cardId, userId, reviewedAt, syncStatus',
+
+      // Verse collections - synced like highlight categories
+      verseCollections: 'id, userId, syncStatus, updatedAt',
+      collectionVerses: 'id, collectionId, [collectionId+position], verseId, syncStatus',
+
+      // Moods - logged offline and pushed through the outbox
+      moods: 'id, userId, loggedAt, syncStatus',
+
+      // App metadata and configuration
+      metadata: 'key'
+    })
+
     // Add hooks for data integrity and automatic timestamps
     this.verses.hook('creating', (primKey, obj, trans) => {
       obj.indexedAt = new Date()
     })
 
     this.bookmarks.hook('creating', (primKey, obj, trans) => {
+      if (!obj.verseKey) {
+        obj.verseKey = getVerseKey(obj)
+      }
       if (!obj.localId) {
         obj.localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       }
     })
 
     this.notes.hook('creating', (primKey, obj, trans) => {
+      // Range notes are keyed by their first verse; chapter and unattached notes have no key
+      if (!obj.verseKey && obj.book !== null && obj.chapter !== null && obj.verse !== null) {
+        obj.verseKey = getVerseKey({ book: obj.book, chapter: obj.chapter, verse: obj.verse })
+      }
       if (!obj.localId) {
         obj.localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       }
     })
 
     this.highlights.hook('creating', (primKey, obj, trans) => {
+      if (!obj.verseKey) {
+        obj.verseKey = getVerseKey(obj)
+      }
       if (!obj.localId) {
         obj.localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       }
@@ -153,6 +674,26 @@ export class IllumineDB extends Dexie {
         obj.localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       }
     })
+
+    // Tell other tabs which user tables changed so they can reload them
+    const userTables: Table<{ id: string }, string>[] = [
+      this.bookmarks,
+      this.notes,
+      this.notebooks,
+      this.highlights,
+      this.highlightCategories,
+      this.readingPlanEnrollments,
+      this.readingPlanProgress,
+      this.memorizationCards,
+      this.verseCollections,
+      this.collectionVerses
+    ]
+    for (const table of userTables) {
+      const noteChange = () => tabCoordinator.noteChange(table.name)
+      table.hook('creating', noteChange)
+      table.hook('updating', noteChange)
+      table.hook('deleting', noteChange)
+    }
   }
 
   /**
@@ -184,11 +725,42 @@ export class IllumineDB extends Dexie {
    * Clear all user data (for logout or data reset)
    */
   async clearUserData(): Promise<void> {
-    await this.transaction('rw', [this.bookmarks, this.notes, this.highlights, this.syncQueue], async () => {
+    await this.transaction('rw', [
+      this.bookmarks,
+      this.notes,
+      this.notebooks,
+      this.noteRevisions,
+      this.highlights,
+      this.highlightCategories,
+      this.syncQueue,
+      this.syncConflicts,
+      this.readingPlanEnrollments,
+      this.readingPlanProgress,
+      this.memorizationCards,
+      this.memorizationReviews,
+      this.verseCollections,
+      this.collectionVerses,
+      this.moods,
+      this.metadata
+    ], async () => {
       await this.bookmarks.clear()
       await this.notes.clear()
+      await this.notebooks.clear()
+      await this.noteRevisions.clear()
       await this.highlights.clear()
+      await this.highlightCategories.clear()
       await this.syncQueue.clear()
+      await this.syncConflicts.clear()
+      await this.readingPlanEnrollments.clear()
+      await this.readingPlanProgress.clear()
+      await this.memorizationCards.clear()
+      await this.memorizationReviews.clear()
+      await this.verseCollections.clear()
+      await this.collectionVerses.clear()
+      await this.moods.clear()
+
+      // Delta sync cursors describe the cleared rows, so the next sync starts over
+      await this.metadata.where('key').startsWith('syncCursor:').delete()
     })
   }
 
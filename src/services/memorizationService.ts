@@ -1,71 +1,213 @@
 /**
  * Memorization Service
- * Handles verse memorization with spaced repetition algorithm
+ * Handles verse memorization with spaced repetition algorithm.
+ * Cards and the review log live in IndexedDB and are queued through the sync service.
  */
 
-import { supabase } from '@/services/supabase'
+import { bibleContentService } from '@/services/bibleContentService'
+import { illumineDB } from '@/services/indexedDB'
+import { syncService } from '@/services/syncService'
+import type { Verse } from '@/types'
 import type {
   MemorizationCard,
-  MemorizationSession,
+  MemorizationReviewLog,
+  MemorizationSettings,
   MemorizationStats,
-  SpacedRepetitionConfig,
+  ReviewMode,
   ReviewSchedule
 } from '@/types/quickWins'
+import type { ScripturePassage } from '@/types/scriptureReference'
+import { getPassageProgress, getPassageUnlocks, splitPassageIntoChunks } from '@/utils/memorizationPassages'
+import { formatScriptureReference } from '@/utils/scriptureReference'
+import {
+  DEFAULT_MEMORIZATION_SETTINGS,
+  applyDailyLimits,
+  calculateReviewStreak,
+  createInitialState,
+  getNextReviewDate,
+  isMastered,
+  scheduleReview,
+  startOfDay
+} from '@/utils/spacedRepetition'
+
+const SETTINGS_KEY = 'memorizationSettings'
 
 export class MemorizationService {
+  /**
+   * Get the scheduler and daily limit settings
+   */
+  async getSettings(): Promise<MemorizationSettings> {
+    const stored = await illumineDB.metadata.get(SETTINGS_KEY)
+    return { ...DEFAULT_MEMORIZATION_SETTINGS, ...(stored?.value as Partial<MemorizationSettings> | undefined) }
+  }
+
+  /**
+   * Update the scheduler and daily limit settings
+   */
+  async updateSettings(updates: Partial<MemorizationSettings>): Promise<MemorizationSettings> {
+    const settings = { ...(await this.getSettings()), ...updates }
+    await illumineDB.metadata.put({ key: SETTINGS_KEY, value: settings })
+    return settings
+  }
+
   /**
    * Create a new memorization card
    */
   async createCard(
+    userId: string,
     verseId: string,
     verseText: string,
     verseReference: string,
     bibleVersionId: string,
     difficulty: 'easy' | 'medium' | 'hard' = 'medium'
   ): Promise<MemorizationCard> {
-    const { data, error } = await supabase
-      .from('memorization_cards')
-      .insert({
-        verse_id: verseId,
-        verse_text: verseText,
-        verse_reference: verseReference,
-        bible_version_id: bibleVersionId,
-        difficulty,
-        next_review: this.calculateInitialReview(difficulty)
-      })
-      .select()
-      .single()
+    const { algorithm } = await this.getSettings()
+    const now = new Date()
+
+    // Ids are generated here so offline cards can be upserted later
+    const card: MemorizationCard = {
+      id: crypto.randomUUID(),
+      userId,
+      verseId,
+      verseText,
+      verseReference,
+      bibleVersionId,
+      difficulty,
+      algorithm,
+      reviewMode: null,
+      passageId: null,
+      passageReference: null,
+      chunkIndex: null,
+      chunkCount: null,
+      locked: false,
+      ...createInitialState(),
+      nextReview: this.calculateInitialReview(difficulty),
+      reviewCount: 0,
+      mastered: false,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+
+    await illumineDB.memorizationCards.put(card)
+    await syncService.queueOperation('create', 'memorization_card', card.id, card)
 
-    if (error) throw error
-    return this.transformCard(data)
+    return card
+  }
+
+  /**
+   * Create chunk cards for a passage from the downloaded Bible text. Only the
+   * first chunk starts unlocked; a passage that fits in one chunk gets just the
+   * whole-passage recitation card.
+   */
+  async createPassage(
+    userId: string,
+    passage: ScripturePassage,
+    bibleVersionId: string,
+    difficulty: 'easy' | 'medium' | 'hard' = 'medium'
+  ): Promise<MemorizationCard[]> {
+    const verses = await this.getPassageVerses(passage, bibleVersionId)
+    if (verses.length === 0) {
+      throw new Error('Passage text is not available offline. Download this Bible version first.')
+    }
+
+    const { algorithm, passageChunkSize } = await this.getSettings()
+    const chunks = splitPassageIntoChunks(verses, passageChunkSize)
+    const passageId = crypto.randomUUID()
+    const reference = formatScriptureReference(passage)
+    const now = new Date()
+
+    const baseCard = {
+      userId,
+      bibleVersionId,
+      difficulty,
+      algorithm,
+      reviewMode: null,
+      passageId,
+      passageReference: reference,
+      chunkCount: chunks.length > 1 ? chunks.length : 0,
+      ...createInitialState(),
+      reviewCount: 0,
+      mastered: false,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending' as const
+    }
+
+    const chunkCards: MemorizationCard[] = chunks.length > 1
+      ? chunks.map((chunk, index) => ({
+        ...baseCard,
+        id: crypto.randomUUID(),
+        verseId: chunk.verses[0].id,
+        verseText: chunk.text,
+        verseReference: chunk.reference,
+        chunkIndex: index,
+        locked: index > 0,
+        nextReview: index === 0 ? this.calculateInitialReview(difficulty) : now
+      }))
+      : []
+
+    const recitation: MemorizationCard = {
+      ...baseCard,
+      id: crypto.randomUUID(),
+      verseId: verses[0].id,
+      verseText: chunks.map(chunk => chunk.text).join(' '),
+      verseReference: reference,
+      chunkIndex: null,
+      locked: chunkCards.length > 0,
+      nextReview: chunkCards.length > 0 ? now : this.calculateInitialReview(difficulty)
+    }
+
+    const cards = [...chunkCards, recitation]
+    await illumineDB.memorizationCards.bulkPut(cards)
+    for (const card of cards) {
+      await syncService.queueOperation('create', 'memorization_card', card.id, card)
+    }
+
+    return cards
   }
 
   /**
    * Get all memorization cards for user
    */
-  async getCards(): Promise<MemorizationCard[]> {
-    const { data, error } = await supabase
-      .from('memorization_cards')
-      .select('*')
-      .order('created_at', { ascending: false })
+  async getCards(userId: string): Promise<MemorizationCard[]> {
+    const cards = await illumineDB.memorizationCards
+      .where('userId')
+      .equals(userId)
+      .sortBy('createdAt')
 
-    if (error) throw error
-    return data.map(this.transformCard)
+    return cards.reverse()
   }
 
   /**
-   * Get cards due for review
+   * Get cards due for review, within today's new-card and review limits
    */
-  async getCardsDueForReview(): Promise<MemorizationCard[]> {
-    const { data, error } = await supabase
-      .from('memorization_cards')
-      .select('*')
-      .lte('next_review', new Date().toISOString())
-      .eq('mastered', false)
-      .order('next_review', { ascending: true })
+  async getCardsDueForReview(userId: string): Promise<MemorizationCard[]> {
+    const now = new Date()
+    const due = await illumineDB.memorizationCards
+      .where('nextReview')
+      .belowOrEqual(now)
+      .filter(card => card.userId === userId && !card.mastered && !card.locked)
+      .toArray()
 
-    if (error) throw error
-    return data.map(this.transformCard)
+    const [settings, todaysReviews] = await Promise.all([
+      this.getSettings(),
+      this.getReviewLog(userId, startOfDay(now))
+    ])
+    return applyDailyLimits(due, todaysReviews, settings)
+  }
+
+  /**
+   * Get the review log, newest first, optionally only reviews since a date
+   */
+  async getReviewLog(userId: string, since?: Date, cardId?: string): Promise<MemorizationReviewLog[]> {
+    const reviews = await illumineDB.memorizationReviews
+      .where('reviewedAt')
+      .aboveOrEqual(since ?? new Date(0))
+      .filter(review => review.userId === userId && (!cardId || review.cardId === cardId))
+      .toArray()
+
+    return reviews.reverse()
   }
 
   /**
@@ -74,74 +216,186 @@ export class MemorizationService {
   async recordReview(
     cardId: string,
     quality: number, // 0-5 scale (0=complete blackout, 5=perfect)
-    timeSpent: number
+    timeSpent: number,
+    reviewMode: ReviewMode = 'reveal'
   ): Promise<MemorizationCard> {
+    const [card, settings] = await Promise.all([this.getCard(cardId), this.getSettings()])
+    const schedule = this.calculateNextReview(card, quality, settings)
+    const reviewedAt = schedule.lastReviewedAt ?? new Date()
+
+    const updated: MemorizationCard = {
+      ...card,
+      algorithm: settings.algorithm,
+      easeFactor: schedule.easeFactor,
+      interval: schedule.interval,
+      repetitions: schedule.repetitions,
+      lapses: schedule.lapses,
+      stability: schedule.stability,
+      memoryDifficulty: schedule.memoryDifficulty,
+      lastReviewedAt: reviewedAt,
+      nextReview: schedule.nextReview,
+      reviewCount: card.reviewCount + 1,
+      mastered: isMastered(schedule),
+      updatedAt: reviewedAt,
+      syncStatus: 'pending'
+    }
+
+    const review: MemorizationReviewLog = {
+      id: crypto.randomUUID(),
+      userId: card.userId,
+      cardId,
+      quality,
+      algorithm: settings.algorithm,
+      reviewMode,
+      wasNew: card.reviewCount === 0,
+      previousInterval: card.interval,
+      interval: schedule.interval,
+      easeFactor: schedule.easeFactor,
+      stability: schedule.stability,
+      memoryDifficulty: schedule.memoryDifficulty,
+      timeSpent,
+      reviewedAt,
+      syncStatus: 'pending'
+    }
+
+    const unlocked = updated.passageId
+      ? await this.getPassageUnlocks(updated, settings, reviewedAt)
+      : []
+
+    await illumineDB.transaction('rw', [illumineDB.memorizationCards, illumineDB.memorizationReviews], async () => {
+      await illumineDB.memorizationCards.bulkPut([updated, ...unlocked])
+      await illumineDB.memorizationReviews.put(review)
+    })
+
+    await syncService.queueOperation('update', 'memorization_card', cardId, updated)
+    await syncService.queueOperation('create', 'memorization_review', review.id, review)
+    for (const card of unlocked) {
+      await syncService.queueOperation('update', 'memorization_card', card.id, card)
+    }
+
+    return updated
+  }
+
+  /**
+   * Set the exercise a card is always reviewed with, or null to follow the session
+   */
+  async setReviewMode(cardId: string, reviewMode: ReviewMode | null): Promise<MemorizationCard> {
     const card = await this.getCard(cardId)
-    const schedule = this.calculateNextReview(card, quality)
+    const updated: MemorizationCard = {
+      ...card,
+      reviewMode,
+      updatedAt: new Date(),
+      syncStatus: 'pending'
+    }
 
-    const { data, error } = await supabase
-      .from('memorization_cards')
-      .update({
-        next_review: schedule.nextReview.toISOString(),
-        review_count: card.reviewCount + 1,
-        mastered: quality >= 4 && card.reviewCount >= 3 // Mastered after 3+ good reviews
-      })
-      .eq('id', cardId)
-      .select()
-      .single()
+    await illumineDB.memorizationCards.put(updated)
+    await syncService.queueOperation('update', 'memorization_card', cardId, updated)
 
-    if (error) throw error
-    return this.transformCard(data)
+    return updated
   }
 
   /**
    * Get memorization statistics
    */
-  async getStats(): Promise<MemorizationStats> {
-    const [totalResult, masteredResult, dueResult] = await Promise.all([
-      supabase.from('memorization_cards').select('id', { count: 'exact' }),
-      supabase.from('memorization_cards').select('id', { count: 'exact' }).eq('mastered', true),
-      supabase.from('memorization_cards').select('id', { count: 'exact' })
-        .lte('next_review', new Date().toISOString()).eq('mastered', false)
+  async getStats(userId: string): Promise<MemorizationStats> {
+    const now = new Date()
+    const [cards, reviews, settings] = await Promise.all([
+      this.getCards(userId),
+      this.getReviewLog(userId),
+      this.getSettings()
     ])
-
-    // Calculate accuracy from recent reviews
-    const recentCards = await this.getCards()
-    const accuracy = this.calculateAccuracy(recentCards)
+    const todayStart = startOfDay(now)
 
     return {
-      totalCards: totalResult.count || 0,
-      masteredCards: masteredResult.count || 0,
-      reviewsDue: dueResult.count || 0,
-      streakDays: await this.getMemorizationStreak(),
-      accuracy
+      totalCards: cards.length,
+      masteredCards: cards.filter(card => card.mastered).length,
+      reviewsDue: cards.filter(card => !card.mastered && !card.locked && card.nextReview <= now).length,
+      streakDays: calculateReviewStreak(reviews.map(review => review.reviewedAt), now),
+      accuracy: this.calculateAccuracy(cards),
+      reviewsToday: reviews.filter(review => review.reviewedAt >= todayStart).length,
+      passages: getPassageProgress(cards, settings)
     }
   }
 
   /**
-   * Delete a memorization card
+   * Delete a memorization card, or every card of its passage
    */
   async deleteCard(cardId: string): Promise<void> {
-    const { error } = await supabase
-      .from('memorization_cards')
-      .delete()
-      .eq('id', cardId)
+    const card = await illumineDB.memorizationCards.get(cardId)
+    if (!card) return
+
+    const cards = card.passageId ? await this.getPassageCards(card.userId, card.passageId) : [card]
+    const cardIds = cards.map(c => c.id)
 
-    if (error) throw error
+    await illumineDB.transaction('rw', [illumineDB.memorizationCards, illumineDB.memorizationReviews], async () => {
+      await illumineDB.memorizationReviews.where('cardId').anyOf(cardIds).delete()
+      await illumineDB.memorizationCards.bulkDelete(cardIds)
+    })
+
+    // Review log rows cascade on the server
+    for (const deleted of cards) {
+      await syncService.queueOperation('delete', 'memorization_card', deleted.id, deleted)
+    }
   }
 
   /**
    * Get a single card by ID
    */
   private async getCard(cardId: string): Promise<MemorizationCard> {
-    const { data, error } = await supabase
-      .from('memorization_cards')
-      .select('*')
-      .eq('id', cardId)
-      .single()
+    const card = await illumineDB.memorizationCards.get(cardId)
+    if (!card) {
+      throw new Error(`Memorization card ${cardId} not found`)
+    }
+    return card
+  }
+
+  /**
+   * All cards of a passage: its chunks and the recitation
+   */
+  private async getPassageCards(userId: string, passageId: string): Promise<MemorizationCard[]> {
+    return illumineDB.memorizationCards
+      .where('userId')
+      .equals(userId)
+      .filter(card => card.passageId === passageId)
+      .toArray()
+  }
+
+  /**
+   * Cards a review has unlocked, due straight away
+   */
+  private async getPassageUnlocks(
+    reviewed: MemorizationCard,
+    settings: MemorizationSettings,
+    now: Date
+  ): Promise<MemorizationCard[]> {
+    const passageCards = await this.getPassageCards(reviewed.userId, reviewed.passageId!)
+    const current = passageCards.map(card => card.id === reviewed.id ? reviewed : card)
 
-    if (error) throw error
-    return this.transformCard(data)
+    return getPassageUnlocks(current, settings).map(card => ({
+      ...card,
+      locked: false,
+      nextReview: now,
+      updatedAt: now,
+      syncStatus: 'pending' as const
+    }))
+  }
+
+  /**
+   * Verses of a passage from the downloaded Bible text, in order
+   */
+  private async getPassageVerses(passage: ScripturePassage, bibleVersionId: string): Promise<Verse[]> {
+    if (passage.startChapter === undefined) return []
+
+    const endChapter = passage.endChapter ?? passage.startChapter
+    const verses: Verse[] = []
+    for (let chapter = passage.startChapter; chapter <= endChapter; chapter++) {
+      const chapterVerses = await bibleContentService.getVerses(passage.book, chapter, bibleVersionId)
+      verses.push(...chapterVerses.filter(verse =>
+        (chapter > passage.startChapter! || passage.startVerse === undefined || verse.verse >= passage.startVerse) &&
+        (chapter < endChapter || passage.endVerse === undefined || verse.verse <= passage.endVerse)
+      ))
+    }
+    return verses
   }
 
   /**
@@ -159,41 +413,26 @@ export class MemorizationService {
   }
 
   /**
-   * Calculate next review using spaced repetition algorithm (SM-2)
-   */
-  private calculateNextReview(card: MemorizationCard, quality: number): ReviewSchedule {
-    let easeFactor = 2.5 // Default ease factor
-    let interval = 1 // Default interval in days
-    let repetitions = card.reviewCount
-
-    if (quality >= 3) {
-      // Successful review
-      if (repetitions === 0) {
-        interval = 1
-      } else if (repetitions === 1) {
-        interval = 6
-      } else {
-        interval = Math.round(interval * easeFactor)
-      }
-      repetitions += 1
-    } else {
-      // Failed review - reset
-      repetitions = 0
-      interval = 1
-    }
-
-    // Update ease factor
-    easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
-    easeFactor = Math.max(1.3, easeFactor) // Minimum ease factor
-
-    const nextReview = new Date()
-    nextReview.setDate(nextReview.getDate() + interval)
+   * Calculate next review from the card's stored state with the chosen algorithm (SM-2 or FSRS)
+   */
+  private calculateNextReview(
+    card: MemorizationCard,
+    quality: number,
+    settings: MemorizationSettings
+  ): ReviewSchedule {
+    const now = new Date()
+    const state = scheduleReview(card, quality, settings, now)
 
     return {
       cardId: card.id,
-      nextReview,
-      interval,
-      easeFactor
+      nextReview: getNextReviewDate(state, now),
+      easeFactor: state.easeFactor,
+      interval: state.interval,
+      repetitions: state.repetitions,
+      lapses: state.lapses,
+      stability: state.stability,
+      memoryDifficulty: state.memoryDifficulty,
+      lastReviewedAt: state.lastReviewedAt
     }
   }
 
@@ -209,35 +448,6 @@ export class MemorizationService {
     const masteredCards = reviewedCards.filter(card => card.mastered)
     return Math.round((masteredCards.length / reviewedCards.length) * 100)
   }
-
-  /**
-   * Get current memorization streak (days with reviews)
-   */
-  private async getMemorizationStreak(): Promise<number> {
-    // This would need to be implemented with a separate tracking table
-    // For now, return 0 as placeholder
-    return 0
-  }
-
-  /**
-   * Transform database record to MemorizationCard
-   */
-  private transformCard(data: unknown): MemorizationCard {
-    return {
-      id: data.id,
-      userId: data.user_id,
-      verseId: data.verse_id,
-      verseText: data.verse_text,
-      verseReference: data.verse_reference,
-      bibleVersionId: data.bible_version_id,
-      difficulty: data.difficulty,
-      nextReview: new Date(data.next_review),
-      reviewCount: data.review_count,
-      mastered: data.mastered,
-      createdAt: new Date(data.created_at),
-      updatedAt: new Date(data.updated_at)
-    }
-  }
 }
 
 export const memorizationService = new MemorizationService()
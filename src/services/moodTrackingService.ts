@@ -12,12 +12,19 @@ import type {
   MoodEntry
 } from '@/types/personalization'
 import { aiRecommendationService } from './aiRecommendationService'
+import { illumineDB } from './indexedDB'
+import { syncService } from './syncService'
 
 export class MoodTrackingService {
   /**
    * Log a mood entry
    */
   async logMood(moodEntry: MoodEntry): Promise<UserMood> {
+    // Offline, the mood waits in the outbox with the user's other changes
+    if (!navigator.onLine) {
+      return this.queueMood(moodEntry)
+    }
+
     try {
       // Get mood-based verse recommendations
       const recommendedVerses = await aiRecommendationService.generateMoodBasedRecommendations(
@@ -45,10 +52,39 @@ export class MoodTrackingService {
     }
   }
 
+  /**
+   * Keep a mood logged offline, to be pushed when the connection is back
+   */
+  private async queueMood(moodEntry: MoodEntry): Promise<UserMood> {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('Sign in to log your mood')
+    }
+
+    const mood: UserMood = {
+      id: crypto.randomUUID(),
+      userId: session.user.id,
+      mood: moodEntry.mood,
+      intensity: moodEntry.intensity,
+      notes: moodEntry.notes,
+      recommendedVerses: moodEntry.recommendedVerses ?? [],
+      loggedAt: new Date()
+    }
+
+    await illumineDB.moods.put({ ...mood, syncStatus: 'pending' })
+    await syncService.queueOperation('create', 'mood', mood.id, mood)
+    return mood
+  }
+
   /**
    * Get recent mood entries
    */
   async getRecentMoods(limit: number = 10): Promise<UserMood[]> {
+    // Offline, show the moods kept on this device
+    if (!navigator.onLine) {
+      return illumineDB.moods.orderBy('loggedAt').reverse().limit(limit).toArray()
+    }
+
     try {
       const { data, error } = await supabase
         .from('user_moods')
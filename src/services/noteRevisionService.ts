@@ -0,0 +1,103 @@
+/**
+ * Note Revision Service
+ * Keeps the append-only revision history of notes in IndexedDB. Callers queue the
+ * revisions it records through the sync service, which pushes them like review logs.
+ */
+
+import { illumineDB } from '@/services/indexedDB'
+import type { Note, NoteRevision, NoteRevisionOrigin } from '@/types'
+
+type RevisionSource = Pick<Note, 'id' | 'userId' | 'content'>
+
+export class NoteRevisionService {
+  /**
+   * A note's revisions, oldest first
+   */
+  async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    return illumineDB.noteRevisions.where('noteId').equals(noteId).sortBy('createdAt')
+  }
+
+  /**
+   * Append a revision of the note's content. By default it follows the latest revision;
+   * pass a parent to branch instead.
+   */
+  async recordRevision(
+    note: RevisionSource,
+    origin: NoteRevisionOrigin = 'edit',
+    options: { parentRevisionId?: string | null; createdAt?: Date } = {}
+  ): Promise<NoteRevision> {
+    let parentRevisionId = options.parentRevisionId
+    if (parentRevisionId === undefined) {
+      const revisions = await this.getRevisions(note.id)
+      parentRevisionId = revisions[revisions.length - 1]?.id ?? null
+    }
+
+    const revision: NoteRevision = {
+      id: crypto.randomUUID(),
+      noteId: note.id,
+      userId: note.userId,
+      parentRevisionId,
+      content: note.content,
+      origin,
+      createdAt: options.createdAt ?? new Date(),
+      syncStatus: 'pending'
+    }
+
+    await illumineDB.noteRevisions.add(revision)
+    return revision
+  }
+
+  /**
+   * Record an edit. Notes written before revisions existed get their previous content
+   * recorded first, so the history starts from it.
+   */
+  async recordEdit(
+    previous: RevisionSource & Pick<Note, 'updatedAt'>,
+    content: string,
+    origin: NoteRevisionOrigin = 'edit'
+  ): Promise<NoteRevision[]> {
+    const recorded: NoteRevision[] = []
+
+    if ((await illumineDB.noteRevisions.where('noteId').equals(previous.id).count()) === 0) {
+      recorded.push(await this.recordRevision(previous, 'edit', { parentRevisionId: null, createdAt: previous.updatedAt }))
+    }
+    recorded.push(await this.recordRevision({ ...previous, content }, origin))
+
+    return recorded
+  }
+
+  /**
+   * Keep both sides of a sync conflict. The remote content is recorded as a sibling
+   * of the local revision it conflicted with, whichever side the note ends up with.
+   */
+  async recordConflict(local: RevisionSource, remoteContent: string): Promise<NoteRevision[]> {
+    const revisions = await this.getRevisions(local.id)
+    const recorded: NoteRevision[] = []
+
+    let localRevision = [...revisions].reverse().find(revision => revision.content === local.content)
+    if (!localRevision) {
+      localRevision = await this.recordRevision(local)
+      recorded.push(localRevision)
+    }
+
+    // Already here when the other device's revisions were pulled first
+    if (remoteContent !== local.content && !revisions.some(revision => revision.content === remoteContent)) {
+      recorded.push(await this.recordRevision(
+        { ...local, content: remoteContent },
+        'conflict',
+        { parentRevisionId: localRevision.parentRevisionId }
+      ))
+    }
+
+    return recorded
+  }
+
+  /**
+   * Remove a deleted note's history. The server drops it with the note.
+   */
+  async deleteRevisions(noteId: string): Promise<void> {
+    await illumineDB.noteRevisions.where('noteId').equals(noteId).delete()
+  }
+}
+
+export const noteRevisionService = new NoteRevisionService()
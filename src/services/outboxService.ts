@@ -0,0 +1,337 @@
+/**
+ * Outbox Service
+ * The one durable queue of local changes waiting to be pushed. Operations are kept in
+ * IndexedDB, so they outlive a reload and every tab sees the same queue. A change is
+ * folded into the operation already waiting for its entity (create then update is one
+ * create; create then delete is nothing), and each entity's operations are pushed in
+ * the order they were made: one that fails holds back the ones after it, and those on
+ * what belongs to the entity (a collection's verses, a note's revisions).
+ */
+
+import { illumineDB, type StoredSyncOperation } from './indexedDB'
+import type { NoteRevision } from '@/types'
+import type { ReadingPlanDayProgress } from '@/types/readingPlans'
+import type { MemorizationReviewLog } from '@/types/quickWins'
+import type { CollectionVerse } from '@/types/personalization'
+import type {
+  OutboxDrainResult,
+  OutboxEntityData,
+  OutboxEntityType,
+  OutboxOperationKind,
+  OutboxPushOutcome,
+  OutboxStatus
+} from '@/types/outbox'
+
+const MAX_RETRIES = 3
+const BASE_RETRY_DELAY = 1000 // 1 second
+const MAX_RETRY_DELAY = 300000 // 5 minutes
+
+type CoalescedOperation = OutboxOperationKind | 'none'
+
+/**
+ * What a waiting operation and a new one on the same entity become, or null if both
+ * have to be pushed
+ */
+function coalesce(waiting: StoredSyncOperation, next: OutboxOperationKind): CoalescedOperation | null {
+  switch (`${waiting.operation}+${next}`) {
+    case 'create+create':
+    case 'create+update':
+      return 'create'
+    case 'create+delete':
+      // A create that was tried may have reached the server before it failed
+      return waiting.retryCount === 0 ? 'none' : 'delete'
+    case 'update+update':
+      return 'update'
+    case 'update+delete':
+      return 'delete'
+    default:
+      return null
+  }
+}
+
+function entityKey(operation: StoredSyncOperation): string {
+  return `${operation.entityType}:${operation.entityId}`
+}
+
+/**
+ * The entity an operation's entity belongs to. Its waiting changes are pushed first, so
+ * a verse isn't added to a collection the server doesn't have yet.
+ */
+function parentKey(operation: StoredSyncOperation): string | null {
+  if (!operation.data) return null
+
+  switch (operation.entityType) {
+    case 'collection_verse':
+      return `verse_collection:${(operation.data as CollectionVerse).collectionId}`
+    case 'note_revision':
+      return `note:${(operation.data as NoteRevision).noteId}`
+    case 'reading_plan_progress':
+      return `reading_plan:${(operation.data as ReadingPlanDayProgress).enrollmentId}`
+    case 'memorization_review':
+      return `memorization_card:${(operation.data as MemorizationReviewLog).cardId}`
+    default:
+      return null
+  }
+}
+
+function isFailed(operation: StoredSyncOperation): boolean {
+  return operation.retryCount >= operation.maxRetries
+}
+
+function isBackingOff(operation: StoredSyncOperation, now: number): boolean {
+  return !!operation.nextRetryAt && operation.nextRetryAt.getTime() > now
+}
+
+export class OutboxService {
+  /**
+   * Queueing
+   */
+
+  /**
+   * Queue a change to an entity. Resolves with the id of the operation that will push
+   * it, or null if it cancelled out the change waiting before it.
+   */
+  async enqueue<E extends OutboxEntityType>(
+    operation: OutboxOperationKind,
+    entityType: E,
+    entityId: string,
+    data: OutboxEntityData[E] | null
+  ): Promise<string | null> {
+    return illumineDB.transaction('rw', [illumineDB.syncQueue, illumineDB.syncConflicts], async () => {
+      const waiting = await this.getFoldableOperation(entityType, entityId)
+      const coalesced = waiting && coalesce(waiting, operation)
+
+      if (!waiting || !coalesced) {
+        const id = `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        await illumineDB.syncQueue.put({
+          id,
+          operation,
+          entityType,
+          entityId,
+          data,
+          timestamp: new Date(),
+          retryCount: 0,
+          maxRetries: MAX_RETRIES
+        })
+        return id
+      }
+
+      if (coalesced === 'none') {
+        await illumineDB.syncQueue.delete(waiting.id)
+        return null
+      }
+
+      // Deletes without data keep what the waiting operation carried, so the row can be found
+      await illumineDB.syncQueue.update(waiting.id, {
+        operation: coalesced,
+        data: data ?? waiting.data
+      })
+      return waiting.id
+    })
+  }
+
+  /**
+   * The entity's last queued operation, if a new change can still be folded into it:
+   * not being pushed, not out of retries and not in conflict
+   */
+  private async getFoldableOperation(entityType: OutboxEntityType, entityId: string): Promise<StoredSyncOperation | null> {
+    const queued = await illumineDB.syncQueue
+      .where('[entityType+entityId]')
+      .equals([entityType, entityId])
+      .sortBy('timestamp')
+    const last = queued[queued.length - 1]
+    if (!last || last.syncingSince || isFailed(last)) return null
+
+    const conflict = await illumineDB.syncConflicts.get(last.id)
+    return conflict ? null : last
+  }
+
+  async getQueue(): Promise<StoredSyncOperation[]> {
+    return await illumineDB.syncQueue.orderBy('timestamp').toArray()
+  }
+
+  async getPending(): Promise<StoredSyncOperation[]> {
+    return (await this.getQueue()).filter(operation => !isFailed(operation))
+  }
+
+  async getFailed(): Promise<StoredSyncOperation[]> {
+    return (await this.getQueue()).filter(isFailed)
+  }
+
+  async remove(id: string): Promise<void> {
+    await illumineDB.syncQueue.delete(id)
+    await illumineDB.syncConflicts.delete(id)
+  }
+
+  async clear(): Promise<void> {
+    await illumineDB.syncQueue.clear()
+    await illumineDB.syncConflicts.clear()
+  }
+
+  /**
+   * Pushing
+   */
+
+  /**
+   * Push every operation that is ready, oldest first. An entity's operations wait while
+   * an earlier one on it, or on the entity it belongs to, is failed, backing off, held
+   * or has just thrown.
+   */
+  async drain(push: (operation: StoredSyncOperation) => Promise<OutboxPushOutcome>): Promise<OutboxDrainResult> {
+    const result: OutboxDrainResult = { pushed: 0, held: 0, waiting: 0, errors: [] }
+    const blocked = new Set<string>()
+    const now = Date.now()
+
+    const noteRetry = (at?: Date) => {
+      if (at && (!result.nextRetryAt || at < result.nextRetryAt)) result.nextRetryAt = at
+    }
+
+    for (const queued of await this.getQueue()) {
+      const key = entityKey(queued)
+      const parent = parentKey(queued)
+      if (blocked.has(key) || (parent && blocked.has(parent)) || isFailed(queued) || isBackingOff(queued, now)) {
+        blocked.add(key)
+        result.waiting++
+        if (isBackingOff(queued, now)) noteRetry(queued.nextRetryAt)
+        continue
+      }
+
+      // Cancelled out since the queue was read
+      const operation = await this.claim(queued.id)
+      if (!operation) continue
+
+      try {
+        if (await push(operation) === 'pushed') {
+          await this.remove(operation.id)
+          result.pushed++
+        } else {
+          await illumineDB.syncQueue.update(operation.id, { syncingSince: undefined })
+          blocked.add(key)
+          result.held++
+        }
+      } catch (error) {
+        result.errors.push(error as Error)
+        blocked.add(key)
+        noteRetry(await this.recordFailure(operation, error as Error))
+      }
+    }
+
+    return result
+  }
+
+  // Mark an operation as being pushed and read it back, with any change folded in so far
+  private async claim(id: string): Promise<StoredSyncOperation | undefined> {
+    return illumineDB.transaction('rw', illumineDB.syncQueue, async () => {
+      const operation = await illumineDB.syncQueue.get(id)
+      if (!operation) return undefined
+
+      const syncingSince = new Date()
+      await illumineDB.syncQueue.update(id, { syncingSince })
+      return { ...operation, syncingSince }
+    })
+  }
+
+  /**
+   * Count a failed push. Resolves with when it will be retried, or undefined once it is
+   * out of retries and waits to be retried by hand.
+   */
+  async recordFailure(operation: StoredSyncOperation, error: Error): Promise<Date | undefined> {
+    const retryCount = operation.retryCount + 1
+
+    console.error(`Sync error for operation ${operation.id} (attempt ${retryCount}):`, {
+      operation: operation.operation,
+      entityType: operation.entityType,
+      entityId: operation.entityId,
+      error: error.message,
+      stack: error.stack
+    })
+
+    if (retryCount >= operation.maxRetries) {
+      console.error(`Operation ${operation.id} failed after ${operation.maxRetries} retries:`, error)
+
+      await illumineDB.syncQueue.update(operation.id, {
+        retryCount,
+        lastError: error.message,
+        lastErrorTime: new Date(),
+        nextRetryAt: undefined,
+        syncingSince: undefined
+      })
+      return undefined
+    }
+
+    // Exponential backoff, with jitter so devices don't retry in step
+    const exponentialDelay = Math.min(BASE_RETRY_DELAY * Math.pow(2, retryCount), MAX_RETRY_DELAY)
+    const jitter = Math.random() * 0.3 * exponentialDelay
+    const nextRetryAt = new Date(Date.now() + exponentialDelay + jitter)
+
+    await illumineDB.syncQueue.update(operation.id, {
+      retryCount,
+      lastError: error.message,
+      lastErrorTime: new Date(),
+      nextRetryAt,
+      syncingSince: undefined
+    })
+    return nextRetryAt
+  }
+
+  // Give operations that ran out of retries another full set
+  async retryFailed(): Promise<number> {
+    const failed = await this.getFailed()
+
+    for (const operation of failed) {
+      await illumineDB.syncQueue.update(operation.id, {
+        retryCount: 0,
+        lastError: undefined,
+        lastErrorTime: undefined,
+        nextRetryAt: undefined
+      })
+    }
+
+    return failed.length
+  }
+
+  /**
+   * Status
+   */
+
+  async getStatus(): Promise<OutboxStatus> {
+    const [queue, conflictIds] = await Promise.all([
+      this.getQueue(),
+      illumineDB.syncConflicts.toCollection().primaryKeys()
+    ])
+    const inConflict = new Set(conflictIds)
+    const now = Date.now()
+
+    const status: OutboxStatus = {
+      total: queue.length,
+      pending: 0,
+      retrying: 0,
+      failed: 0,
+      conflicts: 0,
+      byEntity: {},
+      oldestQueuedAt: queue[0]?.timestamp
+    }
+
+    for (const operation of queue) {
+      status.byEntity[operation.entityType] = (status.byEntity[operation.entityType] ?? 0) + 1
+
+      if (inConflict.has(operation.id)) {
+        status.conflicts++
+      } else if (isFailed(operation)) {
+        status.failed++
+      } else if (isBackingOff(operation, now)) {
+        status.retrying++
+        if (!status.nextRetryAt || operation.nextRetryAt! < status.nextRetryAt) {
+          status.nextRetryAt = operation.nextRetryAt
+        }
+      } else {
+        status.pending++
+      }
+    }
+
+    return status
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService()
@@ -0,0 +1,351 @@
+/**
+ * Reading Plan Service
+ * Handles plan enrollment, daily assignments, catch-up and completion tracking.
+ * Progress lives in IndexedDB and is queued through the sync service.
+ */
+
+import { illumineDB } from './indexedDB'
+import { syncService } from './syncService'
+import type {
+  ReadingPlanDefinition,
+  ReadingPlanEnrollment,
+  ReadingPlanDayProgress,
+  DailyAssignment,
+  ReadingPlanSummary,
+  CatchUpStrategy
+} from '@/types/readingPlans'
+import {
+  getBuiltInPlans,
+  getBuiltInPlan,
+  getPlanDayForDate,
+  getPlanDayChapters,
+  getMissedDays,
+  buildDailyAssignment,
+  createCatchUp,
+  findDayForChapter,
+  isDayComplete,
+  toChapterKey,
+  addDays
+} from '@/utils/readingPlans'
+
+export class ReadingPlanService {
+  /**
+   * Plan Definitions
+   */
+
+  getAvailablePlans(): ReadingPlanDefinition[] {
+    return getBuiltInPlans()
+  }
+
+  resolvePlan(enrollment: ReadingPlanEnrollment): ReadingPlanDefinition {
+    const plan = enrollment.customPlan || getBuiltInPlan(enrollment.planId)
+    if (!plan) {
+      throw new Error(`Reading plan ${enrollment.planId} not found`)
+    }
+    return plan
+  }
+
+  /**
+   * Enrollment Operations
+   */
+
+  async enroll(
+    userId: string,
+    planOrId: string | ReadingPlanDefinition,
+    startDate: Date = new Date()
+  ): Promise<ReadingPlanEnrollment> {
+    const customPlan = typeof planOrId === 'string' ? undefined : planOrId
+    const planId = typeof planOrId === 'string' ? planOrId : planOrId.id
+
+    if (!customPlan && !getBuiltInPlan(planId)) {
+      throw new Error(`Reading plan ${planId} not found`)
+    }
+
+    const now = new Date()
+    const enrollment: ReadingPlanEnrollment = {
+      id: `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      planId,
+      startDate: addDays(startDate, 0),
+      status: 'active',
+      customPlan,
+      catchUp: null,
+      pausedAt: null,
+      completedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+
+    await illumineDB.readingPlanEnrollments.put(enrollment)
+    await syncService.queueOperation('create', 'reading_plan', enrollment.id, enrollment)
+
+    return enrollment
+  }
+
+  async getEnrollment(id: string): Promise<ReadingPlanEnrollment | undefined> {
+    return await illumineDB.readingPlanEnrollments.get(id)
+  }
+
+  async getEnrollments(userId: string): Promise<ReadingPlanEnrollment[]> {
+    return await illumineDB.readingPlanEnrollments
+      .where('userId')
+      .equals(userId)
+      .sortBy('createdAt')
+  }
+
+  async getActiveEnrollments(userId: string): Promise<ReadingPlanEnrollment[]> {
+    return (await this.getEnrollments(userId)).filter(enrollment => enrollment.status === 'active')
+  }
+
+  async updateEnrollment(id: string, updates: Partial<ReadingPlanEnrollment>): Promise<ReadingPlanEnrollment> {
+    const enrollment = await this.getEnrollment(id)
+    if (!enrollment) {
+      throw new Error(`Enrollment ${id} not found`)
+    }
+
+    const updated: ReadingPlanEnrollment = {
+      ...enrollment,
+      ...updates,
+      updatedAt: new Date(),
+      syncStatus: 'pending'
+    }
+
+    await illumineDB.readingPlanEnrollments.put(updated)
+    await syncService.queueOperation('update', 'reading_plan', id, updated)
+
+    return updated
+  }
+
+  async unenroll(id: string): Promise<void> {
+    const enrollment = await this.getEnrollment(id)
+    if (!enrollment) return
+
+    await illumineDB.transaction('rw', [illumineDB.readingPlanEnrollments, illumineDB.readingPlanProgress], async () => {
+      await illumineDB.readingPlanProgress.where('enrollmentId').equals(id).delete()
+      await illumineDB.readingPlanEnrollments.delete(id)
+    })
+
+    // Progress rows cascade on the server
+    await syncService.queueOperation('delete', 'reading_plan', id, enrollment)
+  }
+
+  async pauseEnrollment(id: string): Promise<ReadingPlanEnrollment> {
+    return await this.updateEnrollment(id, { status: 'paused', pausedAt: new Date() })
+  }
+
+  /**
+   * Resume a paused plan, shifting the schedule by the number of days it was paused
+   */
+  async resumeEnrollment(id: string): Promise<ReadingPlanEnrollment> {
+    const enrollment = await this.getEnrollment(id)
+    if (!enrollment) {
+      throw new Error(`Enrollment ${id} not found`)
+    }
+
+    const pausedDays = enrollment.pausedAt
+      ? Math.max(0, getPlanDayForDate(enrollment.pausedAt) - 1)
+      : 0
+
+    return await this.updateEnrollment(id, {
+      status: 'active',
+      pausedAt: null,
+      startDate: addDays(enrollment.startDate, pausedDays)
+    })
+  }
+
+  /**
+   * Progress
+   */
+
+  async getProgress(enrollmentId: string): Promise<Map<number, ReadingPlanDayProgress>> {
+    const rows = await illumineDB.readingPlanProgress
+      .where('enrollmentId')
+      .equals(enrollmentId)
+      .toArray()
+
+    return new Map(rows.map(row => [row.day, row]))
+  }
+
+  async getDailyAssignment(enrollmentId: string, date: Date = new Date()): Promise<DailyAssignment | null> {
+    const enrollment = await this.getEnrollment(enrollmentId)
+    if (!enrollment) return null
+
+    const plan = this.resolvePlan(enrollment)
+    const day = getPlanDayForDate(enrollment.startDate, date)
+    if (day < 1 || day > plan.durationDays + (enrollment.catchUp?.spreadOverDays || 0)) {
+      return null
+    }
+
+    const progress = await this.getProgress(enrollmentId)
+    return buildDailyAssignment(enrollment, plan, progress, day, date)
+  }
+
+  async getTodayAssignments(userId: string): Promise<DailyAssignment[]> {
+    const enrollments = await this.getActiveEnrollments(userId)
+    const assignments = await Promise.all(enrollments.map(enrollment => this.getDailyAssignment(enrollment.id)))
+    return assignments.filter((assignment): assignment is DailyAssignment => assignment !== null)
+  }
+
+  async getSummary(enrollmentId: string): Promise<ReadingPlanSummary> {
+    const enrollment = await this.getEnrollment(enrollmentId)
+    if (!enrollment) {
+      throw new Error(`Enrollment ${enrollmentId} not found`)
+    }
+
+    const plan = this.resolvePlan(enrollment)
+    const progress = await this.getProgress(enrollmentId)
+    const currentDay = getPlanDayForDate(enrollment.startDate)
+
+    let totalChapters = 0
+    let readChapters = 0
+    let completedDays = 0
+
+    plan.days.forEach(planDay => {
+      const chapters = getPlanDayChapters(plan, planDay.day)
+      const dayProgress = progress.get(planDay.day)
+      totalChapters += chapters.length
+
+      if (isDayComplete(plan, planDay.day, dayProgress)) {
+        completedDays++
+        readChapters += chapters.length
+      } else if (dayProgress) {
+        readChapters += chapters.filter(chapter => dayProgress.completedChapters.includes(chapter)).length
+      }
+    })
+
+    return {
+      enrollment,
+      plan,
+      currentDay,
+      completedDays,
+      missedDays: getMissedDays(plan, progress, currentDay),
+      percentComplete: totalChapters > 0 ? Math.round((readChapters / totalChapters) * 100) : 0
+    }
+  }
+
+  async markChapterRead(enrollmentId: string, day: number, chapterKey: string): Promise<ReadingPlanDayProgress> {
+    const enrollment = await this.getEnrollment(enrollmentId)
+    if (!enrollment) {
+      throw new Error(`Enrollment ${enrollmentId} not found`)
+    }
+
+    const plan = this.resolvePlan(enrollment)
+    const id = `${enrollmentId}:${day}`
+    const existing = await illumineDB.readingPlanProgress.get(id)
+
+    const completedChapters = existing?.completedChapters.includes(chapterKey)
+      ? existing.completedChapters
+      : [...(existing?.completedChapters || []), chapterKey]
+
+    const progress: ReadingPlanDayProgress = {
+      id,
+      enrollmentId,
+      userId: enrollment.userId,
+      day,
+      completedChapters,
+      completedAt: existing?.completedAt || null,
+      updatedAt: new Date(),
+      syncStatus: 'pending'
+    }
+
+    if (!progress.completedAt && isDayComplete(plan, day, progress)) {
+      progress.completedAt = new Date()
+    }
+
+    await illumineDB.readingPlanProgress.put(progress)
+    await syncService.queueOperation(existing ? 'update' : 'create', 'reading_plan_progress', id, progress)
+
+    if (progress.completedAt && !existing?.completedAt) {
+      await this.checkPlanCompletion(enrollment, plan)
+    }
+
+    return progress
+  }
+
+  async markDayComplete(enrollmentId: string, day: number): Promise<void> {
+    const enrollment = await this.getEnrollment(enrollmentId)
+    if (!enrollment) {
+      throw new Error(`Enrollment ${enrollmentId} not found`)
+    }
+
+    const chapters = getPlanDayChapters(this.resolvePlan(enrollment), day)
+    for (const chapter of chapters) {
+      await this.markChapterRead(enrollmentId, day, chapter)
+    }
+  }
+
+  /**
+   * Credit a chapter the reader just opened to every active plan of theirs that assigns it
+   */
+  async recordChapterRead(userId: string, book: string, chapter: number, date: Date = new Date()): Promise<void> {
+    const chapterKey = toChapterKey(book, chapter)
+    const enrollments = await this.getActiveEnrollments(userId)
+
+    for (const enrollment of enrollments) {
+      try {
+        const plan = this.resolvePlan(enrollment)
+        const progress = await this.getProgress(enrollment.id)
+        const day = findDayForChapter(plan, progress, chapterKey, getPlanDayForDate(enrollment.startDate, date))
+
+        if (day !== null) {
+          await this.markChapterRead(enrollment.id, day, chapterKey)
+        }
+      } catch (error) {
+        console.warn(`Failed to record reading for plan ${enrollment.planId}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Catch-up and Rescheduling
+   */
+
+  async catchUp(
+    enrollmentId: string,
+    strategy: CatchUpStrategy,
+    spreadOverDays: number = 7
+  ): Promise<ReadingPlanEnrollment> {
+    const enrollment = await this.getEnrollment(enrollmentId)
+    if (!enrollment) {
+      throw new Error(`Enrollment ${enrollmentId} not found`)
+    }
+
+    const plan = this.resolvePlan(enrollment)
+    const progress = await this.getProgress(enrollmentId)
+    const currentDay = getPlanDayForDate(enrollment.startDate)
+    const missedDays = getMissedDays(plan, progress, currentDay)
+
+    if (missedDays.length === 0) {
+      return enrollment
+    }
+
+    if (strategy === 'reschedule') {
+      // Shift the whole schedule so the first missed day becomes today
+      const shiftDays = currentDay - missedDays[0]
+      return await this.updateEnrollment(enrollmentId, {
+        startDate: addDays(enrollment.startDate, shiftDays),
+        catchUp: null
+      })
+    }
+
+    return await this.updateEnrollment(enrollmentId, {
+      catchUp: createCatchUp(plan, progress, currentDay, spreadOverDays)
+    })
+  }
+
+  private async checkPlanCompletion(enrollment: ReadingPlanEnrollment, plan: ReadingPlanDefinition): Promise<void> {
+    const progress = await this.getProgress(enrollment.id)
+    const allDaysComplete = plan.days.every(planDay => isDayComplete(plan, planDay.day, progress.get(planDay.day)))
+
+    if (allDaysComplete) {
+      await this.updateEnrollment(enrollment.id, {
+        status: 'completed',
+        completedAt: new Date(),
+        catchUp: null
+      })
+    }
+  }
+}
+
+export const readingPlanService = new ReadingPlanService()
@@ -0,0 +1,104 @@
+import Dexie, { type Table } from 'dexie'
+import type { ReminderKind, ReminderNotification, ReminderSchedule, StoredReminder } from '@/types/reminders'
+import {
+  buildReminderNotification,
+  claimDueReminders,
+  createStoredReminder,
+  isSameSchedule,
+  snoozeReminder
+} from '@/utils/reminders'
+
+/**
+ * ReminderDB - IndexedDB database for scheduled reminders
+ * Kept apart from IllumineDB so the service worker can open it without the rest of the
+ * app: the page saves what the user set, and the worker (or an open tab) shows what is
+ * due. Due reminders are claimed in a transaction, so no reminder is shown twice.
+ */
+export class ReminderDB extends Dexie {
+  reminders!: Table<StoredReminder, string>
+
+  constructor() {
+    super('IllumineReminders')
+
+    this.version(1).stores({
+      reminders: 'id, kind, nextAt'
+    })
+  }
+
+  /**
+   * Replace every reminder of one kind. A reminder whose settings haven't changed keeps
+   * the occurrence it is waiting on, so saving settings never skips one that is due.
+   */
+  async replaceKind(kind: ReminderKind, schedules: ReminderSchedule[]): Promise<void> {
+    await this.transaction('rw', this.reminders, async () => {
+      const existing = await this.reminders.where('kind').equals(kind).toArray()
+      const keep = new Set(schedules.map(schedule => schedule.id))
+
+      await this.reminders.bulkDelete(existing.filter(reminder => !keep.has(reminder.id)).map(reminder => reminder.id))
+
+      const changed = schedules.filter(schedule => {
+        const current = existing.find(reminder => reminder.id === schedule.id)
+        return !current || !isSameSchedule(current, schedule)
+      })
+      await this.reminders.bulkPut(changed.map(schedule => createStoredReminder(schedule)))
+    })
+  }
+
+  /**
+   * Show every reminder that is due and move each on to its next occurrence. Resolves
+   * with how many were shown.
+   */
+  async deliverDue(show: (notification: ReminderNotification) => Promise<void>, now = new Date()): Promise<number> {
+    const due = await this.transaction('rw', this.reminders, async () => {
+      const { show: claimed, updates } = claimDueReminders(
+        await this.reminders.where('nextAt').belowOrEqual(now).toArray(),
+        now
+      )
+      await this.reminders.bulkPut(updates)
+      return claimed
+    })
+
+    for (const reminder of due) {
+      try {
+        await show(buildReminderNotification(reminder))
+      } catch (error) {
+        console.error(`Failed to show reminder ${reminder.id}:`, error)
+      }
+    }
+
+    return due.length
+  }
+
+  async snooze(id: string, now = new Date()): Promise<StoredReminder | undefined> {
+    return this.transaction('rw', this.reminders, async () => {
+      const reminder = await this.reminders.get(id)
+      if (!reminder) return undefined
+
+      const snoozed = snoozeReminder(reminder, now)
+      await this.reminders.put(snoozed)
+      return snoozed
+    })
+  }
+
+  /**
+   * Notification triggers
+   */
+
+  // Reminders whose next occurrence no trigger has been set for yet
+  async getUnscheduled(): Promise<StoredReminder[]> {
+    return (await this.reminders.toArray()).filter(reminder => !reminder.scheduledAt)
+  }
+
+  async markScheduled(id: string, at: Date): Promise<void> {
+    await this.transaction('rw', this.reminders, async () => {
+      const reminder = await this.reminders.get(id)
+      // Changed or delivered since the trigger was set
+      if (!reminder || reminder.nextAt.getTime() !== at.getTime()) return
+
+      await this.reminders.update(id, { scheduledAt: at })
+    })
+  }
+}
+
+// Export the singleton instance
+export const reminderDB = new ReminderDB()
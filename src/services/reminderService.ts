@@ -0,0 +1,180 @@
+/**
+ * Reminder Service
+ * Hands reminders to the service worker so they are shown while the app is closed. The
+ * worker checks for due reminders when the browser wakes it with periodic background
+ * sync, and where notification triggers are supported it has the browser show each one
+ * at its exact time. While a tab is open it also checks every little while, which is
+ * the only way reminders arrive in browsers with neither.
+ */
+
+import { reminderDB } from './reminderDB'
+import { REMINDER_SYNC_TAG } from '@/utils/reminders'
+import type {
+  ReminderDeliveryMode,
+  ReminderKind,
+  ReminderMessage,
+  ReminderNotification,
+  ReminderSchedule
+} from '@/types/reminders'
+
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000 // 1 hour; the browser may wake the worker less often
+const IN_PAGE_CHECK_INTERVAL = 30000 // 30 seconds
+const SERVICE_WORKER_TIMEOUT = 10000 // no worker by then means none is coming
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>
+}
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }
+
+export class ReminderService {
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null
+  private deliveryMode: Promise<ReminderDeliveryMode> | null = null
+  private checkInterval: ReturnType<typeof setInterval> | null = null
+  private navigate: ((url: string) => void) | null = null
+
+  /**
+   * Scheduling
+   */
+
+  /**
+   * Set every reminder of one kind; an empty list turns that kind off
+   */
+  async setReminders(kind: ReminderKind, schedules: ReminderSchedule[]): Promise<void> {
+    await reminderDB.replaceKind(kind, schedules)
+    await this.notifyServiceWorker()
+  }
+
+  /**
+   * Delivery
+   */
+
+  /**
+   * Start showing reminders from this tab and routing notification clicks into it.
+   * Resolves with how reminders reach the user while the app is closed.
+   */
+  async start(navigate: (url: string) => void): Promise<ReminderDeliveryMode> {
+    this.navigate = navigate
+
+    if (!this.checkInterval) {
+      if ('serviceWorker' in navigator) {
+        navigator.serviceWorker.addEventListener('message', this.handleMessage)
+      }
+      this.checkInterval = setInterval(() => this.checkDue(), IN_PAGE_CHECK_INTERVAL)
+      void this.checkDue()
+    }
+
+    return this.getDeliveryMode()
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval)
+      this.checkInterval = null
+    }
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.handleMessage)
+    }
+    this.navigate = null
+  }
+
+  getDeliveryMode(): Promise<ReminderDeliveryMode> {
+    this.deliveryMode ??= this.detectDeliveryMode()
+    return this.deliveryMode
+  }
+
+  private async detectDeliveryMode(): Promise<ReminderDeliveryMode> {
+    const registration = await this.getRegistration()
+    if (!registration) return 'in-page'
+
+    // Registered either way: it also wakes the worker to schedule the next trigger
+    const periodicSync = await this.registerPeriodicSync(registration)
+
+    if ('Notification' in window && 'showTrigger' in Notification.prototype) return 'triggers'
+    return periodicSync ? 'periodic-sync' : 'in-page'
+  }
+
+  private async registerPeriodicSync(registration: PeriodicSyncRegistration): Promise<boolean> {
+    if (!registration.periodicSync) return false
+
+    try {
+      const permission = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName })
+      if (permission.state !== 'granted') return false
+
+      await registration.periodicSync.register(REMINDER_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL })
+      return true
+    } catch (error) {
+      console.warn('Periodic background sync unavailable:', error)
+      return false
+    }
+  }
+
+  /**
+   * Show the reminders that are due, if this tab gets to them before the worker does
+   */
+  async checkDue(): Promise<number> {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return 0
+
+    const registration = await this.getRegistration()
+    try {
+      return await reminderDB.deliverDue(notification => this.show(notification, registration))
+    } catch (error) {
+      console.error('Failed to check reminders:', error)
+      return 0
+    }
+  }
+
+  private async show({ title, options }: ReminderNotification, registration: ServiceWorkerRegistration | null): Promise<void> {
+    // Shown through the worker, so actions work and clicks are handled even once the tab closes
+    if (registration) {
+      await registration.showNotification(title, options)
+      return
+    }
+
+    // Page notifications can't have actions
+    const notification = new Notification(title, {
+      body: options.body,
+      icon: options.icon,
+      tag: options.tag,
+      data: options.data
+    })
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+      this.navigate?.(options.data.url)
+    }
+  }
+
+  private handleMessage = (event: MessageEvent<ReminderMessage>) => {
+    if (event.data?.type === 'REMINDER_NAVIGATE') {
+      this.navigate?.(event.data.payload.url)
+    }
+  }
+
+  /**
+   * Service worker
+   */
+
+  private getRegistration(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.registration) {
+      this.registration = 'serviceWorker' in navigator
+        ? Promise.race([
+            navigator.serviceWorker.ready,
+            new Promise<null>(resolve => setTimeout(() => resolve(null), SERVICE_WORKER_TIMEOUT))
+          ])
+        : Promise.resolve(null)
+    }
+    return this.registration
+  }
+
+  // Let the worker set triggers for changed reminders and drop those for removed ones
+  private async notifyServiceWorker(): Promise<void> {
+    const registration = await this.getRegistration()
+    const message: ReminderMessage = { type: 'REMINDERS_UPDATED' }
+    registration?.active?.postMessage(message)
+  }
+}
+
+// Export singleton instance
+export const reminderService = new ReminderService()
@@ -0,0 +1,185 @@
+/**
+ * Search Index Service
+ * Builds and queries the offline inverted index stored in IndexedDB.
+ * Each downloaded version is indexed once; search then reads only the
+ * rows for the query terms instead of scanning every verse.
+ */
+
+import { illumineDB } from './indexedDB'
+import type { SearchIndexEntry, SearchIndexMeta, ScoredVerse, CompiledQueryNode, IndexLookup } from '@/types/searchIndex'
+import type { ParsedSearchQuery } from '@/types/searchQuery'
+import {
+  ANALYZER_VERSION,
+  getAnalyzerLanguage,
+  normalizeWord,
+  analyzeWord,
+  type AnalyzerLanguage
+} from '@/utils/textAnalysis'
+import {
+  buildIndexEntries,
+  collectIndexTerms,
+  compileQuery,
+  evaluateQuery,
+  matchesWildcard,
+  toIndexEntryId
+} from '@/utils/searchIndex'
+
+const WRITE_BATCH_SIZE = 500
+
+export class SearchIndexService {
+  /**
+   * Index Maintenance
+   */
+
+  async buildIndex(version: string, onProgress?: (progress: number) => void): Promise<SearchIndexMeta> {
+    const [language, verses] = await Promise.all([
+      this.getVersionLanguage(version),
+      illumineDB.verses.where('version').equals(version).toArray()
+    ])
+
+    const { entries, meta } = buildIndexEntries(verses, version, language)
+
+    await this.deleteIndex(version)
+
+    for (let i = 0; i < entries.length; i += WRITE_BATCH_SIZE) {
+      await illumineDB.searchIndex.bulkPut(entries.slice(i, i + WRITE_BATCH_SIZE))
+      onProgress?.(Math.min(100, ((i + WRITE_BATCH_SIZE) / entries.length) * 100))
+    }
+
+    // Written last so a half-built index is never treated as usable
+    await illumineDB.searchIndexMeta.put(meta)
+    return meta
+  }
+
+  async deleteIndex(version: string): Promise<void> {
+    await illumineDB.transaction('rw', [illumineDB.searchIndex, illumineDB.searchIndexMeta], async () => {
+      await illumineDB.searchIndexMeta.delete(version)
+      await illumineDB.searchIndex.where('version').equals(version).delete()
+    })
+  }
+
+  /**
+   * Versions without a stored record are treated as English, matching the KJV default
+   */
+  async getVersionLanguage(version: string): Promise<AnalyzerLanguage> {
+    const storedVersion = await illumineDB.bibleVersions.get(version)
+    return storedVersion ? getAnalyzerLanguage(storedVersion.language) : 'en'
+  }
+
+  async getIndexMeta(version: string): Promise<SearchIndexMeta | undefined> {
+    const meta = await illumineDB.searchIndexMeta.get(version)
+    return meta && meta.analyzerVersion === ANALYZER_VERSION ? meta : undefined
+  }
+
+  async isIndexed(version: string): Promise<boolean> {
+    return !!(await this.getIndexMeta(version))
+  }
+
+  async getIndexedVersions(): Promise<SearchIndexMeta[]> {
+    const metas = await illumineDB.searchIndexMeta.toArray()
+    return metas.filter(meta => meta.analyzerVersion === ANALYZER_VERSION)
+  }
+
+  /**
+   * Queries
+   */
+
+  /**
+   * Run a parsed query against each version's index and merge the ranked
+   * matches. `books` narrows the query's own book: filter further.
+   * Returns null when the query has no indexable terms (only stop words).
+   */
+  async search(
+    query: ParsedSearchQuery,
+    versions: string[],
+    options: { books?: string[] } = {}
+  ): Promise<ScoredVerse[] | null> {
+    const results: ScoredVerse[] = []
+    let hasTerms = false
+
+    for (const version of versions) {
+      const meta = await this.getIndexMeta(version)
+      if (!meta) continue
+
+      const compiled = compileQuery(query.root, getAnalyzerLanguage(meta.language))
+      if (!compiled) continue
+      hasTerms = true
+
+      const lookup = await this.loadLookup(version, compiled)
+      results.push(...evaluateQuery(compiled, lookup, meta))
+    }
+
+    if (!hasTerms) return null
+
+    const books = [options.books, query.filters.books].filter(
+      (list): list is string[] => !!list && list.length > 0
+    )
+    const chapters = query.filters.chapters
+
+    return results
+      .filter(result => books.every(list => list.includes(result.book)))
+      .filter(result => !chapters || (result.chapter >= chapters.start && result.chapter <= chapters.end))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Fetch every index row a compiled query touches so it can be evaluated in memory
+   */
+  private async loadLookup(version: string, compiled: CompiledQueryNode): Promise<IndexLookup> {
+    const { terms, wildcards } = collectIndexTerms(compiled)
+    const entries = await illumineDB.searchIndex.bulkGet(terms.map(term => toIndexEntryId(version, term)))
+    const byTerm = new Map<string, SearchIndexEntry>()
+    entries.forEach(entry => {
+      if (entry) byTerm.set(entry.term, entry)
+    })
+
+    const wildcardEntries = new Map<string, SearchIndexEntry[]>()
+    for (const wildcard of wildcards) {
+      // Stems can be shorter than the written prefix (blessed -> bless), so range on the first letters
+      const candidates = await this.getEntriesWithPrefix(version, wildcard.prefix.slice(0, 2))
+      wildcardEntries.set(wildcard.pattern, candidates.filter(entry => matchesWildcard(entry, wildcard)))
+    }
+
+    return {
+      getEntry: term => byTerm.get(term),
+      getWildcardEntries: node => wildcardEntries.get(node.pattern) || []
+    }
+  }
+
+  /**
+   * Suggest whole words from the index that start with the typed prefix,
+   * most widely used words first
+   */
+  async getSuggestions(prefix: string, limit: number = 10): Promise<string[]> {
+    const normalizedPrefix = normalizeWord(prefix.trim())
+    const metas = await this.getIndexedVersions()
+    const counts = new Map<string, number>()
+
+    for (const meta of metas) {
+      // Stems can be shorter than the typed word (loved -> lov), so search from the stem
+      const stem = analyzeWord(normalizedPrefix, getAnalyzerLanguage(meta.language))
+      const rangeStart = stem.length < normalizedPrefix.length ? stem : normalizedPrefix
+      const entries = await this.getEntriesWithPrefix(meta.version, rangeStart)
+
+      entries.forEach(entry => {
+        entry.forms
+          .filter(form => normalizeWord(form).startsWith(normalizedPrefix) && form.length > normalizedPrefix.length)
+          .forEach(form => counts.set(form, (counts.get(form) || 0) + entry.docFrequency))
+      })
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([form]) => form)
+  }
+
+  private async getEntriesWithPrefix(version: string, prefix: string): Promise<SearchIndexEntry[]> {
+    return await illumineDB.searchIndex
+      .where('[version+term]')
+      .between([version, prefix], [version, prefix + '\uffff'])
+      .toArray()
+  }
+}
+
+export const searchIndexService = new SearchIndexService()
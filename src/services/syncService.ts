@@ -1,11 +1,21 @@
 import { illumineDB, type StoredSyncOperation } from './indexedDB'
 import { supabase } from './supabase'
-import type { SyncOperation, Bookmark, Note, Highlight, UserProfile, UserPreferences, SyncStatus } from '@/types'
+import type { SyncOperation, Bookmark, Note, Notebook, NoteRevision, Highlight, HighlightCategory, UserProfile, UserPreferences, SyncStatus } from '@/types'
+import type { ReadingPlanEnrollment, ReadingPlanDayProgress } from '@/types/readingPlans'
+import type { MemorizationCard, MemorizationReviewLog } from '@/types/quickWins'
+import type { VerseCollection, CollectionVerse, UserMood } from '@/types/personalization'
+import type { OutboxEntityData, OutboxEntityType } from '@/types/outbox'
+import type { UserMoodInsert } from '@/types/database'
+import { DataTransformers } from '@/utils/transformers'
+import { noteRevisionService } from './noteRevisionService'
+import { deltaSyncService, type DeltaPullResult } from './deltaSyncService'
+import { tabCoordinator } from './tabCoordinator'
+import { outboxService } from './outboxService'
 
 // Sync-specific types
 export interface SyncConflict {
   operationId: string
-  entityType: 'bookmark' | 'note' | 'highlight' | 'profile' | 'preferences'
+  entityType: SyncOperation['entityType']
   entityId: string
   localData: any
   remoteData: any
@@ -51,15 +61,19 @@ export class ConflictError extends Error {
 export class SyncService {
   private isOnline = navigator.onLine
   private syncInProgress = false
-  private retryTimeouts = new Map<string, NodeJS.Timeout>()
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null
+  private lastSyncAttempt?: Date
+  private lastSuccessfulSync?: Date
   private conflictCallbacks = new Map<string, (conflict: SyncConflict) => Promise<ConflictResolution>>()
   private syncListeners = new Set<(status: SyncStatus) => void>()
 
   constructor() {
-    // Listen for online/offline events
+    // Listen for online/offline events; every tab hears them, so only the leader syncs
     window.addEventListener('online', () => {
       this.isOnline = true
-      this.processSyncQueue()
+      if (tabCoordinator.isLeader) {
+        this.processSyncQueue()
+      }
     })
 
     window.addEventListener('offline', () => {
@@ -68,10 +82,17 @@ export class SyncService {
 
     // Set up periodic sync when online
     setInterval(() => {
-      if (this.isOnline && !this.syncInProgress) {
+      if (this.isOnline && !this.syncInProgress && tabCoordinator.isLeader) {
         this.processSyncQueue()
       }
     }, 30000) // Sync every 30 seconds
+
+    // The leader tab syncs for the other tabs
+    tabCoordinator.handleSyncRequests('queue', async () => (await this.processSyncQueue()).success)
+    tabCoordinator.handleSyncRequests('full', async request => {
+      const results = await this.performFullSync(request.userId)
+      return Object.values(results).every(result => result.success)
+    })
   }
 
   /**
@@ -120,8 +141,9 @@ export class SyncService {
       rollback
     }
 
-    // Queue the operation for sync
-    await this.queueOperation(operation, entityType, entityId, newData || null)
+    // Queue the operation for sync; deletes carry what was deleted so its row can be found
+    const data = (newData || originalData || null) as OutboxEntityData[typeof entityType] | null
+    await this.queueOperation(operation, entityType, entityId, data)
 
     return optimisticUpdate
   }
@@ -130,25 +152,17 @@ export class SyncService {
    * Queue Operations
    */
 
-  async queueOperation(
+  /**
+   * Queue a change in the outbox, folded into any change still waiting for the same
+   * entity. Resolves with the operation's id, or null if the two cancelled out.
+   */
+  async queueOperation<E extends OutboxEntityType>(
     operation: 'create' | 'update' | 'delete',
-    entityType: 'bookmark' | 'note' | 'highlight' | 'profile' | 'preferences',
+    entityType: E,
     entityId: string,
-    data: any
-  ): Promise<string> {
-    const id = `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const syncOperation: StoredSyncOperation = {
-      id,
-      operation,
-      entityType,
-      entityId,
-      data,
-      timestamp: new Date(),
-      retryCount: 0,
-      maxRetries: 3
-    }
-
-    await illumineDB.syncQueue.put(syncOperation)
+    data: OutboxEntityData[E] | null
+  ): Promise<string | null> {
+    const id = await outboxService.enqueue(operation, entityType, entityId, data)
 
     // Notify listeners of pending sync
     this.notifySyncListeners('pending')
@@ -162,42 +176,24 @@ export class SyncService {
   }
 
   async getSyncQueue(): Promise<StoredSyncOperation[]> {
-    return await illumineDB.syncQueue
-      .orderBy('timestamp')
-      .toArray()
+    return await outboxService.getQueue()
   }
 
   async getPendingOperations(): Promise<StoredSyncOperation[]> {
-    return await illumineDB.syncQueue
-      .where('retryCount')
-      .below(3) // Only get operations that haven't exceeded max retries
-      .sortBy('timestamp')
+    return await outboxService.getPending()
   }
 
   async getFailedOperations(): Promise<StoredSyncOperation[]> {
-    return await illumineDB.syncQueue
-      .where('retryCount')
-      .aboveOrEqual(3)
-      .sortBy('timestamp')
+    return await outboxService.getFailed()
   }
 
   async removeFromQueue(id: string): Promise<void> {
-    await illumineDB.syncQueue.delete(id)
-
-    // Clear any pending retry timeout
-    const timeout = this.retryTimeouts.get(id)
-    if (timeout) {
-      clearTimeout(timeout)
-      this.retryTimeouts.delete(id)
-    }
+    await outboxService.remove(id)
   }
 
   async clearSyncQueue(): Promise<void> {
-    await illumineDB.syncQueue.clear()
-
-    // Clear all retry timeouts
-    this.retryTimeouts.forEach(timeout => clearTimeout(timeout))
-    this.retryTimeouts.clear()
+    await outboxService.clear()
+    this.scheduleRetry(undefined)
   }
 
   /**
@@ -251,6 +247,11 @@ export class SyncService {
    */
 
   async processSyncQueue(): Promise<SyncResult> {
+    // Another tab syncs the shared queue; ask it to
+    if (this.isOnline && !(await tabCoordinator.isLeaderTab())) {
+      return this.forwardedResult(await tabCoordinator.forwardToLeader({ kind: 'queue' }))
+    }
+
     if (!this.isOnline || this.syncInProgress) {
       return {
         success: false,
@@ -262,6 +263,7 @@ export class SyncService {
     }
 
     this.syncInProgress = true
+    this.lastSyncAttempt = new Date()
     this.notifySyncListeners('pending')
 
     const result: SyncResult = {
@@ -273,30 +275,30 @@ export class SyncService {
     }
 
     try {
-      const pendingOperations = await this.getPendingOperations()
-
-      for (const operation of pendingOperations) {
+      const drained = await outboxService.drain(async operation => {
         try {
           await this.processOperation(operation)
-          await this.removeFromQueue(operation.id)
-          result.operationsProcessed++
+          return 'pushed'
         } catch (error) {
           console.error(`Failed to sync operation ${operation.id}:`, error)
+          if (!(error instanceof ConflictError)) throw error
 
-          if (error instanceof ConflictError) {
-            result.conflicts.push(error.conflict)
-          } else {
-            result.errors.push(error as Error)
-            result.operationsFailed++
-            await this.handleSyncError(operation, error as Error)
-          }
+          result.conflicts.push(error.conflict)
+          await this.recordConflict(error.conflict)
+          return 'held'
         }
-      }
+      })
+
+      result.operationsProcessed = drained.pushed
+      result.operationsFailed = drained.errors.length
+      result.errors.push(...drained.errors)
+      this.scheduleRetry(drained.nextRetryAt)
 
       // Update sync status based on results
       if (result.conflicts.length > 0) {
         this.notifySyncListeners('conflict')
-      } else if (result.operationsFailed === 0) {
+      } else if (result.operationsFailed === 0 && drained.waiting === 0) {
+        this.lastSuccessfulSync = new Date()
         this.notifySyncListeners('synced')
       } else {
         this.notifySyncListeners('pending')
@@ -314,6 +316,17 @@ export class SyncService {
     return result
   }
 
+  // What a follower tab reports for a sync the leader ran for it
+  private forwardedResult(success: boolean): SyncResult {
+    return {
+      success,
+      operationsProcessed: 0,
+      operationsFailed: 0,
+      conflicts: [],
+      errors: success ? [] : [new Error('The tab that syncs did not finish the sync')]
+    }
+  }
+
   private async processOperation(operation: StoredSyncOperation): Promise<void> {
     // Get current user session
     const { data: { user } } = await supabase.auth.getUser()
@@ -328,15 +341,45 @@ export class SyncService {
       case 'note':
         await this.syncNote(operation, user.id)
         break
+      case 'notebook':
+        await this.syncNotebook(operation, user.id)
+        break
+      case 'note_revision':
+        await this.syncNoteRevision(operation, user.id)
+        break
       case 'highlight':
         await this.syncHighlight(operation, user.id)
         break
+      case 'highlight_category':
+        await this.syncHighlightCategory(operation, user.id)
+        break
       case 'profile':
         await this.syncProfile(operation, user.id)
         break
       case 'preferences':
         await this.syncPreferences(operation, user.id)
         break
+      case 'reading_plan':
+        await this.syncReadingPlanEnrollment(operation, user.id)
+        break
+      case 'reading_plan_progress':
+        await this.syncReadingPlanProgress(operation, user.id)
+        break
+      case 'memorization_card':
+        await this.syncMemorizationCard(operation, user.id)
+        break
+      case 'memorization_review':
+        await this.syncMemorizationReview(operation, user.id)
+        break
+      case 'verse_collection':
+        await this.syncVerseCollection(operation, user.id)
+        break
+      case 'collection_verse':
+        await this.syncCollectionVerse(operation)
+        break
+      case 'mood':
+        await this.syncMood(operation, user.id)
+        break
       default:
         throw new Error(`Unknown entity type: ${operation.entityType}`)
     }
@@ -347,72 +390,14 @@ export class SyncService {
 
     switch (operation.operation) {
       case 'create':
-        // Check if bookmark already exists remotely
-        const { data: existing } = await supabase
-          .from('bookmarks')
-          .select('*')
-          .eq('user_id', userId)
-          .eq('book', bookmark.book)
-          .eq('chapter', bookmark.chapter)
-          .eq('verse', bookmark.verse)
-          .single()
-
-        if (existing) {
-          // Conflict: bookmark already exists
-          throw new ConflictError({
-            operationId: operation.id,
-            entityType: 'bookmark',
-            entityId: operation.entityId,
-            localData: bookmark,
-            remoteData: existing,
-            conflictType: 'create_conflict',
-            timestamp: new Date()
-          })
-        }
-
-        // Create new bookmark
-        const { error: createError } = await supabase
-          .from('bookmarks')
-          .insert({
-            user_id: userId,
-            book: bookmark.book,
-            chapter: bookmark.chapter,
-            verse: bookmark.verse,
-            created_at: bookmark.createdAt.toISOString()
-          })
-
-        if (createError) throw createError
-
-        // Update local sync status
-        await illumineDB.bookmarks.update(operation.entityId, { syncStatus: 'synced' })
-        break
-
       case 'update':
-        // Bookmarks typically don't have update operations, but handle it for completeness
-        const { error: updateError } = await supabase
-          .from('bookmarks')
-          .update({
-            created_at: bookmark.createdAt.toISOString()
-          })
-          .eq('user_id', userId)
-          .eq('book', bookmark.book)
-          .eq('chapter', bookmark.chapter)
-          .eq('verse', bookmark.verse)
-
-        if (updateError) throw updateError
+        // Bookmarks are matched by the id the client made them with, so retries upsert
+        await deltaSyncService.pushBookmark({ ...bookmark, id: operation.entityId }, userId)
         await illumineDB.bookmarks.update(operation.entityId, { syncStatus: 'synced' })
         break
 
       case 'delete':
-        const { error: deleteError } = await supabase
-          .from('bookmarks')
-          .delete()
-          .eq('user_id', userId)
-          .eq('book', bookmark.book)
-          .eq('chapter', bookmark.chapter)
-          .eq('verse', bookmark.verse)
-
-        if (deleteError) throw deleteError
+        await deltaSyncService.pushDeletion('bookmarks', userId, operation.entityId, bookmark)
         break
 
       default:
@@ -421,128 +406,157 @@ export class SyncService {
   }
 
   private async syncNote(operation: StoredSyncOperation, userId: string): Promise<void> {
-    const note = operation.data as Note
+    const note = operation.data as Note & { _forceSync?: boolean }
 
     switch (operation.operation) {
       case 'create':
-        const { error: createError } = await supabase
-          .from('notes')
-          .insert({
-            user_id: userId,
-            book: note.book,
-            chapter: note.chapter,
-            verse: note.verse,
-            content: note.content,
-            created_at: note.createdAt.toISOString(),
-            updated_at: note.updatedAt.toISOString()
-          })
-
-        if (createError) throw createError
+        // Notes are matched by the id the client made them with, so retried creates upsert
+        await deltaSyncService.pushNote({ ...note, id: operation.entityId }, userId)
         await illumineDB.notes.update(operation.entityId, { syncStatus: 'synced' })
         break
 
       case 'update':
-        // Check for conflicts by comparing updated_at timestamps
-        const { data: remoteNote } = await supabase
-          .from('notes')
-          .select('updated_at')
-          .eq('user_id', userId)
-          .eq('book', note.book)
-          .eq('chapter', note.chapter)
-          .eq('verse', note.verse)
-          .single()
-
-        if (remoteNote && new Date(remoteNote.updated_at) > note.updatedAt) {
-          // Conflict: remote version is newer
-          const { data: fullRemoteNote } = await supabase
+        if (!note._forceSync) {
+          // Check for conflicts by comparing updated_at timestamps
+          const { data: remoteNote, error: fetchError } = await supabase
             .from('notes')
             .select('*')
             .eq('user_id', userId)
-            .eq('book', note.book)
-            .eq('chapter', note.chapter)
-            .eq('verse', note.verse)
-            .single()
-
-          throw new ConflictError({
-            operationId: operation.id,
-            entityType: 'note',
-            entityId: operation.entityId,
-            localData: note,
-            remoteData: fullRemoteNote,
-            conflictType: 'update_conflict',
-            timestamp: new Date()
-          })
+            .eq('client_id', operation.entityId)
+            .maybeSingle()
+
+          if (fetchError) throw fetchError
+
+          if (remoteNote && new Date(remoteNote.updated_at) > new Date(note.updatedAt)) {
+            // Conflict: remote version is newer
+            throw new ConflictError({
+              operationId: operation.id,
+              entityType: 'note',
+              entityId: operation.entityId,
+              localData: note,
+              remoteData: remoteNote,
+              conflictType: 'update_conflict',
+              timestamp: new Date()
+            })
+          }
         }
 
-        const { error: updateError } = await supabase
-          .from('notes')
-          .update({
-            content: note.content,
-            updated_at: note.updatedAt.toISOString()
-          })
-          .eq('user_id', userId)
-          .eq('book', note.book)
-          .eq('chapter', note.chapter)
-          .eq('verse', note.verse)
-
-        if (updateError) throw updateError
+        // Location, notebook and tags can change as well as content, so send the whole note
+        await deltaSyncService.pushNote({ ...note, id: operation.entityId }, userId)
         await illumineDB.notes.update(operation.entityId, { syncStatus: 'synced' })
         break
 
       case 'delete':
+        await deltaSyncService.pushDeletion('notes', userId, operation.entityId, note)
+        break
+
+      default:
+        throw new Error(`Unsupported note operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncNotebook(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const notebook = operation.data as Notebook
+
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        // Notebooks only carry a name and an order, so the last write wins
+        const { error: upsertError } = await supabase
+          .from('note_notebooks')
+          .upsert({ ...DataTransformers.transformNotebookToDb(notebook), user_id: userId })
+
+        if (upsertError) throw upsertError
+        await illumineDB.notebooks.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'delete':
+        // Notes in the notebook are kept; the foreign key clears their notebook_id
         const { error: deleteError } = await supabase
-          .from('notes')
+          .from('note_notebooks')
           .delete()
-          .eq('user_id', userId)
-          .eq('book', note.book)
-          .eq('chapter', note.chapter)
-          .eq('verse', note.verse)
+          .eq('id', operation.entityId)
 
         if (deleteError) throw deleteError
         break
 
       default:
-        throw new Error(`Unsupported note operation: ${operation.operation}`)
+        throw new Error(`Unsupported notebook operation: ${operation.operation}`)
     }
   }
 
-  private async syncHighlight(operation: StoredSyncOperation, userId: string): Promise<void> {
-    const highlight = operation.data as Highlight
+  private async syncNoteRevision(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const revision = operation.data as NoteRevision
 
     switch (operation.operation) {
       case 'create':
+        // Revisions are append-only, so every device's history is kept
         const { error: createError } = await supabase
-          .from('highlights')
-          .insert({
-            user_id: userId,
-            book: highlight.book,
-            chapter: highlight.chapter,
-            verse: highlight.verse,
-            color_hex: highlight.colorHex,
-            start_offset: highlight.startOffset,
-            end_offset: highlight.endOffset,
-            created_at: highlight.createdAt.toISOString()
-          })
+          .from('note_revisions')
+          .upsert({ ...DataTransformers.transformNoteRevisionToDb(revision), user_id: userId })
+
+        // 23503: the note was deleted on another device, taking its history with it
+        if (createError?.code === '23503') {
+          await illumineDB.noteRevisions.delete(operation.entityId)
+          break
+        }
 
         if (createError) throw createError
+        await illumineDB.noteRevisions.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      default:
+        throw new Error(`Unsupported note revision operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncHighlight(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const highlight = operation.data as Highlight
+
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        // The whole highlight is sent, so a retried create or a later recategorization upserts
+        await deltaSyncService.pushHighlight({ ...highlight, id: operation.entityId }, userId)
         await illumineDB.highlights.update(operation.entityId, { syncStatus: 'synced' })
         break
 
       case 'delete':
+        await deltaSyncService.pushDeletion('highlights', userId, operation.entityId, highlight)
+        break
+
+      default:
+        throw new Error(`Unsupported highlight operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncHighlightCategory(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const category = operation.data as HighlightCategory
+
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        // Categories are only a label and a color, so the last write wins
+        const { error: upsertError } = await supabase
+          .from('highlight_categories')
+          .upsert({ ...DataTransformers.transformHighlightCategoryToDb(category), user_id: userId })
+
+        if (upsertError) throw upsertError
+        await illumineDB.highlightCategories.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'delete':
+        // Highlights in the category are kept; the foreign key clears their category_id
         const { error: deleteError } = await supabase
-          .from('highlights')
+          .from('highlight_categories')
           .delete()
-          .eq('user_id', userId)
-          .eq('book', highlight.book)
-          .eq('chapter', highlight.chapter)
-          .eq('verse', highlight.verse)
-          .eq('color_hex', highlight.colorHex)
+          .eq('id', operation.entityId)
 
         if (deleteError) throw deleteError
         break
 
       default:
-        throw new Error(`Unsupported highlight operation: ${operation.operation}`)
+        throw new Error(`Unsupported highlight category operation: ${operation.operation}`)
     }
   }
 
@@ -589,59 +603,283 @@ export class SyncService {
     }
   }
 
-  private async handleSyncError(operation: StoredSyncOperation, error: Error): Promise<void> {
-    const newRetryCount = operation.retryCount + 1
+  private async syncReadingPlanEnrollment(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const enrollment = operation.data as ReadingPlanEnrollment
 
-    // Log error details for debugging
-    console.error(`Sync error for operation ${operation.id} (attempt ${newRetryCount}):`, {
-      operation: operation.operation,
-      entityType: operation.entityType,
-      entityId: operation.entityId,
-      error: error.message,
-      stack: error.stack
-    })
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        // Enrollments use client-generated ids, so upserts are safe to retry
+        const { error: upsertError } = await supabase
+          .from('reading_plan_enrollments')
+          .upsert({
+            id: enrollment.id,
+            user_id: userId,
+            plan_id: enrollment.planId,
+            start_date: enrollment.startDate.toISOString(),
+            status: enrollment.status,
+            custom_plan: enrollment.customPlan ?? null,
+            catch_up: enrollment.catchUp ?? null,
+            paused_at: enrollment.pausedAt ? enrollment.pausedAt.toISOString() : null,
+            completed_at: enrollment.completedAt ? enrollment.completedAt.toISOString() : null,
+            created_at: enrollment.createdAt.toISOString(),
+            updated_at: enrollment.updatedAt.toISOString()
+          })
 
-    if (newRetryCount >= operation.maxRetries) {
-      console.error(`Operation ${operation.id} failed after ${operation.maxRetries} retries:`, error)
+        if (upsertError) throw upsertError
+        await illumineDB.readingPlanEnrollments.update(operation.entityId, { syncStatus: 'synced' })
+        break
 
-      // Mark as failed but keep in queue for manual retry
-      await illumineDB.syncQueue.update(operation.id, {
-        retryCount: newRetryCount,
-        lastError: error.message,
-        lastErrorTime: new Date()
-      })
+      case 'delete':
+        const { error: deleteError } = await supabase
+          .from('reading_plan_enrollments')
+          .delete()
+          .eq('user_id', userId)
+          .eq('id', operation.entityId)
 
-      // Notify listeners of failed sync
-      this.notifySyncListeners('conflict')
-      return
+        if (deleteError) throw deleteError
+        break
+
+      default:
+        throw new Error(`Unsupported reading plan operation: ${operation.operation}`)
     }
+  }
 
-    // Update retry count and error info
-    await illumineDB.syncQueue.update(operation.id, {
-      retryCount: newRetryCount,
-      lastError: error.message,
-      lastErrorTime: new Date()
-    })
+  private async syncReadingPlanProgress(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const progress = operation.data as ReadingPlanDayProgress
+
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        const { error: upsertError } = await supabase
+          .from('reading_plan_progress')
+          .upsert({
+            id: progress.id,
+            enrollment_id: progress.enrollmentId,
+            user_id: userId,
+            day: progress.day,
+            completed_chapters: progress.completedChapters,
+            completed_at: progress.completedAt ? progress.completedAt.toISOString() : null,
+            updated_at: progress.updatedAt.toISOString()
+          })
+
+        if (upsertError) throw upsertError
+        await illumineDB.readingPlanProgress.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'delete':
+        const { error: deleteError } = await supabase
+          .from('reading_plan_progress')
+          .delete()
+          .eq('user_id', userId)
+          .eq('id', operation.entityId)
+
+        if (deleteError) throw deleteError
+        break
+
+      default:
+        throw new Error(`Unsupported reading plan progress operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncMemorizationCard(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const card = operation.data as MemorizationCard & { _forceSync?: boolean }
+
+    switch (operation.operation) {
+      case 'create':
+        // Cards use client-generated ids, so upserts are safe to retry
+        const { error: createError } = await supabase
+          .from('memorization_cards')
+          .upsert({ ...DataTransformers.transformMemorizationCardToDb(card), user_id: userId })
+
+        if (createError) throw createError
+        await illumineDB.memorizationCards.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'update':
+        if (!card._forceSync) {
+          // Another device may have reviewed or deleted the card since this review
+          const { data: remoteCard, error: fetchError } = await supabase
+            .from('memorization_cards')
+            .select('*')
+            .eq('id', operation.entityId)
+            .maybeSingle()
+
+          if (fetchError) throw fetchError
+
+          // The outbox pushes the card's create before this, so a missing card was deleted
+          if (!remoteCard || new Date(remoteCard.updated_at) > new Date(card.updatedAt)) {
+            throw new ConflictError({
+              operationId: operation.id,
+              entityType: 'memorization_card',
+              entityId: operation.entityId,
+              localData: card,
+              remoteData: remoteCard,
+              conflictType: remoteCard ? 'update_conflict' : 'delete_conflict',
+              timestamp: new Date()
+            })
+          }
+        }
+
+        const { error: updateError } = await supabase
+          .from('memorization_cards')
+          .upsert({ ...DataTransformers.transformMemorizationCardToDb(card), user_id: userId })
+
+        if (updateError) throw updateError
+        await illumineDB.memorizationCards.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'delete':
+        const { error: deleteError } = await supabase
+          .from('memorization_cards')
+          .delete()
+          .eq('user_id', userId)
+          .eq('id', operation.entityId)
 
-    // Calculate exponential backoff with jitter
-    const baseDelay = 1000 // 1 second
-    const maxDelay = 300000 // 5 minutes
-    const exponentialDelay = Math.min(baseDelay * Math.pow(2, newRetryCount), maxDelay)
+        if (deleteError) throw deleteError
+        break
 
-    // Add jitter to prevent thundering herd
-    const jitter = Math.random() * 0.3 * exponentialDelay
-    const retryDelay = exponentialDelay + jitter
+      default:
+        throw new Error(`Unsupported memorization card operation: ${operation.operation}`)
+    }
+  }
 
-    console.log(`Scheduling retry for operation ${operation.id} in ${Math.round(retryDelay / 1000)} seconds`)
+  private async syncMemorizationReview(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const review = operation.data as MemorizationReviewLog
 
-    const timeout = setTimeout(() => {
-      this.retryTimeouts.delete(operation.id)
+    switch (operation.operation) {
+      case 'create':
+        // The log is append-only, so reviews from every device are kept
+        const { error: createError } = await supabase
+          .from('memorization_reviews')
+          .upsert({ ...DataTransformers.transformMemorizationReviewToDb(review), user_id: userId })
+
+        // 23503: the card was deleted on another device, taking its log with it
+        if (createError?.code === '23503') {
+          await illumineDB.memorizationReviews.delete(operation.entityId)
+          break
+        }
+
+        if (createError) throw createError
+        await illumineDB.memorizationReviews.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      default:
+        throw new Error(`Unsupported memorization review operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncVerseCollection(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const collection = operation.data as VerseCollection
+
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        // Collections carry a name, tags and section list, so the last write wins
+        const { error: upsertError } = await supabase
+          .from('verse_collections')
+          .upsert({ ...DataTransformers.transformVerseCollectionToDb(collection), user_id: userId })
+
+        if (upsertError) throw upsertError
+        await illumineDB.verseCollections.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'delete':
+        // The foreign key deletes the collection's verses with it
+        const { error: deleteError } = await supabase
+          .from('verse_collections')
+          .delete()
+          .eq('user_id', userId)
+          .eq('id', operation.entityId)
+
+        if (deleteError) throw deleteError
+        break
+
+      default:
+        throw new Error(`Unsupported verse collection operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncCollectionVerse(operation: StoredSyncOperation): Promise<void> {
+    const verse = operation.data as CollectionVerse
+
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        // Moves renumber many verses at once, so each keeps its latest position
+        const { error: upsertError } = await supabase
+          .from('collection_verses')
+          .upsert(DataTransformers.transformCollectionVerseToDb(verse))
+
+        // 23503: the collection was deleted on another device, taking its verses with it
+        if (upsertError?.code === '23503') {
+          await illumineDB.collectionVerses.delete(operation.entityId)
+          break
+        }
+
+        if (upsertError) throw upsertError
+        await illumineDB.collectionVerses.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      case 'delete':
+        const { error: deleteError } = await supabase
+          .from('collection_verses')
+          .delete()
+          .eq('id', operation.entityId)
+
+        if (deleteError) throw deleteError
+        break
+
+      default:
+        throw new Error(`Unsupported collection verse operation: ${operation.operation}`)
+    }
+  }
+
+  private async syncMood(operation: StoredSyncOperation, userId: string): Promise<void> {
+    const mood = operation.data as UserMood
+
+    switch (operation.operation) {
+      case 'create':
+        // Moods logged offline keep their client id, so a retried insert is an upsert
+        const row: UserMoodInsert = {
+          id: mood.id,
+          user_id: userId,
+          mood: mood.mood,
+          intensity: mood.intensity,
+          notes: mood.notes ?? null,
+          recommended_verses: mood.recommendedVerses,
+          logged_at: new Date(mood.loggedAt).toISOString()
+        }
+        const { error } = await supabase
+          .from('user_moods')
+          .upsert(row)
+
+        if (error) throw error
+        await illumineDB.moods.update(operation.entityId, { syncStatus: 'synced' })
+        break
+
+      default:
+        throw new Error(`Unsupported mood operation: ${operation.operation}`)
+    }
+  }
+
+  // One timer, for the operation that comes out of backoff first
+  private scheduleRetry(at: Date | undefined): void {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout)
+      this.retryTimeout = null
+    }
+    if (!at) return
+
+    const retryDelay = Math.max(at.getTime() - Date.now(), 0)
+    console.log(`Scheduling sync retry in ${Math.round(retryDelay / 1000)} seconds`)
+
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null
       if (this.isOnline) {
         this.processSyncQueue()
       }
     }, retryDelay)
-
-    this.retryTimeouts.set(operation.id, timeout)
   }
 
   /**
@@ -661,17 +899,7 @@ export class SyncService {
       throw new Error('Cannot retry while offline')
     }
 
-    // Reset retry count for failed operations
-    const failedOperations = await this.getFailedOperations()
-
-    for (const operation of failedOperations) {
-      await illumineDB.syncQueue.update(operation.id, {
-        retryCount: 0,
-        lastError: undefined,
-        lastErrorTime: undefined
-      })
-    }
-
+    await outboxService.retryFailed()
     return await this.processSyncQueue()
   }
 
@@ -680,34 +908,63 @@ export class SyncService {
   }
 
   /**
-   * Full Sync - Pull all remote data and reconcile with local
+   * Full Sync - Pull remote changes and reconcile with local. Bookmarks, notes and
+   * highlights are pulled from their delta sync cursors; the rest in full.
    */
 
   async performFullSync(userId: string): Promise<{
     bookmarksSync: SyncResult
     notesSync: SyncResult
     highlightsSync: SyncResult
+    readingPlansSync: SyncResult
+    memorizationSync: SyncResult
+    collectionsSync: SyncResult
   }> {
     if (!this.isOnline) {
       throw new Error('Cannot perform full sync while offline')
     }
 
+    // Only the leader tab pulls; the changes it writes reach this tab's store as they land
+    if (!(await tabCoordinator.isLeaderTab())) {
+      const forwarded = this.forwardedResult(await tabCoordinator.forwardToLeader({ kind: 'full', userId }))
+      return {
+        bookmarksSync: forwarded,
+        notesSync: this.forwardedResult(true),
+        highlightsSync: this.forwardedResult(true),
+        readingPlansSync: this.forwardedResult(true),
+        memorizationSync: this.forwardedResult(true),
+        collectionsSync: this.forwardedResult(true)
+      }
+    }
+
     const results = {
       bookmarksSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult,
       notesSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult,
-      highlightsSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult
+      highlightsSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult,
+      readingPlansSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult,
+      memorizationSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult,
+      collectionsSync: { success: true, operationsProcessed: 0, operationsFailed: 0, conflicts: [], errors: [] } as SyncResult
     }
 
     try {
       // Sync bookmarks
       results.bookmarksSync = await this.syncRemoteBookmarks(userId)
 
-      // Sync notes
+      // Sync notebooks, then the notes in them
       results.notesSync = await this.syncRemoteNotes(userId)
 
       // Sync highlights
       results.highlightsSync = await this.syncRemoteHighlights(userId)
 
+      // Sync reading plan enrollments and progress
+      results.readingPlansSync = await this.syncRemoteReadingPlans(userId)
+
+      // Sync memorization cards and review log
+      results.memorizationSync = await this.syncRemoteMemorization(userId)
+
+      // Sync verse collections and the verses in them
+      results.collectionsSync = await this.syncRemoteCollections(userId)
+
       // Process any pending local operations
       const localSyncResult = await this.processSyncQueue()
 
@@ -735,31 +992,64 @@ export class SyncService {
     }
 
     try {
-      const { data: remoteBookmarks, error } = await supabase
-        .from('bookmarks')
-        .select('*')
-        .eq('user_id', userId)
+      this.countPulled(result, await deltaSyncService.pullTable(userId, 'bookmarks'))
+    } catch (error) {
+      result.success = false
+      result.errors.push(error as Error)
+    }
+
+    return result
+  }
+
+  private async syncRemoteNotes(userId: string): Promise<SyncResult> {
+    const result: SyncResult = {
+      success: true,
+      operationsProcessed: 0,
+      operationsFailed: 0,
+      conflicts: [],
+      errors: []
+    }
 
-      if (error) throw error
+    try {
+      const [
+        { data: remoteNotebooks, error: notebooksError },
+        { data: remoteRevisions, error: revisionsError }
+      ] = await Promise.all([
+        supabase.from('note_notebooks').select('*').eq('user_id', userId),
+        supabase.from('note_revisions').select('*').eq('user_id', userId)
+      ])
+
+      if (notebooksError) throw notebooksError
+      if (revisionsError) throw revisionsError
+
+      const remoteNotebookIds = new Set<string>()
+      for (const remoteNotebook of remoteNotebooks || []) {
+        remoteNotebookIds.add(remoteNotebook.id)
+        const localNotebook = await illumineDB.notebooks.get(remoteNotebook.id)
+
+        if (!localNotebook || (localNotebook.syncStatus === 'synced' && new Date(remoteNotebook.updated_at) > localNotebook.updatedAt)) {
+          await illumineDB.notebooks.put(DataTransformers.transformNotebook(remoteNotebook))
+          result.operationsProcessed++
+        }
+      }
 
-      const localBookmarks = await illumineDB.bookmarks.where('userId').equals(userId).toArray()
-      const localBookmarkMap = new Map(localBookmarks.map(b => [`${b.book}-${b.chapter}-${b.verse}`, b]))
+      // Synced notebooks missing remotely were deleted on another device
+      const deletedNotebookIds = (await illumineDB.notebooks.where('userId').equals(userId).toArray())
+        .filter(notebook => notebook.syncStatus === 'synced' && !remoteNotebookIds.has(notebook.id))
+        .map(notebook => notebook.id)
+      if (deletedNotebookIds.length > 0) {
+        await illumineDB.notebooks.bulkDelete(deletedNotebookIds)
+        await illumineDB.notes.where('notebookId').anyOf(deletedNotebookIds).modify({ notebookId: null })
+        result.operationsProcessed += deletedNotebookIds.length
+      }
 
-      for (const remoteBookmark of remoteBookmarks || []) {
-        const key = `${remoteBookmark.book}-${remoteBookmark.chapter}-${remoteBookmark.verse}`
-        const localBookmark = localBookmarkMap.get(key)
+      // Notes changed or deleted since the last sync
+      this.countPulled(result, await deltaSyncService.pullTable(userId, 'notes'))
 
-        if (!localBookmark) {
-          // Remote bookmark doesn't exist locally, add it
-          await illumineDB.bookmarks.put({
-            id: `remote_${remoteBookmark.id}`,
-            userId: remoteBookmark.user_id,
-            book: remoteBookmark.book,
-            chapter: remoteBookmark.chapter,
-            verse: remoteBookmark.verse,
-            createdAt: new Date(remoteBookmark.created_at),
-            syncStatus: 'synced'
-          })
+      // Revisions are append-only, so only new ones need pulling
+      for (const remoteRevision of remoteRevisions || []) {
+        if (!(await illumineDB.noteRevisions.get(remoteRevision.id))) {
+          await illumineDB.noteRevisions.put(DataTransformers.transformNoteRevision(remoteRevision))
           result.operationsProcessed++
         }
       }
@@ -772,7 +1062,7 @@ export class SyncService {
     return result
   }
 
-  private async syncRemoteNotes(userId: string): Promise<SyncResult> {
+  private async syncRemoteHighlights(userId: string): Promise<SyncResult> {
     const result: SyncResult = {
       success: true,
       operationsProcessed: 0,
@@ -782,39 +1072,105 @@ export class SyncService {
     }
 
     try {
-      const { data: remoteNotes, error } = await supabase
-        .from('notes')
+      const { data: remoteCategories, error: categoriesError } = await supabase
+        .from('highlight_categories')
         .select('*')
         .eq('user_id', userId)
 
-      if (error) throw error
-
-      const localNotes = await illumineDB.notes.where('userId').equals(userId).toArray()
-      const localNoteMap = new Map(localNotes.map(n => [`${n.book}-${n.chapter}-${n.verse}`, n]))
-
-      for (const remoteNote of remoteNotes || []) {
-        const key = `${remoteNote.book}-${remoteNote.chapter}-${remoteNote.verse}`
-        const localNote = localNoteMap.get(key)
-
-        if (!localNote) {
-          // Remote note doesn't exist locally, add it
-          await illumineDB.notes.put({
-            id: `remote_${remoteNote.id}`,
-            userId: remoteNote.user_id,
-            book: remoteNote.book,
-            chapter: remoteNote.chapter,
-            verse: remoteNote.verse,
-            content: remoteNote.content,
-            createdAt: new Date(remoteNote.created_at),
-            updatedAt: new Date(remoteNote.updated_at),
+      if (categoriesError) throw categoriesError
+
+      const remoteCategoryIds = new Set<string>()
+      for (const remoteCategory of remoteCategories || []) {
+        remoteCategoryIds.add(remoteCategory.id)
+        const localCategory = await illumineDB.highlightCategories.get(remoteCategory.id)
+
+        if (!localCategory || (localCategory.syncStatus === 'synced' && new Date(remoteCategory.updated_at) > localCategory.updatedAt)) {
+          await illumineDB.highlightCategories.put(DataTransformers.transformHighlightCategory(remoteCategory))
+          result.operationsProcessed++
+        }
+      }
+
+      // Synced categories missing remotely were deleted on another device
+      const deletedCategoryIds = (await illumineDB.highlightCategories.where('userId').equals(userId).toArray())
+        .filter(category => category.syncStatus === 'synced' && !remoteCategoryIds.has(category.id))
+        .map(category => category.id)
+      if (deletedCategoryIds.length > 0) {
+        await illumineDB.highlightCategories.bulkDelete(deletedCategoryIds)
+        await illumineDB.highlights.where('categoryId').anyOf(deletedCategoryIds).modify({ categoryId: null })
+        result.operationsProcessed += deletedCategoryIds.length
+      }
+
+      // Highlights changed or deleted since the last sync, after the categories they're filed in
+      this.countPulled(result, await deltaSyncService.pullTable(userId, 'highlights'))
+
+    } catch (error) {
+      result.success = false
+      result.errors.push(error as Error)
+    }
+
+    return result
+  }
+
+  private countPulled(result: SyncResult, pulled: DeltaPullResult): void {
+    result.operationsProcessed += pulled.applied + pulled.deleted
+  }
+
+  private async syncRemoteReadingPlans(userId: string): Promise<SyncResult> {
+    const result: SyncResult = {
+      success: true,
+      operationsProcessed: 0,
+      operationsFailed: 0,
+      conflicts: [],
+      errors: []
+    }
+
+    try {
+      const [{ data: remoteEnrollments, error: enrollmentsError }, { data: remoteProgress, error: progressError }] =
+        await Promise.all([
+          supabase.from('reading_plan_enrollments').select('*').eq('user_id', userId),
+          supabase.from('reading_plan_progress').select('*').eq('user_id', userId)
+        ])
+
+      if (enrollmentsError) throw enrollmentsError
+      if (progressError) throw progressError
+
+      for (const remote of remoteEnrollments || []) {
+        const local = await illumineDB.readingPlanEnrollments.get(remote.id)
+        const remoteUpdatedAt = new Date(remote.updated_at)
+
+        // Only overwrite local rows that have no unsynced changes
+        if (!local || (local.syncStatus === 'synced' && remoteUpdatedAt > local.updatedAt)) {
+          await illumineDB.readingPlanEnrollments.put({
+            id: remote.id,
+            userId: remote.user_id,
+            planId: remote.plan_id,
+            startDate: new Date(remote.start_date),
+            status: remote.status,
+            customPlan: remote.custom_plan ?? undefined,
+            catchUp: remote.catch_up,
+            pausedAt: remote.paused_at ? new Date(remote.paused_at) : null,
+            completedAt: remote.completed_at ? new Date(remote.completed_at) : null,
+            createdAt: new Date(remote.created_at),
+            updatedAt: remoteUpdatedAt,
             syncStatus: 'synced'
           })
           result.operationsProcessed++
-        } else if (new Date(remoteNote.updated_at) > localNote.updatedAt && localNote.syncStatus === 'synced') {
-          // Remote note is newer and local is synced, update local
-          await illumineDB.notes.update(localNote.id, {
-            content: remoteNote.content,
-            updatedAt: new Date(remoteNote.updated_at),
+        }
+      }
+
+      for (const remote of remoteProgress || []) {
+        const local = await illumineDB.readingPlanProgress.get(remote.id)
+        const remoteUpdatedAt = new Date(remote.updated_at)
+
+        if (!local || (local.syncStatus === 'synced' && remoteUpdatedAt > local.updatedAt)) {
+          await illumineDB.readingPlanProgress.put({
+            id: remote.id,
+            enrollmentId: remote.enrollment_id,
+            userId: remote.user_id,
+            day: remote.day,
+            completedChapters: remote.completed_chapters,
+            completedAt: remote.completed_at ? new Date(remote.completed_at) : null,
+            updatedAt: remoteUpdatedAt,
             syncStatus: 'synced'
           })
           result.operationsProcessed++
@@ -829,7 +1185,63 @@ export class SyncService {
     return result
   }
 
-  private async syncRemoteHighlights(userId: string): Promise<SyncResult> {
+  private async syncRemoteMemorization(userId: string): Promise<SyncResult> {
+    const result: SyncResult = {
+      success: true,
+      operationsProcessed: 0,
+      operationsFailed: 0,
+      conflicts: [],
+      errors: []
+    }
+
+    try {
+      const [{ data: remoteCards, error: cardsError }, { data: remoteReviews, error: reviewsError }] =
+        await Promise.all([
+          supabase.from('memorization_cards').select('*').eq('user_id', userId),
+          supabase.from('memorization_reviews').select('*').eq('user_id', userId)
+        ])
+
+      if (cardsError) throw cardsError
+      if (reviewsError) throw reviewsError
+
+      const remoteCardIds = new Set<string>()
+      for (const remote of remoteCards || []) {
+        remoteCardIds.add(remote.id)
+        const local = await illumineDB.memorizationCards.get(remote.id)
+
+        // Only overwrite local cards that have no unsynced reviews
+        if (!local || (local.syncStatus === 'synced' && new Date(remote.updated_at) > local.updatedAt)) {
+          await illumineDB.memorizationCards.put(DataTransformers.transformMemorizationCard(remote))
+          result.operationsProcessed++
+        }
+      }
+
+      // Synced cards missing remotely were deleted on another device
+      const deletedIds = (await illumineDB.memorizationCards.where('userId').equals(userId).toArray())
+        .filter(card => card.syncStatus === 'synced' && !remoteCardIds.has(card.id))
+        .map(card => card.id)
+      if (deletedIds.length > 0) {
+        await illumineDB.memorizationReviews.where('cardId').anyOf(deletedIds).delete()
+        await illumineDB.memorizationCards.bulkDelete(deletedIds)
+        result.operationsProcessed += deletedIds.length
+      }
+
+      for (const remote of remoteReviews || []) {
+        if (!(await illumineDB.memorizationReviews.get(remote.id))) {
+          await illumineDB.memorizationReviews.put(DataTransformers.transformMemorizationReview(remote))
+          result.operationsProcessed++
+        }
+      }
+
+    } catch (error) {
+      result.success = false
+      result.errors.push(error as Error)
+    }
+
+    return result
+  }
+
+  private async syncRemoteCollections(userId: string): Promise<SyncResult> {
     const result: SyncResult = {
       success: true,
       operationsProcessed: 0,
@@ -839,40 +1251,59 @@ export class SyncService {
     }
 
     try {
-      const { data: remoteHighlights, error } = await supabase
-        .from('highlights')
+      const { data: remoteCollections, error: collectionsError } = await supabase
+        .from('verse_collections')
         .select('*')
         .eq('user_id', userId)
 
-      if (error) throw error
-
-      const localHighlights = await illumineDB.highlights.where('userId').equals(userId).toArray()
-      const localHighlightMap = new Map(localHighlights.map(h =>
-        [`${h.book}-${h.chapter}-${h.verse}-${h.colorHex}`, h]
-      ))
-
-      for (const remoteHighlight of remoteHighlights || []) {
-        const key = `${remoteHighlight.book}-${remoteHighlight.chapter}-${remoteHighlight.verse}-${remoteHighlight.color_hex}`
-        const localHighlight = localHighlightMap.get(key)
-
-        if (!localHighlight) {
-          // Remote highlight doesn't exist locally, add it
-          await illumineDB.highlights.put({
-            id: `remote_${remoteHighlight.id}`,
-            userId: remoteHighlight.user_id,
-            book: remoteHighlight.book,
-            chapter: remoteHighlight.chapter,
-            verse: remoteHighlight.verse,
-            colorHex: remoteHighlight.color_hex,
-            startOffset: remoteHighlight.start_offset,
-            endOffset: remoteHighlight.end_offset,
-            createdAt: new Date(remoteHighlight.created_at),
-            syncStatus: 'synced'
-          })
+      if (collectionsError) throw collectionsError
+
+      const remoteCollectionIds = (remoteCollections || []).map(remote => remote.id)
+      const { data: remoteVerses, error: versesError } = remoteCollectionIds.length > 0
+        ? await supabase.from('collection_verses').select('*').in('collection_id', remoteCollectionIds)
+        : { data: [], error: null }
+
+      if (versesError) throw versesError
+
+      for (const remote of remoteCollections || []) {
+        const local = await illumineDB.verseCollections.get(remote.id)
+
+        if (!local || (local.syncStatus === 'synced' && new Date(remote.updated_at) > local.updatedAt)) {
+          await illumineDB.verseCollections.put(DataTransformers.transformVerseCollection(remote))
+          result.operationsProcessed++
+        }
+      }
+
+      // Synced collections missing remotely were deleted on another device
+      const deletedIds = (await illumineDB.verseCollections.where('userId').equals(userId).toArray())
+        .filter(collection => collection.syncStatus === 'synced' && !remoteCollectionIds.includes(collection.id))
+        .map(collection => collection.id)
+      if (deletedIds.length > 0) {
+        await illumineDB.collectionVerses.where('collectionId').anyOf(deletedIds).delete()
+        await illumineDB.verseCollections.bulkDelete(deletedIds)
+        result.operationsProcessed += deletedIds.length
+      }
+
+      const remoteVerseIds = new Set<string>()
+      for (const remote of remoteVerses || []) {
+        remoteVerseIds.add(remote.id)
+        const local = await illumineDB.collectionVerses.get(remote.id)
+
+        // Verses moved or edited here keep their local position until it is synced
+        if (!local || (local.syncStatus === 'synced' && new Date(remote.updated_at) > local.updatedAt)) {
+          await illumineDB.collectionVerses.put(DataTransformers.transformCollectionVerse(remote))
           result.operationsProcessed++
         }
       }
 
+      const removedVerseIds = (await illumineDB.collectionVerses.where('collectionId').anyOf(remoteCollectionIds).toArray())
+        .filter(verse => verse.syncStatus === 'synced' && !remoteVerseIds.has(verse.id))
+        .map(verse => verse.id)
+      if (removedVerseIds.length > 0) {
+        await illumineDB.collectionVerses.bulkDelete(removedVerseIds)
+        result.operationsProcessed += removedVerseIds.length
+      }
+
     } catch (error) {
       result.success = false
       result.errors.push(error as Error)
@@ -891,6 +1322,11 @@ export class SyncService {
       throw new Error(`Operation ${conflict.operationId} not found`)
     }
 
+    // Both sides of a note conflict stay in its history, whichever one the note keeps
+    if (conflict.entityType === 'note' && resolution.strategy !== 'manual') {
+      await this.preserveNoteConflict(conflict)
+    }
+
     switch (resolution.strategy) {
       case 'local':
         // Keep local changes, force sync to server
@@ -914,12 +1350,40 @@ export class SyncService {
         break
 
       case 'manual':
-        // Keep in queue for manual resolution later
-        console.log(`Conflict marked for manual resolution:`, conflict)
+        // Keep in queue until it is resolved in the conflict center
+        await this.recordConflict(conflict)
         break
     }
   }
 
+  /**
+   * Unresolved conflicts, oldest first, leaving out any whose operation is no
+   * longer queued
+   */
+  async getUnresolvedConflicts(): Promise<SyncConflict[]> {
+    const conflicts = await illumineDB.syncConflicts.orderBy('timestamp').toArray()
+    const operations = await illumineDB.syncQueue.bulkGet(conflicts.map(conflict => conflict.operationId))
+    return conflicts.filter((_, index) => operations[index])
+  }
+
+  // Each sync finds the conflict again; keep the newest server copy but the first time it was seen
+  private async recordConflict(conflict: SyncConflict): Promise<void> {
+    const existing = await illumineDB.syncConflicts.get(conflict.operationId)
+    await illumineDB.syncConflicts.put({ ...conflict, timestamp: existing?.timestamp ?? conflict.timestamp })
+  }
+
+  private async preserveNoteConflict(conflict: SyncConflict): Promise<void> {
+    if (!conflict.localData || !conflict.remoteData) return
+
+    const revisions = await noteRevisionService.recordConflict(
+      { id: conflict.entityId, userId: conflict.localData.userId, content: conflict.localData.content },
+      conflict.remoteData.content
+    )
+    for (const revision of revisions) {
+      await this.queueOperation('create', 'note_revision', revision.id, revision)
+    }
+  }
+
   private async forceSync(operation: StoredSyncOperation): Promise<void> {
     // Force sync by temporarily disabling conflict detection
     const originalData = operation.data
@@ -944,9 +1408,9 @@ export class SyncService {
         break
 
       case 'note':
-        await illumineDB.notes.update(conflict.entityId, {
-          ...conflict.remoteData,
-          syncStatus: 'synced'
+        await illumineDB.notes.put({
+          ...DataTransformers.transformNote(conflict.remoteData),
+          id: conflict.entityId
         })
         break
 
@@ -956,6 +1420,15 @@ export class SyncService {
           syncStatus: 'synced'
         })
         break
+
+      case 'memorization_card':
+        if (conflict.remoteData) {
+          await illumineDB.memorizationCards.put(DataTransformers.transformMemorizationCard(conflict.remoteData))
+        } else {
+          await illumineDB.memorizationReviews.where('cardId').equals(conflict.entityId).delete()
+          await illumineDB.memorizationCards.delete(conflict.entityId)
+        }
+        break
     }
   }
 
@@ -975,6 +1448,10 @@ export class SyncService {
 
         // Queue new sync operation for merged data
         await this.queueOperation('update', 'note', conflict.entityId, mergedNote)
+
+        // The merge joins the two sibling revisions
+        const mergedRevision = await noteRevisionService.recordRevision({ ...mergedNote, id: conflict.entityId })
+        await this.queueOperation('create', 'note_revision', mergedRevision.id, mergedRevision)
         break
 
       default:
@@ -1007,6 +1484,10 @@ export class SyncService {
   }
 
   private async getAutoResolutionStrategy(conflict: SyncConflict): Promise<ConflictResolution | null> {
+    if (conflict.entityType === 'memorization_card') {
+      return this.getMemorizationResolution(conflict)
+    }
+
     switch (conflict.conflictType) {
       case 'create_conflict':
         // For create conflicts, usually keep the existing remote data
@@ -1053,6 +1534,29 @@ export class SyncService {
     return null
   }
 
+  /**
+   * A card deleted on another device stays deleted. Otherwise the most recent
+   * review sets the schedule; the other device's review is still kept in the log.
+   */
+  private getMemorizationResolution(conflict: SyncConflict): ConflictResolution {
+    if (!conflict.remoteData) {
+      return { strategy: 'remote' }
+    }
+
+    const localReviewedAt = conflict.localData.lastReviewedAt ? new Date(conflict.localData.lastReviewedAt) : null
+    const remoteReviewedAt = conflict.remoteData.last_reviewed_at ? new Date(conflict.remoteData.last_reviewed_at) : null
+
+    if (localReviewedAt && (!remoteReviewedAt || localReviewedAt > remoteReviewedAt)) {
+      return { strategy: 'local' }
+    }
+    // Passage chunks only ever unlock, so keep an unlock the remote copy hasn't seen yet
+    if (!conflict.localData.locked && conflict.remoteData.locked &&
+      localReviewedAt?.getTime() === remoteReviewedAt?.getTime()) {
+      return { strategy: 'local' }
+    }
+    return { strategy: 'remote' }
+  }
+
   /**
    * Sync Listeners and Notifications
    */
@@ -1090,49 +1594,17 @@ export class SyncService {
     lastSuccessfulSync?: Date
     nextRetryTime?: Date
   }> {
-    const [pendingCount, failedCount] = await Promise.all([
-      illumineDB.syncQueue.where('retryCount').below(3).count(),
-      illumineDB.syncQueue.where('retryCount').aboveOrEqual(3).count()
-    ])
-
-    const lastOperation = await illumineDB.syncQueue
-      .orderBy('timestamp')
-      .reverse()
-      .first()
-
-    const lastSuccessfulOperation = await illumineDB.syncQueue
-      .where('retryCount')
-      .equals(0)
-      .reverse()
-      .sortBy('timestamp')
-      .then(ops => ops[0])
-
-    // Calculate next retry time
-    let nextRetryTime: Date | undefined
-    const nextRetryOperation = await illumineDB.syncQueue
-      .where('retryCount')
-      .above(0)
-      .and(op => op.retryCount < op.maxRetries)
-      .first()
-
-    if (nextRetryOperation && nextRetryOperation.lastErrorTime) {
-      const baseDelay = 1000
-      const exponentialDelay = Math.min(
-        baseDelay * Math.pow(2, nextRetryOperation.retryCount),
-        300000
-      )
-      nextRetryTime = new Date(nextRetryOperation.lastErrorTime.getTime() + exponentialDelay)
-    }
+    const status = await outboxService.getStatus()
 
     return {
       isOnline: this.isOnline,
       syncInProgress: this.syncInProgress,
-      pendingOperations: pendingCount,
-      failedOperations: failedCount,
-      conflictOperations: failedCount, // Failed operations are treated as conflicts
-      lastSyncAttempt: lastOperation?.timestamp,
-      lastSuccessfulSync: lastSuccessfulOperation?.timestamp,
-      nextRetryTime
+      pendingOperations: status.pending + status.retrying,
+      failedOperations: status.failed,
+      conflictOperations: status.conflicts,
+      lastSyncAttempt: this.lastSyncAttempt,
+      lastSuccessfulSync: this.lastSuccessfulSync,
+      nextRetryTime: status.nextRetryAt
     }
   }
 
@@ -1145,24 +1617,16 @@ export class SyncService {
     }
     averageRetryCount: number
   }> {
-    const allOperations = await illumineDB.syncQueue.toArray()
-
-    const operationsByType = allOperations.reduce((acc, op) => {
-      acc[op.entityType] = (acc[op.entityType] || 0) + 1
-      return acc
-    }, {} as Record<string, number>)
-
-    const pending = allOperations.filter(op => op.retryCount < op.maxRetries).length
-    const failed = allOperations.filter(op => op.retryCount >= op.maxRetries).length
+    const [status, queue] = await Promise.all([outboxService.getStatus(), outboxService.getQueue()])
 
-    const averageRetryCount = allOperations.length > 0
-      ? allOperations.reduce((sum, op) => sum + op.retryCount, 0) / allOperations.length
+    const averageRetryCount = queue.length > 0
+      ? queue.reduce((sum, op) => sum + op.retryCount, 0) / queue.length
       : 0
 
     return {
-      totalOperations: allOperations.length,
-      operationsByType,
-      operationsByStatus: { pending, failed },
+      totalOperations: status.total,
+      operationsByType: status.byEntity,
+      operationsByStatus: { pending: status.total - status.failed, failed: status.failed },
       averageRetryCount
     }
   }
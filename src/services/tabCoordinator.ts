@@ -0,0 +1,262 @@
+/**
+ * Tab Coordinator
+ * Keeps open tabs from syncing the same queue twice. One tab is elected leader with a
+ * Web Lock and does all the syncing; the others forward their sync requests to it over
+ * a BroadcastChannel. Tabs also tell each other which user tables they changed, so
+ * every tab shows the same data without a reload.
+ */
+
+import type { TabMessage, TabRole, TabSyncKind, TabSyncRequest } from '@/types/tabCoordination'
+
+const FORWARD_TIMEOUT = 60000 // a leader that hasn't answered by then has closed or hung
+const CHANGE_FLUSH_DELAY = 50 // writes from one transaction go out as one message
+
+type SyncRequestHandler<K extends TabSyncKind> = (request: Extract<TabSyncRequest, { kind: K }>) => Promise<boolean>
+
+interface PendingRequest {
+  resolve: (success: boolean) => void
+  timeout: ReturnType<typeof setTimeout>
+}
+
+export class TabCoordinator {
+  readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+  private role: TabRole | null = null
+  private elected: Promise<TabRole>
+  private channel: BroadcastChannel | null = null
+  private handlers = new Map<TabSyncKind, (request: TabSyncRequest) => Promise<boolean>>()
+  private pendingRequests = new Map<string, PendingRequest>()
+  private roleListeners = new Set<(role: TabRole) => void>()
+  private changeListeners = new Set<(tables: string[]) => void>()
+  private changedTables = new Set<string>()
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null
+  private releaseLock: (() => void) | null = null
+  private closed = false
+  private leaderLock: string
+
+  // Tabs with the same name coordinate with each other
+  constructor(name = 'illumine') {
+    this.leaderLock = `${name}-sync-leader`
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`${name}-tabs`)
+      this.channel.onmessage = event => this.handleMessage(event.data as TabMessage)
+    }
+
+    this.elected = this.elect()
+  }
+
+  /**
+   * Leader Election
+   */
+
+  get isLeader(): boolean {
+    return this.role === 'leader'
+  }
+
+  // Whether this tab syncs, once the first election has settled
+  async isLeaderTab(): Promise<boolean> {
+    await this.elected
+    return this.isLeader
+  }
+
+  onRoleChange(callback: (role: TabRole) => void): () => void {
+    this.roleListeners.add(callback)
+    return () => {
+      this.roleListeners.delete(callback)
+    }
+  }
+
+  private elect(): Promise<TabRole> {
+    // Tabs can't agree or talk without both APIs, so each one syncs for itself
+    if (!this.channel || typeof navigator === 'undefined' || !navigator.locks) {
+      this.setRole('leader')
+      return Promise.resolve('leader')
+    }
+
+    return new Promise(resolve => {
+      navigator.locks.request(this.leaderLock, { ifAvailable: true }, async lock => {
+        if (!lock) {
+          this.setRole('follower')
+          resolve('follower')
+          this.awaitLeadership()
+          return
+        }
+
+        this.setRole('leader')
+        resolve('leader')
+        await this.holdLock()
+      })
+    })
+  }
+
+  // The lock is granted to the next waiting tab when the leader's tab closes
+  private awaitLeadership(): void {
+    navigator.locks.request(this.leaderLock, async () => {
+      if (this.closed) return
+      this.setRole('leader')
+      await this.holdLock()
+    })
+  }
+
+  // The lock is held as long as the callback runs, i.e. until the tab closes
+  private holdLock(): Promise<void> {
+    return new Promise(resolve => {
+      this.releaseLock = resolve
+    })
+  }
+
+  private setRole(role: TabRole): void {
+    if (this.role === role) return
+    this.role = role
+
+    this.roleListeners.forEach(callback => {
+      try {
+        callback(role)
+      } catch (error) {
+        console.error('Error in tab role listener:', error)
+      }
+    })
+  }
+
+  /**
+   * Sync Requests
+   */
+
+  // Run by the leader for requests of this kind from any tab
+  handleSyncRequests<K extends TabSyncKind>(kind: K, handler: SyncRequestHandler<K>): void {
+    this.handlers.set(kind, handler as (request: TabSyncRequest) => Promise<boolean>)
+  }
+
+  /**
+   * Ask the leader to do a sync. Resolves with whether it succeeded, or false if no
+   * leader answered in time.
+   */
+  forwardToLeader(request: TabSyncRequest): Promise<boolean> {
+    const channel = this.channel
+    if (!channel) return Promise.resolve(false)
+
+    const requestId = `${this.tabId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(requestId)
+        resolve(false)
+      }, FORWARD_TIMEOUT)
+
+      this.pendingRequests.set(requestId, { resolve, timeout })
+      this.post({ type: 'sync-request', requestId, from: this.tabId, request })
+    })
+  }
+
+  private async runSyncRequest(request: TabSyncRequest): Promise<boolean> {
+    const handler = this.handlers.get(request.kind)
+    if (!handler) return false
+
+    try {
+      return await handler(request)
+    } catch (error) {
+      console.error(`Failed to run ${request.kind} sync for another tab:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Change Broadcasting
+   */
+
+  // Record a write to a user table; other tabs hear about it shortly after
+  noteChange(table: string): void {
+    if (!this.channel) return
+
+    this.changedTables.add(table)
+    this.flushTimeout ??= setTimeout(() => this.flushChanges(), CHANGE_FLUSH_DELAY)
+  }
+
+  // Tables another tab changed
+  onRemoteChange(callback: (tables: string[]) => void): () => void {
+    this.changeListeners.add(callback)
+    return () => {
+      this.changeListeners.delete(callback)
+    }
+  }
+
+  private flushChanges(): void {
+    this.flushTimeout = null
+    if (this.changedTables.size === 0) return
+
+    this.post({ type: 'changed', from: this.tabId, tables: [...this.changedTables] })
+    this.changedTables.clear()
+  }
+
+  /**
+   * Stop coordinating, e.g. when the tab is being closed: leadership passes to another
+   * tab and this one no longer hears from the others
+   */
+  close(): void {
+    this.closed = true
+    this.releaseLock?.()
+    this.releaseLock = null
+    this.role = null
+
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout)
+      this.flushTimeout = null
+    }
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timeout)
+      pending.resolve(false)
+    })
+    this.pendingRequests.clear()
+
+    this.channel?.close()
+    this.channel = null
+  }
+
+  /**
+   * Messaging
+   */
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message)
+    } catch (error) {
+      console.error('Failed to message other tabs:', error)
+    }
+  }
+
+  private handleMessage(message: TabMessage): void {
+    switch (message.type) {
+      case 'sync-request':
+        // Only the leader answers; followers ignore each other's requests
+        if (!this.isLeader) return
+        this.runSyncRequest(message.request).then(success => {
+          this.post({ type: 'sync-done', requestId: message.requestId, to: message.from, success })
+        })
+        break
+
+      case 'sync-done': {
+        if (message.to !== this.tabId) return
+        const pending = this.pendingRequests.get(message.requestId)
+        if (!pending) return
+
+        clearTimeout(pending.timeout)
+        this.pendingRequests.delete(message.requestId)
+        pending.resolve(message.success)
+        break
+      }
+
+      case 'changed':
+        this.changeListeners.forEach(callback => {
+          try {
+            callback(message.tables)
+          } catch (error) {
+            console.error('Error in tab change listener:', error)
+          }
+        })
+        break
+    }
+  }
+}
+
+export const tabCoordinator = new TabCoordinator()
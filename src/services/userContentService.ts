@@ -1,6 +1,7 @@
 import { illumineDB, type StoredBookmark, type StoredNote, type StoredHighlight } from './indexedDB'
-import type { Bookmark, Note, Highlight, SyncStatus, UserProfile, UserPreferences } from '@/types'
+import type { Bookmark, Note, Notebook, Highlight, SyncStatus, UserProfile, UserPreferences } from '@/types'
 import { supabase } from './supabase'
+import { getNoteScope, noteCoversVerse, noteOverlapsChapter } from '@/utils/notePassages'
 
 /**
  * Service for managing user-generated content in IndexedDB
@@ -95,14 +96,50 @@ export class UserContentService {
     return await illumineDB.notes.get(id)
   }
 
+  // Notes on the verse and ranges that cover it; chapter notes come from getChapterNotes
   async getNotesForVerse(userId: string, book: string, chapter: number, verse: number): Promise<StoredNote[]> {
     return await illumineDB.notes
-      .where('[book+chapter+verse]')
-      .equals([book, chapter, verse])
-      .and(note => note.userId === userId)
+      .where('book')
+      .equals(book)
+      .and(note =>
+        note.userId === userId &&
+        getNoteScope(note) !== 'chapter' &&
+        noteCoversVerse(note, book, chapter, verse)
+      )
       .sortBy('createdAt')
   }
 
+  async getChapterNotes(userId: string, book: string, chapter: number): Promise<StoredNote[]> {
+    return await illumineDB.notes
+      .where('[book+chapter]')
+      .equals([book, chapter])
+      .and(note => note.userId === userId && getNoteScope(note) === 'chapter')
+      .sortBy('createdAt')
+  }
+
+  async getNotebooks(userId: string): Promise<Notebook[]> {
+    return await illumineDB.notebooks
+      .where('userId')
+      .equals(userId)
+      .sortBy('position')
+  }
+
+  async getNotebookNotes(userId: string, notebookId: string): Promise<StoredNote[]> {
+    return await illumineDB.notes
+      .where('notebookId')
+      .equals(notebookId)
+      .and(note => note.userId === userId)
+      .sortBy('position')
+  }
+
+  async getNotesWithTag(userId: string, tag: string): Promise<StoredNote[]> {
+    return await illumineDB.notes
+      .where('userId')
+      .equals(userId)
+      .and(note => note.tags?.includes(tag) ?? false)
+      .toArray()
+  }
+
   async getAllNotes(userId: string): Promise<StoredNote[]> {
     return await illumineDB.notes
       .where('userId')
@@ -239,7 +276,7 @@ export class UserContentService {
       illumineDB.notes
         .where('book')
         .equals(book)
-        .and(note => note.userId === userId && note.chapter === chapter)
+        .and(note => note.userId === userId && noteOverlapsChapter(note, book, chapter))
         .sortBy('verse'),
       illumineDB.highlights
         .where('book')
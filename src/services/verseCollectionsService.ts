@@ -1,80 +1,116 @@
 /**
  * Verse Collections Service
- * Manages custom verse collections and tags
+ * Manages custom verse collections and tags.
+ * The user's collections live in IndexedDB and are queued through the sync service;
+ * other users' public collections are read from Supabase when online.
  */
 
 import { supabase } from '@/services/supabase'
+import { illumineDB } from '@/services/indexedDB'
+import { syncService } from '@/services/syncService'
+import { userContentService } from '@/services/userContentService'
+import { bibleContentService } from '@/services/bibleContentService'
 import type {
   VerseCollection,
   CollectionVerse,
+  CollectionBundle,
+  CollectionSection,
   CollectionStats,
-  CollectionActivity
+  CollectionWithVerses,
+  SmartCollectionRule
 } from '@/types/personalization'
+import type { SearchResult } from '@/types'
+import { DataTransformers } from '@/utils/transformers'
+import { evaluateSmartRule, formatMatchReference, getRuleScopeBooks } from '@/utils/smartCollections'
+import {
+  createCollectionBundle,
+  encodeCollectionBundle,
+  moveCollectionSection,
+  moveCollectionVerse,
+  orderCollectionVerses,
+  releaseSectionVerses,
+  renumberCollectionVerses
+} from '@/utils/verseCollections'
+
+type CollectionUpdates = Partial<Pick<VerseCollection, 'name' | 'description' | 'color' | 'icon' | 'tags' | 'isPublic' | 'sections' | 'rule'>>
 
 export class VerseCollectionsService {
   /**
    * Create a new verse collection
    */
   async createCollection(
+    userId: string,
     name: string,
     description?: string,
     color: string = '#2563eb',
     icon: string = '📚',
     tags: string[] = [],
-    isPublic: boolean = false
+    isPublic: boolean = false,
+    sections: CollectionSection[] = [],
+    rule: SmartCollectionRule | null = null
   ): Promise<VerseCollection> {
-    try {
-      const { data, error } = await (supabase as any)
-        .from('verse_collections')
-        .insert({
-          name,
-          description,
-          color,
-          icon,
-          tags,
-          is_public: isPublic
-        })
-        .select()
-        .single()
-
-      if (error) throw error
-      return this.transformCollection(data)
-    } catch (error) {
-      console.error('Failed to create collection:', error)
-      throw error
+    const now = new Date()
+
+    // Ids are generated here so offline collections can be upserted later
+    const collection: VerseCollection = {
+      id: crypto.randomUUID(),
+      userId,
+      name: name.trim(),
+      ...(description?.trim() ? { description: description.trim() } : {}),
+      color,
+      icon,
+      isPublic,
+      tags,
+      sections,
+      ...(rule ? { rule } : {}),
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
     }
+
+    await illumineDB.verseCollections.put(collection)
+    await syncService.queueOperation('create', 'verse_collection', collection.id, collection)
+
+    return { ...collection, verseCount: 0 }
   }
 
   /**
-   * Get all collections for user
+   * Get all collections for user, with other users' public collections when online
    */
-  async getCollections(includePublic: boolean = true): Promise<VerseCollection[]> {
+  async getCollections(userId: string, includePublic: boolean = true): Promise<VerseCollection[]> {
+    const own = await this.getOwnCollections(userId)
+    if (!includePublic || !navigator.onLine) return own
+
     try {
-      let query = supabase
+      const { data, error } = await supabase
         .from('verse_collections')
         .select(`
           *,
           collection_verses(count)
         `)
-
-      if (includePublic) {
-        query = query.or('user_id.eq.' + (await supabase.auth.getUser()).data.user?.id + ',is_public.eq.true')
-      }
-
-      const { data, error } = await query.order('created_at', { ascending: false })
+        .eq('is_public', true)
+        .neq('user_id', userId)
+        .order('created_at', { ascending: false })
 
       if (error) throw error
-      return data.map(this.transformCollectionWithCount)
+      return [...own, ...data.map(row => this.transformCollectionWithCount(row))]
     } catch (error) {
-      console.error('Failed to get collections:', error)
-      return []
+      console.error('Failed to get public collections:', error)
+      return own
     }
   }
 
   /**
-   * Get a specific collection with verses
+   * Get a specific collection with its verses in display order. Collections that
+   * aren't stored locally are someone else's and are read from Supabase.
    */
-  async getCollection(collectionId: string): Promise<VerseCollection & { verses: CollectionVerse[] }> {
+  async getCollection(collectionId: string): Promise<CollectionWithVerses> {
+    const local = await illumineDB.verseCollections.get(collectionId)
+    if (local) {
+      const verses = await illumineDB.collectionVerses.where('collectionId').equals(collectionId).toArray()
+      return { ...local, verseCount: verses.length, verses: orderCollectionVerses(local.sections, verses) }
+    }
+
     try {
       const [collectionResult, versesResult] = await Promise.all([
         supabase
@@ -86,16 +122,15 @@ export class VerseCollectionsService {
           .from('collection_verses')
           .select('*')
           .eq('collection_id', collectionId)
-          .order('added_at', { ascending: false })
       ])
 
       if (collectionResult.error) throw collectionResult.error
       if (versesResult.error) throw versesResult.error
 
-      const collection = this.transformCollection(collectionResult.data)
-      const verses = versesResult.data.map(this.transformCollectionVerse)
+      const collection = DataTransformers.transformVerseCollection(collectionResult.data)
+      const verses = versesResult.data.map(row => DataTransformers.transformCollectionVerse(row))
 
-      return { ...collection, verses }
+      return { ...collection, verseCount: verses.length, verses: orderCollectionVerses(collection.sections, verses) }
     } catch (error) {
       console.error('Failed to get collection:', error)
       throw error
@@ -105,52 +140,37 @@ export class VerseCollectionsService {
   /**
    * Update collection
    */
-  async updateCollection(
-    collectionId: string,
-    updates: Partial<Pick<VerseCollection, 'name' | 'description' | 'color' | 'icon' | 'tags' | 'isPublic'>>
-  ): Promise<VerseCollection> {
-    try {
-      const { data, error } = await supabase
-        .from('verse_collections')
-        .update({
-          name: updates.name,
-          description: updates.description,
-          color: updates.color,
-          icon: updates.icon,
-          tags: updates.tags,
-          is_public: updates.isPublic
-        })
-        .eq('id', collectionId)
-        .select()
-        .single()
+  async updateCollection(collectionId: string, updates: CollectionUpdates): Promise<VerseCollection> {
+    const collection = await this.getOwnCollection(collectionId)
 
-      if (error) throw error
-      return this.transformCollection(data)
-    } catch (error) {
-      console.error('Failed to update collection:', error)
-      throw error
+    const updated: VerseCollection = {
+      ...collection,
+      ...updates,
+      updatedAt: new Date(),
+      syncStatus: 'pending'
     }
+
+    await illumineDB.verseCollections.put(updated)
+    await syncService.queueOperation('update', 'verse_collection', collectionId, updated)
+
+    return updated
   }
 
   /**
    * Delete collection
    */
   async deleteCollection(collectionId: string): Promise<void> {
-    try {
-      const { error } = await supabase
-        .from('verse_collections')
-        .delete()
-        .eq('id', collectionId)
+    await illumineDB.transaction('rw', [illumineDB.verseCollections, illumineDB.collectionVerses], async () => {
+      await illumineDB.verseCollections.delete(collectionId)
+      await illumineDB.collectionVerses.where('collectionId').equals(collectionId).delete()
+    })
 
-      if (error) throw error
-    } catch (error) {
-      console.error('Failed to delete collection:', error)
-      throw error
-    }
+    // The collection's verses are deleted with it on the server
+    await syncService.queueOperation('delete', 'verse_collection', collectionId, null)
   }
 
   /**
-   * Add verse to collection
+   * Add verse to collection, at the end of a section or of the verses without one
    */
   async addVerseToCollection(
     collectionId: string,
@@ -158,45 +178,58 @@ export class VerseCollectionsService {
     verseReference: string,
     bibleVersionId: string,
     verseText: string,
-    notes?: string
+    notes?: string,
+    sectionId: string | null = null
   ): Promise<CollectionVerse> {
-    try {
-      const { data, error } = await supabase
-        .from('collection_verses')
-        .insert({
-          collection_id: collectionId,
-          verse_id: verseId,
-          verse_reference: verseReference,
-          bible_version_id: bibleVersionId,
-          verse_text: verseText,
-          notes
-        })
-        .select()
-        .single()
+    const collection = await this.getOwnCollection(collectionId)
+    const verses = await illumineDB.collectionVerses.where('collectionId').equals(collectionId).toArray()
 
-      if (error) throw error
-      return this.transformCollectionVerse(data)
-    } catch (error) {
-      console.error('Failed to add verse to collection:', error)
-      throw error
+    const existing = verses.find(verse => verse.verseId === verseId && verse.bibleVersionId === bibleVersionId)
+    if (existing) {
+      throw new Error(`${verseReference} is already in this collection`)
     }
+
+    const now = new Date()
+    const collectionVerse: CollectionVerse = {
+      id: crypto.randomUUID(),
+      collectionId,
+      verseId,
+      verseReference,
+      bibleVersionId,
+      verseText,
+      ...(notes?.trim() ? { notes: notes.trim() } : {}),
+      sectionId,
+      position: verses.length,
+      addedAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+
+    // Appending to a section before others shifts the verses after it
+    const inSection = verses.filter(verse => verse.sectionId === sectionId).length
+    const moved = moveCollectionVerse(collection.sections, [...verses, collectionVerse], collectionVerse.id, sectionId, inSection)
+    const placed = moved.find(verse => verse.id === collectionVerse.id) ?? collectionVerse
+
+    await illumineDB.collectionVerses.put(placed)
+    await syncService.queueOperation('create', 'collection_verse', placed.id, placed)
+    await this.saveVerseOrder(moved.filter(verse => verse.id !== placed.id))
+
+    return placed
   }
 
   /**
    * Remove verse from collection
    */
   async removeVerseFromCollection(collectionId: string, verseId: string): Promise<void> {
-    try {
-      const { error } = await supabase
-        .from('collection_verses')
-        .delete()
-        .eq('collection_id', collectionId)
-        .eq('verse_id', verseId)
-
-      if (error) throw error
-    } catch (error) {
-      console.error('Failed to remove verse from collection:', error)
-      throw error
+    const removed = await illumineDB.collectionVerses
+      .where('collectionId')
+      .equals(collectionId)
+      .filter(verse => verse.verseId === verseId)
+      .toArray()
+
+    for (const verse of removed) {
+      await illumineDB.collectionVerses.delete(verse.id)
+      await syncService.queueOperation('delete', 'collection_verse', verse.id, null)
     }
   }
 
@@ -204,126 +237,130 @@ export class VerseCollectionsService {
    * Update verse notes in collection
    */
   async updateVerseNotes(collectionVerseId: string, notes: string): Promise<CollectionVerse> {
-    try {
-      const { data, error } = await supabase
-        .from('collection_verses')
-        .update({ notes })
-        .eq('id', collectionVerseId)
-        .select()
-        .single()
+    const verse = await illumineDB.collectionVerses.get(collectionVerseId)
+    if (!verse) {
+      throw new Error('Collection verse not found')
+    }
 
-      if (error) throw error
-      return this.transformCollectionVerse(data)
-    } catch (error) {
-      console.error('Failed to update verse notes:', error)
-      throw error
+    const updated: CollectionVerse = {
+      ...verse,
+      notes: notes.trim() || undefined,
+      updatedAt: new Date(),
+      syncStatus: 'pending'
     }
+
+    await illumineDB.collectionVerses.put(updated)
+    await syncService.queueOperation('update', 'collection_verse', collectionVerseId, updated)
+
+    return updated
   }
 
   /**
-   * Search collections
+   * Move a verse to a position within a section (null for no section)
    */
-  async searchCollections(query: string, tags?: string[]): Promise<VerseCollection[]> {
-    try {
-      let dbQuery = supabase
-        .from('verse_collections')
-        .select(`
-          *,
-          collection_verses(count)
-        `)
-        .or(`name.ilike.%${query}%,description.ilike.%${query}%`)
+  async moveVerse(collectionVerseId: string, sectionId: string | null, index: number): Promise<CollectionVerse[]> {
+    const verse = await illumineDB.collectionVerses.get(collectionVerseId)
+    if (!verse) {
+      throw new Error('Collection verse not found')
+    }
 
-      if (tags && tags.length > 0) {
-        dbQuery = dbQuery.overlaps('tags', tags)
-      }
+    const collection = await this.getOwnCollection(verse.collectionId)
+    const verses = await illumineDB.collectionVerses.where('collectionId').equals(verse.collectionId).toArray()
 
-      const { data, error } = await dbQuery.order('created_at', { ascending: false })
+    await this.saveVerseOrder(moveCollectionVerse(collection.sections, verses, collectionVerseId, sectionId, index))
+    return this.getOrderedVerses(collection)
+  }
 
-      if (error) throw error
-      return data.map(this.transformCollectionWithCount)
-    } catch (error) {
-      console.error('Failed to search collections:', error)
-      return []
-    }
+  /**
+   * Add a named section at the end of a collection
+   */
+  async addSection(collectionId: string, name: string): Promise<VerseCollection> {
+    const collection = await this.getOwnCollection(collectionId)
+    const section: CollectionSection = { id: crypto.randomUUID(), name: name.trim() }
+
+    return this.updateCollection(collectionId, { sections: [...collection.sections, section] })
+  }
+
+  async renameSection(collectionId: string, sectionId: string, name: string): Promise<VerseCollection> {
+    const collection = await this.getOwnCollection(collectionId)
+
+    return this.updateCollection(collectionId, {
+      sections: collection.sections.map(section => section.id === sectionId ? { ...section, name: name.trim() } : section)
+    })
+  }
+
+  async moveSection(collectionId: string, sectionId: string, index: number): Promise<CollectionWithVerses> {
+    const collection = await this.getOwnCollection(collectionId)
+    const sections = moveCollectionSection(collection.sections, sectionId, index)
+    const verses = await illumineDB.collectionVerses.where('collectionId').equals(collectionId).toArray()
+
+    // Positions follow the display order, so the sections' verses are numbered again
+    const updated = await this.updateCollection(collectionId, { sections })
+    await this.saveVerseOrder(renumberCollectionVerses(sections, verses))
+
+    return { ...updated, verses: await this.getOrderedVerses(updated) }
   }
 
   /**
-   * Get collections containing a specific verse
+   * Remove a section; its verses are kept and moved out of it
    */
-  async getCollectionsWithVerse(verseId: string): Promise<VerseCollection[]> {
-    try {
-      const { data, error } = await supabase
-        .from('verse_collections')
-        .select(`
-          *,
-          collection_verses!inner(verse_id)
-        `)
-        .eq('collection_verses.verse_id', verseId)
+  async removeSection(collectionId: string, sectionId: string): Promise<CollectionWithVerses> {
+    const collection = await this.getOwnCollection(collectionId)
+    const verses = await illumineDB.collectionVerses.where('collectionId').equals(collectionId).toArray()
 
-      if (error) throw error
-      return data.map(this.transformCollection)
-    } catch (error) {
-      console.error('Failed to get collections with verse:', error)
-      return []
-    }
+    await this.saveVerseOrder(releaseSectionVerses(collection.sections, verses, sectionId))
+    const updated = await this.updateCollection(collectionId, {
+      sections: collection.sections.filter(section => section.id !== sectionId)
+    })
+
+    return { ...updated, verses: await this.getOrderedVerses(updated) }
   }
 
   /**
-   * Get collection statistics
+   * Search collections
    */
-  async getCollectionStats(): Promise<CollectionStats> {
-    try {
-      const [collectionsResult, versesResult] = await Promise.all([
-        supabase
-          .from('verse_collections')
-          .select('id, tags')
-          .eq('user_id', (await supabase.auth.getUser()).data.user?.id),
-        supabase
-          .from('collection_verses')
-          .select('id, collection_id')
-          .in('collection_id',
-            supabase
-              .from('verse_collections')
-              .select('id')
-              .eq('user_id', (await supabase.auth.getUser()).data.user?.id)
-          )
-      ])
+  async searchCollections(userId: string, query: string, tags?: string[]): Promise<VerseCollection[]> {
+    const term = query.trim().toLowerCase()
+    const matches = (collection: VerseCollection) =>
+      (!term || collection.name.toLowerCase().includes(term) || (collection.description ?? '').toLowerCase().includes(term)) &&
+      (!tags || tags.length === 0 || collection.tags.some(tag => tags.includes(tag)))
 
-      if (collectionsResult.error) throw collectionsResult.error
-      if (versesResult.error) throw versesResult.error
+    return (await this.getCollections(userId)).filter(matches)
+  }
 
-      // Calculate most used tags
-      const allTags: string[] = []
-      collectionsResult.data.forEach(collection => {
-        if (collection.tags) {
-          allTags.push(...collection.tags)
-        }
-      })
+  /**
+   * Get the user's collections containing a specific verse
+   */
+  async getCollectionsWithVerse(userId: string, verseId: string): Promise<VerseCollection[]> {
+    const collectionIds = new Set(
+      (await illumineDB.collectionVerses.where('verseId').equals(verseId).toArray()).map(verse => verse.collectionId)
+    )
+    return (await this.getOwnCollections(userId)).filter(collection => collectionIds.has(collection.id))
+  }
+
+  /**
+   * Get collection statistics
+   */
+  async getCollectionStats(userId: string): Promise<CollectionStats> {
+    const collections = await this.getOwnCollections(userId)
 
-      const tagCounts: Record<string, number> = {}
-      allTags.forEach(tag => {
+    const tagCounts: Record<string, number> = {}
+    collections.forEach(collection => {
+      collection.tags.forEach(tag => {
         tagCounts[tag] = (tagCounts[tag] || 0) + 1
       })
+    })
 
-      const mostUsedTags = Object.entries(tagCounts)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 10)
-        .map(([tag]) => tag)
+    const mostUsedTags = Object.entries(tagCounts)
+      .sort(([,a], [,b]) => b - a)
+      .slice(0, 10)
+      .map(([tag]) => tag)
 
-      return {
-        totalCollections: collectionsResult.data.length,
-        totalVerses: versesResult.data.length,
-        mostUsedTags,
-        recentActivity: [] // Would implement with activity tracking
-      }
-    } catch (error) {
-      console.error('Failed to get collection stats:', error)
-      return {
-        totalCollections: 0,
-        totalVerses: 0,
-        mostUsedTags: [],
-        recentActivity: []
-      }
+    return {
+      totalCollections: collections.length,
+      totalVerses: collections.reduce((sum, collection) => sum + (collection.verseCount || 0), 0),
+      mostUsedTags,
+      recentActivity: [] // Would implement with activity tracking
     }
   }
 
@@ -343,7 +380,7 @@ export class VerseCollectionsService {
         .limit(limit)
 
       if (error) throw error
-      return data.map(this.transformCollectionWithCount)
+      return data.map(row => this.transformCollectionWithCount(row))
     } catch (error) {
       console.error('Failed to get popular public collections:', error)
       return []
@@ -351,113 +388,189 @@ export class VerseCollectionsService {
   }
 
   /**
-   * Duplicate a public collection
+   * Duplicate a collection, the user's own or a public one
    */
-  async duplicateCollection(sourceCollectionId: string, newName?: string): Promise<VerseCollection> {
-    try {
-      // Get source collection and its verses
-      const sourceCollection = await this.getCollection(sourceCollectionId)
-
-      // Create new collection
-      const newCollection = await this.createCollection(
-        newName || `${sourceCollection.name} (Copy)`,
-        sourceCollection.description,
-        sourceCollection.color,
-        sourceCollection.icon,
-        sourceCollection.tags,
-        false // Always private when duplicating
-      )
-
-      // Add all verses to new collection
-      for (const verse of sourceCollection.verses) {
-        await this.addVerseToCollection(
-          newCollection.id,
-          verse.verseId,
-          verse.verseReference,
-          verse.bibleVersionId,
-          verse.verseText,
-          verse.notes
-        )
-      }
+  async duplicateCollection(userId: string, sourceCollectionId: string, newName?: string): Promise<VerseCollection> {
+    const sourceCollection = await this.getCollection(sourceCollectionId)
+    return this.importCollection(userId, createCollectionBundle(sourceCollection), newName || `${sourceCollection.name} (Copy)`)
+  }
 
-      return newCollection
-    } catch (error) {
-      console.error('Failed to duplicate collection:', error)
-      throw error
+  /**
+   * Export a collection as a bundle another user can import
+   */
+  async exportCollection(collectionId: string): Promise<CollectionBundle> {
+    return createCollectionBundle(await this.getCollection(collectionId))
+  }
+
+  /**
+   * A read-only link to a collection. The bundle rides in the URL fragment, so the
+   * link works without publishing the collection.
+   */
+  async getShareLink(collectionId: string): Promise<string> {
+    const bundle = await this.exportCollection(collectionId)
+    return `${window.location.origin}/personalization#collection=${encodeCollectionBundle(bundle)}`
+  }
+
+  /**
+   * Import a bundle as a new private collection with its own ids, keeping the
+   * sections, verse order and notes
+   */
+  async importCollection(userId: string, bundle: CollectionBundle, name?: string): Promise<VerseCollection> {
+    const sectionIds = new Map(bundle.collection.sections.map(section => [section.id, crypto.randomUUID()]))
+    const sections = bundle.collection.sections.map(section => ({ id: sectionIds.get(section.id)!, name: section.name }))
+
+    const collection = await this.createCollection(
+      userId,
+      name || bundle.collection.name,
+      bundle.collection.description,
+      bundle.collection.color,
+      bundle.collection.icon,
+      bundle.collection.tags,
+      false, // Always private when duplicating
+      sections,
+      bundle.collection.rule ?? null
+    )
+
+    const now = new Date()
+    const verses: CollectionVerse[] = bundle.verses.map((verse, position) => ({
+      id: crypto.randomUUID(),
+      collectionId: collection.id,
+      verseId: verse.verseId,
+      verseReference: verse.verseReference,
+      bibleVersionId: verse.bibleVersionId,
+      verseText: verse.verseText,
+      ...(verse.notes ? { notes: verse.notes } : {}),
+      sectionId: verse.sectionId ? sectionIds.get(verse.sectionId) ?? null : null,
+      position,
+      addedAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }))
+
+    await illumineDB.collectionVerses.bulkPut(verses)
+    for (const verse of verses) {
+      await syncService.queueOperation('create', 'collection_verse', verse.id, verse)
     }
+
+    return { ...collection, verseCount: verses.length }
   }
 
   /**
-   * Get suggested tags based on existing collections
+   * The verses a smart collection's rule matches right now, from the user's local
+   * highlights, bookmarks and notes or from a search of the downloaded Bible text.
+   * They are listed like saved verses but aren't stored.
    */
-  async getSuggestedTags(): Promise<string[]> {
-    try {
-      const { data, error } = await supabase
-        .from('verse_collections')
-        .select('tags')
+  async evaluateSmartCollection(collection: VerseCollection, userId: string): Promise<CollectionVerse[]> {
+    const rule = collection.rule
+    if (!rule) return []
 
-      if (error) throw error
+    const [highlights, bookmarks, notes, categories, searchResults] = await Promise.all([
+      rule.source === 'highlights' ? userContentService.getAllHighlights(userId) : [],
+      rule.source === 'bookmarks' ? userContentService.getAllBookmarks(userId) : [],
+      rule.source === 'notes' || rule.noteTag ? userContentService.getAllNotes(userId) : [],
+      rule.source === 'highlights' ? illumineDB.highlightCategories.where('userId').equals(userId).toArray() : [],
+      rule.source === 'search' && rule.query ? this.searchForRule(rule) : []
+    ])
 
-      const allTags: string[] = []
-      data.forEach(collection => {
-        if (collection.tags) {
-          allTags.push(...collection.tags)
-        }
-      })
+    const matches = evaluateSmartRule(rule, { highlights, bookmarks, notes, categories, searchResults })
+
+    return Promise.all(matches.map(async (match, position) => {
+      const text = match.verseText ??
+        (await bibleContentService.getVerse(match.book, match.chapter, match.verse, rule.version))?.text ??
+        ''
+
+      return {
+        id: `${collection.id}:${match.sourceId}`,
+        collectionId: collection.id,
+        verseId: `${match.book}-${match.chapter}-${match.verse}-${rule.version}`,
+        verseReference: formatMatchReference(match),
+        bibleVersionId: rule.version,
+        verseText: text,
+        sectionId: null,
+        position,
+        addedAt: match.matchedAt,
+        updatedAt: match.matchedAt,
+        syncStatus: 'synced' as const
+      }
+    }))
+  }
 
-      // Count tag frequency and return most common
-      const tagCounts: Record<string, number> = {}
-      allTags.forEach(tag => {
+  /**
+   * Get suggested tags based on existing collections
+   */
+  async getSuggestedTags(userId: string): Promise<string[]> {
+    const tagCounts: Record<string, number> = {}
+    ;(await this.getCollections(userId)).forEach(collection => {
+      collection.tags.forEach(tag => {
         tagCounts[tag] = (tagCounts[tag] || 0) + 1
       })
+    })
 
-      return Object.entries(tagCounts)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 20)
-        .map(([tag]) => tag)
-    } catch (error) {
-      console.error('Failed to get suggested tags:', error)
-      return []
-    }
+    // Count tag frequency and return most common
+    return Object.entries(tagCounts)
+      .sort(([,a], [,b]) => b - a)
+      .slice(0, 20)
+      .map(([tag]) => tag)
   }
 
   /**
    * Private helper methods
    */
-  private transformCollection(data: any): VerseCollection {
-    return {
-      id: data.id,
-      userId: data.user_id,
-      name: data.name,
-      description: data.description,
-      color: data.color,
-      icon: data.icon,
-      isPublic: data.is_public,
-      tags: data.tags || [],
-      createdAt: new Date(data.created_at),
-      updatedAt: new Date(data.updated_at)
+  private async getOwnCollections(userId: string): Promise<VerseCollection[]> {
+    const collections = await illumineDB.verseCollections.where('userId').equals(userId).toArray()
+    const verses = await illumineDB.collectionVerses
+      .where('collectionId')
+      .anyOf(collections.map(collection => collection.id))
+      .toArray()
+
+    return collections
+      .map(collection => ({
+        ...collection,
+        verseCount: verses.filter(verse => verse.collectionId === collection.id).length
+      }))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  private async getOwnCollection(collectionId: string): Promise<VerseCollection> {
+    const collection = await illumineDB.verseCollections.get(collectionId)
+    if (!collection) {
+      throw new Error('Collection not found')
     }
+    return collection
   }
 
-  private transformCollectionWithCount(data: any): VerseCollection {
-    const collection = this.transformCollection(data)
-    return {
-      ...collection,
-      verseCount: data.collection_verses?.[0]?.count || 0
+  private async searchForRule(rule: SmartCollectionRule): Promise<SearchResult[]> {
+    try {
+      return await bibleContentService.searchVerses({
+        query: rule.query!,
+        versions: [rule.version],
+        books: getRuleScopeBooks(rule)
+      })
+    } catch (error) {
+      console.error('Failed to search for smart collection:', error)
+      return []
+    }
+  }
+
+  private async getOrderedVerses(collection: VerseCollection): Promise<CollectionVerse[]> {
+    const verses = await illumineDB.collectionVerses.where('collectionId').equals(collection.id).toArray()
+    return orderCollectionVerses(collection.sections, verses)
+  }
+
+  private async saveVerseOrder(changed: CollectionVerse[]): Promise<void> {
+    const now = new Date()
+    for (const verse of changed) {
+      const updated: CollectionVerse = { ...verse, updatedAt: now, syncStatus: 'pending' }
+      await illumineDB.collectionVerses.put(updated)
+      await syncService.queueOperation('update', 'collection_verse', verse.id, updated)
     }
   }
 
-  private transformCollectionVerse(data: unknown): CollectionVerse {
-    const record = data as any
+  private transformCollectionWithCount(data: any): VerseCollection {
+    const collection = DataTransformers.transformVerseCollection(data)
     return {
-      id: record.id,
-      collectionId: record.collection_id,
-      verseId: record.verse_id,
-      verseReference: record.verse_reference,
-      bibleVersionId: record.bible_version_id,
-      verseText: record.verse_text,
-      notes: record.notes,
-      addedAt: new Date(record.added_at)
+      ...collection,
+      verseCount: data.collection_verses?.[0]?.count || 0
     }
   }
 }
@@ -11,6 +11,15 @@ vi.mock('@/services/bibleContentService', () => ({
   }
 }))
 
+vi.mock('@/services/downloadManagerService', () => ({
+  downloadManagerService: {
+    start: vi.fn(),
+    getProgress: vi.fn(),
+    addProgressListener: vi.fn(),
+    restoreDownloads: vi.fn().mockResolvedValue([])
+  }
+}))
+
 vi.mock('@/services/indexedDB', () => ({
   illumineDB: {
     verses: {
@@ -221,12 +230,13 @@ describe('Bible Store', () => {
     const versionId = 'kjv'
 
     // Mock the service call
-    const { bibleContentService } = await import('@/services/bibleContentService')
-    vi.mocked(bibleContentService.downloadVersion).mockResolvedValue()
+    const { downloadManagerService } = await import('@/services/downloadManagerService')
+    vi.mocked(downloadManagerService.start).mockResolvedValue()
+    vi.mocked(downloadManagerService.getProgress).mockResolvedValue(undefined)
 
     await store.downloadVersion(versionId)
 
-    expect(bibleContentService.downloadVersion).toHaveBeenCalledWith(versionId)
+    expect(downloadManagerService.start).toHaveBeenCalledWith(versionId)
     expect(store.downloadedVersions).toContain(versionId)
   })
 
@@ -235,8 +245,8 @@ describe('Bible Store', () => {
     const versionId = 'kjv'
 
     // Mock the service to throw an error
-    const { bibleContentService } = await import('@/services/bibleContentService')
-    vi.mocked(bibleContentService.downloadVersion).mockRejectedValue(new Error('Download failed'))
+    const { downloadManagerService } = await import('@/services/downloadManagerService')
+    vi.mocked(downloadManagerService.start).mockRejectedValue(new Error('Download failed'))
 
     await expect(store.downloadVersion(versionId)).rejects.toThrow('Download failed')
     expect(store.downloadedVersions).not.toContain(versionId)
@@ -257,6 +267,24 @@ describe('Bible Store', () => {
     expect(nonExistentBook).toBeUndefined()
   })
 
+  it('should key verse anchors by the English-numbered reference', () => {
+    const store = useBibleStore()
+
+    store.setCurrentVersion({
+      id: 'bhs',
+      name: 'Biblia Hebraica',
+      abbreviation: 'BHS',
+      language: 'he',
+      versification: 'original',
+      storagePath: '/bhs',
+      isDownloaded: true,
+      downloadSize: 1500000
+    })
+
+    const anchor = store.getVerseAnchor({ id: 'mal-3-20', book: 'Malachi', chapter: 3, verse: 20, text: 'But unto you', version: 'bhs' })
+    expect(anchor).toMatchObject({ verseKey: 'MAL.4.2', sourceVersion: 'bhs' })
+  })
+
   it('should check if version is downloaded', () => {
     const store = useBibleStore()
 
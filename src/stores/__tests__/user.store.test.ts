@@ -289,6 +289,55 @@ describe('User Store', () => {
     expect(notesForVerse).not.toContain(note2)
   })
 
+  it('should get range notes for every verse they cover and chapter notes separately', () => {
+    const store = useUserStore()
+    const rangeNote = {
+      id: '1',
+      userId: 'user-123',
+      book: 'EPH',
+      chapter: 2,
+      verse: 1,
+      endVerse: 10,
+      content: 'Dead, then made alive',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      syncStatus: 'synced' as const
+    }
+
+    const chapterNote = { ...rangeNote, id: '2', verse: null, endVerse: null, content: 'Outline of chapter 2' }
+    const unattached = { ...rangeNote, id: '3', book: null, chapter: null, verse: null, endVerse: null }
+
+    store.notes = [rangeNote, chapterNote, unattached]
+
+    expect(store.getNotesForVerse('EPH', 2, 1)).toEqual([rangeNote])
+    expect(store.getNotesForVerse('EPH', 2, 8)).toEqual([rangeNote])
+    expect(store.getNotesForVerse('EPH', 2, 11)).toEqual([])
+    expect(store.getChapterNotes('EPH', 2)).toEqual([chapterNote])
+  })
+
+  it('should get notes that link to a verse', () => {
+    const store = useUserStore()
+    const linking = {
+      id: '1',
+      userId: 'user-123',
+      book: 'GEN',
+      chapter: 1,
+      verse: 1,
+      content: '## Creation\nCompare [[John 1:1-3]] and [[Col 1|Colossians]]',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      syncStatus: 'synced' as const
+    }
+
+    const plain = { ...linking, id: '2', content: 'John 1:2 without brackets' }
+
+    store.notes = [linking, plain]
+
+    expect(store.getNotesMentioningVerse('JHN', 1, 2)).toEqual([linking])
+    expect(store.getNotesMentioningVerse('COL', 1, 16)).toEqual([linking])
+    expect(store.getNotesMentioningVerse('JHN', 1, 4)).toEqual([])
+  })
+
   it('should get highlights for verse', () => {
     const store = useUserStore()
     const highlight1 = {
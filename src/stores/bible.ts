@@ -14,6 +14,17 @@ import { bibleContentService } from '@/services/bibleContentService'
 import { bibleApiService } from '@/services/bibleApiService'
 import { readingStreaksService } from '@/services/readingStreaksService'
 import { achievementsService } from '@/services/achievementsService'
+import { readingPlanService } from '@/services/readingPlanService'
+import { useUserStore } from './user'
+import { downloadManagerService } from '@/services/downloadManagerService'
+import { bibleImportService } from '@/services/bibleImportService'
+import type { DownloadProgress } from '@/types/downloads'
+import type { BibleImportFile, BibleImportOptions, BibleImportResult } from '@/types/bibleImport'
+import type { VerseRef, VersificationScheme } from '@/types/versification'
+import type { VerseAnchor } from '@/types/verseAnchors'
+import { BIBLE_BOOKS, findBibleBook } from '@/utils/bibleBooks'
+import { detectVersificationScheme, fromStandardRef, mapVerseRef, toStandardRef } from '@/utils/versification'
+import { createVerseAnchor } from '@/utils/verseAnchors'
 
 export const useBibleStore = defineStore('bible', () => {
   // State
@@ -25,6 +36,7 @@ export const useBibleStore = defineStore('bible', () => {
   const currentChapter = ref<Chapter | null>(null)
   const isLoading = ref(false)
   const downloadProgress = ref<Record<string, number>>({})
+  const downloadStates = ref<Record<string, DownloadProgress>>({})
 
   // Getters
   const availableVersions = computed(() => versions.value)
@@ -54,6 +66,31 @@ export const useBibleStore = defineStore('bible', () => {
     downloadProgress.value[versionId] || 0
   )
 
+  const getDownloadState = computed(() => (versionId: string): DownloadProgress | null =>
+    downloadStates.value[versionId] || null
+  )
+
+  const getVersificationScheme = computed(() => (versionId?: string): VersificationScheme => {
+    const id = versionId || currentVersion.value?.id
+    if (!id) return 'english'
+    const version = versions.value.find(v => v.id === id) ?? (currentVersion.value?.id === id ? currentVersion.value : null)
+    return detectVersificationScheme(version ?? { id })
+  })
+
+  // Downloads run in the download manager; mirror their progress here
+  function applyDownloadProgress(progress: DownloadProgress): void {
+    if (progress.status === 'completed' || progress.status === 'cancelled') {
+      delete downloadStates.value[progress.version]
+      delete downloadProgress.value[progress.version]
+      return
+    }
+
+    downloadStates.value[progress.version] = progress
+    downloadProgress.value[progress.version] = Math.min(progress.percent, 100)
+  }
+
+  downloadManagerService.addProgressListener(applyDownloadProgress)
+
   // Actions
   async function initializeStore(): Promise<void> {
     try {
@@ -73,6 +110,9 @@ export const useBibleStore = defineStore('bible', () => {
         .map(v => v.id)
       downloadedVersions.value = downloaded
 
+      // Show downloads left unfinished by the last session
+      await restoreDownloads()
+
       // Load books list
       const storedBooks = await illumineDB.books.toArray()
       books.value = storedBooks
@@ -215,76 +255,8 @@ export const useBibleStore = defineStore('bible', () => {
   }
 
   function getFallbackBooks(): Book[] {
-    return [
-      // Old Testament
-      { id: 'GEN', name: 'Genesis', abbreviation: 'Gen', testament: 'old', order: 1, chapters: 50 },
-      { id: 'EXO', name: 'Exodus', abbreviation: 'Exo', testament: 'old', order: 2, chapters: 40 },
-      { id: 'LEV', name: 'Leviticus', abbreviation: 'Lev', testament: 'old', order: 3, chapters: 27 },
-      { id: 'NUM', name: 'Numbers', abbreviation: 'Num', testament: 'old', order: 4, chapters: 36 },
-      { id: 'DEU', name: 'Deuteronomy', abbreviation: 'Deu', testament: 'old', order: 5, chapters: 34 },
-      { id: 'JOS', name: 'Joshua', abbreviation: 'Jos', testament: 'old', order: 6, chapters: 24 },
-      { id: 'JDG', name: 'Judges', abbreviation: 'Jdg', testament: 'old', order: 7, chapters: 21 },
-      { id: 'RUT', name: 'Ruth', abbreviation: 'Rut', testament: 'old', order: 8, chapters: 4 },
-      { id: '1SA', name: '1 Samuel', abbreviation: '1Sa', testament: 'old', order: 9, chapters: 31 },
-      { id: '2SA', name: '2 Samuel', abbreviation: '2Sa', testament: 'old', order: 10, chapters: 24 },
-      { id: '1KI', name: '1 Kings', abbreviation: '1Ki', testament: 'old', order: 11, chapters: 22 },
-      { id: '2KI', name: '2 Kings', abbreviation: '2Ki', testament: 'old', order: 12, chapters: 25 },
-      { id: '1CH', name: '1 Chronicles', abbreviation: '1Ch', testament: 'old', order: 13, chapters: 29 },
-      { id: '2CH', name: '2 Chronicles', abbreviation: '2Ch', testament: 'old', order: 14, chapters: 36 },
-      { id: 'EZR', name: 'Ezra', abbreviation: 'Ezr', testament: 'old', order: 15, chapters: 10 },
-      { id: 'NEH', name: 'Nehemiah', abbreviation: 'Neh', testament: 'old', order: 16, chapters: 13 },
-      { id: 'EST', name: 'Esther', abbreviation: 'Est', testament: 'old', order: 17, chapters: 10 },
-      { id: 'JOB', name: 'Job', abbreviation: 'Job', testament: 'old', order: 18, chapters: 42 },
-      { id: 'PSA', name: 'Psalms', abbreviation: 'Psa', testament: 'old', order: 19, chapters: 150 },
-      { id: 'PRO', name: 'Proverbs', abbreviation: 'Pro', testament: 'old', order: 20, chapters: 31 },
-      { id: 'ECC', name: 'Ecclesiastes', abbreviation: 'Ecc', testament: 'old', order: 21, chapters: 12 },
-      { id: 'SNG', name: 'Song of Songs', abbreviation: 'Sng', testament: 'old', order: 22, chapters: 8 },
-      { id: 'ISA', name: 'Isaiah', abbreviation: 'Isa', testament: 'old', order: 23, chapters: 66 },
-      { id: 'JER', name: 'Jeremiah', abbreviation: 'Jer', testament: 'old', order: 24, chapters: 52 },
-      { id: 'LAM', name: 'Lamentations', abbreviation: 'Lam', testament: 'old', order: 25, chapters: 5 },
-      { id: 'EZK', name: 'Ezekiel', abbreviation: 'Ezk', testament: 'old', order: 26, chapters: 48 },
-      { id: 'DAN', name: 'Daniel', abbreviation: 'Dan', testament: 'old', order: 27, chapters: 12 },
-      { id: 'HOS', name: 'Hosea', abbreviation: 'Hos', testament: 'old', order: 28, chapters: 14 },
-      { id: 'JOL', name: 'Joel', abbreviation: 'Jol', testament: 'old', order: 29, chapters: 3 },
-      { id: 'AMO', name: 'Amos', abbreviation: 'Amo', testament: 'old', order: 30, chapters: 9 },
-      { id: 'OBA', name: 'Obadiah', abbreviation: 'Oba', testament: 'old', order: 31, chapters: 1 },
-      { id: 'JON', name: 'Jonah', abbreviation: 'Jon', testament: 'old', order: 32, chapters: 4 },
-      { id: 'MIC', name: 'Micah', abbreviation: 'Mic', testament: 'old', order: 33, chapters: 7 },
-      { id: 'NAM', name: 'Nahum', abbreviation: 'Nam', testament: 'old', order: 34, chapters: 3 },
-      { id: 'HAB', name: 'Habakkuk', abbreviation: 'Hab', testament: 'old', order: 35, chapters: 3 },
-      { id: 'ZEP', name: 'Zephaniah', abbreviation: 'Zep', testament: 'old', order: 36, chapters: 3 },
-      { id: 'HAG', name: 'Haggai', abbreviation: 'Hag', testament: 'old', order: 37, chapters: 2 },
-      { id: 'ZEC', name: 'Zechariah', abbreviation: 'Zec', testament: 'old', order: 38, chapters: 14 },
-      { id: 'MAL', name: 'Malachi', abbreviation: 'Mal', testament: 'old', order: 39, chapters: 4 },
-      // New Testament
-      { id: 'MAT', name: 'Matthew', abbreviation: 'Mat', testament: 'new', order: 40, chapters: 28 },
-      { id: 'MRK', name: 'Mark', abbreviation: 'Mrk', testament: 'new', order: 41, chapters: 16 },
-      { id: 'LUK', name: 'Luke', abbreviation: 'Luk', testament: 'new', order: 42, chapters: 24 },
-      { id: 'JHN', name: 'John', abbreviation: 'Jhn', testament: 'new', order: 43, chapters: 21 },
-      { id: 'ACT', name: 'Acts', abbreviation: 'Act', testament: 'new', order: 44, chapters: 28 },
-      { id: 'ROM', name: 'Romans', abbreviation: 'Rom', testament: 'new', order: 45, chapters: 16 },
-      { id: '1CO', name: '1 Corinthians', abbreviation: '1Co', testament: 'new', order: 46, chapters: 16 },
-      { id: '2CO', name: '2 Corinthians', abbreviation: '2Co', testament: 'new', order: 47, chapters: 13 },
-      { id: 'GAL', name: 'Galatians', abbreviation: 'Gal', testament: 'new', order: 48, chapters: 6 },
-      { id: 'EPH', name: 'Ephesians', abbreviation: 'Eph', testament: 'new', order: 49, chapters: 6 },
-      { id: 'PHP', name: 'Philippians', abbreviation: 'Php', testament: 'new', order: 50, chapters: 4 },
-      { id: 'COL', name: 'Colossians', abbreviation: 'Col', testament: 'new', order: 51, chapters: 4 },
-      { id: '1TH', name: '1 Thessalonians', abbreviation: '1Th', testament: 'new', order: 52, chapters: 5 },
-      { id: '2TH', name: '2 Thessalonians', abbreviation: '2Th', testament: 'new', order: 53, chapters: 3 },
-      { id: '1TI', name: '1 Timothy', abbreviation: '1Ti', testament: 'new', order: 54, chapters: 6 },
-      { id: '2TI', name: '2 Timothy', abbreviation: '2Ti', testament: 'new', order: 55, chapters: 4 },
-      { id: 'TIT', name: 'Titus', abbreviation: 'Tit', testament: 'new', order: 56, chapters: 3 },
-      { id: 'PHM', name: 'Philemon', abbreviation: 'Phm', testament: 'new', order: 57, chapters: 1 },
-      { id: 'HEB', name: 'Hebrews', abbreviation: 'Heb', testament: 'new', order: 58, chapters: 13 },
-      { id: 'JAS', name: 'James', abbreviation: 'Jas', testament: 'new', order: 59, chapters: 5 },
-      { id: '1PE', name: '1 Peter', abbreviation: '1Pe', testament: 'new', order: 60, chapters: 5 },
-      { id: '2PE', name: '2 Peter', abbreviation: '2Pe', testament: 'new', order: 61, chapters: 3 },
-      { id: '1JN', name: '1 John', abbreviation: '1Jn', testament: 'new', order: 62, chapters: 5 },
-      { id: '2JN', name: '2 John', abbreviation: '2Jn', testament: 'new', order: 63, chapters: 1 },
-      { id: '3JN', name: '3 John', abbreviation: '3Jn', testament: 'new', order: 64, chapters: 1 },
-      { id: 'JUD', name: 'Jude', abbreviation: 'Jud', testament: 'new', order: 65, chapters: 1 },
-      { id: 'REV', name: 'Revelation', abbreviation: 'Rev', testament: 'new', order: 66, chapters: 22 }
-    ]
+    // Copy so callers can safely mutate/store the list
+    return BIBLE_BOOKS.map(book => ({ ...book }))
   }
 
   async function downloadVersion(versionId: string): Promise<void> {
@@ -298,20 +270,14 @@ export const useBibleStore = defineStore('bible', () => {
         return // Already downloaded
       }
 
-      // Initialize progress tracking
-      downloadProgress.value[versionId] = 0
-
-      // Download version content with progress callback
-      await bibleContentService.downloadVersion(versionId, (progress) => {
-        downloadProgress.value[versionId] = Math.min(progress, 100)
-      })
+      // Starts a new download or resumes a paused one; progress arrives through the listener
+      await downloadManagerService.start(versionId)
 
-      // Mark as downloaded in IndexedDB
-      await illumineDB.bibleVersions.update(versionId, {
-        isDownloaded: true,
-        downloadedAt: new Date(),
-        lastAccessed: new Date()
-      })
+      // Paused before it finished
+      const state = await downloadManagerService.getProgress(versionId)
+      if (state && state.status !== 'completed') {
+        return
+      }
 
       // Update local state
       downloadedVersions.value.push(versionId)
@@ -327,12 +293,48 @@ export const useBibleStore = defineStore('bible', () => {
         await setCurrentVersion(versionId)
       }
 
-      // Clean up progress tracking
-      delete downloadProgress.value[versionId]
-
     } catch (error) {
       console.error(`Failed to download version ${versionId}:`, error)
-      delete downloadProgress.value[versionId]
+      throw error
+    }
+  }
+
+  async function pauseDownload(versionId: string): Promise<void> {
+    await downloadManagerService.pause(versionId)
+  }
+
+  async function resumeDownload(versionId: string): Promise<void> {
+    await downloadVersion(versionId)
+  }
+
+  async function cancelDownload(versionId: string): Promise<void> {
+    await downloadManagerService.cancel(versionId)
+  }
+
+  async function restoreDownloads(): Promise<void> {
+    try {
+      const restored = await downloadManagerService.restoreDownloads()
+      restored.forEach(applyDownloadProgress)
+    } catch (error) {
+      console.warn('Failed to restore download progress:', error)
+    }
+  }
+
+  async function importVersion(files: BibleImportFile[], options: BibleImportOptions = {}): Promise<BibleImportResult> {
+    try {
+      const result = await bibleImportService.importFiles(files, options)
+
+      versions.value.push(result.version)
+      downloadedVersions.value.push(result.version.id)
+
+      // Set as current version if no version is currently selected
+      if (!currentVersion.value) {
+        await setCurrentVersion(result.version.id)
+      }
+
+      return result
+    } catch (error) {
+      console.error('Failed to import Bible files:', error)
       throw error
     }
   }
@@ -345,8 +347,15 @@ export const useBibleStore = defineStore('bible', () => {
       }
 
       // Remove version content from IndexedDB
-      await illumineDB.transaction('rw', [illumineDB.verses, illumineDB.bibleVersions], async () => {
+      await illumineDB.transaction('rw', [
+        illumineDB.verses,
+        illumineDB.bibleVersions,
+        illumineDB.versionDownloads,
+        illumineDB.chapterDownloads
+      ], async () => {
         await illumineDB.verses.where('version').equals(versionId).delete()
+        await illumineDB.chapterDownloads.where('version').equals(versionId).delete()
+        await illumineDB.versionDownloads.delete(versionId)
         await illumineDB.bibleVersions.update(versionId, {
           isDownloaded: false,
           downloadedAt: undefined
@@ -379,6 +388,62 @@ export const useBibleStore = defineStore('bible', () => {
     }
   }
 
+  /**
+   * Translate a reference from one version's verse numbering to another's
+   */
+  function mapReference(ref: VerseRef, fromVersion: string, toVersion: string): VerseRef[] {
+    return mapVerseRef(ref, getVersificationScheme.value(fromVersion), getVersificationScheme.value(toVersion))
+  }
+
+  /**
+   * User data such as bookmarks is stored with English verse numbers so it
+   * shows on the same verse in every version
+   */
+  function toStoredReference(ref: VerseRef, versionId?: string): VerseRef {
+    return toStandardRef(ref, getVersificationScheme.value(versionId))
+  }
+
+  function fromStoredReference(ref: VerseRef, versionId?: string): VerseRef {
+    return fromStandardRef(ref, getVersificationScheme.value(versionId))[0]
+  }
+
+  /**
+   * Anchor for user content made on a verse as this version words and numbers it
+   */
+  function getVerseAnchor(verse: Verse): VerseAnchor {
+    // Numbering differences are listed by book id, and verses may carry the book's name
+    const book = findBibleBook(verse.book)?.id ?? verse.book
+    return createVerseAnchor(verse, toStoredReference({ book, chapter: verse.chapter, verse: verse.verse }, verse.version))
+  }
+
+  /**
+   * Load the verses of another version that correspond to a loaded chapter,
+   * which may come from neighbouring chapters when the numbering differs
+   */
+  async function loadParallelChapter(source: Chapter, targetVersion: string): Promise<Chapter> {
+    const refs = source.verses.flatMap(verse => mapReference(verse, source.version, targetVersion))
+    const chapters = Array.from(new Set(refs.map(ref => ref.chapter))).sort((a, b) => a - b)
+    if (chapters.length === 0) chapters.push(source.chapter)
+
+    const loaded = await Promise.all(chapters.map(chapter => loadChapter(source.book, chapter, targetVersion)))
+
+    // Keep the verses that translate the source chapter, including ones like psalm titles that only map one way
+    const wanted = new Set(refs.map(ref => `${ref.chapter}:${ref.verse}`))
+    const verses = loaded
+      .flatMap(chapter => chapter.verses)
+      .filter(verse =>
+        wanted.has(`${verse.chapter}:${verse.verse}`) ||
+        mapReference(verse, targetVersion, source.version).some(ref => ref.chapter === source.chapter)
+      )
+
+    return {
+      book: source.book,
+      chapter: chapters[0],
+      version: targetVersion,
+      verses
+    }
+  }
+
   async function setCurrentVersion(versionIdOrObject: string | BibleVersion): Promise<void> {
     let version: BibleVersion | undefined
 
@@ -400,16 +465,22 @@ export const useBibleStore = defineStore('bible', () => {
     // Maintain reading position when switching versions
     if (currentReading.value && previousVersion) {
       try {
+        // The same passage may be numbered differently in the new version, e.g. Malachi 4 is Malachi 3:19-24 in Hebrew
+        const { book, chapter, verse } = currentReading.value
+        const [mapped] = mapReference({ book, chapter, verse: verse ?? 1 }, previousVersion.id, version.id)
+
         // Check if the current chapter exists in the new version
         const chapterExists = await illumineDB.verses
           .where('[book+chapter+version]')
-          .equals([currentReading.value.book, currentReading.value.chapter, version.id])
+          .equals([book, mapped.chapter, version.id])
           .first()
 
         if (chapterExists) {
           // Update reading position to new version
           const newPosition: ReadingPosition = {
             ...currentReading.value,
+            chapter: mapped.chapter,
+            ...(verse !== undefined ? { verse: mapped.verse } : {}),
             version: version.id,
             timestamp: new Date()
           }
@@ -514,6 +585,16 @@ export const useBibleStore = defineStore('bible', () => {
         } catch (achievementError) {
           console.warn('Failed to track reading achievements:', achievementError)
         }
+
+        // Credit the chapter to the reader's active reading plans
+        const userId = useUserStore().profile?.id
+        if (verses.length > 0 && userId) {
+          try {
+            await readingPlanService.recordChapterRead(userId, book, chapter)
+          } catch (planError) {
+            console.warn('Failed to record reading plan progress:', planError)
+          }
+        }
       }
 
       return chapterData
@@ -771,6 +852,7 @@ export const useBibleStore = defineStore('bible', () => {
     currentChapter,
     isLoading,
     downloadProgress,
+    downloadStates,
 
     // Getters
     availableVersions,
@@ -780,15 +862,27 @@ export const useBibleStore = defineStore('bible', () => {
     newTestamentBooks,
     isVersionDownloaded,
     getVersionProgress,
+    getDownloadState,
+    getVersificationScheme,
 
     // Actions
     initializeStore,
     loadAvailableVersions,
     loadDefaultBooks,
     downloadVersion,
+    pauseDownload,
+    resumeDownload,
+    cancelDownload,
+    restoreDownloads,
+    importVersion,
     removeVersion,
     setCurrentVersion,
+    mapReference,
+    toStoredReference,
+    fromStoredReference,
+    getVerseAnchor,
     loadChapter,
+    loadParallelChapter,
     navigateToVerse,
     saveReadingPosition,
     searchVerses,
@@ -5,15 +5,30 @@ import type {
   UserPreferences,
   Bookmark,
   Note,
+  Notebook,
+  NoteRevision,
+  NoteRevisionOrigin,
   Highlight,
+  HighlightCategory,
+  HighlightDetails,
   BookmarkWithReference,
   NoteWithReference,
   HighlightWithReference,
   SyncStatus
 } from '@/types'
+import type { TextQuote, VerseAnchor } from '@/types/verseAnchors'
+import { getVerseKey } from '@/utils/verseAnchors'
+import { formatHighlightReference, highlightCoversVerse, isMultiVerseHighlight } from '@/utils/highlightRanges'
+import { extractVerseLinks, markdownToPlainText, passageIncludesVerse } from '@/utils/noteMarkdown'
+import { formatNoteReference, getNoteScope, noteCoversVerse, noteOverlapsChapter, type NoteLocation } from '@/utils/notePassages'
 import { illumineDB } from '@/services/indexedDB'
 import { userContentService } from '@/services/userContentService'
 import { syncService } from '@/services/syncService'
+import { noteRevisionService } from '@/services/noteRevisionService'
+import { tabCoordinator } from '@/services/tabCoordinator'
+
+// The IndexedDB tables loadUserContent reads
+const USER_CONTENT_TABLES = ['bookmarks', 'notes', 'notebooks', 'highlights', 'highlightCategories']
 
 export const useUserStore = defineStore('user', () => {
   // State
@@ -24,11 +39,15 @@ export const useUserStore = defineStore('user', () => {
     defaultVersion: 'kjv',
     autoSync: true,
     notificationsEnabled: true,
-    verseOfTheDayEnabled: true
+    verseOfTheDayEnabled: true,
+    showFootnotes: true,
+    showHeadings: true
   })
   const bookmarks = ref<Bookmark[]>([])
   const notes = ref<Note[]>([])
+  const notebooks = ref<Notebook[]>([])
   const highlights = ref<Highlight[]>([])
+  const highlightCategories = ref<HighlightCategory[]>([])
   const isLoading = ref(false)
   const syncStatus = ref<SyncStatus>('synced')
   const lastSyncTime = ref<Date | null>(null)
@@ -46,18 +65,35 @@ export const useUserStore = defineStore('user', () => {
   const notesWithReferences = computed((): NoteWithReference[] =>
     notes.value.map(note => ({
       ...note,
-      reference: `${note.book} ${note.chapter}:${note.verse}`,
-      wordCount: note.content.split(/\s+/).length,
+      reference: formatNoteReference(note),
+      wordCount: markdownToPlainText(note.content).split(/\s+/).length,
       isRecent: (Date.now() - new Date(note.updatedAt).getTime()) < (7 * 24 * 60 * 60 * 1000) // 7 days
     }))
   )
 
+  // Passages each note links to with [[...]], parsed once per content change
+  const noteVerseLinks = computed(() =>
+    notes.value
+      .map(note => ({ note, passages: extractVerseLinks(note.content) }))
+      .filter(entry => entry.passages.length > 0)
+  )
+
   const highlightsWithReferences = computed((): HighlightWithReference[] =>
-    highlights.value.map(highlight => ({
-      ...highlight,
-      reference: `${highlight.book} ${highlight.chapter}:${highlight.verse}`,
-      colorName: getColorName(highlight.colorHex)
-    }))
+    highlights.value.map(highlight => {
+      const category = getHighlightCategory(highlight.categoryId)
+      return {
+        ...highlight,
+        reference: isMultiVerseHighlight(highlight)
+          ? formatHighlightReference(highlight)
+          : `${highlight.book} ${highlight.chapter}:${highlight.verse}`,
+        colorName: getColorName(getHighlightColor(highlight)),
+        ...(category ? { categoryName: category.name } : {})
+      }
+    })
+  )
+
+  const sortedHighlightCategories = computed(() =>
+    [...highlightCategories.value].sort((a, b) => a.position - b.position)
   )
 
   const bookmarksByBook = computed(() => {
@@ -82,6 +118,15 @@ export const useUserStore = defineStore('user', () => {
     return grouped
   })
 
+  const sortedNotebooks = computed(() =>
+    [...notebooks.value].sort((a, b) => a.position - b.position)
+  )
+
+  // Every tag in use, for filtering
+  const noteTags = computed(() =>
+    [...new Set(notes.value.flatMap(note => note.tags ?? []))].sort((a, b) => a.localeCompare(b))
+  )
+
   const recentNotes = computed(() =>
     notesWithReferences.value
       .filter(note => note.isRecent)
@@ -141,15 +186,19 @@ export const useUserStore = defineStore('user', () => {
     if (!profile.value) return
 
     try {
-      const [userBookmarks, userNotes, userHighlights] = await Promise.all([
+      const [userBookmarks, userNotes, userNotebooks, userHighlights, userCategories] = await Promise.all([
         illumineDB.bookmarks.where('userId').equals(profile.value.id).toArray(),
         illumineDB.notes.where('userId').equals(profile.value.id).toArray(),
-        illumineDB.highlights.where('userId').equals(profile.value.id).toArray()
+        illumineDB.notebooks.where('userId').equals(profile.value.id).toArray(),
+        illumineDB.highlights.where('userId').equals(profile.value.id).toArray(),
+        illumineDB.highlightCategories.where('userId').equals(profile.value.id).toArray()
       ])
 
       bookmarks.value = userBookmarks
       notes.value = userNotes
+      notebooks.value = userNotebooks
       highlights.value = userHighlights
+      highlightCategories.value = userCategories
 
     } catch (error) {
       console.error('Failed to load user content:', error)
@@ -157,6 +206,12 @@ export const useUserStore = defineStore('user', () => {
     }
   }
 
+  // A bookmark, note or highlight saved in another tab shows up here without a reload
+  tabCoordinator.onRemoteChange(tables => {
+    if (!tables.some(table => USER_CONTENT_TABLES.includes(table))) return
+    loadUserContent().catch(error => console.error('Failed to load changes from another tab:', error))
+  })
+
   async function updateProfile(updates: Partial<UserProfile>): Promise<void> {
     if (!profile.value) {
       throw new Error('No user profile to update')
@@ -197,7 +252,8 @@ export const useUserStore = defineStore('user', () => {
     }
   }
 
-  async function addBookmark(book: string, chapter: number, verse: number): Promise<Bookmark> {
+  // book/chapter/verse are English-numbered; the anchor records the version the content was made in
+  async function addBookmark(book: string, chapter: number, verse: number, anchor?: VerseAnchor): Promise<Bookmark> {
     if (!profile.value) {
       throw new Error('User must be authenticated to add bookmarks')
     }
@@ -218,6 +274,8 @@ export const useUserStore = defineStore('user', () => {
         book,
         chapter,
         verse,
+        verseKey: getVerseKey({ book, chapter, verse }),
+        ...anchor,
         createdAt: new Date(),
         syncStatus: 'pending'
       }
@@ -276,19 +334,35 @@ export const useUserStore = defineStore('user', () => {
     }
   }
 
-  async function addNote(book: string, chapter: number, verse: number, content: string): Promise<Note> {
+  async function addNote(book: string, chapter: number, verse: number, content: string, anchor?: VerseAnchor): Promise<Note> {
+    return addPassageNote(
+      { book, chapter, verse, endChapter: null, endVerse: null },
+      content,
+      { verseKey: getVerseKey({ book, chapter, verse }), ...anchor }
+    )
+  }
+
+  // Notes on a range, a whole chapter or no passage at all, optionally filed in a notebook
+  async function addPassageNote(
+    location: NoteLocation,
+    content: string,
+    details: Partial<Pick<Note, 'notebookId' | 'tags'>> & Partial<VerseAnchor> = {}
+  ): Promise<Note> {
     if (!profile.value) {
       throw new Error('User must be authenticated to add notes')
     }
 
     try {
+      const notebookId = details.notebookId ?? null
       const note: Note = {
         id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         userId: profile.value.id,
-        book,
-        chapter,
-        verse,
+        ...location,
+        ...details,
         content,
+        notebookId,
+        position: notebookId ? getNextNotePosition(notebookId) : 0,
+        tags: details.tags ?? [],
         createdAt: new Date(),
         updatedAt: new Date(),
         syncStatus: 'pending'
@@ -297,10 +371,12 @@ export const useUserStore = defineStore('user', () => {
       // Add to local storage
       await illumineDB.notes.add(note)
       notes.value.push(note)
+      const revision = await noteRevisionService.recordRevision(note)
 
       // Perform optimistic update and queue for sync
       if (preferences.value.autoSync) {
         await syncService.performOptimisticUpdate('create', 'note', note.id, note)
+        await syncService.queueOperation('create', 'note_revision', revision.id, revision)
         syncStatus.value = 'pending'
       }
 
@@ -312,33 +388,57 @@ export const useUserStore = defineStore('user', () => {
     }
   }
 
-  async function updateNote(noteId: string, content: string): Promise<void> {
+  async function updateNote(
+    noteId: string,
+    content: string,
+    details: Partial<NoteLocation & Pick<Note, 'notebookId' | 'position' | 'tags'>> = {},
+    origin: NoteRevisionOrigin = 'edit'
+  ): Promise<void> {
     try {
       const noteIndex = notes.value.findIndex(n => n.id === noteId)
       if (noteIndex === -1) {
         throw new Error('Note not found')
       }
 
-      const updatedNote = {
-        ...notes.value[noteIndex],
+      const originalNote = notes.value[noteIndex]
+      const changes: Partial<Note> = {
+        ...details,
         content,
         updatedAt: new Date(),
         syncStatus: 'pending' as SyncStatus
       }
+      // Moving a note to another passage drops the anchor it was made against
+      if ('book' in details || 'chapter' in details || 'verse' in details) {
+        const moved = { ...originalNote, ...details }
+        changes.verseKey = moved.book !== null && moved.chapter !== null && moved.verse !== null
+          ? getVerseKey({ book: moved.book, chapter: moved.chapter, verse: moved.verse })
+          : undefined
+        changes.sourceVersion = undefined
+        changes.textFingerprint = undefined
+      }
+      // Filing a note in a notebook puts it at the end
+      if (details.notebookId && details.notebookId !== originalNote.notebookId && details.position === undefined) {
+        changes.position = getNextNotePosition(details.notebookId)
+      }
+
+      const updatedNote = { ...originalNote, ...changes }
 
       // Update in local storage
-      await illumineDB.notes.update(noteId, {
-        content,
-        updatedAt: updatedNote.updatedAt,
-        syncStatus: 'pending'
-      })
+      await illumineDB.notes.update(noteId, changes)
 
       notes.value[noteIndex] = updatedNote
 
+      // Only content changes are revisions; moving or filing a note isn't
+      const revisions = content !== originalNote.content
+        ? await noteRevisionService.recordEdit(originalNote, content, origin)
+        : []
+
       // Perform optimistic update and queue for sync
       if (preferences.value.autoSync) {
-        const originalNote = notes.value[noteIndex]
         await syncService.performOptimisticUpdate('update', 'note', noteId, updatedNote, originalNote)
+        for (const revision of revisions) {
+          await syncService.queueOperation('create', 'note_revision', revision.id, revision)
+        }
         syncStatus.value = 'pending'
       }
 
@@ -352,6 +452,7 @@ export const useUserStore = defineStore('user', () => {
     try {
       // Remove from local storage
       await illumineDB.notes.delete(noteId)
+      await noteRevisionService.deleteRevisions(noteId)
       notes.value = notes.value.filter(n => n.id !== noteId)
 
       // Perform optimistic update and queue for sync
@@ -367,13 +468,116 @@ export const useUserStore = defineStore('user', () => {
     }
   }
 
+  async function getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    return noteRevisionService.getRevisions(noteId)
+  }
+
+  // Restoring is itself a revision, so nothing in the history is lost
+  async function restoreNoteRevision(noteId: string, revisionId: string): Promise<void> {
+    const revision = (await noteRevisionService.getRevisions(noteId)).find(r => r.id === revisionId)
+    if (!revision) {
+      throw new Error('Revision not found')
+    }
+
+    await updateNote(noteId, revision.content, {}, 'restore')
+  }
+
+  function getNextNotePosition(notebookId: string): number {
+    const positions = notes.value
+      .filter(note => note.notebookId === notebookId)
+      .map(note => note.position ?? 0)
+    return positions.length > 0 ? Math.max(...positions) + 1 : 0
+  }
+
+  function getNotebookNotes(notebookId: string | null): Note[] {
+    return notes.value
+      .filter(note => (note.notebookId ?? null) === notebookId)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+  }
+
+  async function addNotebook(name: string, description?: string): Promise<Notebook> {
+    if (!profile.value) {
+      throw new Error('User must be authenticated to add notebooks')
+    }
+
+    const now = new Date()
+    const notebook: Notebook = {
+      id: crypto.randomUUID(),
+      userId: profile.value.id,
+      name: name.trim(),
+      ...(description?.trim() ? { description: description.trim() } : {}),
+      position: notebooks.value.length > 0 ? Math.max(...notebooks.value.map(n => n.position)) + 1 : 0,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+
+    await illumineDB.notebooks.add(notebook)
+    notebooks.value.push(notebook)
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('create', 'notebook', notebook.id, notebook)
+      syncStatus.value = 'pending'
+    }
+
+    return notebook
+  }
+
+  async function updateNotebook(notebookId: string, updates: Partial<Pick<Notebook, 'name' | 'description' | 'position'>>): Promise<void> {
+    const index = notebooks.value.findIndex(n => n.id === notebookId)
+    if (index === -1) {
+      throw new Error('Notebook not found')
+    }
+
+    const changes = { ...updates, updatedAt: new Date(), syncStatus: 'pending' as SyncStatus }
+    await illumineDB.notebooks.update(notebookId, changes)
+    notebooks.value[index] = { ...notebooks.value[index], ...changes }
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('update', 'notebook', notebookId, notebooks.value[index])
+      syncStatus.value = 'pending'
+    }
+  }
+
+  // The notebook's notes are kept, outside any notebook
+  async function removeNotebook(notebookId: string): Promise<void> {
+    const now = new Date()
+    await illumineDB.transaction('rw', [illumineDB.notebooks, illumineDB.notes], async () => {
+      await illumineDB.notebooks.delete(notebookId)
+      await illumineDB.notes.where('notebookId').equals(notebookId).modify({ notebookId: null, position: 0, updatedAt: now })
+    })
+
+    notebooks.value = notebooks.value.filter(n => n.id !== notebookId)
+    notes.value = notes.value.map(note =>
+      note.notebookId === notebookId ? { ...note, notebookId: null, position: 0, updatedAt: now } : note
+    )
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('delete', 'notebook', notebookId, null)
+      syncStatus.value = 'pending'
+    }
+  }
+
+  // Renumber a notebook's notes in the given order
+  async function reorderNotebookNotes(notebookId: string, noteIds: string[]): Promise<void> {
+    for (const [position, noteId] of noteIds.entries()) {
+      const note = notes.value.find(n => n.id === noteId)
+      if (note && note.notebookId === notebookId && note.position !== position) {
+        await updateNote(noteId, note.content, { position })
+      }
+    }
+  }
+
   async function addHighlight(
     book: string,
     chapter: number,
     verse: number,
     colorHex: string,
     startOffset?: number,
-    endOffset?: number
+    endOffset?: number,
+    anchor?: VerseAnchor,
+    quote?: TextQuote,
+    details: HighlightDetails = {}
   ): Promise<Highlight> {
     if (!profile.value) {
       throw new Error('User must be authenticated to add highlights')
@@ -386,9 +590,22 @@ export const useUserStore = defineStore('user', () => {
         book,
         chapter,
         verse,
+        verseKey: getVerseKey({ book, chapter, verse }),
+        ...anchor,
         colorHex,
+        categoryId: details.categoryId ?? null,
+        ...(details.style && details.style !== 'fill' ? { style: details.style } : {}),
         startOffset,
         endOffset,
+        ...(quote ? { quote } : {}),
+        // A range ending on its first verse is a single-verse highlight
+        ...(isMultiVerseHighlight({ book, chapter, verse, endChapter: details.endChapter, endVerse: details.endVerse })
+          ? {
+              endChapter: details.endChapter ?? chapter,
+              endVerse: details.endVerse,
+              ...(details.endQuote ? { endQuote: details.endQuote } : {})
+            }
+          : {}),
         createdAt: new Date(),
         syncStatus: 'pending'
       }
@@ -430,6 +647,107 @@ export const useUserStore = defineStore('user', () => {
     }
   }
 
+  async function setHighlightCategory(highlightId: string, categoryId: string | null): Promise<void> {
+    const index = highlights.value.findIndex(h => h.id === highlightId)
+    if (index === -1) {
+      throw new Error('Highlight not found')
+    }
+
+    const changes = { categoryId, syncStatus: 'pending' as SyncStatus }
+    await illumineDB.highlights.update(highlightId, changes)
+    highlights.value[index] = { ...highlights.value[index], ...changes }
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('update', 'highlight', highlightId, highlights.value[index])
+      syncStatus.value = 'pending'
+    }
+  }
+
+  function getHighlightCategory(categoryId: string | null | undefined): HighlightCategory | undefined {
+    return categoryId ? highlightCategories.value.find(c => c.id === categoryId) : undefined
+  }
+
+  // Highlights in a category follow its color, so recoloring a category recolors them
+  function getHighlightColor(highlight: Highlight): string {
+    return getHighlightCategory(highlight.categoryId)?.colorHex ?? highlight.colorHex
+  }
+
+  async function addHighlightCategory(
+    name: string,
+    colorHex: string,
+    details: Partial<Pick<HighlightCategory, 'icon' | 'description'>> = {}
+  ): Promise<HighlightCategory> {
+    if (!profile.value) {
+      throw new Error('User must be authenticated to add highlight categories')
+    }
+
+    const now = new Date()
+    const category: HighlightCategory = {
+      id: crypto.randomUUID(),
+      userId: profile.value.id,
+      name: name.trim(),
+      colorHex: colorHex.toUpperCase(),
+      ...(details.icon?.trim() ? { icon: details.icon.trim() } : {}),
+      ...(details.description?.trim() ? { description: details.description.trim() } : {}),
+      position: highlightCategories.value.length > 0 ? Math.max(...highlightCategories.value.map(c => c.position)) + 1 : 0,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+
+    await illumineDB.highlightCategories.add(category)
+    highlightCategories.value.push(category)
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('create', 'highlight_category', category.id, category)
+      syncStatus.value = 'pending'
+    }
+
+    return category
+  }
+
+  async function updateHighlightCategory(
+    categoryId: string,
+    updates: Partial<Pick<HighlightCategory, 'name' | 'colorHex' | 'icon' | 'description' | 'position'>>
+  ): Promise<void> {
+    const index = highlightCategories.value.findIndex(c => c.id === categoryId)
+    if (index === -1) {
+      throw new Error('Highlight category not found')
+    }
+
+    const changes = {
+      ...updates,
+      ...(updates.colorHex ? { colorHex: updates.colorHex.toUpperCase() } : {}),
+      updatedAt: new Date(),
+      syncStatus: 'pending' as SyncStatus
+    }
+    await illumineDB.highlightCategories.update(categoryId, changes)
+    highlightCategories.value[index] = { ...highlightCategories.value[index], ...changes }
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('update', 'highlight_category', categoryId, highlightCategories.value[index])
+      syncStatus.value = 'pending'
+    }
+  }
+
+  // The category's highlights are kept, in their own color
+  async function removeHighlightCategory(categoryId: string): Promise<void> {
+    await illumineDB.transaction('rw', [illumineDB.highlightCategories, illumineDB.highlights], async () => {
+      await illumineDB.highlightCategories.delete(categoryId)
+      await illumineDB.highlights.where('categoryId').equals(categoryId).modify({ categoryId: null })
+    })
+
+    highlightCategories.value = highlightCategories.value.filter(c => c.id !== categoryId)
+    highlights.value = highlights.value.map(highlight =>
+      highlight.categoryId === categoryId ? { ...highlight, categoryId: null } : highlight
+    )
+
+    if (preferences.value.autoSync) {
+      await syncService.queueOperation('delete', 'highlight_category', categoryId, null)
+      syncStatus.value = 'pending'
+    }
+  }
+
   async function syncUserData(): Promise<void> {
     if (!profile.value || !preferences.value.autoSync) {
       return
@@ -484,7 +802,9 @@ export const useUserStore = defineStore('user', () => {
       profile.value = null
       bookmarks.value = []
       notes.value = []
+      notebooks.value = []
       highlights.value = []
+      highlightCategories.value = []
 
       // Reset preferences to defaults
       preferences.value = {
@@ -493,7 +813,9 @@ export const useUserStore = defineStore('user', () => {
         defaultVersion: 'kjv',
         autoSync: true,
         notificationsEnabled: true,
-        verseOfTheDayEnabled: true
+        verseOfTheDayEnabled: true,
+        showFootnotes: true,
+        showHeadings: true
       }
 
       syncStatus.value = 'synced'
@@ -511,18 +833,30 @@ export const useUserStore = defineStore('user', () => {
     )
   }
 
+  // Notes on the verse and every range note covering it; chapter notes are shown with the chapter
   function getNotesForVerse(book: string, chapter: number, verse: number): Note[] {
     return notes.value.filter(
-      n => n.book === book && n.chapter === chapter && n.verse === verse
+      n => getNoteScope(n) !== 'chapter' && noteCoversVerse(n, book, chapter, verse)
     )
   }
 
-  function getHighlightsForVerse(book: string, chapter: number, verse: number): Highlight[] {
-    return highlights.value.filter(
-      h => h.book === book && h.chapter === chapter && h.verse === verse
+  function getChapterNotes(book: string, chapter: number): Note[] {
+    return notes.value.filter(
+      n => getNoteScope(n) === 'chapter' && noteOverlapsChapter(n, book, chapter)
     )
   }
 
+  // Backlinks: notes whose [[...]] links cover the verse, wherever they are attached
+  function getNotesMentioningVerse(book: string, chapter: number, verse: number): Note[] {
+    return noteVerseLinks.value
+      .filter(entry => entry.passages.some(passage => passageIncludesVerse(passage, book, chapter, verse)))
+      .map(entry => entry.note)
+  }
+
+  function getHighlightsForVerse(book: string, chapter: number, verse: number): Highlight[] {
+    return highlights.value.filter(h => highlightCoversVerse(h, book, chapter, verse))
+  }
+
   function isVerseBookmarked(book: string, chapter: number, verse: number): boolean {
     return bookmarks.value.some(
       b => b.book === book && b.chapter === chapter && b.verse === verse
@@ -557,7 +891,9 @@ export const useUserStore = defineStore('user', () => {
     preferences,
     bookmarks,
     notes,
+    notebooks,
     highlights,
+    highlightCategories,
     isLoading,
     syncStatus,
     lastSyncTime,
@@ -566,7 +902,10 @@ export const useUserStore = defineStore('user', () => {
     isAuthenticated,
     bookmarksWithReferences,
     notesWithReferences,
+    sortedNotebooks,
+    noteTags,
     highlightsWithReferences,
+    sortedHighlightCategories,
     bookmarksByBook,
     recentNotes,
     pendingSyncItems,
@@ -579,14 +918,30 @@ export const useUserStore = defineStore('user', () => {
     addBookmark,
     removeBookmark,
     addNote,
+    addPassageNote,
     updateNote,
     removeNote,
+    getNoteRevisions,
+    restoreNoteRevision,
+    addNotebook,
+    updateNotebook,
+    removeNotebook,
+    reorderNotebookNotes,
+    getNotebookNotes,
     addHighlight,
     removeHighlight,
+    setHighlightCategory,
+    getHighlightCategory,
+    getHighlightColor,
+    addHighlightCategory,
+    updateHighlightCategory,
+    removeHighlightCategory,
     syncUserData,
     clearUserData,
     getBookmarksForVerse,
     getNotesForVerse,
+    getChapterNotes,
+    getNotesMentioningVerse,
     getHighlightsForVerse,
     isVerseBookmarked,
     hydrateFromStorage,
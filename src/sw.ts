@@ -0,0 +1,158 @@
+/**
+ * Service Worker
+ * Precaches the app and caches Bible and Supabase API responses, and shows reminders
+ * while the app is closed: due reminders are checked whenever the browser wakes the
+ * worker, and where notification triggers exist the next occurrence of each is handed
+ * to the browser to show at its exact time.
+ */
+
+import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching'
+import { registerRoute } from 'workbox-routing'
+import { CacheFirst, NetworkFirst } from 'workbox-strategies'
+import { ExpirationPlugin } from 'workbox-expiration'
+import { clientsClaim } from 'workbox-core'
+import { reminderDB } from '@/services/reminderDB'
+import {
+  REMINDER_SYNC_TAG,
+  SNOOZE_ACTION,
+  buildReminderNotification,
+  getReminderUrl
+} from '@/utils/reminders'
+import type { ReminderMessage, ReminderNotification, ReminderNotificationData } from '@/types/reminders'
+
+declare let self: ServiceWorkerGlobalScope & {
+  __WB_MANIFEST: Parameters<typeof precacheAndRoute>[0]
+}
+
+// Notification triggers and periodic sync aren't in the WebWorker typings yet
+declare class TimestampTrigger {
+  constructor(timestamp: number)
+}
+
+interface PeriodicSyncEvent extends ExtendableEvent {
+  readonly tag: string
+}
+
+const supportsTriggers = typeof Notification !== 'undefined' && 'showTrigger' in Notification.prototype
+
+self.skipWaiting()
+clientsClaim()
+
+/**
+ * Caching
+ */
+
+cleanupOutdatedCaches()
+precacheAndRoute(self.__WB_MANIFEST)
+
+registerRoute(
+  /^https:\/\/api\.scripture\.api\.bible\/.*/i,
+  new CacheFirst({
+    cacheName: 'bible-api-cache',
+    plugins: [
+      new ExpirationPlugin({
+        maxEntries: 100,
+        maxAgeSeconds: 60 * 60 * 24 * 30 // 30 days
+      })
+    ]
+  })
+)
+
+registerRoute(
+  /^https:\/\/.*\.supabase\.co\/rest\/.*/i,
+  new NetworkFirst({
+    cacheName: 'supabase-api-cache',
+    networkTimeoutSeconds: 3,
+    plugins: [
+      new ExpirationPlugin({
+        maxEntries: 50,
+        maxAgeSeconds: 60 * 60 * 24 // 1 day
+      })
+    ]
+  })
+)
+
+/**
+ * Reminders
+ */
+
+async function showReminder({ title, options }: ReminderNotification): Promise<void> {
+  await self.registration.showNotification(title, options)
+}
+
+// Show what is due, then have the browser show each reminder's next occurrence on time
+async function deliverReminders(): Promise<void> {
+  await reminderDB.deliverDue(showReminder)
+  if (supportsTriggers) await scheduleTriggers()
+}
+
+async function scheduleTriggers(): Promise<void> {
+  // Drop triggers for reminders that were turned off
+  const reminderIds = new Set(await reminderDB.reminders.toCollection().primaryKeys())
+  const notifications = await self.registration.getNotifications({ includeTriggered: true } as GetNotificationOptions)
+  for (const notification of notifications) {
+    const data = notification.data as ReminderNotificationData | undefined
+    if (data?.reminderId && !reminderIds.has(data.reminderId)) notification.close()
+  }
+
+  // Same tag as any trigger already set for the reminder, which this replaces
+  for (const reminder of await reminderDB.getUnscheduled()) {
+    const { title, options } = buildReminderNotification(reminder)
+    await self.registration.showNotification(title, {
+      ...options,
+      showTrigger: new TimestampTrigger(reminder.nextAt.getTime())
+    } as NotificationOptions)
+    await reminderDB.markScheduled(reminder.id, reminder.nextAt)
+  }
+}
+
+// Route an open tab to the page, or open one there
+async function openRoute(url: string): Promise<void> {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  const client = windows.find(tab => tab.focused) ?? windows[0]
+
+  if (!client) {
+    await self.clients.openWindow(url)
+    return
+  }
+
+  await client.focus()
+  const message: ReminderMessage = { type: 'REMINDER_NAVIGATE', payload: { url } }
+  client.postMessage(message)
+}
+
+async function handleReminderClick(data: ReminderNotificationData, action: string): Promise<void> {
+  if (action === SNOOZE_ACTION) {
+    await reminderDB.snooze(data.reminderId)
+  } else {
+    await openRoute(getReminderUrl(data, action))
+  }
+
+  // The click woke the worker, so catch up on what is due while it is awake
+  await deliverReminders()
+}
+
+self.addEventListener('activate', event => {
+  event.waitUntil(deliverReminders())
+})
+
+self.addEventListener('periodicsync', event => {
+  const periodicSync = event as PeriodicSyncEvent
+  if (periodicSync.tag === REMINDER_SYNC_TAG) {
+    periodicSync.waitUntil(deliverReminders())
+  }
+})
+
+self.addEventListener('message', event => {
+  if ((event.data as ReminderMessage | undefined)?.type === 'REMINDERS_UPDATED') {
+    event.waitUntil(deliverReminders())
+  }
+})
+
+self.addEventListener('notificationclick', event => {
+  const data = event.notification.data as ReminderNotificationData | undefined
+  if (!data?.reminderId) return
+
+  event.notification.close()
+  event.waitUntil(handleReminderClick(data, event.action))
+})
@@ -1,6 +1,7 @@
 import { vi } from 'vitest'
 import { createPinia, setActivePinia } from 'pinia'
 import type { ComponentMountingOptions } from '@vue/test-utils'
+import type { DeltaInserts, DeltaRows, DeltaSyncRemote, DeltaTable } from '@/types/deltaSync'
 
 /**
  * Test utilities for Illumine Bible App
@@ -335,6 +336,98 @@ export const createMockSupabase = () => ({
   limit: vi.fn().mockReturnThis()
 })
 
+// A row as the delta sync stand-in keeps it: what was written, plus the columns the server sets
+type MemoryDeltaRow<T extends DeltaTable> = DeltaInserts[T] & Pick<DeltaRows[T], 'id' | 'updated_at' | 'deleted_at' | 'sync_version'>
+
+// Delta sync stand-in for Supabase: rows are stamped from one version sequence, upserted
+// by client_id and tombstoned on delete, as the delta sync migration sets up
+export const createMemoryDeltaRemote = () => {
+  const tables: { [T in DeltaTable]: MemoryDeltaRow<T>[] } = { bookmarks: [], notes: [], highlights: [] }
+  let version = 0
+  let nextId = 1
+
+  // Store a row under a version taken when its write started
+  const store = <T extends DeltaTable>(table: T, row: DeltaInserts[T], syncVersion: number): MemoryDeltaRow<T> => {
+    const rows: MemoryDeltaRow<T>[] = tables[table]
+    const existing = rows.find(candidate => row.id !== undefined
+      ? candidate.id === row.id
+      : !!row.client_id && candidate.user_id === row.user_id && candidate.client_id === row.client_id)
+    const stored = {
+      updated_at: new Date().toISOString(),
+      deleted_at: null,
+      ...existing,
+      ...row,
+      id: existing?.id ?? nextId++,
+      sync_version: syncVersion
+    } as MemoryDeltaRow<T>
+    if (existing) rows.splice(rows.indexOf(existing), 1)
+    rows.push(stored)
+    return stored
+  }
+
+  // A write from any device; rows without a client_id stand in for ones from before client ids
+  const write = <T extends DeltaTable>(table: T, row: DeltaInserts[T]) => store(table, row, ++version)
+
+  // A write whose version is taken now but which only shows once committed, as a
+  // transaction that commits after later ones does
+  const startWrite = <T extends DeltaTable>(table: T, row: DeltaInserts[T]) => {
+    const reserved = ++version
+    return { commit: () => store(table, row, reserved) }
+  }
+
+  const update = <T extends DeltaTable>(table: T, match: (row: MemoryDeltaRow<T>) => boolean, changes: Partial<DeltaInserts[T]>) => {
+    const matched = (tables[table] as MemoryDeltaRow<T>[]).filter(match)
+    matched.forEach(row => write(table, { ...row, ...changes }))
+    return matched.length
+  }
+
+  const remote: DeltaSyncRemote & {
+    tables: typeof tables
+    write: typeof write
+    startWrite: typeof startWrite
+  } = {
+    tables,
+    write,
+    startWrite,
+
+    async fetchChanges<T extends DeltaTable>(table: T, userId: string, afterVersion: number, limit: number) {
+      const rows: MemoryDeltaRow<T>[] = tables[table]
+      return rows
+        .filter(row => row.user_id === userId && row.sync_version > afterVersion)
+        .sort((a, b) => a.sync_version - b.sync_version)
+        .slice(0, limit)
+        .map(row => ({ ...row }) as DeltaRows[T])
+    },
+
+    async upsertRow(table, row) {
+      write(table, row)
+    },
+
+    async tombstoneRow(table, userId, clientId, legacy) {
+      const now = new Date().toISOString()
+      const tombstone = { deleted_at: now, updated_at: now }
+      if (update(table, row => row.user_id === userId && row.client_id === clientId, tombstone) > 0 || !legacy) return
+
+      update(table, row =>
+        row.user_id === userId && !row.client_id && !row.deleted_at &&
+        row.book === legacy.book && row.chapter === legacy.chapter && row.verse === legacy.verse &&
+        (legacy.color_hex === undefined || ('color_hex' in row && row.color_hex === legacy.color_hex)),
+      tombstone)
+    },
+
+    async claimRow(table, rowId, clientId) {
+      const row = tables[table].find(candidate => candidate.id === rowId)
+      if (!row) throw new Error(`No ${table} row ${rowId}`)
+      if (tables[table].some(candidate => candidate.user_id === row.user_id && candidate.client_id === clientId)) {
+        throw Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' })
+      }
+      update(table, candidate => candidate === row, { client_id: clientId })
+    }
+  }
+
+  return remote
+}
+
 // Test data sets
 export const testBibleBooks = [
   { id: 'gen', name: 'Genesis', chapters: 50, order: 1 },
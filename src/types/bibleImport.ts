@@ -0,0 +1,69 @@
+/**
+ * Bible Import Types
+ * Parsed books and validation reports for importing USFM, OSIS, Zefania XML and USX files
+ */
+
+import type { BibleVersion } from './index'
+import type { VerseMarkup } from './verseContent'
+
+export type BibleFileFormat = 'usfm' | 'osis' | 'zefania' | 'usx'
+
+export interface BibleImportFile {
+  name: string
+  content: string
+}
+
+export interface ParsedVerse {
+  chapter: number
+  verse: number
+  endVerse?: number // set for combined verses such as "\v 1-2"
+  text: string
+  markup?: VerseMarkup
+}
+
+export interface ParsedBook {
+  id: string // canonical book id, e.g. "JHN"; the source code when it is not recognised
+  name?: string // name given in the file
+  verses: ParsedVerse[]
+  issues: ImportIssue[] // problems found while parsing
+}
+
+export interface ParsedBibleFile {
+  format: BibleFileFormat
+  metadata: {
+    name?: string
+    abbreviation?: string
+    language?: string
+  }
+  books: ParsedBook[]
+}
+
+export interface ImportIssue {
+  severity: 'error' | 'warning' // books with errors are not imported
+  message: string
+  chapter?: number
+  verse?: number
+}
+
+export interface BookImportReport {
+  book: string
+  name: string
+  chapterCount: number
+  verseCount: number
+  issues: ImportIssue[]
+  imported: boolean
+}
+
+export interface BibleImportOptions {
+  format?: BibleFileFormat // detected from the content when omitted
+  id?: string
+  name?: string
+  abbreviation?: string
+  language?: string
+}
+
+export interface BibleImportResult {
+  version: BibleVersion
+  books: BookImportReport[]
+  verseCount: number
+}
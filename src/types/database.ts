@@ -20,14 +20,38 @@ export type Note = Database['public']['Tables']['notes']['Row']
 export type NoteInsert = Database['public']['Tables']['notes']['Insert']
 export type NoteUpdate = Database['public']['Tables']['notes']['Update']
 
+export type NotebookRow = Database['public']['Tables']['note_notebooks']['Row']
+export type NotebookInsert = Database['public']['Tables']['note_notebooks']['Insert']
+
+export type NoteRevisionRow = Database['public']['Tables']['note_revisions']['Row']
+export type NoteRevisionInsert = Database['public']['Tables']['note_revisions']['Insert']
+
 export type Highlight = Database['public']['Tables']['highlights']['Row']
 export type HighlightInsert = Database['public']['Tables']['highlights']['Insert']
 export type HighlightUpdate = Database['public']['Tables']['highlights']['Update']
 
+export type HighlightCategoryRow = Database['public']['Tables']['highlight_categories']['Row']
+export type HighlightCategoryInsert = Database['public']['Tables']['highlight_categories']['Insert']
+
 export type VerseOfTheDay = Database['public']['Tables']['verse_of_the_day']['Row']
 export type VerseOfTheDayInsert = Database['public']['Tables']['verse_of_the_day']['Insert']
 export type VerseOfTheDayUpdate = Database['public']['Tables']['verse_of_the_day']['Update']
 
+export type MemorizationCardRow = Database['public']['Tables']['memorization_cards']['Row']
+export type MemorizationCardInsert = Database['public']['Tables']['memorization_cards']['Insert']
+
+export type MemorizationReviewRow = Database['public']['Tables']['memorization_reviews']['Row']
+export type MemorizationReviewInsert = Database['public']['Tables']['memorization_reviews']['Insert']
+
+export type VerseCollectionRow = Database['public']['Tables']['verse_collections']['Row']
+export type VerseCollectionInsert = Database['public']['Tables']['verse_collections']['Insert']
+
+export type CollectionVerseRow = Database['public']['Tables']['collection_verses']['Row']
+export type CollectionVerseInsert = Database['public']['Tables']['collection_verses']['Insert']
+
+export type UserMoodRow = Database['public']['Tables']['user_moods']['Row']
+export type UserMoodInsert = Database['public']['Tables']['user_moods']['Insert']
+
 // Extended interfaces with computed properties and application logic
 export interface BibleVersionWithStatus extends BibleVersion {
   isDownloaded: boolean
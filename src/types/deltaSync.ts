@@ -0,0 +1,55 @@
+// Types for incremental (delta) sync of bookmarks, notes and highlights
+import type {
+  Bookmark as BookmarkRow,
+  BookmarkInsert,
+  Highlight as HighlightRow,
+  HighlightInsert,
+  Note as NoteRow,
+  NoteInsert
+} from './database'
+
+// Tables pulled by cursor instead of in full
+export type DeltaTable = 'bookmarks' | 'notes' | 'highlights'
+
+export interface DeltaRows {
+  bookmarks: BookmarkRow
+  notes: NoteRow
+  highlights: HighlightRow
+}
+
+export interface DeltaInserts {
+  bookmarks: BookmarkInsert
+  notes: NoteInsert
+  highlights: HighlightInsert
+}
+
+// How far a device has read a table: rows up to this server version have been applied
+export interface SyncCursor {
+  version: number // highest sync_version applied
+  updatedAt: string | null // updated_at of the newest row applied, for display
+  recentVersions: number[] // versions applied within the lookback below version
+}
+
+// Where a row from before client ids was made, for matching it to a local row once
+export interface LegacyRowKey {
+  book: string | null
+  chapter: number | null
+  verse: number | null
+  color_hex?: string
+}
+
+/**
+ * The server side of delta sync. Supabase in the app; tests use an in-memory stand-in.
+ * Rows are written by the id the client made them with (client_id) and deleting
+ * one leaves a tombstone (deleted_at), so every change reaches other devices.
+ */
+export interface DeltaSyncRemote {
+  // Changes after a version, oldest first, tombstones included
+  fetchChanges<T extends DeltaTable>(table: T, userId: string, afterVersion: number, limit: number): Promise<DeltaRows[T][]>
+  // Create or replace the row with this client_id; safe to repeat
+  upsertRow<T extends DeltaTable>(table: T, row: DeltaInserts[T] & { client_id: string; user_id: string }): Promise<void>
+  // Mark the row deleted; rows from before client ids are found by where they were made
+  tombstoneRow(table: DeltaTable, userId: string, clientId: string, legacy?: LegacyRowKey): Promise<void>
+  // Give a row from before client ids the id of the local row it matched
+  claimRow(table: DeltaTable, rowId: number, clientId: string): Promise<void>
+}
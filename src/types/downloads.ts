@@ -0,0 +1,55 @@
+/**
+ * Download Types
+ * Persisted state for resumable, chunked Bible version downloads
+ */
+
+export type VersionDownloadStatus =
+  | 'downloading'
+  | 'paused'
+  | 'validating'
+  | 'indexing'
+  | 'completed'
+  | 'failed'
+
+/**
+ * One row per version being downloaded. Removed when the download is
+ * cancelled; kept after completion so the manager can show when it finished.
+ */
+export interface VersionDownload {
+  version: string
+  status: VersionDownloadStatus
+  totalChapters: number
+  completedChapters: number
+  failedChapters: number
+  startedAt: Date
+  updatedAt: Date
+  completedAt?: Date
+  error?: string
+}
+
+export type ChapterDownloadStatus = 'pending' | 'completed' | 'failed'
+
+/**
+ * Progress of a single chapter - the unit a download is split into
+ */
+export interface ChapterDownload {
+  id: string // `${version}:${book}.${chapter}`
+  version: string
+  book: string
+  chapter: number
+  status: ChapterDownloadStatus
+  attempts: number
+  verseCount?: number
+  lastError?: string
+  updatedAt: Date
+}
+
+export interface DownloadProgress {
+  version: string
+  status: VersionDownloadStatus | 'cancelled' // cancelled is only reported, never stored
+  completedChapters: number
+  failedChapters: number
+  totalChapters: number
+  percent: number
+  error?: string
+}
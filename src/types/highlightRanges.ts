@@ -0,0 +1,17 @@
+/**
+ * Highlight Range Types
+ * Highlights that run across verses, and overlapping highlights split into layered pieces
+ */
+
+// Which part of a highlight a verse holds. 'single' is a highlight on just that verse.
+export type HighlightVersePart = 'single' | 'first' | 'middle' | 'last'
+
+export interface OffsetRange {
+  startOffset: number
+  endOffset: number
+}
+
+// A stretch of text covered by the same highlights, bottom layer first
+export interface LayeredPiece<T extends OffsetRange> extends OffsetRange {
+  layers: T[]
+}
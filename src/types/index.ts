@@ -1,5 +1,9 @@
 // Core data types for the Illumine Bible App
 
+import type { VerseToken } from './verseContent'
+import type { VersificationScheme } from './versification'
+import type { TextQuote, VerseAnchor } from './verseAnchors'
+
 // Base types
 export type FontSize = 'small' | 'medium' | 'large' | 'extra-large'
 export type Theme = 'light' | 'dark' | 'system'
@@ -23,6 +27,9 @@ export interface UserPreferences {
   notificationsEnabled: boolean
   verseOfTheDayEnabled: boolean
   readingPlan?: string
+  showFootnotes?: boolean // footnote and cross-reference markers in the reader
+  showHeadings?: boolean // section headings in the reader
+  showHighlightLegend?: boolean // highlight category legend over the reader
 }
 
 // Bible content interfaces
@@ -35,6 +42,7 @@ export interface BibleVersion {
   isDownloaded: boolean
   downloadSize: number
   createdAt?: Date
+  versification?: VersificationScheme // detected from the version when not set
 }
 
 export interface Book {
@@ -53,6 +61,7 @@ export interface Verse {
   verse: number
   text: string
   version: string
+  content?: VerseToken[] // structured content when the source has more than plain text
 }
 
 export interface Chapter {
@@ -63,7 +72,8 @@ export interface Chapter {
 }
 
 // User content interfaces
-export interface Bookmark {
+// book/chapter/verse use English numbering; the anchor is missing on content saved before anchoring
+export interface Bookmark extends Partial<VerseAnchor> {
   id: string
   userId: string
   book: string
@@ -73,28 +83,91 @@ export interface Bookmark {
   syncStatus: SyncStatus
 }
 
-export interface Note {
+// A note covers a passage like ScripturePassage does: one verse, a range through
+// endChapter/endVerse, a whole chapter (no verse) or nothing at all (no book)
+export interface Note extends Partial<VerseAnchor> {
   id: string
   userId: string
-  book: string
-  chapter: number
-  verse: number
+  book: string | null
+  chapter: number | null
+  verse: number | null
+  endChapter?: number | null
+  endVerse?: number | null
   content: string
+  notebookId?: string | null
+  position?: number // order within the notebook
+  tags?: string[]
   createdAt: Date
   updatedAt: Date
   syncStatus: SyncStatus
 }
 
-export interface Highlight {
+export type NoteScope = 'verse' | 'range' | 'chapter' | 'none'
+
+// Named collection of notes for a study or sermon series
+export interface Notebook {
+  id: string
+  userId: string
+  name: string
+  description?: string
+  position: number
+  createdAt: Date
+  updatedAt: Date
+  syncStatus: SyncStatus
+}
+
+// How a revision came about: an edit, restoring an older revision, or the other side of a sync conflict
+export type NoteRevisionOrigin = 'edit' | 'restore' | 'conflict'
+
+// Append-only snapshot of a note's content. Revisions that share a parent are siblings,
+// which is how both sides of a sync conflict are kept.
+export interface NoteRevision {
+  id: string
+  noteId: string
+  userId: string
+  parentRevisionId: string | null
+  content: string
+  origin: NoteRevisionOrigin
+  createdAt: Date
+  syncStatus: SyncStatus
+}
+
+// How a highlight is drawn: a background fill, an underline, or a box around the words
+export type HighlightStyle = 'fill' | 'underline' | 'box'
+
+export interface Highlight extends Partial<VerseAnchor> {
   id: string
   userId: string
   book: string
   chapter: number
   verse: number
+  endChapter?: number | null // last verse of a highlight that runs across verses
+  endVerse?: number | null
+  colorHex: string
+  categoryId?: string | null // when set, the category's color is shown instead of colorHex
+  style?: HighlightStyle // fill when missing
+  startOffset?: number // offsets into the source version's verse text; across verses, into the first verse
+  endOffset?: number // across verses, into the last verse
+  quote?: TextQuote // across verses, the highlighted words of the first verse
+  endQuote?: TextQuote // the highlighted words of the last verse
+  createdAt: Date
+  syncStatus: SyncStatus
+}
+
+// What a new highlight can carry beyond its first verse, color and offsets
+export type HighlightDetails = Partial<Pick<Highlight, 'categoryId' | 'style' | 'endChapter' | 'endVerse' | 'endQuote'>>
+
+// User-defined meaning for a highlight color, e.g. promises in green
+export interface HighlightCategory {
+  id: string
+  userId: string
+  name: string
   colorHex: string
-  startOffset?: number
-  endOffset?: number
+  icon?: string // a short emoji or symbol shown in the legend
+  description?: string
+  position: number
   createdAt: Date
+  updatedAt: Date
   syncStatus: SyncStatus
 }
 
@@ -126,7 +199,7 @@ export interface BookmarkWithReference extends Bookmark {
 }
 
 export interface NoteWithReference extends Note {
-  reference: string // e.g., "John 3:16"
+  reference: string // e.g., "John 3:16", "Ephesians 2:1-10" or "Unattached"
   wordCount: number
   isRecent: boolean
 }
@@ -134,6 +207,7 @@ export interface NoteWithReference extends Note {
 export interface HighlightWithReference extends Highlight {
   reference: string // e.g., "John 3:16"
   colorName: string // Human-readable color name
+  categoryName?: string
 }
 
 export interface BibleVersionWithStatus extends BibleVersion {
@@ -192,7 +266,22 @@ export interface ValidationResult {
 export interface SyncOperation {
   id: string
   operation: 'create' | 'update' | 'delete'
-  entityType: 'bookmark' | 'note' | 'highlight'
+  entityType:
+    | 'bookmark'
+    | 'note'
+    | 'notebook'
+    | 'note_revision'
+    | 'highlight'
+    | 'highlight_category'
+    | 'profile'
+    | 'preferences'
+    | 'reading_plan'
+    | 'reading_plan_progress'
+    | 'memorization_card'
+    | 'memorization_review'
+    | 'verse_collection'
+    | 'collection_verse'
+    | 'mood'
   entityId: string
   data: unknown
   timestamp: Date
@@ -0,0 +1,31 @@
+/**
+ * Note Markdown Types
+ * Notes are written in a small markdown dialect - headings, lists, quotes,
+ * emphasis, code and links - plus [[Rom 8:28]] verse links that create backlinks
+ */
+
+import type { ScripturePassage } from './scriptureReference'
+
+// [[Rom 8:28]] or [[Rom 8:28|label]]; no passages when the reference can't be read
+export interface NoteVerseLink {
+  type: 'verseLink'
+  reference: string
+  label: string
+  passages: ScripturePassage[]
+}
+
+export type NoteInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: NoteInline[] }
+  | { type: 'emphasis'; children: NoteInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: NoteInline[] }
+  | { type: 'break' } // a single newline inside a paragraph
+  | NoteVerseLink
+
+export type NoteBlock =
+  | { type: 'heading'; level: number; children: NoteInline[] } // 1-6
+  | { type: 'paragraph'; children: NoteInline[] }
+  | { type: 'list'; ordered: boolean; items: NoteInline[][] }
+  | { type: 'quote'; children: NoteInline[] }
+  | { type: 'rule' }
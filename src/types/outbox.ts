@@ -0,0 +1,65 @@
+/**
+ * Outbox Types
+ * Local changes waiting to be pushed: one typed operation per change to a synced
+ * entity, and the state of the queue they wait in
+ */
+
+import type {
+  SyncOperation,
+  Bookmark,
+  Note,
+  Notebook,
+  NoteRevision,
+  Highlight,
+  HighlightCategory,
+  UserProfile,
+  UserPreferences
+} from './index'
+import type { ReadingPlanEnrollment, ReadingPlanDayProgress } from './readingPlans'
+import type { MemorizationCard, MemorizationReviewLog } from './quickWins'
+import type { VerseCollection, CollectionVerse, UserMood } from './personalization'
+
+export type OutboxEntityType = SyncOperation['entityType']
+
+export type OutboxOperationKind = SyncOperation['operation']
+
+// What an operation on each entity type carries; deletes may carry what was deleted
+export interface OutboxEntityData {
+  bookmark: Bookmark
+  note: Note
+  notebook: Notebook
+  note_revision: NoteRevision
+  highlight: Highlight
+  highlight_category: HighlightCategory
+  profile: UserProfile
+  preferences: UserPreferences
+  reading_plan: ReadingPlanEnrollment
+  reading_plan_progress: ReadingPlanDayProgress
+  memorization_card: MemorizationCard
+  memorization_review: MemorizationReviewLog
+  verse_collection: VerseCollection
+  collection_verse: CollectionVerse
+  mood: UserMood
+}
+
+// 'held' keeps an operation queued without counting a retry, e.g. while it is in conflict
+export type OutboxPushOutcome = 'pushed' | 'held'
+
+export interface OutboxDrainResult {
+  pushed: number
+  held: number
+  waiting: number // failed, backing off, or behind an earlier operation on the same entity
+  errors: Error[]
+  nextRetryAt?: Date
+}
+
+export interface OutboxStatus {
+  total: number
+  pending: number // ready to push
+  retrying: number // backing off after an error
+  failed: number // out of retries until retried by hand
+  conflicts: number // waiting for a conflict to be resolved
+  byEntity: Partial<Record<OutboxEntityType, number>>
+  oldestQueuedAt?: Date
+  nextRetryAt?: Date
+}
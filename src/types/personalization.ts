@@ -3,6 +3,8 @@
  * TypeScript interfaces for AI recommendations, mood tracking, analytics, and collections
  */
 
+import type { SyncStatus } from './index'
+
 export interface ReadingAnalytics {
   id: string
   userId: string
@@ -54,9 +56,18 @@ export interface VerseCollection {
   icon: string
   isPublic: boolean
   tags: string[]
+  sections: CollectionSection[] // in display order
+  rule?: SmartCollectionRule | null // smart collections list what the rule matches instead of saved verses
   verseCount?: number
   createdAt: Date
   updatedAt: Date
+  syncStatus: SyncStatus
+}
+
+// A named group of verses inside a collection
+export interface CollectionSection {
+  id: string
+  name: string
 }
 
 export interface CollectionVerse {
@@ -67,7 +78,48 @@ export interface CollectionVerse {
   bibleVersionId: string
   verseText: string
   notes?: string
+  sectionId: string | null // null for verses before the first section
+  position: number // order within the whole collection
   addedAt: Date
+  updatedAt: Date
+  syncStatus: SyncStatus
+}
+
+// Where a smart collection's verses come from
+export type SmartCollectionSource = 'highlights' | 'bookmarks' | 'notes' | 'search'
+
+// A saved query a smart collection is evaluated from; every condition that is set must hold
+export interface SmartCollectionRule {
+  source: SmartCollectionSource
+  scope?: string // books or passages to look in, e.g. "Psalms", "Pentateuch" or "Romans 5-8"
+  colorHex?: string // highlights shown in this color
+  categoryId?: string // highlights in this category
+  noteTag?: string // verses with a note carrying this tag; for notes, the notes themselves
+  query?: string // search syntax, for the search source
+  version: string // the Bible version searched and quoted from
+}
+
+// A passage a smart collection's rule picked up, with the item that matched it
+export interface SmartCollectionMatch {
+  sourceId: string
+  book: string
+  chapter: number
+  verse: number
+  endChapter?: number
+  endVerse?: number
+  verseText?: string // search hits come with their text
+  matchedAt: Date // when the highlight, bookmark or note was made
+}
+
+export type CollectionWithVerses = VerseCollection & { verses: CollectionVerse[] }
+
+// A collection as shared with another user: no ids or owner, so importing makes a new copy
+export interface CollectionBundle {
+  format: 'illumine-collection'
+  version: 1
+  exportedAt: string
+  collection: Pick<VerseCollection, 'name' | 'description' | 'color' | 'icon' | 'tags' | 'sections' | 'rule'>
+  verses: Array<Pick<CollectionVerse, 'verseId' | 'verseReference' | 'bibleVersionId' | 'verseText' | 'notes' | 'sectionId'>>
 }
 
 export interface AIRecommendation {
@@ -3,19 +3,30 @@
  * TypeScript interfaces for memorization, achievements, streaks, and sharing
  */
 
-export interface MemorizationCard {
+import type { SyncStatus, Verse } from './index'
+import type { ScripturePassage } from './scriptureReference'
+
+export interface MemorizationCard extends SchedulingState {
   id: string
   userId: string
-  verseId: string
+  verseId: string // first verse of a passage chunk
   verseText: string
   verseReference: string
   bibleVersionId: string
   difficulty: 'easy' | 'medium' | 'hard'
+  algorithm: SchedulingAlgorithm // the scheduler that set nextReview
+  reviewMode: ReviewMode | null // preferred exercise, null to use the session's
+  passageId: string | null // shared by the chunk cards of one passage
+  passageReference: string | null
+  chunkIndex: number | null // 0-based chunk, null for the whole-passage recitation
+  chunkCount: number | null
+  locked: boolean // waiting for the chunks before it; never due while locked
   nextReview: Date
   reviewCount: number
   mastered: boolean
   createdAt: Date
   updatedAt: Date
+  syncStatus: SyncStatus
 }
 
 export interface ReadingStreak {
@@ -78,6 +89,19 @@ export interface MemorizationStats {
   reviewsDue: number
   streakDays: number
   accuracy: number
+  reviewsToday: number
+  passages: PassageProgress[]
+}
+
+export interface PassageProgress {
+  passageId: string
+  reference: string
+  chunkCount: number
+  unlockedChunks: number
+  learnedChunks: number // reached the unlock threshold
+  recitationUnlocked: boolean
+  mastered: boolean // the whole-passage recitation is mastered
+  progress: number // 0-100
 }
 
 // Achievement System Types
@@ -122,14 +146,16 @@ export interface ShareResult {
 
 // Quick Lookup Types
 export interface VerseReference {
-  book: string
+  book: string // display name
+  bookId: string // canonical book id, e.g. "JHN"
   chapter: number
   verse?: number
   endVerse?: number
 }
 
 export interface ParsedReference {
-  reference: VerseReference
+  reference: VerseReference // the first passage
+  passages: ScripturePassage[]
   confidence: number
   suggestions?: string[]
 }
@@ -150,9 +176,85 @@ export interface SpacedRepetitionConfig {
   quality: number // 0-5 scale
 }
 
-export interface ReviewSchedule {
+export interface ReviewSchedule extends SchedulingState {
   cardId: string
   nextReview: Date
+}
+
+export type SchedulingAlgorithm = 'sm2' | 'fsrs'
+
+/**
+ * Per-card scheduling state. SM-2 uses the ease factor; FSRS uses stability and
+ * memory difficulty. Both keep interval, repetitions and lapses, so a card can
+ * switch algorithms without starting over.
+ */
+export interface SchedulingState {
+  easeFactor: number // SM-2, 1.3 and up
+  interval: number // days until the next review, 0 for a new card
+  repetitions: number // successful reviews in a row
+  lapses: number // times the card was forgotten after being learned
+  stability: number | null // FSRS: days until recall probability falls to 90%
+  memoryDifficulty: number | null // FSRS: 1 (easy) to 10 (hard)
+  lastReviewedAt: Date | null
+}
+
+export interface MemorizationSettings {
+  algorithm: SchedulingAlgorithm
+  reviewMode: ReviewMode // for cards without a mode of their own
+  newCardsPerDay: number
+  reviewsPerDay: number
+  desiredRetention: number // FSRS target recall probability, 0.7-0.97
+  maximumInterval: number // days
+  passageChunkSize: number // verses per passage chunk
+  chunkUnlockInterval: number // days a chunk's interval must reach to unlock the next
+}
+
+// One row of the review log; streaks and daily limits are counted from these
+export interface MemorizationReviewLog {
+  id: string
+  userId: string
+  cardId: string
+  quality: number // 0-5
+  algorithm: SchedulingAlgorithm
+  reviewMode: ReviewMode
+  wasNew: boolean // first review of the card
+  previousInterval: number
   interval: number
   easeFactor: number
+  stability: number | null
+  memoryDifficulty: number | null
+  timeSpent: number // milliseconds
+  reviewedAt: Date
+  syncStatus: SyncStatus
+}
+
+// Active Recall Types
+// reveal: show the verse and self-rate; the others score the answer
+export type ReviewMode = 'reveal' | 'first-letter' | 'cloze' | 'scramble' | 'typed'
+
+export interface VerseWord {
+  text: string // as written, with punctuation
+  normalized: string // lower case letters and digits, for comparison
+}
+
+export type WordDiffStatus = 'correct' | 'close' | 'wrong' | 'missing' | 'extra'
+
+export interface WordDiff {
+  status: WordDiffStatus
+  expected?: string
+  actual?: string
+}
+
+export interface RecallResult {
+  mode: ReviewMode
+  accuracy: number // 0-1
+  quality: number // 0-5, passed to the scheduler
+  diff?: WordDiff[]
+}
+
+// Passage Memorization Types
+export interface PassageChunk {
+  verses: Verse[]
+  text: string
+  reference: string
 }
@@ -0,0 +1,103 @@
+/**
+ * Reading Plan Types
+ * TypeScript interfaces for plan definitions, enrollments and daily progress
+ */
+
+import type { SyncStatus } from './index'
+
+export type ReadingPlanType =
+  | 'mcheyne'
+  | 'chronological'
+  | 'canonical-year'
+  | 'nt-90-days'
+  | 'custom'
+
+/**
+ * A contiguous run of chapters within a single book (inclusive)
+ */
+export interface PassageRange {
+  book: string
+  startChapter: number
+  endChapter: number
+}
+
+export interface ReadingPlanDay {
+  day: number // 1-based
+  passages: PassageRange[]
+}
+
+export interface ReadingPlanDefinition {
+  id: string
+  type: ReadingPlanType
+  name: string
+  description: string
+  durationDays: number
+  days: ReadingPlanDay[]
+}
+
+export type ReadingPlanStatus = 'active' | 'paused' | 'completed'
+
+/**
+ * A missed chapter, still credited to the day it was originally assigned
+ */
+export interface ReadingPlanCatchUpEntry {
+  day: number
+  chapter: string // chapter key, e.g. "GEN.3"
+}
+
+/**
+ * Missed chapters redistributed across upcoming days by a catch-up
+ */
+export interface ReadingPlanCatchUp {
+  startDay: number
+  spreadOverDays: number
+  entries: ReadingPlanCatchUpEntry[]
+}
+
+export interface ReadingPlanEnrollment {
+  id: string
+  userId: string
+  planId: string
+  startDate: Date
+  status: ReadingPlanStatus
+  customPlan?: ReadingPlanDefinition
+  catchUp?: ReadingPlanCatchUp | null
+  pausedAt?: Date | null
+  completedAt?: Date | null
+  createdAt: Date
+  updatedAt: Date
+  syncStatus: SyncStatus
+}
+
+export interface ReadingPlanDayProgress {
+  id: string // `${enrollmentId}:${day}`
+  enrollmentId: string
+  userId: string
+  day: number
+  completedChapters: string[]
+  completedAt: Date | null
+  updatedAt: Date
+  syncStatus: SyncStatus
+}
+
+export interface DailyAssignment {
+  enrollmentId: string
+  day: number
+  date: Date
+  passages: PassageRange[]
+  chapters: string[]
+  completedChapters: string[]
+  isComplete: boolean
+  isOverdue: boolean
+}
+
+export interface ReadingPlanSummary {
+  enrollment: ReadingPlanEnrollment
+  plan: ReadingPlanDefinition
+  currentDay: number
+  completedDays: number
+  missedDays: number[]
+  percentComplete: number
+}
+
+export type CatchUpStrategy = 'reschedule' | 'spread'
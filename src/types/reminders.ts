@@ -0,0 +1,56 @@
+/**
+ * Reminder Types
+ * Daily reminders the service worker shows while the app is closed: when each one is
+ * next due, what its notification says and which route its actions open
+ */
+
+export type ReminderKind = 'reading' | 'memorization' | 'reflection' | 'prayer'
+
+// How reminders reach the user, best first: scheduled by the browser at the exact time,
+// checked by the service worker when the browser wakes it, or only while a tab is open
+export type ReminderDeliveryMode = 'triggers' | 'periodic-sync' | 'in-page'
+
+export interface ReminderAction {
+  action: string
+  title: string
+  url?: string // route it opens; actions without one (like snooze) are handled in place
+}
+
+// What a reminder is set to, before the store adds when it is next due
+export interface ReminderSchedule {
+  id: string
+  kind: ReminderKind
+  title: string
+  body: string
+  time: string // HH:MM, local time
+  days: number[] // weekdays it fires on, 0 = Sunday; empty for every day
+  url: string // opened by tapping the notification itself
+  actions: ReminderAction[]
+}
+
+export interface StoredReminder extends ReminderSchedule {
+  nextAt: Date
+  scheduledAt?: Date // a notification trigger already shows it at nextAt
+  snoozed?: boolean
+  updatedAt: Date
+}
+
+// Carried on the notification so a click can be handled without reading the store
+export interface ReminderNotificationData {
+  reminderId: string
+  url: string
+  actionUrls: Record<string, string>
+}
+
+export interface ReminderNotification {
+  title: string
+  options: NotificationOptions & {
+    actions?: { action: string; title: string }[]
+    data: ReminderNotificationData
+  }
+}
+
+// Messages between the page and the service worker about reminders
+export type ReminderMessage =
+  | { type: 'REMINDERS_UPDATED' }
+  | { type: 'REMINDER_NAVIGATE'; payload: { url: string } }
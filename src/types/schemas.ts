@@ -23,7 +23,10 @@ export const UserPreferencesSchema = z.object({
   autoSync: z.boolean(),
   notificationsEnabled: z.boolean(),
   verseOfTheDayEnabled: z.boolean(),
-  readingPlan: z.string().optional()
+  readingPlan: z.string().optional(),
+  showFootnotes: z.boolean().optional(),
+  showHeadings: z.boolean().optional(),
+  showHighlightLegend: z.boolean().optional()
 })
 
 // Bible content schemas
@@ -0,0 +1,33 @@
+/**
+ * Scripture Reference Types
+ * Parsed passages shared by quick lookup, search and the reader routes
+ */
+
+/**
+ * One contiguous passage within a book. A passage without chapters is the
+ * whole book; one without verses covers whole chapters.
+ */
+export interface ScripturePassage {
+  book: string // canonical book id, e.g. "JHN"
+  startChapter?: number
+  startVerse?: number
+  startPart?: string // verse portion, e.g. "a" in 16a
+  endChapter?: number // set whenever startChapter is
+  endVerse?: number // set whenever startVerse is
+  endPart?: string
+}
+
+export interface ReferenceParseError {
+  message: string
+  text: string // the part of the input that could not be read
+}
+
+export interface ParsedScriptureReferences {
+  passages: ScripturePassage[]
+  errors: ReferenceParseError[]
+}
+
+export interface ReferenceFormatOptions {
+  abbreviate?: boolean // "Jhn 3:16" instead of "John 3:16"
+  language?: string // book names in this language where known
+}
@@ -0,0 +1,105 @@
+/**
+ * Search Index Types
+ * TypeScript interfaces for the offline full-text inverted index
+ */
+
+/**
+ * Occurrences of a term within a single verse
+ */
+export interface SearchIndexPosting {
+  verseId: string
+  book: string
+  chapter: number
+  positions: number[] // token positions, counting stop words
+  length: number // indexed tokens in the verse, for length normalization
+}
+
+/**
+ * One row per (version, term) - the term is the normalized, stemmed form
+ */
+export interface SearchIndexEntry {
+  id: string // `${version}:${term}`
+  version: string
+  term: string
+  forms: string[] // surface words seen in the text, used for suggestions
+  docFrequency: number
+  postings: SearchIndexPosting[]
+}
+
+export interface SearchIndexMeta {
+  version: string
+  language: string
+  verseCount: number
+  termCount: number
+  averageVerseLength: number
+  analyzerVersion: number
+  indexedAt: Date
+}
+
+export interface AnalyzedToken {
+  term: string // normalized and stemmed
+  surface: string // lowercase word as written
+  position: number
+}
+
+export interface CompiledTermNode {
+  type: 'term'
+  term: string
+}
+
+export interface CompiledPhraseNode {
+  type: 'phrase'
+  terms: string[]
+  offsets: number[] // position of each term relative to the first
+}
+
+export interface CompiledWildcardNode {
+  type: 'wildcard'
+  prefix: string // literal letters before the first wildcard, normalized
+  pattern: string // regular expression source matched against surface forms
+}
+
+export interface CompiledAndNode {
+  type: 'and'
+  children: CompiledQueryNode[]
+  exclude: CompiledQueryNode[] // NOT children
+}
+
+export interface CompiledOrNode {
+  type: 'or'
+  children: CompiledQueryNode[]
+}
+
+export interface CompiledNearNode {
+  type: 'near'
+  distance: number
+  left: CompiledQueryNode
+  right: CompiledQueryNode
+}
+
+/**
+ * A query AST with its words run through the analyzer, ready to evaluate
+ * against the index. Stop words have been removed.
+ */
+export type CompiledQueryNode =
+  | CompiledTermNode
+  | CompiledPhraseNode
+  | CompiledWildcardNode
+  | CompiledAndNode
+  | CompiledOrNode
+  | CompiledNearNode
+
+/**
+ * Index rows needed by a compiled query, fetched up front so evaluation is synchronous
+ */
+export interface IndexLookup {
+  getEntry(term: string): SearchIndexEntry | undefined
+  getWildcardEntries(node: CompiledWildcardNode): SearchIndexEntry[]
+}
+
+export interface ScoredVerse {
+  verseId: string
+  book: string
+  chapter: number
+  score: number
+}
@@ -0,0 +1,69 @@
+/**
+ * Search Query Types
+ * Typed AST for the search syntax: AND/OR/NOT, parentheses, "phrases",
+ * wildcards (bless*), NEAR/n proximity and book:/chapter: field filters
+ */
+
+export interface SearchTermNode {
+  type: 'term'
+  value: string
+}
+
+export interface SearchPhraseNode {
+  type: 'phrase'
+  value: string
+}
+
+export interface SearchWildcardNode {
+  type: 'wildcard'
+  value: string // as typed, with * (any letters) and ? (one letter)
+}
+
+export interface SearchAndNode {
+  type: 'and'
+  children: SearchQueryNode[]
+}
+
+export interface SearchOrNode {
+  type: 'or'
+  children: SearchQueryNode[]
+}
+
+export interface SearchNotNode {
+  type: 'not'
+  child: SearchQueryNode
+}
+
+export type SearchProximityOperand = SearchTermNode | SearchPhraseNode | SearchWildcardNode
+
+export interface SearchNearNode {
+  type: 'near'
+  distance: number // how many word positions apart the operands may be, in either order
+  left: SearchProximityOperand
+  right: SearchProximityOperand
+}
+
+export type SearchQueryNode =
+  | SearchTermNode
+  | SearchPhraseNode
+  | SearchWildcardNode
+  | SearchAndNode
+  | SearchOrNode
+  | SearchNotNode
+  | SearchNearNode
+
+export interface SearchFieldFilters {
+  books: string[] // canonical book ids
+  chapters?: { start: number; end: number }
+}
+
+export interface SearchSyntaxError {
+  message: string
+  position: number // character offset in the query string
+}
+
+export interface ParsedSearchQuery {
+  root: SearchQueryNode | null
+  filters: SearchFieldFilters
+  errors: SearchSyntaxError[]
+}
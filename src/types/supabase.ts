@@ -1,3 +1,8 @@
+import type { ReadingPlanDefinition, ReadingPlanCatchUp, ReadingPlanStatus } from './readingPlans'
+import type { TextQuote } from './verseAnchors'
+import type { ReviewMode, SchedulingAlgorithm } from './quickWins'
+import type { CollectionSection, SmartCollectionRule } from './personalization'
+
 export interface Database {
   public: {
     Tables: {
@@ -59,27 +64,48 @@ export interface Database {
       bookmarks: {
         Row: {
           id: number
+          client_id: string | null
           user_id: string
           book: string
           chapter: number
           verse: number
+          verse_key: string | null
+          source_version: string | null
+          text_fingerprint: string | null
           created_at: string
+          updated_at: string
+          deleted_at: string | null
+          sync_version: number
         }
         Insert: {
           id?: number
+          client_id?: string | null
           user_id: string
           book: string
           chapter: number
           verse: number
+          verse_key?: string | null
+          source_version?: string | null
+          text_fingerprint?: string | null
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          sync_version?: number
         }
         Update: {
           id?: number
+          client_id?: string | null
           user_id?: string
           book?: string
           chapter?: number
           verse?: number
+          verse_key?: string | null
+          source_version?: string | null
+          text_fingerprint?: string | null
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          sync_version?: number
         }
         Relationships: [
           {
@@ -93,33 +119,66 @@ export interface Database {
       notes: {
         Row: {
           id: number
+          client_id: string | null
           user_id: string
-          book: string
-          chapter: number
-          verse: number
+          book: string | null
+          chapter: number | null
+          verse: number | null
+          end_chapter: number | null
+          end_verse: number | null
+          verse_key: string | null
+          source_version: string | null
+          text_fingerprint: string | null
           content: string
+          notebook_id: string | null
+          position: number
+          tags: string[]
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          sync_version: number
         }
         Insert: {
           id?: number
+          client_id?: string | null
           user_id: string
-          book: string
-          chapter: number
-          verse: number
+          book?: string | null
+          chapter?: number | null
+          verse?: number | null
+          end_chapter?: number | null
+          end_verse?: number | null
+          verse_key?: string | null
+          source_version?: string | null
+          text_fingerprint?: string | null
           content: string
+          notebook_id?: string | null
+          position?: number
+          tags?: string[]
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          sync_version?: number
         }
         Update: {
           id?: number
+          client_id?: string | null
           user_id?: string
-          book?: string
-          chapter?: number
-          verse?: number
+          book?: string | null
+          chapter?: number | null
+          verse?: number | null
+          end_chapter?: number | null
+          end_verse?: number | null
+          verse_key?: string | null
+          source_version?: string | null
+          text_fingerprint?: string | null
           content?: string
+          notebook_id?: string | null
+          position?: number
+          tags?: string[]
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          sync_version?: number
         }
         Relationships: [
           {
@@ -127,42 +186,167 @@ export interface Database {
             columns: ["user_id"]
             referencedRelation: "profiles"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notes_notebook_id_fkey"
+            columns: ["notebook_id"]
+            referencedRelation: "note_notebooks"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      note_notebooks: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_notebooks_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      note_revisions: {
+        Row: {
+          id: string
+          user_id: string
+          note_client_id: string
+          parent_revision_id: string | null
+          content: string
+          origin: 'edit' | 'restore' | 'conflict'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          note_client_id: string
+          parent_revision_id?: string | null
+          content: string
+          origin?: 'edit' | 'restore' | 'conflict'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          note_client_id?: string
+          parent_revision_id?: string | null
+          content?: string
+          origin?: 'edit' | 'restore' | 'conflict'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_revisions_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_revisions_note_fkey"
+            columns: ["user_id", "note_client_id"]
+            referencedRelation: "notes"
+            referencedColumns: ["user_id", "client_id"]
           }
         ]
       }
       highlights: {
         Row: {
           id: number
+          client_id: string | null
           user_id: string
           book: string
           chapter: number
           verse: number
+          end_chapter: number | null
+          end_verse: number | null
+          verse_key: string | null
+          source_version: string | null
+          text_fingerprint: string | null
+          quote: TextQuote | null
+          end_quote: TextQuote | null
           color_hex: string
+          category_id: string | null
+          style: 'fill' | 'underline' | 'box'
           start_offset: number | null
           end_offset: number | null
           created_at: string
+          updated_at: string
+          deleted_at: string | null
+          sync_version: number
         }
         Insert: {
           id?: number
+          client_id?: string | null
           user_id: string
           book: string
           chapter: number
           verse: number
+          end_chapter?: number | null
+          end_verse?: number | null
+          verse_key?: string | null
+          source_version?: string | null
+          text_fingerprint?: string | null
+          quote?: TextQuote | null
+          end_quote?: TextQuote | null
           color_hex?: string
+          category_id?: string | null
+          style?: 'fill' | 'underline' | 'box'
           start_offset?: number | null
           end_offset?: number | null
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          sync_version?: number
         }
         Update: {
           id?: number
+          client_id?: string | null
           user_id?: string
           book?: string
           chapter?: number
           verse?: number
+          end_chapter?: number | null
+          end_verse?: number | null
+          verse_key?: string | null
+          source_version?: string | null
+          text_fingerprint?: string | null
+          quote?: TextQuote | null
+          end_quote?: TextQuote | null
           color_hex?: string
+          category_id?: string | null
+          style?: 'fill' | 'underline' | 'box'
           start_offset?: number | null
           end_offset?: number | null
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          sync_version?: number
         }
         Relationships: [
           {
@@ -170,6 +354,55 @@ export interface Database {
             columns: ["user_id"]
             referencedRelation: "profiles"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "highlights_category_id_fkey"
+            columns: ["category_id"]
+            referencedRelation: "highlight_categories"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      highlight_categories: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          color_hex: string
+          icon: string | null
+          description: string | null
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          color_hex: string
+          icon?: string | null
+          description?: string | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          color_hex?: string
+          icon?: string | null
+          description?: string | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "highlight_categories_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -200,6 +433,361 @@ export interface Database {
         }
         Relationships: []
       }
+      reading_plan_enrollments: {
+        Row: {
+          id: string
+          user_id: string
+          plan_id: string
+          start_date: string
+          status: ReadingPlanStatus
+          custom_plan: ReadingPlanDefinition | null
+          catch_up: ReadingPlanCatchUp | null
+          paused_at: string | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          plan_id: string
+          start_date: string
+          status?: ReadingPlanStatus
+          custom_plan?: ReadingPlanDefinition | null
+          catch_up?: ReadingPlanCatchUp | null
+          paused_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          plan_id?: string
+          start_date?: string
+          status?: ReadingPlanStatus
+          custom_plan?: ReadingPlanDefinition | null
+          catch_up?: ReadingPlanCatchUp | null
+          paused_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_plan_enrollments_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      reading_plan_progress: {
+        Row: {
+          id: string
+          enrollment_id: string
+          user_id: string
+          day: number
+          completed_chapters: string[]
+          completed_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          enrollment_id: string
+          user_id: string
+          day: number
+          completed_chapters?: string[]
+          completed_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          enrollment_id?: string
+          user_id?: string
+          day?: number
+          completed_chapters?: string[]
+          completed_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_plan_progress_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            referencedRelation: "reading_plan_enrollments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      memorization_cards: {
+        Row: {
+          id: string
+          user_id: string
+          verse_id: string
+          verse_text: string
+          verse_reference: string
+          bible_version_id: string
+          difficulty: 'easy' | 'medium' | 'hard'
+          algorithm: SchedulingAlgorithm
+          review_mode: ReviewMode | null
+          passage_id: string | null
+          passage_reference: string | null
+          chunk_index: number | null
+          chunk_count: number | null
+          locked: boolean
+          ease_factor: number
+          interval_days: number
+          repetitions: number
+          lapses: number
+          stability: number | null
+          memory_difficulty: number | null
+          last_reviewed_at: string | null
+          next_review: string
+          review_count: number
+          mastered: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          verse_id: string
+          verse_text: string
+          verse_reference: string
+          bible_version_id: string
+          difficulty?: 'easy' | 'medium' | 'hard'
+          algorithm?: SchedulingAlgorithm
+          review_mode?: ReviewMode | null
+          passage_id?: string | null
+          passage_reference?: string | null
+          chunk_index?: number | null
+          chunk_count?: number | null
+          locked?: boolean
+          ease_factor?: number
+          interval_days?: number
+          repetitions?: number
+          lapses?: number
+          stability?: number | null
+          memory_difficulty?: number | null
+          last_reviewed_at?: string | null
+          next_review?: string
+          review_count?: number
+          mastered?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          verse_id?: string
+          verse_text?: string
+          verse_reference?: string
+          bible_version_id?: string
+          difficulty?: 'easy' | 'medium' | 'hard'
+          algorithm?: SchedulingAlgorithm
+          review_mode?: ReviewMode | null
+          passage_id?: string | null
+          passage_reference?: string | null
+          chunk_index?: number | null
+          chunk_count?: number | null
+          locked?: boolean
+          ease_factor?: number
+          interval_days?: number
+          repetitions?: number
+          lapses?: number
+          stability?: number | null
+          memory_difficulty?: number | null
+          last_reviewed_at?: string | null
+          next_review?: string
+          review_count?: number
+          mastered?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      memorization_reviews: {
+        Row: {
+          id: string
+          user_id: string
+          card_id: string
+          quality: number
+          algorithm: SchedulingAlgorithm
+          review_mode: ReviewMode
+          was_new: boolean
+          previous_interval: number
+          interval_days: number
+          ease_factor: number
+          stability: number | null
+          memory_difficulty: number | null
+          time_spent: number
+          reviewed_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          card_id: string
+          quality: number
+          algorithm: SchedulingAlgorithm
+          review_mode?: ReviewMode
+          was_new?: boolean
+          previous_interval?: number
+          interval_days: number
+          ease_factor: number
+          stability?: number | null
+          memory_difficulty?: number | null
+          time_spent?: number
+          reviewed_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          card_id?: string
+          quality?: number
+          algorithm?: SchedulingAlgorithm
+          review_mode?: ReviewMode
+          was_new?: boolean
+          previous_interval?: number
+          interval_days?: number
+          ease_factor?: number
+          stability?: number | null
+          memory_difficulty?: number | null
+          time_spent?: number
+          reviewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memorization_reviews_card_id_fkey"
+            columns: ["card_id"]
+            referencedRelation: "memorization_cards"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      verse_collections: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          color: string
+          icon: string
+          is_public: boolean
+          tags: string[]
+          sections: CollectionSection[]
+          rule: SmartCollectionRule | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          color?: string
+          icon?: string
+          is_public?: boolean
+          tags?: string[]
+          sections?: CollectionSection[]
+          rule?: SmartCollectionRule | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          color?: string
+          icon?: string
+          is_public?: boolean
+          tags?: string[]
+          sections?: CollectionSection[]
+          rule?: SmartCollectionRule | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      collection_verses: {
+        Row: {
+          id: string
+          collection_id: string
+          verse_id: string
+          verse_reference: string
+          bible_version_id: string
+          verse_text: string
+          notes: string | null
+          section_id: string | null
+          position: number
+          added_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          collection_id: string
+          verse_id: string
+          verse_reference: string
+          bible_version_id: string
+          verse_text: string
+          notes?: string | null
+          section_id?: string | null
+          position?: number
+          added_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          collection_id?: string
+          verse_id?: string
+          verse_reference?: string
+          bible_version_id?: string
+          verse_text?: string
+          notes?: string | null
+          section_id?: string | null
+          position?: number
+          added_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_verses_collection_id_fkey"
+            columns: ["collection_id"]
+            referencedRelation: "verse_collections"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_moods: {
+        Row: {
+          id: string
+          user_id: string
+          mood: string
+          intensity: number | null
+          notes: string | null
+          recommended_verses: string[] | null
+          logged_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          mood: string
+          intensity?: number | null
+          notes?: string | null
+          recommended_verses?: string[] | null
+          logged_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          mood?: string
+          intensity?: number | null
+          notes?: string | null
+          recommended_verses?: string[] | null
+          logged_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,19 @@
+/**
+ * Sync Conflict Types
+ * The two sides of a sync conflict compared field by field for the conflict center
+ */
+
+// One field of a conflicting item as it is on this device and on the server
+export interface ConflictField {
+  field: string
+  label: string
+  local: string
+  remote: string
+  changed: boolean
+}
+
+// Names for ids shown in a field, e.g. a note's notebook
+export interface ConflictFieldContext {
+  notebookName?: (notebookId: string) => string | undefined
+  categoryName?: (categoryId: string) => string | undefined
+}
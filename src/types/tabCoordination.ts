@@ -0,0 +1,22 @@
+/**
+ * Tab Coordination Types
+ * Messages between open tabs: one tab (the leader) syncs, the others forward sync
+ * requests to it, and every tab hears which user tables changed
+ */
+
+import type { BackgroundSyncEvent } from '@/services/backgroundSyncService'
+
+export type TabRole = 'leader' | 'follower'
+
+// Work only the leader does
+export type TabSyncRequest =
+  | { kind: 'queue' } // push the sync queue
+  | { kind: 'full'; userId: string } // pull remote changes, then push the queue
+  | { kind: 'background'; event: BackgroundSyncEvent } // a service worker sync event
+
+export type TabSyncKind = TabSyncRequest['kind']
+
+export type TabMessage =
+  | { type: 'sync-request'; requestId: string; from: string; request: TabSyncRequest }
+  | { type: 'sync-done'; requestId: string; to: string; success: boolean }
+  | { type: 'changed'; from: string; tables: string[] }
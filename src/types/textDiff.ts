@@ -0,0 +1,32 @@
+/**
+ * Text Diff Types
+ * Line diffs between two versions of a note, laid out in rows for a side-by-side view
+ */
+
+export type DiffChange = 'equal' | 'added' | 'removed'
+
+// A run of lines or words that is in both versions, or only in one
+export interface DiffPart {
+  type: DiffChange
+  text: string
+}
+
+// One side of a row. Changed lines carry word-level parts; other lines a single part.
+export interface DiffCell {
+  lineNumber: number
+  text: string
+  parts: DiffPart[]
+}
+
+// 'changed' pairs a removed line with the added line that replaced it
+export interface DiffRow {
+  type: DiffChange | 'changed'
+  left: DiffCell | null
+  right: DiffCell | null
+}
+
+export interface DiffSummary {
+  added: number
+  removed: number
+  changed: number
+}
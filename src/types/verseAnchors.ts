@@ -0,0 +1,31 @@
+/**
+ * Verse Anchor Types
+ * Ties bookmarks, notes and highlights to a verse independently of any one version
+ */
+
+/**
+ * Where a piece of user content was made. The verse key uses English numbering
+ * so it names the same verse in every version; the fingerprint tells whether a
+ * version's text is the one the content was made against.
+ */
+export interface VerseAnchor {
+  verseKey: string // "BOOK.chapter.verse", e.g. "JHN.3.16"
+  sourceVersion: string
+  textFingerprint: string
+}
+
+// The highlighted words with the text around them, used to find them again in other wording
+export interface TextQuote {
+  exact: string
+  prefix: string
+  suffix: string
+}
+
+// exact: offsets used as stored; reanchored: found again by matching the quote; unmapped: not found
+export type AnchorStatus = 'exact' | 'reanchored' | 'unmapped'
+
+export interface ResolvedHighlightRange {
+  status: AnchorStatus
+  startOffset?: number // both missing for a whole-verse highlight
+  endOffset?: number
+}
@@ -0,0 +1,57 @@
+/**
+ * Verse Content Types
+ * Structured verse content - styled text runs, notes, headings and line breaks -
+ * stored alongside the plain Verse.text that search and highlights work on
+ */
+
+export type TextStyle = 'wordsOfJesus' | 'italic' | 'bold' | 'smallCaps' | 'divineName' | 'added'
+
+export type VerseNoteKind = 'footnote' | 'crossReference'
+
+// paragraph: a new paragraph starts; poetry: a new poetic line; line: a plain line break
+export type VerseBreakKind = 'paragraph' | 'poetry' | 'line'
+
+/**
+ * The text tokens of a verse concatenate to exactly Verse.text, so offsets into
+ * the plain text (highlights, selections) stay valid for the rendered content
+ */
+export type VerseToken =
+  | { type: 'heading'; text: string } // section heading printed before the verse
+  | { type: 'text'; text: string; styles?: TextStyle[] }
+  | { type: 'note'; kind: VerseNoteKind; text: string; caller?: string }
+  | { type: 'break'; kind: VerseBreakKind; indent?: number }
+
+export interface VerseContentOptions {
+  showNotes: boolean
+  showHeadings: boolean
+}
+
+/**
+ * Stand-off markup produced by the parsers; offsets are character positions in
+ * the plain verse text. buildVerseContent turns it into tokens.
+ */
+export interface VerseMarkup {
+  headings?: string[]
+  notes?: VerseNote[]
+  styles?: StyledRange[]
+  breaks?: VerseBreak[]
+}
+
+export interface VerseNote {
+  offset: number
+  kind: VerseNoteKind
+  text: string
+  caller?: string // the footnote sign used in the source, e.g. "a" or "+"
+}
+
+export interface StyledRange {
+  start: number
+  end: number
+  style: TextStyle
+}
+
+export interface VerseBreak {
+  offset: number // the break comes before this character
+  kind: VerseBreakKind
+  indent?: number // poetry and list indentation level, 1 for the first level
+}
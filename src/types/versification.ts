@@ -0,0 +1,34 @@
+/**
+ * Versification Types
+ * Verse numbering schemes and the rules that translate references between them
+ */
+
+// english: KJV and most Protestant translations; original: Hebrew OT (BHS) and Greek NT (NA/UBS);
+// vulgate: Latin Vulgate and Douay-Rheims; lxx: the Septuagint (Rahlfs)
+export type VersificationScheme = 'english' | 'original' | 'vulgate' | 'lxx'
+
+export interface VerseRef {
+  book: string
+  chapter: number
+  verse: number
+}
+
+/**
+ * Verses `chapter:start-end` of a scheme correspond one to one with the English
+ * verses starting at `toChapter:toStart`. Verses no rule covers keep their number.
+ */
+export interface VersificationRule {
+  book: string
+  chapter: number
+  start: number
+  end: number
+  toChapter: number
+  toStart: number
+  oneWay?: boolean // all map to toStart and nothing maps back, e.g. psalm titles numbered as verses
+}
+
+export interface VersificationSchemeInfo {
+  id: VersificationScheme
+  name: string
+  description: string
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest'
+import { detectBibleFormat, parseBibleFile, parseScriptureHtml, validateParsedBook } from '../bibleImport'
+
+const USFM = String.raw`\id JHN World English Bible
+\h John
+\mt1 The Good News According to John
+\c 3
+\s1 Jesus and Nicodemus
+\p
+\v 16 For God so loved the world,\f + \fr 3:16 \ft Or, only born\f* that he gave his one and only Son.
+\v 17 \wj For God didn’t send his Son into the world to judge the world,\wj* but that the world should be saved through him.
+\v 18 \w He|strong="G3588"\w* who believes in him is not judged.
+`
+
+const OSIS = `<?xml version="1.0" encoding="UTF-8"?>
+<osis xmlns="http://www.bibletechnologies.net/2003/OSIS/namespace">
+  <osisText osisIDWork="KJV" xml:lang="en">
+    <header><work osisWork="KJV"><title>King James Version</title></work></header>
+    <div type="book" osisID="Matt">
+      <chapter osisID="Matt.5">
+        <title>The Beatitudes</title>
+        <verse osisID="Matt.5.3"><q who="Jesus">Blessed are the poor in spirit:</q> for theirs is the kingdom.<note n="a">Or, humble</note></verse>
+        <verse sID="Matt.5.4" osisID="Matt.5.4"/><q who="Jesus" sID="q1"/>Blessed are they that mourn<verse eID="Matt.5.4"/>
+        <verse sID="Matt.5.5" osisID="Matt.5.5"/>Blessed are the meek<q eID="q1"/> indeed.<verse eID="Matt.5.5"/>
+      </chapter>
+    </div>
+  </osisText>
+</osis>`
+
+const ZEFANIA = `<?xml version="1.0" encoding="utf-8"?>
+<XMLBIBLE biblename="Test Bible">
+  <INFORMATION><title>Test Bible</title><identifier>TB</identifier><language>de</language></INFORMATION>
+  <BIBLEBOOK bnumber="1" bname="1. Mose">
+    <CHAPTER cnumber="1">
+      <CAPTION>Die Schöpfung</CAPTION>
+      <VERS vnumber="1">Am Anfang schuf Gott<NOTE>Hebr. Elohim</NOTE> Himmel und Erde.</VERS>
+      <VERS vnumber="2">Und die Erde war wüst.</VERS>
+    </CHAPTER>
+  </BIBLEBOOK>
+  <BIBLEBOOK bnumber="43" bname="Johannes">
+    <CHAPTER cnumber="11">
+      <VERS vnumber="35"><STYLE css="color:#ff0000">Jesus weinte.</STYLE></VERS>
+    </CHAPTER>
+  </BIBLEBOOK>
+</XMLBIBLE>`
+
+const USX = `<?xml version="1.0" encoding="utf-8"?>
+<usx version="3.0">
+  <book code="PHM" style="id">Philemon</book>
+  <para style="h">Philemon</para>
+  <chapter number="1" style="c" sid="PHM 1"/>
+  <para style="s1">Greeting</para>
+  <para style="p">
+    <verse number="1" style="v" sid="PHM 1:1"/>Paul, a prisoner of Christ Jesus,<note caller="+" style="f"><char style="fr">1:1 </char><char style="ft">Or, bondservant</char></note> to Philemon.<verse eid="PHM 1:1"/>
+    <verse number="2-3" style="v" sid="PHM 1:2-3"/>Grace to you and peace.<verse eid="PHM 1:2-3"/>
+  </para>
+  <chapter eid="PHM 1"/>
+</usx>`
+
+describe('bible file import', () => {
+  it('should detect formats from extension and content', () => {
+    expect(detectBibleFormat('', '43JHNWEB.SFM')).toBe('usfm')
+    expect(detectBibleFormat(USFM)).toBe('usfm')
+    expect(detectBibleFormat(OSIS)).toBe('osis')
+    expect(detectBibleFormat(ZEFANIA)).toBe('zefania')
+    expect(detectBibleFormat(USX)).toBe('usx')
+    expect(detectBibleFormat('<html></html>')).toBeNull()
+  })
+
+  it('should parse USFM verses with headings, footnotes and words of Jesus', () => {
+    const { books } = parseBibleFile(USFM, 'usfm')
+    const [john] = books
+
+    expect(john.id).toBe('JHN')
+    expect(john.name).toBe('John')
+    expect(john.verses.map(verse => verse.verse)).toEqual([16, 17, 18])
+
+    const [v16, v17, v18] = john.verses
+    expect(v16.text).toBe('For God so loved the world, that he gave his one and only Son.')
+    expect(v16.markup?.headings).toEqual(['Jesus and Nicodemus'])
+    expect(v16.markup?.notes).toEqual([{ offset: 27, kind: 'footnote', text: 'Or, only born', caller: '+' }])
+    expect(v16.markup?.breaks).toEqual([{ offset: 0, kind: 'paragraph' }])
+
+    const span = v17.markup!.styles![0]
+    expect(span.style).toBe('wordsOfJesus')
+    expect(v17.text.slice(span.start, span.end)).toBe('For God didn’t send his Son into the world to judge the world,')
+    expect(v18.text).toBe('He who believes in him is not judged.')
+  })
+
+  it('should parse OSIS containers and milestones', () => {
+    const { books, metadata } = parseBibleFile(OSIS, 'osis')
+    const verses = books[0].verses
+
+    expect(metadata).toEqual({ name: 'King James Version', abbreviation: 'KJV', language: 'en' })
+    expect(books[0].id).toBe('MAT')
+    expect(verses.map(verse => verse.text)).toEqual([
+      'Blessed are the poor in spirit: for theirs is the kingdom.',
+      'Blessed are they that mourn',
+      'Blessed are the meek indeed.'
+    ])
+    expect(verses[0].markup).toEqual({
+      headings: ['The Beatitudes'],
+      styles: [{ start: 0, end: 31, style: 'wordsOfJesus' }],
+      notes: [{ offset: 58, kind: 'footnote', text: 'Or, humble', caller: 'a' }]
+    })
+    // A red-letter milestone spanning verses is split at each verse
+    expect(verses[1].markup?.styles).toEqual([{ start: 0, end: 27, style: 'wordsOfJesus' }])
+    expect(verses[2].markup?.styles).toEqual([{ start: 0, end: 20, style: 'wordsOfJesus' }])
+  })
+
+  it('should parse Zefania books by number', () => {
+    const { books, metadata } = parseBibleFile(ZEFANIA, 'zefania')
+
+    expect(metadata).toEqual({ name: 'Test Bible', abbreviation: 'TB', language: 'de' })
+    expect(books.map(book => [book.id, book.name])).toEqual([['GEN', '1. Mose'], ['JHN', 'Johannes']])
+    expect(books[0].verses[0]).toMatchObject({
+      text: 'Am Anfang schuf Gott Himmel und Erde.',
+      markup: { headings: ['Die Schöpfung'], notes: [{ offset: 20, text: 'Hebr. Elohim' }] }
+    })
+    expect(books[1].verses[0].markup?.styles).toEqual([{ start: 0, end: 13, style: 'wordsOfJesus' }])
+  })
+
+  it('should parse USX with combined verses', () => {
+    const { books } = parseBibleFile(USX, 'usx')
+    const [philemon] = books
+
+    expect(philemon.id).toBe('PHM')
+    expect(philemon.verses[0]).toMatchObject({
+      verse: 1,
+      text: 'Paul, a prisoner of Christ Jesus, to Philemon.',
+      markup: { headings: ['Greeting'], notes: [{ offset: 33, text: 'Or, bondservant', caller: '+' }] }
+    })
+    expect(philemon.verses[1]).toMatchObject({ verse: 2, endVerse: 3, text: 'Grace to you and peace.' })
+  })
+
+  it('should keep poetry lines, character styles and cross references', () => {
+    const psalm = String.raw`\id PSA
+\c 23
+\q1
+\v 1 The \nd Lord\nd* is my shepherd;\x - \xo 23:1 \xt Jn 10:11\x*
+\q2 I shall not want.
+`
+    const [verse] = parseBibleFile(psalm, 'usfm').books[0].verses
+
+    expect(verse.text).toBe('The Lord is my shepherd; I shall not want.')
+    expect(verse.markup).toEqual({
+      breaks: [{ offset: 0, kind: 'poetry', indent: 1 }, { offset: 25, kind: 'poetry', indent: 2 }],
+      styles: [{ start: 4, end: 8, style: 'divineName' }],
+      notes: [{ offset: 24, kind: 'crossReference', text: 'Jn 10:11', caller: '-' }]
+    })
+  })
+
+  it('should parse API.Bible chapter HTML', () => {
+    const html = '<p class="s1">The Word Became Flesh</p>' +
+      '<p class="p"><span data-number="1" data-sid="JHN 1:1" class="v">1</span>In the beginning was the Word,' +
+      '<span data-caller="+" class="f"><span class="fr">1:1 </span><span class="ft">Or, Logos</span></span> ' +
+      '<span data-number="2" data-sid="JHN 1:2" class="v">2</span>The same was in the beginning with God.</p>' +
+      '<p class="p"><span data-number="3" class="v">3</span><span class="wj">All things</span> were made.</p>'
+
+    const verses = parseScriptureHtml(html, 'JHN', 1)
+
+    expect(verses.map(verse => [verse.verse, verse.text])).toEqual([
+      [1, 'In the beginning was the Word,'],
+      [2, 'The same was in the beginning with God.'],
+      [3, 'All things were made.']
+    ])
+    expect(verses[0].markup).toEqual({
+      headings: ['The Word Became Flesh'],
+      breaks: [{ offset: 0, kind: 'paragraph' }],
+      notes: [{ offset: 30, kind: 'footnote', text: 'Or, Logos', caller: '+' }]
+    })
+    expect(verses[1].markup).toBeUndefined()
+    expect(verses[2].markup?.breaks).toEqual([{ offset: 0, kind: 'paragraph' }])
+    expect(verses[2].markup?.styles).toEqual([{ start: 0, end: 10, style: 'wordsOfJesus' }])
+  })
+
+  it('should report problems per book', () => {
+    const [john] = parseBibleFile(USFM, 'usfm').books
+    const issues = validateParsedBook(john)
+
+    expect(issues.every(issue => issue.severity === 'warning')).toBe(true)
+    expect(issues.map(issue => issue.message)).toContain('Chapter 1 is missing')
+    expect(issues.map(issue => issue.message)).toContain('Chapter 3 skips verse 1-15')
+
+    const [broken] = parseBibleFile('\\id XYZ\n\\v 1 Text before a chapter\n\\c 1\n\\v 1 One\n\\v 1 Again\n', 'usfm').books
+    const messages = validateParsedBook(broken).filter(issue => issue.severity === 'error').map(issue => issue.message)
+    expect(messages).toEqual([
+      'Verse 1 appears before any chapter',
+      'Unknown book "XYZ"',
+      'Chapter 1 verse 1 appears more than once'
+    ])
+
+    // Combined verses do not count as a gap
+    const [philemon] = parseBibleFile(USX, 'usx').books
+    expect(validateParsedBook(philemon)).toEqual([])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createChapterDownloads,
+  getRetryDelay,
+  isRateLimitError,
+  isRetryableError,
+  runWithConcurrency,
+  toDownloadProgress
+} from '../downloads'
+import type { Book } from '@/types'
+import type { VersionDownload } from '@/types/downloads'
+
+describe('version downloads', () => {
+  const books: Book[] = [
+    { id: 'JUD', name: 'Jude', abbreviation: 'Jud', testament: 'new', order: 65, chapters: 1 },
+    { id: 'RUT', name: 'Ruth', abbreviation: 'Rut', testament: 'old', order: 8, chapters: 4 }
+  ]
+
+  it('should plan one pending chapter per chapter in canonical order', () => {
+    const chapters = createChapterDownloads('kjv', books)
+
+    expect(chapters.map(chapter => chapter.id)).toEqual([
+      'kjv:RUT.1', 'kjv:RUT.2', 'kjv:RUT.3', 'kjv:RUT.4', 'kjv:JUD.1'
+    ])
+    expect(chapters.every(chapter => chapter.status === 'pending' && chapter.attempts === 0)).toBe(true)
+  })
+
+  it('should report progress from chapter counts', () => {
+    const download: VersionDownload = {
+      version: 'kjv',
+      status: 'paused',
+      totalChapters: 8,
+      completedChapters: 2,
+      failedChapters: 1,
+      startedAt: new Date(),
+      updatedAt: new Date()
+    }
+
+    expect(toDownloadProgress(download)).toMatchObject({ status: 'paused', percent: 25, failedChapters: 1 })
+    expect(toDownloadProgress({ ...download, status: 'completed' }).percent).toBe(100)
+    expect(toDownloadProgress({ ...download, totalChapters: 0, completedChapters: 0 }).percent).toBe(0)
+  })
+
+  it('should retry rate limiting, server and network errors only', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('busy'), { status: 503 }))).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('slow down'), { status: 429 }))).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('missing'), { status: 404 }))).toBe(false)
+    expect(isRetryableError(Object.assign(new Error('bad key'), { status: 401 }))).toBe(false)
+
+    expect(isRateLimitError({ status: 429 })).toBe(true)
+    expect(isRateLimitError({ status: 500 })).toBe(false)
+  })
+
+  it('should back off exponentially and honour Retry-After', () => {
+    const noJitter = () => 0.5
+
+    expect(getRetryDelay(1, undefined, noJitter)).toBe(1000)
+    expect(getRetryDelay(3, undefined, noJitter)).toBe(4000)
+    expect(getRetryDelay(20, undefined, noJitter)).toBe(60000)
+    expect(getRetryDelay(1, { status: 429, retryAfter: 7 })).toBe(7000)
+
+    const jittered = getRetryDelay(2)
+    expect(jittered).toBeGreaterThanOrEqual(1500)
+    expect(jittered).toBeLessThanOrEqual(2500)
+  })
+
+  it('should keep at most the given number of workers in flight', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const done: number[] = []
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      done.push(item)
+      inFlight--
+    })
+
+    expect(maxInFlight).toBe(3)
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('should stop taking new items once told to stop', async () => {
+    const done: number[] = []
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      await new Promise(resolve => setTimeout(resolve, 1))
+      done.push(item)
+    }, () => done.length < 2)
+
+    // Both workers finish the item they hold, then stop
+    expect(done.length).toBeLessThanOrEqual(3)
+    expect(done.length).toBeGreaterThanOrEqual(2)
+  })
+})
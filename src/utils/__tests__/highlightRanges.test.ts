@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getHighlightVersePart,
+  highlightCoversVerse,
+  layerRanges,
+  resolveHighlightOnVerse
+} from '../highlightRanges'
+import { createTextQuote, fingerprintVerseText } from '../verseAnchors'
+import type { Highlight, Verse } from '@/types'
+
+function verse(number: number, text: string, version = 'kjv'): Verse {
+  return { id: `ROM-8-${number}-${version}`, book: 'ROM', chapter: 8, verse: number, text, version }
+}
+
+const v38 = verse(38, 'For I am persuaded, that neither death, nor life, nor angels, nor principalities, nor powers,')
+const v39 = verse(39, 'Nor height, nor depth, nor any other creature, shall be able to separate us from the love of God.')
+
+// "neither death" in verse 38 through "nor depth" in verse 39
+const range: Highlight = {
+  id: 'h1',
+  userId: 'user-1',
+  book: 'ROM',
+  chapter: 8,
+  verse: 38,
+  endChapter: 8,
+  endVerse: 39,
+  colorHex: '#FFFF00',
+  startOffset: v38.text.indexOf('neither'),
+  endOffset: v39.text.indexOf(', nor any'),
+  sourceVersion: 'kjv',
+  textFingerprint: fingerprintVerseText(v38.text),
+  quote: createTextQuote(v38.text, v38.text.indexOf('neither'), v38.text.length),
+  endQuote: createTextQuote(v39.text, 0, v39.text.indexOf(', nor any')),
+  createdAt: new Date(),
+  syncStatus: 'synced'
+}
+
+describe('highlight ranges', () => {
+  it('should cover every verse from the first through the last', () => {
+    expect(highlightCoversVerse(range, 'ROM', 8, 37)).toBe(false)
+    expect(highlightCoversVerse(range, 'ROM', 8, 38)).toBe(true)
+    expect(highlightCoversVerse(range, 'ROM', 8, 39)).toBe(true)
+    expect(highlightCoversVerse(range, 'ROM', 9, 1)).toBe(false)
+
+    const acrossChapters = { ...range, endChapter: 9, endVerse: 2 }
+    expect(getHighlightVersePart(acrossChapters, 8, 38)).toBe('first')
+    expect(getHighlightVersePart(acrossChapters, 8, 39)).toBe('middle')
+    expect(getHighlightVersePart(acrossChapters, 9, 2)).toBe('last')
+    expect(getHighlightVersePart({ ...range, endChapter: null, endVerse: null }, 8, 38)).toBe('single')
+  })
+
+  it('should take the first verse from the start offset and the last up to the end offset', () => {
+    const ref = { book: 'ROM', chapter: 8, verse: 0 }
+
+    expect(resolveHighlightOnVerse(range, v38, { ...ref, verse: 38 })).toEqual({
+      status: 'exact',
+      startOffset: range.startOffset,
+      endOffset: v38.text.length
+    })
+    expect(resolveHighlightOnVerse(range, v39, { ...ref, verse: 39 })).toEqual({
+      status: 'exact',
+      startOffset: 0,
+      endOffset: range.endOffset
+    })
+  })
+
+  it('should find both ends again in other wording', () => {
+    const web38 = verse(38, 'For I am persuaded that neither death, nor life, nor angels, nor principalities, nor things present,', 'web')
+    const web39 = verse(39, 'nor height, nor depth, nor any other created thing will be able to separate us from God’s love.', 'web')
+
+    const first = resolveHighlightOnVerse(range, web38, { book: 'ROM', chapter: 8, verse: 38 })
+    const last = resolveHighlightOnVerse(range, web39, { book: 'ROM', chapter: 8, verse: 39 })
+
+    expect(first).toMatchObject({ status: 'reanchored', startOffset: web38.text.indexOf('neither'), endOffset: web38.text.length })
+    expect(last.status).toBe('reanchored')
+    expect(web39.text.slice(last.startOffset, last.endOffset)).toBe('nor height, nor depth')
+  })
+
+  it('should split overlapping ranges into pieces with the longer range underneath', () => {
+    const outer = { id: 'outer', startOffset: 0, endOffset: 20 }
+    const inner = { id: 'inner', startOffset: 5, endOffset: 10 }
+    const later = { id: 'later', startOffset: 15, endOffset: 25 }
+
+    const pieces = layerRanges([inner, outer, later])
+
+    expect(pieces.map(piece => [piece.startOffset, piece.endOffset, piece.layers.map(layer => layer.id)])).toEqual([
+      [0, 5, ['outer']],
+      [5, 10, ['outer', 'inner']],
+      [10, 15, ['outer']],
+      [15, 20, ['outer', 'later']],
+      [20, 25, ['later']]
+    ])
+    expect(layerRanges([{ startOffset: 4, endOffset: 4 }])).toEqual([])
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getPassageProgress,
+  getPassageUnlocks,
+  splitPassageIntoChunks
+} from '../memorizationPassages'
+import { DEFAULT_MEMORIZATION_SETTINGS, createInitialState } from '../spacedRepetition'
+import type { Verse } from '@/types'
+import type { MemorizationCard } from '@/types/quickWins'
+
+const start = new Date(2025, 0, 1, 9)
+
+function psalmVerses(count: number): Verse[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `PSA.23.${i + 1}`,
+    book: 'PSA',
+    chapter: 23,
+    verse: i + 1,
+    text: `Verse ${i + 1}.`,
+    version: 'kjv'
+  }))
+}
+
+function passageCard(chunkIndex: number | null, overrides: Partial<MemorizationCard> = {}): MemorizationCard {
+  return {
+    id: chunkIndex === null ? 'recitation' : `chunk-${chunkIndex}`,
+    userId: 'user-1',
+    verseId: 'PSA.23.1',
+    verseText: 'text',
+    verseReference: 'Psalms 23',
+    bibleVersionId: 'kjv',
+    difficulty: 'medium',
+    algorithm: 'sm2',
+    reviewMode: null,
+    passageId: 'psalm-23',
+    passageReference: 'Psalms 23',
+    chunkIndex,
+    chunkCount: 3,
+    locked: chunkIndex !== 0,
+    ...createInitialState(),
+    nextReview: start,
+    reviewCount: 0,
+    mastered: false,
+    createdAt: start,
+    updatedAt: start,
+    syncStatus: 'synced',
+    ...overrides
+  }
+}
+
+const learned = { locked: false, interval: 7, repetitions: 3, reviewCount: 3 }
+
+describe('passage memorization', () => {
+  it('should split a passage into balanced chunks with their own references', () => {
+    const chunks = splitPassageIntoChunks(psalmVerses(7), 3)
+
+    expect(chunks.map(chunk => chunk.verses.length)).toEqual([3, 2, 2])
+    expect(chunks.map(chunk => chunk.reference)).toEqual(['Psalms 23:1-3', 'Psalms 23:4-5', 'Psalms 23:6-7'])
+    expect(chunks[1].text).toBe('Verse 4. Verse 5.')
+
+    expect(splitPassageIntoChunks(psalmVerses(6), 3).map(chunk => chunk.verses.length)).toEqual([3, 3])
+    expect(splitPassageIntoChunks([], 3)).toEqual([])
+  })
+
+  it('should unlock chunks in order as earlier ones are learned', () => {
+    const fresh = [passageCard(0), passageCard(1), passageCard(2), passageCard(null)]
+    expect(getPassageUnlocks(fresh)).toEqual([])
+
+    const firstLearned = [passageCard(0, learned), passageCard(1), passageCard(2), passageCard(null)]
+    expect(getPassageUnlocks(firstLearned).map(card => card.id)).toEqual(['chunk-1'])
+
+    // Just short of the threshold isn't enough
+    const partly = [passageCard(0, { ...learned, interval: 6 }), passageCard(1), passageCard(2), passageCard(null)]
+    expect(getPassageUnlocks(partly)).toEqual([])
+
+    const stricter = { ...DEFAULT_MEMORIZATION_SETTINGS, chunkUnlockInterval: 14 }
+    expect(getPassageUnlocks(firstLearned, stricter)).toEqual([])
+  })
+
+  it('should unlock the whole-passage recitation once every chunk is learned', () => {
+    const almost = [passageCard(0, learned), passageCard(1, learned), passageCard(2, { locked: false }), passageCard(null)]
+    expect(getPassageUnlocks(almost)).toEqual([])
+
+    const allLearned = [passageCard(0, learned), passageCard(1, learned), passageCard(2, learned), passageCard(null)]
+    expect(getPassageUnlocks(allLearned).map(card => card.id)).toEqual(['recitation'])
+
+    // A forgotten earlier chunk holds back further unlocks without relocking chunk 1
+    const lapsed = [passageCard(0, { locked: false, interval: 1 }), passageCard(1, learned), passageCard(2), passageCard(null)]
+    expect(getPassageUnlocks(lapsed)).toEqual([])
+  })
+
+  it('should report progress per passage', () => {
+    const cards = [
+      passageCard(0, learned),
+      passageCard(1, { locked: false }),
+      passageCard(2),
+      passageCard(null),
+      passageCard(null, { id: 'john', passageId: 'john-1', passageReference: 'John 1:1-3', chunkCount: 0, locked: false, mastered: true }),
+      { ...passageCard(null), id: 'single', passageId: null, passageReference: null, chunkCount: null, locked: false }
+    ]
+
+    expect(getPassageProgress(cards)).toEqual([
+      {
+        passageId: 'psalm-23',
+        reference: 'Psalms 23',
+        chunkCount: 3,
+        unlockedChunks: 2,
+        learnedChunks: 1,
+        recitationUnlocked: false,
+        mastered: false,
+        progress: 25
+      },
+      {
+        passageId: 'john-1',
+        reference: 'John 1:1-3',
+        chunkCount: 0,
+        unlockedChunks: 0,
+        learnedChunks: 0,
+        recitationUnlocked: true,
+        mastered: true,
+        progress: 100
+      }
+    ])
+  })
+})
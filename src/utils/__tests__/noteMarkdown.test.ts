@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractVerseLinks,
+  markdownToPlainText,
+  parseInline,
+  parseNoteMarkdown,
+  passageIncludesVerse
+} from '../noteMarkdown'
+
+describe('note markdown', () => {
+  it('should parse headings, paragraphs, lists, quotes and rules', () => {
+    const blocks = parseNoteMarkdown([
+      '# Hope in suffering',
+      'First line',
+      'second line',
+      '',
+      '- one',
+      '- two',
+      '1. first',
+      '> quoted',
+      '---'
+    ].join('\n'))
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'list', 'quote', 'rule'])
+    expect(blocks[0]).toEqual({ type: 'heading', level: 1, children: [{ type: 'text', text: 'Hope in suffering' }] })
+    expect(blocks[1]).toEqual({
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'First line' }, { type: 'break' }, { type: 'text', text: 'second line' }]
+    })
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] })
+    expect(blocks[3]).toMatchObject({ ordered: true, items: [[{ text: 'first' }]] })
+  })
+
+  it('should parse emphasis, code and links without formatting inside code', () => {
+    expect(parseInline('**bold _and italic_** then `**code**`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold ' }, { type: 'emphasis', children: [{ type: 'text', text: 'and italic' }] }] },
+      { type: 'text', text: ' then ' },
+      { type: 'code', text: '**code**' }
+    ])
+    expect(parseInline('snake_case_name stays')).toEqual([{ type: 'text', text: 'snake_case_name stays' }])
+    expect(parseInline('[site](https://example.com) and [bad](javascript:alert(1))')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'site' }] },
+      { type: 'text', text: ' and [bad](javascript:alert(1))' }
+    ])
+  })
+
+  it('should resolve verse links through the reference parser', () => {
+    expect(parseInline('See [[Rom 8:28]] and [[Ps 23|the shepherd psalm]] or [[Hezekiah 1]]')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'verseLink', reference: 'Rom 8:28', label: 'Rom 8:28', passages: [{ book: 'ROM', startChapter: 8, startVerse: 28, endChapter: 8, endVerse: 28 }] },
+      { type: 'text', text: ' and ' },
+      { type: 'verseLink', reference: 'Ps 23', label: 'the shepherd psalm', passages: [{ book: 'PSA', startChapter: 23, endChapter: 23 }] },
+      { type: 'text', text: ' or ' },
+      { type: 'verseLink', reference: 'Hezekiah 1', label: 'Hezekiah 1', passages: [] }
+    ])
+  })
+
+  it('should collect verse links from every block for backlinks', () => {
+    const content = '## Links\n- [[John 3:16-18]]\n> **[[Rom 8:28, 31]]**\n\nPlain [[Gen 1]] `[[Rev 1]]`'
+
+    expect(extractVerseLinks(content).map(passage => passage.book)).toEqual(['JHN', 'ROM', 'ROM', 'GEN'])
+    expect(extractVerseLinks('No links here')).toEqual([])
+  })
+
+  it('should tell whether a linked passage covers a verse', () => {
+    const [range, chapter, book] = extractVerseLinks('[[John 3:16-4:2]] [[Ps 23]] [[Jude]]')
+
+    expect(passageIncludesVerse(range, 'JHN', 3, 16)).toBe(true)
+    expect(passageIncludesVerse(range, 'JHN', 3, 15)).toBe(false)
+    expect(passageIncludesVerse(range, 'JHN', 4, 2)).toBe(true)
+    expect(passageIncludesVerse(range, 'JHN', 4, 3)).toBe(false)
+    expect(passageIncludesVerse(chapter, 'PSA', 23, 6)).toBe(true)
+    expect(passageIncludesVerse(chapter, 'PSA', 24, 1)).toBe(false)
+    expect(passageIncludesVerse(book, 'JUD', 1, 25)).toBe(true)
+  })
+
+  it('should strip markdown for previews', () => {
+    expect(markdownToPlainText('# Title\n- **bold** and _soft_ [[Rom 8:28|promise]] [[Ps 23]]\n---'))
+      .toBe('Title\nbold and soft promise Ps 23\n')
+  })
+})
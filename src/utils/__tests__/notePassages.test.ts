@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import {
+  UNATTACHED_NOTE_LOCATION,
+  compareNoteLocations,
+  formatNoteReference,
+  getNotePassage,
+  getNoteScope,
+  noteCoversVerse,
+  noteOverlapsChapter,
+  toNoteLocation
+} from '../notePassages'
+import { parseScriptureReference } from '../scriptureReference'
+
+const locate = (reference: string) => toNoteLocation(parseScriptureReference(reference))
+
+describe('note passages', () => {
+  it('should turn parsed references into note locations', () => {
+    expect(locate('John 3:16')).toEqual({ book: 'JHN', chapter: 3, verse: 16, endChapter: null, endVerse: null })
+    expect(locate('Eph 2:1-10')).toEqual({ book: 'EPH', chapter: 2, verse: 1, endChapter: null, endVerse: 10 })
+    expect(locate('Rom 7:14-8:4')).toEqual({ book: 'ROM', chapter: 7, verse: 14, endChapter: 8, endVerse: 4 })
+    expect(locate('Ps 23')).toEqual({ book: 'PSA', chapter: 23, verse: null, endChapter: null, endVerse: null })
+    expect(toNoteLocation(null)).toEqual(UNATTACHED_NOTE_LOCATION)
+    expect(() => locate('Ruth')).toThrow()
+  })
+
+  it('should tell verse, range, chapter and unattached notes apart', () => {
+    expect(getNoteScope(locate('John 3:16'))).toBe('verse')
+    expect(getNoteScope(locate('Eph 2:1-10'))).toBe('range')
+    expect(getNoteScope(locate('Genesis 1-3'))).toBe('range')
+    expect(getNoteScope(locate('Ps 23'))).toBe('chapter')
+    expect(getNoteScope(UNATTACHED_NOTE_LOCATION)).toBe('none')
+    expect(getNotePassage(UNATTACHED_NOTE_LOCATION)).toBeNull()
+  })
+
+  it('should find the verses and chapters a note covers', () => {
+    const range = locate('Rom 7:14-8:4')
+
+    expect(noteCoversVerse(range, 'ROM', 7, 25)).toBe(true)
+    expect(noteCoversVerse(range, 'ROM', 8, 4)).toBe(true)
+    expect(noteCoversVerse(range, 'ROM', 8, 5)).toBe(false)
+    expect(noteCoversVerse(range, 'ROM', 7, 13)).toBe(false)
+    expect(noteCoversVerse(UNATTACHED_NOTE_LOCATION, 'ROM', 7, 14)).toBe(false)
+    expect(noteOverlapsChapter(range, 'ROM', 8)).toBe(true)
+    expect(noteOverlapsChapter(range, 'ROM', 9)).toBe(false)
+  })
+
+  it('should format and order note references', () => {
+    expect(formatNoteReference(locate('Eph 2:1-10'))).toBe('Ephesians 2:1-10')
+    expect(formatNoteReference(locate('Ps 23'))).toBe('Psalms 23')
+    expect(formatNoteReference(UNATTACHED_NOTE_LOCATION)).toBe('Unattached')
+
+    const sorted = [UNATTACHED_NOTE_LOCATION, locate('John 3:16'), locate('John 3'), locate('Eph 2:1-10')]
+      .sort(compareNoteLocations)
+      .map(formatNoteReference)
+    expect(sorted).toEqual(['Ephesians 2:1-10', 'John 3', 'John 3:16', 'Unattached'])
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getBuiltInPlans,
+  getBuiltInPlan,
+  createCustomPlan,
+  expandPassages,
+  groupChapters,
+  distributeChapters,
+  getPlanDayForDate,
+  getMissedDays,
+  createCatchUp,
+  getCatchUpEntriesForDay,
+  buildDailyAssignment,
+  findDayForChapter
+} from '../readingPlans'
+import { BIBLE_BOOKS } from '../bibleBooks'
+import type { ReadingPlanDayProgress, ReadingPlanEnrollment } from '@/types/readingPlans'
+
+const TOTAL_CHAPTERS = BIBLE_BOOKS.reduce((sum, book) => sum + book.chapters, 0)
+
+function allChapters(planId: string): string[] {
+  const plan = getBuiltInPlan(planId)!
+  return plan.days.flatMap(day => expandPassages(day.passages))
+}
+
+function progressFor(day: number, completedChapters: string[], completedAt: Date | null = null): ReadingPlanDayProgress {
+  return {
+    id: `enrollment_1:${day}`,
+    enrollmentId: 'enrollment_1',
+    userId: 'user_1',
+    day,
+    completedChapters,
+    completedAt,
+    updatedAt: new Date(),
+    syncStatus: 'synced'
+  }
+}
+
+describe('reading plan utilities', () => {
+  describe('built-in plans', () => {
+    it('should provide the standard plans', () => {
+      const ids = getBuiltInPlans().map(plan => plan.id)
+      expect(ids).toEqual(['mcheyne', 'chronological', 'canonical-year', 'nt-90-days'])
+    })
+
+    it('should cover every chapter exactly once in the canonical and chronological plans', () => {
+      for (const planId of ['canonical-year', 'chronological']) {
+        const chapters = allChapters(planId)
+        expect(chapters).toHaveLength(TOTAL_CHAPTERS)
+        expect(new Set(chapters).size).toBe(TOTAL_CHAPTERS)
+      }
+    })
+
+    it('should give every M\'Cheyne day four readings across the whole Bible', () => {
+      const plan = getBuiltInPlan('mcheyne')!
+      const chapters = new Set(allChapters('mcheyne'))
+
+      expect(plan.days).toHaveLength(365)
+      expect(plan.days.every(day => day.passages.length >= 4)).toBe(true)
+      expect(BIBLE_BOOKS.every(book => chapters.has(`${book.id}.${book.chapters}`))).toBe(true)
+      expect(plan.days[0].passages.map(p => p.book)).toEqual(['GEN', 'MAT', 'EZR', 'ACT'])
+    })
+
+    it('should finish the New Testament in 90 days', () => {
+      const plan = getBuiltInPlan('nt-90-days')!
+      expect(plan.days).toHaveLength(90)
+      expect(allChapters('nt-90-days')).toHaveLength(260)
+      expect(plan.days[89].passages.at(-1)).toEqual({ book: 'REV', startChapter: 20, endChapter: 22 })
+    })
+  })
+
+  describe('passage helpers', () => {
+    it('should expand and regroup chapter ranges', () => {
+      const passages = [{ book: 'ROM', startChapter: 3, endChapter: 5 }, { book: 'EPH', startChapter: 1, endChapter: 1 }]
+      const chapters = expandPassages(passages)
+
+      expect(chapters).toEqual(['ROM.3', 'ROM.4', 'ROM.5', 'EPH.1'])
+      expect(groupChapters(chapters)).toEqual(passages)
+    })
+
+    it('should distribute chapters evenly without dropping any', () => {
+      const chapters = Array.from({ length: 10 }, (_, i) => `PSA.${i + 1}`)
+      const days = distributeChapters(chapters, 3)
+
+      expect(days.map(day => day.length)).toEqual([3, 3, 4])
+      expect(days.flat()).toEqual(chapters)
+    })
+
+    it('should create custom plans and reject empty ones', () => {
+      const plan = createCustomPlan({
+        name: 'Sermon on the Mount',
+        passages: [{ book: 'MAT', startChapter: 5, endChapter: 7 }],
+        durationDays: 3
+      })
+
+      expect(plan.type).toBe('custom')
+      expect(plan.days.map(day => expandPassages(day.passages))).toEqual([['MAT.5'], ['MAT.6'], ['MAT.7']])
+      expect(() => createCustomPlan({ name: 'Empty', passages: [], durationDays: 3 })).toThrow()
+    })
+  })
+
+  describe('scheduling', () => {
+    const plan = createCustomPlan({
+      name: 'Philippians',
+      passages: [{ book: 'PHP', startChapter: 1, endChapter: 4 }],
+      durationDays: 4
+    })
+
+    const enrollment: ReadingPlanEnrollment = {
+      id: 'enrollment_1',
+      userId: 'user_1',
+      planId: plan.id,
+      startDate: new Date(2025, 0, 1),
+      status: 'active',
+      customPlan: plan,
+      createdAt: new Date(2025, 0, 1),
+      updatedAt: new Date(2025, 0, 1),
+      syncStatus: 'synced'
+    }
+
+    it('should compute plan days from calendar dates', () => {
+      expect(getPlanDayForDate(enrollment.startDate, new Date(2025, 0, 1, 23, 0))).toBe(1)
+      expect(getPlanDayForDate(enrollment.startDate, new Date(2025, 0, 3, 8, 0))).toBe(3)
+      expect(getPlanDayForDate(enrollment.startDate, new Date(2024, 11, 31))).toBe(0)
+    })
+
+    it('should report missed days before today only', () => {
+      const progress = new Map([[1, progressFor(1, ['PHP.1'], new Date())]])
+      expect(getMissedDays(plan, progress, 4)).toEqual([2, 3])
+    })
+
+    it('should spread missed chapters across upcoming days', () => {
+      const progress = new Map([[1, progressFor(1, ['PHP.1'], new Date())]])
+      const catchUp = createCatchUp(plan, progress, 4, 2)!
+
+      expect(catchUp.entries).toEqual([{ day: 2, chapter: 'PHP.2' }, { day: 3, chapter: 'PHP.3' }])
+      expect(getCatchUpEntriesForDay(catchUp, 4)).toEqual([{ day: 2, chapter: 'PHP.2' }])
+      expect(getCatchUpEntriesForDay(catchUp, 5)).toEqual([{ day: 3, chapter: 'PHP.3' }])
+      expect(getCatchUpEntriesForDay(catchUp, 6)).toEqual([])
+    })
+
+    it('should include catch-up chapters in the daily assignment', () => {
+      const progress = new Map([
+        [1, progressFor(1, ['PHP.1'], new Date())],
+        [2, progressFor(2, ['PHP.2'])]
+      ])
+      const withCatchUp = { ...enrollment, catchUp: { startDay: 4, spreadOverDays: 1, entries: [{ day: 2, chapter: 'PHP.2' }] } }
+
+      const assignment = buildDailyAssignment(withCatchUp, plan, progress, 4, new Date(2025, 0, 4))
+
+      expect(assignment.chapters).toEqual(['PHP.2', 'PHP.4'])
+      expect(assignment.completedChapters).toEqual(['PHP.2'])
+      expect(assignment.isComplete).toBe(false)
+      expect(assignment.isOverdue).toBe(false)
+    })
+
+    it('should credit a chapter to the earliest unfinished day that assigns it', () => {
+      const progress = new Map([[1, progressFor(1, ['PHP.1'], new Date())]])
+
+      expect(findDayForChapter(plan, progress, 'PHP.3', 4)).toBe(3)
+      expect(findDayForChapter(plan, progress, 'PHP.1', 4)).toBeNull()
+      expect(findDayForChapter(plan, progress, 'PHP.4', 2)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  chooseClozeBlanks,
+  compareWord,
+  createRecallResult,
+  diffWords,
+  getClozeRatio,
+  qualityFromAccuracy,
+  scoreClozeAnswers,
+  scoreScramble,
+  scoreWordDiff,
+  scrambleWords,
+  splitVerseWords,
+  toFirstLetters
+} from '../recallExercises'
+import { createInitialState, scheduleSm2 } from '../spacedRepetition'
+
+const verse = 'For God so loved the world, that he gave his only begotten Son.'
+
+// Deterministic stand-in for Math.random
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed * 16807) % 2147483647
+    return (seed - 1) / 2147483646
+  }
+}
+
+describe('recall exercises', () => {
+  it('should reduce a verse to first letters, keeping punctuation', () => {
+    expect(toFirstLetters(verse)).toBe('F G s l t w, t h g h o b S.')
+    expect(toFirstLetters('“Jesus wept.” — John')).toBe('“J w.” J')
+  })
+
+  it('should compare words ignoring case and punctuation, allowing small typos', () => {
+    expect(compareWord('world,', 'World')).toBe('correct')
+    expect(compareWord('believeth', 'beleiveth')).toBe('close')
+    expect(compareWord('believeth', 'believes')).toBe('close')
+    expect(compareWord('Son', 'daughter')).toBe('wrong')
+  })
+
+  it('should diff typed recall word by word', () => {
+    const diff = diffWords(verse, 'for God so loved the wrld that he gave his one begotten Son')
+
+    expect(diff.filter(word => word.status !== 'correct')).toEqual([
+      { status: 'close', expected: 'world,', actual: 'wrld' },
+      { status: 'wrong', expected: 'only', actual: 'one' }
+    ])
+    expect(scoreWordDiff(diff)).toBeCloseTo(11.5 / 13)
+
+    const partial = diffWords('a b c d', 'a x c')
+    expect(partial.map(word => word.status)).toEqual(['correct', 'wrong', 'correct', 'missing'])
+
+    const padded = diffWords('a b', 'a really b')
+    expect(padded.map(word => word.status)).toEqual(['correct', 'extra', 'correct'])
+    expect(scoreWordDiff(padded)).toBeCloseTo(2 / 3)
+  })
+
+  it('should blank more words as a card is learned', () => {
+    const words = splitVerseWords(verse)
+    expect(getClozeRatio(0)).toBeCloseTo(0.3)
+    expect(getClozeRatio(10)).toBe(0.9)
+
+    const blanks = chooseClozeBlanks(words.length, getClozeRatio(0), seeded(7))
+    expect(blanks).toHaveLength(4)
+    expect(new Set(blanks).size).toBe(4)
+    expect([...blanks].sort((a, b) => a - b)).toEqual(blanks)
+    expect(chooseClozeBlanks(words.length, getClozeRatio(4), seeded(7)).length).toBeGreaterThan(blanks.length)
+
+    expect(scoreClozeAnswers(['loved', 'world,', 'Son.'], ['loved', 'wrld', 'daughter'])).toBeCloseTo(0.5)
+  })
+
+  it('should never present a scramble in the original order', () => {
+    const words = splitVerseWords('Jesus wept')
+    for (let seed = 1; seed < 20; seed++) {
+      expect(scrambleWords(words, seeded(seed)).map(word => word.text)).toEqual(['wept', 'Jesus'])
+    }
+    expect(scoreScramble(10, 2)).toBeCloseTo(0.8)
+    expect(scoreScramble(3, 5)).toBe(0)
+  })
+
+  it('should turn accuracy into a quality capped by how much the mode prompts', () => {
+    expect(qualityFromAccuracy(1, 'typed')).toBe(5)
+    expect(qualityFromAccuracy(0.92, 'typed')).toBe(4)
+    expect(qualityFromAccuracy(0.6, 'typed')).toBe(2)
+    expect(qualityFromAccuracy(0.1, 'typed')).toBe(0)
+    expect(qualityFromAccuracy(1, 'first-letter')).toBe(4)
+    expect(qualityFromAccuracy(1, 'scramble')).toBe(4)
+    expect(qualityFromAccuracy(scoreScramble(10, 2), 'scramble')).toBe(3)
+
+    expect(createRecallResult('cloze', 0.8)).toEqual({ mode: 'cloze', accuracy: 0.8, quality: 3 })
+  })
+
+  it('should keep the ease factor for a prompted review without mistakes', () => {
+    const state = createInitialState()
+    const { quality } = createRecallResult('scramble', scoreScramble(12, 0))
+
+    expect(scheduleSm2(state, quality).easeFactor).toBe(state.easeFactor)
+  })
+})
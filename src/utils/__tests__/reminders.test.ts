@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SNOOZE_ACTION,
+  buildReminderNotification,
+  claimDueReminders,
+  createStoredReminder,
+  getNextOccurrence,
+  getReminderUrl,
+  isSameSchedule,
+  snoozeReminder
+} from '../reminders'
+import type { ReminderSchedule } from '@/types/reminders'
+
+const reading: ReminderSchedule = {
+  id: 'reading',
+  kind: 'reading',
+  title: 'Time for Bible Reading! 📖',
+  body: 'Continue your spiritual journey with today\'s reading.',
+  time: '08:00',
+  days: [],
+  url: '/bible',
+  actions: [
+    { action: 'start-reading', title: 'Start Reading', url: '/bible' },
+    { action: SNOOZE_ACTION, title: 'Remind Later' }
+  ]
+}
+
+// Wednesday, local time
+const wednesday = (hours: number, minutes = 0) => new Date(2026, 0, 7, hours, minutes)
+
+describe('reminder scheduling', () => {
+  it('should fire later today, or tomorrow once the time has passed', () => {
+    expect(getNextOccurrence(reading, wednesday(7))).toEqual(wednesday(8))
+    expect(getNextOccurrence(reading, wednesday(8))).toEqual(new Date(2026, 0, 8, 8))
+  })
+
+  it('should skip to the next allowed weekday', () => {
+    const weekdays = { time: '08:00', days: [1, 2, 3, 4, 5] }
+    const friday = new Date(2026, 0, 9, 9)
+
+    expect(getNextOccurrence(weekdays, friday)).toEqual(new Date(2026, 0, 12, 8)) // Monday
+  })
+
+  it('should only treat changed settings as a new schedule', () => {
+    const stored = createStoredReminder(reading, wednesday(7))
+
+    expect(isSameSchedule(stored, reading)).toBe(true)
+    expect(isSameSchedule(stored, { ...reading, time: '09:00' })).toBe(false)
+  })
+})
+
+describe('claimDueReminders', () => {
+  it('should show due reminders once and move them on to their next occurrence', () => {
+    const due = createStoredReminder(reading, wednesday(7))
+    const later = createStoredReminder({ ...reading, id: 'evening', time: '20:00' }, wednesday(7))
+
+    const { show, updates } = claimDueReminders([due, later], wednesday(8, 5))
+
+    expect(show.map(reminder => reminder.id)).toEqual(['reading'])
+    expect(updates).toEqual([{ ...due, nextAt: new Date(2026, 0, 8, 8), updatedAt: wednesday(8, 5) }])
+  })
+
+  it('should not show a reminder a notification trigger already showed', () => {
+    const triggered = { ...createStoredReminder(reading, wednesday(7)), scheduledAt: wednesday(8) }
+
+    const { show, updates } = claimDueReminders([triggered], wednesday(9))
+
+    expect(show).toEqual([])
+    expect(updates[0].scheduledAt).toBeUndefined()
+    expect(updates[0].nextAt).toEqual(new Date(2026, 0, 8, 8))
+  })
+
+  it('should bring a snoozed reminder back after the snooze and then resume its schedule', () => {
+    const shown = createStoredReminder(reading, wednesday(8))
+    const snoozed = snoozeReminder(shown, wednesday(8, 1))
+
+    expect(snoozed).toMatchObject({ nextAt: wednesday(8, 11), snoozed: true })
+
+    const { show, updates } = claimDueReminders([snoozed], wednesday(8, 11))
+    expect(show).toHaveLength(1)
+    expect(updates[0].nextAt).toEqual(new Date(2026, 0, 8, 8))
+    expect(updates[0].snoozed).toBeUndefined()
+  })
+})
+
+describe('reminder notifications', () => {
+  const { title, options } = buildReminderNotification(createStoredReminder(reading, wednesday(7)))
+
+  it('should carry deep-link actions and replace an earlier one for the same reminder', () => {
+    expect(title).toBe('Time for Bible Reading! 📖')
+    expect(options.tag).toBe('reminder-reading')
+    expect(options.actions).toEqual([
+      { action: 'start-reading', title: 'Start Reading' },
+      { action: SNOOZE_ACTION, title: 'Remind Later' }
+    ])
+    expect(options.data).toEqual({ reminderId: 'reading', url: '/bible', actionUrls: { 'start-reading': '/bible' } })
+  })
+
+  it('should open the action\'s route, or the reminder\'s for a tap on the body', () => {
+    const review = buildReminderNotification(createStoredReminder({
+      ...reading,
+      id: 'memorization',
+      kind: 'memorization',
+      url: '/memorization',
+      actions: [{ action: 'review-cards', title: 'Review Now', url: '/memorization' }]
+    }, wednesday(7)))
+
+    expect(getReminderUrl(review.options.data, 'review-cards')).toBe('/memorization')
+    expect(getReminderUrl(options.data, '')).toBe('/bible')
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatScriptureReference,
+  formatScriptureReferences,
+  parseReaderRoute,
+  parseScriptureReference,
+  parseScriptureReferences,
+  toReaderRoute
+} from '../scriptureReference'
+import { findBibleBook, getBookName } from '../bibleBooks'
+
+describe('book names', () => {
+  it('should find books by name, abbreviation, alias and localized name', () => {
+    expect(findBibleBook('John')?.id).toBe('JHN')
+    expect(findBibleBook('Jn')?.id).toBe('JHN')
+    expect(findBibleBook('1 Cor')?.id).toBe('1CO')
+    expect(findBibleBook('II Corinthians')?.id).toBe('2CO')
+    expect(findBibleBook('First Peter')?.id).toBe('1PE')
+    expect(findBibleBook('Psalm')?.id).toBe('PSA')
+    expect(findBibleBook('Song of Solomon')?.id).toBe('SNG')
+    expect(findBibleBook('Apocalipsis')?.id).toBe('REV')
+    expect(findBibleBook('1. Mose')?.id).toBe('GEN')
+    expect(findBibleBook('Ésaïe')?.id).toBe('ISA')
+    expect(findBibleBook('Jud')?.id).toBe('JUD')
+    expect(findBibleBook('Phi')).toBeUndefined()
+  })
+
+  it('should name books in the requested language', () => {
+    expect(getBookName('JHN')).toBe('John')
+    expect(getBookName('JHN', 'es')).toBe('Juan')
+    expect(getBookName('JHN', 'pt-BR')).toBe('João')
+    expect(getBookName('JHN', 'nl')).toBe('John')
+  })
+})
+
+describe('scripture references', () => {
+  it('should parse single verses, ranges and whole chapters', () => {
+    expect(parseScriptureReference('John 3:16')).toEqual({
+      book: 'JHN', startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16
+    })
+    expect(parseScriptureReference('1 Cor 13:4-7')).toMatchObject({ book: '1CO', startVerse: 4, endVerse: 7 })
+    expect(parseScriptureReference('Ps 23')).toEqual({ book: 'PSA', startChapter: 23, endChapter: 23 })
+    expect(parseScriptureReference('Genesis 1-3')).toEqual({ book: 'GEN', startChapter: 1, endChapter: 3 })
+    expect(parseScriptureReference('Ruth')).toEqual({ book: 'RUT' })
+  })
+
+  it('should parse cross-chapter ranges and verse parts', () => {
+    expect(parseScriptureReference('John 3:16–4:2')).toMatchObject({
+      startChapter: 3, startVerse: 16, endChapter: 4, endVerse: 2
+    })
+    expect(parseScriptureReference('Mark 1:2a-3b')).toMatchObject({
+      startVerse: 2, startPart: 'a', endVerse: 3, endPart: 'b'
+    })
+  })
+
+  it('should read bare numbers in single-chapter books as verses', () => {
+    expect(parseScriptureReference('Jude 3')).toMatchObject({ book: 'JUD', startChapter: 1, startVerse: 3 })
+    expect(parseScriptureReference('Jude 1:3')).toMatchObject({ startChapter: 1, startVerse: 3 })
+  })
+
+  it('should parse OSIS and USFM ids', () => {
+    expect(parseScriptureReference('JHN.3.16')).toMatchObject({ book: 'JHN', startChapter: 3, startVerse: 16 })
+    expect(parseScriptureReference('John.3.16-John.4.2')).toMatchObject({ endChapter: 4, endVerse: 2 })
+    expect(parseScriptureReference('1JN 4:8')).toMatchObject({ book: '1JN', startChapter: 4, startVerse: 8 })
+  })
+
+  it('should carry the book and chapter through lists', () => {
+    const { passages, errors } = parseScriptureReferences('Rom 3:23; 6:23; 8:1, 28')
+    expect(errors).toEqual([])
+    expect(passages.map(passage => [passage.book, passage.startChapter, passage.startVerse])).toEqual([
+      ['ROM', 3, 23], ['ROM', 6, 23], ['ROM', 8, 1], ['ROM', 8, 28]
+    ])
+
+    expect(parseScriptureReferences('Ps 23; 91').passages.map(passage => passage.startChapter)).toEqual([23, 91])
+    expect(parseScriptureReferences('Gen 1:1; John 1:1').passages.map(passage => passage.book)).toEqual(['GEN', 'JHN'])
+  })
+
+  it('should parse localized references', () => {
+    expect(parseScriptureReference('Juan 3:16')).toMatchObject({ book: 'JHN', startChapter: 3, startVerse: 16 })
+    expect(parseScriptureReference('1. Mose 1:1')).toMatchObject({ book: 'GEN', startChapter: 1 })
+  })
+
+  it('should report unreadable references', () => {
+    expect(parseScriptureReferences('Hezekiah 3:1').errors[0].message).toBe('Unknown book "Hezekiah"')
+    expect(parseScriptureReferences('John 22:1').errors[0].message).toBe('John has 21 chapters')
+    expect(parseScriptureReferences('John 3:40').errors[0].message).toBe('John 3 has 36 verses')
+    expect(parseScriptureReferences('John 3:16-4:60').errors[0].message).toBe('John 4 has 54 verses')
+    expect(parseScriptureReferences('Jude 30').errors[0].message).toBe('Jude has 25 verses')
+    expect(parseScriptureReferences('John 3:18-16').errors[0].message).toBe('The range ends before it starts')
+    expect(parseScriptureReferences('3:16').errors).toHaveLength(1)
+    expect(parseScriptureReference('John 3:16; nonsense')).toBeNull()
+  })
+
+  it('should format references back to text', () => {
+    const format = (input: string) => formatScriptureReferences(parseScriptureReferences(input).passages)
+
+    expect(format('jn 3:16')).toBe('John 3:16')
+    expect(format('John 3:16-4:2')).toBe('John 3:16-4:2')
+    expect(format('Jude 1:3-5')).toBe('Jude 3-5')
+    expect(format('rom 3:23;6:23;8:1')).toBe('Romans 3:23; 6:23; 8:1')
+    expect(format('John 3:16, 18; Gen 1')).toBe('John 3:16, 18; Genesis 1')
+    expect(format('Mark 1:2a')).toBe('Mark 1:2a')
+    expect(formatScriptureReference(parseScriptureReference('John 3:16')!, { abbreviate: true })).toBe('Jhn 3:16')
+    expect(formatScriptureReference(parseScriptureReference('John 3:16')!, { language: 'fr' })).toBe('Jean 3:16')
+  })
+
+  it('should map passages to and from reader routes', () => {
+    expect(toReaderRoute(parseScriptureReference('John 3:16-18')!)).toBe('/bible/JHN/3/16-18')
+    expect(toReaderRoute(parseScriptureReference('Ps 23')!)).toBe('/bible/PSA/23')
+
+    expect(parseReaderRoute({ book: 'john', chapter: '3', verse: '16' })).toMatchObject({ book: 'JHN', startVerse: 16 })
+    expect(parseReaderRoute({ book: 'John 3:16' })).toMatchObject({ book: 'JHN', startChapter: 3, startVerse: 16 })
+    expect(parseReaderRoute({ book: 'JUD', chapter: '1' })).toEqual({ book: 'JUD', startChapter: 1, endChapter: 1 })
+    expect(parseReaderRoute({ book: 'nowhere', chapter: '1' })).toBeNull()
+    expect(parseReaderRoute({ book: 'JHN', chapter: '3', verse: '40' })).toBeNull()
+  })
+
+  it('should check reader routes against the numbering of the version being read', () => {
+    expect(parseReaderRoute({ book: 'MAL', chapter: '3', verse: '20' })).toBeNull()
+    expect(parseReaderRoute({ book: 'MAL', chapter: '3', verse: '20' }, 'original')).toMatchObject({ book: 'MAL', startChapter: 3, startVerse: 20 })
+    expect(parseReaderRoute({ book: 'PSA', chapter: '51', verse: '21' }, 'original')).toMatchObject({ startVerse: 21 })
+    expect(parseReaderRoute({ book: 'JOL', chapter: '4', verse: '1' }, 'original')).toMatchObject({ startChapter: 4 })
+    expect(parseReaderRoute({ book: 'JOL', chapter: '4' })).toBeNull()
+    expect(parseReaderRoute({ book: 'MAL', chapter: '3', verse: '25' }, 'original')).toBeNull()
+  })
+})
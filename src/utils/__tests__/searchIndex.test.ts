@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { buildIndexEntries, compileQuery, createMemoryLookup, evaluateQuery } from '../searchIndex'
+import { createPhraseQuery, parseQuerySyntax } from '../searchQuery'
+import { analyzeWord, getAnalyzerLanguage, tokenize } from '../textAnalysis'
+import type { Verse } from '@/types'
+
+const verses: Verse[] = [
+  { id: 'JHN-3-16-kjv', book: 'JHN', chapter: 3, verse: 16, version: 'kjv', text: 'For God so loved the world, that he gave his only begotten Son' },
+  { id: '1JN-4-8-kjv', book: '1JN', chapter: 4, verse: 8, version: 'kjv', text: 'He that loveth not knoweth not God; for God is love.' },
+  { id: 'GEN-1-1-kjv', book: 'GEN', chapter: 1, verse: 1, version: 'kjv', text: 'In the beginning God created the heaven and the earth.' },
+  { id: 'PSA-23-1-kjv', book: 'PSA', chapter: 23, verse: 1, version: 'kjv', text: 'The LORD is my shepherd; I shall not want.' }
+]
+
+function search(query: string, exactMatch?: boolean) {
+  const { entries, meta } = buildIndexEntries(verses, 'kjv', 'en')
+  const parsed = exactMatch ? createPhraseQuery(query) : parseQuerySyntax(query)
+  const compiled = compileQuery(parsed.root, 'en')
+  return compiled ? evaluateQuery(compiled, createMemoryLookup(entries), meta).map(result => result.verseId) : []
+}
+
+describe('text analysis', () => {
+  it('should map version language codes to analyzers', () => {
+    expect(getAnalyzerLanguage('eng')).toBe('en')
+    expect(getAnalyzerLanguage('es-MX')).toBe('es')
+    expect(getAnalyzerLanguage('heb')).toBe('other')
+  })
+
+  it('should fold English inflections and archaic endings to one term', () => {
+    const stems = ['love', 'loved', 'loveth', 'lovest', 'loving', 'loves'].map(word => analyzeWord(word, 'en'))
+    expect(new Set(stems).size).toBe(1)
+    expect(analyzeWord('crieth', 'en')).toBe(analyzeWord('cry', 'en'))
+    expect(analyzeWord('blessed', 'en')).toBe('bless')
+  })
+
+  it('should strip diacritics and stem other languages', () => {
+    expect(analyzeWord('Éternel', 'fr')).toBe(analyzeWord('eternel', 'fr'))
+    expect(analyzeWord('amados', 'es')).toBe(analyzeWord('amado', 'es'))
+    expect(analyzeWord('ciudades', 'es')).toBe(analyzeWord('ciudad', 'es'))
+  })
+
+  it('should drop stop words but keep their positions', () => {
+    const tokens = tokenize('God is love', 'en')
+    expect(tokens.map(token => [token.term, token.position])).toEqual([['god', 0], ['lov', 2]])
+  })
+})
+
+describe('search index', () => {
+  it('should record postings with positions and document frequency', () => {
+    const { entries, meta } = buildIndexEntries(verses, 'kjv', 'en')
+    const god = entries.find(entry => entry.term === 'god')!
+
+    expect(meta.verseCount).toBe(4)
+    expect(god.id).toBe('kjv:god')
+    expect(god.docFrequency).toBe(3)
+    expect(god.postings.find(posting => posting.verseId === '1JN-4-8-kjv')!.positions).toHaveLength(2)
+    expect(entries.find(entry => entry.term === 'the')).toBeUndefined()
+  })
+
+  it('should match stemmed terms and require every term', () => {
+    expect(search('love')).toEqual(['1JN-4-8-kjv', 'JHN-3-16-kjv'])
+    expect(search('God love')).toEqual(['1JN-4-8-kjv', 'JHN-3-16-kjv'])
+    expect(search('God shepherd')).toEqual([])
+  })
+
+  it('should rank by term frequency', () => {
+    // "God" appears twice in 1 John 4:8
+    expect(search('God')[0]).toBe('1JN-4-8-kjv')
+  })
+
+  it('should match phrases in order, treating stop words as gaps', () => {
+    expect(search('"loveth not knoweth"')).toEqual(['1JN-4-8-kjv'])
+    expect(search('"God is love"')).toContain('1JN-4-8-kjv')
+    expect(search('"love God"')).toEqual([])
+    expect(search('"only begotten Son"')).toEqual(['JHN-3-16-kjv'])
+    expect(search('his only begotten', true)).toEqual(['JHN-3-16-kjv'])
+  })
+
+  it('should support wildcard queries', () => {
+    expect(search('shep*')).toEqual(['PSA-23-1-kjv'])
+    expect(search('beg*').sort()).toEqual(['GEN-1-1-kjv', 'JHN-3-16-kjv'])
+    expect(search('sh?pherd')).toEqual(['PSA-23-1-kjv'])
+    // Wildcards pick index terms, so a matched form brings its inflections along
+    expect(search('lov??').sort()).toEqual(['1JN-4-8-kjv', 'JHN-3-16-kjv'])
+  })
+
+  it('should evaluate OR and NOT', () => {
+    expect(search('shepherd OR created').sort()).toEqual(['GEN-1-1-kjv', 'PSA-23-1-kjv'])
+    expect(search('God NOT world').sort()).toEqual(['1JN-4-8-kjv', 'GEN-1-1-kjv'])
+    expect(search('God -world')).not.toContain('JHN-3-16-kjv')
+    expect(search('(love OR shepherd) NOT knoweth').sort()).toEqual(['JHN-3-16-kjv', 'PSA-23-1-kjv'])
+  })
+
+  it('should match NEAR within the given distance', () => {
+    // "God so loved the world" - world is 4 positions after God
+    expect(search('God NEAR/4 world')).toEqual(['JHN-3-16-kjv'])
+    expect(search('God NEAR/3 world')).toEqual([])
+    expect(search('world NEAR/4 God')).toEqual(['JHN-3-16-kjv'])
+    expect(search('God NEAR love').sort()).toEqual(['1JN-4-8-kjv', 'JHN-3-16-kjv'])
+  })
+
+  it('should ignore queries made only of stop words', () => {
+    expect(compileQuery(parseQuerySyntax('the of').root, 'en')).toBeNull()
+    expect(compileQuery(parseQuerySyntax('God OR the').root, 'en')).toBeNull()
+  })
+})
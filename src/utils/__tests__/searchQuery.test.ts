@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { collectPositiveTerms, formatQueryNode, parseQuerySyntax } from '../searchQuery'
+
+function format(query: string) {
+  const { root, errors } = parseQuerySyntax(query)
+  expect(errors).toEqual([])
+  return root ? formatQueryNode(root) : ''
+}
+
+function errorMessages(query: string) {
+  return parseQuerySyntax(query).errors.map(error => error.message)
+}
+
+describe('search query syntax', () => {
+  it('should treat adjacent words as AND and bind AND tighter than OR', () => {
+    expect(format('faith hope')).toBe('faith AND hope')
+    expect(format('faith AND hope OR love')).toBe('(faith AND hope) OR love')
+    expect(format('faith AND (hope OR love)')).toBe('faith AND (hope OR love)')
+  })
+
+  it('should parse NOT, minus, phrases, wildcards and NEAR', () => {
+    expect(format('love NOT fear')).toBe('love AND NOT fear')
+    expect(format('love -fear')).toBe('love AND NOT fear')
+    expect(format('"only begotten" bless*')).toBe('"only begotten" AND bless*')
+    expect(format('grace NEAR/3 peace')).toBe('grace NEAR/3 peace')
+    expect(format('grace NEAR peace')).toBe('grace NEAR/5 peace')
+    expect(format('well-pleased')).toBe('"well pleased"')
+  })
+
+  it('should only treat uppercase operators as operators', () => {
+    expect(format('faith and works')).toBe('faith AND and AND works')
+  })
+
+  it('should extract book and chapter filters', () => {
+    const parsed = parseQuerySyntax('love book:John chapter:3-5')
+    expect(parsed.errors).toEqual([])
+    expect(parsed.root).toEqual({ type: 'term', value: 'love' })
+    expect(parsed.filters).toEqual({ books: ['JHN'], chapters: { start: 3, end: 5 } })
+
+    expect(parseQuerySyntax('love book:"1 John"').filters.books).toEqual(['1JN'])
+    expect(parseQuerySyntax('book:Rom chapter:8').filters).toEqual({ books: ['ROM'], chapters: { start: 8, end: 8 } })
+  })
+
+  it('should report syntax errors with their position', () => {
+    expect(parseQuerySyntax('faith (hope').errors).toEqual([{ message: 'Missing closing parenthesis', position: 6 }])
+    expect(errorMessages('faith )')).toEqual(['Unexpected closing parenthesis'])
+    expect(errorMessages('"unfinished')).toEqual(['Missing closing quote'])
+    expect(errorMessages('NOT fear')).toHaveLength(1)
+    expect(errorMessages('love OR')).toEqual(['OR needs a term on both sides'])
+    expect(errorMessages('b*')).toHaveLength(1)
+    expect(errorMessages('(love OR hope) NEAR/3 faith')).toHaveLength(1)
+    expect(errorMessages('book:Hezekiah')).toEqual(['Unknown book "Hezekiah"'])
+    expect(errorMessages('chapter:5-3')).toHaveLength(1)
+    expect(errorMessages('verse:3')).toHaveLength(1)
+    expect(errorMessages('love NOT book:John')).toContain('Field filters can only be used at the top level of a query')
+  })
+
+  it('should collect the terms to highlight, skipping excluded ones', () => {
+    const { root } = parseQuerySyntax('(love OR grace*) "eternal life" NOT death')
+    expect(collectPositiveTerms(root).map(term => term.value)).toEqual(['love', 'grace*', 'eternal life'])
+  })
+})
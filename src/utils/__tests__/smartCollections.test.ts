@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { describeSmartRule, evaluateSmartRule, resolveRuleScope, validateSmartRule } from '../smartCollections'
+import type { Bookmark, Highlight, HighlightCategory, Note, SearchResult } from '@/types'
+import type { SmartCollectionRule } from '@/types/personalization'
+import type { SmartRuleSources } from '../smartCollections'
+
+const GREEN = '#00FF00'
+const YELLOW = '#FFFF00'
+
+function highlight(id: string, book: string, chapter: number, verse: number, colorHex: string, extra: Partial<Highlight> = {}): Highlight {
+  return { id, userId: 'user-1', book, chapter, verse, colorHex, createdAt: new Date('2026-01-01'), syncStatus: 'synced', ...extra }
+}
+
+function bookmark(id: string, book: string, chapter: number, verse: number): Bookmark {
+  return { id, userId: 'user-1', book, chapter, verse, createdAt: new Date('2026-01-01'), syncStatus: 'synced' }
+}
+
+function note(id: string, book: string | null, chapter: number | null, verse: number | null, tags: string[], extra: Partial<Note> = {}): Note {
+  return {
+    id,
+    userId: 'user-1',
+    book,
+    chapter,
+    verse,
+    content: 'A note',
+    tags,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    syncStatus: 'synced',
+    ...extra
+  }
+}
+
+function hit(book: string, chapter: number, verse: number, version = 'kjv'): SearchResult {
+  return {
+    verse: { id: `${book}-${chapter}-${verse}-${version}`, book, chapter, verse, text: `The covenant in ${book}`, version },
+    relevanceScore: 1,
+    highlightedText: ''
+  }
+}
+
+const category: HighlightCategory = {
+  id: 'promises',
+  userId: 'user-1',
+  name: 'Promises',
+  colorHex: GREEN,
+  position: 0,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  syncStatus: 'synced'
+}
+
+const sources: SmartRuleSources = {
+  highlights: [
+    highlight('h1', 'PSA', 23, 1, GREEN),
+    highlight('h2', 'PSA', 1, 1, YELLOW, { categoryId: 'promises' }),
+    highlight('h3', 'PSA', 103, 1, YELLOW),
+    highlight('h4', 'JHN', 3, 16, GREEN),
+    highlight('h5', 'PSA', 119, 105, '#00ff00', { endVerse: 106 })
+  ],
+  bookmarks: [bookmark('b1', 'ROM', 8, 28), bookmark('b2', 'PHP', 4, 6), bookmark('b3', 'GEN', 1, 1)],
+  notes: [
+    note('n1', 'PHP', 4, 5, ['Prayer'], { endVerse: 7 }),
+    note('n2', 'MAT', 6, null, ['prayer']),
+    note('n3', 'GEN', 1, 1, ['creation'])
+  ],
+  categories: [category],
+  searchResults: [hit('EXO', 24, 7), hit('GEN', 9, 9), hit('JER', 31, 31), hit('DEU', 29, 1, 'web')]
+}
+
+const rule = (fields: Partial<SmartCollectionRule>): SmartCollectionRule => ({ source: 'highlights', version: 'kjv', ...fields })
+const references = (found: ReturnType<typeof evaluateSmartRule>) =>
+  found.map(match => `${match.book} ${match.chapter}:${match.verse}${match.endVerse ? `-${match.endVerse}` : ''}`)
+
+describe('smart collections', () => {
+  it('should read scopes as book groups, spans of books or references', () => {
+    expect(resolveRuleScope('Pentateuch').passages.map(passage => passage.book)).toEqual(['GEN', 'EXO', 'LEV', 'NUM', 'DEU'])
+    expect(resolveRuleScope('the Gospels').passages).toHaveLength(4)
+    expect(resolveRuleScope('1 John - 3 John').passages.map(passage => passage.book)).toEqual(['1JN', '2JN', '3JN'])
+    expect(resolveRuleScope('Romans 5-8').passages).toEqual([
+      expect.objectContaining({ book: 'ROM', startChapter: 5, endChapter: 8 })
+    ])
+    expect(resolveRuleScope('Deuteronomy-Genesis').error).toBe('Deuteronomy comes after Genesis')
+    expect(resolveRuleScope('').passages).toEqual([])
+  })
+
+  it('should list highlights by the color they are shown in, within a scope', () => {
+    const green = evaluateSmartRule(rule({ colorHex: GREEN, scope: 'Psalms' }), sources)
+
+    // A category's color wins over the highlight's own, and colors match in any case
+    expect(references(green)).toEqual(['PSA 1:1', 'PSA 23:1', 'PSA 119:105-106'])
+    expect(references(evaluateSmartRule(rule({ categoryId: 'promises' }), sources))).toEqual(['PSA 1:1'])
+  })
+
+  it('should combine bookmarks and notes with a note tag', () => {
+    const prayer = evaluateSmartRule(rule({ source: 'bookmarks', noteTag: 'prayer' }), sources)
+    expect(references(prayer)).toEqual(['PHP 4:6'])
+
+    // Chapter notes have no verse to list
+    const notes = evaluateSmartRule(rule({ source: 'notes', noteTag: 'Prayer' }), sources)
+    expect(references(notes)).toEqual(['PHP 4:5-7'])
+    expect(notes[0].sourceId).toBe('n1')
+  })
+
+  it('should keep search hits in the rule version and scope, in canonical order', () => {
+    const found = evaluateSmartRule(rule({ source: 'search', query: 'covenant', scope: 'Pentateuch' }), sources)
+
+    expect(references(found)).toEqual(['GEN 9:9', 'EXO 24:7'])
+    expect(found[0].verseText).toBe('The covenant in GEN')
+  })
+
+  it('should validate and describe rules', () => {
+    expect(validateSmartRule(rule({ source: 'search' }))).toBe('Enter what to search for')
+    expect(validateSmartRule(rule({ source: 'search', query: '"covenant' }))).toBe('Missing closing quote')
+    expect(validateSmartRule(rule({ scope: 'Nowhere 3' }))).toBeTruthy()
+    expect(validateSmartRule(rule({ colorHex: GREEN, scope: 'Psalms' }))).toBeNull()
+
+    expect(describeSmartRule(rule({ colorHex: GREEN, scope: 'Psalms' }), { colors: [{ name: 'Green', hex: GREEN }] }))
+      .toBe('Highlights in Green · Psalms')
+    expect(describeSmartRule(rule({ source: 'bookmarks', noteTag: 'prayer' }))).toBe('Bookmarks with a note tagged #prayer')
+    expect(describeSmartRule(rule({ source: 'search', query: 'covenant', scope: 'Pentateuch' })))
+      .toBe('Search for "covenant" (KJV) · Pentateuch')
+  })
+})
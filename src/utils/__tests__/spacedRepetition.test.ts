@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_MEMORIZATION_SETTINGS,
+  applyDailyLimits,
+  calculateReviewStreak,
+  createInitialState,
+  getRetrievability,
+  scheduleFsrs,
+  scheduleSm2
+} from '../spacedRepetition'
+import type { MemorizationCard, SchedulingState } from '@/types/quickWins'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const start = new Date(2025, 0, 1, 9)
+
+function reviewDaily(
+  schedule: typeof scheduleSm2,
+  qualities: number[],
+  settings = DEFAULT_MEMORIZATION_SETTINGS
+): SchedulingState[] {
+  const states: SchedulingState[] = []
+  let state = createInitialState()
+  let now = start
+  for (const quality of qualities) {
+    state = schedule(state, quality, now, settings)
+    states.push(state)
+    now = new Date(now.getTime() + state.interval * DAY_MS)
+  }
+  return states
+}
+
+function card(id: string, overrides: Partial<MemorizationCard> = {}): MemorizationCard {
+  return {
+    id,
+    userId: 'user-1',
+    verseId: `${id}-verse`,
+    verseText: 'text',
+    verseReference: 'John 3:16',
+    bibleVersionId: 'kjv',
+    difficulty: 'medium',
+    algorithm: 'sm2',
+    reviewMode: null,
+    passageId: null,
+    passageReference: null,
+    chunkIndex: null,
+    chunkCount: null,
+    locked: false,
+    ...createInitialState(),
+    nextReview: start,
+    reviewCount: 0,
+    mastered: false,
+    createdAt: start,
+    updatedAt: start,
+    syncStatus: 'synced',
+    ...overrides
+  }
+}
+
+describe('spaced repetition', () => {
+  it('should carry SM-2 ease and interval from one review to the next', () => {
+    const states = reviewDaily(scheduleSm2, [4, 4, 5, 3])
+
+    expect(states.map(s => s.interval)).toEqual([1, 6, 15, 39])
+    expect(states[2].easeFactor).toBeCloseTo(2.6)
+    expect(states[3].easeFactor).toBeCloseTo(2.46)
+    expect(states[3].repetitions).toBe(4)
+  })
+
+  it('should reset the interval and count a lapse when a learned card is forgotten', () => {
+    const states = reviewDaily(scheduleSm2, [1, 4, 4, 1, 4])
+
+    expect(states[0].lapses).toBe(0) // never learned, so not a lapse
+    expect(states[3]).toMatchObject({ interval: 1, repetitions: 0, lapses: 1 })
+    expect(states[4].interval).toBe(1)
+    expect(states[4].easeFactor).toBeLessThan(2.5)
+
+    const floor = reviewDaily(scheduleSm2, [0, 0, 0, 0, 0, 0, 0])
+    expect(floor[6].easeFactor).toBe(1.3)
+  })
+
+  it('should grow FSRS stability on recall and shrink it on a lapse', () => {
+    const states = reviewDaily(scheduleFsrs, [4, 4, 4, 1])
+
+    expect(states[0].stability).toBeCloseTo(3.7145)
+    expect(states[0].interval).toBe(4)
+    expect(states[1].stability!).toBeGreaterThan(states[0].stability!)
+    expect(states[2].interval).toBeGreaterThan(states[1].interval)
+    expect(states[3]).toMatchObject({ interval: 1, repetitions: 0, lapses: 1 })
+    expect(states[3].stability!).toBeLessThan(states[2].stability!)
+    expect(states[3].memoryDifficulty!).toBeGreaterThan(states[2].memoryDifficulty!)
+
+    // Recall is 90% after as many days as the stability
+    expect(getRetrievability(10, 10)).toBeCloseTo(0.9)
+  })
+
+  it('should schedule FSRS reviews sooner for a higher target recall', () => {
+    const relaxed = reviewDaily(scheduleFsrs, [4, 4, 4], { ...DEFAULT_MEMORIZATION_SETTINGS, desiredRetention: 0.8 })
+    const strict = reviewDaily(scheduleFsrs, [4, 4, 4], { ...DEFAULT_MEMORIZATION_SETTINGS, desiredRetention: 0.95 })
+
+    expect(strict[2].interval).toBeLessThan(relaxed[2].interval)
+  })
+
+  it('should take over SM-2 progress when switching to FSRS', () => {
+    const [, , sm2] = reviewDaily(scheduleSm2, [4, 4, 4])
+    const next = scheduleFsrs(sm2, 4, new Date(sm2.lastReviewedAt!.getTime() + sm2.interval * DAY_MS))
+
+    expect(next.repetitions).toBe(4)
+    expect(next.interval).toBeGreaterThan(sm2.interval)
+  })
+
+  it('should hold back cards beyond the daily limits', () => {
+    const due = [
+      card('new-1'),
+      card('new-2'),
+      card('review-1', { reviewCount: 3, lastReviewedAt: start, nextReview: new Date(start.getTime() - DAY_MS) }),
+      card('review-2', { reviewCount: 2, lastReviewedAt: start }),
+      card('review-3', { reviewCount: 5, lastReviewedAt: start })
+    ]
+    const settings = { ...DEFAULT_MEMORIZATION_SETTINGS, newCardsPerDay: 2, reviewsPerDay: 3 }
+
+    expect(applyDailyLimits(due, [], settings).map(c => c.id))
+      .toEqual(['review-1', 'review-2', 'review-3', 'new-1', 'new-2'])
+
+    const today = [
+      { cardId: 'earlier-new', wasNew: true },
+      { cardId: 'earlier-review', wasNew: false },
+      { cardId: 'earlier-review', wasNew: false }
+    ]
+    expect(applyDailyLimits(due, today, settings).map(c => c.id))
+      .toEqual(['review-1', 'review-2', 'new-1'])
+  })
+
+  it('should count consecutive review days from the log', () => {
+    const today = new Date(2025, 0, 10, 8)
+    const daysAgo = (days: number, hour = 20) => new Date(2025, 0, 10 - days, hour)
+
+    expect(calculateReviewStreak([], today)).toBe(0)
+    expect(calculateReviewStreak([daysAgo(0, 7), daysAgo(1), daysAgo(1, 6), daysAgo(2), daysAgo(4)], today)).toBe(3)
+    // Not reviewed yet today: the streak still stands until the day is over
+    expect(calculateReviewStreak([daysAgo(1), daysAgo(2)], today)).toBe(2)
+    expect(calculateReviewStreak([daysAgo(2), daysAgo(3)], today)).toBe(0)
+  })
+})
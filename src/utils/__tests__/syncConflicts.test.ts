@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { buildNoteMerge, canMergeConflict, describeConflict, diffConflictFields } from '../syncConflicts'
+import type { SyncConflict } from '@/services/syncService'
+import type { Note } from '@/types'
+
+const localNote: Note = {
+  id: 'note-1',
+  userId: 'user-1',
+  book: 'JHN',
+  chapter: 3,
+  verse: 16,
+  content: 'For God so loved the world\nthat he gave',
+  tags: ['love'],
+  notebookId: 'sermons',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-02'),
+  syncStatus: 'pending'
+}
+
+// The server copy as the sync service fetched it
+const remoteRow = {
+  id: 7,
+  client_id: 'note-1',
+  user_id: 'user-1',
+  book: 'JHN',
+  chapter: 3,
+  verse: 16,
+  end_chapter: 3,
+  end_verse: 17,
+  content: 'For God so loved the world\nthat he gave his only Son',
+  tags: ['love'],
+  notebook_id: null,
+  position: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-03T00:00:00Z'
+}
+
+const noteConflict: SyncConflict = {
+  operationId: 'sync-1',
+  entityType: 'note',
+  entityId: 'note-1',
+  localData: localNote,
+  remoteData: remoteRow,
+  conflictType: 'update_conflict',
+  timestamp: new Date('2026-01-03')
+}
+
+describe('sync conflicts', () => {
+  it('should compare a note field by field in the app shape', () => {
+    const fields = diffConflictFields(noteConflict, { notebookName: id => (id === 'sermons' ? 'Sermons' : undefined) })
+
+    expect(fields.map(field => [field.label, field.changed])).toEqual([
+      ['Passage', true],
+      ['Text', true],
+      ['Tags', false],
+      ['Notebook', true]
+    ])
+    expect(fields[0]).toMatchObject({ local: 'John 3:16', remote: 'John 3:16-17' })
+    expect(fields[3]).toMatchObject({ local: 'Sermons', remote: 'None' })
+    expect(describeConflict(noteConflict)).toBe('Note · John 3:16')
+  })
+
+  it('should show a side deleted on another device as empty', () => {
+    const cardConflict: SyncConflict = {
+      operationId: 'sync-2',
+      entityType: 'memorization_card',
+      entityId: 'card-1',
+      localData: { verseReference: 'Psalm 23:1', reviewCount: 3, mastered: false, nextReview: null, lastReviewedAt: null },
+      remoteData: null,
+      conflictType: 'delete_conflict',
+      timestamp: new Date('2026-01-03')
+    }
+
+    const fields = diffConflictFields(cardConflict)
+    expect(fields.every(field => field.remote === '')).toBe(true)
+    expect(fields.find(field => field.label === 'Reviews')).toMatchObject({ local: '3', changed: true })
+    expect(canMergeConflict(cardConflict)).toBe(false)
+    expect(describeConflict(cardConflict)).toBe('Memory verse · Psalm 23:1')
+  })
+
+  it('should merge the edited text with the fields picked from each side', () => {
+    expect(canMergeConflict(noteConflict)).toBe(true)
+
+    const merged = buildNoteMerge(noteConflict, 'Merged text', { passage: 'remote' })
+
+    expect(merged).toMatchObject({ content: 'Merged text', book: 'JHN', endVerse: 17, notebookId: 'sermons', tags: ['love'] })
+  })
+})
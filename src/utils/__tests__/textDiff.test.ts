@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, diffSideBySide, diffWords, summarizeDiff } from '../textDiff'
+
+describe('text diff', () => {
+  it('should diff lines with removals before the additions that replace them', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'c' },
+      { type: 'added', text: 'd' }
+    ])
+    expect(diffLines('', 'first')).toEqual([{ type: 'added', text: 'first' }])
+  })
+
+  it('should diff words within an edited line', () => {
+    const { before, after } = diffWords('God so loved the world', 'God so loved all the world')
+
+    expect(before.map(part => part.text).join('')).toBe('God so loved the world')
+    expect(after).toEqual([
+      { type: 'equal', text: 'God so loved ' },
+      { type: 'added', text: 'all ' },
+      { type: 'equal', text: 'the world' }
+    ])
+  })
+
+  it('should lay out changed, added and removed lines side by side', () => {
+    const rows = diffSideBySide(
+      '# Grace\nSaved by grace\nNot by works',
+      '# Grace\nSaved by grace through faith\nA gift of God\n'
+    )
+
+    expect(rows.map(row => row.type)).toEqual(['equal', 'changed', 'changed', 'added'])
+    expect(rows[1].left).toMatchObject({ lineNumber: 2, text: 'Saved by grace' })
+    expect(rows[1].right?.parts).toEqual([
+      { type: 'equal', text: 'Saved by grace' },
+      { type: 'added', text: ' through faith' }
+    ])
+    expect(rows[3]).toEqual({
+      type: 'added',
+      left: null,
+      right: { lineNumber: 4, text: '', parts: [{ type: 'added', text: '' }] }
+    })
+    expect(summarizeDiff(rows)).toEqual({ added: 1, removed: 0, changed: 2 })
+  })
+
+  it('should keep removed lines on the left when nothing replaces them', () => {
+    const rows = diffSideBySide('one\ntwo\nthree', 'one\nthree')
+
+    expect(rows.map(row => row.type)).toEqual(['equal', 'removed', 'equal'])
+    expect(rows[1]).toMatchObject({ left: { lineNumber: 2, text: 'two' }, right: null })
+    expect(rows[2]).toMatchObject({ left: { lineNumber: 3 }, right: { lineNumber: 2 } })
+  })
+})
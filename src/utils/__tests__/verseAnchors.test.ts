@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createTextQuote,
+  createVerseAnchor,
+  findUnplacedContent,
+  fingerprintVerseText,
+  getVerseKey,
+  locateQuote,
+  parseVerseKey,
+  resolveHighlightRange
+} from '../verseAnchors'
+import type { Highlight, Verse } from '@/types'
+
+const kjv: Verse = {
+  id: 'JHN-3-16-kjv',
+  book: 'JHN',
+  chapter: 3,
+  verse: 16,
+  text: 'For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life.',
+  version: 'kjv'
+}
+
+const web: Verse = {
+  ...kjv,
+  id: 'JHN-3-16-web',
+  text: 'For God so loved the world, that he gave his one and only Son, that whoever believes in him should not perish, but have eternal life.',
+  version: 'web'
+}
+
+function highlightOn(verse: Verse, phrase: string): Highlight {
+  const start = verse.text.indexOf(phrase)
+  return {
+    id: 'h1',
+    userId: 'user-1',
+    book: 'JHN',
+    chapter: 3,
+    verse: 16,
+    colorHex: '#FFFF00',
+    startOffset: start,
+    endOffset: start + phrase.length,
+    ...createVerseAnchor(verse, verse),
+    quote: createTextQuote(verse.text, start, start + phrase.length),
+    createdAt: new Date(),
+    syncStatus: 'synced'
+  }
+}
+
+describe('verse anchors', () => {
+  it('should build and parse version-independent verse keys', () => {
+    expect(getVerseKey({ book: 'MAL', chapter: 4, verse: 1 })).toBe('MAL.4.1')
+    expect(getVerseKey({ book: 'John', chapter: 3, verse: 16 })).toBe('JHN.3.16')
+    expect(parseVerseKey('1JN.2.3')).toEqual({ book: '1JN', chapter: 2, verse: 3 })
+    expect(parseVerseKey('John 3:16')).toBeNull()
+
+    const anchor = createVerseAnchor({ ...kjv, book: 'MAL', chapter: 3, verse: 19 }, { book: 'MAL', chapter: 4, verse: 1 })
+    expect(anchor.verseKey).toBe('MAL.4.1')
+    expect(anchor.sourceVersion).toBe('kjv')
+    expect(fingerprintVerseText(kjv.text)).toBe(anchor.textFingerprint)
+    expect(fingerprintVerseText(web.text)).not.toBe(anchor.textFingerprint)
+  })
+
+  it('should keep offsets while the text is unchanged', () => {
+    const highlight = highlightOn(kjv, 'loved the world')
+
+    expect(resolveHighlightRange(highlight, kjv)).toEqual({
+      status: 'exact',
+      startOffset: highlight.startOffset,
+      endOffset: highlight.endOffset
+    })
+    expect(resolveHighlightRange({ ...highlight, startOffset: undefined, endOffset: undefined }, web))
+      .toEqual({ status: 'exact' })
+  })
+
+  it('should re-anchor highlights in another version\'s wording', () => {
+    const same = resolveHighlightRange(highlightOn(kjv, 'loved the world'), web)
+    expect(same.status).toBe('reanchored')
+    expect(web.text.slice(same.startOffset, same.endOffset)).toBe('loved the world')
+
+    const reworded = resolveHighlightRange(highlightOn(kjv, 'whosoever believeth in him should not perish'), web)
+    expect(reworded.status).toBe('reanchored')
+    expect(web.text.slice(reworded.startOffset, reworded.endOffset)).toBe('whoever believes in him should not perish')
+  })
+
+  it('should use context to choose between repeated words', () => {
+    const text = 'Holy, holy, holy, is the LORD of hosts: the whole earth is full of his glory.'
+    const quote = createTextQuote(text, 6, 10)
+    expect(locateQuote(quote, `${text} `)).toEqual({ startOffset: 6, endOffset: 10 })
+  })
+
+  it('should flag highlights whose words are gone', () => {
+    const highlight = highlightOn(kjv, 'only begotten Son')
+    const paraphrase = { ...web, text: 'God loved people so much that he sent his Son to give them life that lasts.' }
+
+    expect(resolveHighlightRange(highlight, paraphrase)).toEqual({ status: 'unmapped' })
+    expect(resolveHighlightRange({ ...highlight, quote: undefined }, paraphrase)).toEqual({ status: 'unmapped' })
+  })
+
+  it('should find content on verses a version leaves out', () => {
+    const verses = [20, 22].map(verse => ({ ...kjv, book: 'MAT', chapter: 17, verse }))
+    const content = [
+      { id: 'a', book: 'MAT', chapter: 17, verse: 20 },
+      { id: 'b', book: 'MAT', chapter: 17, verse: 21 },
+      { id: 'c', book: 'MAT', chapter: 18, verse: 1 }
+    ]
+
+    expect(findUnplacedContent(content, verses, 17, ref => [ref]).map(item => item.id)).toEqual(['b'])
+  })
+})
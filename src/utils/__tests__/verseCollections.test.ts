@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollectionBundle,
+  decodeCollectionBundle,
+  encodeCollectionBundle,
+  groupCollectionVerses,
+  moveCollectionVerse,
+  parseCollectionBundle,
+  releaseSectionVerses,
+  renumberCollectionVerses
+} from '../verseCollections'
+import type { CollectionSection, CollectionVerse, CollectionWithVerses } from '@/types/personalization'
+
+function verse(id: string, position: number, sectionId: string | null = null): CollectionVerse {
+  return {
+    id,
+    collectionId: 'collection-1',
+    verseId: `verse-${id}`,
+    verseReference: `Psalm 23:${position + 1}`,
+    bibleVersionId: 'kjv',
+    verseText: `Text of ${id}`,
+    sectionId,
+    position,
+    addedAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    syncStatus: 'synced'
+  }
+}
+
+const sections: CollectionSection[] = [
+  { id: 'morning', name: 'Morning' },
+  { id: 'evening', name: 'Evening' }
+]
+
+const verses = [
+  verse('a', 0),
+  verse('b', 1, 'morning'),
+  verse('c', 2, 'morning'),
+  verse('d', 3, 'evening')
+]
+
+const ids = (list: CollectionVerse[]) => list.map(item => item.id)
+
+describe('verse collections', () => {
+  it('should group verses under their sections in position order', () => {
+    const groups = groupCollectionVerses(sections, [...verses].reverse())
+
+    expect(groups.map(group => [group.section?.id ?? null, ids(group.verses)])).toEqual([
+      [null, ['a']],
+      ['morning', ['b', 'c']],
+      ['evening', ['d']]
+    ])
+  })
+
+  it('should move a verse within and between sections, renumbering only what changed', () => {
+    expect(moveCollectionVerse(sections, verses, 'c', 'morning', 0).map(item => [item.id, item.position])).toEqual([
+      ['c', 1],
+      ['b', 2]
+    ])
+
+    const changed = moveCollectionVerse(sections, verses, 'a', 'evening', 1)
+    expect(changed.map(item => [item.id, item.sectionId, item.position])).toEqual([
+      ['b', 'morning', 0],
+      ['c', 'morning', 1],
+      ['d', 'evening', 2],
+      ['a', 'evening', 3]
+    ])
+  })
+
+  it('should keep the verses of a removed section and follow reordered sections', () => {
+    const released = releaseSectionVerses(sections, verses, 'morning')
+    expect(released.map(item => [item.id, item.sectionId, item.position])).toEqual([
+      ['b', null, 1],
+      ['c', null, 2]
+    ])
+
+    const reordered = renumberCollectionVerses([sections[1], sections[0]], verses)
+    expect(reordered.map(item => [item.id, item.position])).toEqual([
+      ['d', 1],
+      ['b', 2],
+      ['c', 3]
+    ])
+  })
+
+  it('should share a collection as a bundle without its ids and read it back from a link', () => {
+    const collection: CollectionWithVerses = {
+      id: 'collection-1',
+      userId: 'user-1',
+      name: 'Psalms for the day — “peace”',
+      color: '#2563eb',
+      icon: '🕊️',
+      isPublic: false,
+      tags: ['psalms'],
+      sections,
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-01'),
+      syncStatus: 'synced',
+      verses: [verse('b', 1, 'morning'), { ...verse('a', 0), notes: 'Start here' }]
+    }
+
+    const bundle = createCollectionBundle(collection)
+
+    expect(bundle.collection).not.toHaveProperty('id')
+    expect(bundle.verses.map(item => [item.verseId, item.sectionId, item.notes])).toEqual([
+      ['verse-a', null, 'Start here'],
+      ['verse-b', 'morning', undefined]
+    ])
+    expect(decodeCollectionBundle(encodeCollectionBundle(bundle))).toEqual(bundle)
+
+    expect(() => parseCollectionBundle({ ...bundle, format: 'something-else' })).toThrow('not a verse collection export')
+    expect(() => decodeCollectionBundle('not-a-bundle')).toThrow()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { buildVerseContent, getVerseContentText, getVisibleVerseContent } from '../verseContent'
+
+describe('verse content', () => {
+  const text = 'Jesus said, I am the way: no man cometh unto the Father, but by me.'
+
+  it('should split text into styled runs around notes and breaks', () => {
+    const tokens = buildVerseContent(text, {
+      headings: ['The Way'],
+      styles: [
+        { start: 12, end: 68, style: 'wordsOfJesus' },
+        { start: 12, end: 25, style: 'italic' }
+      ],
+      notes: [{ offset: 25, kind: 'footnote', text: 'Or, the road', caller: 'a' }],
+      breaks: [{ offset: 26, kind: 'poetry', indent: 2 }]
+    })
+
+    expect(tokens).toEqual([
+      { type: 'heading', text: 'The Way' },
+      { type: 'text', text: 'Jesus said, ' },
+      { type: 'text', text: 'I am the way:', styles: ['wordsOfJesus', 'italic'] },
+      { type: 'note', kind: 'footnote', text: 'Or, the road', caller: 'a' },
+      { type: 'text', text: ' ', styles: ['wordsOfJesus'] },
+      { type: 'break', kind: 'poetry', indent: 2 },
+      { type: 'text', text: 'no man cometh unto the Father, but by me.', styles: ['wordsOfJesus'] }
+    ])
+    expect(getVerseContentText(tokens)).toBe(text)
+  })
+
+  it('should clamp offsets and merge runs with the same styles', () => {
+    const tokens = buildVerseContent('In the beginning', {
+      styles: [
+        { start: 0, end: 2, style: 'bold' },
+        { start: 2, end: 99, style: 'bold' }
+      ],
+      notes: [{ offset: 40, kind: 'crossReference', text: 'Jn 1:1' }]
+    })
+
+    expect(tokens).toEqual([
+      { type: 'text', text: 'In the beginning', styles: ['bold'] },
+      { type: 'note', kind: 'crossReference', text: 'Jn 1:1' }
+    ])
+    expect(buildVerseContent('')).toEqual([])
+  })
+
+  it('should leave out notes and headings the reader has hidden', () => {
+    const tokens = buildVerseContent(text, {
+      headings: ['The Way'],
+      notes: [{ offset: 25, kind: 'footnote', text: 'Or, the road' }]
+    })
+
+    const all = getVisibleVerseContent(tokens, { showNotes: true, showHeadings: true })
+    expect(all.headings).toEqual(['The Way'])
+    expect(all.body.map(token => token.type)).toEqual(['text', 'note', 'text'])
+
+    const plain = getVisibleVerseContent(tokens, { showNotes: false, showHeadings: false })
+    expect(plain.headings).toEqual([])
+    expect(plain.body.map(token => token.type)).toEqual(['text', 'text'])
+    expect(getVerseContentText(plain.body)).toBe(text)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { alignVerses, detectVersificationScheme, getVerseCount, mapVerseRef, toStandardRef } from '../versification'
+import type { Verse } from '@/types'
+
+function verse(book: string, chapter: number, number: number, version: string): Verse {
+  return { id: `${book}-${chapter}-${number}-${version}`, book, chapter, verse: number, text: `${chapter}:${number}`, version }
+}
+
+describe('versification', () => {
+  it('should map Malachi 4 to Malachi 3:19-24 in Hebrew and back', () => {
+    expect(mapVerseRef({ book: 'MAL', chapter: 4, verse: 1 }, 'english', 'original'))
+      .toEqual([{ book: 'MAL', chapter: 3, verse: 19 }])
+    expect(mapVerseRef({ book: 'MAL', chapter: 3, verse: 24 }, 'original', 'english'))
+      .toEqual([{ book: 'MAL', chapter: 4, verse: 6 }])
+    expect(mapVerseRef({ book: 'MAL', chapter: 3, verse: 18 }, 'original', 'english'))
+      .toEqual([{ book: 'MAL', chapter: 3, verse: 18 }])
+  })
+
+  it('should account for psalm titles numbered as verses', () => {
+    expect(mapVerseRef({ book: 'PSA', chapter: 51, verse: 1 }, 'english', 'original'))
+      .toEqual([{ book: 'PSA', chapter: 51, verse: 3 }])
+    // The title has no English verse of its own, so it goes with the first one
+    expect(toStandardRef({ book: 'PSA', chapter: 51, verse: 2 }, 'original'))
+      .toEqual({ book: 'PSA', chapter: 51, verse: 1 })
+    expect(mapVerseRef({ book: 'PSA', chapter: 23, verse: 1 }, 'english', 'original'))
+      .toEqual([{ book: 'PSA', chapter: 23, verse: 1 }])
+  })
+
+  it('should renumber psalms for the Vulgate and Septuagint', () => {
+    expect(mapVerseRef({ book: 'PSA', chapter: 23, verse: 1 }, 'english', 'vulgate'))
+      .toEqual([{ book: 'PSA', chapter: 22, verse: 1 }])
+    expect(mapVerseRef({ book: 'PSA', chapter: 10, verse: 1 }, 'english', 'lxx'))
+      .toEqual([{ book: 'PSA', chapter: 9, verse: 22 }])
+    expect(mapVerseRef({ book: 'PSA', chapter: 116, verse: 10 }, 'english', 'vulgate'))
+      .toEqual([{ book: 'PSA', chapter: 115, verse: 1 }])
+    expect(mapVerseRef({ book: 'PSA', chapter: 9, verse: 22 }, 'lxx', 'vulgate'))
+      .toEqual([{ book: 'PSA', chapter: 9, verse: 22 }])
+  })
+
+  it('should map a verse to every verse that splits it', () => {
+    expect(mapVerseRef({ book: '3JN', chapter: 1, verse: 14 }, 'english', 'original')).toEqual([
+      { book: '3JN', chapter: 1, verse: 14 },
+      { book: '3JN', chapter: 1, verse: 15 }
+    ])
+    expect(mapVerseRef({ book: '3JN', chapter: 1, verse: 15 }, 'original', 'english'))
+      .toEqual([{ book: '3JN', chapter: 1, verse: 14 }])
+  })
+
+  it('should detect a version\'s scheme', () => {
+    expect(detectVersificationScheme({ id: 'kjv', abbreviation: 'KJV', name: 'King James Version' })).toBe('english')
+    expect(detectVersificationScheme({ id: 'wlc', abbreviation: 'WLC', name: 'Westminster Leningrad Codex' })).toBe('original')
+    expect(detectVersificationScheme({ id: 'dra', abbreviation: 'DRA', name: 'Douay-Rheims 1899' })).toBe('vulgate')
+    expect(detectVersificationScheme({ id: 'x1', name: 'Septuaginta', language: 'grc' })).toBe('original')
+    expect(detectVersificationScheme({ id: 'kjv', versification: 'lxx' })).toBe('lxx')
+  })
+
+  it('should align verses across numberings', () => {
+    const english = [1, 2, 3, 4, 5, 6].map(n => verse('MAL', 4, n, 'kjv'))
+    const hebrew = [19, 20, 21, 22, 23, 24].map(n => verse('MAL', 3, n, 'wlc'))
+
+    const rows = alignVerses(english, hebrew, 'english', 'original')
+    expect(rows).toHaveLength(6)
+    expect(rows[0].comparison.map(v => v.verse)).toEqual([19])
+    expect(rows[5].comparison.map(v => v.verse)).toEqual([24])
+
+    // Psalm titles join the row of the first verse
+    const psalm = [1, 2].map(n => verse('PSA', 3, n, 'kjv'))
+    const titled = [1, 2, 3].map(n => verse('PSA', 3, n, 'wlc'))
+    const psalmRows = alignVerses(psalm, titled, 'english', 'original')
+    expect(psalmRows.map(row => row.comparison.map(v => v.verse))).toEqual([[1, 2], [3]])
+
+    // Verses with no counterpart get a row of their own
+    const extra = alignVerses([verse('GEN', 1, 1, 'kjv')], [verse('GEN', 1, 1, 'x'), verse('GEN', 1, 2, 'x')], 'english', 'english')
+    expect(extra[1]).toEqual({ primary: null, comparison: [expect.objectContaining({ verse: 2 })] })
+  })
+
+  it('should count the verses of English chapters', () => {
+    expect(getVerseCount('JHN', 3)).toBe(36)
+    expect(getVerseCount('PSA', 119)).toBe(176)
+    expect(getVerseCount('MAL', 4)).toBe(6)
+    expect(getVerseCount('JHN', 22)).toBe(0)
+  })
+})
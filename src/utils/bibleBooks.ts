@@ -0,0 +1,173 @@
+// Canonical Protestant book list shared by the store fallbacks, reading plans and reference parser
+import type { Book } from '@/types'
+import { BOOK_ALIASES, LOCALIZED_BOOK_NAMES } from './bookNames'
+
+export const BIBLE_BOOKS: readonly Book[] = [
+  // Old Testament
+  { id: 'GEN', name: 'Genesis', abbreviation: 'Gen', testament: 'old', order: 1, chapters: 50 },
+  { id: 'EXO', name: 'Exodus', abbreviation: 'Exo', testament: 'old', order: 2, chapters: 40 },
+  { id: 'LEV', name: 'Leviticus', abbreviation: 'Lev', testament: 'old', order: 3, chapters: 27 },
+  { id: 'NUM', name: 'Numbers', abbreviation: 'Num', testament: 'old', order: 4, chapters: 36 },
+  { id: 'DEU', name: 'Deuteronomy', abbreviation: 'Deu', testament: 'old', order: 5, chapters: 34 },
+  { id: 'JOS', name: 'Joshua', abbreviation: 'Jos', testament: 'old', order: 6, chapters: 24 },
+  { id: 'JDG', name: 'Judges', abbreviation: 'Jdg', testament: 'old', order: 7, chapters: 21 },
+  { id: 'RUT', name: 'Ruth', abbreviation: 'Rut', testament: 'old', order: 8, chapters: 4 },
+  { id: '1SA', name: '1 Samuel', abbreviation: '1Sa', testament: 'old', order: 9, chapters: 31 },
+  { id: '2SA', name: '2 Samuel', abbreviation: '2Sa', testament: 'old', order: 10, chapters: 24 },
+  { id: '1KI', name: '1 Kings', abbreviation: '1Ki', testament: 'old', order: 11, chapters: 22 },
+  { id: '2KI', name: '2 Kings', abbreviation: '2Ki', testament: 'old', order: 12, chapters: 25 },
+  { id: '1CH', name: '1 Chronicles', abbreviation: '1Ch', testament: 'old', order: 13, chapters: 29 },
+  { id: '2CH', name: '2 Chronicles', abbreviation: '2Ch', testament: 'old', order: 14, chapters: 36 },
+  { id: 'EZR', name: 'Ezra', abbreviation: 'Ezr', testament: 'old', order: 15, chapters: 10 },
+  { id: 'NEH', name: 'Nehemiah', abbreviation: 'Neh', testament: 'old', order: 16, chapters: 13 },
+  { id: 'EST', name: 'Esther', abbreviation: 'Est', testament: 'old', order: 17, chapters: 10 },
+  { id: 'JOB', name: 'Job', abbreviation: 'Job', testament: 'old', order: 18, chapters: 42 },
+  { id: 'PSA', name: 'Psalms', abbreviation: 'Psa', testament: 'old', order: 19, chapters: 150 },
+  { id: 'PRO', name: 'Proverbs', abbreviation: 'Pro', testament: 'old', order: 20, chapters: 31 },
+  { id: 'ECC', name: 'Ecclesiastes', abbreviation: 'Ecc', testament: 'old', order: 21, chapters: 12 },
+  { id: 'SNG', name: 'Song of Songs', abbreviation: 'Sng', testament: 'old', order: 22, chapters: 8 },
+  { id: 'ISA', name: 'Isaiah', abbreviation: 'Isa', testament: 'old', order: 23, chapters: 66 },
+  { id: 'JER', name: 'Jeremiah', abbreviation: 'Jer', testament: 'old', order: 24, chapters: 52 },
+  { id: 'LAM', name: 'Lamentations', abbreviation: 'Lam', testament: 'old', order: 25, chapters: 5 },
+  { id: 'EZK', name: 'Ezekiel', abbreviation: 'Ezk', testament: 'old', order: 26, chapters: 48 },
+  { id: 'DAN', name: 'Daniel', abbreviation: 'Dan', testament: 'old', order: 27, chapters: 12 },
+  { id: 'HOS', name: 'Hosea', abbreviation: 'Hos', testament: 'old', order: 28, chapters: 14 },
+  { id: 'JOL', name: 'Joel', abbreviation: 'Jol', testament: 'old', order: 29, chapters: 3 },
+  { id: 'AMO', name: 'Amos', abbreviation: 'Amo', testament: 'old', order: 30, chapters: 9 },
+  { id: 'OBA', name: 'Obadiah', abbreviation: 'Oba', testament: 'old', order: 31, chapters: 1 },
+  { id: 'JON', name: 'Jonah', abbreviation: 'Jon', testament: 'old', order: 32, chapters: 4 },
+  { id: 'MIC', name: 'Micah', abbreviation: 'Mic', testament: 'old', order: 33, chapters: 7 },
+  { id: 'NAM', name: 'Nahum', abbreviation: 'Nam', testament: 'old', order: 34, chapters: 3 },
+  { id: 'HAB', name: 'Habakkuk', abbreviation: 'Hab', testament: 'old', order: 35, chapters: 3 },
+  { id: 'ZEP', name: 'Zephaniah', abbreviation: 'Zep', testament: 'old', order: 36, chapters: 3 },
+  { id: 'HAG', name: 'Haggai', abbreviation: 'Hag', testament: 'old', order: 37, chapters: 2 },
+  { id: 'ZEC', name: 'Zechariah', abbreviation: 'Zec', testament: 'old', order: 38, chapters: 14 },
+  { id: 'MAL', name: 'Malachi', abbreviation: 'Mal', testament: 'old', order: 39, chapters: 4 },
+  // New Testament
+  { id: 'MAT', name: 'Matthew', abbreviation: 'Mat', testament: 'new', order: 40, chapters: 28 },
+  { id: 'MRK', name: 'Mark', abbreviation: 'Mrk', testament: 'new', order: 41, chapters: 16 },
+  { id: 'LUK', name: 'Luke', abbreviation: 'Luk', testament: 'new', order: 42, chapters: 24 },
+  { id: 'JHN', name: 'John', abbreviation: 'Jhn', testament: 'new', order: 43, chapters: 21 },
+  { id: 'ACT', name: 'Acts', abbreviation: 'Act', testament: 'new', order: 44, chapters: 28 },
+  { id: 'ROM', name: 'Romans', abbreviation: 'Rom', testament: 'new', order: 45, chapters: 16 },
+  { id: '1CO', name: '1 Corinthians', abbreviation: '1Co', testament: 'new', order: 46, chapters: 16 },
+  { id: '2CO', name: '2 Corinthians', abbreviation: '2Co', testament: 'new', order: 47, chapters: 13 },
+  { id: 'GAL', name: 'Galatians', abbreviation: 'Gal', testament: 'new', order: 48, chapters: 6 },
+  { id: 'EPH', name: 'Ephesians', abbreviation: 'Eph', testament: 'new', order: 49, chapters: 6 },
+  { id: 'PHP', name: 'Philippians', abbreviation: 'Php', testament: 'new', order: 50, chapters: 4 },
+  { id: 'COL', name: 'Colossians', abbreviation: 'Col', testament: 'new', order: 51, chapters: 4 },
+  { id: '1TH', name: '1 Thessalonians', abbreviation: '1Th', testament: 'new', order: 52, chapters: 5 },
+  { id: '2TH', name: '2 Thessalonians', abbreviation: '2Th', testament: 'new', order: 53, chapters: 3 },
+  { id: '1TI', name: '1 Timothy', abbreviation: '1Ti', testament: 'new', order: 54, chapters: 6 },
+  { id: '2TI', name: '2 Timothy', abbreviation: '2Ti', testament: 'new', order: 55, chapters: 4 },
+  { id: 'TIT', name: 'Titus', abbreviation: 'Tit', testament: 'new', order: 56, chapters: 3 },
+  { id: 'PHM', name: 'Philemon', abbreviation: 'Phm', testament: 'new', order: 57, chapters: 1 },
+  { id: 'HEB', name: 'Hebrews', abbreviation: 'Heb', testament: 'new', order: 58, chapters: 13 },
+  { id: 'JAS', name: 'James', abbreviation: 'Jas', testament: 'new', order: 59, chapters: 5 },
+  { id: '1PE', name: '1 Peter', abbreviation: '1Pe', testament: 'new', order: 60, chapters: 5 },
+  { id: '2PE', name: '2 Peter', abbreviation: '2Pe', testament: 'new', order: 61, chapters: 3 },
+  { id: '1JN', name: '1 John', abbreviation: '1Jn', testament: 'new', order: 62, chapters: 5 },
+  { id: '2JN', name: '2 John', abbreviation: '2Jn', testament: 'new', order: 63, chapters: 1 },
+  { id: '3JN', name: '3 John', abbreviation: '3Jn', testament: 'new', order: 64, chapters: 1 },
+  { id: 'JUD', name: 'Jude', abbreviation: 'Jud', testament: 'new', order: 65, chapters: 1 },
+  { id: 'REV', name: 'Revelation', abbreviation: 'Rev', testament: 'new', order: 66, chapters: 22 }
+]
+
+const booksById = new Map(BIBLE_BOOKS.map(book => [book.id, book]))
+
+/**
+ * Look up a canonical book by its three-letter id (e.g. "JHN")
+ */
+export function getBibleBook(id: string): Book | undefined {
+  return booksById.get(id.toUpperCase())
+}
+
+/**
+ * Get the canonical chapter count for a book, or 0 when the id is unknown
+ */
+export function getBookChapterCount(id: string): number {
+  return getBibleBook(id)?.chapters ?? 0
+}
+
+/**
+ * Get a slice of the canon from one book id to another (inclusive)
+ */
+export function getBookRange(fromId: string, toId: string): Book[] {
+  const start = BIBLE_BOOKS.findIndex(book => book.id === fromId)
+  const end = BIBLE_BOOKS.findIndex(book => book.id === toId)
+  if (start === -1 || end === -1 || end < start) {
+    return []
+  }
+  return BIBLE_BOOKS.slice(start, end + 1)
+}
+
+const ORDINAL_PREFIXES: Record<string, string> = {
+  i: '1', first: '1', '1st': '1',
+  ii: '2', second: '2', '2nd': '2',
+  iii: '3', third: '3', '3rd': '3'
+}
+
+function normalizeBookName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .trim()
+    // "I John", "II Cor", "First Peter"
+    .replace(/^(iii|ii|i|first|second|third|1st|2nd|3rd)\s+/, (_, prefix: string) => ORDINAL_PREFIXES[prefix])
+    .replace(/[\s.]/g, '')
+}
+
+let bookNameIndex: Map<string, string> | null = null
+
+// Every known spelling of every book, normalized, mapped to its id
+function getBookNameIndex(): Map<string, string> {
+  if (bookNameIndex) return bookNameIndex
+
+  bookNameIndex = new Map()
+  const add = (name: string, id: string) => {
+    const normalized = normalizeBookName(name)
+    if (normalized && !bookNameIndex!.has(normalized)) bookNameIndex!.set(normalized, id)
+  }
+
+  BIBLE_BOOKS.forEach(book => {
+    add(book.id, book.id)
+    add(book.name, book.id)
+    add(book.abbreviation, book.id)
+    BOOK_ALIASES[book.id]?.forEach(alias => add(alias, book.id))
+  })
+  Object.values(LOCALIZED_BOOK_NAMES).forEach(names => {
+    Object.entries(names).forEach(([id, name]) => add(name, id))
+  })
+
+  return bookNameIndex
+}
+
+/**
+ * Find a book by id, name, abbreviation or localized name ("John", "jhn",
+ * "1 Cor", "I Jn", "Juan"). Unambiguous name prefixes of three or more
+ * letters are also accepted.
+ */
+export function findBibleBook(name: string): Book | undefined {
+  const normalized = normalizeBookName(name)
+  if (!normalized) return undefined
+
+  const index = getBookNameIndex()
+  const exactId = index.get(normalized)
+  if (exactId || normalized.length < 3) return exactId ? getBibleBook(exactId) : undefined
+
+  const prefixedIds = new Set<string>()
+  index.forEach((id, spelling) => {
+    if (spelling.startsWith(normalized)) prefixedIds.add(id)
+  })
+  return prefixedIds.size === 1 ? getBibleBook(Array.from(prefixedIds)[0]) : undefined
+}
+
+/**
+ * Display name of a book in the given language, falling back to English
+ */
+export function getBookName(id: string, language?: string): string {
+  const book = getBibleBook(id)
+  if (!book) return id
+  return (language && LOCALIZED_BOOK_NAMES[language.slice(0, 2).toLowerCase()]?.[book.id]) || book.name
+}
@@ -0,0 +1,880 @@
+// Parsers for Bible text files (USFM, OSIS, Zefania XML, USX) and per-book validation of the result.
+// Headings, notes, character styles and paragraph/poetry breaks are kept as VerseMarkup where the format has them.
+import type {
+  BibleFileFormat,
+  ImportIssue,
+  ParsedBibleFile,
+  ParsedBook,
+  ParsedVerse
+} from '@/types/bibleImport'
+import type { TextStyle, VerseBreak, VerseBreakKind, VerseNoteKind } from '@/types/verseContent'
+import { BIBLE_BOOKS, findBibleBook, getBibleBook } from './bibleBooks'
+
+/**
+ * Work out the format from the file extension, falling back to the content
+ */
+export function detectBibleFormat(content: string, fileName = ''): BibleFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'usfm' || extension === 'sfm') return 'usfm'
+  if (extension === 'usx') return 'usx'
+  if (extension === 'osis') return 'osis'
+
+  const start = content.replace(/^\uFEFF/, '').trimStart()
+  if (start.startsWith('\\')) return 'usfm'
+
+  const root = start.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/gi, '').trimStart().match(/^<([\w:]+)/)
+  switch (root?.[1].toLowerCase()) {
+    case 'osis':
+      return 'osis'
+    case 'xmlbible':
+      return 'zefania'
+    case 'usx':
+      return 'usx'
+    default:
+      return null
+  }
+}
+
+export function parseBibleFile(content: string, format: BibleFileFormat): ParsedBibleFile {
+  switch (format) {
+    case 'usfm':
+      return parseUsfm(content)
+    case 'osis':
+      return parseOsis(content)
+    case 'zefania':
+      return parseZefania(content)
+    case 'usx':
+      return parseUsx(content)
+  }
+}
+
+/**
+ * Shared builder - parsers report chapters, verses, text and markup in
+ * reading order and the collector turns them into ParsedVerse records
+ */
+interface BookCollector {
+  book: ParsedBook
+  chapter: number
+  verse: ParsedVerse | null
+  pendingHeadings: string[]
+  pendingBreak: Omit<VerseBreak, 'offset'> | null // placed before the next text that is added
+  openStyles: TextStyle[] // character styles open at the current position, innermost last
+  styleStarts: Map<TextStyle, number> // where each open style began in the current verse
+}
+
+function createCollector(code: string, name?: string): BookCollector {
+  const book = findBibleBook(code)
+  return {
+    book: { id: book?.id ?? code.trim(), name: name?.trim() || undefined, verses: [], issues: [] },
+    chapter: 0,
+    verse: null,
+    pendingHeadings: [],
+    pendingBreak: null,
+    openStyles: [],
+    styleStarts: new Map()
+  }
+}
+
+function startChapter(collector: BookCollector, chapter: number): void {
+  finishVerse(collector)
+  if (!Number.isFinite(chapter) || chapter < 1) {
+    collector.book.issues.push({ severity: 'error', message: `Invalid chapter number "${chapter}"` })
+    return
+  }
+  collector.chapter = chapter
+}
+
+function startVerse(collector: BookCollector, verse: number, endVerse?: number): void {
+  finishVerse(collector)
+
+  if (collector.chapter === 0) {
+    collector.book.issues.push({ severity: 'error', message: `Verse ${verse} appears before any chapter`, verse })
+    return
+  }
+  if (!Number.isFinite(verse) || verse < 1) {
+    collector.book.issues.push({ severity: 'error', message: `Invalid verse number in chapter ${collector.chapter}`, chapter: collector.chapter })
+    return
+  }
+
+  collector.verse = { chapter: collector.chapter, verse, text: '' }
+  if (endVerse && endVerse > verse) collector.verse.endVerse = endVerse
+
+  if (collector.pendingHeadings.length > 0) {
+    collector.verse.markup = { headings: collector.pendingHeadings }
+    collector.pendingHeadings = []
+  }
+  collector.openStyles.forEach(style => collector.styleStarts.set(style, 0))
+}
+
+function appendText(collector: BookCollector, text: string): void {
+  const verse = collector.verse
+  if (!verse) return // introductions and other text outside verses
+
+  const normalized = text.replace(/\s+/g, ' ')
+  const from = verse.text.length
+  verse.text += verse.text === '' || verse.text.endsWith(' ') ? normalized.replace(/^ /, '') : normalized
+
+  if (collector.pendingBreak && normalized.trim()) {
+    let offset = from
+    while (verse.text[offset] === ' ') offset++
+    verse.markup ??= {}
+    verse.markup.breaks ??= []
+    verse.markup.breaks.push({ offset, ...collector.pendingBreak })
+    collector.pendingBreak = null
+  }
+}
+
+function addHeading(collector: BookCollector, text: string): void {
+  const heading = text.replace(/\s+/g, ' ').trim()
+  if (heading) collector.pendingHeadings.push(heading)
+}
+
+function addNote(collector: BookCollector, text: string, caller?: string, kind: VerseNoteKind = 'footnote'): void {
+  const verse = collector.verse
+  const note = text.replace(/\s+/g, ' ').trim()
+  if (!verse || !note) return
+
+  verse.markup ??= {}
+  verse.markup.notes ??= []
+  verse.markup.notes.push({ offset: verse.text.trimEnd().length, kind, text: note, caller: caller?.trim() || undefined })
+}
+
+// Paragraphs and poetry lines start before the next text, which may be in the next verse
+function addBreak(collector: BookCollector, kind: VerseBreakKind, indent?: number): void {
+  appendText(collector, ' ')
+  collector.pendingBreak = indent ? { kind, indent } : { kind }
+}
+
+function beginStyle(collector: BookCollector, style: TextStyle): void {
+  if (!collector.openStyles.includes(style) && collector.verse) {
+    collector.styleStarts.set(style, collector.verse.text.length)
+  }
+  collector.openStyles.push(style)
+}
+
+function endStyle(collector: BookCollector, style: TextStyle): void {
+  const index = collector.openStyles.lastIndexOf(style)
+  if (index === -1) return
+  collector.openStyles.splice(index, 1)
+  if (!collector.openStyles.includes(style)) closeStyle(collector, style)
+}
+
+function endAllStyles(collector: BookCollector): void {
+  Array.from(collector.styleStarts.keys()).forEach(style => closeStyle(collector, style))
+  collector.openStyles = []
+}
+
+function closeStyle(collector: BookCollector, style: TextStyle): void {
+  const verse = collector.verse
+  let start = collector.styleStarts.get(style)
+  collector.styleStarts.delete(style)
+  if (!verse || start === undefined) return
+
+  while (verse.text[start] === ' ') start++
+  const end = verse.text.trimEnd().length
+  if (end > start) {
+    verse.markup ??= {}
+    verse.markup.styles ??= []
+    verse.markup.styles.push({ start, end, style })
+  }
+}
+
+function finishVerse(collector: BookCollector): void {
+  const verse = collector.verse
+  if (!verse) return
+
+  // A style that runs on into the next verse is split at the verse boundary
+  Array.from(collector.styleStarts.keys()).forEach(style => closeStyle(collector, style))
+
+  const leading = verse.text.length - verse.text.trimStart().length
+  verse.text = verse.text.trim()
+  const clamp = (offset: number) => Math.min(Math.max(offset - leading, 0), verse.text.length)
+
+  verse.markup?.notes?.forEach(note => { note.offset = clamp(note.offset) })
+  verse.markup?.breaks?.forEach(lineBreak => { lineBreak.offset = clamp(lineBreak.offset) })
+  if (verse.markup?.styles) {
+    verse.markup.styles = verse.markup.styles
+      .map(range => ({ ...range, start: clamp(range.start), end: clamp(range.end) }))
+      .filter(range => range.end > range.start)
+    if (verse.markup.styles.length === 0) delete verse.markup.styles
+  }
+
+  collector.book.verses.push(verse)
+  collector.verse = null
+}
+
+function finishBook(collector: BookCollector): ParsedBook {
+  finishVerse(collector)
+  return collector.book
+}
+
+/**
+ * USFM
+ */
+
+// Markers whose text runs to the end of the line
+const USFM_LINE_MARKERS = /^(id|ide|h|toc\d*|toca\d*|mt\d*|mte\d*|imt\d*|is\d*|ip|ipi|im|imi|ipq|imq|ipr|iq\d*|ib|ili\d*|iot|io\d*|ior|iex|ie|rem|usfm|sts|s\d*|ms\d*|mr|sr|r|d|sp|cl|cd)$/
+const USFM_HEADING_MARKERS = /^(s\d*|ms\d*|mr|d|sp)$/
+// Character markers that may appear inside a line-level marker's text
+const USFM_INLINE_MARKERS = /^(it|bd|bdit|em|sc|nd|add|w|wj|qs|qac|sup|no|k|ord|pn|png|addpn|qt|sig|sls|tl|dc|bk|lit|rq)$/
+const USFM_PARAGRAPH_MARKERS = /^(p|m|po|pr|pc|pm|pmo|pmc|pmr|mi|cls|lh|lf|b|nb|pi\d*|ph\d*)$/
+const USFM_POETRY_MARKERS = /^(q|qr|qc|qd|qm)(\d*)$/
+const USFM_LIST_MARKERS = /^(li|lim)(\d*)$/
+// Character styles kept in the verse content; USX uses the same style names
+const CHARACTER_STYLES: Record<string, TextStyle> = {
+  wj: 'wordsOfJesus',
+  it: 'italic',
+  em: 'italic',
+  bd: 'bold',
+  bdit: 'bold',
+  sc: 'smallCaps',
+  nd: 'divineName',
+  add: 'added'
+}
+
+// Break for a paragraph style marker, e.g. "q2" starts a poetic line indented twice
+function paragraphBreak(marker: string): Omit<VerseBreak, 'offset'> | null {
+  const poetry = marker.match(USFM_POETRY_MARKERS)
+  if (poetry) return { kind: 'poetry', indent: parseInt(poetry[2] || '1', 10) }
+  const list = marker.match(USFM_LIST_MARKERS)
+  if (list) return { kind: 'line', indent: parseInt(list[2] || '1', 10) }
+  // "nb" continues the previous paragraph without a break
+  if (USFM_PARAGRAPH_MARKERS.test(marker) && marker !== 'nb') return { kind: 'paragraph' }
+  return null
+}
+
+export function parseUsfm(content: string): ParsedBibleFile {
+  const books: ParsedBook[] = []
+  const metadata: ParsedBibleFile['metadata'] = {}
+  let collector: BookCollector | null = null
+
+  // Marker currently collecting the rest of its line
+  let line: { marker: string; text: string } | null = null
+  // Inside \f...\f* or \x...\x*
+  let note: { kind: 'f' | 'x'; caller?: string; text: string; field: string } | null = null
+  let expectNumber: 'c' | 'v' | null = null
+  let inWordAttributes = false
+
+  const finishLine = () => {
+    if (!line) return
+    const { marker, text } = line
+    line = null
+
+    if (marker === 'id') {
+      if (collector) books.push(finishBook(collector))
+      const [code = '', ...rest] = text.trim().split(/\s+/)
+      collector = createCollector(code)
+      if (rest.length > 0 && !metadata.name) metadata.name = rest.join(' ').replace(/^[-–—\s]+/, '') || undefined
+    } else if (marker === 'h' || /^toc1$/.test(marker) || /^mt1?$/.test(marker)) {
+      if (collector && !collector.book.name) collector.book.name = text.trim() || undefined
+    } else if (USFM_HEADING_MARKERS.test(marker) && collector) {
+      addHeading(collector, text)
+    }
+  }
+
+  const handleText = (raw: string) => {
+    let text = raw
+
+    if (expectNumber) {
+      const match = expectNumber === 'c'
+        ? text.match(/^\s*(\d+)/)
+        : text.match(/^\s*(\d+)[a-z]?(?:\s*-\s*(\d+)[a-z]?)?/)
+      if (match && collector) {
+        if (expectNumber === 'c') startChapter(collector, parseInt(match[1], 10))
+        else startVerse(collector, parseInt(match[1], 10), match[2] ? parseInt(match[2], 10) : undefined)
+        text = text.slice(match[0].length)
+      }
+      const wasChapter = expectNumber === 'c'
+      expectNumber = null
+      // Anything after "\c 1" on the same line is not verse text
+      if (wasChapter) text = text.includes('\n') ? text.slice(text.indexOf('\n')) : ''
+    }
+
+    if (note) {
+      if (note.caller === undefined) {
+        const caller = text.match(/^\s*(\S)/)
+        note.caller = caller?.[1] ?? ''
+        text = caller ? text.slice(caller[0].length) : text
+      }
+      if (note.field !== 'fr' && note.field !== 'xo') note.text += text
+      return
+    }
+
+    if (line) {
+      const newline = text.indexOf('\n')
+      if (newline === -1) {
+        line.text += text
+        return
+      }
+      line.text += text.slice(0, newline)
+      finishLine()
+      text = text.slice(newline)
+    }
+
+    if (inWordAttributes) {
+      // "\w grace|strong="G5485"\w*" - keep only the word
+      const bar = text.indexOf('|')
+      if (bar !== -1) text = text.slice(0, bar)
+    }
+
+    if (collector) appendText(collector, text)
+  }
+
+  const tokens = content.replace(/^\uFEFF/, '').matchAll(/\\(\+?)([a-z]+\d*)(\*?)|([^\\]+)/gi)
+
+  for (const token of tokens) {
+    const [, , rawMarker, closing, text] = token
+    if (text !== undefined) {
+      handleText(text)
+      continue
+    }
+
+    const marker = rawMarker.toLowerCase()
+
+    if (note) {
+      if (closing && (marker === 'f' || marker === 'fe' || marker === 'ef' || marker === 'x' || marker === 'ex')) {
+        if (collector) addNote(collector, note.text, note.caller, note.kind === 'x' ? 'crossReference' : 'footnote')
+        note = null
+      } else if (!closing) {
+        note.field = marker
+      }
+      continue
+    }
+
+    if (line && !(closing || USFM_INLINE_MARKERS.test(marker))) finishLine()
+
+    if (closing) {
+      if (CHARACTER_STYLES[marker] && collector) endStyle(collector, CHARACTER_STYLES[marker])
+      if (marker === 'w') inWordAttributes = false
+      continue
+    }
+
+    const lineBreak = paragraphBreak(marker)
+
+    if (marker === 'c' || marker === 'v') {
+      expectNumber = marker
+    } else if (marker === 'f' || marker === 'fe' || marker === 'ef') {
+      note = { kind: 'f', text: '', field: '' }
+    } else if (marker === 'x' || marker === 'ex') {
+      note = { kind: 'x', text: '', field: '' }
+    } else if (CHARACTER_STYLES[marker]) {
+      if (collector) beginStyle(collector, CHARACTER_STYLES[marker])
+    } else if (lineBreak) {
+      if (collector) {
+        // Character styles end with their paragraph even when the closing marker is missing
+        endAllStyles(collector)
+        addBreak(collector, lineBreak.kind, lineBreak.indent)
+      }
+    } else if (marker === 'w') {
+      inWordAttributes = true
+    } else if (USFM_LINE_MARKERS.test(marker)) {
+      line = { marker, text: '' }
+    }
+  }
+
+  finishLine()
+  if (collector) books.push(finishBook(collector))
+
+  return { format: 'usfm', metadata, books }
+}
+
+/**
+ * XML formats
+ */
+
+function parseXml(content: string): Document {
+  const document = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml')
+  const error = document.getElementsByTagName('parsererror')[0]
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] || 'could not be parsed'}`)
+  }
+  return document
+}
+
+function localName(node: Element): string {
+  return (node.localName || node.nodeName).toLowerCase()
+}
+
+// Text of an element, leaving out the children the filter rejects
+function textOf(element: Element, include: (child: Element) => boolean = () => true): string {
+  let text = ''
+  element.childNodes.forEach(child => {
+    if (child.nodeType === 3) text += child.nodeValue
+    else if (child.nodeType === 1 && include(child as Element)) text += textOf(child as Element, include)
+  })
+  return text
+}
+
+// Last dot-separated number of an OSIS id: "Gen.1.3" -> 3
+function lastOsisNumber(osisId: string): number {
+  return parseInt(osisId.trim().split(/\s+/)[0].split('.').pop() || '', 10)
+}
+
+function osisStyle(element: Element): TextStyle | null {
+  switch (localName(element)) {
+    case 'divinename':
+      return 'divineName'
+    case 'transchange':
+      return element.getAttribute('type') === 'added' ? 'added' : null
+    case 'hi':
+      switch (element.getAttribute('type')) {
+        case 'italic':
+        case 'emphasis':
+          return 'italic'
+        case 'bold':
+          return 'bold'
+        case 'small-caps':
+          return 'smallCaps'
+      }
+  }
+  return null
+}
+
+export function parseOsis(content: string): ParsedBibleFile {
+  const document = parseXml(content)
+  const osisText = Array.from(document.getElementsByTagName('*')).find(el => localName(el) === 'osistext')
+  const work = Array.from(document.getElementsByTagName('*')).find(el => localName(el) === 'work')
+  const title = work && Array.from(work.children).find(el => localName(el) === 'title')
+
+  const metadata: ParsedBibleFile['metadata'] = {
+    name: title?.textContent?.trim() || undefined,
+    abbreviation: osisText?.getAttribute('osisIDWork') || undefined,
+    language: osisText?.getAttribute('xml:lang') || undefined
+  }
+
+  const books: ParsedBook[] = []
+  let collector: BookCollector | null = null
+  const jesusMilestones = new Set<string>()
+
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      if (collector) appendText(collector, node.nodeValue || '')
+      return
+    }
+    if (node.nodeType !== 1) return
+
+    const element = node as Element
+    const name = localName(element)
+    const osisId = element.getAttribute('osisID') || ''
+
+    switch (name) {
+      case 'header':
+        return
+
+      case 'div':
+        if (element.getAttribute('type') === 'book') {
+          if (collector) books.push(finishBook(collector))
+          collector = createCollector(osisId)
+          element.childNodes.forEach(walk)
+          books.push(finishBook(collector))
+          collector = null
+          return
+        }
+        break
+
+      case 'chapter':
+        if (collector && !element.getAttribute('eID')) {
+          startChapter(collector, lastOsisNumber(element.getAttribute('sID') || osisId))
+        }
+        break
+
+      case 'verse': {
+        if (!collector) return
+        if (element.getAttribute('eID')) {
+          finishVerse(collector)
+          return
+        }
+        const ids = osisId.trim().split(/\s+/)
+        startVerse(collector, lastOsisNumber(ids[0]), ids.length > 1 ? lastOsisNumber(ids[ids.length - 1]) : undefined)
+        if (!element.getAttribute('sID')) {
+          element.childNodes.forEach(walk)
+          finishVerse(collector)
+        }
+        return
+      }
+
+      case 'title': {
+        if (!collector) return
+        const text = textOf(element, child => localName(child) !== 'note')
+        if (element.getAttribute('type') === 'main') {
+          collector.book.name ??= text.trim() || undefined
+        } else {
+          addHeading(collector, text)
+        }
+        return
+      }
+
+      case 'note':
+        if (collector) {
+          const kind = element.getAttribute('type') === 'crossReference' ? 'crossReference' : 'footnote'
+          addNote(collector, textOf(element), element.getAttribute('n') || undefined, kind)
+        }
+        return
+
+      case 'q': {
+        // Red letter is either a container or a pair of sID/eID milestones
+        const eID = element.getAttribute('eID')
+        if (eID) {
+          if (collector && jesusMilestones.delete(eID)) endStyle(collector, 'wordsOfJesus')
+          return
+        }
+        if (!collector || element.getAttribute('who') !== 'Jesus') break
+
+        const sID = element.getAttribute('sID')
+        if (sID) {
+          jesusMilestones.add(sID)
+          beginStyle(collector, 'wordsOfJesus')
+          return
+        }
+        beginStyle(collector, 'wordsOfJesus')
+        element.childNodes.forEach(walk)
+        endStyle(collector, 'wordsOfJesus')
+        return
+      }
+
+      case 'p':
+      case 'l':
+      case 'lb':
+        // Milestone pairs mark the start with sID and the end with eID
+        if (collector && !element.getAttribute('eID')) {
+          if (name === 'p') addBreak(collector, 'paragraph')
+          else if (name === 'lb') addBreak(collector, 'line')
+          else addBreak(collector, 'poetry', parseInt(element.getAttribute('level') || '1', 10) || 1)
+        }
+        break
+    }
+
+    const style = collector && osisStyle(element)
+    if (collector && style) {
+      beginStyle(collector, style)
+      element.childNodes.forEach(walk)
+      endStyle(collector, style)
+      return
+    }
+
+    element.childNodes.forEach(walk)
+    // Lines, paragraphs and line breaks separate words even without whitespace in the markup
+    if (collector && ['l', 'lg', 'p', 'lb', 'div'].includes(name)) appendText(collector, ' ')
+  }
+
+  walk(document.documentElement)
+  if (collector) books.push(finishBook(collector))
+
+  return { format: 'osis', metadata, books }
+}
+
+const USX_HEADING_STYLES = /^(s\d*|ms\d*|mr|d|sp)$/
+const USX_SKIPPED_STYLES = /^(h|toc\d*|toca\d*|mt\d*|mte\d*|imt\d*|is\d*|ip|ipi|im|imi|ipq|imq|ipr|iq\d*|ib|ili\d*|iot|io\d*|ior|iex|ie|rem|sts|sr|r|cl|cd|restore)$/
+
+// A USX element, or the HTML element API.Bible renders for it, reduced to what the walker needs
+interface UsxElement {
+  kind: 'book' | 'chapter' | 'verse' | 'para' | 'note' | 'char' | 'ignored' | 'other'
+  style: string
+  code?: string // book code or chapter/verse number
+  caller?: string
+  isEnd?: boolean // closing milestone of a chapter or verse
+}
+
+function describeUsxElement(element: Element): UsxElement {
+  const name = localName(element)
+  const style = element.getAttribute('style') || ''
+  const isEnd = Boolean(element.getAttribute('eid'))
+
+  switch (name) {
+    case 'book':
+      return { kind: 'book', style, code: element.getAttribute('code') || '' }
+    case 'chapter':
+    case 'verse':
+      return { kind: name, style, code: element.getAttribute('number') || '', isEnd }
+    case 'para':
+    case 'char':
+      return { kind: name, style }
+    case 'note':
+      return { kind: 'note', style, caller: element.getAttribute('caller') || undefined }
+    case 'figure':
+    case 'ref':
+      return { kind: 'ignored', style }
+    default:
+      return { kind: 'other', style }
+  }
+}
+
+// API.Bible HTML: <p class="q1">, <span class="v" data-number="3">, <span class="f" data-caller="+">
+function describeHtmlElement(element: Element): UsxElement {
+  const name = localName(element)
+  const style = (element.getAttribute('class') || '').trim().split(/\s+/)[0]
+
+  if (name === 'p' || name === 'div') return { kind: 'para', style }
+  if (name !== 'span') return { kind: 'other', style }
+  if (style === 'v') return { kind: 'verse', style, code: element.getAttribute('data-number') || element.textContent || '' }
+  if (style === 'f' || style === 'fe' || style === 'x') {
+    return { kind: 'note', style, caller: element.getAttribute('data-caller') || undefined }
+  }
+  return { kind: 'char', style }
+}
+
+function createUsxWalker(
+  state: { collector: BookCollector | null; books: ParsedBook[] },
+  describe: (element: Element) => UsxElement
+): (node: Node) => void {
+  const walk = (node: Node) => {
+    const collector = state.collector
+    if (node.nodeType === 3) {
+      if (collector) appendText(collector, node.nodeValue || '')
+      return
+    }
+    if (node.nodeType !== 1) return
+
+    const element = node as Element
+    const { kind, style, code = '', caller, isEnd } = describe(element)
+
+    switch (kind) {
+      case 'book':
+        if (collector) state.books.push(finishBook(collector))
+        state.collector = createCollector(code)
+        return
+
+      case 'chapter':
+        if (collector && !isEnd) startChapter(collector, parseInt(code, 10))
+        return
+
+      case 'verse': {
+        if (!collector) return
+        if (isEnd) {
+          finishVerse(collector)
+          return
+        }
+        const [start, end] = code.split('-').map(part => parseInt(part, 10))
+        startVerse(collector, start, end)
+        return
+      }
+
+      case 'para': {
+        if (!collector) return
+        if (style === 'h' && !collector.book.name) collector.book.name = textOf(element).trim() || undefined
+        if (USX_HEADING_STYLES.test(style)) {
+          addHeading(collector, textOf(element, child => describe(child).kind !== 'note'))
+          return
+        }
+        if (USX_SKIPPED_STYLES.test(style)) return
+
+        const lineBreak = paragraphBreak(style)
+        if (lineBreak) {
+          endAllStyles(collector)
+          addBreak(collector, lineBreak.kind, lineBreak.indent)
+        }
+        break
+      }
+
+      case 'note':
+        if (collector && ['f', 'fe', 'x'].includes(style)) {
+          const text = textOf(element, child => !['fr', 'xo'].includes(describe(child).style))
+          addNote(collector, text, caller, style === 'x' ? 'crossReference' : 'footnote')
+        }
+        return
+
+      case 'char': {
+        const textStyle = CHARACTER_STYLES[style]
+        if (collector && textStyle) {
+          beginStyle(collector, textStyle)
+          element.childNodes.forEach(walk)
+          endStyle(collector, textStyle)
+          return
+        }
+        break
+      }
+
+      case 'ignored':
+        return
+    }
+
+    element.childNodes.forEach(walk)
+    if (state.collector && kind === 'para') appendText(state.collector, ' ')
+  }
+
+  return walk
+}
+
+export function parseUsx(content: string): ParsedBibleFile {
+  const document = parseXml(content)
+  const state: { collector: BookCollector | null; books: ParsedBook[] } = { collector: null, books: [] }
+
+  createUsxWalker(state, describeUsxElement)(document.documentElement)
+  if (state.collector) state.books.push(finishBook(state.collector))
+
+  return { format: 'usx', metadata: {}, books: state.books }
+}
+
+/**
+ * Parse one chapter of API.Bible content requested with content-type=html,
+ * which renders USX as paragraphs and spans classed with the USFM markers
+ */
+export function parseScriptureHtml(content: string, bookId: string, chapter: number): ParsedVerse[] {
+  const document = new DOMParser().parseFromString(content, 'text/html')
+  const collector = createCollector(bookId)
+  startChapter(collector, chapter)
+
+  createUsxWalker({ collector, books: [] }, describeHtmlElement)(document.body)
+
+  return finishBook(collector).verses
+}
+
+const RED_LETTER_CSS = /color\s*:\s*(red|#f00\b|#ff0000|#c00\b|#cc0000)/i
+const ZEFANIA_STYLES: Record<string, TextStyle> = {
+  italic: 'italic',
+  emphasis: 'italic',
+  bold: 'bold',
+  'small-caps': 'smallCaps',
+  divineName: 'divineName'
+}
+
+export function parseZefania(content: string): ParsedBibleFile {
+  const document = parseXml(content)
+  const root = document.documentElement
+  const information = Array.from(root.children).find(el => localName(el) === 'information')
+  const infoField = (field: string) =>
+    Array.from(information?.children ?? []).find(el => localName(el) === field)?.textContent?.trim() || undefined
+
+  const metadata: ParsedBibleFile['metadata'] = {
+    name: root.getAttribute('biblename') || infoField('title'),
+    abbreviation: infoField('identifier'),
+    language: infoField('language')
+  }
+
+  const books: ParsedBook[] = []
+  let collector: BookCollector | null = null
+
+  const walkVerse = (node: Node) => {
+    if (!collector) return
+    if (node.nodeType === 3) {
+      appendText(collector, node.nodeValue || '')
+      return
+    }
+    if (node.nodeType !== 1) return
+
+    const element = node as Element
+    switch (localName(element)) {
+      case 'note':
+        addNote(collector, textOf(element))
+        return
+      case 'xref':
+        return
+      case 'br':
+        addBreak(collector, 'line')
+        return
+      case 'style': {
+        const style = RED_LETTER_CSS.test(element.getAttribute('css') || '')
+          ? 'wordsOfJesus'
+          : ZEFANIA_STYLES[element.getAttribute('fs') || '']
+        if (style) {
+          beginStyle(collector, style)
+          element.childNodes.forEach(walkVerse)
+          endStyle(collector, style)
+          return
+        }
+        break
+      }
+    }
+    element.childNodes.forEach(walkVerse)
+  }
+
+  Array.from(root.children).filter(el => localName(el) === 'biblebook').forEach(bookElement => {
+    const number = parseInt(bookElement.getAttribute('bnumber') || '', 10)
+    const name = bookElement.getAttribute('bname') || undefined
+    // bnumber follows the canonical order for 1-66; anything else is matched by name
+    const canonical = number >= 1 && number <= BIBLE_BOOKS.length
+      ? BIBLE_BOOKS[number - 1]
+      : findBibleBook(name || bookElement.getAttribute('bsname') || '')
+
+    collector = createCollector(canonical?.id ?? (name || `Book ${bookElement.getAttribute('bnumber')}`), name)
+
+    Array.from(bookElement.children).filter(el => localName(el) === 'chapter').forEach(chapterElement => {
+      startChapter(collector!, parseInt(chapterElement.getAttribute('cnumber') || '', 10))
+
+      Array.from(chapterElement.children).forEach(child => {
+        const childName = localName(child)
+        if (childName === 'caption') {
+          addHeading(collector!, textOf(child))
+        } else if (childName === 'vers') {
+          startVerse(collector!, parseInt(child.getAttribute('vnumber') || '', 10))
+          child.childNodes.forEach(walkVerse)
+          finishVerse(collector!)
+        } else if (childName === 'remark' || childName === 'note') {
+          // Chapter-level remarks belong to the verse they follow
+          const verses = collector!.book.verses
+          const last = verses[verses.length - 1]
+          if (last && last.chapter === collector!.chapter) {
+            last.markup ??= {}
+            last.markup.notes ??= []
+            last.markup.notes.push({ offset: last.text.length, kind: 'footnote', text: textOf(child).replace(/\s+/g, ' ').trim() })
+          }
+        }
+      })
+    })
+
+    books.push(finishBook(collector))
+    collector = null
+  })
+
+  return { format: 'zefania', metadata, books }
+}
+
+/**
+ * Validation
+ */
+
+/**
+ * Check a parsed book against the canonical book list. Errors keep the book
+ * out of the import; warnings are reported but the book is still imported.
+ */
+export function validateParsedBook(book: ParsedBook): ImportIssue[] {
+  const issues: ImportIssue[] = [...book.issues]
+  const canonical = getBibleBook(book.id)
+
+  if (!canonical) {
+    issues.push({ severity: 'error', message: `Unknown book "${book.id}"` })
+  }
+  if (book.verses.length === 0) {
+    issues.push({ severity: 'error', message: 'No verses found' })
+    return issues
+  }
+
+  const chapters = new Map<number, ParsedVerse[]>()
+  book.verses.forEach(verse => {
+    const list = chapters.get(verse.chapter) ?? []
+    list.push(verse)
+    chapters.set(verse.chapter, list)
+  })
+
+  const lastChapter = Math.max(...chapters.keys())
+  if (canonical && lastChapter > canonical.chapters) {
+    issues.push({ severity: 'warning', message: `Has ${lastChapter} chapters; ${canonical.name} usually has ${canonical.chapters}` })
+  }
+  for (let chapter = 1; chapter <= Math.max(lastChapter, canonical?.chapters ?? 0); chapter++) {
+    if (!chapters.has(chapter)) issues.push({ severity: 'warning', message: `Chapter ${chapter} is missing`, chapter })
+  }
+
+  chapters.forEach((verses, chapter) => {
+    const seen = new Set<number>()
+    let expected = 1
+
+    ;[...verses].sort((a, b) => a.verse - b.verse).forEach(verse => {
+      if (seen.has(verse.verse)) {
+        issues.push({ severity: 'error', message: `Chapter ${chapter} verse ${verse.verse} appears more than once`, chapter, verse: verse.verse })
+        return
+      }
+      seen.add(verse.verse)
+
+      if (verse.verse > expected) {
+        const skipped = verse.verse - 1 === expected ? `${expected}` : `${expected}-${verse.verse - 1}`
+        issues.push({ severity: 'warning', message: `Chapter ${chapter} skips verse ${skipped}`, chapter, verse: expected })
+      }
+      if (!verse.text) {
+        issues.push({ severity: 'warning', message: `Chapter ${chapter} verse ${verse.verse} is empty`, chapter, verse: verse.verse })
+      }
+      expected = Math.max(expected, (verse.endVerse ?? verse.verse) + 1)
+    })
+  })
+
+  return issues
+}
@@ -0,0 +1,146 @@
+// Alternative and localized book names recognised by the reference parser, keyed by canonical book id
+
+/**
+ * Common English abbreviations and OSIS ids, in addition to each book's
+ * canonical name and abbreviation
+ */
+export const BOOK_ALIASES: Readonly<Record<string, readonly string[]>> = {
+  // Old Testament
+  GEN: ['Gn', 'Ge'],
+  EXO: ['Ex', 'Exod'],
+  LEV: ['Lv', 'Le'],
+  NUM: ['Nm', 'Nu'],
+  DEU: ['Deut', 'Dt'],
+  JOS: ['Josh'],
+  JDG: ['Judg', 'Jg'],
+  RUT: ['Ru', 'Rth'],
+  '1SA': ['1 Sam', '1 Sm'],
+  '2SA': ['2 Sam', '2 Sm'],
+  '1KI': ['1 Kgs', '1 Kin'],
+  '2KI': ['2 Kgs', '2 Kin'],
+  '1CH': ['1 Chr', '1 Chron'],
+  '2CH': ['2 Chr', '2 Chron'],
+  EZR: ['Ez'],
+  NEH: ['Ne'],
+  EST: ['Esth', 'Es'],
+  JOB: ['Jb'],
+  PSA: ['Ps', 'Psalm', 'Pss', 'Psm'],
+  PRO: ['Prov', 'Pr', 'Prv'],
+  ECC: ['Eccl', 'Eccles', 'Qoh'],
+  SNG: ['Song', 'Song of Solomon', 'Canticles', 'SOS'],
+  ISA: ['Is'],
+  JER: ['Je', 'Jr'],
+  LAM: ['La'],
+  EZK: ['Ezek', 'Eze'],
+  DAN: ['Dn', 'Da'],
+  HOS: ['Ho'],
+  JOL: ['Jl'],
+  AMO: ['Am'],
+  OBA: ['Obad', 'Ob'],
+  JON: ['Jnh'],
+  MIC: ['Mc'],
+  NAM: ['Nah', 'Na'],
+  HAB: ['Hb'],
+  ZEP: ['Zeph', 'Zp'],
+  HAG: ['Hg'],
+  ZEC: ['Zech', 'Zc'],
+  MAL: ['Ml'],
+  // New Testament
+  MAT: ['Matt', 'Mt'],
+  MRK: ['Mk', 'Mar'],
+  LUK: ['Lk'],
+  JHN: ['Jn', 'Joh'],
+  ACT: ['Ac'],
+  ROM: ['Ro', 'Rm'],
+  '1CO': ['1 Cor'],
+  '2CO': ['2 Cor'],
+  GAL: ['Ga'],
+  EPH: ['Ephes'],
+  PHP: ['Phil', 'Pp'],
+  COL: ['Co'],
+  '1TH': ['1 Thess', '1 Thes'],
+  '2TH': ['2 Thess', '2 Thes'],
+  '1TI': ['1 Tim', '1 Tm'],
+  '2TI': ['2 Tim', '2 Tm'],
+  TIT: ['Ti'],
+  PHM: ['Phlm', 'Philem', 'Pm'],
+  HEB: ['He'],
+  JAS: ['Jm', 'Jms'],
+  '1PE': ['1 Pet', '1 Pt'],
+  '2PE': ['2 Pet', '2 Pt'],
+  '1JN': ['1 Jn', '1 Jhn'],
+  '2JN': ['2 Jn', '2 Jhn'],
+  '3JN': ['3 Jn', '3 Jhn'],
+  JUD: ['Jd'],
+  REV: ['Re', 'Rv', 'Apoc']
+}
+
+/**
+ * Book names in the languages the app ships Bible versions for
+ */
+export const LOCALIZED_BOOK_NAMES: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+  es: {
+    GEN: 'Génesis', EXO: 'Éxodo', LEV: 'Levítico', NUM: 'Números', DEU: 'Deuteronomio',
+    JOS: 'Josué', JDG: 'Jueces', RUT: 'Rut', '1SA': '1 Samuel', '2SA': '2 Samuel',
+    '1KI': '1 Reyes', '2KI': '2 Reyes', '1CH': '1 Crónicas', '2CH': '2 Crónicas', EZR: 'Esdras',
+    NEH: 'Nehemías', EST: 'Ester', JOB: 'Job', PSA: 'Salmos', PRO: 'Proverbios',
+    ECC: 'Eclesiastés', SNG: 'Cantares', ISA: 'Isaías', JER: 'Jeremías', LAM: 'Lamentaciones',
+    EZK: 'Ezequiel', DAN: 'Daniel', HOS: 'Oseas', JOL: 'Joel', AMO: 'Amós',
+    OBA: 'Abdías', JON: 'Jonás', MIC: 'Miqueas', NAM: 'Nahúm', HAB: 'Habacuc',
+    ZEP: 'Sofonías', HAG: 'Hageo', ZEC: 'Zacarías', MAL: 'Malaquías',
+    MAT: 'Mateo', MRK: 'Marcos', LUK: 'Lucas', JHN: 'Juan', ACT: 'Hechos',
+    ROM: 'Romanos', '1CO': '1 Corintios', '2CO': '2 Corintios', GAL: 'Gálatas', EPH: 'Efesios',
+    PHP: 'Filipenses', COL: 'Colosenses', '1TH': '1 Tesalonicenses', '2TH': '2 Tesalonicenses', '1TI': '1 Timoteo',
+    '2TI': '2 Timoteo', TIT: 'Tito', PHM: 'Filemón', HEB: 'Hebreos', JAS: 'Santiago',
+    '1PE': '1 Pedro', '2PE': '2 Pedro', '1JN': '1 Juan', '2JN': '2 Juan', '3JN': '3 Juan',
+    JUD: 'Judas', REV: 'Apocalipsis'
+  },
+  fr: {
+    GEN: 'Genèse', EXO: 'Exode', LEV: 'Lévitique', NUM: 'Nombres', DEU: 'Deutéronome',
+    JOS: 'Josué', JDG: 'Juges', RUT: 'Ruth', '1SA': '1 Samuel', '2SA': '2 Samuel',
+    '1KI': '1 Rois', '2KI': '2 Rois', '1CH': '1 Chroniques', '2CH': '2 Chroniques', EZR: 'Esdras',
+    NEH: 'Néhémie', EST: 'Esther', JOB: 'Job', PSA: 'Psaumes', PRO: 'Proverbes',
+    ECC: 'Ecclésiaste', SNG: 'Cantique des Cantiques', ISA: 'Ésaïe', JER: 'Jérémie', LAM: 'Lamentations',
+    EZK: 'Ézéchiel', DAN: 'Daniel', HOS: 'Osée', JOL: 'Joël', AMO: 'Amos',
+    OBA: 'Abdias', JON: 'Jonas', MIC: 'Michée', NAM: 'Nahum', HAB: 'Habacuc',
+    ZEP: 'Sophonie', HAG: 'Aggée', ZEC: 'Zacharie', MAL: 'Malachie',
+    MAT: 'Matthieu', MRK: 'Marc', LUK: 'Luc', JHN: 'Jean', ACT: 'Actes',
+    ROM: 'Romains', '1CO': '1 Corinthiens', '2CO': '2 Corinthiens', GAL: 'Galates', EPH: 'Éphésiens',
+    PHP: 'Philippiens', COL: 'Colossiens', '1TH': '1 Thessaloniciens', '2TH': '2 Thessaloniciens', '1TI': '1 Timothée',
+    '2TI': '2 Timothée', TIT: 'Tite', PHM: 'Philémon', HEB: 'Hébreux', JAS: 'Jacques',
+    '1PE': '1 Pierre', '2PE': '2 Pierre', '1JN': '1 Jean', '2JN': '2 Jean', '3JN': '3 Jean',
+    JUD: 'Jude', REV: 'Apocalypse'
+  },
+  de: {
+    GEN: '1. Mose', EXO: '2. Mose', LEV: '3. Mose', NUM: '4. Mose', DEU: '5. Mose',
+    JOS: 'Josua', JDG: 'Richter', RUT: 'Rut', '1SA': '1. Samuel', '2SA': '2. Samuel',
+    '1KI': '1. Könige', '2KI': '2. Könige', '1CH': '1. Chronik', '2CH': '2. Chronik', EZR: 'Esra',
+    NEH: 'Nehemia', EST: 'Ester', JOB: 'Hiob', PSA: 'Psalmen', PRO: 'Sprüche',
+    ECC: 'Prediger', SNG: 'Hoheslied', ISA: 'Jesaja', JER: 'Jeremia', LAM: 'Klagelieder',
+    EZK: 'Hesekiel', DAN: 'Daniel', HOS: 'Hosea', JOL: 'Joel', AMO: 'Amos',
+    OBA: 'Obadja', JON: 'Jona', MIC: 'Micha', NAM: 'Nahum', HAB: 'Habakuk',
+    ZEP: 'Zefanja', HAG: 'Haggai', ZEC: 'Sacharja', MAL: 'Maleachi',
+    MAT: 'Matthäus', MRK: 'Markus', LUK: 'Lukas', JHN: 'Johannes', ACT: 'Apostelgeschichte',
+    ROM: 'Römer', '1CO': '1. Korinther', '2CO': '2. Korinther', GAL: 'Galater', EPH: 'Epheser',
+    PHP: 'Philipper', COL: 'Kolosser', '1TH': '1. Thessalonicher', '2TH': '2. Thessalonicher', '1TI': '1. Timotheus',
+    '2TI': '2. Timotheus', TIT: 'Titus', PHM: 'Philemon', HEB: 'Hebräer', JAS: 'Jakobus',
+    '1PE': '1. Petrus', '2PE': '2. Petrus', '1JN': '1. Johannes', '2JN': '2. Johannes', '3JN': '3. Johannes',
+    JUD: 'Judas', REV: 'Offenbarung'
+  },
+  pt: {
+    GEN: 'Gênesis', EXO: 'Êxodo', LEV: 'Levítico', NUM: 'Números', DEU: 'Deuteronômio',
+    JOS: 'Josué', JDG: 'Juízes', RUT: 'Rute', '1SA': '1 Samuel', '2SA': '2 Samuel',
+    '1KI': '1 Reis', '2KI': '2 Reis', '1CH': '1 Crônicas', '2CH': '2 Crônicas', EZR: 'Esdras',
+    NEH: 'Neemias', EST: 'Ester', JOB: 'Jó', PSA: 'Salmos', PRO: 'Provérbios',
+    ECC: 'Eclesiastes', SNG: 'Cânticos', ISA: 'Isaías', JER: 'Jeremias', LAM: 'Lamentações',
+    EZK: 'Ezequiel', DAN: 'Daniel', HOS: 'Oséias', JOL: 'Joel', AMO: 'Amós',
+    OBA: 'Obadias', JON: 'Jonas', MIC: 'Miquéias', NAM: 'Naum', HAB: 'Habacuque',
+    ZEP: 'Sofonias', HAG: 'Ageu', ZEC: 'Zacarias', MAL: 'Malaquias',
+    MAT: 'Mateus', MRK: 'Marcos', LUK: 'Lucas', JHN: 'João', ACT: 'Atos',
+    ROM: 'Romanos', '1CO': '1 Coríntios', '2CO': '2 Coríntios', GAL: 'Gálatas', EPH: 'Efésios',
+    PHP: 'Filipenses', COL: 'Colossenses', '1TH': '1 Tessalonicenses', '2TH': '2 Tessalonicenses', '1TI': '1 Timóteo',
+    '2TI': '2 Timóteo', TIT: 'Tito', PHM: 'Filemom', HEB: 'Hebreus', JAS: 'Tiago',
+    '1PE': '1 Pedro', '2PE': '2 Pedro', '1JN': '1 João', '2JN': '2 João', '3JN': '3 João',
+    JUD: 'Judas', REV: 'Apocalipse'
+  }
+}
@@ -63,7 +63,9 @@ export function enrichNote(note: Note): NoteWithReference {
 
   return {
     ...note,
-    reference: formatBibleReference(note.book, note.chapter, note.verse),
+    reference: note.book && note.chapter
+      ? formatBibleReference(note.book, note.chapter, note.verse ?? undefined)
+      : 'Unattached',
     wordCount,
     isRecent
   }
@@ -0,0 +1,86 @@
+// Chapter planning, retry policy and a bounded worker pool for resumable version downloads
+import type { Book } from '@/types'
+import type { ChapterDownload, DownloadProgress, VersionDownload } from '@/types/downloads'
+
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 60 * 1000
+
+export function toChapterDownloadId(version: string, book: string, chapter: number): string {
+  return `${version}:${book}.${chapter}`
+}
+
+/**
+ * One pending row per chapter of every book, in canonical order
+ */
+export function createChapterDownloads(version: string, books: Book[], now: Date = new Date()): ChapterDownload[] {
+  return [...books]
+    .sort((a, b) => a.order - b.order)
+    .flatMap(book => Array.from({ length: book.chapters }, (_, i) => ({
+      id: toChapterDownloadId(version, book.id, i + 1),
+      version,
+      book: book.id,
+      chapter: i + 1,
+      status: 'pending' as const,
+      attempts: 0,
+      updatedAt: now
+    })))
+}
+
+export function toDownloadProgress(download: VersionDownload): DownloadProgress {
+  const { version, status, completedChapters, failedChapters, totalChapters, error } = download
+  const percent = status === 'completed'
+    ? 100
+    : totalChapters > 0 ? (completedChapters / totalChapters) * 100 : 0
+
+  return { version, status, completedChapters, failedChapters, totalChapters, percent, error }
+}
+
+/**
+ * Rate limiting, timeouts, server errors and network failures (no status) are
+ * worth retrying; anything else, such as a missing chapter, is not
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status
+  if (typeof status !== 'number') return true
+  return status === 408 || status === 429 || status >= 500
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return (error as { status?: unknown })?.status === 429
+}
+
+/**
+ * Exponential backoff with jitter, honouring the server's Retry-After when given
+ */
+export function getRetryDelay(attempt: number, error?: unknown, random: () => number = Math.random): number {
+  const retryAfter = (error as { retryAfter?: unknown })?.retryAfter
+  if (typeof retryAfter === 'number' && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS)
+  }
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS)
+  return Math.round(delay * (0.75 + random() * 0.5))
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight. Workers stop
+ * taking new items once `shouldContinue` returns false; items already
+ * started are allowed to finish.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  shouldContinue: () => boolean = () => true
+): Promise<void> {
+  let next = 0
+
+  const run = async () => {
+    while (next < items.length && shouldContinue()) {
+      const item = items[next++]
+      await worker(item)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run))
+}
@@ -0,0 +1,101 @@
+// Highlights across verses: which verses a highlight covers, what part of each it
+// takes in the text being read, and how overlapping highlights stack
+import type { Highlight, Verse } from '@/types'
+import type { HighlightVersePart, LayeredPiece, OffsetRange } from '@/types/highlightRanges'
+import type { ScripturePassage } from '@/types/scriptureReference'
+import type { ResolvedHighlightRange } from '@/types/verseAnchors'
+import type { VerseRef } from '@/types/versification'
+import { passageIncludesVerse } from './noteMarkdown'
+import { formatScriptureReference } from './scriptureReference'
+import { resolveHighlightRange } from './verseAnchors'
+
+type HighlightLocation = Pick<Highlight, 'book' | 'chapter' | 'verse' | 'endChapter' | 'endVerse'>
+
+export function getHighlightPassage(highlight: HighlightLocation): ScripturePassage {
+  return {
+    book: highlight.book,
+    startChapter: highlight.chapter,
+    startVerse: highlight.verse,
+    endChapter: highlight.endChapter ?? highlight.chapter,
+    endVerse: highlight.endVerse ?? highlight.verse
+  }
+}
+
+export function isMultiVerseHighlight(highlight: HighlightLocation): boolean {
+  return (highlight.endChapter ?? highlight.chapter) !== highlight.chapter ||
+    (highlight.endVerse ?? highlight.verse) !== highlight.verse
+}
+
+export function highlightCoversVerse(highlight: HighlightLocation, book: string, chapter: number, verse: number): boolean {
+  return passageIncludesVerse(getHighlightPassage(highlight), book, chapter, verse)
+}
+
+export function formatHighlightReference(highlight: HighlightLocation): string {
+  return formatScriptureReference(getHighlightPassage(highlight))
+}
+
+export function getHighlightVersePart(highlight: HighlightLocation, chapter: number, verse: number): HighlightVersePart {
+  if (!isMultiVerseHighlight(highlight)) return 'single'
+  if (chapter === highlight.chapter && verse === highlight.verse) return 'first'
+  if (chapter === (highlight.endChapter ?? highlight.chapter) && verse === highlight.endVerse) return 'last'
+  return 'middle'
+}
+
+/**
+ * Where a highlight falls in one verse of the text being read; `ref` is the verse's
+ * stored reference. Across verses the first verse is covered from the start offset on,
+ * the last up to the end offset, and the verses between them whole.
+ */
+export function resolveHighlightOnVerse(highlight: Highlight, verse: Verse, ref: VerseRef): ResolvedHighlightRange {
+  const length = verse.text.length
+  const whole: ResolvedHighlightRange = { status: 'exact', startOffset: 0, endOffset: length }
+
+  switch (getHighlightVersePart(highlight, ref.chapter, ref.verse)) {
+    case 'single':
+      return resolveHighlightRange(highlight, verse)
+
+    case 'first': {
+      if (highlight.startOffset === undefined) return whole
+      const range = resolveHighlightRange({ ...highlight, endOffset: length }, verse)
+      return range.status === 'unmapped' ? range : { ...range, endOffset: length }
+    }
+
+    case 'last': {
+      if (highlight.endOffset === undefined) return whole
+      // The anchor fingerprints the first verse, so the last is matched by version and its own quote
+      const range = resolveHighlightRange(
+        { ...highlight, startOffset: 0, textFingerprint: undefined, quote: highlight.endQuote },
+        verse
+      )
+      return range.status === 'unmapped' ? range : { ...range, startOffset: 0 }
+    }
+
+    case 'middle':
+      return whole
+  }
+}
+
+/**
+ * Split overlapping ranges into pieces that each have one set of highlights over them.
+ * Longer ranges go underneath shorter ones so a highlight inside another stays visible;
+ * equal lengths keep the order they were given in, later on top.
+ */
+export function layerRanges<T extends OffsetRange>(ranges: T[]): LayeredPiece<T>[] {
+  const usable = ranges.filter(range => range.endOffset > range.startOffset)
+  const order = new Map(usable.map((range, index) => [range, index]))
+  const byLayer = [...usable].sort((a, b) =>
+    (b.endOffset - b.startOffset) - (a.endOffset - a.startOffset) || order.get(a)! - order.get(b)!
+  )
+
+  const boundaries = [...new Set(usable.flatMap(range => [range.startOffset, range.endOffset]))].sort((a, b) => a - b)
+  const pieces: LayeredPiece<T>[] = []
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const startOffset = boundaries[i]
+    const endOffset = boundaries[i + 1]
+    const layers = byLayer.filter(range => range.startOffset <= startOffset && range.endOffset >= endOffset)
+    if (layers.length > 0) pieces.push({ startOffset, endOffset, layers })
+  }
+
+  return pieces
+}
@@ -0,0 +1,120 @@
+// Passage memorization: a reference range is split into chunk cards that unlock
+// one after another, followed by a whole-passage recitation card
+import type { Verse } from '@/types'
+import type {
+  MemorizationCard,
+  MemorizationSettings,
+  PassageChunk,
+  PassageProgress
+} from '@/types/quickWins'
+import { formatScriptureReference } from './scriptureReference'
+import { DEFAULT_MEMORIZATION_SETTINGS } from './spacedRepetition'
+
+/**
+ * Split a passage's verses into chunks of about `chunkSize` verses. Chunk sizes
+ * differ by at most one, so seven verses in threes become 3 + 2 + 2, not 3 + 3 + 1.
+ */
+export function splitPassageIntoChunks(verses: Verse[], chunkSize: number): PassageChunk[] {
+  if (verses.length === 0) return []
+
+  const chunkCount = Math.ceil(verses.length / Math.max(1, chunkSize))
+  const baseSize = Math.floor(verses.length / chunkCount)
+  const larger = verses.length % chunkCount
+
+  const chunks: PassageChunk[] = []
+  let start = 0
+  for (let i = 0; i < chunkCount; i++) {
+    const size = baseSize + (i < larger ? 1 : 0)
+    const chunkVerses = verses.slice(start, start + size)
+    start += size
+
+    chunks.push({
+      verses: chunkVerses,
+      text: chunkVerses.map(verse => verse.text).join(' '),
+      reference: formatVerseRange(chunkVerses)
+    })
+  }
+  return chunks
+}
+
+function formatVerseRange(verses: Verse[]): string {
+  const first = verses[0]
+  const last = verses[verses.length - 1]
+  return formatScriptureReference({
+    book: first.book,
+    startChapter: first.chapter,
+    startVerse: first.verse,
+    endChapter: last.chapter,
+    endVerse: last.verse
+  })
+}
+
+/**
+ * A chunk is learned once its interval reaches the unlock threshold
+ */
+export function isChunkLearned(
+  card: MemorizationCard,
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS
+): boolean {
+  return !card.locked && (card.mastered || card.interval >= settings.chunkUnlockInterval)
+}
+
+/**
+ * Locked cards of one passage that should now unlock: each chunk once every
+ * chunk before it is learned, and the recitation once all of them are.
+ * Unlocked cards stay unlocked even if an earlier chunk is later forgotten.
+ */
+export function getPassageUnlocks(
+  passageCards: MemorizationCard[],
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS
+): MemorizationCard[] {
+  const chunks = passageCards
+    .filter(card => card.chunkIndex !== null)
+    .sort((a, b) => a.chunkIndex! - b.chunkIndex!)
+  const recitation = passageCards.find(card => card.chunkIndex === null)
+
+  const unlocks: MemorizationCard[] = []
+  let previousLearned = true
+  for (const chunk of chunks) {
+    if (chunk.locked && previousLearned) unlocks.push(chunk)
+    previousLearned = previousLearned && isChunkLearned(chunk, settings)
+  }
+
+  if (recitation?.locked && chunks.length > 0 && previousLearned) {
+    unlocks.push(recitation)
+  }
+  return unlocks
+}
+
+/**
+ * Progress through each passage, counting the recitation as one more step
+ */
+export function getPassageProgress(
+  cards: MemorizationCard[],
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS
+): PassageProgress[] {
+  const byPassage = new Map<string, MemorizationCard[]>()
+  cards.forEach(card => {
+    if (!card.passageId) return
+    byPassage.set(card.passageId, [...(byPassage.get(card.passageId) ?? []), card])
+  })
+
+  return [...byPassage.entries()].map(([passageId, passageCards]) => {
+    const chunks = passageCards.filter(card => card.chunkIndex !== null)
+    const recitation = passageCards.find(card => card.chunkIndex === null)
+    const chunkCount = passageCards[0].chunkCount ?? chunks.length
+    const learnedChunks = chunks.filter(card => isChunkLearned(card, settings)).length
+    const mastered = recitation?.mastered ?? false
+
+    return {
+      passageId,
+      reference: passageCards[0].passageReference ?? recitation?.verseReference ?? '',
+      chunkCount,
+      unlockedChunks: chunks.filter(card => !card.locked).length,
+      learnedChunks,
+      recitationUnlocked: recitation ? !recitation.locked : false,
+      mastered,
+      progress: Math.round(((learnedChunks + (mastered ? 1 : 0)) / (chunkCount + 1)) * 100)
+    }
+  })
+}
@@ -0,0 +1,192 @@
+// Markdown for notes: parses the small dialect notes are written in into blocks
+// the note components render (never raw HTML), and finds [[verse]] links for backlinks
+import type { NoteBlock, NoteInline, NoteVerseLink } from '@/types/noteMarkdown'
+import type { ScripturePassage } from '@/types/scriptureReference'
+import { parseScriptureReferences } from './scriptureReference'
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/
+
+// Code spans first so nothing inside them is formatted; "_" only counts at word edges
+const INLINE_PATTERN = new RegExp([
+  '`([^`]+)`',
+  '\\[\\[([^\\]]+)\\]\\]',
+  '\\[([^\\]]+)\\]\\((https?:\\/\\/[^\\s)]+)\\)',
+  '\\*\\*(.+?)\\*\\*',
+  '(?<![\\w])__(.+?)__(?![\\w])',
+  '\\*(.+?)\\*',
+  '(?<![\\w])_(.+?)_(?![\\w])'
+].join('|'))
+
+export function parseNoteMarkdown(content: string): NoteBlock[] {
+  const blocks: NoteBlock[] = []
+  let paragraph: string[] = []
+  let quote: string[] = []
+  let list: { ordered: boolean; items: string[] } | null = null
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseLines(paragraph) })
+    if (quote.length > 0) blocks.push({ type: 'quote', children: parseLines(quote) })
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) })
+    paragraph = []
+    quote = []
+    list = null
+  }
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if (line.trim() === '') {
+      flush()
+      continue
+    }
+
+    const heading = HEADING_PATTERN.exec(line)
+    if (heading) {
+      flush()
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) })
+      continue
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flush()
+      blocks.push({ type: 'rule' })
+      continue
+    }
+
+    const unordered = UNORDERED_ITEM_PATTERN.exec(line)
+    const ordered = unordered ? null : ORDERED_ITEM_PATTERN.exec(line)
+    if (unordered || ordered) {
+      const isOrdered = ordered !== null
+      if (!list || list.ordered !== isOrdered) {
+        flush()
+        list = { ordered: isOrdered, items: [] }
+      }
+      list.items.push((unordered ?? ordered)![1])
+      continue
+    }
+
+    const quoted = QUOTE_PATTERN.exec(line)
+    if (quoted) {
+      if (quote.length === 0) flush()
+      quote.push(quoted[1])
+      continue
+    }
+
+    // A line without a marker continues the current list item or quote
+    if (list) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`
+    } else if (quote.length > 0) {
+      quote.push(line.trim())
+    } else {
+      paragraph.push(line.trim())
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+function parseLines(lines: string[]): NoteInline[] {
+  return lines.flatMap((line, index) => index === 0 ? parseInline(line) : [{ type: 'break' as const }, ...parseInline(line)])
+}
+
+export function parseInline(text: string): NoteInline[] {
+  const nodes: NoteInline[] = []
+  let rest = text
+
+  while (rest.length > 0) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      nodes.push({ type: 'text', text: rest })
+      break
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) })
+    }
+
+    const [, code, verseLink, linkText, href, strong, strongUnderscore, emphasis, emphasisUnderscore] = match
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (verseLink !== undefined) {
+      nodes.push(createVerseLink(verseLink))
+    } else if (href !== undefined) {
+      nodes.push({ type: 'link', href, children: parseInline(linkText) })
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) })
+    } else {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis ?? emphasisUnderscore) })
+    }
+
+    rest = rest.slice(match.index + match[0].length)
+  }
+
+  return nodes
+}
+
+function createVerseLink(inner: string): NoteVerseLink {
+  const [reference, label] = inner.split('|').map(part => part.trim())
+  const { passages, errors } = parseScriptureReferences(reference)
+  return {
+    type: 'verseLink',
+    reference,
+    label: label || reference,
+    passages: errors.length === 0 ? passages : []
+  }
+}
+
+function collectInline(nodes: NoteInline[], visit: (node: NoteInline) => void): void {
+  nodes.forEach(node => {
+    visit(node)
+    if ('children' in node) collectInline(node.children, visit)
+  })
+}
+
+/**
+ * Every passage a note links to with [[...]], in order
+ */
+export function extractVerseLinks(content: string): ScripturePassage[] {
+  if (!content.includes('[[')) return []
+
+  const passages: ScripturePassage[] = []
+  const visit = (node: NoteInline) => {
+    if (node.type === 'verseLink') passages.push(...node.passages)
+  }
+
+  parseNoteMarkdown(content).forEach(block => {
+    if (block.type === 'list') block.items.forEach(item => collectInline(item, visit))
+    else if (block.type !== 'rule') collectInline(block.children, visit)
+  })
+  return passages
+}
+
+/**
+ * Whether a passage covers a verse. Passages without chapters cover the whole
+ * book, and ones without verses cover whole chapters.
+ */
+export function passageIncludesVerse(passage: ScripturePassage, book: string, chapter: number, verse: number): boolean {
+  if (passage.book !== book) return false
+  if (passage.startChapter === undefined) return true
+
+  const endChapter = passage.endChapter ?? passage.startChapter
+  if (chapter < passage.startChapter || chapter > endChapter) return false
+  if (chapter === passage.startChapter && passage.startVerse !== undefined && verse < passage.startVerse) return false
+  if (chapter === endChapter && passage.endVerse !== undefined && verse > passage.endVerse) return false
+  return true
+}
+
+/**
+ * Note text without markdown syntax, for previews, search and word counts
+ */
+export function markdownToPlainText(content: string): string {
+  return content
+    .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+    .replace(/\[\[([^\]]+)\]\]/g, '$1')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '$1')
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+    .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/gm, '')
+    .replace(/(\*\*|__|\*|`)(.+?)\1/g, '$2')
+    .replace(/(?<![\w])_(.+?)_(?![\w])/g, '$1')
+}
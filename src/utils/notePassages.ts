@@ -0,0 +1,103 @@
+// Note locations: what a note covers (a verse, a range, a chapter or nothing) and
+// how that maps to and from the reference parser's passages
+import type { Note, NoteScope } from '@/types'
+import type { ScripturePassage } from '@/types/scriptureReference'
+import { formatScriptureReference } from './scriptureReference'
+import { passageIncludesVerse } from './noteMarkdown'
+
+export type NoteLocation = Pick<Note, 'book' | 'chapter' | 'verse' | 'endChapter' | 'endVerse'>
+
+export const UNATTACHED_NOTE_LOCATION: NoteLocation = {
+  book: null,
+  chapter: null,
+  verse: null,
+  endChapter: null,
+  endVerse: null
+}
+
+export function getNoteScope(note: NoteLocation): NoteScope {
+  if (note.book === null || note.chapter === null) return 'none'
+
+  const endChapter = note.endChapter ?? note.chapter
+  if (note.verse === null) {
+    return endChapter === note.chapter ? 'chapter' : 'range'
+  }
+
+  const endVerse = note.endVerse ?? note.verse
+  return endChapter === note.chapter && endVerse === note.verse ? 'verse' : 'range'
+}
+
+/**
+ * The passage a note covers, or null for notes that aren't attached to scripture
+ */
+export function getNotePassage(note: NoteLocation): ScripturePassage | null {
+  if (note.book === null || note.chapter === null) return null
+
+  const passage: ScripturePassage = {
+    book: note.book,
+    startChapter: note.chapter,
+    endChapter: note.endChapter ?? note.chapter
+  }
+  if (note.verse !== null) {
+    passage.startVerse = note.verse
+    passage.endVerse = note.endVerse ?? (passage.endChapter === note.chapter ? note.verse : undefined)
+  }
+  return passage
+}
+
+/**
+ * Where a note made on a parsed reference goes. Whole books are too broad to attach to.
+ */
+export function toNoteLocation(passage: ScripturePassage | null): NoteLocation {
+  if (!passage) return { ...UNATTACHED_NOTE_LOCATION }
+  if (passage.startChapter === undefined) {
+    throw new Error('Notes can be attached to verses, ranges or chapters, not whole books')
+  }
+
+  const endChapter = passage.endChapter ?? passage.startChapter
+  return {
+    book: passage.book,
+    chapter: passage.startChapter,
+    verse: passage.startVerse ?? null,
+    endChapter: endChapter !== passage.startChapter ? endChapter : null,
+    endVerse: passage.endVerse !== undefined && (passage.endVerse !== passage.startVerse || endChapter !== passage.startChapter)
+      ? passage.endVerse
+      : null
+  }
+}
+
+/**
+ * Notes that start on a verse (single verses and ranges), narrowed so they can be
+ * placed on that verse like bookmarks and highlights
+ */
+export function startsOnVerse<T extends NoteLocation>(note: T): note is T & { book: string; chapter: number; verse: number } {
+  return note.book !== null && note.chapter !== null && note.verse !== null
+}
+
+export function noteCoversVerse(note: NoteLocation, book: string, chapter: number, verse: number): boolean {
+  const passage = getNotePassage(note)
+  return passage !== null && passageIncludesVerse(passage, book, chapter, verse)
+}
+
+export function noteOverlapsChapter(note: NoteLocation, book: string, chapter: number): boolean {
+  if (note.book !== book || note.chapter === null) return false
+  return chapter >= note.chapter && chapter <= (note.endChapter ?? note.chapter)
+}
+
+export function formatNoteReference(note: NoteLocation): string {
+  const passage = getNotePassage(note)
+  return passage ? formatScriptureReference(passage) : 'Unattached'
+}
+
+/**
+ * Canonical-ish order for note lists: by book, then where the passage starts,
+ * with chapter notes before their verses and unattached notes last
+ */
+export function compareNoteLocations(a: NoteLocation, b: NoteLocation): number {
+  if (a.book === null || b.book === null) {
+    return (a.book === null ? 1 : 0) - (b.book === null ? 1 : 0)
+  }
+  return a.book.localeCompare(b.book) ||
+    (a.chapter ?? 0) - (b.chapter ?? 0) ||
+    (a.verse ?? 0) - (b.verse ?? 0)
+}
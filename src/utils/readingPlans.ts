@@ -0,0 +1,406 @@
+// Reading plan definitions and pure scheduling helpers
+import type {
+  PassageRange,
+  ReadingPlanDay,
+  ReadingPlanDefinition,
+  ReadingPlanEnrollment,
+  ReadingPlanDayProgress,
+  ReadingPlanCatchUp,
+  ReadingPlanCatchUpEntry,
+  DailyAssignment
+} from '@/types/readingPlans'
+import { BIBLE_BOOKS, getBibleBook, getBookRange } from './bibleBooks'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// [book, startChapter?, endChapter?] - omitted chapters mean the whole book
+type Segment = [string, number?, number?]
+
+/**
+ * Approximate chronological order of the canon, following the usual
+ * "Job after Genesis 11, prophets alongside Kings" arrangement
+ */
+const CHRONOLOGICAL_SEGMENTS: Segment[] = [
+  ['GEN', 1, 11], ['JOB'], ['GEN', 12, 50], ['EXO'], ['LEV'], ['NUM'], ['DEU'],
+  ['JOS'], ['JDG'], ['RUT'], ['1SA'], ['2SA'], ['1CH'], ['PSA'],
+  ['1KI', 1, 11], ['PRO'], ['ECC'], ['SNG'], ['1KI', 12, 22], ['2KI', 1, 13],
+  ['OBA'], ['JOL'], ['2KI', 14, 14], ['JON'], ['AMO'], ['HOS'], ['2KI', 15, 20],
+  ['ISA'], ['MIC'], ['2KI', 21, 25], ['NAM'], ['ZEP'], ['HAB'], ['JER'], ['LAM'],
+  ['2CH'], ['EZK'], ['DAN'], ['EZR', 1, 6], ['HAG'], ['ZEC'], ['EST'],
+  ['EZR', 7, 10], ['NEH'], ['MAL'],
+  ['MAT'], ['MRK'], ['LUK'], ['JHN'], ['ACT', 1, 12], ['JAS'], ['ACT', 13, 14],
+  ['GAL'], ['ACT', 15, 18], ['1TH'], ['2TH'], ['ACT', 19, 19], ['1CO'], ['2CO'],
+  ['ROM'], ['ACT', 20, 28], ['EPH'], ['PHP'], ['COL'], ['PHM'], ['1TI'], ['TIT'],
+  ['1PE'], ['HEB'], ['2TI'], ['2PE'], ['JUD'], ['1JN'], ['2JN'], ['3JN'], ['REV']
+]
+
+/**
+ * Chapter keys use the same "BOOK.CHAPTER" form as API.Bible chapter ids
+ */
+export function toChapterKey(book: string, chapter: number): string {
+  return `${book}.${chapter}`
+}
+
+export function parseChapterKey(key: string): { book: string; chapter: number } {
+  const [book, chapter] = key.split('.')
+  return { book, chapter: parseInt(chapter, 10) }
+}
+
+export function expandPassages(passages: PassageRange[]): string[] {
+  const chapters: string[] = []
+  passages.forEach(passage => {
+    for (let chapter = passage.startChapter; chapter <= passage.endChapter; chapter++) {
+      chapters.push(toChapterKey(passage.book, chapter))
+    }
+  })
+  return chapters
+}
+
+/**
+ * Collapse consecutive chapters of the same book back into ranges
+ */
+export function groupChapters(chapterKeys: string[]): PassageRange[] {
+  const ranges: PassageRange[] = []
+
+  chapterKeys.forEach(key => {
+    const { book, chapter } = parseChapterKey(key)
+    const last = ranges[ranges.length - 1]
+
+    if (last && last.book === book && last.endChapter === chapter - 1) {
+      last.endChapter = chapter
+    } else {
+      ranges.push({ book, startChapter: chapter, endChapter: chapter })
+    }
+  })
+
+  return ranges
+}
+
+function booksToChapters(bookIds: string[]): string[] {
+  return expandPassages(
+    bookIds
+      .map(id => getBibleBook(id))
+      .filter(book => book !== undefined)
+      .map(book => ({ book: book.id, startChapter: 1, endChapter: book.chapters }))
+  )
+}
+
+function segmentsToChapters(segments: Segment[]): string[] {
+  return expandPassages(segments.map(([book, start, end]) => ({
+    book,
+    startChapter: start ?? 1,
+    endChapter: end ?? getBibleBook(book)?.chapters ?? 0
+  })))
+}
+
+/**
+ * Split a chapter list evenly across a number of days
+ */
+export function distributeChapters(chapters: string[], days: number): string[][] {
+  const result: string[][] = []
+  for (let i = 0; i < days; i++) {
+    const start = Math.floor((i * chapters.length) / days)
+    const end = Math.floor(((i + 1) * chapters.length) / days)
+    result.push(chapters.slice(start, end))
+  }
+  return result
+}
+
+/**
+ * Build plan days from one or more parallel reading streams
+ */
+function buildDays(streams: string[][], durationDays: number): ReadingPlanDay[] {
+  // Streams shorter than the plan are stretched so long chapters are read over
+  // consecutive days instead of leaving days without a reading
+  const distributed = streams.map(stream =>
+    stream.length >= durationDays
+      ? distributeChapters(stream, durationDays)
+      : Array.from({ length: durationDays }, (_, index) => [stream[Math.floor((index * stream.length) / durationDays)]])
+  )
+
+  return Array.from({ length: durationDays }, (_, index) => ({
+    day: index + 1,
+    passages: distributed.flatMap(stream => groupChapters(stream[index]))
+  }))
+}
+
+function createMcheynePlan(): ReadingPlanDefinition {
+  const ids = (from: string, to: string) => getBookRange(from, to).map(book => book.id)
+
+  // Four daily streams (Gen, Matt, Ezra, Acts on day one): the Old Testament once
+  // and the New Testament twice over the year
+  const streams = [
+    booksToChapters(ids('GEN', '2CH')),
+    booksToChapters(ids('MAT', 'REV')),
+    booksToChapters(ids('EZR', 'MAL')),
+    booksToChapters([...ids('ACT', 'REV'), ...ids('MAT', 'JHN')])
+  ]
+
+  return {
+    id: 'mcheyne',
+    type: 'mcheyne',
+    name: "M'Cheyne Reading Plan",
+    description: 'Four readings a day: the Old Testament once and the New Testament twice in a year.',
+    durationDays: 365,
+    days: buildDays(streams, 365)
+  }
+}
+
+function createChronologicalPlan(): ReadingPlanDefinition {
+  return {
+    id: 'chronological',
+    type: 'chronological',
+    name: 'Chronological Bible in a Year',
+    description: 'Read the whole Bible in the order the events happened.',
+    durationDays: 365,
+    days: buildDays([segmentsToChapters(CHRONOLOGICAL_SEGMENTS)], 365)
+  }
+}
+
+function createCanonicalYearPlan(): ReadingPlanDefinition {
+  return {
+    id: 'canonical-year',
+    type: 'canonical-year',
+    name: 'Bible in a Year',
+    description: 'Read from Genesis to Revelation in canonical order over one year.',
+    durationDays: 365,
+    days: buildDays([booksToChapters(BIBLE_BOOKS.map(book => book.id))], 365)
+  }
+}
+
+function createNewTestament90Plan(): ReadingPlanDefinition {
+  const newTestament = BIBLE_BOOKS.filter(book => book.testament === 'new').map(book => book.id)
+
+  return {
+    id: 'nt-90-days',
+    type: 'nt-90-days',
+    name: 'New Testament in 90 Days',
+    description: 'Read through the New Testament in about three chapters a day.',
+    durationDays: 90,
+    days: buildDays([booksToChapters(newTestament)], 90)
+  }
+}
+
+let builtInPlans: ReadingPlanDefinition[] | null = null
+
+/**
+ * Get the built-in reading plans (generated once and cached)
+ */
+export function getBuiltInPlans(): ReadingPlanDefinition[] {
+  if (!builtInPlans) {
+    builtInPlans = [
+      createMcheynePlan(),
+      createChronologicalPlan(),
+      createCanonicalYearPlan(),
+      createNewTestament90Plan()
+    ]
+  }
+  return builtInPlans
+}
+
+export function getBuiltInPlan(planId: string): ReadingPlanDefinition | undefined {
+  return getBuiltInPlans().find(plan => plan.id === planId)
+}
+
+/**
+ * Create a custom plan by spreading the given passages over a number of days
+ */
+export function createCustomPlan(options: {
+  name: string
+  description?: string
+  passages: PassageRange[]
+  durationDays: number
+}): ReadingPlanDefinition {
+  if (options.durationDays < 1) {
+    throw new Error('A reading plan must last at least one day')
+  }
+
+  const chapters = expandPassages(options.passages)
+  if (chapters.length === 0) {
+    throw new Error('A reading plan must include at least one chapter')
+  }
+
+  return {
+    id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type: 'custom',
+    name: options.name,
+    description: options.description || '',
+    durationDays: options.durationDays,
+    days: buildDays([chapters], options.durationDays)
+  }
+}
+
+/**
+ * Scheduling
+ */
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = startOfDay(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Get the 1-based plan day for a calendar date (0 or less before the plan starts)
+ */
+export function getPlanDayForDate(startDate: Date, date: Date = new Date()): number {
+  const diff = startOfDay(date).getTime() - startOfDay(startDate).getTime()
+  return Math.round(diff / DAY_MS) + 1
+}
+
+export function getDateForPlanDay(startDate: Date, day: number): Date {
+  return addDays(startDate, day - 1)
+}
+
+export function getPlanDayChapters(plan: ReadingPlanDefinition, day: number): string[] {
+  const planDay = plan.days.find(d => d.day === day)
+  return planDay ? expandPassages(planDay.passages) : []
+}
+
+export function isDayComplete(
+  plan: ReadingPlanDefinition,
+  day: number,
+  progress?: ReadingPlanDayProgress
+): boolean {
+  if (!progress) return false
+  if (progress.completedAt) return true
+  return getPlanDayChapters(plan, day).every(chapter => progress.completedChapters.includes(chapter))
+}
+
+/**
+ * Days before the current day that still have unread chapters
+ */
+export function getMissedDays(
+  plan: ReadingPlanDefinition,
+  progressByDay: Map<number, ReadingPlanDayProgress>,
+  currentDay: number
+): number[] {
+  const lastDay = Math.min(currentDay - 1, plan.durationDays)
+  const missed: number[] = []
+
+  for (let day = 1; day <= lastDay; day++) {
+    if (!isDayComplete(plan, day, progressByDay.get(day))) {
+      missed.push(day)
+    }
+  }
+
+  return missed
+}
+
+/**
+ * Gather the unread chapters of missed days and spread them across upcoming days
+ */
+export function createCatchUp(
+  plan: ReadingPlanDefinition,
+  progressByDay: Map<number, ReadingPlanDayProgress>,
+  currentDay: number,
+  spreadOverDays: number
+): ReadingPlanCatchUp | null {
+  const entries: ReadingPlanCatchUpEntry[] = []
+
+  getMissedDays(plan, progressByDay, currentDay).forEach(day => {
+    const completed = progressByDay.get(day)?.completedChapters || []
+    getPlanDayChapters(plan, day)
+      .filter(chapter => !completed.includes(chapter))
+      .forEach(chapter => entries.push({ day, chapter }))
+  })
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  return {
+    startDay: Math.max(currentDay, 1),
+    spreadOverDays: Math.max(1, spreadOverDays),
+    entries
+  }
+}
+
+export function getCatchUpEntriesForDay(
+  catchUp: ReadingPlanCatchUp | null | undefined,
+  day: number
+): ReadingPlanCatchUpEntry[] {
+  if (!catchUp) return []
+
+  const offset = day - catchUp.startDay
+  if (offset < 0 || offset >= catchUp.spreadOverDays) {
+    return []
+  }
+
+  const start = Math.floor((offset * catchUp.entries.length) / catchUp.spreadOverDays)
+  const end = Math.floor(((offset + 1) * catchUp.entries.length) / catchUp.spreadOverDays)
+  return catchUp.entries.slice(start, end)
+}
+
+/**
+ * Build what the reader should read on a given plan day, including any catch-up share
+ */
+export function buildDailyAssignment(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlanDefinition,
+  progressByDay: Map<number, ReadingPlanDayProgress>,
+  day: number,
+  today: Date = new Date()
+): DailyAssignment {
+  const completedChapters: string[] = []
+  const chapters: string[] = []
+
+  getCatchUpEntriesForDay(enrollment.catchUp, day).forEach(entry => {
+    chapters.push(entry.chapter)
+    if (progressByDay.get(entry.day)?.completedChapters.includes(entry.chapter)) {
+      completedChapters.push(entry.chapter)
+    }
+  })
+
+  const dayProgress = progressByDay.get(day)
+  getPlanDayChapters(plan, day).forEach(chapter => {
+    chapters.push(chapter)
+    if (dayProgress?.completedChapters.includes(chapter) || dayProgress?.completedAt) {
+      completedChapters.push(chapter)
+    }
+  })
+
+  const isComplete = chapters.length > 0 && completedChapters.length === chapters.length
+
+  return {
+    enrollmentId: enrollment.id,
+    day,
+    date: getDateForPlanDay(enrollment.startDate, day),
+    passages: groupChapters(chapters),
+    chapters,
+    completedChapters,
+    isComplete,
+    isOverdue: !isComplete && day < getPlanDayForDate(enrollment.startDate, today)
+  }
+}
+
+/**
+ * Find the day a freshly read chapter should be credited to: the earliest
+ * unfinished day up to today that assigns it
+ */
+export function findDayForChapter(
+  plan: ReadingPlanDefinition,
+  progressByDay: Map<number, ReadingPlanDayProgress>,
+  chapterKey: string,
+  currentDay: number
+): number | null {
+  const lastDay = Math.min(currentDay, plan.durationDays)
+
+  for (let day = 1; day <= lastDay; day++) {
+    const progress = progressByDay.get(day)
+    if (progress?.completedAt || progress?.completedChapters.includes(chapterKey)) {
+      continue
+    }
+    if (getPlanDayChapters(plan, day).includes(chapterKey)) {
+      return day
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,204 @@
+// Active recall exercises for memorization review: first-letter prompts, cloze
+// blanks, word scrambles and typed recall, each scored into a 0-5 quality
+import type { RecallResult, ReviewMode, VerseWord, WordDiff } from '@/types/quickWins'
+
+export const REVIEW_MODES: { value: ReviewMode; label: string; description: string }[] = [
+  { value: 'reveal', label: 'Reveal', description: 'Recall, then show the verse and rate yourself' },
+  { value: 'first-letter', label: 'First letters', description: 'Type the verse from the first letter of each word' },
+  { value: 'cloze', label: 'Fill the blanks', description: 'Fill in missing words, more as the verse is learned' },
+  { value: 'scramble', label: 'Word order', description: 'Put the shuffled words back in order' },
+  { value: 'typed', label: 'Type it out', description: 'Type the whole verse from memory' }
+]
+
+// Prompted modes can't show perfect recall, so they top out lower - at 4, which
+// SM-2 takes as a good answer that leaves the ease factor where it was
+const MAX_QUALITY: Record<ReviewMode, number> = {
+  reveal: 5,
+  typed: 5,
+  'first-letter': 4,
+  cloze: 4,
+  scramble: 4
+}
+
+// Lowest accuracy for each quality from 5 down to 1
+const QUALITY_THRESHOLDS = [0.97, 0.9, 0.75, 0.5, 0.25]
+
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[’']/g, '').replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+export function splitVerseWords(text: string): VerseWord[] {
+  return text
+    .split(/\s+/)
+    .map(word => ({ text: word, normalized: normalizeWord(word) }))
+    .filter(word => word.normalized.length > 0)
+}
+
+/**
+ * "For God so loved the world," becomes "F G s l t w,"
+ */
+export function toFirstLetters(text: string): string {
+  return splitVerseWords(text)
+    .map(word => word.text.replace(/^([^\p{L}\p{N}]*[\p{L}\p{N}])[\p{L}\p{N}'’-]*/u, '$1'))
+    .join(' ')
+}
+
+/**
+ * Share of words to blank out: a third at first, rising to nearly all as the card is learned
+ */
+export function getClozeRatio(repetitions: number): number {
+  return Math.min(0.9, 0.3 + repetitions * 0.15)
+}
+
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export function chooseClozeBlanks(wordCount: number, ratio: number, random: () => number = Math.random): number[] {
+  const count = Math.min(wordCount, Math.max(1, Math.round(wordCount * ratio)))
+  const indices = Array.from({ length: wordCount }, (_, i) => i)
+  return shuffle(indices, random).slice(0, count).sort((a, b) => a - b)
+}
+
+/**
+ * Shuffled word order for a scramble, never the original order when there is another
+ */
+export function scrambleWords(words: VerseWord[], random: () => number = Math.random): VerseWord[] {
+  const order = Array.from({ length: words.length }, (_, i) => i)
+  let shuffled = shuffle(order, random)
+  if (words.length > 1 && shuffled.every((index, i) => index === i)) {
+    shuffled = [...shuffled.slice(1), shuffled[0]]
+  }
+  return shuffled.map(index => words[index])
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Same word, a small typo ("belives"), or a different word
+ */
+export function compareWord(expected: string, actual: string): 'correct' | 'close' | 'wrong' {
+  const a = normalizeWord(expected)
+  const b = normalizeWord(actual)
+  if (a === b) return 'correct'
+  if (!a || !b) return 'wrong'
+  // One slip per four letters; short words have to be exact
+  return editDistance(a, b) <= Math.floor(a.length / 4) ? 'close' : 'wrong'
+}
+
+/**
+ * Word-level diff of a typed answer against the verse. Exact matches are
+ * aligned first (longest common subsequence); unmatched words between them are
+ * then paired up as typos or substitutions.
+ */
+export function diffWords(expectedText: string, actualText: string): WordDiff[] {
+  const expected = splitVerseWords(expectedText)
+  const actual = splitVerseWords(actualText)
+
+  const lengths = Array.from({ length: expected.length + 1 }, () => new Array<number>(actual.length + 1).fill(0))
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      lengths[i][j] = expected[i].normalized === actual[j].normalized
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const diff: WordDiff[] = []
+  let missing: VerseWord[] = []
+  let extra: VerseWord[] = []
+
+  const flushGap = () => {
+    const paired = Math.min(missing.length, extra.length)
+    for (let k = 0; k < paired; k++) {
+      diff.push({
+        status: compareWord(missing[k].text, extra[k].text),
+        expected: missing[k].text,
+        actual: extra[k].text
+      })
+    }
+    missing.slice(paired).forEach(word => diff.push({ status: 'missing', expected: word.text }))
+    extra.slice(paired).forEach(word => diff.push({ status: 'extra', actual: word.text }))
+    missing = []
+    extra = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i].normalized === actual[j].normalized) {
+      flushGap()
+      diff.push({ status: 'correct', expected: expected[i].text, actual: actual[j].text })
+      i++
+      j++
+    } else if (j >= actual.length || (i < expected.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      missing.push(expected[i++])
+    } else {
+      extra.push(actual[j++])
+    }
+  }
+  flushGap()
+
+  return diff
+}
+
+/**
+ * Share of the verse recalled: typos count half, and extra words count against it
+ */
+export function scoreWordDiff(diff: WordDiff[]): number {
+  const total = diff.length
+  if (total === 0) return 0
+
+  const score = diff.reduce((sum, word) =>
+    sum + (word.status === 'correct' ? 1 : word.status === 'close' ? 0.5 : 0), 0)
+  return score / total
+}
+
+export function scoreClozeAnswers(expected: string[], answers: string[]): number {
+  if (expected.length === 0) return 0
+
+  const score = expected.reduce((sum, word, index) => {
+    const result = compareWord(word, answers[index] ?? '')
+    return sum + (result === 'correct' ? 1 : result === 'close' ? 0.5 : 0)
+  }, 0)
+  return score / expected.length
+}
+
+export function scoreScramble(wordCount: number, mistakes: number): number {
+  if (wordCount === 0) return 0
+  return Math.max(0, 1 - mistakes / wordCount)
+}
+
+export function qualityFromAccuracy(accuracy: number, mode: ReviewMode): number {
+  const index = QUALITY_THRESHOLDS.findIndex(threshold => accuracy >= threshold)
+  const quality = index === -1 ? 0 : 5 - index
+  return Math.min(quality, MAX_QUALITY[mode])
+}
+
+export function createRecallResult(mode: ReviewMode, accuracy: number, diff?: WordDiff[]): RecallResult {
+  return {
+    mode,
+    accuracy,
+    quality: qualityFromAccuracy(accuracy, mode),
+    ...(diff ? { diff } : {})
+  }
+}
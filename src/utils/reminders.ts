@@ -0,0 +1,115 @@
+// Reminder scheduling: when a daily reminder is next due, which reminders are due now,
+// snoozing, and the notification each one shows with its deep-link actions
+import type {
+  ReminderNotification,
+  ReminderNotificationData,
+  ReminderSchedule,
+  StoredReminder
+} from '@/types/reminders'
+
+// Periodic sync tag the service worker checks for due reminders under
+export const REMINDER_SYNC_TAG = 'reminders'
+
+export const SNOOZE_ACTION = 'snooze'
+export const SNOOZE_MINUTES = 10
+
+export const REMINDER_ICON = '/pwa-192x192.png'
+
+export function getReminderTag(reminderId: string): string {
+  return `reminder-${reminderId}`
+}
+
+/**
+ * The first time after `after` that falls on one of the schedule's days at its time
+ */
+export function getNextOccurrence(schedule: Pick<ReminderSchedule, 'time' | 'days'>, after: Date): Date {
+  const [hours, minutes] = schedule.time.split(':').map(Number)
+  const next = new Date(after)
+  next.setHours(hours, minutes, 0, 0)
+
+  if (next <= after) {
+    next.setDate(next.getDate() + 1)
+  }
+
+  // A week always reaches an allowed day
+  for (let day = 0; day < 7 && schedule.days.length > 0 && !schedule.days.includes(next.getDay()); day++) {
+    next.setDate(next.getDate() + 1)
+  }
+
+  return next
+}
+
+// A reminder's settings, without the state of the occurrence it is waiting on
+function toSchedule({ id, kind, title, body, time, days, url, actions }: ReminderSchedule): ReminderSchedule {
+  return { id, kind, title, body, time, days, url, actions }
+}
+
+export function isSameSchedule(a: ReminderSchedule, b: ReminderSchedule): boolean {
+  return JSON.stringify(toSchedule(a)) === JSON.stringify(toSchedule(b))
+}
+
+export function createStoredReminder(schedule: ReminderSchedule, now = new Date()): StoredReminder {
+  return {
+    ...toSchedule(schedule),
+    nextAt: getNextOccurrence(schedule, now),
+    updatedAt: now
+  }
+}
+
+/**
+ * Split out the reminders that are due: each moves on to its next occurrence, and is
+ * shown unless a notification trigger already showed it
+ */
+export function claimDueReminders(
+  reminders: StoredReminder[],
+  now = new Date()
+): { show: StoredReminder[]; updates: StoredReminder[] } {
+  const show: StoredReminder[] = []
+  const updates: StoredReminder[] = []
+
+  for (const reminder of reminders) {
+    if (reminder.nextAt > now) continue
+
+    updates.push({ ...toSchedule(reminder), nextAt: getNextOccurrence(reminder, now), updatedAt: now })
+
+    if (reminder.scheduledAt?.getTime() !== reminder.nextAt.getTime()) {
+      show.push(reminder)
+    }
+  }
+
+  return { show, updates }
+}
+
+export function snoozeReminder(reminder: StoredReminder, now = new Date()): StoredReminder {
+  return {
+    ...toSchedule(reminder),
+    nextAt: new Date(now.getTime() + SNOOZE_MINUTES * 60 * 1000),
+    snoozed: true,
+    updatedAt: now
+  }
+}
+
+export function buildReminderNotification(reminder: StoredReminder): ReminderNotification {
+  const actionUrls: Record<string, string> = {}
+  for (const action of reminder.actions) {
+    if (action.url) actionUrls[action.action] = action.url
+  }
+
+  const data: ReminderNotificationData = { reminderId: reminder.id, url: reminder.url, actionUrls }
+
+  return {
+    title: reminder.title,
+    options: {
+      body: reminder.body,
+      icon: REMINDER_ICON,
+      tag: getReminderTag(reminder.id),
+      actions: reminder.actions.map(({ action, title }) => ({ action, title })),
+      data
+    }
+  }
+}
+
+// The route a click opens: the action's own route, or the reminder's for a tap on the body
+export function getReminderUrl(data: ReminderNotificationData, action?: string): string {
+  return (action && data.actionUrls[action]) || data.url
+}
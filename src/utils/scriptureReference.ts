@@ -0,0 +1,279 @@
+// Scripture reference parsing and formatting shared by quick lookup, search and the reader routes.
+// Understands "John 3:16-4:2", "Rom 3:23; 6:23; 8:1", "John 3:16, 18", "Ps 23", "Jude 3",
+// whole books, verse parts ("16a"), OSIS/USFM ids ("JHN.3.16") and localized book names.
+import type { Book } from '@/types'
+import type {
+  ParsedScriptureReferences,
+  ReferenceFormatOptions,
+  ReferenceParseError,
+  ScripturePassage
+} from '@/types/scriptureReference'
+import type { VersificationScheme } from '@/types/versification'
+import { findBibleBook, getBibleBook, getBookName } from './bibleBooks'
+import { STANDARD_VERSIFICATION, getVerseCount, toStandardRef } from './versification'
+
+// Optional book name, then chapter/verse numbers: "1 John 4:8", "Song of Songs 2", "6:23", "18"
+const SEGMENT_PATTERN = /^((?:[1-3]\.?\s*)?[^\d\s][^\d]*?)?\s*(\d[\d\s:.a-e-]*)?$/i
+// start[:verse][-end[:verse]], where ":" may also be "." as in OSIS ids
+const NUMBERS_PATTERN = /^(\d+)([a-e])?(?:[:.](\d+)([a-e])?)?(?:\s*-\s*(\d+)([a-e])?(?:[:.](\d+)([a-e])?)?)?$/i
+const OSIS_PATTERN = /^([1-3]?[a-z]+)\.(\d+(?:\.\d+)?)(?:-(?:[1-3]?[a-z]+\.)?(\d+(?:\.\d+)?))?$/i
+
+interface SegmentContext {
+  book: Book
+  chapter?: number
+  verseLevel: boolean // the previous passage named verses, so "18" after a comma is a verse
+}
+
+/**
+ * Parse one or more references separated by ";" or ",". A segment without a
+ * book continues the previous one: after ";" numbers are chapters, after ","
+ * they are verses when the previous passage named verses.
+ */
+export function parseScriptureReferences(input: string): ParsedScriptureReferences {
+  const passages: ScripturePassage[] = []
+  const errors: ReferenceParseError[] = []
+  const segments = input.replace(/[–—]/g, '-').split(/([;,])/)
+
+  let context: SegmentContext | null = null
+  let separator = ';'
+
+  segments.forEach(part => {
+    if (part === ';' || part === ',') {
+      separator = part
+      return
+    }
+
+    const text = part.trim()
+    if (!text) return
+
+    const result = parseSegment(text, context, separator)
+    if ('message' in result) {
+      errors.push(result)
+      return
+    }
+
+    passages.push(result.passage)
+    context = {
+      book: result.book,
+      chapter: result.passage.endChapter,
+      verseLevel: result.passage.endVerse !== undefined
+    }
+  })
+
+  return { passages, errors }
+}
+
+/**
+ * The first passage of a reference, or null when it cannot be read
+ */
+export function parseScriptureReference(input: string): ScripturePassage | null {
+  const { passages, errors } = parseScriptureReferences(input)
+  return errors.length === 0 && passages.length > 0 ? passages[0] : null
+}
+
+function parseSegment(
+  text: string,
+  context: SegmentContext | null,
+  separator: string,
+  chapterFirst = false,
+  scheme: VersificationScheme = STANDARD_VERSIFICATION
+): { passage: ScripturePassage; book: Book } | ReferenceParseError {
+  const osis = text.match(OSIS_PATTERN)
+  const segment = osis
+    ? [text, osis[1], osis[3] ? `${osis[2]}-${osis[3]}` : osis[2]]
+    : text.match(SEGMENT_PATTERN)
+
+  if (!segment) {
+    return { message: `Could not read "${text}"`, text }
+  }
+
+  const [, bookText, numbersText] = segment
+  let book: Book | undefined
+  if (bookText) {
+    book = findBibleBook(bookText)
+    if (!book) return { message: `Unknown book "${bookText.trim()}"`, text }
+  } else if (context) {
+    book = context.book
+  } else {
+    return { message: `"${text}" needs a book name`, text }
+  }
+
+  if (!numbersText) {
+    return { passage: { book: book.id }, book }
+  }
+
+  const numbers = numbersText.trim().match(NUMBERS_PATTERN)
+  if (!numbers) {
+    return { message: `Could not read "${numbersText.trim()}" in "${text}"`, text }
+  }
+
+  const [, first, firstPart, second, secondPart, third, thirdPart, fourth, fourthPart] = numbers
+  const passage: ScripturePassage = { book: book.id }
+
+  // A bare leading number is a verse in single-chapter books ("Jude 3") and
+  // after a comma that continues a list of verses ("John 3:16, 18")
+  const continuesVerses = !bookText && separator === ',' && context?.verseLevel
+  const bareVerse = second === undefined && !chapterFirst && (book.chapters === 1 || continuesVerses)
+
+  if (bareVerse) {
+    passage.startChapter = book.chapters === 1 ? 1 : context!.chapter
+    passage.startVerse = parseInt(first, 10)
+    passage.startPart = firstPart?.toLowerCase()
+  } else {
+    passage.startChapter = parseInt(first, 10)
+    if (second !== undefined) {
+      passage.startVerse = parseInt(second, 10)
+      passage.startPart = secondPart?.toLowerCase()
+    }
+  }
+
+  if (third === undefined) {
+    passage.endChapter = passage.startChapter
+    passage.endVerse = passage.startVerse
+    passage.endPart = passage.startPart
+  } else if (fourth !== undefined) {
+    // "3:16-4:2", or "3-4:2" which starts at the top of chapter 3
+    passage.endChapter = parseInt(third, 10)
+    passage.endVerse = parseInt(fourth, 10)
+    passage.endPart = fourthPart?.toLowerCase()
+    passage.startVerse ??= 1
+  } else if (passage.startVerse !== undefined) {
+    passage.endChapter = passage.startChapter
+    passage.endVerse = parseInt(third, 10)
+    passage.endPart = thirdPart?.toLowerCase()
+  } else {
+    passage.endChapter = parseInt(third, 10)
+  }
+
+  const problem = validatePassage(passage, book, scheme)
+  return problem ? { message: problem, text } : { passage, book }
+}
+
+function validatePassage(passage: ScripturePassage, book: Book, scheme: VersificationScheme): string | null {
+  const { startChapter = 1, endChapter = startChapter, startVerse, endVerse } = passage
+
+  // Chapter and verse counts are kept in English numbering, so other schemes are checked
+  // through the English verse theirs corresponds to
+  const standard = (chapter: number, verse: number) => toStandardRef({ book: book.id, chapter, verse }, scheme)
+
+  for (const chapter of [startChapter, endChapter]) {
+    if (chapter < 1 || standard(chapter, 1).chapter > book.chapters) {
+      return book.chapters === 1
+        ? `${book.name} has only one chapter`
+        : `${book.name} has ${book.chapters} chapters`
+    }
+  }
+
+  if (startVerse === 0 || endVerse === 0) {
+    return 'Verses are numbered from 1'
+  }
+
+  const verses: Array<[number, number | undefined]> = [[startChapter, startVerse], [endChapter, endVerse]]
+  for (const [chapter, verse] of verses) {
+    if (verse === undefined) continue
+
+    const ref = standard(chapter, verse)
+    const verseCount = getVerseCount(book.id, ref.chapter)
+    if (ref.verse > verseCount) {
+      return `${book.chapters === 1 ? book.name : `${book.name} ${chapter}`} has ${verseCount} verses`
+    }
+  }
+
+  const endsBeforeStart = endChapter < startChapter ||
+    (endChapter === startChapter && startVerse !== undefined && endVerse !== undefined && endVerse < startVerse)
+  return endsBeforeStart ? 'The range ends before it starts' : null
+}
+
+/**
+ * Format a passage the way it is usually written: "John 3:16-18", "John 3:16-4:2", "Jude 3", "Psalms 23"
+ */
+export function formatScriptureReference(passage: ScripturePassage, options: ReferenceFormatOptions = {}): string {
+  const book = getBibleBook(passage.book)
+  const name = options.abbreviate && book ? book.abbreviation : getBookName(passage.book, options.language)
+  const numbers = formatPassageNumbers(passage, book)
+  return numbers ? `${name} ${numbers}` : name
+}
+
+/**
+ * Format a list of passages, leaving out repeated book names and chapters:
+ * "Romans 3:23; 6:23; 8:1", "John 3:16, 18"
+ */
+export function formatScriptureReferences(passages: ScripturePassage[], options: ReferenceFormatOptions = {}): string {
+  return passages.reduce((formatted, passage, index) => {
+    const previous = passages[index - 1]
+    if (!previous || previous.book !== passage.book || passage.startChapter === undefined) {
+      return formatted ? `${formatted}; ${formatScriptureReference(passage, options)}` : formatScriptureReference(passage, options)
+    }
+
+    const sameChapterVerses = previous.endVerse !== undefined &&
+      passage.startVerse !== undefined &&
+      previous.endChapter === passage.startChapter &&
+      passage.endChapter === passage.startChapter
+    if (sameChapterVerses) {
+      return `${formatted}, ${formatVerseRange(passage)}`
+    }
+
+    return `${formatted}; ${formatPassageNumbers(passage, getBibleBook(passage.book))}`
+  }, '')
+}
+
+function formatPassageNumbers(passage: ScripturePassage, book?: Book): string {
+  const { startChapter, endChapter = startChapter, startVerse } = passage
+  if (startChapter === undefined) return ''
+
+  if (startVerse === undefined) {
+    return endChapter === startChapter ? `${startChapter}` : `${startChapter}-${endChapter}`
+  }
+
+  if (endChapter !== startChapter) {
+    return `${startChapter}:${formatVerse(startVerse, passage.startPart)}-${endChapter}:${formatVerse(passage.endVerse!, passage.endPart)}`
+  }
+
+  // Single-chapter books are cited by verse alone
+  return book?.chapters === 1 ? formatVerseRange(passage) : `${startChapter}:${formatVerseRange(passage)}`
+}
+
+function formatVerseRange(passage: ScripturePassage): string {
+  const start = formatVerse(passage.startVerse!, passage.startPart)
+  const end = formatVerse(passage.endVerse ?? passage.startVerse!, passage.endPart)
+  return start === end ? start : `${start}-${end}`
+}
+
+function formatVerse(verse: number, part?: string): string {
+  return `${verse}${part || ''}`
+}
+
+/**
+ * Reader route for a passage: /bible/JHN/3/16, or /bible/JHN/3/16-18 for a range within a chapter
+ */
+export function toReaderRoute(passage: ScripturePassage): string {
+  let path = `/bible/${passage.book}`
+  if (passage.startChapter === undefined) return path
+
+  path += `/${passage.startChapter}`
+  if (passage.startVerse === undefined) return path
+
+  path += `/${passage.startVerse}`
+  if (passage.endChapter === passage.startChapter && passage.endVerse !== undefined && passage.endVerse !== passage.startVerse) {
+    path += `-${passage.endVerse}`
+  }
+  return path
+}
+
+/**
+ * Read the reader's :book/:chapter/:verse params, accepting any book spelling the parser knows
+ * and a whole reference in the book segment (/bible/John%203:16). The chapter and verse are
+ * numbered in the scheme of the version being read.
+ */
+export function parseReaderRoute(
+  params: { book?: string; chapter?: string; verse?: string },
+  scheme: VersificationScheme = STANDARD_VERSIFICATION
+): ScripturePassage | null {
+  if (!params.book) return null
+  if (!params.chapter) return parseScriptureReference(params.book)
+
+  // The chapter segment is always a chapter, even for single-chapter books
+  const numbers = params.verse ? `${params.chapter}:${params.verse}` : params.chapter
+  const result = parseSegment(`${params.book} ${numbers}`, null, ';', true, scheme)
+  return 'passage' in result ? result.passage : null
+}
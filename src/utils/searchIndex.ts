@@ -0,0 +1,374 @@
+// Inverted index construction, query evaluation and BM25 ranking for offline search
+import type { Verse } from '@/types'
+import type {
+  SearchIndexEntry,
+  SearchIndexMeta,
+  SearchIndexPosting,
+  CompiledQueryNode,
+  CompiledWildcardNode,
+  IndexLookup,
+  ScoredVerse
+} from '@/types/searchIndex'
+import type { SearchQueryNode } from '@/types/searchQuery'
+import {
+  ANALYZER_VERSION,
+  analyzeWord,
+  isStopWord,
+  normalizeWord,
+  splitWords,
+  tokenize,
+  type AnalyzerLanguage
+} from './textAnalysis'
+
+// BM25 tuning - the usual defaults work well for verse-length documents
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const MAX_FORMS_PER_TERM = 10
+
+export interface IndexStats {
+  verseCount: number
+  averageVerseLength: number
+}
+
+export function toIndexEntryId(version: string, term: string): string {
+  return `${version}:${term}`
+}
+
+/**
+ * Tokenize every verse of a version into one entry per distinct term
+ */
+export function buildIndexEntries(
+  verses: Verse[],
+  version: string,
+  language: AnalyzerLanguage
+): { entries: SearchIndexEntry[]; meta: SearchIndexMeta } {
+  const entries = new Map<string, SearchIndexEntry>()
+  let totalLength = 0
+
+  verses.forEach(verse => {
+    const tokens = tokenize(verse.text, language)
+    const postings = new Map<string, SearchIndexPosting>()
+    totalLength += tokens.length
+
+    tokens.forEach(token => {
+      let entry = entries.get(token.term)
+      if (!entry) {
+        entry = {
+          id: toIndexEntryId(version, token.term),
+          version,
+          term: token.term,
+          forms: [],
+          docFrequency: 0,
+          postings: []
+        }
+        entries.set(token.term, entry)
+      }
+
+      if (entry.forms.length < MAX_FORMS_PER_TERM && !entry.forms.includes(token.surface)) {
+        entry.forms.push(token.surface)
+      }
+
+      let posting = postings.get(token.term)
+      if (!posting) {
+        posting = { verseId: verse.id, book: verse.book, chapter: verse.chapter, positions: [], length: tokens.length }
+        postings.set(token.term, posting)
+        entry.postings.push(posting)
+        entry.docFrequency++
+      }
+      posting.positions.push(token.position)
+    })
+  })
+
+  return {
+    entries: Array.from(entries.values()),
+    meta: {
+      version,
+      language,
+      verseCount: verses.length,
+      termCount: entries.size,
+      averageVerseLength: verses.length > 0 ? totalLength / verses.length : 0,
+      analyzerVersion: ANALYZER_VERSION,
+      indexedAt: new Date()
+    }
+  }
+}
+
+/**
+ * Run the words of a parsed query through the analyzer. Returns null when
+ * nothing indexable is left, e.g. a query made only of stop words.
+ */
+export function compileQuery(node: SearchQueryNode | null, language: AnalyzerLanguage): CompiledQueryNode | null {
+  if (!node) return null
+
+  switch (node.type) {
+    case 'term': {
+      if (isStopWord(normalizeWord(node.value), language)) return null
+      return { type: 'term', term: analyzeWord(node.value, language) }
+    }
+
+    case 'phrase':
+      return compilePhrase(node.value, language)
+
+    case 'wildcard': {
+      const normalized = normalizeWord(node.value)
+      const pattern = normalized
+        .split('')
+        .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+        .join('')
+      return { type: 'wildcard', prefix: normalized.split(/[*?]/)[0], pattern: `^${pattern}$` }
+    }
+
+    case 'and': {
+      const children: CompiledQueryNode[] = []
+      const exclude: CompiledQueryNode[] = []
+
+      node.children.forEach(child => {
+        const compiled = compileQuery(child.type === 'not' ? child.child : child, language)
+        if (compiled) (child.type === 'not' ? exclude : children).push(compiled)
+      })
+
+      if (children.length === 0) return null
+      return children.length === 1 && exclude.length === 0 ? children[0] : { type: 'and', children, exclude }
+    }
+
+    case 'or': {
+      // A branch that matches everything (only stop words) makes the whole OR unrestricted
+      const children = node.children.map(child => compileQuery(child, language))
+      if (children.some(child => !child)) return null
+      return { type: 'or', children: children as CompiledQueryNode[] }
+    }
+
+    case 'not':
+      // A bare NOT has nothing to exclude from; the parser reports it
+      return null
+
+    case 'near': {
+      const left = compileQuery(node.left, language)
+      const right = compileQuery(node.right, language)
+      if (!left || !right) return left || right
+      return { type: 'near', distance: node.distance, left, right }
+    }
+  }
+}
+
+function compilePhrase(text: string, language: AnalyzerLanguage): CompiledQueryNode | null {
+  const terms: string[] = []
+  const offsets: number[] = []
+
+  splitWords(text).forEach((word, position) => {
+    if (isStopWord(normalizeWord(word), language)) return
+    terms.push(analyzeWord(word, language))
+    offsets.push(position)
+  })
+
+  if (terms.length === 0) return null
+  if (terms.length === 1) return { type: 'term', term: terms[0] }
+
+  const first = offsets[0]
+  return { type: 'phrase', terms, offsets: offsets.map(offset => offset - first) }
+}
+
+/**
+ * Terms and wildcards a compiled query needs from the index
+ */
+export function collectIndexTerms(node: CompiledQueryNode): { terms: string[]; wildcards: CompiledWildcardNode[] } {
+  const terms = new Set<string>()
+  const wildcards: CompiledWildcardNode[] = []
+
+  const visit = (current: CompiledQueryNode) => {
+    switch (current.type) {
+      case 'term':
+        terms.add(current.term)
+        break
+      case 'phrase':
+        current.terms.forEach(term => terms.add(term))
+        break
+      case 'wildcard':
+        wildcards.push(current)
+        break
+      case 'and':
+        current.children.forEach(visit)
+        current.exclude.forEach(visit)
+        break
+      case 'or':
+        current.children.forEach(visit)
+        break
+      case 'near':
+        visit(current.left)
+        visit(current.right)
+        break
+    }
+  }
+
+  visit(node)
+  return { terms: Array.from(terms), wildcards }
+}
+
+export function matchesWildcard(entry: SearchIndexEntry, node: CompiledWildcardNode): boolean {
+  const pattern = new RegExp(node.pattern)
+  return entry.forms.some(form => pattern.test(normalizeWord(form)))
+}
+
+/**
+ * Lookup over entries already in memory
+ */
+export function createMemoryLookup(entries: SearchIndexEntry[]): IndexLookup {
+  const byTerm = new Map(entries.map(entry => [entry.term, entry]))
+
+  return {
+    getEntry: term => byTerm.get(term),
+    getWildcardEntries: node => entries.filter(entry => entry.term.startsWith(node.prefix.slice(0, 2)) && matchesWildcard(entry, node))
+  }
+}
+
+export function bm25(
+  termFrequency: number,
+  docFrequency: number,
+  verseLength: number,
+  stats: IndexStats
+): number {
+  const idf = Math.log(1 + (stats.verseCount - docFrequency + 0.5) / (docFrequency + 0.5))
+  const lengthRatio = stats.averageVerseLength > 0 ? verseLength / stats.averageVerseLength : 1
+  const saturation = termFrequency * (BM25_K1 + 1) / (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio))
+  return idf * saturation
+}
+
+interface VerseMatch extends ScoredVerse {
+  positions: number[] // where the matched words start, used by NEAR
+}
+
+type MatchSet = Map<string, VerseMatch>
+
+function matchFromPosting(posting: SearchIndexPosting, score: number, positions: number[]): VerseMatch {
+  return { verseId: posting.verseId, book: posting.book, chapter: posting.chapter, score, positions }
+}
+
+function evaluateNode(node: CompiledQueryNode, lookup: IndexLookup, stats: IndexStats): MatchSet {
+  switch (node.type) {
+    case 'term': {
+      const matches: MatchSet = new Map()
+      const entry = lookup.getEntry(node.term)
+      entry?.postings.forEach(posting => {
+        const score = bm25(posting.positions.length, entry.docFrequency, posting.length, stats)
+        matches.set(posting.verseId, matchFromPosting(posting, score, posting.positions))
+      })
+      return matches
+    }
+
+    case 'wildcard': {
+      const matches: MatchSet = new Map()
+      lookup.getWildcardEntries(node).forEach(entry => {
+        entry.postings.forEach(posting => {
+          const score = bm25(posting.positions.length, entry.docFrequency, posting.length, stats)
+          const existing = matches.get(posting.verseId)
+          if (existing) {
+            existing.score += score
+            existing.positions = [...existing.positions, ...posting.positions].sort((a, b) => a - b)
+          } else {
+            matches.set(posting.verseId, matchFromPosting(posting, score, posting.positions))
+          }
+        })
+      })
+      return matches
+    }
+
+    case 'phrase':
+      return evaluatePhrase(node.terms, node.offsets, lookup, stats)
+
+    case 'and': {
+      const childMatches = node.children.map(child => evaluateNode(child, lookup, stats))
+      childMatches.sort((a, b) => a.size - b.size)
+      const excluded = node.exclude.map(child => evaluateNode(child, lookup, stats))
+      const [smallest, ...rest] = childMatches
+      const matches: MatchSet = new Map()
+
+      smallest.forEach((match, verseId) => {
+        if (excluded.some(set => set.has(verseId))) return
+
+        let score = match.score
+        const positions = [...match.positions]
+        for (const set of rest) {
+          const other = set.get(verseId)
+          if (!other) return
+          score += other.score
+          positions.push(...other.positions)
+        }
+        matches.set(verseId, { ...match, score, positions })
+      })
+      return matches
+    }
+
+    case 'or': {
+      const matches: MatchSet = new Map()
+      node.children.forEach(child => {
+        evaluateNode(child, lookup, stats).forEach((match, verseId) => {
+          const existing = matches.get(verseId)
+          if (existing) {
+            matches.set(verseId, { ...existing, score: existing.score + match.score, positions: [...existing.positions, ...match.positions] })
+          } else {
+            matches.set(verseId, match)
+          }
+        })
+      })
+      return matches
+    }
+
+    case 'near': {
+      const left = evaluateNode(node.left, lookup, stats)
+      const right = evaluateNode(node.right, lookup, stats)
+      const matches: MatchSet = new Map()
+
+      left.forEach((leftMatch, verseId) => {
+        const rightMatch = right.get(verseId)
+        if (!rightMatch) return
+
+        const close = leftMatch.positions.some(l => rightMatch.positions.some(r => l !== r && Math.abs(l - r) <= node.distance))
+        if (close) {
+          matches.set(verseId, {
+            ...leftMatch,
+            score: leftMatch.score + rightMatch.score,
+            positions: [...leftMatch.positions, ...rightMatch.positions]
+          })
+        }
+      })
+      return matches
+    }
+  }
+}
+
+function evaluatePhrase(terms: string[], offsets: number[], lookup: IndexLookup, stats: IndexStats): MatchSet {
+  const matches: MatchSet = new Map()
+  const entries = terms.map(term => lookup.getEntry(term))
+  if (entries.some(entry => !entry)) return matches
+
+  const termEntries = entries as SearchIndexEntry[]
+  const postingMaps = termEntries.map(entry => new Map(entry.postings.map(posting => [posting.verseId, posting])))
+
+  termEntries[0].postings.forEach(firstPosting => {
+    const postings = postingMaps.map(map => map.get(firstPosting.verseId))
+    if (postings.some(posting => !posting)) return
+
+    const starts = firstPosting.positions.filter(start =>
+      postings.every((posting, i) => posting!.positions.includes(start + offsets[i]))
+    )
+    if (starts.length === 0) return
+
+    let score = 0
+    postings.forEach((posting, i) => {
+      score += bm25(starts.length, termEntries[i].docFrequency, posting!.length, stats)
+    })
+    matches.set(firstPosting.verseId, matchFromPosting(firstPosting, score, starts))
+  })
+
+  return matches
+}
+
+/**
+ * Evaluate a compiled query and rank the matching verses by summed BM25 score
+ */
+export function evaluateQuery(node: CompiledQueryNode, lookup: IndexLookup, stats: IndexStats): ScoredVerse[] {
+  return Array.from(evaluateNode(node, lookup, stats).values())
+    .map(({ verseId, book, chapter, score }) => ({ verseId, book, chapter, score }))
+    .sort((a, b) => b.score - a.score)
+}
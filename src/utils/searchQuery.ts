@@ -0,0 +1,387 @@
+// Parser for the search syntax: AND/OR/NOT, parentheses, "phrases", wildcards,
+// NEAR/n proximity and book:/chapter: field filters.
+//
+//   query   := or
+//   or      := and (OR and)*
+//   and     := near ([AND] near)*        adjacent terms are implicitly AND-ed
+//   near    := unary (NEAR/n unary)*
+//   unary   := (NOT | -) unary | primary
+//   primary := ( or ) | "phrase" | word | wildcard | field:value
+import type {
+  ParsedSearchQuery,
+  SearchFieldFilters,
+  SearchProximityOperand,
+  SearchQueryNode,
+  SearchSyntaxError
+} from '@/types/searchQuery'
+import { findBibleBook } from './bibleBooks'
+
+const DEFAULT_NEAR_DISTANCE = 5
+const MIN_WILDCARD_PREFIX = 2
+
+type QueryTokenType = 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'near' | 'phrase' | 'word' | 'wildcard' | 'field'
+
+interface QueryToken {
+  type: QueryTokenType
+  value: string
+  position: number
+  distance?: number
+  field?: string
+}
+
+function tokenizeQuery(input: string, errors: SearchSyntaxError[]): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i })
+      i++
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1)
+      if (end === -1) {
+        errors.push({ message: 'Missing closing quote', position: i })
+      }
+      const value = input.slice(i + 1, end === -1 ? input.length : end)
+      tokens.push({ type: 'phrase', value, position: i })
+      i = end === -1 ? input.length : end + 1
+    } else {
+      const start = i
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++
+      tokens.push(...classifyWord(input.slice(start, i), start, errors))
+    }
+  }
+
+  return tokens
+}
+
+function classifyWord(word: string, position: number, errors: SearchSyntaxError[]): QueryToken[] {
+  if (word === 'AND' || word === 'OR' || word === 'NOT') {
+    return [{ type: word.toLowerCase() as QueryTokenType, value: word, position }]
+  }
+
+  if (word === 'NEAR' || word.startsWith('NEAR/')) {
+    const distanceText = word.slice(5)
+    const distance = word === 'NEAR' ? DEFAULT_NEAR_DISTANCE : parseInt(distanceText, 10)
+    if (word !== 'NEAR' && (!/^\d+$/.test(distanceText) || distance < 1)) {
+      errors.push({ message: `Invalid proximity "${word}", use NEAR/n with n of at least 1`, position })
+    }
+    return [{ type: 'near', value: word, position, distance: Math.max(1, distance || DEFAULT_NEAR_DISTANCE) }]
+  }
+
+  if (word.length > 1 && word.startsWith('-')) {
+    return [{ type: 'not', value: '-', position }, ...classifyWord(word.slice(1), position + 1, errors)]
+  }
+
+  const field = word.match(/^([a-zA-Z]+):(.*)$/)
+  if (field) {
+    return [{ type: 'field', value: field[2], field: field[1].toLowerCase(), position }]
+  }
+
+  return [{ type: /[*?]/.test(word) ? 'wildcard' : 'word', value: word, position }]
+}
+
+class QueryParser {
+  private index = 0
+  private depth = 0
+  readonly filters: SearchFieldFilters = { books: [] }
+
+  constructor(
+    private readonly tokens: QueryToken[],
+    private readonly errors: SearchSyntaxError[]
+  ) {}
+
+  parse(): SearchQueryNode | null {
+    const root = this.parseOr()
+
+    while (this.peek()) {
+      const token = this.next()!
+      this.error(token.type === 'rparen' ? 'Unexpected closing parenthesis' : `Unexpected "${token.value}"`, token)
+    }
+
+    if (root?.type === 'not') {
+      this.error('NOT needs another term to exclude from, e.g. "love NOT fear"', this.tokens[0])
+    }
+
+    return root
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(): QueryToken | undefined {
+    return this.tokens[this.index++]
+  }
+
+  private error(message: string, token?: QueryToken) {
+    this.errors.push({ message, position: token?.position ?? 0 })
+  }
+
+  private parseOr(): SearchQueryNode | null {
+    const children: SearchQueryNode[] = []
+    const first = this.parseAnd()
+    if (first) children.push(first)
+
+    while (this.peek()?.type === 'or') {
+      const operator = this.next()!
+      const right = this.parseAnd()
+
+      if (children.length === 0 || !right) {
+        this.error('OR needs a term on both sides', operator)
+      }
+      if (right) children.push(right)
+    }
+
+    children.forEach(child => {
+      if (children.length > 1 && child.type === 'not') {
+        this.error('NOT cannot be used as an alternative in OR; group it with a term using AND', this.tokens[0])
+      }
+    })
+
+    if (children.length === 0) return null
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  private parseAnd(): SearchQueryNode | null {
+    const children: SearchQueryNode[] = []
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'rparen' || token.type === 'or') break
+
+      if (token.type === 'and') {
+        this.next()
+        const nextToken = this.peek()
+        if (children.length === 0 || !nextToken || ['and', 'or', 'rparen', 'near'].includes(nextToken.type)) {
+          this.error('AND needs a term on both sides', token)
+        }
+        continue
+      }
+
+      if (token.type === 'near') {
+        this.next()
+        this.error('NEAR needs a word, phrase or wildcard on both sides', token)
+        continue
+      }
+
+      const node = this.parseNear()
+      if (node) children.push(node)
+    }
+
+    if (children.length > 1 && children.every(child => child.type === 'not')) {
+      this.error('NOT needs another term to exclude from, e.g. "love NOT fear"', this.tokens[0])
+    }
+
+    if (children.length === 0) return null
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  private parseNear(): SearchQueryNode | null {
+    let left = this.parseUnary()
+
+    while (this.peek()?.type === 'near') {
+      const operator = this.next()!
+      const right = this.parseUnary()
+
+      if (!left || !right || !isProximityOperand(left) || !isProximityOperand(right)) {
+        this.error('NEAR needs a word, phrase or wildcard on both sides', operator)
+        left = left || right
+        continue
+      }
+
+      left = { type: 'near', distance: operator.distance!, left, right }
+    }
+
+    return left
+  }
+
+  private parseUnary(): SearchQueryNode | null {
+    const token = this.peek()
+
+    if (token?.type === 'not') {
+      this.next()
+      const child = this.parseUnary()
+      if (!child) {
+        this.error('NOT needs a term to exclude', token)
+        return null
+      }
+      return child.type === 'not' ? child.child : { type: 'not', child }
+    }
+
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): SearchQueryNode | null {
+    const token = this.next()
+    if (!token) return null
+
+    switch (token.type) {
+      case 'lparen': {
+        this.depth++
+        const inner = this.parseOr()
+        this.depth--
+
+        if (this.peek()?.type === 'rparen') {
+          this.next()
+        } else {
+          this.error('Missing closing parenthesis', token)
+        }
+        if (!inner) {
+          this.error('Empty parentheses', token)
+        }
+        return inner
+      }
+
+      case 'phrase':
+        return token.value.trim() ? { type: 'phrase', value: token.value.trim() } : null
+
+      case 'word': {
+        // Hyphenated or punctuated words behave like a short phrase
+        const words = token.value.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu) || []
+        if (words.length === 0) return null
+        return words.length === 1 ? { type: 'term', value: words[0] } : { type: 'phrase', value: words.join(' ') }
+      }
+
+      case 'wildcard': {
+        const prefix = token.value.split(/[*?]/)[0]
+        if (prefix.length < MIN_WILDCARD_PREFIX) {
+          this.error(`Wildcards need at least ${MIN_WILDCARD_PREFIX} letters before * or ?`, token)
+          return null
+        }
+        return { type: 'wildcard', value: token.value }
+      }
+
+      case 'field':
+        this.applyField(token)
+        return null
+
+      default:
+        this.error(`Unexpected "${token.value}"`, token)
+        return null
+    }
+  }
+
+  private applyField(token: QueryToken) {
+    const negated = this.tokens[this.index - 2]?.type === 'not'
+    let value = token.value
+
+    // book:"1 John"
+    if (!value && this.peek()?.type === 'phrase') {
+      value = this.next()!.value
+    }
+
+    if (this.depth > 0 || negated) {
+      this.error('Field filters can only be used at the top level of a query', token)
+      return
+    }
+
+    switch (token.field) {
+      case 'book': {
+        const book = findBibleBook(value)
+        if (book) {
+          if (!this.filters.books.includes(book.id)) this.filters.books.push(book.id)
+        } else {
+          this.error(`Unknown book "${value}"`, token)
+        }
+        break
+      }
+
+      case 'chapter': {
+        const range = value.match(/^(\d+)(?:-(\d+))?$/)
+        const start = range ? parseInt(range[1], 10) : 0
+        const end = range?.[2] ? parseInt(range[2], 10) : start
+
+        if (!range || start < 1 || end < start) {
+          this.error(`Invalid chapter range "${value}", use chapter:3 or chapter:3-5`, token)
+        } else if (this.filters.chapters) {
+          this.error('Only one chapter filter can be used', token)
+        } else {
+          this.filters.chapters = { start, end }
+        }
+        break
+      }
+
+      default:
+        this.error(`Unknown field "${token.field}", use book: or chapter:`, token)
+    }
+  }
+}
+
+function isProximityOperand(node: SearchQueryNode): node is SearchProximityOperand {
+  return node.type === 'term' || node.type === 'phrase' || node.type === 'wildcard'
+}
+
+/**
+ * Parse query text into an AST plus field filters. Syntax problems are
+ * collected in `errors` instead of thrown so the UI can show all of them.
+ */
+export function parseQuerySyntax(input: string): ParsedSearchQuery {
+  const errors: SearchSyntaxError[] = []
+  const tokens = tokenizeQuery(input, errors)
+  const parser = new QueryParser(tokens, errors)
+  const root = parser.parse()
+
+  return { root, filters: parser.filters, errors }
+}
+
+/**
+ * A literal phrase query, used for exact match searches
+ */
+export function createPhraseQuery(input: string): ParsedSearchQuery {
+  const value = input.trim()
+  return {
+    root: value ? { type: 'phrase', value } : null,
+    filters: { books: [] },
+    errors: []
+  }
+}
+
+/**
+ * Render a node back to query syntax with explicit operators and grouping
+ */
+export function formatQueryNode(node: SearchQueryNode): string {
+  const group = (child: SearchQueryNode) =>
+    child.type === 'and' || child.type === 'or' ? `(${formatQueryNode(child)})` : formatQueryNode(child)
+
+  switch (node.type) {
+    case 'term':
+    case 'wildcard':
+      return node.value
+    case 'phrase':
+      return `"${node.value}"`
+    case 'and':
+      return node.children.map(group).join(' AND ')
+    case 'or':
+      return node.children.map(group).join(' OR ')
+    case 'not':
+      return `NOT ${group(node.child)}`
+    case 'near':
+      return `${formatQueryNode(node.left)} NEAR/${node.distance} ${formatQueryNode(node.right)}`
+  }
+}
+
+/**
+ * Words, phrases and wildcards the results should be highlighted for -
+ * everything except excluded (NOT) terms
+ */
+export function collectPositiveTerms(node: SearchQueryNode | null): SearchProximityOperand[] {
+  if (!node) return []
+
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+    case 'wildcard':
+      return [node]
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectPositiveTerms)
+    case 'near':
+      return [node.left, node.right]
+    case 'not':
+      return []
+  }
+}
@@ -0,0 +1,254 @@
+// Smart collections: a saved rule over the user's highlights, bookmarks, notes or a
+// search, evaluated against local data into the passages it matches
+import type { Bookmark, Highlight, HighlightCategory, Note, SearchResult } from '@/types'
+import type { SmartCollectionMatch, SmartCollectionRule, SmartCollectionSource } from '@/types/personalization'
+import type { ScripturePassage } from '@/types/scriptureReference'
+import { findBibleBook, getBibleBook, getBookRange } from './bibleBooks'
+import { getHighlightPassage } from './highlightRanges'
+import { passageIncludesVerse } from './noteMarkdown'
+import { getNotePassage, getNoteScope, noteCoversVerse, startsOnVerse } from './notePassages'
+import { formatScriptureReference, parseScriptureReferences } from './scriptureReference'
+import { parseQuerySyntax } from './searchQuery'
+
+export const SMART_COLLECTION_SOURCES: { value: SmartCollectionSource; label: string }[] = [
+  { value: 'highlights', label: 'Highlights' },
+  { value: 'bookmarks', label: 'Bookmarks' },
+  { value: 'notes', label: 'Notes' },
+  { value: 'search', label: 'Search results' }
+]
+
+// Named stretches of the canon that scopes can use instead of listing books
+export const BOOK_GROUPS: Readonly<Record<string, readonly [string, string]>> = {
+  'old testament': ['GEN', 'MAL'],
+  'new testament': ['MAT', 'REV'],
+  pentateuch: ['GEN', 'DEU'],
+  torah: ['GEN', 'DEU'],
+  history: ['JOS', 'EST'],
+  wisdom: ['JOB', 'SNG'],
+  poetry: ['JOB', 'SNG'],
+  'major prophets': ['ISA', 'DAN'],
+  'minor prophets': ['HOS', 'MAL'],
+  prophets: ['ISA', 'MAL'],
+  gospels: ['MAT', 'JHN'],
+  'pauline epistles': ['ROM', 'PHM'],
+  'general epistles': ['HEB', 'JUD'],
+  epistles: ['ROM', 'JUD']
+}
+
+// What the rule's sources are evaluated over
+export interface SmartRuleSources {
+  highlights: Highlight[]
+  bookmarks: Bookmark[]
+  notes: Note[]
+  categories: HighlightCategory[]
+  searchResults: SearchResult[]
+}
+
+export interface ResolvedRuleScope {
+  passages: ScripturePassage[] // empty for the whole Bible
+  error?: string
+}
+
+/**
+ * Read a rule's scope: a book group ("Pentateuch"), a span of books
+ * ("Genesis-Deuteronomy") or references ("Psalms; Romans 5-8")
+ */
+export function resolveRuleScope(scope: string | undefined): ResolvedRuleScope {
+  const text = scope?.trim().replace(/[–—]/g, '-') ?? ''
+  if (!text) return { passages: [] }
+
+  const group = BOOK_GROUPS[text.toLowerCase().replace(/^the\s+/, '')]
+  if (group) {
+    return { passages: getBookRange(...group).map(book => ({ book: book.id })) }
+  }
+
+  // Book names on both sides of the dash, without chapters
+  const span = text.match(/^((?:[1-3]\s*)?[^\d-]+?)\s*-\s*((?:[1-3]\s*)?[^\d-]+)$/)
+  if (span) {
+    const from = findBibleBook(span[1])
+    const to = findBibleBook(span[2])
+    if (from && to) {
+      const books = getBookRange(from.id, to.id)
+      return books.length > 0
+        ? { passages: books.map(book => ({ book: book.id })) }
+        : { passages: [], error: `${from.name} comes after ${to.name}` }
+    }
+  }
+
+  const { passages, errors } = parseScriptureReferences(text)
+  return errors.length > 0 ? { passages: [], error: errors[0].message } : { passages }
+}
+
+/**
+ * Problems that stop a rule from being saved, or null when it can be evaluated
+ */
+export function validateSmartRule(rule: SmartCollectionRule): string | null {
+  const scope = resolveRuleScope(rule.scope)
+  if (scope.error) return scope.error
+
+  if (rule.source === 'search') {
+    if (!rule.query?.trim()) return 'Enter what to search for'
+    const parsed = parseQuerySyntax(rule.query)
+    if (parsed.errors.length > 0) return parsed.errors[0].message
+  }
+
+  if (rule.colorHex && !/^#[0-9A-Fa-f]{6}$/.test(rule.colorHex)) return 'Choose a highlight color'
+  return null
+}
+
+/**
+ * One line saying what a rule collects, e.g. "Highlights in Green · Psalms"
+ */
+export function describeSmartRule(
+  rule: SmartCollectionRule,
+  names: { colors?: { name: string; hex: string }[]; categories?: HighlightCategory[] } = {}
+): string {
+  const parts: string[] = []
+
+  switch (rule.source) {
+    case 'highlights': {
+      const color = rule.colorHex && names.colors?.find(candidate => candidate.hex.toUpperCase() === rule.colorHex!.toUpperCase())
+      const category = rule.categoryId && names.categories?.find(candidate => candidate.id === rule.categoryId)
+      let label = 'Highlights'
+      if (rule.colorHex) label += ` in ${color ? color.name : rule.colorHex}`
+      if (rule.categoryId) label += ` filed as ${category ? category.name : 'a deleted category'}`
+      parts.push(label)
+      break
+    }
+    case 'bookmarks':
+      parts.push('Bookmarks')
+      break
+    case 'notes':
+      parts.push('Notes')
+      break
+    case 'search':
+      parts.push(`Search for "${rule.query ?? ''}" (${rule.version.toUpperCase()})`)
+      break
+  }
+
+  if (rule.noteTag) parts[0] += rule.source === 'notes' ? ` tagged #${rule.noteTag}` : ` with a note tagged #${rule.noteTag}`
+  if (rule.scope?.trim()) parts.push(rule.scope.trim())
+
+  return parts.join(' · ')
+}
+
+/**
+ * The passages a rule matches, in canonical order. Each highlight, bookmark, note or
+ * search hit is one match, so a highlight across verses stays one entry.
+ */
+export function evaluateSmartRule(rule: SmartCollectionRule, sources: SmartRuleSources): SmartCollectionMatch[] {
+  const { passages } = resolveRuleScope(rule.scope)
+  const inScope = (book: string, chapter: number, verse: number) =>
+    passages.length === 0 || passages.some(passage => passageIncludesVerse(passage, book, chapter, verse))
+
+  const tag = rule.noteTag?.trim().toLowerCase()
+  const taggedNotes = tag
+    ? sources.notes.filter(note => note.tags?.some(candidate => candidate.toLowerCase() === tag))
+    : []
+  const hasTaggedNote = (book: string, chapter: number, verse: number) =>
+    taggedNotes.some(note => noteCoversVerse(note, book, chapter, verse))
+
+  const matches: SmartCollectionMatch[] = []
+
+  switch (rule.source) {
+    case 'highlights': {
+      const categories = new Map(sources.categories.map(category => [category.id, category]))
+      for (const highlight of sources.highlights) {
+        // Highlights in a category are shown, and matched, in the category's color
+        const color = (highlight.categoryId && categories.get(highlight.categoryId)?.colorHex) || highlight.colorHex
+        if (rule.colorHex && color.toUpperCase() !== rule.colorHex.toUpperCase()) continue
+        if (rule.categoryId && highlight.categoryId !== rule.categoryId) continue
+        if (!inScope(highlight.book, highlight.chapter, highlight.verse)) continue
+        if (tag && !hasTaggedNote(highlight.book, highlight.chapter, highlight.verse)) continue
+
+        const passage = getHighlightPassage(highlight)
+        matches.push({
+          sourceId: highlight.id,
+          book: highlight.book,
+          chapter: highlight.chapter,
+          verse: highlight.verse,
+          ...(passage.endChapter !== highlight.chapter || passage.endVerse !== highlight.verse
+            ? { endChapter: passage.endChapter, endVerse: passage.endVerse }
+            : {}),
+          matchedAt: new Date(highlight.createdAt)
+        })
+      }
+      break
+    }
+
+    case 'bookmarks':
+      for (const bookmark of sources.bookmarks) {
+        if (!inScope(bookmark.book, bookmark.chapter, bookmark.verse)) continue
+        if (tag && !hasTaggedNote(bookmark.book, bookmark.chapter, bookmark.verse)) continue
+
+        matches.push({
+          sourceId: bookmark.id,
+          book: bookmark.book,
+          chapter: bookmark.chapter,
+          verse: bookmark.verse,
+          matchedAt: new Date(bookmark.createdAt)
+        })
+      }
+      break
+
+    case 'notes':
+      // Notes on verses and ranges; chapter and unattached notes have no verse to list
+      for (const note of tag ? taggedNotes : sources.notes) {
+        if (!startsOnVerse(note) || !inScope(note.book, note.chapter, note.verse)) continue
+
+        const passage = getNotePassage(note)!
+        matches.push({
+          sourceId: note.id,
+          book: note.book,
+          chapter: note.chapter,
+          verse: note.verse,
+          ...(getNoteScope(note) === 'range' ? { endChapter: passage.endChapter, endVerse: passage.endVerse } : {}),
+          matchedAt: new Date(note.createdAt)
+        })
+      }
+      break
+
+    case 'search':
+      for (const { verse } of sources.searchResults) {
+        if (verse.version !== rule.version || !inScope(verse.book, verse.chapter, verse.verse)) continue
+        if (tag && !hasTaggedNote(verse.book, verse.chapter, verse.verse)) continue
+
+        matches.push({
+          sourceId: verse.id,
+          book: verse.book,
+          chapter: verse.chapter,
+          verse: verse.verse,
+          verseText: verse.text,
+          matchedAt: new Date(0)
+        })
+      }
+      break
+  }
+
+  return matches.sort(compareMatches)
+}
+
+/**
+ * Books a rule's scope is limited to, for narrowing a search before it runs
+ */
+export function getRuleScopeBooks(rule: SmartCollectionRule): string[] | undefined {
+  const { passages } = resolveRuleScope(rule.scope)
+  return passages.length > 0 ? [...new Set(passages.map(passage => passage.book))] : undefined
+}
+
+export function formatMatchReference(match: SmartCollectionMatch): string {
+  return formatScriptureReference({
+    book: match.book,
+    startChapter: match.chapter,
+    startVerse: match.verse,
+    endChapter: match.endChapter ?? match.chapter,
+    endVerse: match.endVerse ?? match.verse
+  })
+}
+
+function compareMatches(a: SmartCollectionMatch, b: SmartCollectionMatch): number {
+  return (getBibleBook(a.book)?.order ?? 0) - (getBibleBook(b.book)?.order ?? 0) ||
+    a.chapter - b.chapter ||
+    a.verse - b.verse ||
+    a.matchedAt.getTime() - b.matchedAt.getTime()
+}
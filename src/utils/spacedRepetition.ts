@@ -0,0 +1,273 @@
+// Spaced repetition schedulers (SM-2 and FSRS), daily review limits and
+// streaks counted from the review log
+import type {
+  MemorizationCard,
+  MemorizationReviewLog,
+  MemorizationSettings,
+  SchedulingState
+} from '@/types/quickWins'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_EASE_FACTOR = 2.5
+const MIN_EASE_FACTOR = 1.3
+
+// Cards whose interval reaches this many days are treated as mastered
+export const MASTERED_INTERVAL = 21
+
+export const DEFAULT_MEMORIZATION_SETTINGS: MemorizationSettings = {
+  algorithm: 'sm2',
+  newCardsPerDay: 10,
+  reviewsPerDay: 100,
+  desiredRetention: 0.9,
+  maximumInterval: 365 * 10,
+  reviewMode: 'reveal',
+  passageChunkSize: 3,
+  chunkUnlockInterval: 7
+}
+
+/**
+ * Default FSRS-4.5 parameters. w[0..3] are the first-review stabilities for
+ * Again/Hard/Good/Easy; the rest shape how difficulty and stability change.
+ */
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+]
+const FSRS_DECAY = -0.5
+const FSRS_FACTOR = 19 / 81 // makes retrievability 90% when elapsed days equal stability
+
+// FSRS grades: 1 Again, 2 Hard, 3 Good, 4 Easy
+type FsrsGrade = 1 | 2 | 3 | 4
+
+export function createInitialState(): SchedulingState {
+  return {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    stability: null,
+    memoryDifficulty: null,
+    lastReviewedAt: null
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * SM-2: a recalled card's interval grows by its ease factor, a forgotten card
+ * starts again at one day, and every answer nudges the ease.
+ */
+export function scheduleSm2(
+  state: SchedulingState,
+  quality: number,
+  now: Date = new Date(),
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS
+): SchedulingState {
+  let { interval, repetitions, lapses } = state
+
+  if (quality >= 3) {
+    if (repetitions === 0) {
+      interval = 1
+    } else if (repetitions === 1) {
+      interval = 6
+    } else {
+      interval = Math.round(interval * state.easeFactor)
+    }
+    repetitions += 1
+  } else {
+    if (repetitions > 0) lapses += 1
+    repetitions = 0
+    interval = 1
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  return {
+    ...state,
+    easeFactor,
+    interval: clamp(interval, 1, settings.maximumInterval),
+    repetitions,
+    lapses,
+    lastReviewedAt: now
+  }
+}
+
+// 0-2 are failed recalls, 3 is a hard pass, 4 good and 5 easy
+export function qualityToGrade(quality: number): FsrsGrade {
+  if (quality <= 2) return 1
+  if (quality === 3) return 2
+  if (quality === 4) return 3
+  return 4
+}
+
+export function getRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FSRS_FACTOR * elapsedDays / stability, FSRS_DECAY)
+}
+
+function initialDifficulty(grade: FsrsGrade): number {
+  const w = FSRS_WEIGHTS
+  return clamp(w[4] - (grade - 3) * w[5], 1, 10)
+}
+
+function nextDifficulty(difficulty: number, grade: FsrsGrade): number {
+  const w = FSRS_WEIGHTS
+  const next = difficulty - w[6] * (grade - 3)
+  // Mean reversion towards the difficulty of a first "Good"
+  return clamp(w[7] * initialDifficulty(3) + (1 - w[7]) * next, 1, 10)
+}
+
+function recallStability(difficulty: number, stability: number, retrievability: number, grade: FsrsGrade): number {
+  const w = FSRS_WEIGHTS
+  const hardPenalty = grade === 2 ? w[15] : 1
+  const easyBonus = grade === 4 ? w[16] : 1
+  return stability * (
+    1 +
+    Math.exp(w[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -w[9]) *
+    (Math.exp(w[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus
+  )
+}
+
+function forgetStability(difficulty: number, stability: number, retrievability: number): number {
+  const w = FSRS_WEIGHTS
+  const next = w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability))
+  return Math.min(next, stability)
+}
+
+/**
+ * FSRS: models each card's memory by stability and difficulty and schedules
+ * the next review for when recall is predicted to fall to the desired retention.
+ * Cards last scheduled by SM-2 get a stability from their interval and a
+ * difficulty from their ease, so switching keeps their progress.
+ */
+export function scheduleFsrs(
+  state: SchedulingState,
+  quality: number,
+  now: Date = new Date(),
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS
+): SchedulingState {
+  const grade = qualityToGrade(quality)
+  const isNew = state.repetitions === 0 && state.lastReviewedAt === null
+
+  let stability: number
+  let difficulty: number
+
+  if (isNew) {
+    stability = FSRS_WEIGHTS[grade - 1]
+    difficulty = initialDifficulty(grade)
+  } else {
+    const previousStability = state.stability ?? Math.max(state.interval, 1)
+    const previousDifficulty = state.memoryDifficulty ??
+      clamp(10 - (state.easeFactor - MIN_EASE_FACTOR) * 5, 1, 10)
+    const elapsedDays = state.lastReviewedAt
+      ? Math.max(0, (now.getTime() - state.lastReviewedAt.getTime()) / DAY_MS)
+      : state.interval
+    const retrievability = getRetrievability(elapsedDays, previousStability)
+
+    difficulty = nextDifficulty(previousDifficulty, grade)
+    stability = grade === 1
+      ? forgetStability(previousDifficulty, previousStability, retrievability)
+      : recallStability(previousDifficulty, previousStability, retrievability, grade)
+  }
+
+  const interval = grade === 1
+    ? 1
+    : clamp(
+      Math.round(stability / FSRS_FACTOR * (Math.pow(settings.desiredRetention, 1 / FSRS_DECAY) - 1)),
+      1,
+      settings.maximumInterval
+    )
+
+  return {
+    ...state,
+    interval,
+    repetitions: grade === 1 ? 0 : state.repetitions + 1,
+    lapses: grade === 1 && !isNew ? state.lapses + 1 : state.lapses,
+    stability,
+    memoryDifficulty: difficulty,
+    lastReviewedAt: now
+  }
+}
+
+export function scheduleReview(
+  state: SchedulingState,
+  quality: number,
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS,
+  now: Date = new Date()
+): SchedulingState {
+  return settings.algorithm === 'fsrs'
+    ? scheduleFsrs(state, quality, now, settings)
+    : scheduleSm2(state, quality, now, settings)
+}
+
+export function getNextReviewDate(state: SchedulingState, now: Date = new Date()): Date {
+  return new Date(now.getTime() + state.interval * DAY_MS)
+}
+
+export function isMastered(state: SchedulingState): boolean {
+  return state.interval >= MASTERED_INTERVAL
+}
+
+export function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+/**
+ * Cards to review now within the day's limits: reviews come first, oldest due
+ * first, then new cards. Reviews already logged today count against the limits.
+ */
+export function applyDailyLimits(
+  dueCards: MemorizationCard[],
+  todaysReviews: Pick<MemorizationReviewLog, 'cardId' | 'wasNew'>[],
+  settings: MemorizationSettings = DEFAULT_MEMORIZATION_SETTINGS
+): MemorizationCard[] {
+  const newCardIds = new Set(todaysReviews.filter(log => log.wasNew).map(log => log.cardId))
+  const reviewedIds = new Set(todaysReviews.filter(log => !newCardIds.has(log.cardId)).map(log => log.cardId))
+
+  const newRemaining = Math.max(0, settings.newCardsPerDay - newCardIds.size)
+  const reviewsRemaining = Math.max(0, settings.reviewsPerDay - reviewedIds.size)
+
+  const byDueDate = [...dueCards].sort((a, b) => a.nextReview.getTime() - b.nextReview.getTime())
+  const reviews = byDueDate.filter(card => card.lastReviewedAt !== null || card.reviewCount > 0)
+  const newCards = byDueDate.filter(card => card.lastReviewedAt === null && card.reviewCount === 0)
+
+  return [...reviews.slice(0, reviewsRemaining), ...newCards.slice(0, newRemaining)]
+}
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+/**
+ * Consecutive days with at least one review, ending today. A streak whose
+ * last review was yesterday still counts, since today isn't over yet.
+ */
+export function calculateReviewStreak(reviewDates: Date[], today: Date = new Date()): number {
+  const days = new Set(reviewDates.map(toDayKey))
+
+  const day = startOfDay(today)
+  if (!days.has(toDayKey(day))) {
+    day.setDate(day.getDate() - 1)
+  }
+
+  let streak = 0
+  while (days.has(toDayKey(day))) {
+    streak++
+    day.setDate(day.getDate() - 1)
+  }
+  return streak
+}
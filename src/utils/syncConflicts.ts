@@ -0,0 +1,215 @@
+// Sync conflicts side by side: the change this device could not push and the newer copy
+// on the server, both in the app's shape and compared field by field
+import type { SyncConflict } from '@/services/syncService'
+import type { Note } from '@/types'
+import type {
+  Bookmark as BookmarkRow,
+  Highlight as HighlightRow,
+  MemorizationCardRow,
+  Note as NoteRow
+} from '@/types/database'
+import type { ConflictField, ConflictFieldContext } from '@/types/syncConflicts'
+import { formatNoteReference, type NoteLocation } from './notePassages'
+import { DataTransformers } from './transformers'
+
+type ConflictSide = Record<string, unknown>
+
+// The server copy of an item type that has a transformer to the app's shape
+type ConflictRow = NoteRow | BookmarkRow | HighlightRow | MemorizationCardRow
+
+interface FieldSpec {
+  field: string
+  label: string
+  format: (item: ConflictSide, context: ConflictFieldContext) => string
+}
+
+// Internal bookkeeping that differs between copies of the same item
+const IGNORED_FIELDS = new Set(['id', 'localId', 'userId', 'syncStatus', '_forceSync'])
+
+const ENTITY_LABELS: Partial<Record<SyncConflict['entityType'], string>> = {
+  bookmark: 'Bookmark',
+  note: 'Note',
+  highlight: 'Highlight',
+  memorization_card: 'Memory verse'
+}
+
+function formatDate(value: unknown): string {
+  if (!value) return 'Never'
+  return new Date(value as string | Date).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+// Values read off a side, which could be either copy of the item
+function readText(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+function readNumber(value: unknown): number | null {
+  return typeof value === 'number' ? value : null
+}
+
+function readNoteLocation(note: ConflictSide): NoteLocation {
+  return {
+    book: readText(note.book),
+    chapter: readNumber(note.chapter),
+    verse: readNumber(note.verse),
+    endChapter: readNumber(note.endChapter),
+    endVerse: readNumber(note.endVerse)
+  }
+}
+
+function formatVerse(item: ConflictSide): string {
+  const end = item.endVerse ? `-${item.endChapter && item.endChapter !== item.chapter ? `${item.endChapter}:` : ''}${item.endVerse}` : ''
+  return `${item.book} ${item.chapter}:${item.verse}${end}`
+}
+
+const VERSE_FIELD: FieldSpec = { field: 'verse', label: 'Verse', format: formatVerse }
+
+const FIELDS: Partial<Record<SyncConflict['entityType'], FieldSpec[]>> = {
+  note: [
+    { field: 'passage', label: 'Passage', format: note => formatNoteReference(readNoteLocation(note)) },
+    { field: 'content', label: 'Text', format: note => readText(note.content) ?? '' },
+    { field: 'tags', label: 'Tags', format: note => Array.isArray(note.tags) ? note.tags.map(tag => `#${tag}`).join(' ') : '' },
+    {
+      field: 'notebookId',
+      label: 'Notebook',
+      format: (note, context) => typeof note.notebookId === 'string'
+        ? context.notebookName?.(note.notebookId) ?? 'Another notebook'
+        : 'None'
+    }
+  ],
+  bookmark: [VERSE_FIELD],
+  highlight: [
+    VERSE_FIELD,
+    { field: 'colorHex', label: 'Color', format: highlight => readText(highlight.colorHex) ?? '' },
+    {
+      field: 'categoryId',
+      label: 'Category',
+      format: (highlight, context) => typeof highlight.categoryId === 'string'
+        ? context.categoryName?.(highlight.categoryId) ?? 'Another category'
+        : 'None'
+    },
+    { field: 'style', label: 'Style', format: highlight => readText(highlight.style) ?? 'fill' }
+  ],
+  memorization_card: [
+    { field: 'verseReference', label: 'Passage', format: card => readText(card.passageReference) ?? readText(card.verseReference) ?? '' },
+    { field: 'nextReview', label: 'Next review', format: card => formatDate(card.nextReview) },
+    { field: 'lastReviewedAt', label: 'Last reviewed', format: card => formatDate(card.lastReviewedAt) },
+    { field: 'reviewCount', label: 'Reviews', format: card => String(readNumber(card.reviewCount) ?? 0) },
+    { field: 'mastered', label: 'Mastered', format: card => card.mastered ? 'Yes' : 'No' }
+  ]
+}
+
+// Note fields an edited merge takes from one side or the other
+const NOTE_MERGE_FIELDS: Record<string, (keyof Note)[]> = {
+  passage: ['book', 'chapter', 'verse', 'endChapter', 'endVerse', 'verseKey', 'sourceVersion', 'textFingerprint'],
+  tags: ['tags'],
+  notebookId: ['notebookId', 'position']
+}
+
+function fromDatabaseRow(entityType: SyncConflict['entityType'], row: ConflictRow): ConflictSide {
+  switch (entityType) {
+    case 'note':
+      return { ...DataTransformers.transformNote(row as NoteRow) }
+    case 'bookmark':
+      return { ...DataTransformers.transformBookmark(row as BookmarkRow) }
+    case 'highlight':
+      return { ...DataTransformers.transformHighlight(row as HighlightRow) }
+    case 'memorization_card':
+      return { ...DataTransformers.transformMemorizationCard(row as MemorizationCardRow) }
+    default:
+      return { ...row }
+  }
+}
+
+/**
+ * Both sides in the app's shape. The server copy arrives as a database row, and is
+ * null when the item was deleted on another device.
+ */
+export function getConflictSides(conflict: SyncConflict): { local: ConflictSide | null; remote: ConflictSide | null } {
+  const remote = conflict.remoteData && 'user_id' in conflict.remoteData
+    ? fromDatabaseRow(conflict.entityType, conflict.remoteData)
+    : conflict.remoteData ?? null
+
+  return { local: conflict.localData ?? null, remote }
+}
+
+// Item types without their own fields are compared on everything they carry
+function genericFields(local: ConflictSide | null, remote: ConflictSide | null): FieldSpec[] {
+  const keys = new Set([...Object.keys(local ?? {}), ...Object.keys(remote ?? {})])
+  return [...keys]
+    .filter(key => !IGNORED_FIELDS.has(key))
+    .sort()
+    .map(key => ({
+      field: key,
+      label: key,
+      format: item => item[key] === undefined || item[key] === null ? '' : JSON.stringify(item[key])
+    }))
+}
+
+/**
+ * The conflicting item's fields on each side. A side that is missing (deleted)
+ * shows as empty.
+ */
+export function diffConflictFields(conflict: SyncConflict, context: ConflictFieldContext = {}): ConflictField[] {
+  const { local, remote } = getConflictSides(conflict)
+  const specs = FIELDS[conflict.entityType] ?? genericFields(local, remote)
+
+  return specs.map(spec => {
+    const localValue = local ? spec.format(local, context) : ''
+    const remoteValue = remote ? spec.format(remote, context) : ''
+    return {
+      field: spec.field,
+      label: spec.label,
+      local: localValue,
+      remote: remoteValue,
+      changed: localValue !== remoteValue
+    }
+  })
+}
+
+export function describeConflict(conflict: SyncConflict): string {
+  const { local, remote } = getConflictSides(conflict)
+  const item = local ?? remote
+  const label = ENTITY_LABELS[conflict.entityType] ?? conflict.entityType.replace(/_/g, ' ')
+
+  if (!item) return label
+  if (conflict.entityType === 'note') return `${label} · ${formatNoteReference(readNoteLocation(item))}`
+  if (conflict.entityType === 'memorization_card') return `${label} · ${item.passageReference ?? item.verseReference}`
+  if (item.book && item.chapter) return `${label} · ${formatVerse(item)}`
+  return label
+}
+
+// Only notes can be merged, and only while both copies exist
+export function canMergeConflict(conflict: SyncConflict): boolean {
+  const { local, remote } = getConflictSides(conflict)
+  return conflict.entityType === 'note' && !!local && !!remote
+}
+
+/**
+ * The merged data for an edited note merge: the text as edited, and every other
+ * field from the side picked for it (this device's unless the server's was picked)
+ */
+export function buildNoteMerge(
+  conflict: SyncConflict,
+  content: string,
+  picks: Record<string, 'local' | 'remote'> = {}
+): Partial<Note> {
+  const { local, remote } = getConflictSides(conflict)
+  const merged: Partial<Note> = { content }
+
+  for (const [field, keys] of Object.entries(NOTE_MERGE_FIELDS)) {
+    const source = picks[field] === 'remote' ? remote : local
+    if (!source) continue
+    for (const key of keys) {
+      (merged as Record<string, unknown>)[key] = source[key]
+    }
+  }
+
+  return merged
+}
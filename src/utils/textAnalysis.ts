@@ -0,0 +1,203 @@
+// Language-aware tokenizing, stop words and light stemming for offline search.
+// The same analyzer runs at index time and query time so terms always line up.
+import type { AnalyzedToken } from '@/types/searchIndex'
+
+/**
+ * Bump when tokenizing, stemming or the stored index shape changes so stale
+ * indexes are rebuilt
+ */
+export const ANALYZER_VERSION = 2
+
+export type AnalyzerLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'other'
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu
+
+const STOP_WORDS: Record<AnalyzerLanguage, Set<string>> = {
+  en: new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+    'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+    'our', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was',
+    'we', 'were', 'which', 'with', 'you', 'your'
+  ]),
+  es: new Set([
+    'a', 'al', 'con', 'de', 'del', 'el', 'en', 'es', 'la', 'las', 'lo', 'los', 'mas', 'me', 'mi',
+    'no', 'o', 'para', 'por', 'que', 'se', 'su', 'sus', 'te', 'tu', 'un', 'una', 'y'
+  ]),
+  fr: new Set([
+    'a', 'au', 'aux', 'ce', 'de', 'des', 'du', 'elle', 'en', 'est', 'et', 'il', 'ils', 'je', 'la',
+    'le', 'les', 'leur', 'mais', 'me', 'mon', 'ne', 'ou', 'par', 'pas', 'pour', 'qu', 'que', 'qui',
+    'sa', 'se', 'ses', 'son', 'sur', 'un', 'une', 'vous'
+  ]),
+  de: new Set([
+    'auf', 'aus', 'das', 'dass', 'dem', 'den', 'der', 'des', 'die', 'ein', 'eine', 'einen', 'er',
+    'es', 'ich', 'im', 'in', 'ist', 'mit', 'nicht', 'sie', 'sich', 'und', 'von', 'zu'
+  ]),
+  pt: new Set([
+    'a', 'ao', 'as', 'com', 'da', 'das', 'de', 'do', 'dos', 'e', 'em', 'na', 'nas', 'no', 'nos',
+    'o', 'os', 'para', 'por', 'que', 'se', 'seu', 'sua', 'um', 'uma'
+  ]),
+  other: new Set()
+}
+
+// Plural endings are removed first, then the longest matching ending; a suffix
+// is only removed when at least three letters remain
+const SUFFIXES: Record<Exclude<AnalyzerLanguage, 'en' | 'other'>, { plural: string[]; endings: string[] }> = {
+  es: {
+    plural: ['es', 's'],
+    endings: ['amente', 'mente', 'acion', 'ando', 'iendo', 'ado', 'ada', 'ido', 'ida', 'a', 'o', 'e']
+  },
+  fr: {
+    plural: ['s', 'x'],
+    endings: ['ement', 'ation', 'euse', 'eu', 'ee', 'e']
+  },
+  de: {
+    plural: [],
+    endings: ['ungen', 'ung', 'ern', 'em', 'en', 'er', 'es', 'e', 's', 'n']
+  },
+  pt: {
+    plural: ['es', 's'],
+    endings: ['amente', 'mente', 'acoe', 'acao', 'ando', 'endo', 'indo', 'ado', 'ada', 'ido', 'ida', 'a', 'o', 'e']
+  }
+}
+
+/**
+ * Map a version language code (e.g. 'eng', 'en-US', 'spa') to an analyzer
+ */
+export function getAnalyzerLanguage(language?: string): AnalyzerLanguage {
+  const code = (language || '').toLowerCase().split(/[-_]/)[0]
+
+  switch (code) {
+    case 'en':
+    case 'eng':
+      return 'en'
+    case 'es':
+    case 'spa':
+      return 'es'
+    case 'fr':
+    case 'fra':
+    case 'fre':
+      return 'fr'
+    case 'de':
+    case 'deu':
+    case 'ger':
+      return 'de'
+    case 'pt':
+    case 'por':
+      return 'pt'
+    default:
+      return 'other'
+  }
+}
+
+/**
+ * Lowercase and strip diacritics so "Éternel" matches "eternel"
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/’/g, "'")
+}
+
+export function isStopWord(word: string, language: AnalyzerLanguage): boolean {
+  return STOP_WORDS[language].has(word)
+}
+
+/**
+ * Light English stemmer that also folds archaic verb endings (loveth, lovest)
+ */
+function stemEnglish(word: string): string {
+  let stem = word.replace(/'s$/, '').replace(/'$/, '')
+  if (stem.length <= 3) return stem
+
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2)
+  } else if (stem.endsWith('ies') && stem.length > 4) {
+    stem = stem.slice(0, -3) + 'y'
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1)
+  }
+
+  if (stem.endsWith('ieth') && stem.length > 5) {
+    stem = stem.slice(0, -4) + 'y'
+  } else {
+    for (const suffix of ['eth', 'est', 'ing', 'ed']) {
+      if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+        stem = stem.slice(0, -suffix.length)
+        // running -> run, but keep bless, fall, buzz
+        if (/([^aeiouslz])\1$/.test(stem)) {
+          stem = stem.slice(0, -1)
+        }
+        break
+      }
+    }
+  }
+
+  if (stem.endsWith('e') && stem.length > 3) {
+    stem = stem.slice(0, -1)
+  }
+
+  return stem
+}
+
+function stripSuffix(word: string, suffixes: string[]): string {
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length)
+    }
+  }
+  return word
+}
+
+/**
+ * Reduce a normalized word to its index term
+ */
+export function stemWord(word: string, language: AnalyzerLanguage): string {
+  switch (language) {
+    case 'en':
+      return stemEnglish(word)
+    case 'other':
+      return word
+    default: {
+      const { plural, endings } = SUFFIXES[language]
+      return stripSuffix(stripSuffix(word.replace(/'/g, ''), plural), endings)
+    }
+  }
+}
+
+/**
+ * Normalize and stem a single word as it would appear in the index
+ */
+export function analyzeWord(word: string, language: AnalyzerLanguage): string {
+  return stemWord(normalizeWord(word), language)
+}
+
+/**
+ * Split text into index tokens. Stop words are dropped but still advance the
+ * position counter so phrase queries keep their spacing.
+ */
+export function tokenize(text: string, language: AnalyzerLanguage): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = []
+  const words = text.match(WORD_PATTERN) || []
+
+  words.forEach((word, position) => {
+    const normalized = normalizeWord(word)
+    if (isStopWord(normalized, language)) return
+
+    tokens.push({
+      term: stemWord(normalized, language),
+      surface: word.toLowerCase(),
+      position
+    })
+  })
+
+  return tokens
+}
+
+/**
+ * Split text into raw words, keeping stop words
+ */
+export function splitWords(text: string): string[] {
+  return text.match(WORD_PATTERN) || []
+}
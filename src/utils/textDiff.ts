@@ -0,0 +1,151 @@
+// Text diffs for comparing note revisions: a longest-common-subsequence diff over
+// lines, with word-level detail on lines that were edited rather than added or removed
+import type { DiffCell, DiffChange, DiffPart, DiffRow, DiffSummary } from '@/types/textDiff'
+
+/**
+ * Diff two token sequences, one part per token. Removals come before the
+ * additions that replace them so edited lines can be paired up.
+ */
+export function diffSequences(before: string[], after: string[]): DiffPart[] {
+  // Common prefix and suffix don't need the quadratic table
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+
+  // lengths[i][j] is the longest common subsequence of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = before.slice(0, start).map(text => ({ type: 'equal', text }))
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'equal', text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'removed', text: a[i++] })
+    } else {
+      parts.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) parts.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) parts.push({ type: 'added', text: b[j++] })
+
+  return parts.concat(before.slice(endBefore).map(text => ({ type: 'equal', text })))
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n')
+}
+
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffSequences(splitLines(before), splitLines(after))
+}
+
+// Join neighbouring parts of the same kind so a run of changed words renders as one span
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = []
+  for (const part of parts) {
+    const last = merged[merged.length - 1]
+    if (last?.type === part.type) {
+      last.text += part.text
+    } else {
+      merged.push({ ...part })
+    }
+  }
+  return merged
+}
+
+/**
+ * Word-level parts for each side of an edited line. Whitespace is kept as its own
+ * token so the parts join back into the original text.
+ */
+export function diffWords(before: string, after: string): { before: DiffPart[]; after: DiffPart[] } {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(token => token !== '')
+  const parts = diffSequences(tokenize(before), tokenize(after))
+
+  return {
+    before: mergeParts(parts.filter(part => part.type !== 'added')),
+    after: mergeParts(parts.filter(part => part.type !== 'removed'))
+  }
+}
+
+function wholeLine(lineNumber: number, text: string, type: DiffChange): DiffCell {
+  return { lineNumber, text, parts: [{ type, text }] }
+}
+
+/**
+ * Rows for a side-by-side view. Runs of removed lines followed by added lines are
+ * paired as changed rows; whatever is left over stays on its own side.
+ */
+export function diffSideBySide(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = []
+  let leftLine = 0
+  let rightLine = 0
+  let removed: string[] = []
+  let added: string[] = []
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length)
+    for (let k = 0; k < paired; k++) {
+      const words = diffWords(removed[k], added[k])
+      rows.push({
+        type: 'changed',
+        left: { lineNumber: ++leftLine, text: removed[k], parts: words.before },
+        right: { lineNumber: ++rightLine, text: added[k], parts: words.after }
+      })
+    }
+    for (const text of removed.slice(paired)) {
+      rows.push({ type: 'removed', left: wholeLine(++leftLine, text, 'removed'), right: null })
+    }
+    for (const text of added.slice(paired)) {
+      rows.push({ type: 'added', left: null, right: wholeLine(++rightLine, text, 'added') })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const part of diffLines(before, after)) {
+    if (part.type === 'removed') {
+      // A removal after additions starts a new block
+      if (added.length > 0) flush()
+      removed.push(part.text)
+    } else if (part.type === 'added') {
+      added.push(part.text)
+    } else {
+      flush()
+      rows.push({
+        type: 'equal',
+        left: wholeLine(++leftLine, part.text, 'equal'),
+        right: wholeLine(++rightLine, part.text, 'equal')
+      })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+export function summarizeDiff(rows: DiffRow[]): DiffSummary {
+  return {
+    added: rows.filter(row => row.type === 'added').length,
+    removed: rows.filter(row => row.type === 'removed').length,
+    changed: rows.filter(row => row.type === 'changed').length
+  }
+}
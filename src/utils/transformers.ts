@@ -6,7 +6,10 @@ import type {
   Verse,
   Bookmark,
   Note,
+  Notebook,
+  NoteRevision,
   Highlight,
+  HighlightCategory,
   VerseOfTheDay,
   ReadingPosition,
   BookmarkWithReference,
@@ -15,6 +18,35 @@ import type {
   BibleVersionWithStatus,
   SearchResult
 } from '@/types'
+import type { VerseAnchor } from '@/types/verseAnchors'
+import type { MemorizationCard, MemorizationReviewLog } from '@/types/quickWins'
+import type { VerseCollection, CollectionVerse } from '@/types/personalization'
+import type {
+  CollectionVerseInsert,
+  CollectionVerseRow,
+  HighlightCategoryInsert,
+  HighlightCategoryRow,
+  MemorizationCardInsert,
+  MemorizationCardRow,
+  MemorizationReviewInsert,
+  MemorizationReviewRow,
+  Note as NoteRow,
+  NoteInsert,
+  NoteRevisionInsert,
+  NoteRevisionRow,
+  NotebookInsert,
+  NotebookRow,
+  VerseCollectionInsert,
+  VerseCollectionRow
+} from '@/types/database'
+import { formatNoteReference } from './notePassages'
+
+// Verse anchor columns on the bookmarks, notes and highlights tables
+interface AnchorColumns {
+  verse_key?: string | null
+  source_version?: string | null
+  text_fingerprint?: string | null
+}
 
 // Database to Application transformers
 export class DataTransformers {
@@ -90,15 +122,37 @@ export class DataTransformers {
   }
 
   /**
-   * Transform database bookmark to application format
+   * Transform the verse anchor columns shared by bookmarks, notes and highlights.
+   * Rows saved before anchoring have none, so only the columns present are kept.
+   */
+  static transformAnchor(dbRow: AnchorColumns): Partial<VerseAnchor> {
+    return {
+      ...(dbRow.verse_key ? { verseKey: dbRow.verse_key } : {}),
+      ...(dbRow.source_version ? { sourceVersion: dbRow.source_version } : {}),
+      ...(dbRow.text_fingerprint ? { textFingerprint: dbRow.text_fingerprint } : {})
+    }
+  }
+
+  static transformAnchorToDb(anchor: Partial<VerseAnchor>): AnchorColumns {
+    return {
+      verse_key: anchor.verseKey,
+      source_version: anchor.sourceVersion,
+      text_fingerprint: anchor.textFingerprint
+    }
+  }
+
+  /**
+   * Transform database bookmark to application format. Like notes, bookmarks are
+   * keyed by the id the client made them with.
    */
   static transformBookmark(dbBookmark: any): Bookmark {
     return {
-      id: dbBookmark.id.toString(),
+      id: dbBookmark.client_id ?? `remote_${dbBookmark.id}`,
       userId: dbBookmark.user_id,
       book: dbBookmark.book,
       chapter: dbBookmark.chapter,
       verse: dbBookmark.verse,
+      ...this.transformAnchor(dbBookmark),
       createdAt: this.parseDate(dbBookmark.created_at),
       syncStatus: 'synced'
     }
@@ -109,25 +163,34 @@ export class DataTransformers {
    */
   static transformBookmarkToDb(bookmark: Partial<Bookmark>): any {
     return {
+      client_id: bookmark.id,
       user_id: bookmark.userId,
       book: bookmark.book,
       chapter: bookmark.chapter,
       verse: bookmark.verse,
+      ...this.transformAnchorToDb(bookmark),
       created_at: bookmark.createdAt ? this.formatDate(bookmark.createdAt) : undefined
     }
   }
 
   /**
-   * Transform database note to application format
+   * Transform database note to application format. Notes are keyed by the id the
+   * client made them with; rows from before client ids get one from their row id.
    */
-  static transformNote(dbNote: any): Note {
+  static transformNote(dbNote: NoteRow): Note {
     return {
-      id: dbNote.id.toString(),
+      id: dbNote.client_id ?? `remote_${dbNote.id}`,
       userId: dbNote.user_id,
       book: dbNote.book,
       chapter: dbNote.chapter,
       verse: dbNote.verse,
+      endChapter: dbNote.end_chapter,
+      endVerse: dbNote.end_verse,
+      ...this.transformAnchor(dbNote),
       content: dbNote.content,
+      notebookId: dbNote.notebook_id,
+      position: dbNote.position,
+      tags: dbNote.tags ?? [],
       createdAt: this.parseDate(dbNote.created_at),
       updatedAt: this.parseDate(dbNote.updated_at),
       syncStatus: 'synced'
@@ -137,15 +200,101 @@ export class DataTransformers {
   /**
    * Transform application note to database format
    */
-  static transformNoteToDb(note: Partial<Note>): any {
+  static transformNoteToDb(note: Note): NoteInsert {
     return {
+      client_id: note.id,
       user_id: note.userId,
       book: note.book,
       chapter: note.chapter,
       verse: note.verse,
+      end_chapter: note.endChapter ?? null,
+      end_verse: note.endVerse ?? null,
+      ...this.transformAnchorToDb(note),
       content: note.content,
-      created_at: note.createdAt ? this.formatDate(note.createdAt) : undefined,
-      updated_at: note.updatedAt ? this.formatDate(note.updatedAt) : undefined
+      notebook_id: note.notebookId ?? null,
+      position: note.position ?? 0,
+      tags: note.tags ?? [],
+      created_at: this.formatDate(new Date(note.createdAt)),
+      updated_at: this.formatDate(new Date(note.updatedAt))
+    }
+  }
+
+  static transformNotebook(dbNotebook: NotebookRow): Notebook {
+    return {
+      id: dbNotebook.id,
+      userId: dbNotebook.user_id,
+      name: dbNotebook.name,
+      ...(dbNotebook.description ? { description: dbNotebook.description } : {}),
+      position: dbNotebook.position,
+      createdAt: this.parseDate(dbNotebook.created_at),
+      updatedAt: this.parseDate(dbNotebook.updated_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  static transformNotebookToDb(notebook: Notebook): NotebookInsert {
+    return {
+      id: notebook.id,
+      user_id: notebook.userId,
+      name: notebook.name,
+      description: notebook.description ?? null,
+      position: notebook.position,
+      created_at: this.formatDate(new Date(notebook.createdAt)),
+      updated_at: this.formatDate(new Date(notebook.updatedAt))
+    }
+  }
+
+  static transformNoteRevision(dbRevision: NoteRevisionRow): NoteRevision {
+    return {
+      id: dbRevision.id,
+      noteId: dbRevision.note_client_id,
+      userId: dbRevision.user_id,
+      parentRevisionId: dbRevision.parent_revision_id,
+      content: dbRevision.content,
+      origin: dbRevision.origin,
+      createdAt: this.parseDate(dbRevision.created_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  static transformNoteRevisionToDb(revision: NoteRevision): NoteRevisionInsert {
+    return {
+      id: revision.id,
+      user_id: revision.userId,
+      note_client_id: revision.noteId,
+      parent_revision_id: revision.parentRevisionId,
+      content: revision.content,
+      origin: revision.origin,
+      created_at: this.formatDate(new Date(revision.createdAt))
+    }
+  }
+
+  static transformHighlightCategory(dbCategory: HighlightCategoryRow): HighlightCategory {
+    return {
+      id: dbCategory.id,
+      userId: dbCategory.user_id,
+      name: dbCategory.name,
+      colorHex: dbCategory.color_hex,
+      ...(dbCategory.icon ? { icon: dbCategory.icon } : {}),
+      ...(dbCategory.description ? { description: dbCategory.description } : {}),
+      position: dbCategory.position,
+      createdAt: this.parseDate(dbCategory.created_at),
+      updatedAt: this.parseDate(dbCategory.updated_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  static transformHighlightCategoryToDb(category: HighlightCategory): HighlightCategoryInsert {
+    return {
+      id: category.id,
+      user_id: category.userId,
+      name: category.name,
+      color_hex: category.colorHex,
+      icon: category.icon ?? null,
+      description: category.description ?? null,
+      position: category.position,
+      created_at: this.formatDate(new Date(category.createdAt)),
+      updated_at: this.formatDate(new Date(category.updatedAt))
     }
   }
 
@@ -154,14 +303,21 @@ export class DataTransformers {
    */
   static transformHighlight(dbHighlight: any): Highlight {
     return {
-      id: dbHighlight.id.toString(),
+      id: dbHighlight.client_id ?? `remote_${dbHighlight.id}`,
       userId: dbHighlight.user_id,
       book: dbHighlight.book,
       chapter: dbHighlight.chapter,
       verse: dbHighlight.verse,
+      endChapter: dbHighlight.end_chapter ?? null,
+      endVerse: dbHighlight.end_verse ?? null,
       colorHex: dbHighlight.color_hex,
+      categoryId: dbHighlight.category_id ?? null,
+      style: dbHighlight.style ?? 'fill',
       startOffset: dbHighlight.start_offset,
       endOffset: dbHighlight.end_offset,
+      ...this.transformAnchor(dbHighlight),
+      ...(dbHighlight.quote ? { quote: dbHighlight.quote } : {}),
+      ...(dbHighlight.end_quote ? { endQuote: dbHighlight.end_quote } : {}),
       createdAt: this.parseDate(dbHighlight.created_at),
       syncStatus: 'synced'
     }
@@ -172,17 +328,210 @@ export class DataTransformers {
    */
   static transformHighlightToDb(highlight: Partial<Highlight>): any {
     return {
+      client_id: highlight.id,
       user_id: highlight.userId,
       book: highlight.book,
       chapter: highlight.chapter,
       verse: highlight.verse,
+      end_chapter: highlight.endChapter ?? null,
+      end_verse: highlight.endVerse ?? null,
       color_hex: highlight.colorHex,
+      category_id: highlight.categoryId ?? null,
+      style: highlight.style ?? 'fill',
       start_offset: highlight.startOffset,
       end_offset: highlight.endOffset,
+      ...this.transformAnchorToDb(highlight),
+      quote: highlight.quote,
+      end_quote: highlight.endQuote ?? null,
       created_at: highlight.createdAt ? this.formatDate(highlight.createdAt) : undefined
     }
   }
 
+  /**
+   * Transform database memorization card to application format
+   */
+  static transformMemorizationCard(dbCard: MemorizationCardRow): MemorizationCard {
+    return {
+      id: dbCard.id,
+      userId: dbCard.user_id,
+      verseId: dbCard.verse_id,
+      verseText: dbCard.verse_text,
+      verseReference: dbCard.verse_reference,
+      bibleVersionId: dbCard.bible_version_id,
+      difficulty: dbCard.difficulty,
+      algorithm: dbCard.algorithm,
+      reviewMode: dbCard.review_mode,
+      passageId: dbCard.passage_id,
+      passageReference: dbCard.passage_reference,
+      chunkIndex: dbCard.chunk_index,
+      chunkCount: dbCard.chunk_count,
+      locked: dbCard.locked,
+      easeFactor: dbCard.ease_factor,
+      interval: dbCard.interval_days,
+      repetitions: dbCard.repetitions,
+      lapses: dbCard.lapses,
+      stability: dbCard.stability,
+      memoryDifficulty: dbCard.memory_difficulty,
+      lastReviewedAt: dbCard.last_reviewed_at ? this.parseDate(dbCard.last_reviewed_at) : null,
+      nextReview: this.parseDate(dbCard.next_review),
+      reviewCount: dbCard.review_count,
+      mastered: dbCard.mastered,
+      createdAt: this.parseDate(dbCard.created_at),
+      updatedAt: this.parseDate(dbCard.updated_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  /**
+   * Transform application memorization card to database format
+   */
+  static transformMemorizationCardToDb(card: MemorizationCard): MemorizationCardInsert {
+    return {
+      id: card.id,
+      user_id: card.userId,
+      verse_id: card.verseId,
+      verse_text: card.verseText,
+      verse_reference: card.verseReference,
+      bible_version_id: card.bibleVersionId,
+      difficulty: card.difficulty,
+      algorithm: card.algorithm,
+      review_mode: card.reviewMode,
+      passage_id: card.passageId,
+      passage_reference: card.passageReference,
+      chunk_index: card.chunkIndex,
+      chunk_count: card.chunkCount,
+      locked: card.locked,
+      ease_factor: card.easeFactor,
+      interval_days: card.interval,
+      repetitions: card.repetitions,
+      lapses: card.lapses,
+      stability: card.stability,
+      memory_difficulty: card.memoryDifficulty,
+      last_reviewed_at: card.lastReviewedAt ? this.formatDate(card.lastReviewedAt) : null,
+      next_review: this.formatDate(card.nextReview),
+      review_count: card.reviewCount,
+      mastered: card.mastered,
+      created_at: this.formatDate(card.createdAt),
+      updated_at: this.formatDate(card.updatedAt)
+    }
+  }
+
+  /**
+   * Transform database memorization review to application format
+   */
+  static transformMemorizationReview(dbReview: MemorizationReviewRow): MemorizationReviewLog {
+    return {
+      id: dbReview.id,
+      userId: dbReview.user_id,
+      cardId: dbReview.card_id,
+      quality: dbReview.quality,
+      algorithm: dbReview.algorithm,
+      reviewMode: dbReview.review_mode,
+      wasNew: dbReview.was_new,
+      previousInterval: dbReview.previous_interval,
+      interval: dbReview.interval_days,
+      easeFactor: dbReview.ease_factor,
+      stability: dbReview.stability,
+      memoryDifficulty: dbReview.memory_difficulty,
+      timeSpent: dbReview.time_spent,
+      reviewedAt: this.parseDate(dbReview.reviewed_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  /**
+   * Transform application memorization review to database format
+   */
+  static transformMemorizationReviewToDb(review: MemorizationReviewLog): MemorizationReviewInsert {
+    return {
+      id: review.id,
+      user_id: review.userId,
+      card_id: review.cardId,
+      quality: review.quality,
+      algorithm: review.algorithm,
+      review_mode: review.reviewMode,
+      was_new: review.wasNew,
+      previous_interval: review.previousInterval,
+      interval_days: review.interval,
+      ease_factor: review.easeFactor,
+      stability: review.stability,
+      memory_difficulty: review.memoryDifficulty,
+      time_spent: review.timeSpent,
+      reviewed_at: this.formatDate(review.reviewedAt)
+    }
+  }
+
+  /**
+   * Transform database verse collection to application format
+   */
+  static transformVerseCollection(dbCollection: VerseCollectionRow): VerseCollection {
+    return {
+      id: dbCollection.id,
+      userId: dbCollection.user_id,
+      name: dbCollection.name,
+      ...(dbCollection.description ? { description: dbCollection.description } : {}),
+      color: dbCollection.color,
+      icon: dbCollection.icon,
+      isPublic: dbCollection.is_public,
+      tags: dbCollection.tags || [],
+      sections: dbCollection.sections || [],
+      ...(dbCollection.rule ? { rule: dbCollection.rule } : {}),
+      createdAt: this.parseDate(dbCollection.created_at),
+      updatedAt: this.parseDate(dbCollection.updated_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  static transformVerseCollectionToDb(collection: VerseCollection): VerseCollectionInsert {
+    return {
+      id: collection.id,
+      user_id: collection.userId,
+      name: collection.name,
+      description: collection.description ?? null,
+      color: collection.color,
+      icon: collection.icon,
+      is_public: collection.isPublic,
+      tags: collection.tags,
+      sections: collection.sections,
+      rule: collection.rule ?? null,
+      created_at: this.formatDate(new Date(collection.createdAt)),
+      updated_at: this.formatDate(new Date(collection.updatedAt))
+    }
+  }
+
+  static transformCollectionVerse(dbVerse: CollectionVerseRow): CollectionVerse {
+    return {
+      id: dbVerse.id,
+      collectionId: dbVerse.collection_id,
+      verseId: dbVerse.verse_id,
+      verseReference: dbVerse.verse_reference,
+      bibleVersionId: dbVerse.bible_version_id,
+      verseText: dbVerse.verse_text,
+      ...(dbVerse.notes ? { notes: dbVerse.notes } : {}),
+      sectionId: dbVerse.section_id ?? null,
+      position: dbVerse.position ?? 0,
+      addedAt: this.parseDate(dbVerse.added_at),
+      updatedAt: this.parseDate(dbVerse.updated_at ?? dbVerse.added_at),
+      syncStatus: 'synced'
+    }
+  }
+
+  static transformCollectionVerseToDb(verse: CollectionVerse): CollectionVerseInsert {
+    return {
+      id: verse.id,
+      collection_id: verse.collectionId,
+      verse_id: verse.verseId,
+      verse_reference: verse.verseReference,
+      bible_version_id: verse.bibleVersionId,
+      verse_text: verse.verseText,
+      notes: verse.notes ?? null,
+      section_id: verse.sectionId,
+      position: verse.position,
+      added_at: this.formatDate(new Date(verse.addedAt)),
+      updated_at: this.formatDate(new Date(verse.updatedAt))
+    }
+  }
+
   /**
    * Transform database verse of the day to application format
    */
@@ -240,7 +589,7 @@ export class DataTransformers {
 
     return {
       ...note,
-      reference: this.generateVerseReference(note.book, note.chapter, note.verse),
+      reference: formatNoteReference(note),
       wordCount,
       isRecent
     }
@@ -455,6 +804,7 @@ export const transformBookmarkData = (dbData: any): any => {
     book: dbData.book || '',
     chapter: dbData.chapter || 0,
     verse: dbData.verse || 0,
+    ...DataTransformers.transformAnchor(dbData),
     createdAt: new Date(dbData.created_at || Date.now()),
     syncStatus: 'synced' as const
   }
@@ -469,6 +819,7 @@ export const transformNoteData = (dbData: any): any => {
     book: dbData.book || '',
     chapter: dbData.chapter || 0,
     verse: dbData.verse || 0,
+    ...DataTransformers.transformAnchor(dbData),
     content: dbData.content || '',
     createdAt: new Date(dbData.created_at || Date.now()),
     updatedAt: new Date(dbData.updated_at || Date.now()),
@@ -488,6 +839,12 @@ export const transformHighlightData = (dbData: any): any => {
     colorHex: dbData.color_hex || '#FFFF00',
     startOffset: dbData.start_offset,
     endOffset: dbData.end_offset,
+    ...(dbData.end_verse != null ? { endChapter: dbData.end_chapter ?? dbData.chapter, endVerse: dbData.end_verse } : {}),
+    ...(dbData.category_id ? { categoryId: dbData.category_id } : {}),
+    ...(dbData.style && dbData.style !== 'fill' ? { style: dbData.style } : {}),
+    ...DataTransformers.transformAnchor(dbData),
+    ...(dbData.quote ? { quote: dbData.quote } : {}),
+    ...(dbData.end_quote ? { endQuote: dbData.end_quote } : {}),
     createdAt: new Date(dbData.created_at || Date.now()),
     syncStatus: 'synced' as const
   }
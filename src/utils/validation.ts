@@ -455,6 +455,11 @@ export const validateHighlight = (highlight: any): boolean => {
   const isValidColor = /^#[0-9A-Fa-f]{6}$/.test(highlight.colorHex)
   const hasValidOffsets = highlight.startOffset === undefined ||
     (typeof highlight.startOffset === 'number' && highlight.startOffset >= 0)
+  // A range across verses ends on or after the verse it starts on
+  const endChapter = highlight.endChapter ?? highlight.chapter
+  const endVerse = highlight.endVerse ?? highlight.verse
+  const hasValidRange = endChapter > highlight.chapter ||
+    (endChapter === highlight.chapter && endVerse >= highlight.verse)
 
   return !!(
     highlight &&
@@ -468,6 +473,7 @@ export const validateHighlight = (highlight: any): boolean => {
     highlight.colorHex &&
     isValidColor &&
     hasValidOffsets &&
+    hasValidRange &&
     highlight.userId &&
     typeof highlight.userId === 'string'
   )
@@ -0,0 +1,212 @@
+// Version-independent anchors for user content: canonical verse keys, text
+// fingerprints, and finding a highlight's words again in another version's text.
+import type { Highlight, Verse } from '@/types'
+import type { ResolvedHighlightRange, TextQuote, VerseAnchor } from '@/types/verseAnchors'
+import type { VerseRef } from '@/types/versification'
+import { findBibleBook, getBibleBook } from './bibleBooks'
+
+// Characters of context kept either side of a highlighted quote
+const QUOTE_CONTEXT = 32
+
+// Share of words a passage must have in common with a quote to count as the same words
+const MIN_MATCH_SCORE = 0.6
+
+// Words count as the same above this bigram similarity, so "believeth" matches "believes"
+const MIN_WORD_SIMILARITY = 0.5
+
+interface WordPosition {
+  word: string
+  start: number
+  end: number
+}
+
+// Keys always use the book id, whether the reference names the book ("John") or not
+export function getVerseKey(ref: VerseRef): string {
+  const book = getBibleBook(ref.book)?.id ?? findBibleBook(ref.book)?.id ?? ref.book
+  return `${book}.${ref.chapter}.${ref.verse}`
+}
+
+export function parseVerseKey(key: string): VerseRef | null {
+  const match = key.match(/^(\w+)\.(\d+)\.(\d+)$/)
+  if (!match) return null
+
+  return { book: match[1], chapter: parseInt(match[2], 10), verse: parseInt(match[3], 10) }
+}
+
+/**
+ * FNV-1a hash of the exact verse text. It only has to tell whether offsets
+ * taken in one text still apply to another, so any change counts.
+ */
+export function fingerprintVerseText(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Anchor for content made on `verse`, whose English-numbered reference is `standardRef`
+ */
+export function createVerseAnchor(verse: Verse, standardRef: VerseRef): VerseAnchor {
+  return {
+    verseKey: getVerseKey(standardRef),
+    sourceVersion: verse.version,
+    textFingerprint: fingerprintVerseText(verse.text)
+  }
+}
+
+export function createTextQuote(text: string, startOffset: number, endOffset: number): TextQuote {
+  return {
+    exact: text.slice(startOffset, endOffset),
+    prefix: text.slice(Math.max(0, startOffset - QUOTE_CONTEXT), startOffset),
+    suffix: text.slice(endOffset, endOffset + QUOTE_CONTEXT)
+  }
+}
+
+function getWords(text: string): WordPosition[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}'’]+/gu), match => ({
+    word: match[0].toLowerCase().replace(/[’']/g, ''),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }))
+}
+
+function getBigrams(word: string): string[] {
+  if (word.length < 2) return [word]
+  return Array.from({ length: word.length - 1 }, (_, i) => word.slice(i, i + 2))
+}
+
+function scoreWord(a: string, b: string): number {
+  if (a === b) return 1
+  const bigrams = getBigrams(b)
+  const common = getBigrams(a).filter(bigram => {
+    const index = bigrams.indexOf(bigram)
+    if (index === -1) return false
+    bigrams.splice(index, 1)
+    return true
+  }).length
+  const score = (2 * common) / (Math.max(a.length - 1, 1) + Math.max(b.length - 1, 1))
+  return score >= MIN_WORD_SIMILARITY ? score : 0
+}
+
+// Dice coefficient of the two word lists, each quote word matching at most one passage word
+function scoreWords(quote: string[], passage: string[]): number {
+  const unmatched = [...quote]
+  let common = 0
+
+  passage.forEach(word => {
+    let bestIndex = -1
+    let bestScore = 0
+    unmatched.forEach((candidate, index) => {
+      const score = scoreWord(word, candidate)
+      if (score > bestScore) {
+        bestIndex = index
+        bestScore = score
+      }
+    })
+    if (bestIndex !== -1) {
+      common += bestScore
+      unmatched.splice(bestIndex, 1)
+    }
+  })
+  return (2 * common) / (quote.length + passage.length)
+}
+
+// How much of the quote's surrounding text agrees with the text around a candidate
+function scoreContext(quote: TextQuote, text: string, start: number, end: number): number {
+  const before = getWords(text.slice(0, start)).slice(-4).map(w => w.word)
+  const after = getWords(text.slice(end)).slice(0, 4).map(w => w.word)
+  const quoteBefore = getWords(quote.prefix).slice(-4).map(w => w.word)
+  const quoteAfter = getWords(quote.suffix).slice(0, 4).map(w => w.word)
+
+  return before.filter(word => quoteBefore.includes(word)).length +
+    after.filter(word => quoteAfter.includes(word)).length
+}
+
+/**
+ * Find a quote in another text: the exact words if they occur, otherwise the
+ * run of words most like them. Context breaks ties between repeated phrases.
+ */
+export function locateQuote(quote: TextQuote, text: string): { startOffset: number; endOffset: number } | null {
+  const exact = quote.exact.trim()
+  if (!exact) return null
+
+  const lowerText = text.toLowerCase()
+  const lowerExact = exact.toLowerCase()
+  const occurrences: number[] = []
+  for (let at = lowerText.indexOf(lowerExact); at !== -1; at = lowerText.indexOf(lowerExact, at + 1)) {
+    occurrences.push(at)
+  }
+  if (occurrences.length > 0) {
+    const best = occurrences.reduce((a, b) =>
+      scoreContext(quote, text, b, b + exact.length) > scoreContext(quote, text, a, a + exact.length) ? b : a
+    )
+    return { startOffset: best, endOffset: best + exact.length }
+  }
+
+  const quoteWords = getWords(exact).map(w => w.word)
+  const words = getWords(text)
+  if (quoteWords.length === 0 || words.length === 0) return null
+
+  let best: { start: number; end: number; score: number; context: number } | null = null
+  for (let i = 0; i < words.length; i++) {
+    for (let length = Math.max(1, quoteWords.length - 2); length <= quoteWords.length + 2 && i + length <= words.length; length++) {
+      const window = words.slice(i, i + length)
+      const score = scoreWords(quoteWords, window.map(w => w.word))
+      if (score < MIN_MATCH_SCORE) continue
+
+      const start = window[0].start
+      const end = window[window.length - 1].end
+      const context = scoreContext(quote, text, start, end)
+      if (!best || score > best.score || (score === best.score && context > best.context)) {
+        best = { start, end, score, context }
+      }
+    }
+  }
+
+  return best ? { startOffset: best.start, endOffset: best.end } : null
+}
+
+/**
+ * Where a highlight falls in a verse as shown in some version. Offsets are
+ * kept while the text is the one the highlight was made on; otherwise the
+ * quoted words are looked for, and the highlight is unmapped if they are gone.
+ */
+export function resolveHighlightRange(highlight: Highlight, verse: Verse): ResolvedHighlightRange {
+  if (highlight.startOffset === undefined || highlight.endOffset === undefined) {
+    return { status: 'exact' }
+  }
+
+  // Highlights from before anchoring only know their offsets, so trust them in their own version
+  const sameText = highlight.textFingerprint
+    ? highlight.textFingerprint === fingerprintVerseText(verse.text)
+    : !highlight.sourceVersion || highlight.sourceVersion === verse.version
+
+  if (sameText) {
+    return { status: 'exact', startOffset: highlight.startOffset, endOffset: highlight.endOffset }
+  }
+
+  const match = highlight.quote ? locateQuote(highlight.quote, verse.text) : null
+  return match ? { status: 'reanchored', ...match } : { status: 'unmapped' }
+}
+
+/**
+ * Content kept on verses of a chapter that a version doesn't have, such as a
+ * bookmark on Matthew 17:21 viewed in a version that leaves the verse out.
+ * `toVersionRefs` maps a stored English reference into the version's numbering.
+ */
+export function findUnplacedContent<T extends VerseRef>(
+  items: T[],
+  verses: Verse[],
+  chapter: number,
+  toVersionRefs: (ref: VerseRef) => VerseRef[]
+): T[] {
+  const present = new Set(verses.map(verse => `${verse.chapter}:${verse.verse}`))
+
+  return items.filter(item => {
+    const refs = toVersionRefs(item)
+    return refs.some(ref => ref.chapter === chapter) && !refs.some(ref => present.has(`${ref.chapter}:${ref.verse}`))
+  })
+}
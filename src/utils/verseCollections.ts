@@ -0,0 +1,192 @@
+// Verse collection ordering and sharing: verses are grouped under the collection's
+// sections in position order, and a collection travels as a bundle that imports as a copy
+import { z } from 'zod'
+import type {
+  CollectionBundle,
+  CollectionSection,
+  CollectionVerse,
+  CollectionWithVerses
+} from '@/types/personalization'
+
+export const COLLECTION_BUNDLE_FORMAT = 'illumine-collection'
+
+export interface CollectionVerseGroup {
+  section: CollectionSection | null // null for the verses before the first section
+  verses: CollectionVerse[]
+}
+
+/**
+ * Verses under their sections, in display order. Verses without a section, or in a
+ * section that no longer exists, come first; empty sections are kept so they can be
+ * filled.
+ */
+export function groupCollectionVerses(sections: CollectionSection[], verses: CollectionVerse[]): CollectionVerseGroup[] {
+  const sectionIds = new Set(sections.map(section => section.id))
+  const byPosition = [...verses].sort((a, b) => a.position - b.position || a.addedAt.getTime() - b.addedAt.getTime())
+
+  return [
+    { section: null, verses: byPosition.filter(verse => !verse.sectionId || !sectionIds.has(verse.sectionId)) },
+    ...sections.map(section => ({
+      section,
+      verses: byPosition.filter(verse => verse.sectionId === section.id)
+    }))
+  ]
+}
+
+export function orderCollectionVerses(sections: CollectionSection[], verses: CollectionVerse[]): CollectionVerse[] {
+  return groupCollectionVerses(sections, verses).flatMap(group =>
+    group.verses.map(verse => ({ ...verse, sectionId: group.section?.id ?? null }))
+  )
+}
+
+/**
+ * Move a verse to `index` within a section (null for no section) and number every
+ * verse again in display order. Returns only the verses whose section or position changed.
+ */
+export function moveCollectionVerse(
+  sections: CollectionSection[],
+  verses: CollectionVerse[],
+  verseId: string,
+  sectionId: string | null,
+  index: number
+): CollectionVerse[] {
+  const moving = verses.find(verse => verse.id === verseId)
+  if (!moving) return []
+
+  const groups = groupCollectionVerses(sections, verses.filter(verse => verse.id !== verseId))
+  const target = groups.find(group => (group.section?.id ?? null) === sectionId) ?? groups[0]
+  const at = Math.max(0, Math.min(index, target.verses.length))
+  target.verses.splice(at, 0, { ...moving, sectionId: target.section?.id ?? null })
+
+  return renumber(groups.flatMap(group => group.verses), verses)
+}
+
+/**
+ * Verses of a removed section join the end of the verses without a section
+ */
+export function releaseSectionVerses(
+  sections: CollectionSection[],
+  verses: CollectionVerse[],
+  sectionId: string
+): CollectionVerse[] {
+  const groups = groupCollectionVerses(sections, verses)
+  const released = groups.find(group => group.section?.id === sectionId)?.verses ?? []
+
+  const ordered = groups.flatMap(group => {
+    if (group.section?.id === sectionId) return []
+    if (!group.section) return [...group.verses, ...released.map(verse => ({ ...verse, sectionId: null }))]
+    return group.verses
+  })
+
+  return renumber(ordered, verses)
+}
+
+// Number the verses again in display order, e.g. after the sections were reordered
+export function renumberCollectionVerses(sections: CollectionSection[], verses: CollectionVerse[]): CollectionVerse[] {
+  return renumber(orderCollectionVerses(sections, verses), verses)
+}
+
+export function moveCollectionSection(sections: CollectionSection[], sectionId: string, index: number): CollectionSection[] {
+  const section = sections.find(candidate => candidate.id === sectionId)
+  if (!section) return sections
+
+  const rest = sections.filter(candidate => candidate.id !== sectionId)
+  rest.splice(Math.max(0, Math.min(index, rest.length)), 0, section)
+  return rest
+}
+
+function renumber(ordered: CollectionVerse[], original: CollectionVerse[]): CollectionVerse[] {
+  const before = new Map(original.map(verse => [verse.id, verse]))
+  return ordered
+    .map((verse, position) => ({ ...verse, position }))
+    .filter(verse => {
+      const previous = before.get(verse.id)
+      return !previous || previous.position !== verse.position || previous.sectionId !== verse.sectionId
+    })
+}
+
+export function createCollectionBundle(collection: CollectionWithVerses): CollectionBundle {
+  return {
+    format: COLLECTION_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    collection: {
+      name: collection.name,
+      ...(collection.description ? { description: collection.description } : {}),
+      color: collection.color,
+      icon: collection.icon,
+      tags: collection.tags,
+      sections: collection.sections,
+      ...(collection.rule ? { rule: collection.rule } : {})
+    },
+    verses: orderCollectionVerses(collection.sections, collection.verses).map(verse => ({
+      verseId: verse.verseId,
+      verseReference: verse.verseReference,
+      bibleVersionId: verse.bibleVersionId,
+      verseText: verse.verseText,
+      ...(verse.notes ? { notes: verse.notes } : {}),
+      sectionId: verse.sectionId
+    }))
+  }
+}
+
+const CollectionBundleSchema = z.object({
+  format: z.literal(COLLECTION_BUNDLE_FORMAT),
+  version: z.literal(1),
+  exportedAt: z.string(),
+  collection: z.object({
+    name: z.string().min(1).max(200),
+    description: z.string().optional(),
+    color: z.string(),
+    icon: z.string(),
+    tags: z.array(z.string()),
+    sections: z.array(z.object({ id: z.string().min(1), name: z.string().min(1) })),
+    rule: z.object({
+      source: z.enum(['highlights', 'bookmarks', 'notes', 'search']),
+      scope: z.string().optional(),
+      colorHex: z.string().optional(),
+      categoryId: z.string().optional(),
+      noteTag: z.string().optional(),
+      query: z.string().optional(),
+      version: z.string().min(1)
+    }).nullable().optional()
+  }),
+  verses: z.array(z.object({
+    verseId: z.string().min(1),
+    verseReference: z.string(),
+    bibleVersionId: z.string().min(1),
+    verseText: z.string(),
+    notes: z.string().optional(),
+    sectionId: z.string().nullable()
+  }))
+})
+
+/**
+ * Check a bundle read from a file or link before importing it
+ */
+export function parseCollectionBundle(data: unknown): CollectionBundle {
+  const result = CollectionBundleSchema.safeParse(data)
+  if (!result.success) {
+    throw new Error('This is not a verse collection export, or it is from a newer version of the app')
+  }
+  return result.data
+}
+
+// Bundles go in the fragment of a share link, so they never reach a server
+export function encodeCollectionBundle(bundle: CollectionBundle): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(bundle))
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function decodeCollectionBundle(encoded: string): CollectionBundle {
+  let json: unknown
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+    json = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))))
+  } catch {
+    throw new Error('This collection link is incomplete or damaged')
+  }
+  return parseCollectionBundle(json)
+}
@@ -0,0 +1,81 @@
+// Structured verse content: builds VerseToken lists from parser markup and
+// picks the parts the reader shows. Text tokens always join up to Verse.text.
+import type { TextStyle, VerseContentOptions, VerseMarkup, VerseToken } from '@/types/verseContent'
+
+// Styles on a text token are listed in this order, so equal runs compare equal
+const STYLE_ORDER: TextStyle[] = ['wordsOfJesus', 'divineName', 'smallCaps', 'bold', 'italic', 'added']
+
+/**
+ * Turn stand-off markup into tokens. Notes follow the text they are attached
+ * to and breaks come before the text they start, so at the same offset a note
+ * is emitted before a break.
+ */
+export function buildVerseContent(text: string, markup: VerseMarkup = {}): VerseToken[] {
+  const tokens: VerseToken[] = (markup.headings ?? []).map(heading => ({ type: 'heading', text: heading }))
+  const clamp = (offset: number) => Math.min(Math.max(offset, 0), text.length)
+
+  const styles = (markup.styles ?? [])
+    .map(range => ({ ...range, start: clamp(range.start), end: clamp(range.end) }))
+    .filter(range => range.end > range.start)
+  const notes = (markup.notes ?? []).map(note => ({ ...note, offset: clamp(note.offset) }))
+  const breaks = (markup.breaks ?? []).map(lineBreak => ({ ...lineBreak, offset: clamp(lineBreak.offset) }))
+
+  const cuts = new Set([0, text.length])
+  styles.forEach(range => { cuts.add(range.start); cuts.add(range.end) })
+  notes.forEach(note => cuts.add(note.offset))
+  breaks.forEach(lineBreak => cuts.add(lineBreak.offset))
+  const points = Array.from(cuts).sort((a, b) => a - b)
+
+  points.forEach((at, index) => {
+    notes.filter(note => note.offset === at).forEach(note => {
+      tokens.push({ type: 'note', kind: note.kind, text: note.text, ...(note.caller ? { caller: note.caller } : {}) })
+    })
+    breaks.filter(lineBreak => lineBreak.offset === at).forEach(lineBreak => {
+      tokens.push({ type: 'break', kind: lineBreak.kind, ...(lineBreak.indent ? { indent: lineBreak.indent } : {}) })
+    })
+
+    const next = points[index + 1]
+    if (next === undefined) return
+
+    const active = new Set(styles.filter(range => range.start <= at && range.end >= next).map(range => range.style))
+    const runStyles = STYLE_ORDER.filter(style => active.has(style))
+    const previous = tokens[tokens.length - 1]
+
+    if (previous?.type === 'text' && (previous.styles ?? []).join() === runStyles.join()) {
+      previous.text += text.slice(at, next)
+    } else {
+      tokens.push({ type: 'text', text: text.slice(at, next), ...(runStyles.length > 0 ? { styles: runStyles } : {}) })
+    }
+  })
+
+  return tokens
+}
+
+/**
+ * Plain text of the tokens - the same string as the verse's text
+ */
+export function getVerseContentText(tokens: VerseToken[]): string {
+  return tokens.map(token => (token.type === 'text' ? token.text : '')).join('')
+}
+
+/**
+ * Split the tokens into the headings shown above a verse and the inline body,
+ * leaving out what the reader has turned off
+ */
+export function getVisibleVerseContent(
+  tokens: VerseToken[],
+  options: VerseContentOptions
+): { headings: string[]; body: VerseToken[] } {
+  const headings: string[] = []
+  const body: VerseToken[] = []
+
+  tokens.forEach(token => {
+    if (token.type === 'heading') {
+      if (options.showHeadings) headings.push(token.text)
+    } else if (token.type !== 'note' || options.showNotes) {
+      body.push(token)
+    }
+  })
+
+  return { headings, body }
+}
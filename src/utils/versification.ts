@@ -0,0 +1,147 @@
+// Translates verse references between numbering schemes through the English scheme,
+// which is also how references in user data (bookmarks, notes) are stored.
+import type { BibleVersion, Verse } from '@/types'
+import type { VerseRef, VersificationRule, VersificationScheme } from '@/types/versification'
+import { ENGLISH_VERSE_COUNTS, VERSIFICATION_RULES } from './versificationRules'
+
+export const STANDARD_VERSIFICATION: VersificationScheme = 'english'
+
+export interface VerseAlignment {
+  primary: Verse | null
+  comparison: Verse[] // none when the verse is missing, several when the other version splits it
+}
+
+const rulesByBook = new Map<VersificationScheme, Map<string, VersificationRule[]>>()
+
+function getRules(scheme: VersificationScheme, book: string): VersificationRule[] {
+  let books = rulesByBook.get(scheme)
+  if (!books) {
+    books = new Map()
+    VERSIFICATION_RULES[scheme].forEach(rule => {
+      const list = books!.get(rule.book) ?? []
+      list.push(rule)
+      books!.set(rule.book, list)
+    })
+    rulesByBook.set(scheme, books)
+  }
+  return books.get(book) ?? []
+}
+
+/**
+ * Work out a version's scheme from its explicit setting, then its id, name
+ * and language; anything unrecognised uses the English scheme
+ */
+export function detectVersificationScheme(
+  version: Pick<BibleVersion, 'id'> & Partial<Pick<BibleVersion, 'abbreviation' | 'name' | 'language' | 'versification'>>
+): VersificationScheme {
+  if (version.versification) return version.versification
+
+  const label = `${version.id} ${version.abbreviation ?? ''} ${version.name ?? ''}`.toLowerCase()
+  if (/\b(lxx|septuagint|brenton)\b/.test(label)) return 'lxx'
+  if (/\b(vulgate|vulg?|clementine|douay|dra|drb)\b/.test(label)) return 'vulgate'
+  if (/\b(wlc|bhs|bhsa|oshb|sblgnt|na2[78]|ubs[45]|nabre?|jps|njps|tanakh)\b/.test(label)) return 'original'
+
+  switch (version.language?.toLowerCase()) {
+    case 'heb':
+    case 'hbo':
+    case 'he':
+    case 'grc':
+      return 'original'
+    case 'lat':
+    case 'la':
+      return 'vulgate'
+    default:
+      return STANDARD_VERSIFICATION
+  }
+}
+
+/**
+ * How many verses a chapter has in the English scheme, or 0 for a chapter the book doesn't have
+ */
+export function getVerseCount(book: string, chapter: number): number {
+  return ENGLISH_VERSE_COUNTS[book]?.[chapter - 1] ?? 0
+}
+
+/**
+ * The English verse a verse of the scheme corresponds to
+ */
+export function toStandardRef(ref: VerseRef, scheme: VersificationScheme): VerseRef {
+  const rule = getRules(scheme, ref.book).find(rule =>
+    rule.chapter === ref.chapter && ref.verse >= rule.start && ref.verse <= rule.end
+  )
+  if (!rule) return { book: ref.book, chapter: ref.chapter, verse: ref.verse }
+
+  return {
+    book: ref.book,
+    chapter: rule.toChapter,
+    verse: rule.oneWay ? rule.toStart : rule.toStart + ref.verse - rule.start
+  }
+}
+
+/**
+ * The verses of the scheme an English verse corresponds to - usually one,
+ * several where the scheme splits the verse
+ */
+export function fromStandardRef(ref: VerseRef, scheme: VersificationScheme): VerseRef[] {
+  const matches = getRules(scheme, ref.book)
+    .filter(rule => !rule.oneWay && rule.toChapter === ref.chapter)
+    .filter(rule => ref.verse >= rule.toStart && ref.verse <= rule.toStart + rule.end - rule.start)
+    .map(rule => ({ book: ref.book, chapter: rule.chapter, verse: rule.start + ref.verse - rule.toStart }))
+
+  return matches.length > 0 ? matches : [{ book: ref.book, chapter: ref.chapter, verse: ref.verse }]
+}
+
+export function mapVerseRef(ref: VerseRef, from: VersificationScheme, to: VersificationScheme): VerseRef[] {
+  if (from === to) return [{ book: ref.book, chapter: ref.chapter, verse: ref.verse }]
+
+  const seen = new Set<string>()
+  return fromStandardRef(toStandardRef(ref, from), to).filter(mapped => {
+    const key = `${mapped.chapter}:${mapped.verse}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Pair each verse of a chapter with the verses that translate it in another
+ * version. Comparison verses with no counterpart of their own, like psalm
+ * titles, join the row of the verse they lead into.
+ */
+export function alignVerses(
+  primary: Verse[],
+  comparison: Verse[],
+  primaryScheme: VersificationScheme,
+  comparisonScheme: VersificationScheme
+): VerseAlignment[] {
+  const key = (ref: VerseRef) => `${ref.book} ${ref.chapter}:${ref.verse}`
+  const comparisonByRef = new Map(comparison.map(verse => [key(verse), verse]))
+  const rowsByRef = new Map<string, VerseAlignment>()
+  const used = new Set<Verse>()
+
+  const rows: VerseAlignment[] = primary.map(verse => {
+    const matches = mapVerseRef(verse, primaryScheme, comparisonScheme)
+      .map(ref => comparisonByRef.get(key(ref)))
+      .filter((match): match is Verse => Boolean(match) && !used.has(match!))
+    matches.forEach(match => used.add(match))
+
+    const row = { primary: verse, comparison: matches }
+    rowsByRef.set(key(verse), row)
+    return row
+  })
+
+  comparison.filter(verse => !used.has(verse)).forEach(verse => {
+    const target = mapVerseRef(verse, comparisonScheme, primaryScheme)
+      .map(ref => rowsByRef.get(key(ref)))
+      .find(Boolean)
+
+    if (target) {
+      target.comparison = [...target.comparison, verse]
+        .sort((a, b) => a.chapter - b.chapter || a.verse - b.verse)
+    } else {
+      rows.push({ primary: null, comparison: [verse] })
+    }
+  })
+
+  return rows
+}
@@ -84,6 +84,10 @@ describe('SearchView', () => {
       // Computed properties
       downloadedVersions: { value: mockVersions },
       availableBooks: { value: mockBooks },
+      parsedQuery: { value: { root: null, filters: { books: [] }, errors: [] } },
+      queryErrors: { value: [] },
+      formattedQuery: { value: '' },
+      queryReferences: { value: [] },
       canSearch: { value: false },
       searchResultsCount: { value: 0 },
 
@@ -143,7 +147,7 @@ describe('SearchView', () => {
       const wrapper = createWrapper()
 
       const searchInput = wrapper.find('input[type="text"]')
-      expect(searchInput.attributes('placeholder')).toBe('Enter words or phrases to search for...')
+      expect(searchInput.attributes('placeholder')).toBe('Enter words or phrases, e.g. faith AND (hope OR love) book:John')
     })
   })
 
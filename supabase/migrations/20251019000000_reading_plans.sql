@@ -0,0 +1,67 @@
+-- Reading Plans Migration
+-- Adds reading plan enrollments and per-day progress, synced from IndexedDB
+
+-- Reading Plan Enrollments
+-- Ids are generated on the client so offline enrollments can be upserted later
+CREATE TABLE IF NOT EXISTS reading_plan_enrollments (
+  id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  plan_id TEXT NOT NULL,
+  start_date TIMESTAMPTZ NOT NULL,
+  status TEXT CHECK (status IN ('active', 'paused', 'completed')) DEFAULT 'active',
+  custom_plan JSONB,
+  catch_up JSONB,
+  paused_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reading Plan Progress (one row per enrollment day)
+CREATE TABLE IF NOT EXISTS reading_plan_progress (
+  id TEXT PRIMARY KEY,
+  enrollment_id TEXT REFERENCES reading_plan_enrollments(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  day INTEGER NOT NULL CHECK (day >= 1),
+  completed_chapters TEXT[] DEFAULT '{}',
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(enrollment_id, day)
+);
+
+-- RLS Policies
+ALTER TABLE reading_plan_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reading_plan_progress ENABLE ROW LEVEL SECURITY;
+
+-- Reading Plan Enrollments Policies
+CREATE POLICY "Users can view own reading plan enrollments" ON reading_plan_enrollments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reading plan enrollments" ON reading_plan_enrollments
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reading plan enrollments" ON reading_plan_enrollments
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reading plan enrollments" ON reading_plan_enrollments
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Reading Plan Progress Policies
+CREATE POLICY "Users can view own reading plan progress" ON reading_plan_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reading plan progress" ON reading_plan_progress
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reading plan progress" ON reading_plan_progress
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reading plan progress" ON reading_plan_progress
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- No updated_at triggers: the client owns updated_at so sync can compare timestamps
+
+-- Indexes
+CREATE INDEX idx_reading_plan_enrollments_user ON reading_plan_enrollments(user_id);
+CREATE INDEX idx_reading_plan_progress_user ON reading_plan_progress(user_id);
+CREATE INDEX idx_reading_plan_progress_enrollment ON reading_plan_progress(enrollment_id, day);
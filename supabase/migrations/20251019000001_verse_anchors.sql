@@ -0,0 +1,30 @@
+-- Verse Anchors Migration
+-- Keys bookmarks, notes and highlights by a version-independent verse and records
+-- the version and text they were made against, so they can follow the verse across versions
+
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS verse_key TEXT,
+  ADD COLUMN IF NOT EXISTS source_version TEXT,
+  ADD COLUMN IF NOT EXISTS text_fingerprint TEXT;
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS verse_key TEXT,
+  ADD COLUMN IF NOT EXISTS source_version TEXT,
+  ADD COLUMN IF NOT EXISTS text_fingerprint TEXT;
+
+-- quote holds the highlighted words and their context: { exact, prefix, suffix }
+ALTER TABLE public.highlights
+  ADD COLUMN IF NOT EXISTS verse_key TEXT,
+  ADD COLUMN IF NOT EXISTS source_version TEXT,
+  ADD COLUMN IF NOT EXISTS text_fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS quote JSONB;
+
+-- Existing rows use English verse numbering, so their reference is already the key
+UPDATE public.bookmarks SET verse_key = book || '.' || chapter || '.' || verse WHERE verse_key IS NULL;
+UPDATE public.notes SET verse_key = book || '.' || chapter || '.' || verse WHERE verse_key IS NULL;
+UPDATE public.highlights SET verse_key = book || '.' || chapter || '.' || verse WHERE verse_key IS NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_bookmarks_verse_key ON public.bookmarks(user_id, verse_key);
+CREATE INDEX IF NOT EXISTS idx_notes_verse_key ON public.notes(user_id, verse_key);
+CREATE INDEX IF NOT EXISTS idx_highlights_verse_key ON public.highlights(user_id, verse_key);
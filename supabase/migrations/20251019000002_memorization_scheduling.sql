@@ -0,0 +1,53 @@
+-- Memorization Scheduling Migration
+-- Persists per-card spaced repetition state (SM-2 ease and FSRS stability/difficulty)
+-- and logs every review, which daily limits and streaks are counted from
+
+ALTER TABLE memorization_cards
+  ADD COLUMN IF NOT EXISTS algorithm TEXT NOT NULL DEFAULT 'sm2' CHECK (algorithm IN ('sm2', 'fsrs')),
+  ADD COLUMN IF NOT EXISTS ease_factor REAL NOT NULL DEFAULT 2.5,
+  ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stability REAL,
+  ADD COLUMN IF NOT EXISTS memory_difficulty REAL CHECK (memory_difficulty BETWEEN 1 AND 10),
+  ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+-- Existing cards were never given an interval, so carry over what their review count implies
+UPDATE memorization_cards
+SET repetitions = review_count,
+    interval_days = CASE WHEN review_count = 0 THEN 0 WHEN review_count = 1 THEN 1 ELSE 6 END
+WHERE repetitions = 0 AND review_count > 0;
+
+-- Memorization Review Log
+CREATE TABLE IF NOT EXISTS memorization_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  card_id UUID REFERENCES memorization_cards(id) ON DELETE CASCADE NOT NULL,
+  quality SMALLINT NOT NULL CHECK (quality BETWEEN 0 AND 5),
+  algorithm TEXT NOT NULL CHECK (algorithm IN ('sm2', 'fsrs')),
+  was_new BOOLEAN NOT NULL DEFAULT FALSE,
+  previous_interval INTEGER NOT NULL DEFAULT 0,
+  interval_days INTEGER NOT NULL,
+  ease_factor REAL NOT NULL,
+  stability REAL,
+  memory_difficulty REAL,
+  time_spent INTEGER NOT NULL DEFAULT 0, -- milliseconds
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS Policies
+ALTER TABLE memorization_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Review log rows are never edited, only added and removed with their card
+CREATE POLICY "Users can view own memorization reviews" ON memorization_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own memorization reviews" ON memorization_reviews
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memorization reviews" ON memorization_reviews
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_memorization_reviews_user_date ON memorization_reviews(user_id, reviewed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_memorization_reviews_card ON memorization_reviews(card_id, reviewed_at DESC);
@@ -0,0 +1,9 @@
+-- Offline Memorization Migration
+-- Cards and review log rows are created in IndexedDB with client-generated ids and
+-- upserted by the sync queue, which compares updated_at to detect conflicting reviews
+
+-- The client owns updated_at so sync can compare timestamps
+DROP TRIGGER IF EXISTS update_memorization_cards_updated_at ON memorization_cards;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_memorization_cards_user ON memorization_cards(user_id, updated_at);
@@ -0,0 +1,11 @@
+-- Memorization Review Modes Migration
+-- Cards can keep their own recall exercise (first letters, cloze, scramble, typed),
+-- and each logged review records which exercise produced its quality score
+
+ALTER TABLE memorization_cards
+  ADD COLUMN IF NOT EXISTS review_mode TEXT
+    CHECK (review_mode IN ('reveal', 'first-letter', 'cloze', 'scramble', 'typed'));
+
+ALTER TABLE memorization_reviews
+  ADD COLUMN IF NOT EXISTS review_mode TEXT NOT NULL DEFAULT 'reveal'
+    CHECK (review_mode IN ('reveal', 'first-letter', 'cloze', 'scramble', 'typed'));
@@ -0,0 +1,24 @@
+-- Memorization Passages Migration
+-- A passage is memorized as chunk cards sharing a passage_id that unlock one after
+-- another, plus a whole-passage recitation card (chunk_index NULL) that unlocks last
+
+ALTER TABLE memorization_cards
+  ADD COLUMN IF NOT EXISTS passage_id UUID,
+  ADD COLUMN IF NOT EXISTS passage_reference TEXT,
+  ADD COLUMN IF NOT EXISTS chunk_index INTEGER CHECK (chunk_index >= 0),
+  ADD COLUMN IF NOT EXISTS chunk_count INTEGER CHECK (chunk_count >= 0),
+  ADD COLUMN IF NOT EXISTS locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_memorization_cards_passage ON memorization_cards(passage_id) WHERE passage_id IS NOT NULL;
+
+-- Passage cards share verse ids with each other and with standalone cards, so only
+-- standalone cards stay one per verse and version; a passage has one card per chunk
+-- and one recitation card
+ALTER TABLE memorization_cards
+  DROP CONSTRAINT IF EXISTS memorization_cards_user_id_verse_id_bible_version_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memorization_cards_verse
+  ON memorization_cards(user_id, verse_id, bible_version_id) WHERE passage_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memorization_cards_passage_chunk
+  ON memorization_cards(passage_id, chunk_index) NULLS NOT DISTINCT WHERE passage_id IS NOT NULL;
@@ -0,0 +1,57 @@
+-- Note Passages and Notebooks Migration
+-- Notes can cover a verse, a range (through end_chapter/end_verse), a whole chapter
+-- (verse NULL) or nothing (book NULL), and can be ordered and tagged inside notebooks.
+-- Notes are matched across devices by the client-generated client_id.
+
+CREATE TABLE IF NOT EXISTS note_notebooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE note_notebooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notebooks" ON note_notebooks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notebooks" ON note_notebooks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notebooks" ON note_notebooks
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notebooks" ON note_notebooks
+  FOR DELETE USING (auth.uid() = user_id);
+
+ALTER TABLE public.notes
+  ALTER COLUMN book DROP NOT NULL,
+  ALTER COLUMN chapter DROP NOT NULL,
+  ALTER COLUMN verse DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS client_id TEXT,
+  ADD COLUMN IF NOT EXISTS end_chapter INTEGER,
+  ADD COLUMN IF NOT EXISTS end_verse INTEGER,
+  ADD COLUMN IF NOT EXISTS notebook_id UUID REFERENCES note_notebooks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- A chapter needs a book, a verse needs a chapter, and a range ends after it starts
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_location_check CHECK (
+    (chapter IS NULL OR book IS NOT NULL) AND
+    (verse IS NULL OR chapter IS NOT NULL) AND
+    (end_chapter IS NULL OR end_chapter >= chapter) AND
+    (end_verse IS NULL OR verse IS NOT NULL)
+  );
+
+-- The client owns updated_at so sync can compare timestamps
+DROP TRIGGER IF EXISTS update_notes_updated_at ON public.notes;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notes_client_id ON public.notes(user_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_notes_notebook ON public.notes(notebook_id, position) WHERE notebook_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_tags ON public.notes USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_note_notebooks_user ON note_notebooks(user_id, position);
@@ -0,0 +1,30 @@
+-- Note Revisions Migration
+-- An append-only log of note content. Each device writes revisions with client-generated
+-- ids; revisions sharing a parent are siblings, which keeps both sides of a sync conflict.
+
+CREATE TABLE IF NOT EXISTS note_revisions (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  note_client_id TEXT NOT NULL,
+  parent_revision_id UUID REFERENCES note_revisions(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  origin TEXT NOT NULL DEFAULT 'edit' CHECK (origin IN ('edit', 'restore', 'conflict')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Revisions go with their note
+  FOREIGN KEY (user_id, note_client_id) REFERENCES public.notes(user_id, client_id) ON DELETE CASCADE
+);
+
+ALTER TABLE note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: no update policy
+CREATE POLICY "Users can view own note revisions" ON note_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own note revisions" ON note_revisions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own note revisions" ON note_revisions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_note_revisions_note ON note_revisions(user_id, note_client_id, created_at);
@@ -0,0 +1,37 @@
+-- Highlight Categories Migration
+-- User-defined meanings for highlight colors (promises, commands, ...). A highlight in a
+-- category is shown in the category's color, so recoloring a category recolors its highlights.
+
+CREATE TABLE IF NOT EXISTS highlight_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  color_hex TEXT NOT NULL CHECK (color_hex ~ '^#[0-9A-Fa-f]{6}$'),
+  icon TEXT CHECK (icon IS NULL OR char_length(icon) <= 16),
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE highlight_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own highlight categories" ON highlight_categories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own highlight categories" ON highlight_categories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own highlight categories" ON highlight_categories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own highlight categories" ON highlight_categories
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Deleting a category keeps its highlights in their own color
+ALTER TABLE public.highlights
+  ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES highlight_categories(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_highlight_categories_user ON highlight_categories(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_highlights_category ON public.highlights(category_id) WHERE category_id IS NOT NULL;
@@ -0,0 +1,22 @@
+-- Highlight Ranges Migration
+-- A highlight can start mid-verse and end several verses later: start_offset is into the
+-- first verse, end_offset into the last (end_chapter/end_verse), and end_quote holds the
+-- last verse's words for finding them in other versions. style says how it is drawn.
+
+ALTER TABLE public.highlights
+  ADD COLUMN IF NOT EXISTS end_chapter INTEGER,
+  ADD COLUMN IF NOT EXISTS end_verse INTEGER,
+  ADD COLUMN IF NOT EXISTS end_quote JSONB,
+  ADD COLUMN IF NOT EXISTS style TEXT NOT NULL DEFAULT 'fill'
+    CHECK (style IN ('fill', 'underline', 'box'));
+
+-- A range ends on or after the verse it starts on
+ALTER TABLE public.highlights
+  ADD CONSTRAINT highlights_range_order CHECK (
+    end_chapter IS NULL OR end_verse IS NULL OR
+    end_chapter > chapter OR (end_chapter = chapter AND end_verse >= verse)
+  );
+
+-- Finding the highlights that end in a chapter
+CREATE INDEX IF NOT EXISTS idx_highlights_range_end ON public.highlights(user_id, book, end_chapter)
+  WHERE end_chapter IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Offline Verse Collections Migration
+-- Collections and their verses are created in IndexedDB with client-generated ids and
+-- upserted by the sync queue. A collection keeps its named sections in display order;
+-- each verse has a section (or none) and a position within the whole collection.
+
+ALTER TABLE verse_collections
+  ADD COLUMN IF NOT EXISTS sections JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE collection_verses
+  ADD COLUMN IF NOT EXISTS section_id TEXT,
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing verses keep the order they were added in
+UPDATE collection_verses
+SET position = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY collection_id ORDER BY added_at) - 1 AS position
+  FROM collection_verses
+) AS ordered
+WHERE collection_verses.id = ordered.id;
+
+UPDATE collection_verses SET updated_at = added_at WHERE updated_at IS NULL;
+
+-- The client owns updated_at so sync can compare timestamps
+DROP TRIGGER IF EXISTS update_verse_collections_updated_at ON verse_collections;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_verse_collections_user ON verse_collections(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_collection_verses_position ON collection_verses(collection_id, position);
@@ -0,0 +1,7 @@
+-- Smart Collections Migration
+-- A smart collection stores a rule instead of verses: the source (highlights,
+-- bookmarks, notes or a search) and the conditions that narrow it. Each device
+-- evaluates the rule against its own local data, so only the rule is synced.
+
+ALTER TABLE verse_collections
+  ADD COLUMN IF NOT EXISTS rule JSONB;
@@ -0,0 +1,95 @@
+-- Delta Sync Migration
+-- Bookmarks, notes and highlights are pulled incrementally. Every write stamps the row
+-- with the next value of a shared sequence (sync_version), and devices keep the highest
+-- version they have applied per table as a cursor. Deletes leave a tombstone (deleted_at)
+-- so they reach other devices. Rows are matched across devices by client_id, the id the
+-- client made them with, instead of by verse.
+
+CREATE SEQUENCE IF NOT EXISTS sync_version_seq;
+
+CREATE OR REPLACE FUNCTION set_sync_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.sync_version := nextval('sync_version_seq');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bookmarks: one per verse is now enforced on the device, so a bookmark removed and
+-- made again on the same verse can sit beside its tombstone
+ALTER TABLE public.bookmarks
+  DROP CONSTRAINT IF EXISTS bookmarks_user_id_book_chapter_verse_key,
+  ADD COLUMN IF NOT EXISTS client_id TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sync_version BIGINT NOT NULL DEFAULT nextval('sync_version_seq');
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sync_version BIGINT NOT NULL DEFAULT nextval('sync_version_seq');
+
+ALTER TABLE public.highlights
+  ADD COLUMN IF NOT EXISTS client_id TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sync_version BIGINT NOT NULL DEFAULT nextval('sync_version_seq');
+
+UPDATE public.bookmarks SET updated_at = created_at;
+UPDATE public.highlights SET updated_at = created_at;
+
+-- Rows from before client ids keep client_id NULL; the first device to pull one claims
+-- it for the local row on the same verse
+
+CREATE TRIGGER set_bookmarks_sync_version
+  BEFORE INSERT OR UPDATE ON public.bookmarks
+  FOR EACH ROW EXECUTE FUNCTION set_sync_version();
+
+CREATE TRIGGER set_notes_sync_version
+  BEFORE INSERT OR UPDATE ON public.notes
+  FOR EACH ROW EXECUTE FUNCTION set_sync_version();
+
+CREATE TRIGGER set_highlights_sync_version
+  BEFORE INSERT OR UPDATE ON public.highlights
+  FOR EACH ROW EXECUTE FUNCTION set_sync_version();
+
+-- A deleted note's history goes with it, as it did when notes were deleted outright
+CREATE OR REPLACE FUNCTION delete_tombstoned_note_revisions()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM note_revisions
+  WHERE user_id = NEW.user_id AND note_client_id = NEW.client_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER delete_tombstoned_note_revisions
+  AFTER UPDATE OF deleted_at ON public.notes
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION delete_tombstoned_note_revisions();
+
+-- Revisions of a deleted note are refused like revisions of a missing one, so devices
+-- that were offline drop them
+CREATE OR REPLACE FUNCTION reject_tombstoned_note_revisions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.notes
+    WHERE user_id = NEW.user_id AND client_id = NEW.note_client_id AND deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Note % was deleted', NEW.note_client_id USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reject_tombstoned_note_revisions
+  BEFORE INSERT ON note_revisions
+  FOR EACH ROW EXECUTE FUNCTION reject_tombstoned_note_revisions();
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookmarks_client_id ON public.bookmarks(user_id, client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_highlights_client_id ON public.highlights(user_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_sync_version ON public.bookmarks(user_id, sync_version);
+CREATE INDEX IF NOT EXISTS idx_notes_sync_version ON public.notes(user_id, sync_version);
+CREATE INDEX IF NOT EXISTS idx_highlights_sync_version ON public.highlights(user_id, sync_version);
@@ -26,35 +26,12 @@ export default defineConfig(({ command, mode }) => {
     ...(isProduction ? [] : [vueDevTools()]),
     VitePWA({
       registerType: 'autoUpdate',
-      workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
-        runtimeCaching: [
-          {
-            urlPattern: /^https:\/\/api\.scripture\.api\.bible\/.*/i,
-            handler: 'CacheFirst',
-            options: {
-              cacheName: 'bible-api-cache',
-              expiration: {
-                maxEntries: 100,
-                maxAgeSeconds: 60 * 60 * 24 * 30 // 30 days
-              }
-            }
-          },
-          {
-            urlPattern: /^https:\/\/.*\.supabase\.co\/rest\/.*/i,
-            handler: 'NetworkFirst',
-            options: {
-              cacheName: 'supabase-api-cache',
-              expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 60 * 60 * 24 // 1 day
-              },
-              networkTimeoutSeconds: 3
-            }
-          }
-        ],
-        skipWaiting: true,
-        clientsClaim: true
+      // Our own worker (src/sw.ts) so it can show reminders; runtime caching lives there too
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      injectManifest: {
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}']
       },
       manifest: {
         name: env.VITE_APP_NAME || 'Illumine Bible App',
@@ -77,7 +54,8 @@ export default defineConfig(({ command, mode }) => {
         ]
       },
       devOptions: {
-        enabled: true
+        enabled: true,
+        type: 'module'
       }
     })
   ],